@@ -0,0 +1,65 @@
+/**
+ * Look for contradictions inside each party's government plan and between
+ * the plan and its candidates' proposals
+ * Pending findings are replaced; findings reviewed by an admin are kept
+ *
+ * Usage:
+ *   pnpm analyze:consistency               # every party
+ *   pnpm analyze:consistency --party pln
+ */
+
+import { createSupabaseClient } from '../src/db/supabase.js';
+import { PartiesService } from '../src/db/services/parties.service.js';
+import { CandidatesService } from '../src/db/services/candidates.service.js';
+import { ConsistencyService } from '../src/db/services/consistency.service.js';
+import { ProposalMatrixService } from '../src/db/services/proposal-matrix.service.js';
+import { ConsistencyAnalyzer } from '../src/rag/components/ConsistencyAnalyzer.js';
+import { ProviderFactory } from '../src/factory/ProviderFactory.js';
+import { Logger } from '@ticobot/shared';
+
+const logger = new Logger('AnalyzeConsistency');
+
+function readList(args: string[], flag: string): string[] | undefined {
+  const values = args
+    .flatMap((arg, index) => (arg === flag && args[index + 1] ? [args[index + 1].toLowerCase()] : []));
+  return values.length > 0 ? values : undefined;
+}
+
+async function main() {
+  const partyKeys = readList(process.argv.slice(2), '--party');
+
+  const supabase = createSupabaseClient();
+  const candidatesService = new CandidatesService(supabase);
+  const consistencyService = new ConsistencyService(supabase);
+
+  const parties = (await new PartiesService(supabase).findAll())
+    .filter(party => !partyKeys ||
+      partyKeys.includes(party.slug) || partyKeys.includes(party.abbreviation?.toLowerCase() ?? ''));
+  const topics = await new ProposalMatrixService(supabase).listTopics({ activeOnly: true });
+  const analyzer = new ConsistencyAnalyzer(await ProviderFactory.getLLMProvider());
+
+  logger.info(`🚀 Analyzing ${parties.length} parties on ${topics.length} topics...`);
+
+  let total = 0;
+  for (const party of parties) {
+    try {
+      const candidates = await candidatesService.findByPartyId(party.id);
+      const { findings, failedTopics } = await analyzer.analyze(party, topics, candidates);
+      const stored = await consistencyService.replaceForParty(party.id, findings);
+      total += stored;
+
+      logger.info(`   ${party.slug}: ${findings.length} contradictions, ${stored} new${failedTopics ? `, ${failedTopics} topics failed` : ''}`);
+    } catch (error) {
+      logger.error(`   ❌ ${party.slug}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  logger.info(`\n📊 Stored ${total} findings pending review`);
+}
+
+try {
+  await main();
+} catch (error) {
+  logger.error('Fatal error:', error);
+  process.exit(1);
+}
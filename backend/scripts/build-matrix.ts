@@ -0,0 +1,65 @@
+/**
+ * Build the topic x party proposal matrix
+ * Only cells whose party document changed since they were built are rebuilt
+ *
+ * Usage:
+ *   pnpm build:matrix                      # every party and active topic
+ *   pnpm build:matrix --party pln --topic salud
+ *   pnpm build:matrix --force              # rebuild up to date cells too
+ */
+
+import { createSupabaseClient } from '../src/db/supabase.js';
+import { PartiesService } from '../src/db/services/parties.service.js';
+import { ProposalMatrixService } from '../src/db/services/proposal-matrix.service.js';
+import { ProposalMatrixBuilder } from '../src/rag/components/ProposalMatrixBuilder.js';
+import { Logger } from '@ticobot/shared';
+
+const logger = new Logger('BuildMatrix');
+
+function readList(args: string[], flag: string): string[] | undefined {
+  const values = args
+    .flatMap((arg, index) => (arg === flag && args[index + 1] ? [args[index + 1].toLowerCase()] : []));
+  return values.length > 0 ? values : undefined;
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const force = args.includes('--force');
+  const partyKeys = readList(args, '--party');
+  const topicSlugs = readList(args, '--topic');
+
+  const supabase = createSupabaseClient();
+  const matrixService = new ProposalMatrixService(supabase);
+  const partiesService = new PartiesService(supabase);
+
+  const partyIds = partyKeys
+    ? (await partiesService.findAll())
+        .filter(party => partyKeys.includes(party.slug) || partyKeys.includes(party.abbreviation?.toLowerCase() ?? ''))
+        .map(party => party.id)
+    : undefined;
+  const topicIds = topicSlugs
+    ? (await matrixService.listTopics())
+        .filter(topic => topicSlugs.includes(topic.slug))
+        .map(topic => topic.id)
+    : undefined;
+
+  logger.info(`🚀 Building proposal matrix${force ? ' (forced)' : ''}...`);
+
+  const result = await new ProposalMatrixBuilder(matrixService, partiesService)
+    .build({ partyIds, topicIds, force });
+
+  logger.info(`\n📊 Proposal matrix:`);
+  logger.info(`   ✅ Built: ${result.built}`);
+  logger.info(`   ⏭️  Up to date: ${result.skipped}`);
+  logger.info(`   ❌ Failed: ${result.failed}`);
+  if (result.partiesWithoutDocument.length > 0) {
+    logger.info(`   ⚠️  Parties without an ingested plan: ${result.partiesWithoutDocument.join(', ')}`);
+  }
+}
+
+try {
+  await main();
+} catch (error) {
+  logger.error('Fatal error:', error);
+  process.exit(1);
+}
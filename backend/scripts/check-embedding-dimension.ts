@@ -0,0 +1,56 @@
+#!/usr/bin/env tsx
+
+/**
+ * Check that the embeddings stored in the vector index match the
+ * dimension of the configured EMBEDDING_PROVIDER
+ *
+ * Usage:
+ *   tsx backend/scripts/check-embedding-dimension.ts
+ */
+
+import { Logger } from '@ticobot/shared';
+import { ProviderFactory } from '../src/factory/ProviderFactory.js';
+import {
+    checkEmbeddingDimension,
+    describeDimensionMismatch,
+    hasEmbeddingDimension,
+} from '../src/providers/embedding/embeddingDimension.js';
+import { env } from '../src/config/env.js';
+
+const logger = new Logger('CheckEmbeddingDimension');
+
+async function checkDimension(): Promise<boolean> {
+    const embeddingProvider = await ProviderFactory.getEmbeddingProvider();
+    const vectorStore = await ProviderFactory.getVectorStore();
+
+    if (!hasEmbeddingDimension(vectorStore)) {
+        logger.error(`❌ Vector store "${env.VECTOR_STORE}" does not report its embedding dimension`);
+        return false;
+    }
+
+    const check = await checkEmbeddingDimension(embeddingProvider, vectorStore);
+
+    logger.info(`Embedding provider: ${env.EMBEDDING_PROVIDER} (${check.model})`);
+    logger.info(`   Provider dimension: ${check.expected}`);
+    logger.info(`   Stored dimension:   ${check.stored ?? 'none (empty index)'}`);
+    logger.info(`   Column dimension:   ${check.column ?? 'any'}`);
+
+    const mismatch = describeDimensionMismatch(check);
+    if (mismatch) {
+        logger.error(`❌ Dimension mismatch: ${mismatch}`);
+        return false;
+    }
+
+    logger.info('✅ Stored embeddings match the configured provider');
+    return true;
+}
+
+// Run if executed directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+    checkDimension()
+        .then((matches) => process.exit(matches ? 0 : 1))
+        .catch((error) => {
+            logger.error('❌ Script failed:', error);
+            process.exit(1);
+        });
+}
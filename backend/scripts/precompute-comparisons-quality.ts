@@ -9,6 +9,7 @@ import { createSupabaseClient } from '../src/db/supabase.js';
 import { RAGPipeline } from '../src/rag/components/RAGPipeline.js';
 import { ComparisonsCacheService } from '../src/db/services/comparisons-cache.service.js';
 import { PartiesService } from '../src/db/services/parties.service.js';
+import { getPartyRegistry } from '../src/db/services/party-registry.service.js';
 import { Logger } from '@ticobot/shared';
 
 const logger = new Logger('PrecomputeQuality');
@@ -25,31 +26,24 @@ const COMMON_TOPICS = [
   'Corrupción',
 ];
 
-// Top 5 party slugs
-const TOP_5_SLUGS = {
-  PLN: 'pln',
-  PUSC: 'pusc',
-  CAC: 'cac',
-  FA: 'fa',
-  PUEBLO_SOBERANO: 'pueblo-soberano',
-};
-
-// Common party combinations for top 5
-const TOP_5_COMBINATIONS = [
-  // Individuales (5 partidos)
-  [TOP_5_SLUGS.PLN],
-  [TOP_5_SLUGS.PUSC],
-  [TOP_5_SLUGS.CAC],
-  [TOP_5_SLUGS.FA],
-  [TOP_5_SLUGS.PUEBLO_SOBERANO],
-
-  // Combinaciones principales (5 combinaciones)
-  [TOP_5_SLUGS.PLN, TOP_5_SLUGS.PUSC, TOP_5_SLUGS.CAC, TOP_5_SLUGS.FA], // Top 4
-  [TOP_5_SLUGS.PLN, TOP_5_SLUGS.PUSC],                                   // Tradicionales
-  [TOP_5_SLUGS.PLN, TOP_5_SLUGS.CAC],                                    // PLN vs nuevo
-  [TOP_5_SLUGS.PUSC, TOP_5_SLUGS.CAC],                                   // PUSC vs nuevo
-  [TOP_5_SLUGS.PLN, TOP_5_SLUGS.PUSC, TOP_5_SLUGS.CAC],                 // Top 3
-];
+/**
+ * Common party combinations of the featured parties (top 5, by featured rank)
+ */
+function buildCombinations(featuredSlugs: string[]): string[][] {
+  const [first, second, third, fourth] = featuredSlugs;
+
+  return [
+    // Individuales (5 partidos)
+    ...featuredSlugs.map(slug => [slug]),
+
+    // Combinaciones principales (5 combinaciones)
+    [first, second, third, fourth], // Top 4
+    [first, second],                // Top 2
+    [first, third],
+    [second, third],
+    [first, second, third],         // Top 3
+  ].filter(combination => combination.every(Boolean));
+}
 
 async function precomputeComparison(
   topic: string,
@@ -158,7 +152,9 @@ async function main() {
   logger.info('Quality Settings:');
   logger.info('  - topKPerParty: 5 (more context per party)');
   logger.info('  - Cache expiration: 30 days');
-  logger.info('  - Parties: PLN, PUSC, CAC, FA, Pueblo Soberano');
+  const featuredParties = (await getPartyRegistry().featured()).slice(0, 5);
+  const combinations = buildCombinations(featuredParties.map(party => party.slug));
+  logger.info(`  - Parties: ${featuredParties.map(party => party.abbreviation || party.name).join(', ')}`);
   logger.info('');
 
   const supabase = createSupabaseClient();
@@ -173,7 +169,7 @@ async function main() {
 
   // Pre-compute all combinations
   for (const topic of COMMON_TOPICS) {
-    for (const partyCombination of TOP_5_COMBINATIONS) {
+    for (const partyCombination of combinations) {
       total++;
       try {
         const result = await precomputeComparison(
@@ -3,13 +3,16 @@
 /**
  * Re-ingest All Government Plans
  * 
- * This script performs a full re-ingestion of all government plan PDFs:
- * 1. Deletes all existing chunks and documents from the database
+ * This script re-ingests all government plan PDFs:
+ * 1. With --clean, deletes all existing chunks and documents from the database
  * 2. Iterates through all TSE plans
  * 3. Ingests each PDF with quality scoring and keyword extraction
+ *
+ * Without --clean the ingestion is incremental: unchanged PDFs are skipped and
+ * only the chunks whose text changed are embedded again.
  * 
  * Usage:
- *   tsx backend/scripts/reingest-all-plans.ts
+ *   tsx backend/scripts/reingest-all-plans.ts [--clean]
  * 
  * Environment Variables Required:
  *   - EMBEDDING_PROVIDER (default: 'openai')
@@ -142,9 +145,13 @@ async function reingestDocument(
         });
 
         if (result.success) {
+            const diff = result.diff;
             logger.info(
-                `[${partyName}] ✅ Success - ${result.chunks?.length || 0} chunks created ` +
-                `(${result.stats.totalTime}ms)`
+                diff && !diff.sourceChanged
+                    ? `[${partyName}] ✅ Unchanged - ${diff.currentChunks} chunks kept (${result.stats.totalTime}ms)`
+                    : `[${partyName}] ✅ Success - ${result.chunks?.length || 0} chunks ` +
+                      (diff ? `(${diff.added} added, ${diff.modified} modified, ${diff.removed} removed, ${diff.embedded} embedded) ` : '') +
+                      `(${result.stats.totalTime}ms)`
             );
             return { success: true };
         } else {
@@ -166,15 +173,17 @@ async function reingestDocument(
  */
 async function reingestAllPlans(): Promise<void> {
     const startTime = Date.now();
-    logger.info('🚀 Starting full re-ingestion of all government plans');
+    logger.info(`🚀 Starting ${process.argv.includes('--clean') ? 'full' : 'incremental'} re-ingestion of all government plans`);
     logger.info(`📋 Total plans to process: ${TSE_PLANS.length}`);
 
-    // Step 1: Delete existing data
-    try {
-        await deleteAllChunksAndDocuments();
-    } catch (error) {
-        logger.error('Failed to delete existing data. Aborting re-ingestion.');
-        process.exit(1);
+    // Step 1: Delete existing data (full rebuild only)
+    if (process.argv.includes('--clean')) {
+        try {
+            await deleteAllChunksAndDocuments();
+        } catch (error) {
+            logger.error('Failed to delete existing data. Aborting re-ingestion.');
+            process.exit(1);
+        }
     }
 
     // Step 2: Initialize ingestion pipeline
@@ -5,7 +5,7 @@
  *
  * This script re-ingests ONLY the top 5 parties with optimized parameters
  * for maximum quality:
- * - PLN, PUSC, CAC, FA, Pueblo Soberano
+ * - The featured parties of the party registry (PLN, CAC, PS, FA, PUSC)
  * - Larger chunks for better context
  * - Higher overlap for better coherence
  * - Best embedding model
@@ -24,6 +24,8 @@ import { IngestPipeline } from '../src/ingest/components/IngestPipeline.js';
 import { TSE_PLANS } from '../scraped-plans.js';
 import { createClient } from '@supabase/supabase-js';
 import { Logger } from '@ticobot/shared';
+import { PartiesService, type Party } from '../src/db/services/parties.service.js';
+import { PartyRegistry } from '../src/db/services/party-registry.service.js';
 import path from 'path';
 import fs from 'fs/promises';
 
@@ -40,41 +42,18 @@ if (!supabaseKey) {
 
 const supabase = createClient(supabaseUrl, supabaseKey);
 
-// Top 5 parties to ingest (by slug)
-const TOP_5_PARTY_SLUGS = [
-    'liberacion-nacional', // PLN slug
-    'pusc', // or 'unidad-social-cristiana'
-    'cac', // or 'coalicion-agenda-ciudadana'
-    'fa', // or 'frente-amplio'
-    'pueblo-soberano'
-];
-
-// Map party slugs to possible variations in TSE_PLANS
-const SLUG_VARIATIONS: Record<string, string[]> = {
-    'liberacion-nacional': ['pln', 'liberacion-nacional'], // PLN: busca por 'pln' en documentId pero slug es 'liberacion-nacional'
-    'pusc': ['pusc', 'unidad-social-cristiana'],
-    'cac': ['cac', 'coalicion-agenda-ciudadana'],
-    'fa': ['fa', 'frente-amplio'],
-    'pueblo-soberano': ['pueblo-soberano', 'ppso'] // PPSO es la abreviación en TSE
-};
+// Featured parties (top 5) come from the party registry
+const partyRegistry = new PartyRegistry(() => new PartiesService(supabase).findAll());
 
 /**
  * Delete chunks and documents for top 5 parties only
  */
-async function deleteTop5Data(): Promise<void> {
+async function deleteTop5Data(parties: Party[]): Promise<void> {
     logger.info('Deleting existing data for top 5 parties...');
 
     try {
-        // Get party IDs for top 5
-        const { data: parties, error: partiesError } = await supabase
-            .from('parties')
-            .select('id, slug')
-            .in('slug', TOP_5_PARTY_SLUGS);
-
-        if (partiesError) throw partiesError;
-
-        if (!parties || parties.length === 0) {
-            logger.warn('⚠️  No parties found with top 5 slugs');
+        if (parties.length === 0) {
+            logger.warn('⚠️  No featured parties in the party registry');
             return;
         }
 
@@ -187,19 +166,15 @@ async function checkLocalPDF(documentId: string): Promise<string | null> {
 
 /**
  * Check if plan matches top 5 parties
+ * The documentId prefix (e.g. "ppso-2026") is a slug, abbreviation or TSE document party id
  */
-function isTop5Plan(plan: typeof TSE_PLANS[0]): boolean {
-    const documentId = plan.documentId.toLowerCase();
+function isTop5Plan(plan: typeof TSE_PLANS[0], parties: Party[]): boolean {
+    const planKey = plan.documentId.split('-')[0].toLowerCase();
 
-    for (const [slug, variations] of Object.entries(SLUG_VARIATIONS)) {
-        for (const variation of variations) {
-            if (documentId.includes(variation)) {
-                return true;
-            }
-        }
-    }
-
-    return false;
+    return parties.some(party =>
+        [party.slug, party.abbreviation, party.document_party_id]
+            .some(key => key?.toLowerCase() === planKey)
+    );
 }
 
 /**
@@ -261,7 +236,8 @@ async function reingestDocument(
 async function main() {
     logger.info('🚀 Starting Top 5 Quality Re-ingestion');
     logger.info('='.repeat(60));
-    logger.info('Parties: PLN, PUSC, CAC, FA, Pueblo Soberano');
+    const featuredParties = await partyRegistry.featured();
+    logger.info(`Parties: ${featuredParties.map(party => party.abbreviation || party.name).join(', ')}`);
     logger.info('Quality Settings:');
     logger.info('  - Chunk size: 600 tokens (increased context)');
     logger.info('  - Max chunk: 1200 tokens');
@@ -269,10 +245,10 @@ async function main() {
     logger.info('='.repeat(60));
 
     // 1. Delete existing data for top 5
-    await deleteTop5Data();
+    await deleteTop5Data(featuredParties);
 
     // 2. Filter plans to only top 5
-    const top5Plans = TSE_PLANS.filter(plan => isTop5Plan(plan));
+    const top5Plans = TSE_PLANS.filter(plan => isTop5Plan(plan, featuredParties));
 
     logger.info(`\nFound ${top5Plans.length} plans to ingest:`);
     top5Plans.forEach(plan => {
@@ -281,7 +257,7 @@ async function main() {
 
     if (top5Plans.length === 0) {
         logger.error('❌ No plans found for top 5 parties!');
-        logger.error('Check that TSE_PLANS contains entries for: pln, pusc, cac, fa, pueblo-soberano');
+        logger.error('Check that TSE_PLANS contains entries for the featured parties of the party registry');
         process.exit(1);
     }
 
@@ -0,0 +1,35 @@
+-- =============================================================================
+-- Switch the chunks embedding column to the dimension of another embedding provider
+-- =============================================================================
+-- The schema declares vector(1536) (OpenAI text-embedding-3-small). Providers of
+-- another dimension, e.g. EMBEDDING_PROVIDER=local (384 with the default model),
+-- are rejected until the column matches. Embeddings of different models are not
+-- comparable, so the stored ones are cleared and every plan must be re-ingested.
+--
+-- Usage:
+--   psql "$DATABASE_URL" -v dimension=384 -f backend/scripts/set-embedding-dimension.sql
+--   pnpm --filter backend check:embeddings
+--   tsx backend/scripts/reingest-all-plans.ts
+
+\if :{?dimension}
+\else
+  \echo 'Set the dimension of the embedding provider: -v dimension=384'
+  \quit
+\endif
+
+BEGIN;
+
+SET search_path TO public, extensions;
+
+UPDATE chunks SET embedding = NULL WHERE embedding IS NOT NULL;
+
+ALTER TABLE chunks
+  ALTER COLUMN embedding TYPE vector(:dimension);
+
+-- Re-ingestion embeds every chunk again instead of skipping unchanged PDFs
+UPDATE documents SET source_hash = NULL, embedding_model = NULL;
+
+COMMIT;
+
+-- Verify the new dimension
+SELECT embedding_column_dimension('chunks') AS column_dimension;
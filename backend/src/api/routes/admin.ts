@@ -0,0 +1,180 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { z } from 'zod';
+import { Logger } from '@ticobot/shared';
+import { createSupabaseClient } from '../../db/supabase.js';
+import { IngestionJobsService } from '../../db/services/ingestion-jobs.service.js';
+import { describeProviders, checkProviderHealth } from '../../factory/ProviderDiagnostics.js';
+import { requireAuth, requireAdmin } from '../middleware/auth.middleware.js';
+
+const router: Router = Router();
+const logger = new Logger('AdminAPI');
+
+// Initialize services
+const supabase = createSupabaseClient();
+const jobsService = new IngestionJobsService(supabase);
+
+// Every admin endpoint requires an admin session
+router.use(requireAuth, requireAdmin);
+
+// Validation schemas
+const healthSchema = z.object({
+    llm: z.enum(['true', 'false']).default('true').transform(value => value === 'true'),
+});
+
+const statsSchema = z.object({
+    jobs: z.coerce.number().int().min(1).max(50).default(10),
+});
+
+/**
+ * @swagger
+ * /api/admin/providers:
+ *   get:
+ *     summary: Get the active providers (admin)
+ *     description: |
+ *       LLM, embedding and vector store selected by the environment, with model
+ *       names, context window, embedding dimension and maximum input length.
+ *       Providers that cannot be created include the error.
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Provider report
+ */
+router.get('/providers', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const providers = await describeProviders();
+        res.json({ providers });
+    } catch (error) {
+        next(error);
+    }
+});
+
+/**
+ * @swagger
+ * /api/admin/providers/health:
+ *   get:
+ *     summary: Run provider health checks (admin)
+ *     description: |
+ *       Sends a small real request to the embedding provider, the vector store and
+ *       (unless llm=false) the LLM, and checks that the stored embeddings have the
+ *       dimension of the configured embedding model.
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: llm
+ *         schema:
+ *           type: boolean
+ *           default: true
+ *         description: Include the LLM check (spends a few tokens)
+ *     responses:
+ *       200:
+ *         description: One check per provider with status, latency and detail or error
+ */
+router.get('/providers/health', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const { llm } = healthSchema.parse(req.query);
+
+        const checks = await checkProviderHealth({ includeLLM: llm });
+        const healthy = checks.every(check => check.status === 'ok');
+
+        if (!healthy) {
+            logger.warn(`Provider health check failed: ${checks.filter(check => check.status === 'error').map(check => `${check.provider} (${check.error})`).join(', ')}`);
+        }
+
+        res.json({
+            status: healthy ? 'healthy' : 'degraded',
+            checks,
+            timestamp: new Date().toISOString()
+        });
+    } catch (error) {
+        if (error instanceof z.ZodError) {
+            return res.status(400).json({
+                error: 'Validation error',
+                details: error.errors
+            });
+        }
+        next(error);
+    }
+});
+
+/**
+ * @swagger
+ * /api/admin/stats:
+ *   get:
+ *     summary: Get corpus and ingestion statistics (admin)
+ *     description: Document and chunk counts, ingestion jobs per status and the most recent jobs
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: jobs
+ *         schema:
+ *           type: integer
+ *           default: 10
+ *           maximum: 50
+ *         description: Number of recent ingestion jobs
+ *     responses:
+ *       200:
+ *         description: Statistics
+ */
+router.get('/stats', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const params = statsSchema.parse(req.query);
+
+        const [documents, chunks, chunksWithoutEmbedding, jobCounts, recentJobs] = await Promise.all([
+            countRows('documents'),
+            countRows('chunks'),
+            countRows('chunks', true),
+            jobsService.countByStatus(),
+            jobsService.list({ limit: params.jobs }),
+        ]);
+
+        res.json({
+            corpus: {
+                documents,
+                chunks,
+                chunksWithoutEmbedding
+            },
+            ingestion: {
+                jobs: jobCounts,
+                recentJobs
+            },
+            timestamp: new Date().toISOString()
+        });
+    } catch (error) {
+        if (error instanceof z.ZodError) {
+            return res.status(400).json({
+                error: 'Validation error',
+                details: error.errors
+            });
+        }
+        next(error);
+    }
+});
+
+/**
+ * Count the rows of a table (chunks can be limited to the ones without embedding)
+ */
+async function countRows(table: 'documents' | 'chunks', withoutEmbedding = false): Promise<number> {
+    let query = supabase
+        .from(table)
+        .select('id', { count: 'exact', head: true });
+
+    if (withoutEmbedding) {
+        query = query.is('embedding', null);
+    }
+
+    const { count, error } = await query;
+
+    if (error) {
+        throw new Error(`Failed to count ${table}: ${error.message}`);
+    }
+
+    return count ?? 0;
+}
+
+export default router;
@@ -0,0 +1,299 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { z } from 'zod';
+import { Logger } from '@ticobot/shared';
+import { requireAuth, requireAdmin } from '../middleware/auth.middleware.js';
+import { createSupabaseClient } from '../../db/supabase.js';
+import { ChatCacheService } from '../../db/services/chat-cache.service.js';
+import { CacheInvalidationService } from '../../db/services/cache-invalidation.service.js';
+
+const router: Router = Router();
+const logger = new Logger('CacheAPI');
+
+// All cache administration endpoints are admin only
+router.use(requireAuth, requireAdmin);
+
+const settingsSchema = z.object({
+    enabled: z.boolean().optional(),
+    threshold: z.number().min(0.5).max(1).optional()
+}).refine(update => update.enabled !== undefined || update.threshold !== undefined, {
+    message: 'Provide enabled and/or threshold'
+});
+
+const statsSchema = z.object({
+    days: z.coerce.number().int().min(1).max(365).default(7)
+});
+
+const hitsSchema = z.object({
+    limit: z.coerce.number().int().min(1).max(200).default(50),
+    unreviewed: z.enum(['true', 'false']).default('false').transform(value => value === 'true')
+});
+
+const hitIdSchema = z.object({
+    id: z.string().uuid('Invalid semantic hit ID format')
+});
+
+const reviewSchema = z.object({
+    falseHit: z.boolean()
+});
+
+function handleError(error: unknown, res: Response, next: NextFunction) {
+    if (error instanceof z.ZodError) {
+        return res.status(400).json({
+            error: 'Validation error',
+            details: error.errors
+        });
+    }
+
+    logger.error('Cache API error:', error);
+    next(error);
+}
+
+/**
+ * @swagger
+ * /api/cache/semantic/settings:
+ *   get:
+ *     summary: Get semantic chat cache settings (admin)
+ *     tags: [Cache]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Current settings (admin overrides on top of env defaults)
+ *   put:
+ *     summary: Update semantic chat cache settings (admin)
+ *     description: Raising the threshold lowers false hits at the cost of fewer semantic hits
+ *     tags: [Cache]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               enabled:
+ *                 type: boolean
+ *               threshold:
+ *                 type: number
+ *                 minimum: 0.5
+ *                 maximum: 1
+ *                 description: Minimum cosine similarity to reuse a cached answer
+ *     responses:
+ *       200:
+ *         description: Updated settings
+ *       400:
+ *         description: Validation error
+ */
+router.get('/semantic/settings', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const cacheService = new ChatCacheService(createSupabaseClient());
+        res.json({ settings: await cacheService.getSemanticSettings() });
+    } catch (error) {
+        handleError(error, res, next);
+    }
+});
+
+router.put('/semantic/settings', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const update = settingsSchema.parse(req.body);
+        const cacheService = new ChatCacheService(createSupabaseClient());
+        const settings = await cacheService.updateSemanticSettings(update, req.user?.userId);
+
+        logger.info(`Semantic cache settings updated by ${req.user?.email}: ${JSON.stringify(settings)}`);
+        res.json({ settings });
+    } catch (error) {
+        handleError(error, res, next);
+    }
+});
+
+/**
+ * @swagger
+ * /api/cache/semantic/stats:
+ *   get:
+ *     summary: Chat cache hit and false-hit rates (admin)
+ *     tags: [Cache]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: days
+ *         schema:
+ *           type: number
+ *           default: 7
+ *         description: Period to compute the rates over
+ *     responses:
+ *       200:
+ *         description: Lookup counts, hit rate, semantic hit rate and false-hit rate (false hits / semantic hits)
+ */
+router.get('/semantic/stats', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const { days } = statsSchema.parse(req.query);
+        const cacheService = new ChatCacheService(createSupabaseClient());
+
+        const [stats, settings] = await Promise.all([
+            cacheService.getSemanticStats(new Date(Date.now() - days * 24 * 60 * 60 * 1000)),
+            cacheService.getSemanticSettings()
+        ]);
+
+        res.json({ stats, settings });
+    } catch (error) {
+        handleError(error, res, next);
+    }
+});
+
+/**
+ * @swagger
+ * /api/cache/semantic/hits:
+ *   get:
+ *     summary: List recent semantic cache hits for review (admin)
+ *     description: Each hit shows the question asked, the cached question whose answer was reused and their similarity
+ *     tags: [Cache]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: number
+ *           default: 50
+ *       - in: query
+ *         name: unreviewed
+ *         schema:
+ *           type: boolean
+ *           default: false
+ *     responses:
+ *       200:
+ *         description: Semantic hits, newest first
+ */
+router.get('/semantic/hits', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const options = hitsSchema.parse(req.query);
+        const cacheService = new ChatCacheService(createSupabaseClient());
+
+        res.json({ hits: await cacheService.listSemanticHits(options) });
+    } catch (error) {
+        handleError(error, res, next);
+    }
+});
+
+/**
+ * @swagger
+ * /api/cache/semantic/hits/{id}/review:
+ *   post:
+ *     summary: Mark a semantic cache hit as a false hit or as correct (admin)
+ *     description: |
+ *       A cached answer with a false hit is no longer reused for similar
+ *       questions; it is still served for the question it was generated for.
+ *     tags: [Cache]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - falseHit
+ *             properties:
+ *               falseHit:
+ *                 type: boolean
+ *     responses:
+ *       200:
+ *         description: Reviewed hit
+ *       400:
+ *         description: Invalid hit ID or body
+ *       404:
+ *         description: Semantic hit not found
+ */
+router.post('/semantic/hits/:id/review', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const { id } = hitIdSchema.parse(req.params);
+        const { falseHit } = reviewSchema.parse(req.body);
+        const cacheService = new ChatCacheService(createSupabaseClient());
+        const hit = await cacheService.reviewSemanticHit(id, falseHit);
+
+        if (!hit) {
+            return res.status(404).json({ error: 'Semantic cache hit not found' });
+        }
+
+        res.json({ hit });
+    } catch (error) {
+        handleError(error, res, next);
+    }
+});
+
+/**
+ * @swagger
+ * /api/cache/stale:
+ *   get:
+ *     summary: Cached and stale entries per document (admin)
+ *     description: |
+ *       Chat answers and comparisons are tagged with the content version of the
+ *       documents they were built from. An entry is stale for a document when it
+ *       was built from another version (re-ingestion normally removes these).
+ *       Untagged entries were cached before versioning.
+ *     tags: [Cache]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Per-document counts (chatEntries, staleChatEntries, comparisonEntries, staleComparisonEntries) and untagged counts
+ */
+router.get('/stale', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const cacheInvalidation = new CacheInvalidationService(createSupabaseClient());
+        const report = await cacheInvalidation.getStalenessReport();
+
+        res.json({
+            ...report,
+            totals: {
+                staleChatEntries: report.documents.reduce((sum, doc) => sum + doc.staleChatEntries, 0),
+                staleComparisonEntries: report.documents.reduce((sum, doc) => sum + doc.staleComparisonEntries, 0)
+            }
+        });
+    } catch (error) {
+        handleError(error, res, next);
+    }
+});
+
+/**
+ * @swagger
+ * /api/cache/documents/{documentId}/invalidate:
+ *   post:
+ *     summary: Remove the stale cache entries of a document (admin)
+ *     description: Deletes the chat and comparison entries built from another version of the document
+ *     tags: [Cache]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: documentId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         example: pln-2026
+ *     responses:
+ *       200:
+ *         description: Number of deleted entries per cache
+ */
+router.post('/documents/:documentId/invalidate', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const cacheInvalidation = new CacheInvalidationService(createSupabaseClient());
+        const deleted = await cacheInvalidation.invalidateDocument(req.params.documentId);
+
+        res.json({ documentId: req.params.documentId, deleted });
+    } catch (error) {
+        handleError(error, res, next);
+    }
+});
+
+export default router;
@@ -4,6 +4,10 @@ import { Logger } from '@ticobot/shared';
 import { createSupabaseClient } from '../../db/supabase.js';
 import { CandidatesService } from '../../db/services/candidates.service.js';
 import { PartiesService } from '../../db/services/parties.service.js';
+import { getEntityResolver } from '../../rag/components/EntityResolver.js';
+import { requireAuth, requireAdmin } from '../middleware/auth.middleware.js';
+import { auditLog } from '../../auth/audit-logger.js';
+import { clearable, imageUrlSchema, slugSchema } from '../validation.js';
 
 const router: Router = Router();
 const logger = new Logger('CandidatesAPI');
@@ -29,6 +33,47 @@ const listCandidatesSchema = z.object({
     position: z.string().optional()
 });
 
+const textListSchema = z.array(z.string().trim().min(1).max(500)).max(50);
+
+const createCandidateSchema = z.object({
+    party_id: z.string().uuid('Invalid party ID format'),
+    name: z.string().trim().min(1).max(200),
+    slug: slugSchema,
+    nicknames: z.array(z.string().trim().min(3).max(100)).max(20).optional(),
+    position: z.string().trim().min(1).max(100),
+    photo_url: imageUrlSchema.optional(),
+    birth_date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Must be a date (YYYY-MM-DD)').optional(),
+    birth_place: z.string().trim().max(200).optional(),
+    education: textListSchema.optional(),
+    professional_experience: textListSchema.optional(),
+    political_experience: textListSchema.optional(),
+    biography: z.string().max(10000).optional(),
+    proposals: z.array(z.object({
+        topic: z.string().trim().min(1).max(200),
+        description: z.string().trim().min(1).max(2000)
+    })).max(50).optional(),
+    social_media: z.object({
+        twitter: z.string().url('Invalid URL').optional(),
+        facebook: z.string().url('Invalid URL').optional(),
+        instagram: z.string().url('Invalid URL').optional()
+    }).optional()
+});
+
+// Nicknames are cleared with an empty list
+const updateCandidateSchema = createCandidateSchema.partial()
+    .extend({
+        photo_url: clearable(createCandidateSchema.shape.photo_url),
+        birth_date: clearable(createCandidateSchema.shape.birth_date),
+        birth_place: clearable(createCandidateSchema.shape.birth_place),
+        education: clearable(createCandidateSchema.shape.education),
+        professional_experience: clearable(createCandidateSchema.shape.professional_experience),
+        political_experience: clearable(createCandidateSchema.shape.political_experience),
+        biography: clearable(createCandidateSchema.shape.biography),
+        proposals: clearable(createCandidateSchema.shape.proposals),
+        social_media: clearable(createCandidateSchema.shape.social_media)
+    })
+    .refine(data => Object.keys(data).length > 0, 'At least one field is required');
+
 /**
  * @swagger
  * /api/candidates:
@@ -270,5 +315,237 @@ router.get('/:id', async (req: Request, res: Response, next: NextFunction) => {
     }
 });
 
-export default router;
+/**
+ * @swagger
+ * /api/candidates:
+ *   post:
+ *     summary: Create a candidate (admin)
+ *     tags: [Candidates]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - party_id
+ *               - name
+ *               - slug
+ *               - position
+ *             properties:
+ *               party_id:
+ *                 type: string
+ *                 format: uuid
+ *               name:
+ *                 type: string
+ *               slug:
+ *                 type: string
+ *               nicknames:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *               position:
+ *                 type: string
+ *                 example: Presidente
+ *               photo_url:
+ *                 type: string
+ *                 description: HTTPS URL of a PNG, JPEG, WebP, SVG or GIF image
+ *               birth_date:
+ *                 type: string
+ *                 format: date
+ *               birth_place:
+ *                 type: string
+ *               education:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *               professional_experience:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *               political_experience:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *               biography:
+ *                 type: string
+ *               proposals:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *                   properties:
+ *                     topic:
+ *                       type: string
+ *                     description:
+ *                       type: string
+ *               social_media:
+ *                 type: object
+ *     responses:
+ *       201:
+ *         description: Created candidate
+ *       400:
+ *         description: Validation error or unknown party
+ *       409:
+ *         description: A candidate with this slug already exists
+ */
+router.post('/', requireAuth, requireAdmin, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const data = createCandidateSchema.parse(req.body);
+
+        if (!await partiesService.findById(data.party_id)) {
+            return res.status(400).json({ error: 'Party not found', party_id: data.party_id });
+        }
+
+        if (await candidatesService.existsBySlug(data.slug)) {
+            return res.status(409).json({ error: 'Candidate slug already exists', slug: data.slug });
+        }
+
+        const candidate = await candidatesService.create(data);
+
+        void getEntityResolver().refresh();
+        await auditLog.adminAction(
+            req.user!.userId,
+            'candidate_created',
+            { candidateId: candidate.id, slug: candidate.slug, partyId: candidate.party_id },
+            req
+        );
+        logger.info(`Candidate created: ${candidate.slug} by ${req.user!.email}`);
+
+        res.status(201).json({ candidate });
+
+    } catch (error) {
+        if (error instanceof z.ZodError) {
+            return res.status(400).json({
+                error: 'Validation error',
+                details: error.errors
+            });
+        }
+        if (error instanceof Error && error.message.includes('already exists')) {
+            return res.status(409).json({ error: error.message });
+        }
+        next(error);
+    }
+});
+
+/**
+ * @swagger
+ * /api/candidates/{id}:
+ *   patch:
+ *     summary: Update a candidate (admin)
+ *     description: |
+ *       Partial update; accepts the same fields as candidate creation. Optional
+ *       fields set to null are cleared (nicknames with an empty list).
+ *     tags: [Candidates]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Updated candidate
+ *       400:
+ *         description: Validation error or unknown party
+ *       404:
+ *         description: Candidate not found
+ *       409:
+ *         description: Another candidate already uses the slug
+ */
+router.patch('/:id', requireAuth, requireAdmin, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const { id } = getCandidateByIdSchema.parse(req.params);
+        const updates = updateCandidateSchema.parse(req.body);
+
+        const current = await candidatesService.findById(id);
+        if (!current) {
+            return res.status(404).json({ error: 'Candidate not found', id });
+        }
 
+        if (updates.party_id && !await partiesService.findById(updates.party_id)) {
+            return res.status(400).json({ error: 'Party not found', party_id: updates.party_id });
+        }
+
+        if (updates.slug && updates.slug !== current.slug && await candidatesService.existsBySlug(updates.slug)) {
+            return res.status(409).json({ error: 'Candidate slug already exists', slug: updates.slug });
+        }
+
+        const candidate = await candidatesService.update(id, updates);
+
+        void getEntityResolver().refresh();
+        await auditLog.adminAction(
+            req.user!.userId,
+            'candidate_updated',
+            { candidateId: id, slug: candidate.slug, fields: Object.keys(updates).join(',') },
+            req
+        );
+        logger.info(`Candidate updated: ${candidate.slug} by ${req.user!.email}`);
+
+        res.json({ candidate });
+
+    } catch (error) {
+        if (error instanceof z.ZodError) {
+            return res.status(400).json({
+                error: 'Validation error',
+                details: error.errors
+            });
+        }
+        next(error);
+    }
+});
+
+/**
+ * @swagger
+ * /api/candidates/{id}:
+ *   delete:
+ *     summary: Delete a candidate (admin)
+ *     tags: [Candidates]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       204:
+ *         description: Candidate deleted
+ *       404:
+ *         description: Candidate not found
+ */
+router.delete('/:id', requireAuth, requireAdmin, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const { id } = getCandidateByIdSchema.parse(req.params);
+
+        const candidate = await candidatesService.findById(id);
+        if (!candidate) {
+            return res.status(404).json({ error: 'Candidate not found', id });
+        }
+
+        await candidatesService.delete(id);
+
+        void getEntityResolver().refresh();
+        await auditLog.adminAction(req.user!.userId, 'candidate_deleted', { candidateId: id, slug: candidate.slug }, req);
+        logger.info(`Candidate deleted: ${candidate.slug} by ${req.user!.email}`);
+
+        res.status(204).send();
+
+    } catch (error) {
+        if (error instanceof z.ZodError) {
+            return res.status(400).json({
+                error: 'Validation error',
+                details: error.errors
+            });
+        }
+        next(error);
+    }
+});
+
+export default router;
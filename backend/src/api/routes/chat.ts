@@ -1,10 +1,14 @@
 import { Router, Request, Response, NextFunction } from 'express';
 import { z } from 'zod';
 import { Logger } from '@ticobot/shared';
-import { RAGPipeline } from '../../rag/components/RAGPipeline.js';
+import { RAGPipeline, type PipelineSource } from '../../rag/components/RAGPipeline.js';
+import { getRecentHistory, MAX_HISTORY_MESSAGES } from '../../rag/components/ConversationCondenser.js';
+import type { Citation, AnswerClaim } from '../../rag/components/CitationParser.js';
 import { optionalAuth } from '../middleware/auth.middleware.js';
 import { createSupabaseClient } from '../../db/supabase.js';
 import { ChatCacheService } from '../../db/services/chat-cache.service.js';
+import { ProviderFactory } from '../../factory/ProviderFactory.js';
+import { ConversationsService, type ConversationMessageRecord } from '../../db/services/conversations.service.js';
 
 const router: Router = Router();
 const logger = new Logger('ChatAPI');
@@ -14,20 +18,95 @@ const ragPipeline = new RAGPipeline({
     maxContextLength: 16000 // ~4k tokens for context (allows multiple chunks per party)
 });
 
+// Interval between SSE keep-alive comments
+const KEEP_ALIVE_INTERVAL_MS = 15000;
+
+// Longest question, and longest message of the conversation history
+const MAX_MESSAGE_LENGTH = 1000;
+
 // Validation schema
 const chatSchema = z.object({
-    question: z.string().min(1, 'Question cannot be empty').max(1000, 'Question too long'),
+    question: z.string().min(1, 'Question cannot be empty').max(MAX_MESSAGE_LENGTH, 'Question too long'),
     party: z.string().optional(),
     topK: z.coerce.number().min(1).max(15).default(10), // Increased for multi-party coverage
     temperature: z.coerce.number().min(0).max(2).default(0.7),
     maxTokens: z.coerce.number().min(100).max(4000).default(2000), // Increased for multi-party responses
     minRelevanceScore: z.coerce.number().min(0).max(1).default(0.1),
+    // Only the last messages are used to resolve follow-ups
     conversationHistory: z.array(z.object({
         role: z.enum(['user', 'assistant']),
-        content: z.string()
-    })).optional()
+        content: z.string().max(MAX_MESSAGE_LENGTH, 'History message too long')
+    })).max(MAX_HISTORY_MESSAGES, 'Conversation history too long').optional(),
+    conversationId: z.string().uuid('Invalid conversation ID format').optional(),
+    verification: z.enum(['off', 'flag', 'remove']).default('off'), // Faithfulness check of the answer claims (POST /api/chat only)
+    sessionId: z.string().min(8).max(100).optional() // Anonymous session (conversations are claimed after signing up)
 });
 
+/**
+ * Map a pipeline/cached source to the API response shape
+ */
+function formatSource(source: any) {
+    return {
+        id: source.id,
+        content: source.content,
+        party: source.party,
+        document: source.document,
+        page: source.pageNumber ||
+              (source.pageRange ?
+                `${source.pageRange.start}-${source.pageRange.end}` :
+                null),
+        relevanceScore: source.relevance || 0
+    };
+}
+
+/**
+ * Create the chat cache service
+ * The semantic tier needs the embedding provider; without it only exact hits are served
+ */
+async function createCacheService(): Promise<ChatCacheService> {
+    const supabase = createSupabaseClient();
+    try {
+        return new ChatCacheService(supabase, await ProviderFactory.getEmbeddingProvider());
+    } catch (error) {
+        logger.warn('Embedding provider unavailable, semantic cache disabled:', error);
+        return new ChatCacheService(supabase);
+    }
+}
+
+/**
+ * Store a chat turn in the caller's conversation (authenticated user or anonymous session)
+ * Persistence failures are logged and never fail the chat request
+ * @returns Conversation ID, or null if the caller has no user or session to own it
+ */
+async function persistTurn(
+    req: Request,
+    params: z.infer<typeof chatSchema>,
+    answer: string,
+    sources: any[],
+    metadata: ConversationMessageRecord['metadata']
+): Promise<string | null> {
+    const owner = req.user
+        ? { userId: req.user.userId }
+        : params.sessionId ? { anonymousSessionId: params.sessionId } : null;
+
+    if (!owner) {
+        return null;
+    }
+
+    try {
+        const conversationsService = new ConversationsService(createSupabaseClient());
+        return await conversationsService.recordTurn(owner, params.conversationId, {
+            question: params.question,
+            answer,
+            sources,
+            metadata
+        });
+    } catch (error) {
+        logger.warn('Failed to persist conversation turn:', error);
+        return params.conversationId || null;
+    }
+}
+
 /**
  * @swagger
  * /api/chat:
@@ -80,7 +159,8 @@ const chatSchema = z.object({
  *                 description: Minimum similarity score for retrieved chunks
  *               conversationHistory:
  *                 type: array
- *                 description: Previous conversation messages for context
+ *                 description: Previous conversation messages, used to resolve follow-up questions (e.g. "¿y el PUSC?")
+ *                 maxItems: 6
  *                 items:
  *                   type: object
  *                   properties:
@@ -89,6 +169,19 @@ const chatSchema = z.object({
  *                       enum: [user, assistant]
  *                     content:
  *                       type: string
+ *                       maxLength: 1000
+ *               conversationId:
+ *                 type: string
+ *                 format: uuid
+ *                 description: Conversation to append the turn to (a new one is created if omitted)
+ *               sessionId:
+ *                 type: string
+ *                 description: Anonymous session ID, so conversations can be claimed after signing up
+ *               verification:
+ *                 type: string
+ *                 enum: [off, flag, remove]
+ *                 default: off
+ *                 description: Check each claim of the answer against the retrieved chunks (lexical overlap + LLM judge) and flag or remove unsupported claims. Adds one LLM call.
  *     responses:
  *       200:
  *         description: Chat response with sources
@@ -118,6 +211,60 @@ const chatSchema = z.object({
  *                         type: string
  *                       relevanceScore:
  *                         type: number
+ *                 citations:
+ *                   type: array
+ *                   description: Inline [N] markers of the answer resolved to the cited chunks
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       marker:
+ *                         type: number
+ *                       chunkId:
+ *                         type: string
+ *                       documentId:
+ *                         type: string
+ *                       document:
+ *                         type: string
+ *                       party:
+ *                         type: string
+ *                       chunkIndex:
+ *                         type: number
+ *                       pageNumber:
+ *                         type: number
+ *                       pageRange:
+ *                         type: object
+ *                 claims:
+ *                   type: array
+ *                   description: Claims (bullets/paragraphs) of the answer; cited is false when a claim has no citation
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       text:
+ *                         type: string
+ *                       markers:
+ *                         type: array
+ *                         items:
+ *                           type: number
+ *                       cited:
+ *                         type: boolean
+ *                 verification:
+ *                   type: object
+ *                   nullable: true
+ *                   description: Per-claim support scores (only when verification is flag or remove)
+ *                   properties:
+ *                     supportScore:
+ *                       type: number
+ *                     unsupportedClaims:
+ *                       type: number
+ *                     removedClaims:
+ *                       type: number
+ *                     judged:
+ *                       type: boolean
+ *                       description: false when the LLM judge failed and only lexical checks were used
+ *                     claims:
+ *                       type: array
+ *                       items:
+ *                         type: object
  *                 metadata:
  *                   type: object
  *                   properties:
@@ -129,6 +276,28 @@ const chatSchema = z.object({
  *                       type: number
  *                     processingTime:
  *                       type: number
+ *                     cached:
+ *                       type: boolean
+ *                     cacheHit:
+ *                       type: object
+ *                       description: Only for cached answers. Semantic hits reuse the answer of a similar cached question
+ *                       properties:
+ *                         type:
+ *                           type: string
+ *                           enum: [exact, semantic]
+ *                         cachedQuestion:
+ *                           type: string
+ *                           description: Question the reused answer was generated for
+ *                         similarity:
+ *                           type: number
+ *                         eventId:
+ *                           type: string
+ *                           nullable: true
+ *                           description: Cache event ID, used by admins to flag false hits
+ *                 conversationId:
+ *                   type: string
+ *                   nullable: true
+ *                   description: Conversation the turn was stored in (null for anonymous requests without sessionId)
  *                 filters:
  *                   type: object
  *       400:
@@ -150,11 +319,13 @@ router.post('/', optionalAuth, async (req: Request, res: Response, next: NextFun
         // Validate request body
         const params = chatSchema.parse(req.body);
 
-        logger.info(`Chat question: "${params.question}" (party=${params.party || 'all'}, topK=${params.topK})`);
+        // Only the recent turns matter for follow-ups (and for the cache key)
+        const conversationHistory = getRecentHistory(params.conversationHistory);
+
+        logger.info(`Chat question: "${params.question}" (party=${params.party || 'all'}, topK=${params.topK}, history=${conversationHistory.length})`);
 
         // Initialize cache service
-        const supabase = createSupabaseClient();
-        const cacheService = new ChatCacheService(supabase);
+        const cacheService = await createCacheService();
 
         // Check cache FIRST - this avoids ALL embeddings and LLM calls
         logger.info(`🔍 Checking cache for question: "${params.question}"`);
@@ -162,35 +333,38 @@ router.post('/', optionalAuth, async (req: Request, res: Response, next: NextFun
             params.question,
             params.party,
             params.topK,
-            params.minRelevanceScore
+            params.minRelevanceScore,
+            conversationHistory,
+            params.verification
         );
 
         if (cached) {
-            logger.info(`✅ Cache HIT - Skipping embeddings & LLM calls for question: "${params.question}"`);
+            logger.info(`✅ Cache HIT (${cached.cacheHit.type}) - Skipping RAG & LLM calls for question: "${params.question}"`);
             
             const processingTime = Date.now() - startTime;
             logger.info(`Cache served in ${processingTime}ms (saved ~5-10s of RAG processing)`);
 
+            const metadata = {
+                model: cached.metadata.model || 'cached',
+                tokensUsed: cached.metadata.tokensUsed || 0,
+                sourcesCount: cached.sources.length,
+                processingTime,
+                cached: true,
+                cacheHit: cached.cacheHit
+            };
+            const citations = cached.metadata.citations || [];
+            const claims = cached.metadata.claims || [];
+            const verification = cached.metadata.verification || null;
+            const conversationId = await persistTurn(req, params, cached.answer, cached.sources, { ...metadata, citations });
+
             return res.json({
                 answer: cached.answer,
-                sources: cached.sources.map((source: any) => ({
-                    id: source.id,
-                    content: source.content,
-                    party: source.party,
-                    document: source.document,
-                    page: source.pageNumber ||
-                          (source.pageRange ?
-                            `${source.pageRange.start}-${source.pageRange.end}` :
-                            null),
-                    relevanceScore: source.relevance || 0
-                })),
-                metadata: {
-                    model: cached.metadata.model || 'cached',
-                    tokensUsed: cached.metadata.tokensUsed || 0,
-                    sourcesCount: cached.sources.length,
-                    processingTime,
-                    cached: true
-                },
+                sources: cached.sources.map(formatSource),
+                citations,
+                claims,
+                verification,
+                metadata,
+                conversationId,
                 filters: {
                     party: params.party || null,
                     minRelevanceScore: params.minRelevanceScore
@@ -206,7 +380,10 @@ router.post('/', optionalAuth, async (req: Request, res: Response, next: NextFun
             filters: params.party ? { partyId: params.party } : undefined,
             temperature: params.temperature,
             maxTokens: params.maxTokens,
-            minRelevanceScore: params.minRelevanceScore
+            minRelevanceScore: params.minRelevanceScore,
+            conversationHistory,
+            verification: params.verification === 'off' ? undefined : params.verification,
+            queryEmbedding: cacheService.getQueryEmbedding(params.question)
         });
 
         const processingTime = Date.now() - startTime;
@@ -218,6 +395,7 @@ router.post('/', optionalAuth, async (req: Request, res: Response, next: NextFun
             content: source.content,
             party: source.party,
             document: source.document,
+            documentId: source.documentId,
             pageNumber: source.pageNumber,
             pageRange: source.pageRange,
             relevance: source.relevance || 0
@@ -232,36 +410,38 @@ router.post('/', optionalAuth, async (req: Request, res: Response, next: NextFun
                 processingTime,
                 tokensUsed: result.metadata.tokensUsed || 0,
                 model: result.metadata.model,
+                citations: result.citations,
+                claims: result.claims,
+                verification: result.verification,
                 // Cache for 7 days by default (can be made configurable)
                 expiresInHours: 24 * 7,
             },
             params.party,
             params.topK,
-            params.minRelevanceScore
+            params.minRelevanceScore,
+            conversationHistory,
+            params.verification
         ).catch(err => {
             logger.warn('Failed to cache chat result:', err);
         });
 
+        const metadata = {
+            model: result.metadata.model,
+            tokensUsed: result.metadata.tokensUsed || 0,
+            sourcesCount: result.sources.length,
+            processingTime,
+            cached: false
+        };
+        const conversationId = await persistTurn(req, params, result.answer, sources, { ...metadata, citations: result.citations });
+
         res.json({
             answer: result.answer,
-            sources: sources.map(source => ({
-                id: source.id,
-                content: source.content,
-                party: source.party,
-                document: source.document,
-                page: source.pageNumber ||
-                      (source.pageRange ?
-                        `${source.pageRange.start}-${source.pageRange.end}` :
-                        null),
-                relevanceScore: source.relevance || 0
-            })),
-            metadata: {
-                model: result.metadata.model,
-                tokensUsed: result.metadata.tokensUsed || 0,
-                sourcesCount: result.sources.length,
-                processingTime,
-                cached: false
-            },
+            sources: sources.map(formatSource),
+            citations: result.citations,
+            claims: result.claims,
+            verification: result.verification || null,
+            metadata,
+            conversationId,
             filters: {
                 party: params.party || null,
                 minRelevanceScore: params.minRelevanceScore
@@ -347,6 +527,24 @@ router.options('/stream', (req: Request, res: Response) => {
  *               minRelevanceScore:
  *                 type: number
  *                 default: 0.35
+ *               conversationHistory:
+ *                 type: array
+ *                 description: Previous conversation messages, used to resolve follow-up questions
+ *                 maxItems: 6
+ *                 items:
+ *                   type: object
+ *                   properties:
+ *                     role:
+ *                       type: string
+ *                       enum: [user, assistant]
+ *                     content:
+ *                       type: string
+ *                       maxLength: 1000
+ *               conversationId:
+ *                 type: string
+ *                 format: uuid
+ *               sessionId:
+ *                 type: string
  *     responses:
  *       200:
  *         description: Server-Sent Events stream
@@ -354,7 +552,11 @@ router.options('/stream', (req: Request, res: Response) => {
  *           text/event-stream:
  *             schema:
  *               type: string
- *               description: SSE stream with events (start, sources, chunk, done, error)
+ *               description: |
+ *                 SSE stream with events (start, sources, chunk, citations, done, error).
+ *                 Sources are sent as soon as retrieval finishes, chunks are the
+ *                 LLM deltas as generated, and citations resolves the inline [N]
+ *                 markers once the answer is complete. Lines starting with ":" are keep-alive comments.
  *       400:
  *         description: Validation error
  */
@@ -364,7 +566,9 @@ router.post('/stream', optionalAuth, async (req: Request, res: Response, next: N
         // Validate request body
         const params = chatSchema.parse(req.body);
 
-        logger.info(`Chat stream question: "${params.question}"`);
+        const conversationHistory = getRecentHistory(params.conversationHistory);
+
+        logger.info(`Chat stream question: "${params.question}" (history=${conversationHistory.length})`);
 
         // Set up CORS headers for SSE (must be set before any data is sent)
         // Note: CORS middleware should handle this, but we set it explicitly for SSE
@@ -398,173 +602,151 @@ router.post('/stream', optionalAuth, async (req: Request, res: Response, next: N
         res.setHeader('Connection', 'keep-alive');
         res.setHeader('X-Accel-Buffering', 'no'); // Disable nginx buffering
 
-        // Initialize cache service
-        const supabase = createSupabaseClient();
-        const cacheService = new ChatCacheService(supabase);
+        res.flushHeaders();
 
-        // Check cache FIRST
-        logger.info(`🔍 Checking cache for stream question: "${params.question}"`);
-        const cached = await cacheService.getCached(
-            params.question,
-            params.party,
-            params.topK,
-            params.minRelevanceScore
-        );
+        const sendEvent = (event: Record<string, unknown>) => {
+            res.write(`data: ${JSON.stringify(event)}\n\n`);
+        };
 
-        if (cached) {
-            logger.info(`✅ Cache HIT - Streaming cached response for question: "${params.question}"`);
-            
-            // Send initial event
-            res.write(`data: ${JSON.stringify({ type: 'start', message: 'Loading cached response...' })}\n\n`);
-
-            // Send sources event
-            res.write(`data: ${JSON.stringify({
-                type: 'sources',
-                sources: cached.sources.map((source: any) => ({
-                    id: source.id,
-                    content: source.content,
-                    party: source.party,
-                    document: source.document,
-                    page: source.pageNumber ||
-                          (source.pageRange ?
-                            `${source.pageRange.start}-${source.pageRange.end}` :
-                            null),
-                    relevanceScore: source.relevance || 0
-                }))
-            })}\n\n`);
-
-            // Stream the cached answer as chunks
-            const words = cached.answer.split(' ');
-            const chunkSize = 10; // Words per chunk
-
-            for (let i = 0; i < words.length; i += chunkSize) {
-                const chunk = words.slice(i, i + chunkSize).join(' ');
-                res.write(`data: ${JSON.stringify({
-                    type: 'chunk',
-                    content: chunk + (i + chunkSize < words.length ? ' ' : '')
-                })}\n\n`);
-
-                // Small delay for demonstration
-                await new Promise(resolve => setTimeout(resolve, 30));
+        // Abort the upstream LLM generation if the client goes away
+        const abortController = new AbortController();
+        res.on('close', () => {
+            if (!res.writableEnded) {
+                logger.info(`Client disconnected, aborting stream for question: "${params.question}"`);
+                abortController.abort();
             }
+        });
 
-            const processingTime = Date.now() - startTime;
-            // Send completion event
-            res.write(`data: ${JSON.stringify({
-                type: 'done',
-                metadata: {
+        // SSE comments keep proxies (Railway, nginx) from closing idle connections
+        // while retrieval runs or the LLM is slow to produce the first token
+        const keepAlive = setInterval(() => {
+            res.write(': keep-alive\n\n');
+        }, KEEP_ALIVE_INTERVAL_MS);
+
+        try {
+            // Initialize cache service
+            const cacheService = await createCacheService();
+
+            // Check cache FIRST
+            logger.info(`🔍 Checking cache for stream question: "${params.question}"`);
+            const cached = await cacheService.getCached(
+                params.question,
+                params.party,
+                params.topK,
+                params.minRelevanceScore,
+                conversationHistory
+            );
+
+            if (cached) {
+                logger.info(`✅ Cache HIT - Streaming cached response for question: "${params.question}"`);
+
+                sendEvent({ type: 'start', message: 'Loading cached response...' });
+                sendEvent({ type: 'sources', sources: cached.sources.map(formatSource) });
+                // The answer is already complete, send it in one piece
+                sendEvent({ type: 'chunk', content: cached.answer });
+
+                const citations = cached.metadata.citations || [];
+                sendEvent({ type: 'citations', citations, claims: cached.metadata.claims || [] });
+
+                const metadata = {
                     model: cached.metadata.model || 'cached',
                     tokensUsed: cached.metadata.tokensUsed || 0,
                     sourcesCount: cached.sources.length,
-                    processingTime,
-                    cached: true
-                }
-            })}\n\n`);
+                    processingTime: Date.now() - startTime,
+                    cached: true,
+                    cacheHit: cached.cacheHit
+                };
+                const conversationId = await persistTurn(req, params, cached.answer, cached.sources, { ...metadata, citations });
+
+                sendEvent({ type: 'done', metadata, conversationId });
+                return;
+            }
 
-            res.end();
-            return;
-        }
+            logger.info(`❌ Cache MISS - Will generate embeddings & use LLM for stream question: "${params.question}"`);
 
-        logger.info(`❌ Cache MISS - Will generate embeddings & use LLM for stream question: "${params.question}"`);
+            sendEvent({ type: 'start', message: 'Processing query...' });
 
-        // Send initial event
-        res.write(`data: ${JSON.stringify({ type: 'start', message: 'Processing query...' })}\n\n`);
+            let answer = '';
+            let sources: PipelineSource[] = [];
+            let citations: Citation[] = [];
+            let claims: AnswerClaim[] = [];
 
-        try {
-            // Process query through RAG pipeline
-            const result = await ragPipeline.query(params.question, {
+            for await (const event of ragPipeline.queryStreaming(params.question, {
                 topK: params.topK,
                 filters: params.party ? { partyId: params.party } : undefined,
                 temperature: params.temperature,
                 maxTokens: params.maxTokens,
-                minRelevanceScore: params.minRelevanceScore
-            });
-
-            // Prepare sources for response and cache
-            const sources = result.sources.map(source => ({
-                id: source.id,
-                content: source.content,
-                party: source.party,
-                document: source.document,
-                pageNumber: source.pageNumber,
-                pageRange: source.pageRange,
-                relevance: source.relevance || 0
-            }));
-
-            // Send sources event
-            res.write(`data: ${JSON.stringify({
-                type: 'sources',
-                sources: sources.map(source => ({
-                    id: source.id,
-                    content: source.content,
-                    party: source.party,
-                    document: source.document,
-                    page: source.pageNumber ||
-                          (source.pageRange ?
-                            `${source.pageRange.start}-${source.pageRange.end}` :
-                            null),
-                    relevanceScore: source.relevance || 0
-                }))
-            })}\n\n`);
-
-            // For streaming, we would ideally stream the LLM response
-            // For now, we'll send the complete answer as chunks
-            const words = result.answer.split(' ');
-            const chunkSize = 10; // Words per chunk
-
-            for (let i = 0; i < words.length; i += chunkSize) {
-                const chunk = words.slice(i, i + chunkSize).join(' ');
-                res.write(`data: ${JSON.stringify({
-                    type: 'chunk',
-                    content: chunk + (i + chunkSize < words.length ? ' ' : '')
-                })}\n\n`);
-
-                // Small delay for demonstration
-                await new Promise(resolve => setTimeout(resolve, 50));
-            }
-
-            const processingTime = Date.now() - startTime;
-
-            // Store in cache (async, don't wait)
-            cacheService.setCached(
-                params.question,
-                result.answer,
-                sources,
-                {
-                    processingTime,
-                    tokensUsed: result.metadata.tokensUsed || 0,
-                    model: result.metadata.model,
-                    // Cache for 7 days by default
-                    expiresInHours: 24 * 7,
-                },
-                params.party,
-                params.topK,
-                params.minRelevanceScore
-            ).catch(err => {
-                logger.warn('Failed to cache stream result:', err);
-            });
-
-            // Send completion event
-            res.write(`data: ${JSON.stringify({
-                type: 'done',
-                metadata: {
-                    model: result.metadata.model,
-                    tokensUsed: result.metadata.tokensUsed || 0,
-                    sourcesCount: result.sources.length,
-                    processingTime,
-                    cached: false
+                minRelevanceScore: params.minRelevanceScore,
+                conversationHistory,
+                signal: abortController.signal,
+                queryEmbedding: cacheService.getQueryEmbedding(params.question)
+            })) {
+                if (abortController.signal.aborted) {
+                    break;
                 }
-            })}\n\n`);
 
-            res.end();
+                if (event.type === 'sources') {
+                    sources = event.sources;
+                    sendEvent({ type: 'sources', sources: sources.map(formatSource) });
+                } else if (event.type === 'chunk') {
+                    answer += event.content;
+                    sendEvent({ type: 'chunk', content: event.content });
+                } else if (event.type === 'citations') {
+                    citations = event.citations;
+                    claims = event.claims;
+                    sendEvent({ type: 'citations', citations, claims });
+                } else {
+                    const processingTime = Date.now() - startTime;
+                    logger.info(`Chat stream completed: ${sources.length} sources used, ${event.metadata.tokensUsed || 0} tokens in ${processingTime}ms`);
+
+                    // Only cache answers that were actually generated from sources
+                    if (sources.length > 0) {
+                        cacheService.setCached(
+                            params.question,
+                            answer,
+                            sources,
+                            {
+                                processingTime,
+                                tokensUsed: event.metadata.tokensUsed || 0,
+                                model: event.metadata.model,
+                                citations,
+                                claims,
+                                // Cache for 7 days by default
+                                expiresInHours: 24 * 7,
+                            },
+                            params.party,
+                            params.topK,
+                            params.minRelevanceScore,
+                            conversationHistory
+                        ).catch(err => {
+                            logger.warn('Failed to cache stream result:', err);
+                        });
+                    }
+
+                    const metadata = {
+                        model: event.metadata.model,
+                        tokensUsed: event.metadata.tokensUsed || 0,
+                        sourcesCount: sources.length,
+                        processingTime,
+                        cached: false
+                    };
+                    const conversationId = await persistTurn(req, params, answer, sources, { ...metadata, citations });
+
+                    sendEvent({ type: 'done', metadata, conversationId });
+                }
+            }
 
         } catch (streamError) {
-            logger.error('Stream error:', streamError);
-            res.write(`data: ${JSON.stringify({
-                type: 'error',
-                error: 'Failed to process query',
-                message: streamError instanceof Error ? streamError.message : 'Unknown error'
-            })}\n\n`);
+            if (!abortController.signal.aborted) {
+                logger.error('Stream error:', streamError);
+                sendEvent({
+                    type: 'error',
+                    error: 'Failed to process query',
+                    message: streamError instanceof Error ? streamError.message : 'Unknown error'
+                });
+            }
+        } finally {
+            clearInterval(keepAlive);
             res.end();
         }
 
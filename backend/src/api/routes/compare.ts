@@ -1,10 +1,17 @@
 import { Router, Request, Response, NextFunction } from 'express';
 import { z } from 'zod';
 import { Logger } from '@ticobot/shared';
-import { RAGPipeline } from '../../rag/components/RAGPipeline.js';
-import { optionalAuth } from '../middleware/auth.middleware.js';
+import { RAGPipeline, type PartyComparison } from '../../rag/components/RAGPipeline.js';
+import type { Citation, AnswerClaim } from '../../rag/components/CitationParser.js';
+import {
+    ProposalState,
+    determineProposalState,
+    getProposalStateLabel
+} from '../../rag/components/ProposalClassifier.js';
+import { SpecificityScorer, type SpecificityScore } from '../../rag/components/SpecificityScorer.js';
+import { optionalAuth, requireAuth, requireAdmin } from '../middleware/auth.middleware.js';
 import { createSupabaseClient } from '../../db/supabase.js';
-import { PartiesService } from '../../db/services/parties.service.js';
+import { getPartyRegistry } from '../../db/services/party-registry.service.js';
 import { ComparisonsCacheService } from '../../db/services/comparisons-cache.service.js';
 
 const router: Router = Router();
@@ -15,92 +22,14 @@ const ragPipeline = new RAGPipeline({
     maxContextLength: 6000 // ~1.5k tokens per party (allows 2 chunks per party)
 });
 
-/**
- * Map party abbreviations to document party_ids
- * Some parties have different IDs in the documents table than their abbreviations
- */
-const ABBREVIATION_TO_DOCUMENT_ID: Record<string, string> = {
-    'PS': 'PPSO',      // Pueblo Soberano
-    'AVAN': 'PA',      // Avanza (Partido Avanza)
-    'CRM': 'ACRM',     // Aquí Costa Rica Manda
-    'CT': 'PDLCT',     // De la Clase Trabajadora
-    'EN': 'PEN',       // Esperanza Nacional
-    'EL': 'PEL',       // Esperanza y Libertad
-    'IN': 'PIN',       // Integración Nacional
-    'JSC': 'PJSC',     // Justicia Social Costarricense
-    'LP': 'PLP',       // Liberal Progresista
-    'NG': 'PNG',       // Nueva Generación
-    'NR': 'PNR',       // Nueva República
-    'UCD': 'PUCD',     // Unión Costarricense Democrática
-    // These already match:
-    'CAC': 'CAC',      // Coalición Agenda Ciudadana
-    'CDS': 'CDS',      // Centro Democrático y Social
-    'CR1': 'CR1',      // Costa Rica Primero
-    'FA': 'FA',        // Frente Amplio
-    'PLN': 'PLN',      // Partido Liberación Nacional
-    'PSD': 'PSD',      // Progreso Social Democrático
-    'PUSC': 'PUSC',    // Unidad Social Cristiana
-    'UP': 'UP',        // Unidos Podemos
-};
-
-// Proposal state enum
-export enum ProposalState {
-    COMPLETA = 'completa',
-    PARCIAL = 'parcial',
-    POCO_CLARA = 'poco_clara',
-    SIN_INFORMACION = 'sin_informacion'
-}
-
-/**
- * Determine proposal state based on answer quality and sources
- */
-function determineProposalState(
-    answer: string,
-    sourcesCount: number,
-    confidence: number
-): ProposalState {
-    // No information
-    if (sourcesCount === 0 || confidence < 0.2) {
-        return ProposalState.SIN_INFORMACION;
-    }
-
-    // Check for uncertainty phrases
-    const uncertaintyPhrases = [
-        'no tengo suficiente información',
-        'no hay información',
-        'no puedo determinar',
-        'no se especifica',
-        'no está claro',
-        'I don\'t have enough information',
-        'there is no information',
-        'I cannot determine',
-        'not specified',
-        'unclear'
-    ];
-
-    const hasUncertainty = uncertaintyPhrases.some(phrase =>
-        answer.toLowerCase().includes(phrase)
-    );
-
-    if (hasUncertainty || confidence < 0.4) {
-        return ProposalState.POCO_CLARA;
-    }
-
-    // Check answer length and detail
-    const isDetailed = answer.length > 200 && sourcesCount >= 2;
-    const isModerate = answer.length > 100 && sourcesCount >= 1;
-
-    if (isDetailed && confidence >= 0.7) {
-        return ProposalState.COMPLETA;
-    }
+// Rubric scorer for the concreteness breakdown of each party
+const specificityScorer = new SpecificityScorer();
 
-    if (isModerate && confidence >= 0.5) {
-        return ProposalState.PARCIAL;
-    }
+// Party names, abbreviations and TSE plan URLs
+const partyRegistry = getPartyRegistry();
 
-    // Default to poco clara if we have some info but it's not clear
-    return ProposalState.POCO_CLARA;
-}
+// Interval between SSE keep-alive comments
+const KEEP_ALIVE_INTERVAL_MS = 15000;
 
 // Validation schema
 const compareSchema = z.object({
@@ -110,6 +39,42 @@ const compareSchema = z.object({
     temperature: z.coerce.number().min(0).max(2).default(0.7),
 });
 
+const compareStreamSchema = compareSchema.extend({
+    concurrency: z.coerce.number().int().min(1).max(5).default(3),
+});
+
+const warmupSchema = z.object({
+    topics: z.array(z.string().min(1).max(500)).min(1).max(20).optional(),
+    partyIds: z.array(z.string()).min(1).max(5).optional(),
+});
+
+// Topics warmed up by default (the compare page suggestions)
+const DEFAULT_WARMUP_TOPICS = [
+    'Educación',
+    'Salud',
+    'Empleo',
+    'Seguridad',
+    'Ambiente',
+    'Economía',
+    'Infraestructura',
+    'Corrupción',
+];
+
+interface WarmupStatus {
+    inProgress: boolean;
+    startedBy: string;
+    startedAt: string;
+    finishedAt: string | null;
+    total: number;       // Comparisons to warm up
+    cached: number;      // Generated and stored
+    skipped: number;     // Already cached
+    incomplete: number;  // Generated but not stored (a party has no information)
+    failed: number;
+}
+
+// Last cache warmup of this process
+let warmupStatus: WarmupStatus | null = null;
+
 /**
  * @swagger
  * /api/compare:
@@ -179,6 +144,25 @@ const compareSchema = z.object({
  *                         enum: [completa, parcial, poco_clara, sin_informacion]
  *                       confidence:
  *                         type: number
+ *                       specificity:
+ *                         type: object
+ *                         description: |
+ *                           Concreteness rubric of the sources (measurable targets, timelines,
+ *                           named institutions, funding mechanism). Each criterion has a 0-2
+ *                           score and quoted evidence from the chunks; missing lists the
+ *                           criteria without evidence.
+ *                         properties:
+ *                           score:
+ *                             type: number
+ *                           level:
+ *                             type: string
+ *                             enum: [concreta, parcial, vaga]
+ *                           criteria:
+ *                             type: array
+ *                           missing:
+ *                             type: array
+ *                             items:
+ *                               type: string
  *                       sources:
  *                         type: array
  *                         items:
@@ -192,6 +176,12 @@ const compareSchema = z.object({
  *                               type: number
  *                             documentId:
  *                               type: string
+ *                       citations:
+ *                         type: array
+ *                         description: Inline [N] markers of the answer resolved to the cited chunks (see /api/chat)
+ *                       claims:
+ *                         type: array
+ *                         description: Claims of the answer, flagged with cited=false when they have no citation
  *       400:
  *         description: Validation error
  *       500:
@@ -208,7 +198,6 @@ router.post('/', optionalAuth, async (req: Request, res: Response, next: NextFun
         // Initialize services
         const supabase = createSupabaseClient();
         const cacheService = new ComparisonsCacheService(supabase);
-        const partiesService = new PartiesService(supabase);
 
         // Check cache FIRST - this avoids ALL embeddings and LLM calls
         logger.info(`🔍 Checking cache for topic: "${params.topic}" with parties: [${params.partyIds.join(', ')}]`);
@@ -216,7 +205,7 @@ router.post('/', optionalAuth, async (req: Request, res: Response, next: NextFun
         if (cached) {
             logger.info(`✅ Cache HIT - Skipping embeddings & LLM calls for topic: "${params.topic}"`);
             
-            const partyDetailsMap = await buildPartyDetailsMap(params.partyIds, partiesService);
+            const partyDetailsMap = await buildPartyDetailsMap(params.partyIds);
             const enrichedComparisons = enrichCachedComparisons(cached.comparisons, partyDetailsMap);
             const processingTime = Date.now() - startTime;
             
@@ -237,10 +226,7 @@ router.post('/', optionalAuth, async (req: Request, res: Response, next: NextFun
         logger.info(`❌ Cache MISS - Will generate embeddings & use LLM for topic: "${params.topic}"`);
 
         // Build party mapping for RAG processing
-        const { partyDetailsMap } = await buildPartyMappingForRAG(
-            params.partyIds,
-            partiesService
-        );
+        const { partyDetailsMap } = await buildPartyMappingForRAG(params.partyIds);
 
         // Use RAG pipeline to compare parties with slugs (will be resolved to UUIDs internally)
         // Pass slugs directly so compareParties can resolve them to UUIDs
@@ -277,6 +263,9 @@ router.post('/', optionalAuth, async (req: Request, res: Response, next: NextFun
                     stateLabel: c.stateLabel,
                     confidence: c.confidence,
                     sources: c.sources,
+                    citations: c.citations,
+                    claims: c.claims,
+                    specificity: c.specificity,
                 })),
                 {
                     processingTime,
@@ -313,41 +302,419 @@ router.post('/', optionalAuth, async (req: Request, res: Response, next: NextFun
 });
 
 /**
- * Get human-readable label for proposal state
+ * @swagger
+ * /api/compare/stream:
+ *   post:
+ *     summary: Stream a party-by-party comparison using Server-Sent Events
+ *     description: |
+ *       Same comparison as POST /api/compare, but parties are processed concurrently
+ *       and each one is sent as soon as its answer and proposal state are ready
+ *       (completion order, not request order). The stream ends with a cross-party summary.
+ *     tags: [Compare]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - topic
+ *               - partyIds
+ *             properties:
+ *               topic:
+ *                 type: string
+ *                 example: educación
+ *               partyIds:
+ *                 type: array
+ *                 maxItems: 5
+ *                 items:
+ *                   type: string
+ *                 example: ["pln", "pac", "fa"]
+ *               topKPerParty:
+ *                 type: number
+ *                 default: 3
+ *               temperature:
+ *                 type: number
+ *                 default: 0.7
+ *               concurrency:
+ *                 type: number
+ *                 minimum: 1
+ *                 maximum: 5
+ *                 default: 3
+ *                 description: Parties processed at the same time
+ *     responses:
+ *       200:
+ *         description: Server-Sent Events stream
+ *         content:
+ *           text/event-stream:
+ *             schema:
+ *               type: string
+ *               description: |
+ *                 SSE stream with events (start, party, party_error, done, error).
+ *                 Each party event holds one comparison with the same shape as the
+ *                 items of POST /api/compare (state, stateLabel, sources, citations, claims).
+ *                 done holds the cross-party summary (null when fewer than two parties
+ *                 have information) and the metadata. Lines starting with ":" are keep-alive comments.
+ *       400:
+ *         description: Validation error
  */
-function getStateLabel(state: ProposalState): string {
-    const labels: Record<ProposalState, string> = {
-        [ProposalState.COMPLETA]: 'Completa',
-        [ProposalState.PARCIAL]: 'Parcial',
-        [ProposalState.POCO_CLARA]: 'Poco clara',
-        [ProposalState.SIN_INFORMACION]: 'Sin información'
+router.post('/stream', optionalAuth, async (req: Request, res: Response, next: NextFunction) => {
+    const startTime = Date.now();
+    let params: z.infer<typeof compareStreamSchema>;
+    try {
+        params = compareStreamSchema.parse(req.body);
+    } catch (error) {
+        if (error instanceof z.ZodError) {
+            return res.status(400).json({
+                error: 'Validation error',
+                details: error.errors
+            });
+        }
+        return next(error);
+    }
+
+    logger.info(`Streaming comparison of ${params.partyIds.length} parties on topic: "${params.topic}"`);
+
+    // Set up SSE headers
+    res.setHeader('Content-Type', 'text/event-stream');
+    res.setHeader('Cache-Control', 'no-cache');
+    res.setHeader('Connection', 'keep-alive');
+    res.setHeader('X-Accel-Buffering', 'no'); // Disable nginx buffering
+    res.flushHeaders();
+
+    const sendEvent = (event: Record<string, unknown>) => {
+        res.write(`data: ${JSON.stringify(event)}\n\n`);
     };
-    return labels[state];
+
+    // Stop processing parties if the client goes away
+    const abortController = new AbortController();
+    res.on('close', () => {
+        if (!res.writableEnded) {
+            logger.info(`Client disconnected, aborting comparison stream for topic: "${params.topic}"`);
+            abortController.abort();
+        }
+    });
+
+    const keepAlive = setInterval(() => {
+        res.write(': keep-alive\n\n');
+    }, KEEP_ALIVE_INTERVAL_MS);
+
+    try {
+        const supabase = createSupabaseClient();
+        const cacheService = new ComparisonsCacheService(supabase);
+
+        sendEvent({ type: 'start', topic: params.topic, parties: params.partyIds });
+
+        const cached = await cacheService.getCached(params.topic, params.partyIds);
+        if (cached) {
+            logger.info(`✅ Cache HIT - Streaming cached comparison for topic: "${params.topic}"`);
+
+            const partyDetailsMap = await buildPartyDetailsMap(params.partyIds);
+            const comparisons = enrichCachedComparisons(cached.comparisons, partyDetailsMap);
+            for (const comparison of comparisons) {
+                sendEvent({ type: 'party', comparison });
+            }
+
+            // Entries cached by POST /api/compare have no summary yet: generate it once
+            let summary: string | null = cached.metadata.summary;
+            if (summary === undefined) {
+                summary = await ragPipeline.summarizeComparisons(
+                    params.topic,
+                    comparisons.map((comparison: any) => ({ ...comparison, citations: [], claims: [] })),
+                    { temperature: params.temperature, signal: abortController.signal }
+                );
+                if (abortController.signal.aborted) {
+                    return;
+                }
+                cacheService.setSummary(params.topic, params.partyIds, cached.metadata, summary).catch(err => {
+                    logger.warn('Failed to cache comparison summary:', err);
+                });
+            }
+
+            sendEvent({
+                type: 'done',
+                summary,
+                metadata: {
+                    totalParties: comparisons.length,
+                    timestamp: new Date().toISOString(),
+                    cached: true,
+                    processingTime: Date.now() - startTime,
+                }
+            });
+            return;
+        }
+
+        logger.info(`❌ Cache MISS - Streaming RAG comparison for topic: "${params.topic}"`);
+
+        const { partyDetailsMap } = await buildPartyMappingForRAG(params.partyIds);
+        const partySlugs = params.partyIds.map(id => id.toLowerCase());
+
+        const comparisons: Array<ReturnType<typeof enrichRAGComparison>> = [];
+        const failedParties: string[] = [];
+        let summary: string | null = null;
+
+        for await (const event of ragPipeline.compareStreaming(params.topic, partySlugs, {
+            topKPerParty: params.topKPerParty,
+            temperature: params.temperature,
+            concurrency: params.concurrency,
+            signal: abortController.signal
+        })) {
+            if (abortController.signal.aborted) {
+                return;
+            }
+
+            if (event.type === 'party') {
+                const comparison = enrichRAGComparison(event.comparison, partyDetailsMap);
+                comparisons.push(comparison);
+                sendEvent({ type: 'party', comparison });
+            } else if (event.type === 'party_error') {
+                failedParties.push(event.party);
+                sendEvent({ type: 'party_error', party: event.party, error: 'Failed to compare party' });
+            } else {
+                summary = event.summary;
+            }
+        }
+
+        const processingTime = Date.now() - startTime;
+        logger.info(`Comparison stream completed: ${comparisons.length} parties compared in ${processingTime}ms`);
+
+        // Same rule as POST /api/compare: only cache when every party has information
+        const complete = failedParties.length === 0 &&
+            !comparisons.some(c => c.state === ProposalState.SIN_INFORMACION);
+        if (complete) {
+            const ordered = partySlugs
+                .map(slug => comparisons.find(c => c.party === (partyDetailsMap.get(slug)?.slug || slug)))
+                .filter((comparison): comparison is ReturnType<typeof enrichRAGComparison> => !!comparison);
+
+            cacheService.setCached(
+                params.topic,
+                params.partyIds,
+                ordered.map(c => ({
+                    party: c.party,
+                    answer: c.answer,
+                    state: c.state,
+                    stateLabel: c.stateLabel,
+                    confidence: c.confidence,
+                    sources: c.sources,
+                    citations: c.citations,
+                    claims: c.claims,
+                    specificity: c.specificity,
+                })),
+                { processingTime, summary }
+            ).catch(err => {
+                logger.warn('Failed to cache comparison stream result:', err);
+            });
+        }
+
+        sendEvent({
+            type: 'done',
+            summary,
+            metadata: {
+                totalParties: comparisons.length,
+                failedParties,
+                timestamp: new Date().toISOString(),
+                cached: false,
+                processingTime,
+            }
+        });
+    } catch (error) {
+        if (!abortController.signal.aborted) {
+            logger.error('Compare stream error:', error);
+            sendEvent({
+                type: 'error',
+                error: 'Failed to compare parties',
+                message: error instanceof Error ? error.message : 'Unknown error'
+            });
+        }
+    } finally {
+        clearInterval(keepAlive);
+        res.end();
+    }
+});
+
+/**
+ * @swagger
+ * /api/compare/warmup:
+ *   get:
+ *     summary: Get the progress of the last comparison cache warmup (admin)
+ *     tags: [Compare]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Warmup status (null if none ran since the server started)
+ */
+router.get('/warmup', requireAuth, requireAdmin, (req: Request, res: Response) => {
+    res.json({ warmup: warmupStatus });
+});
+
+/**
+ * @swagger
+ * /api/compare/warmup:
+ *   post:
+ *     summary: Pre-compute and cache comparisons (admin)
+ *     description: |
+ *       Runs in the background. Every topic is compared for each party alone and
+ *       for all the parties together; comparisons already cached are skipped.
+ *     tags: [Compare]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               topics:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                 description: Topics to compare (default the compare page suggestions)
+ *               partyIds:
+ *                 type: array
+ *                 maxItems: 5
+ *                 items:
+ *                   type: string
+ *                 description: Party slugs (default the featured parties)
+ *     responses:
+ *       202:
+ *         description: Warmup started
+ *       409:
+ *         description: A warmup is already running
+ */
+router.post('/warmup', requireAuth, requireAdmin, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const params = warmupSchema.parse(req.body ?? {});
+
+        if (warmupStatus?.inProgress) {
+            return res.status(409).json({ error: 'A cache warmup is already running', warmup: warmupStatus });
+        }
+
+        const topics = params.topics ?? DEFAULT_WARMUP_TOPICS;
+        const partySlugs = (params.partyIds ?? (await partyRegistry.featured()).slice(0, 5).map(party => party.slug))
+            .map(id => id.toLowerCase());
+        const combinations = partySlugs.length > 1
+            ? [...partySlugs.map(slug => [slug]), partySlugs]
+            : [partySlugs];
+
+        const status: WarmupStatus = {
+            inProgress: true,
+            startedBy: req.user!.email,
+            startedAt: new Date().toISOString(),
+            finishedAt: null,
+            total: topics.length * combinations.length,
+            cached: 0,
+            skipped: 0,
+            incomplete: 0,
+            failed: 0,
+        };
+        warmupStatus = status;
+
+        void (async () => {
+            const cacheService = new ComparisonsCacheService(createSupabaseClient());
+            for (const topic of topics) {
+                for (const partyIds of combinations) {
+                    try {
+                        status[await warmComparison(cacheService, topic, partyIds)]++;
+                    } catch (error) {
+                        status.failed++;
+                        logger.warn(`Warmup failed for "${topic}" (${partyIds.join(', ')}): ${error instanceof Error ? error.message : String(error)}`);
+                    }
+                }
+            }
+            status.inProgress = false;
+            status.finishedAt = new Date().toISOString();
+            logger.info(`Cache warmup finished: ${status.cached} cached, ${status.skipped} skipped, ${status.incomplete} incomplete, ${status.failed} failed`);
+        })();
+
+        logger.info(`Cache warmup started by ${req.user!.email}: ${status.total} comparisons`);
+        res.status(202).json({ warmup: status });
+    } catch (error) {
+        if (error instanceof z.ZodError) {
+            return res.status(400).json({
+                error: 'Validation error',
+                details: error.errors
+            });
+        }
+        next(error);
+    }
+});
+
+/**
+ * Generate and cache a comparison unless it is already cached
+ * Follows the caching rule of POST /api/compare
+ */
+async function warmComparison(
+    cacheService: ComparisonsCacheService,
+    topic: string,
+    partyIds: string[]
+): Promise<'cached' | 'skipped' | 'incomplete'> {
+    if (await cacheService.getCached(topic, partyIds)) {
+        return 'skipped';
+    }
+
+    const startTime = Date.now();
+    const { partyDetailsMap } = await buildPartyMappingForRAG(partyIds);
+    const result = await ragPipeline.compareParties(topic, partyIds, { topKPerParty: 3, temperature: 0.7 });
+    const comparisons = enrichRAGComparisons(result.comparisons, partyDetailsMap);
+
+    if (comparisons.some(c => c.state === ProposalState.SIN_INFORMACION)) {
+        return 'incomplete';
+    }
+
+    await cacheService.setCached(
+        topic,
+        partyIds,
+        comparisons.map(c => ({
+            party: c.party,
+            answer: c.answer,
+            state: c.state,
+            stateLabel: c.stateLabel,
+            confidence: c.confidence,
+            sources: c.sources,
+            citations: c.citations,
+            claims: c.claims,
+            specificity: c.specificity,
+        })),
+        { processingTime: Date.now() - startTime }
+    );
+    return 'cached';
+}
+
+/**
+ * Party details added to every comparison
+ */
+interface PartyDetails {
+    name: string;
+    abbreviation: string;
+    slug: string;
+    tsePlanUrl: string | null;
 }
 
 /**
  * Build party details map from party IDs
  */
 async function buildPartyDetailsMap(
-    partyIds: string[],
-    partiesService: PartiesService
-): Promise<Map<string, { name: string; abbreviation: string; slug: string }>> {
-    const partyDetailsMap = new Map<string, { name: string; abbreviation: string; slug: string }>();
+    partyIds: string[]
+): Promise<Map<string, PartyDetails>> {
+    const partyDetailsMap = new Map<string, PartyDetails>();
     
     for (const partyId of partyIds) {
         try {
-            const party = await partiesService.findBySlug(partyId.toLowerCase());
+            const party = await partyRegistry.findByKey(partyId.toLowerCase());
             if (party) {
                 partyDetailsMap.set(partyId.toLowerCase(), {
                     name: party.name,
                     abbreviation: party.abbreviation || partyId.toUpperCase(),
-                    slug: partyId.toLowerCase()
+                    slug: partyId.toLowerCase(),
+                    tsePlanUrl: party.tse_plan_url
                 });
             } else {
                 partyDetailsMap.set(partyId.toLowerCase(), {
                     name: partyId.toUpperCase(),
                     abbreviation: partyId.toUpperCase(),
-                    slug: partyId.toLowerCase()
+                    slug: partyId.toLowerCase(),
+                    tsePlanUrl: null
                 });
             }
         } catch (error) {
@@ -355,7 +722,8 @@ async function buildPartyDetailsMap(
             partyDetailsMap.set(partyId.toLowerCase(), {
                 name: partyId.toUpperCase(),
                 abbreviation: partyId.toUpperCase(),
-                slug: partyId.toLowerCase()
+                slug: partyId.toLowerCase(),
+                tsePlanUrl: null
             });
         }
     }
@@ -368,29 +736,30 @@ async function buildPartyDetailsMap(
  * Returns map keyed by slug for easy lookup
  */
 async function buildPartyMappingForRAG(
-    partyIds: string[],
-    partiesService: PartiesService
+    partyIds: string[]
 ): Promise<{
-    partyDetailsMap: Map<string, { name: string; abbreviation: string; slug: string }>;
+    partyDetailsMap: Map<string, PartyDetails>;
 }> {
-    const partyDetailsMap = new Map<string, { name: string; abbreviation: string; slug: string }>();
+    const partyDetailsMap = new Map<string, PartyDetails>();
 
     for (const partyId of partyIds) {
         const slug = partyId.toLowerCase();
         try {
-            const party = await partiesService.findBySlug(slug);
+            const party = await partyRegistry.findByKey(slug);
             if (party) {
                 partyDetailsMap.set(slug, {
                     name: party.name,
                     abbreviation: party.abbreviation || partyId.toUpperCase(),
-                    slug: slug
+                    slug: slug,
+                    tsePlanUrl: party.tse_plan_url
                 });
             } else {
                 // Fallback if party not found
                 partyDetailsMap.set(slug, {
                     name: partyId.toUpperCase(),
                     abbreviation: partyId.toUpperCase(),
-                    slug: slug
+                    slug: slug,
+                    tsePlanUrl: null
                 });
             }
         } catch (error) {
@@ -398,7 +767,8 @@ async function buildPartyMappingForRAG(
             partyDetailsMap.set(slug, {
                 name: partyId.toUpperCase(),
                 abbreviation: partyId.toUpperCase(),
-                slug: slug
+                slug: slug,
+                tsePlanUrl: null
             });
         }
     }
@@ -407,23 +777,27 @@ async function buildPartyMappingForRAG(
 }
 
 /**
- * Enrich cached comparisons with party names
+ * Enrich cached comparisons with party names and the specificity breakdown
  */
 function enrichCachedComparisons(
     cachedComparisons: any[],
-    partyDetailsMap: Map<string, { name: string; abbreviation: string; slug: string }>
+    partyDetailsMap: Map<string, PartyDetails>
 ) {
     return cachedComparisons.map((comparison: any) => {
         const partyDetails = partyDetailsMap.get(comparison.party.toLowerCase()) || {
             name: comparison.party.toUpperCase(),
             abbreviation: comparison.party.toUpperCase(),
-            slug: comparison.party.toLowerCase()
+            slug: comparison.party.toLowerCase(),
+            tsePlanUrl: null
         };
 
         return {
             ...comparison,
             partyName: partyDetails.name,
             partyAbbreviation: partyDetails.abbreviation,
+            tsePlanUrl: partyDetails.tsePlanUrl,
+            // Entries cached before the score was stored only have the truncated sources
+            specificity: comparison.specificity ?? specificityScorer.score(comparison.sources || []),
         };
     });
 }
@@ -436,43 +810,69 @@ function enrichRAGComparisons(
         party: string;
         answer: string;
         sources: any[];
+        citations: Citation[];
+        claims: AnswerClaim[];
         confidence: number;
+        specificity: SpecificityScore;
     }>,
-    partyDetailsMap: Map<string, { name: string; abbreviation: string; slug: string }>
+    partyDetailsMap: Map<string, PartyDetails>
 ) {
-    return comparisons.map((comparison) => {
-        const state = determineProposalState(
-            comparison.answer,
-            comparison.sources.length,
-            comparison.confidence
-        );
+    return comparisons.map((comparison) => enrichRAGComparison(comparison, partyDetailsMap));
+}
 
-        // comparison.party is now a slug (e.g., "pln")
-        const partySlug = comparison.party.toLowerCase();
-        const partyDetails = partyDetailsMap.get(partySlug) || {
-            name: comparison.party.toUpperCase(),
-            abbreviation: comparison.party.toUpperCase(),
-            slug: partySlug
-        };
+/**
+ * Enrich a single RAG comparison with its state, specificity breakdown and party details
+ */
+function enrichRAGComparison(
+    comparison: {
+        party: string;
+        answer: string;
+        sources: any[];
+        citations: Citation[];
+        claims: AnswerClaim[];
+        confidence: number;
+        specificity: SpecificityScore;
+    },
+    partyDetailsMap: Map<string, PartyDetails>
+) {
+    const state = determineProposalState(
+        comparison.answer,
+        comparison.sources.length,
+        comparison.confidence
+    );
 
-        return {
-            party: partyDetails.slug,
-            partyName: partyDetails.name,
-            partyAbbreviation: partyDetails.abbreviation,
-            answer: comparison.answer,
-            state,
-            stateLabel: getStateLabel(state),
-            confidence: comparison.confidence,
-            sources: comparison.sources.map(source => ({
-                content: source.content,
-                relevance: source.relevance,
-                pageNumber: 'pageNumber' in source ? source.pageNumber : undefined,
-                pageRange: 'pageRange' in source ? source.pageRange : undefined,
-                documentId: 'documentId' in source ? source.documentId : undefined,
-                chunkId: 'chunkId' in source ? source.chunkId : undefined,
-            }))
-        };
-    });
+    // comparison.party is now a slug (e.g., "pln")
+    const partySlug = comparison.party.toLowerCase();
+    const partyDetails = partyDetailsMap.get(partySlug) || {
+        name: comparison.party.toUpperCase(),
+        abbreviation: comparison.party.toUpperCase(),
+        slug: partySlug,
+        tsePlanUrl: null
+    };
+
+    const sources = comparison.sources.map(source => ({
+        content: source.content,
+        relevance: source.relevance,
+        pageNumber: 'pageNumber' in source ? source.pageNumber : undefined,
+        pageRange: 'pageRange' in source ? source.pageRange : undefined,
+        documentId: 'documentId' in source ? source.documentId : undefined,
+        chunkId: 'chunkId' in source ? source.chunkId : undefined,
+    }));
+
+    return {
+        party: partyDetails.slug,
+        partyName: partyDetails.name,
+        partyAbbreviation: partyDetails.abbreviation,
+        tsePlanUrl: partyDetails.tsePlanUrl,
+        answer: comparison.answer,
+        state,
+        stateLabel: getProposalStateLabel(state),
+        confidence: comparison.confidence,
+        specificity: comparison.specificity,
+        sources,
+        citations: comparison.citations,
+        claims: comparison.claims,
+    };
 }
 
 export default router;
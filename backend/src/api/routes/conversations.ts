@@ -0,0 +1,367 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { z } from 'zod';
+import { Logger } from '@ticobot/shared';
+import { requireAuth } from '../middleware/auth.middleware.js';
+import { createSupabaseClient } from '../../db/supabase.js';
+import { ConversationsService } from '../../db/services/conversations.service.js';
+
+const router: Router = Router();
+const logger = new Logger('ConversationsAPI');
+
+// Initialize services
+const supabase = createSupabaseClient();
+const conversationsService = new ConversationsService(supabase);
+
+// Validation schemas
+const conversationIdSchema = z.object({
+    id: z.string().uuid('Invalid conversation ID format')
+});
+
+const listConversationsSchema = z.object({
+    limit: z.coerce.number().min(1).max(100).default(20),
+    offset: z.coerce.number().min(0).default(0)
+});
+
+const titleSchema = z.object({
+    title: z.string().trim().min(1, 'Title cannot be empty').max(200, 'Title too long')
+});
+
+const claimSchema = z.object({
+    sessionId: z.string().min(8, 'Invalid session ID').max(100, 'Invalid session ID')
+});
+
+/**
+ * @swagger
+ * /api/conversations:
+ *   get:
+ *     summary: List the user's conversations
+ *     description: Retrieve the authenticated user's conversations, most recently active first
+ *     tags: [Conversations]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: number
+ *           minimum: 1
+ *           maximum: 100
+ *           default: 20
+ *       - in: query
+ *         name: offset
+ *         schema:
+ *           type: number
+ *           minimum: 0
+ *           default: 0
+ *     responses:
+ *       200:
+ *         description: List of conversations with pagination metadata
+ *       401:
+ *         description: Authentication required
+ */
+router.get('/', requireAuth, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const params = listConversationsSchema.parse(req.query);
+        const userId = req.user!.userId;
+
+        const conversations = await conversationsService.findByUser(userId, {
+            limit: params.limit,
+            offset: params.offset
+        });
+        const total = await conversationsService.countByUser(userId);
+
+        res.json({
+            conversations,
+            pagination: {
+                total,
+                limit: params.limit,
+                offset: params.offset,
+                hasMore: (params.offset + params.limit) < total
+            }
+        });
+
+    } catch (error) {
+        if (error instanceof z.ZodError) {
+            return res.status(400).json({
+                error: 'Validation error',
+                details: error.errors
+            });
+        }
+        next(error);
+    }
+});
+
+/**
+ * @swagger
+ * /api/conversations:
+ *   post:
+ *     summary: Create a conversation
+ *     description: Start an empty conversation for the authenticated user
+ *     tags: [Conversations]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - title
+ *             properties:
+ *               title:
+ *                 type: string
+ *                 example: Propuestas de educación
+ *     responses:
+ *       201:
+ *         description: Conversation created
+ *       400:
+ *         description: Validation error
+ *       401:
+ *         description: Authentication required
+ */
+router.post('/', requireAuth, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const { title } = titleSchema.parse(req.body);
+
+        const conversation = await conversationsService.create({ userId: req.user!.userId }, title);
+
+        logger.info(`Conversation created: ${conversation.id} (user=${req.user!.userId})`);
+
+        res.status(201).json({ conversation });
+
+    } catch (error) {
+        if (error instanceof z.ZodError) {
+            return res.status(400).json({
+                error: 'Validation error',
+                details: error.errors
+            });
+        }
+        next(error);
+    }
+});
+
+/**
+ * @swagger
+ * /api/conversations/claim:
+ *   post:
+ *     summary: Claim anonymous conversations
+ *     description: Transfer the conversations of an anonymous chat session to the authenticated user (after signing up or logging in)
+ *     tags: [Conversations]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - sessionId
+ *             properties:
+ *               sessionId:
+ *                 type: string
+ *                 description: Anonymous session ID sent with the chat requests
+ *     responses:
+ *       200:
+ *         description: Number of conversations claimed
+ *       400:
+ *         description: Validation error
+ *       401:
+ *         description: Authentication required
+ */
+router.post('/claim', requireAuth, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const { sessionId } = claimSchema.parse(req.body);
+
+        const claimed = await conversationsService.claimAnonymous(sessionId, req.user!.userId);
+
+        logger.info(`User ${req.user!.userId} claimed ${claimed} anonymous conversations`);
+
+        res.json({ claimed });
+
+    } catch (error) {
+        if (error instanceof z.ZodError) {
+            return res.status(400).json({
+                error: 'Validation error',
+                details: error.errors
+            });
+        }
+        next(error);
+    }
+});
+
+/**
+ * @swagger
+ * /api/conversations/{id}:
+ *   get:
+ *     summary: Get a conversation with its messages
+ *     tags: [Conversations]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Conversation and its messages in chronological order
+ *       400:
+ *         description: Invalid conversation ID format
+ *       401:
+ *         description: Authentication required
+ *       404:
+ *         description: Conversation not found
+ */
+router.get('/:id', requireAuth, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const { id } = conversationIdSchema.parse(req.params);
+
+        const conversation = await conversationsService.findForOwner(id, { userId: req.user!.userId });
+
+        if (!conversation) {
+            return res.status(404).json({
+                error: 'Conversation not found',
+                id
+            });
+        }
+
+        const messages = await conversationsService.getMessages(id);
+
+        res.json({ conversation, messages });
+
+    } catch (error) {
+        if (error instanceof z.ZodError) {
+            return res.status(400).json({
+                error: 'Validation error',
+                details: error.errors
+            });
+        }
+        next(error);
+    }
+});
+
+/**
+ * @swagger
+ * /api/conversations/{id}:
+ *   patch:
+ *     summary: Rename a conversation
+ *     tags: [Conversations]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - title
+ *             properties:
+ *               title:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Renamed conversation
+ *       400:
+ *         description: Validation error
+ *       401:
+ *         description: Authentication required
+ *       404:
+ *         description: Conversation not found
+ */
+router.patch('/:id', requireAuth, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const { id } = conversationIdSchema.parse(req.params);
+        const { title } = titleSchema.parse(req.body);
+
+        const existing = await conversationsService.findForOwner(id, { userId: req.user!.userId });
+
+        if (!existing) {
+            return res.status(404).json({
+                error: 'Conversation not found',
+                id
+            });
+        }
+
+        const conversation = await conversationsService.rename(id, title);
+
+        res.json({ conversation });
+
+    } catch (error) {
+        if (error instanceof z.ZodError) {
+            return res.status(400).json({
+                error: 'Validation error',
+                details: error.errors
+            });
+        }
+        next(error);
+    }
+});
+
+/**
+ * @swagger
+ * /api/conversations/{id}:
+ *   delete:
+ *     summary: Delete a conversation and its messages
+ *     tags: [Conversations]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Conversation deleted
+ *       400:
+ *         description: Invalid conversation ID format
+ *       401:
+ *         description: Authentication required
+ *       404:
+ *         description: Conversation not found
+ */
+router.delete('/:id', requireAuth, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const { id } = conversationIdSchema.parse(req.params);
+
+        const existing = await conversationsService.findForOwner(id, { userId: req.user!.userId });
+
+        if (!existing) {
+            return res.status(404).json({
+                error: 'Conversation not found',
+                id
+            });
+        }
+
+        await conversationsService.delete(id);
+
+        logger.info(`Conversation deleted: ${id} (user=${req.user!.userId})`);
+
+        res.json({ success: true, id });
+
+    } catch (error) {
+        if (error instanceof z.ZodError) {
+            return res.status(400).json({
+                error: 'Validation error',
+                details: error.errors
+            });
+        }
+        next(error);
+    }
+});
+
+export default router;
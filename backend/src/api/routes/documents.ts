@@ -2,34 +2,13 @@ import { Router, Request, Response, NextFunction } from 'express';
 import { createClient, SupabaseClient } from '@supabase/supabase-js';
 import { z } from 'zod';
 import { Logger } from '@ticobot/shared';
+import type { Party } from '../../db/services/parties.service.js';
+import { getPartyRegistry } from '../../db/services/party-registry.service.js';
+import { DocumentVersionsService } from '../../db/services/document-versions.service.js';
 
 const router: Router = Router();
 const logger = new Logger('DocumentsAPI');
 
-// Official TSE URLs mapping
-const TSE_URLS: Record<string, string> = {
-  'PLN': 'https://www.tse.go.cr/2026/docus/planesgobierno/PLN.pdf',
-  'PAC': 'https://www.tse.go.cr/2026/docus/planesgobierno/PA.pdf',
-  'PUSC': 'https://www.tse.go.cr/2026/docus/planesgobierno/PUSC.pdf',
-  'FA': 'https://www.tse.go.cr/2026/docus/planesgobierno/FA.pdf',
-  'PPSO': 'https://www.tse.go.cr/2026/docus/planesgobierno/PPSO.pdf',
-  'PIN': 'https://www.tse.go.cr/2026/docus/planesgobierno/PIN.pdf',
-  'PLP': 'https://www.tse.go.cr/2026/docus/planesgobierno/PLP.pdf',
-  'PNR': 'https://www.tse.go.cr/2026/docus/planesgobierno/PNR.pdf',
-  'PSD': 'https://www.tse.go.cr/2026/docus/planesgobierno/PSD.pdf',
-  'UP': 'https://www.tse.go.cr/2026/docus/planesgobierno/UP.pdf',
-  'PUCD': 'https://www.tse.go.cr/2026/docus/planesgobierno/PUCD.pdf',
-  'PNG': 'https://www.tse.go.cr/2026/docus/planesgobierno/PNG.pdf',
-  'CDS': 'https://www.tse.go.cr/2026/docus/planesgobierno/CDS.pdf',
-  'CAC': 'https://www.tse.go.cr/2026/docus/planesgobierno/CAC.pdf',
-  'PDLCT': 'https://www.tse.go.cr/2026/docus/planesgobierno/PDLCT.pdf',
-  'PEN': 'https://www.tse.go.cr/2026/docus/planesgobierno/PEN.pdf',
-  'PEL': 'https://www.tse.go.cr/2026/docus/planesgobierno/PEL.pdf',
-  'PJSC': 'https://www.tse.go.cr/2026/docus/planesgobierno/PJSC.pdf',
-  'ACRM': 'https://www.tse.go.cr/2026/docus/planesgobierno/ACRM.pdf',
-  'CR1': 'https://www.tse.go.cr/2026/docus/planesgobierno/CR1.pdf'
-};
-
 // Lazy initialization - only create client when needed
 let supabaseClient: SupabaseClient | null = null;
 
@@ -54,6 +33,10 @@ const getDocumentSchema = z.object({
     id: z.string().uuid('Invalid document ID format')
 });
 
+const getVersionSchema = getDocumentSchema.extend({
+    version: z.coerce.number().int().min(1)
+});
+
 const listDocumentsSchema = z.object({
     party: z.string().optional(),
     limit: z.coerce.number().min(1).max(100).default(20),
@@ -150,15 +133,9 @@ router.get('/', async (req: Request, res: Response, next: NextFunction) => {
 
         logger.info(`Found ${data?.length || 0} documents (total: ${count || 0})`);
 
-        // Fetch all parties to build a lookup map
-        const { data: partiesData } = await getSupabase()
-            .from('parties')
-            .select('id, name, abbreviation, slug');
-
-        const partiesMap = new Map<string, any>();
-        partiesData?.forEach((party: any) => {
-            partiesMap.set(party.id, party);
-        });
+        // Parties from the registry, to resolve party ids and official TSE URLs
+        const parties = await getPartyRegistry().all();
+        const partiesMap = new Map(parties.map(party => [party.id, party]));
 
 // Transform documents to include party abbreviation and official TSE URL
         const documents = (data || []).map((doc: any) => {
@@ -167,10 +144,9 @@ router.get('/', async (req: Request, res: Response, next: NextFunction) => {
                           doc.party_id.length === 36 && 
                           /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(doc.party_id);
              
-            let party = null;
+            let party: Party | undefined;
             let partyAbbreviation: string;
             let partySlug: string | null = null;
-            let tseUrl: string | null = null;
 
             if (isUUID) {
                 // party_id is a UUID, look it up in parties table
@@ -180,18 +156,18 @@ router.get('/', async (req: Request, res: Response, next: NextFunction) => {
             } else {
                 // party_id is a string abbreviation (like "PPSO", "PLN")
                 partyAbbreviation = doc.party_id;
-                // Try to find party by abbreviation
-                party = Array.from(partiesMap.values()).find((p: any) => 
-                    p.abbreviation?.toUpperCase() === doc.party_id.toUpperCase()
+                // Try to find party by abbreviation or document party id
+                const partyKey = doc.party_id.toUpperCase();
+                party = parties.find(p =>
+                    p.abbreviation?.toUpperCase() === partyKey || p.document_party_id?.toUpperCase() === partyKey
                 );
                 if (party) {
                     partySlug = party.slug;
                 }
             }
 
-            // Get official TSE URL using party abbreviation
-            const partyKey = partyAbbreviation.toUpperCase();
-            tseUrl = TSE_URLS[partyKey] || null;
+            // Official TSE URL from the party registry
+            const tseUrl = party?.tse_plan_url || null;
 
             return {
                 ...doc,
@@ -417,4 +393,225 @@ router.get('/:id/chunks', async (req: Request, res: Response, next: NextFunction
     }
 });
 
+/**
+ * Document fields shown with its versions, null when it does not exist
+ */
+async function findDocumentSummary(id: string) {
+    const { data, error } = await getSupabase()
+        .from('documents')
+        .select('id, document_id, title, party_name')
+        .eq('id', id)
+        .maybeSingle();
+
+    if (error) {
+        throw new Error(`Failed to fetch document: ${error.message}`);
+    }
+
+    return data;
+}
+
+/**
+ * @swagger
+ * /api/documents/{id}/versions:
+ *   get:
+ *     summary: Get the version history of a document
+ *     description: |
+ *       List every ingested version of a government plan, newest first. A new
+ *       version is recorded each time the plan is ingested with changed content,
+ *       with a summary of the paragraphs added, removed and changed since the
+ *       previous version.
+ *     tags: [Documents]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Document UUID
+ *     responses:
+ *       200:
+ *         description: Versions of the document
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 document:
+ *                   type: object
+ *                   properties:
+ *                     id:
+ *                       type: string
+ *                     document_id:
+ *                       type: string
+ *                     title:
+ *                       type: string
+ *                     party_name:
+ *                       type: string
+ *                 versions:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       version:
+ *                         type: number
+ *                       page_count:
+ *                         type: number
+ *                       chunk_count:
+ *                         type: number
+ *                       proposal_count:
+ *                         type: number
+ *                         nullable: true
+ *                       summary:
+ *                         type: object
+ *                         nullable: true
+ *                         description: Paragraphs added, removed, changed and unchanged since the previous version
+ *                       created_at:
+ *                         type: string
+ *                         format: date-time
+ *       400:
+ *         description: Invalid document ID format
+ *       404:
+ *         description: Document not found
+ *       500:
+ *         description: Server error
+ */
+router.get('/:id/versions', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const { id } = getDocumentSchema.parse(req.params);
+
+        const document = await findDocumentSummary(id);
+        if (!document) {
+            return res.status(404).json({
+                error: 'Document not found',
+                id
+            });
+        }
+
+        const versions = await new DocumentVersionsService(getSupabase()).listVersions(id);
+
+        res.json({
+            document,
+            versions
+        });
+
+    } catch (error) {
+        if (error instanceof z.ZodError) {
+            return res.status(400).json({
+                error: 'Validation error',
+                details: error.errors
+            });
+        }
+        next(error);
+    }
+});
+
+/**
+ * @swagger
+ * /api/documents/{id}/versions/{version}:
+ *   get:
+ *     summary: Get what changed in a version of a document
+ *     description: |
+ *       Text diff of the version against the previous one, grouped by section
+ *       and page, and the proposals added or dropped when proposals were
+ *       extracted from both versions.
+ *     tags: [Documents]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Document UUID
+ *       - in: path
+ *         name: version
+ *         required: true
+ *         schema:
+ *           type: number
+ *           minimum: 1
+ *         description: Version number
+ *     responses:
+ *       200:
+ *         description: Version details
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 document:
+ *                   type: object
+ *                 version:
+ *                   type: object
+ *                   properties:
+ *                     version:
+ *                       type: number
+ *                     previous_version:
+ *                       type: number
+ *                       nullable: true
+ *                     diff:
+ *                       type: object
+ *                       nullable: true
+ *                       description: "{ summary, sections: [{ section, pages, changes: [{ type, before, after, pageStart, pageEnd }] }] }"
+ *                     proposals:
+ *                       type: array
+ *                       nullable: true
+ *                       items:
+ *                         type: object
+ *                     proposal_changes:
+ *                       type: object
+ *                       nullable: true
+ *                       properties:
+ *                         added:
+ *                           type: array
+ *                           items:
+ *                             type: object
+ *                         dropped:
+ *                           type: array
+ *                           items:
+ *                             type: object
+ *       400:
+ *         description: Validation error
+ *       404:
+ *         description: Document or version not found
+ *       500:
+ *         description: Server error
+ */
+router.get('/:id/versions/:version', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const { id, version } = getVersionSchema.parse(req.params);
+
+        const document = await findDocumentSummary(id);
+        if (!document) {
+            return res.status(404).json({
+                error: 'Document not found',
+                id
+            });
+        }
+
+        const detail = await new DocumentVersionsService(getSupabase()).getVersion(id, version);
+        if (!detail) {
+            return res.status(404).json({
+                error: 'Version not found',
+                id,
+                version
+            });
+        }
+
+        res.json({
+            document,
+            version: detail
+        });
+
+    } catch (error) {
+        if (error instanceof z.ZodError) {
+            return res.status(400).json({
+                error: 'Validation error',
+                details: error.errors
+            });
+        }
+        next(error);
+    }
+});
+
 export default router;
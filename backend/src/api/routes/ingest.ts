@@ -1,14 +1,91 @@
-import { Router, Request, Response } from 'express';
-import { IngestPipeline, IngestOptions } from '../../ingest/components/IngestPipeline.js';
+import { Router, Request, Response, NextFunction } from 'express';
+import { z } from 'zod';
 import { Logger } from '@ticobot/shared';
+import { createSupabaseClient } from '../../db/supabase.js';
+import { IngestionJobsService, type IngestionJob } from '../../db/services/ingestion-jobs.service.js';
+import { getIngestJobWorker } from '../../ingest/components/IngestJobWorker.js';
 import { requireAuth, requireAdmin } from '../middleware/auth.middleware.js';
+import { auditLog } from '../../auth/audit-logger.js';
 
 const router: Router = Router();
 const logger = new Logger('IngestAPI');
 
+const jobsService = new IngestionJobsService(createSupabaseClient());
+
+// SSE comments keep proxies from closing idle connections; the job is also
+// reloaded on every tick in case another instance is processing it
+const KEEP_ALIVE_INTERVAL_MS = 15000;
+
+const FINISHED_STATUSES = ['completed', 'failed', 'cancelled'];
+
+// Validation schemas
+const documentSchema = z.object({
+    url: z.string().url('Invalid document URL'),
+    documentId: z.string().min(1).max(100)
+});
+
+const optionsSchema = z.object({
+    generateEmbeddings: z.boolean().optional(),
+    storeInVectorDB: z.boolean().optional(),
+    resume: z.boolean().optional(),
+    force: z.boolean().optional(),
+    updateMatrix: z.boolean().optional(),
+    extractProposals: z.boolean().optional(),
+    cleaningOptions: z.record(z.unknown()).optional(),
+    chunkingOptions: z.record(z.unknown()).optional(),
+    embeddingOptions: z.object({
+        maxBatchTokens: z.number().int().positive().optional(),
+        maxBatchSize: z.number().int().positive().optional(),
+        concurrency: z.number().int().min(1).max(10).optional()
+    }).optional()
+}).optional();
+
+const ingestSchema = documentSchema.extend({
+    options: optionsSchema
+});
+
+const batchSchema = z.object({
+    documents: z.array(documentSchema).min(1).max(50),
+    options: optionsSchema
+});
+
+const jobIdSchema = z.object({
+    id: z.string().uuid('Invalid job ID format')
+});
+
+const listJobsSchema = z.object({
+    status: z.enum(['queued', 'running', 'completed', 'failed', 'cancelled']).optional(),
+    limit: z.coerce.number().int().min(1).max(100).default(20)
+});
+
+/**
+ * Queue a job and wake up the worker
+ */
+async function submitJob(
+    req: Request,
+    documents: z.infer<typeof documentSchema>[],
+    options: z.infer<typeof optionsSchema>
+): Promise<IngestionJob> {
+    const job = await jobsService.create({
+        documents,
+        options,
+        createdBy: req.user!.userId
+    });
+
+    await auditLog.adminAction(req.user!.userId, 'ingestion_job_created', {
+        jobId: job.id,
+        documents: documents.map(document => document.documentId).join(',')
+    }, req);
+    logger.info(`Ingestion job ${job.id} queued for ${documents.length} documents by ${req.user!.email}`);
+
+    void getIngestJobWorker().poll();
+    return job;
+}
+
 /**
  * POST /api/ingest/ingest
- * Ingest a single PDF document
+ * Queue the ingestion of a single PDF document
+ * Returns 202 with the job; follow it with GET /api/ingest/jobs/:id
  *
  * Body:
  * {
@@ -20,43 +97,28 @@ const logger = new Logger('IngestAPI');
  *   }
  * }
  */
-router.post('/ingest', requireAuth, requireAdmin, async (req: Request, res: Response) => {
-    const { url, documentId, options } = req.body;
-
-    if (!url || !documentId) {
-        return res.status(400).json({
-            error: 'Missing required fields: url, documentId'
-        });
-    }
-
-    logger.info(`Ingestion request received for ${documentId}`);
-
-    const pipeline = new IngestPipeline();
-
+router.post('/ingest', requireAuth, requireAdmin, async (req: Request, res: Response, next: NextFunction) => {
     try {
-        const result = await pipeline.ingest(
-            url,
-            documentId,
-            options as IngestOptions
-        );
+        const { url, documentId, options } = ingestSchema.parse(req.body);
 
-        logger.info(`Ingestion completed for ${documentId}: ${result.success ? 'success' : 'failed'}`);
+        const job = await submitJob(req, [{ url, documentId }], options);
 
-        res.json(result);
+        res.status(202).json({ jobId: job.id, job });
     } catch (error) {
-        logger.error(`Ingestion failed for ${documentId}`, error);
-
-        res.status(500).json({
-            error: error instanceof Error ? error.message : 'Ingestion failed'
-        });
-    } finally {
-        pipeline.dispose();
+        if (error instanceof z.ZodError) {
+            return res.status(400).json({
+                error: 'Validation error',
+                details: error.errors
+            });
+        }
+        next(error);
     }
 });
 
 /**
  * POST /api/ingest/batch
- * Ingest multiple PDF documents
+ * Queue the ingestion of multiple PDF documents as one job
+ * Returns 202 with the job; follow it with GET /api/ingest/jobs/:id
  *
  * Body:
  * {
@@ -76,44 +138,225 @@ router.post('/ingest', requireAuth, requireAdmin, async (req: Request, res: Resp
  *   }
  * }
  */
-router.post('/batch', requireAuth, requireAdmin, async (req: Request, res: Response) => {
-    const { documents, options } = req.body;
+router.post('/batch', requireAuth, requireAdmin, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const { documents, options } = batchSchema.parse(req.body);
 
-    if (!documents || !Array.isArray(documents)) {
-        return res.status(400).json({
-            error: 'Missing required field: documents (array)'
-        });
+        const job = await submitJob(req, documents, options);
+
+        res.status(202).json({ jobId: job.id, job });
+    } catch (error) {
+        if (error instanceof z.ZodError) {
+            return res.status(400).json({
+                error: 'Validation error',
+                details: error.errors
+            });
+        }
+        next(error);
     }
+});
 
-    logger.info(`Batch ingestion request received for ${documents.length} documents`);
+/**
+ * GET /api/ingest/jobs
+ * List the most recent ingestion jobs
+ *
+ * Query: status (queued, running, completed, failed, cancelled), limit (default 20)
+ */
+router.get('/jobs', requireAuth, requireAdmin, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const { status, limit } = listJobsSchema.parse(req.query);
 
-    const pipeline = new IngestPipeline();
+        const jobs = await jobsService.list({ status, limit });
 
+        res.json({ jobs });
+    } catch (error) {
+        if (error instanceof z.ZodError) {
+            return res.status(400).json({
+                error: 'Validation error',
+                details: error.errors
+            });
+        }
+        next(error);
+    }
+});
+
+/**
+ * GET /api/ingest/jobs/:id
+ * Get an ingestion job with its progress (document, stage, stage times) and
+ * the result of every processed document
+ */
+router.get('/jobs/:id', requireAuth, requireAdmin, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const { id } = jobIdSchema.parse(req.params);
+
+        const job = await jobsService.findById(id);
+        if (!job) {
+            return res.status(404).json({
+                error: 'Not found',
+                message: `Ingestion job ${id} not found`
+            });
+        }
+
+        res.json({ job });
+    } catch (error) {
+        if (error instanceof z.ZodError) {
+            return res.status(400).json({
+                error: 'Validation error',
+                details: error.errors
+            });
+        }
+        next(error);
+    }
+});
+
+/**
+ * GET /api/ingest/jobs/:id/events
+ * Server-Sent Events feed of a job: a { type: 'job', job } event with the
+ * current state, another on every progress update, and the stream ends
+ * once the job is completed, failed or cancelled
+ */
+router.get('/jobs/:id/events', requireAuth, requireAdmin, async (req: Request, res: Response, next: NextFunction) => {
     try {
-        const results = await pipeline.ingestBatch(
-            documents,
-            options as IngestOptions
-        );
+        const { id } = jobIdSchema.parse(req.params);
+
+        const job = await jobsService.findById(id);
+        if (!job) {
+            return res.status(404).json({
+                error: 'Not found',
+                message: `Ingestion job ${id} not found`
+            });
+        }
 
-        const successful = results.filter(r => r.success).length;
-        const failed = results.filter(r => !r.success).length;
+        res.setHeader('Content-Type', 'text/event-stream');
+        res.setHeader('Cache-Control', 'no-cache');
+        res.setHeader('Connection', 'keep-alive');
+        res.setHeader('X-Accel-Buffering', 'no'); // Disable nginx buffering
+        res.flushHeaders();
 
-        logger.info(`Batch ingestion completed: ${successful} successful, ${failed} failed`);
+        let lastUpdate = '';
+        const sendJob = (update: IngestionJob) => {
+            if (res.writableEnded) {
+                return;
+            }
+            lastUpdate = update.updated_at;
+            res.write(`data: ${JSON.stringify({ type: 'job', job: update })}\n\n`);
+            if (FINISHED_STATUSES.includes(update.status)) {
+                res.end();
+            }
+        };
 
-        res.json({
-            total: results.length,
-            successful,
-            failed,
-            results
+        const unsubscribe = getIngestJobWorker().subscribe(id, sendJob);
+        const keepAlive = setInterval(async () => {
+            try {
+                const current = await jobsService.findById(id);
+                if (current && current.updated_at !== lastUpdate) {
+                    sendJob(current);
+                } else if (!res.writableEnded) {
+                    res.write(': keep-alive\n\n');
+                }
+            } catch (error) {
+                logger.warn(`Could not reload ingestion job ${id}: ${error instanceof Error ? error.message : String(error)}`);
+            }
+        }, KEEP_ALIVE_INTERVAL_MS);
+
+        res.on('close', () => {
+            clearInterval(keepAlive);
+            unsubscribe();
         });
+
+        sendJob(job);
     } catch (error) {
-        logger.error('Batch ingestion failed', error);
+        if (error instanceof z.ZodError) {
+            return res.status(400).json({
+                error: 'Validation error',
+                details: error.errors
+            });
+        }
+        next(error);
+    }
+});
 
-        res.status(500).json({
-            error: error instanceof Error ? error.message : 'Batch ingestion failed'
-        });
-    } finally {
-        pipeline.dispose();
+/**
+ * POST /api/ingest/jobs/:id/cancel
+ * Cancel a queued or running job
+ * A running job stops before its next stage; documents already ingested are kept
+ */
+router.post('/jobs/:id/cancel', requireAuth, requireAdmin, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const { id } = jobIdSchema.parse(req.params);
+
+        const job = await jobsService.findById(id);
+        if (!job) {
+            return res.status(404).json({
+                error: 'Not found',
+                message: `Ingestion job ${id} not found`
+            });
+        }
+
+        const cancelled = await jobsService.requestCancel(id);
+        if (!cancelled) {
+            return res.status(409).json({
+                error: 'Conflict',
+                message: `Ingestion job ${id} is already ${job.status}`
+            });
+        }
+
+        getIngestJobWorker().cancel(id);
+
+        await auditLog.adminAction(req.user!.userId, 'ingestion_job_cancelled', { jobId: id }, req);
+        logger.info(`Ingestion job ${id} cancelled by ${req.user!.email}`);
+
+        res.json({ job: cancelled });
+    } catch (error) {
+        if (error instanceof z.ZodError) {
+            return res.status(400).json({
+                error: 'Validation error',
+                details: error.errors
+            });
+        }
+        next(error);
+    }
+});
+
+/**
+ * POST /api/ingest/jobs/:id/retry
+ * Queue a failed or cancelled job again
+ * Documents ingested successfully by the previous run are skipped
+ */
+router.post('/jobs/:id/retry', requireAuth, requireAdmin, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const { id } = jobIdSchema.parse(req.params);
+
+        const job = await jobsService.findById(id);
+        if (!job) {
+            return res.status(404).json({
+                error: 'Not found',
+                message: `Ingestion job ${id} not found`
+            });
+        }
+
+        const queued = await jobsService.retry(job);
+        if (!queued) {
+            return res.status(409).json({
+                error: 'Conflict',
+                message: `Only failed or cancelled jobs can be retried (job is ${job.status})`
+            });
+        }
+
+        await auditLog.adminAction(req.user!.userId, 'ingestion_job_retried', { jobId: id }, req);
+        logger.info(`Ingestion job ${id} queued again by ${req.user!.email}`);
+
+        void getIngestJobWorker().poll();
+
+        res.status(202).json({ job: queued });
+    } catch (error) {
+        if (error instanceof z.ZodError) {
+            return res.status(400).json({
+                error: 'Validation error',
+                details: error.errors
+            });
+        }
+        next(error);
     }
 });
 
@@ -0,0 +1,367 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { z } from 'zod';
+import { Logger } from '@ticobot/shared';
+import { requireAuth, requireAdmin } from '../middleware/auth.middleware.js';
+import { createSupabaseClient } from '../../db/supabase.js';
+import { PartiesService } from '../../db/services/parties.service.js';
+import { ProposalMatrixService } from '../../db/services/proposal-matrix.service.js';
+import { ProposalMatrixBuilder } from '../../rag/components/ProposalMatrixBuilder.js';
+import { ProposalState, getProposalStateLabel } from '../../rag/components/ProposalClassifier.js';
+
+const router: Router = Router();
+const logger = new Logger('MatrixAPI');
+
+// A full build runs one RAG comparison per cell: only one build at a time
+let buildInProgress = false;
+
+// Comma separated list of slugs (e.g. "educacion,salud")
+const slugList = z.string()
+    .transform(value => value.split(',').map(item => item.trim().toLowerCase()).filter(Boolean))
+    .optional();
+
+const matrixQuerySchema = z.object({
+    topics: slugList,
+    parties: slugList
+});
+
+const topicSchema = z.object({
+    slug: z.string().min(1).max(100).regex(/^[a-z0-9-]+$/, 'Slug must be lowercase letters, numbers and dashes'),
+    name: z.string().min(1).max(100),
+    query: z.string().min(1).max(500),
+    description: z.string().max(1000).optional(),
+    sort_order: z.number().int().optional(),
+    active: z.boolean().optional()
+});
+
+const rebuildSchema = z.object({
+    topics: z.array(z.string()).optional(),
+    parties: z.array(z.string()).optional(),
+    force: z.boolean().default(false)
+});
+
+function handleError(error: unknown, res: Response, next: NextFunction) {
+    if (error instanceof z.ZodError) {
+        return res.status(400).json({
+            error: 'Validation error',
+            details: error.errors
+        });
+    }
+
+    logger.error('Matrix API error:', error);
+    next(error);
+}
+
+/**
+ * Parties matching slugs or abbreviations (all parties without a filter)
+ */
+async function resolveParties(partiesService: PartiesService, keys?: string[]) {
+    const parties = await partiesService.findAll();
+    if (!keys) {
+        return parties;
+    }
+    return parties.filter(party =>
+        keys.includes(party.slug) || (!!party.abbreviation && keys.includes(party.abbreviation.toLowerCase()))
+    );
+}
+
+/**
+ * @swagger
+ * /api/matrix:
+ *   get:
+ *     summary: Topic x party proposal matrix
+ *     description: |
+ *       Stored grid of every party against the topic taxonomy. Each cell holds a short
+ *       summary of the party proposals on the topic, its proposal state, the
+ *       specificity breakdown (measurable targets, timelines, institutions, funding)
+ *       and the supporting chunk ids. Cells missing from the response have not been built
+ *       (e.g. parties without an ingested plan).
+ *     tags: [Matrix]
+ *     parameters:
+ *       - in: query
+ *         name: topics
+ *         schema:
+ *           type: string
+ *         description: Comma separated topic slugs
+ *         example: educacion,salud
+ *       - in: query
+ *         name: parties
+ *         schema:
+ *           type: string
+ *         description: Comma separated party slugs or abbreviations
+ *         example: pln,pusc
+ *     responses:
+ *       200:
+ *         description: Topics, parties and cells of the matrix
+ *       400:
+ *         description: Validation error
+ */
+router.get('/', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const filters = matrixQuerySchema.parse(req.query);
+        const supabase = createSupabaseClient();
+        const matrixService = new ProposalMatrixService(supabase);
+
+        const topics = (await matrixService.listTopics({ activeOnly: true }))
+            .filter(topic => !filters.topics || filters.topics.includes(topic.slug));
+        const parties = await resolveParties(new PartiesService(supabase), filters.parties);
+
+        const cells = topics.length > 0 && parties.length > 0
+            ? await matrixService.getCells({
+                topicIds: topics.map(topic => topic.id),
+                partyIds: parties.map(party => party.id)
+            })
+            : [];
+
+        const topicSlugs = new Map(topics.map(topic => [topic.id, topic.slug]));
+        const partySlugs = new Map(parties.map(party => [party.id, party.slug]));
+
+        res.json({
+            topics: topics.map(topic => ({
+                id: topic.id,
+                slug: topic.slug,
+                name: topic.name,
+                description: topic.description
+            })),
+            parties: parties.map(party => ({
+                id: party.id,
+                slug: party.slug,
+                name: party.name,
+                abbreviation: party.abbreviation
+            })),
+            cells: cells.map(cell => ({
+                topic: topicSlugs.get(cell.topic_id),
+                party: partySlugs.get(cell.party_id),
+                summary: cell.summary,
+                state: cell.state,
+                stateLabel: getProposalStateLabel(cell.state as ProposalState),
+                confidence: cell.confidence,
+                specificity: cell.specificity,
+                chunkIds: cell.chunk_ids,
+                documentId: cell.document_id,
+                builtAt: cell.built_at
+            }))
+        });
+    } catch (error) {
+        handleError(error, res, next);
+    }
+});
+
+/**
+ * @swagger
+ * /api/matrix/topics:
+ *   get:
+ *     summary: List the matrix topic taxonomy
+ *     description: Active topics only, unless an admin asks for all=true
+ *     tags: [Matrix]
+ *     parameters:
+ *       - in: query
+ *         name: all
+ *         schema:
+ *           type: boolean
+ *           default: false
+ *     responses:
+ *       200:
+ *         description: Topics in taxonomy order
+ *   post:
+ *     summary: Add a topic to the taxonomy (admin)
+ *     description: Cells of the new topic are created by the next build
+ *     tags: [Matrix]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - slug
+ *               - name
+ *               - query
+ *             properties:
+ *               slug:
+ *                 type: string
+ *                 example: vivienda
+ *               name:
+ *                 type: string
+ *                 example: Vivienda
+ *               query:
+ *                 type: string
+ *                 description: Question used to retrieve each party's proposals on the topic
+ *                 example: ¿Cuáles son las propuestas sobre vivienda?
+ *               description:
+ *                 type: string
+ *               sort_order:
+ *                 type: number
+ *               active:
+ *                 type: boolean
+ *     responses:
+ *       201:
+ *         description: Created topic
+ *       400:
+ *         description: Validation error
+ */
+router.get('/topics', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const matrixService = new ProposalMatrixService(createSupabaseClient());
+        const topics = await matrixService.listTopics({ activeOnly: req.query.all !== 'true' });
+
+        res.json({ topics });
+    } catch (error) {
+        handleError(error, res, next);
+    }
+});
+
+router.post('/topics', requireAuth, requireAdmin, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const topicData = topicSchema.parse(req.body);
+        const matrixService = new ProposalMatrixService(createSupabaseClient());
+
+        if (await matrixService.findTopic(topicData.slug)) {
+            return res.status(409).json({ error: `Topic ${topicData.slug} already exists` });
+        }
+
+        const topic = await matrixService.createTopic(topicData);
+        logger.info(`Matrix topic ${topic.slug} created by ${req.user?.email}`);
+
+        res.status(201).json({ topic });
+    } catch (error) {
+        handleError(error, res, next);
+    }
+});
+
+/**
+ * @swagger
+ * /api/matrix/topics/{id}:
+ *   put:
+ *     summary: Update a matrix topic (admin)
+ *     description: Changing the query does not rebuild the topic cells; run a forced rebuild for the topic
+ *     tags: [Matrix]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Updated topic
+ *       404:
+ *         description: Topic not found
+ *   delete:
+ *     summary: Delete a matrix topic and its cells (admin)
+ *     tags: [Matrix]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       204:
+ *         description: Topic deleted
+ */
+router.put('/topics/:id', requireAuth, requireAdmin, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const updates = topicSchema.partial().parse(req.body);
+        const matrixService = new ProposalMatrixService(createSupabaseClient());
+        const topic = await matrixService.updateTopic(req.params.id, updates);
+
+        if (!topic) {
+            return res.status(404).json({ error: 'Topic not found' });
+        }
+
+        res.json({ topic });
+    } catch (error) {
+        handleError(error, res, next);
+    }
+});
+
+router.delete('/topics/:id', requireAuth, requireAdmin, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const matrixService = new ProposalMatrixService(createSupabaseClient());
+        await matrixService.deleteTopic(req.params.id);
+
+        logger.info(`Matrix topic ${req.params.id} deleted by ${req.user?.email}`);
+        res.status(204).send();
+    } catch (error) {
+        handleError(error, res, next);
+    }
+});
+
+/**
+ * @swagger
+ * /api/matrix/rebuild:
+ *   post:
+ *     summary: Build the missing and outdated matrix cells (admin)
+ *     description: |
+ *       Runs in the background. Only cells whose party document changed since they
+ *       were built are rebuilt, unless force is set.
+ *     tags: [Matrix]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               topics:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                 description: Topic slugs (default all active topics)
+ *               parties:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                 description: Party slugs or abbreviations (default all parties)
+ *               force:
+ *                 type: boolean
+ *                 default: false
+ *     responses:
+ *       202:
+ *         description: Build started
+ *       409:
+ *         description: A build is already running
+ */
+router.post('/rebuild', requireAuth, requireAdmin, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const params = rebuildSchema.parse(req.body ?? {});
+
+        if (buildInProgress) {
+            return res.status(409).json({ error: 'A matrix build is already running' });
+        }
+
+        const supabase = createSupabaseClient();
+        const matrixService = new ProposalMatrixService(supabase);
+        const partiesService = new PartiesService(supabase);
+
+        const topicKeys = params.topics?.map(topic => topic.toLowerCase());
+        const topicIds = topicKeys
+            ? (await matrixService.listTopics()).filter(topic => topicKeys.includes(topic.slug)).map(topic => topic.id)
+            : undefined;
+        const partyIds = params.parties
+            ? (await resolveParties(partiesService, params.parties.map(party => party.toLowerCase()))).map(party => party.id)
+            : undefined;
+
+        buildInProgress = true;
+        new ProposalMatrixBuilder(matrixService, partiesService)
+            .build({ topicIds, partyIds, force: params.force })
+            .catch(error => logger.error('Matrix build failed:', error))
+            .finally(() => {
+                buildInProgress = false;
+            });
+
+        logger.info(`Matrix build started by ${req.user?.email}`);
+        res.status(202).json({ status: 'started', force: params.force });
+    } catch (error) {
+        handleError(error, res, next);
+    }
+});
+
+export default router;
@@ -3,7 +3,16 @@ import { z } from 'zod';
 import { Logger } from '@ticobot/shared';
 import { createSupabaseClient } from '../../db/supabase.js';
 import { PartiesService } from '../../db/services/parties.service.js';
+import { getPartyRegistry, isValidPattern } from '../../db/services/party-registry.service.js';
 import { CandidatesService } from '../../db/services/candidates.service.js';
+import { ConsistencyService } from '../../db/services/consistency.service.js';
+import { ProposalMatrixService } from '../../db/services/proposal-matrix.service.js';
+import { ConsistencyAnalyzer } from '../../rag/components/ConsistencyAnalyzer.js';
+import { getEntityResolver } from '../../rag/components/EntityResolver.js';
+import { ProviderFactory } from '../../factory/ProviderFactory.js';
+import { requireAuth, requireAdmin } from '../middleware/auth.middleware.js';
+import { auditLog } from '../../auth/audit-logger.js';
+import { clearable, imageUrlSchema, slugSchema } from '../validation.js';
 
 const router: Router = Router();
 const logger = new Logger('PartiesAPI');
@@ -12,6 +21,18 @@ const logger = new Logger('PartiesAPI');
 const supabase = createSupabaseClient();
 const partiesService = new PartiesService(supabase);
 const candidatesService = new CandidatesService(supabase);
+const consistencyService = new ConsistencyService(supabase);
+
+// Parties whose consistency analysis is running (one LLM call per topic)
+const analysesInProgress = new Set<string>();
+
+/**
+ * Apply party changes to the registry cache and the chat entity resolver
+ */
+function refreshPartyEntities(): void {
+    getPartyRegistry().invalidate();
+    void getEntityResolver().refresh();
+}
 
 // Validation schemas
 const getPartyByIdSchema = z.object({
@@ -22,6 +43,65 @@ const getPartyBySlugSchema = z.object({
     slug: z.string().min(1, 'Slug is required')
 });
 
+const reviewFindingParamsSchema = z.object({
+    id: z.string().uuid('Invalid party ID format'),
+    findingId: z.string().uuid('Invalid finding ID format')
+});
+
+const reviewFindingSchema = z.object({
+    status: z.enum(['pending', 'confirmed', 'dismissed']),
+    notes: z.string().max(2000).optional()
+});
+
+const hexColorSchema = z.string().regex(/^#[0-9a-f]{6}$/i, 'Must be a hex color (#RRGGBB)');
+
+const createPartySchema = z.object({
+    name: z.string().trim().min(1).max(200),
+    abbreviation: z.string().trim().min(1).max(20).optional(),
+    slug: slugSchema,
+    founded_year: z.number().int().min(1800).max(new Date().getFullYear()).optional(),
+    ideology: z.array(z.string().trim().min(1).max(100)).max(20).optional(),
+    colors: z.object({
+        primary: hexColorSchema,
+        secondary: hexColorSchema
+    }),
+    logo_url: imageUrlSchema.optional(),
+    description: z.string().max(5000).optional(),
+    website: z.string().url('Invalid URL').optional(),
+    social_media: z.object({
+        twitter: z.string().url('Invalid URL').optional(),
+        facebook: z.string().url('Invalid URL').optional(),
+        instagram: z.string().url('Invalid URL').optional()
+    }).optional(),
+    current_representation: z.object({
+        deputies: z.number().int().min(0),
+        mayors: z.number().int().min(0)
+    }).optional()
+});
+
+const updatePartySchema = createPartySchema.partial()
+    .extend({
+        abbreviation: clearable(createPartySchema.shape.abbreviation),
+        founded_year: clearable(createPartySchema.shape.founded_year),
+        ideology: clearable(createPartySchema.shape.ideology),
+        logo_url: clearable(createPartySchema.shape.logo_url),
+        description: clearable(createPartySchema.shape.description),
+        website: clearable(createPartySchema.shape.website),
+        social_media: clearable(createPartySchema.shape.social_media),
+        current_representation: clearable(createPartySchema.shape.current_representation)
+    })
+    .refine(data => Object.keys(data).length > 0, 'At least one field is required');
+
+const updateRegistrySchema = z.object({
+    aliases: z.array(z.string().trim().min(1).max(100)).max(50).optional(),
+    detection_patterns: z.array(
+        z.string().min(1).max(200).refine(isValidPattern, 'Invalid regular expression')
+    ).max(20).optional(),
+    document_party_id: z.string().trim().min(1).max(20).nullable().optional(),
+    tse_plan_url: z.string().url().nullable().optional(),
+    featured_rank: z.number().int().min(1).nullable().optional()
+}).refine(data => Object.keys(data).length > 0, 'At least one registry field is required');
+
 const listPartiesSchema = z.object({
     limit: z.coerce.number().min(1).max(100).default(50),
     offset: z.coerce.number().min(0).default(0)
@@ -112,6 +192,45 @@ router.get('/', async (req: Request, res: Response, next: NextFunction) => {
     }
 });
 
+/**
+ * @swagger
+ * /api/parties/registry:
+ *   get:
+ *     summary: Get the party registry (admin)
+ *     description: |
+ *       All parties with their registry fields (aliases, detection patterns,
+ *       TSE document party id, TSE plan URL and featured rank), featured
+ *       parties first
+ *     tags: [Parties]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Registry entries of all parties
+ */
+router.get('/registry', requireAuth, requireAdmin, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const parties = await getPartyRegistry().all();
+
+        res.json({
+            parties: parties.map(party => ({
+                id: party.id,
+                name: party.name,
+                slug: party.slug,
+                abbreviation: party.abbreviation,
+                aliases: party.aliases,
+                detection_patterns: party.detection_patterns,
+                document_party_id: party.document_party_id,
+                tse_plan_url: party.tse_plan_url,
+                featured_rank: party.featured_rank
+            }))
+        });
+
+    } catch (error) {
+        next(error);
+    }
+});
+
 /**
  * @swagger
  * /api/parties/slug/{slug}:
@@ -235,6 +354,211 @@ router.get('/:id', async (req: Request, res: Response, next: NextFunction) => {
     }
 });
 
+/**
+ * @swagger
+ * /api/parties:
+ *   post:
+ *     summary: Create a party (admin)
+ *     tags: [Parties]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - name
+ *               - slug
+ *               - colors
+ *             properties:
+ *               name:
+ *                 type: string
+ *               abbreviation:
+ *                 type: string
+ *               slug:
+ *                 type: string
+ *                 example: liberacion-nacional
+ *               founded_year:
+ *                 type: integer
+ *               ideology:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *               colors:
+ *                 type: object
+ *                 properties:
+ *                   primary:
+ *                     type: string
+ *                     example: '#00A651'
+ *                   secondary:
+ *                     type: string
+ *               logo_url:
+ *                 type: string
+ *                 description: HTTPS URL of a PNG, JPEG, WebP, SVG or GIF image
+ *               description:
+ *                 type: string
+ *               website:
+ *                 type: string
+ *               social_media:
+ *                 type: object
+ *               current_representation:
+ *                 type: object
+ *     responses:
+ *       201:
+ *         description: Created party
+ *       400:
+ *         description: Validation error
+ *       409:
+ *         description: A party with this slug or name already exists
+ */
+router.post('/', requireAuth, requireAdmin, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const data = createPartySchema.parse(req.body);
+
+        if (await partiesService.existsBySlug(data.slug)) {
+            return res.status(409).json({ error: 'Party slug already exists', slug: data.slug });
+        }
+
+        const party = await partiesService.create(data);
+
+        refreshPartyEntities();
+        await auditLog.adminAction(req.user!.userId, 'party_created', { partyId: party.id, slug: party.slug }, req);
+        logger.info(`Party created: ${party.slug} by ${req.user!.email}`);
+
+        res.status(201).json({ party });
+
+    } catch (error) {
+        if (error instanceof z.ZodError) {
+            return res.status(400).json({
+                error: 'Validation error',
+                details: error.errors
+            });
+        }
+        if (error instanceof Error && error.message.includes('already exists')) {
+            return res.status(409).json({ error: error.message });
+        }
+        next(error);
+    }
+});
+
+/**
+ * @swagger
+ * /api/parties/{id}:
+ *   patch:
+ *     summary: Update a party (admin)
+ *     description: |
+ *       Partial update; accepts the same fields as party creation. Optional
+ *       fields set to null are cleared.
+ *     tags: [Parties]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Updated party
+ *       400:
+ *         description: Validation error
+ *       404:
+ *         description: Party not found
+ *       409:
+ *         description: Another party already uses the slug
+ */
+router.patch('/:id', requireAuth, requireAdmin, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const { id } = getPartyByIdSchema.parse(req.params);
+        const updates = updatePartySchema.parse(req.body);
+
+        const current = await partiesService.findById(id);
+        if (!current) {
+            return res.status(404).json({ error: 'Party not found', id });
+        }
+
+        if (updates.slug && updates.slug !== current.slug && await partiesService.existsBySlug(updates.slug)) {
+            return res.status(409).json({ error: 'Party slug already exists', slug: updates.slug });
+        }
+
+        const party = await partiesService.update(id, updates);
+
+        refreshPartyEntities();
+        await auditLog.adminAction(
+            req.user!.userId,
+            'party_updated',
+            { partyId: id, slug: party.slug, fields: Object.keys(updates).join(',') },
+            req
+        );
+        logger.info(`Party updated: ${party.slug} by ${req.user!.email}`);
+
+        res.json({ party });
+
+    } catch (error) {
+        if (error instanceof z.ZodError) {
+            return res.status(400).json({
+                error: 'Validation error',
+                details: error.errors
+            });
+        }
+        next(error);
+    }
+});
+
+/**
+ * @swagger
+ * /api/parties/{id}:
+ *   delete:
+ *     summary: Delete a party (admin)
+ *     description: Deletes the party and, by cascade, its candidates
+ *     tags: [Parties]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       204:
+ *         description: Party deleted
+ *       404:
+ *         description: Party not found
+ */
+router.delete('/:id', requireAuth, requireAdmin, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const { id } = getPartyByIdSchema.parse(req.params);
+
+        const party = await partiesService.findById(id);
+        if (!party) {
+            return res.status(404).json({ error: 'Party not found', id });
+        }
+
+        await partiesService.delete(id);
+
+        refreshPartyEntities();
+        await auditLog.adminAction(req.user!.userId, 'party_deleted', { partyId: id, slug: party.slug }, req);
+        logger.info(`Party deleted: ${party.slug} by ${req.user!.email}`);
+
+        res.status(204).send();
+
+    } catch (error) {
+        if (error instanceof z.ZodError) {
+            return res.status(400).json({
+                error: 'Validation error',
+                details: error.errors
+            });
+        }
+        next(error);
+    }
+});
+
 /**
  * @swagger
  * /api/parties/{id}/candidates:
@@ -307,5 +631,325 @@ router.get('/:id/candidates', async (req: Request, res: Response, next: NextFunc
     }
 });
 
-export default router;
+/**
+ * @swagger
+ * /api/parties/{id}/consistency:
+ *   get:
+ *     summary: Get the contradictions found in a party's plan
+ *     description: |
+ *       Contradicting statements inside the government plan (kind "plan") or between the
+ *       plan and a candidate's proposals (kind "candidate"). Each side quotes the statement
+ *       with its chunk id and pages. Findings dismissed by an admin are not returned;
+ *       findings not reviewed yet have review_status "pending".
+ *     tags: [Parties]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Party UUID
+ *     responses:
+ *       200:
+ *         description: Findings of the party, most severe first
+ *       400:
+ *         description: Invalid party ID format
+ *       404:
+ *         description: Party not found
+ */
+router.get('/:id/consistency', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const { id } = getPartyByIdSchema.parse(req.params);
+
+        const party = await partiesService.findById(id);
+        if (!party) {
+            return res.status(404).json({ error: 'Party not found', id });
+        }
 
+        const findings = await consistencyService.findByParty(id, ['pending', 'confirmed']);
+
+        res.json({
+            party: { id: party.id, slug: party.slug, name: party.name },
+            findings,
+            analysisInProgress: analysesInProgress.has(id)
+        });
+
+    } catch (error) {
+        if (error instanceof z.ZodError) {
+            return res.status(400).json({
+                error: 'Validation error',
+                details: error.errors
+            });
+        }
+        next(error);
+    }
+});
+
+/**
+ * @swagger
+ * /api/parties/{id}/consistency/review:
+ *   get:
+ *     summary: Get every finding of a party for review (admin)
+ *     description: Includes the findings dismissed as false positives
+ *     tags: [Parties]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: All findings of the party
+ */
+router.get('/:id/consistency/review', requireAuth, requireAdmin, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const { id } = getPartyByIdSchema.parse(req.params);
+
+        res.json({
+            findings: await consistencyService.findByParty(id),
+            analysisInProgress: analysesInProgress.has(id)
+        });
+
+    } catch (error) {
+        if (error instanceof z.ZodError) {
+            return res.status(400).json({
+                error: 'Validation error',
+                details: error.errors
+            });
+        }
+        next(error);
+    }
+});
+
+/**
+ * @swagger
+ * /api/parties/{id}/consistency/analyze:
+ *   post:
+ *     summary: Run the consistency analysis of a party (admin)
+ *     description: |
+ *       Runs in the background. Clusters the party chunks by matrix topic and asks the
+ *       LLM for contradicting statements in every cluster, including the candidates'
+ *       proposals on the topic. Pending findings are replaced; reviewed ones are kept.
+ *     tags: [Parties]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       202:
+ *         description: Analysis started
+ *       404:
+ *         description: Party not found
+ *       409:
+ *         description: An analysis of the party is already running
+ */
+router.post('/:id/consistency/analyze', requireAuth, requireAdmin, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const { id } = getPartyByIdSchema.parse(req.params);
+
+        const party = await partiesService.findById(id);
+        if (!party) {
+            return res.status(404).json({ error: 'Party not found', id });
+        }
+        if (analysesInProgress.has(id)) {
+            return res.status(409).json({ error: 'A consistency analysis of this party is already running' });
+        }
+
+        analysesInProgress.add(id);
+        (async () => {
+            const topics = await new ProposalMatrixService(supabase).listTopics({ activeOnly: true });
+            const candidates = await candidatesService.findByPartyId(id);
+            const analyzer = new ConsistencyAnalyzer(await ProviderFactory.getLLMProvider());
+
+            const { findings } = await analyzer.analyze(party, topics, candidates);
+            const stored = await consistencyService.replaceForParty(id, findings);
+            logger.info(`Consistency analysis of ${party.slug} stored ${stored} findings`);
+        })()
+            .catch(error => logger.error(`Consistency analysis of ${party.slug} failed:`, error))
+            .finally(() => {
+                analysesInProgress.delete(id);
+            });
+
+        logger.info(`Consistency analysis of ${party.slug} started by ${req.user?.email}`);
+        res.status(202).json({ status: 'started', party: party.slug });
+
+    } catch (error) {
+        if (error instanceof z.ZodError) {
+            return res.status(400).json({
+                error: 'Validation error',
+                details: error.errors
+            });
+        }
+        next(error);
+    }
+});
+
+/**
+ * @swagger
+ * /api/parties/{id}/consistency/{findingId}:
+ *   patch:
+ *     summary: Review a consistency finding (admin)
+ *     description: Confirm a contradiction, or dismiss it as a false positive to hide it from the party page
+ *     tags: [Parties]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: path
+ *         name: findingId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - status
+ *             properties:
+ *               status:
+ *                 type: string
+ *                 enum: [pending, confirmed, dismissed]
+ *               notes:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Reviewed finding
+ *       404:
+ *         description: Finding not found
+ */
+router.patch('/:id/consistency/:findingId', requireAuth, requireAdmin, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const { id, findingId } = reviewFindingParamsSchema.parse(req.params);
+        const review = reviewFindingSchema.parse(req.body);
+
+        const finding = await consistencyService.review(findingId, id, {
+            status: review.status,
+            notes: review.notes,
+            reviewedBy: req.user!.userId
+        });
+
+        if (!finding) {
+            return res.status(404).json({ error: 'Finding not found', id: findingId });
+        }
+
+        res.json({ finding });
+
+    } catch (error) {
+        if (error instanceof z.ZodError) {
+            return res.status(400).json({
+                error: 'Validation error',
+                details: error.errors
+            });
+        }
+        next(error);
+    }
+});
+
+/**
+ * @swagger
+ * /api/parties/{id}/registry:
+ *   put:
+ *     summary: Update the registry fields of a party (admin)
+ *     description: |
+ *       Edits the aliases and detection patterns used to find the party in
+ *       questions, its TSE document party id and plan URL, and its featured
+ *       rank. Changes apply without a redeploy: the registry cache is dropped
+ *       and the chat entity resolver reloaded.
+ *     tags: [Parties]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               aliases:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *               detection_patterns:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                 description: Case-insensitive regular expressions
+ *               document_party_id:
+ *                 type: string
+ *                 nullable: true
+ *               tse_plan_url:
+ *                 type: string
+ *                 format: uri
+ *                 nullable: true
+ *               featured_rank:
+ *                 type: integer
+ *                 minimum: 1
+ *                 nullable: true
+ *     responses:
+ *       200:
+ *         description: Updated party
+ *       400:
+ *         description: Validation error (e.g. invalid regular expression)
+ *       404:
+ *         description: Party not found
+ */
+router.put('/:id/registry', requireAuth, requireAdmin, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const { id } = getPartyByIdSchema.parse(req.params);
+        const updates = updateRegistrySchema.parse(req.body);
+
+        const party = await partiesService.updateRegistry(id, updates);
+
+        if (!party) {
+            return res.status(404).json({ error: 'Party not found', id });
+        }
+
+        refreshPartyEntities();
+        await auditLog.adminAction(
+            req.user!.userId,
+            'party_registry_updated',
+            { partyId: id, slug: party.slug, fields: Object.keys(updates).join(',') },
+            req
+        );
+        logger.info(`Party registry updated for ${party.slug} by ${req.user!.email}`);
+
+        res.json({ party });
+
+    } catch (error) {
+        if (error instanceof z.ZodError) {
+            return res.status(400).json({
+                error: 'Validation error',
+                details: error.errors
+            });
+        }
+        next(error);
+    }
+});
+
+export default router;
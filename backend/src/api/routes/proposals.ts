@@ -0,0 +1,201 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { z } from 'zod';
+import { Logger } from '@ticobot/shared';
+import { createSupabaseClient } from '../../db/supabase.js';
+import { PartiesService } from '../../db/services/parties.service.js';
+import { ProposalsService } from '../../db/services/proposals.service.js';
+
+const router: Router = Router();
+const logger = new Logger('ProposalsAPI');
+
+const listProposalsSchema = z.object({
+    topic: z.string().min(1).optional(),
+    party: z.string().min(1).optional(),
+    search: z.string().min(2).max(100).optional(),
+    withTargets: z.enum(['true', 'false']).default('false').transform(value => value === 'true'),
+    limit: z.coerce.number().min(1).max(100).default(50),
+    offset: z.coerce.number().min(0).default(0)
+});
+
+const topicCountsSchema = z.object({
+    party: z.string().min(1).optional()
+});
+
+const getProposalSchema = z.object({
+    id: z.string().uuid('Invalid proposal ID format')
+});
+
+function handleError(error: unknown, res: Response, next: NextFunction) {
+    if (error instanceof z.ZodError) {
+        return res.status(400).json({
+            error: 'Validation error',
+            details: error.errors
+        });
+    }
+
+    logger.error('Proposals API error:', error);
+    next(error);
+}
+
+/**
+ * documents.party_id values of a party
+ * Documents reference the party by UUID, or by abbreviation when the party
+ * was not registered at ingestion time
+ */
+async function resolvePartyKeys(partiesService: PartiesService, party: string): Promise<string[]> {
+    const found = await partiesService.findBySlug(party.toLowerCase()) ||
+        await partiesService.findByAbbreviation(party);
+
+    if (!found) {
+        return [party.toUpperCase()];
+    }
+    return found.abbreviation ? [found.id, found.abbreviation] : [found.id];
+}
+
+/**
+ * @swagger
+ * /api/proposals:
+ *   get:
+ *     summary: Browse the proposals extracted from the government plans
+ *     description: Structured proposals (title, topic, description, target population, quantitative targets, funding source and pages) in plan order
+ *     tags: [Proposals]
+ *     parameters:
+ *       - in: query
+ *         name: topic
+ *         schema:
+ *           type: string
+ *         description: Topic slug (matrix topics, or "otro")
+ *         example: ambiente
+ *       - in: query
+ *         name: party
+ *         schema:
+ *           type: string
+ *         description: Party slug or abbreviation
+ *         example: fa
+ *       - in: query
+ *         name: search
+ *         schema:
+ *           type: string
+ *         description: Text searched in the title and description
+ *         example: agua
+ *       - in: query
+ *         name: withTargets
+ *         schema:
+ *           type: boolean
+ *           default: false
+ *         description: Only proposals with quantitative targets
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: number
+ *           default: 50
+ *       - in: query
+ *         name: offset
+ *         schema:
+ *           type: number
+ *           default: 0
+ *     responses:
+ *       200:
+ *         description: Proposals with pagination metadata
+ *       400:
+ *         description: Validation error
+ */
+router.get('/', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const params = listProposalsSchema.parse(req.query);
+        const supabase = createSupabaseClient();
+
+        const partyKeys = params.party
+            ? await resolvePartyKeys(new PartiesService(supabase), params.party)
+            : undefined;
+
+        const { proposals, total } = await new ProposalsService(supabase).list({
+            topic: params.topic?.toLowerCase(),
+            partyKeys,
+            search: params.search,
+            withTargets: params.withTargets,
+            limit: params.limit,
+            offset: params.offset
+        });
+
+        res.json({
+            proposals,
+            pagination: {
+                total,
+                limit: params.limit,
+                offset: params.offset,
+                hasMore: params.offset + proposals.length < total
+            }
+        });
+    } catch (error) {
+        handleError(error, res, next);
+    }
+});
+
+/**
+ * @swagger
+ * /api/proposals/topics:
+ *   get:
+ *     summary: Number of proposals per topic
+ *     description: Proposals, proposals with quantitative targets and proposals with a funding source per topic
+ *     tags: [Proposals]
+ *     parameters:
+ *       - in: query
+ *         name: party
+ *         schema:
+ *           type: string
+ *         description: Party slug or abbreviation
+ *     responses:
+ *       200:
+ *         description: Counts per topic, most proposals first
+ */
+router.get('/topics', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const params = topicCountsSchema.parse(req.query);
+        const supabase = createSupabaseClient();
+
+        const partyKeys = params.party
+            ? await resolvePartyKeys(new PartiesService(supabase), params.party)
+            : undefined;
+
+        res.json({ topics: await new ProposalsService(supabase).countByTopic(partyKeys) });
+    } catch (error) {
+        handleError(error, res, next);
+    }
+});
+
+/**
+ * @swagger
+ * /api/proposals/{id}:
+ *   get:
+ *     summary: Get a proposal with its source chunks
+ *     tags: [Proposals]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Proposal and the chunks it was extracted from
+ *       404:
+ *         description: Proposal not found
+ */
+router.get('/:id', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const { id } = getProposalSchema.parse(req.params);
+        const proposal = await new ProposalsService(createSupabaseClient()).findById(id);
+
+        if (!proposal) {
+            return res.status(404).json({ error: 'Proposal not found' });
+        }
+
+        res.json({ proposal });
+    } catch (error) {
+        handleError(error, res, next);
+    }
+});
+
+export default router;
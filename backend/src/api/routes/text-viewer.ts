@@ -209,4 +209,43 @@ router.get('/documents/:id/full-text', async (req, res) => {
   }
 });
 
+/**
+ * @route GET /api/text-viewer/chunks/:id
+ * @desc Locate a chunk (document and position) so citations can open the viewer at it
+ * @access Public (temporarily)
+ */
+router.get('/chunks/:id', async (req, res) => {
+  try {
+    const { id } = req.params;
+    const supabase = createSupabaseClient();
+
+    const { data: chunk, error } = await supabase
+      .from('chunks')
+      .select('id, document_id, chunk_index')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) throw error;
+
+    if (!chunk) {
+      return res.status(404).json({
+        success: false,
+        error: 'Chunk not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      data: chunk
+    });
+  } catch (error) {
+    console.error('Error locating chunk:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to locate chunk',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
 export default router;
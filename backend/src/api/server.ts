@@ -15,6 +15,13 @@ import candidatesRoutes from './routes/candidates.js';
 import compareRoutes from './routes/compare.js';
 import qualityRoutes from './routes/quality.js';
 import textViewerRoutes from './routes/text-viewer.js';
+import conversationsRoutes from './routes/conversations.js';
+import cacheRoutes from './routes/cache.js';
+import matrixRoutes from './routes/matrix.js';
+import proposalsRoutes from './routes/proposals.js';
+import adminRoutes from './routes/admin.js';
+import { getEntityResolver } from '../rag/components/EntityResolver.js';
+import { getIngestJobWorker } from '../ingest/components/IngestJobWorker.js';
 
 const logger = new Logger('Server');
 
@@ -102,6 +109,11 @@ export function createApp(): Express {
     app.use('/api/compare', compareRoutes);
     app.use('/api/quality', qualityRoutes);
     app.use('/api/text-viewer', textViewerRoutes);
+    app.use('/api/conversations', conversationsRoutes);
+    app.use('/api/cache', cacheRoutes);
+    app.use('/api/matrix', matrixRoutes);
+    app.use('/api/proposals', proposalsRoutes);
+    app.use('/api/admin', adminRoutes);
 
     // Health check
     app.get('/health', (req: Request, res: Response) => {
@@ -131,7 +143,9 @@ export function createApp(): Express {
                 documents: {
                     list: 'GET /api/documents',
                     getById: 'GET /api/documents/:id',
-                    getChunks: 'GET /api/documents/:id/chunks'
+                    getChunks: 'GET /api/documents/:id/chunks',
+                    versions: 'GET /api/documents/:id/versions',
+                    getVersion: 'GET /api/documents/:id/versions/:version'
                 },
                 search: {
                     semantic: 'POST /api/search',
@@ -141,23 +155,75 @@ export function createApp(): Express {
                     ask: 'POST /api/chat',
                     stream: 'POST /api/chat/stream'
                 },
+                conversations: {
+                    list: 'GET /api/conversations',
+                    create: 'POST /api/conversations',
+                    getById: 'GET /api/conversations/:id',
+                    rename: 'PATCH /api/conversations/:id',
+                    delete: 'DELETE /api/conversations/:id',
+                    claim: 'POST /api/conversations/claim'
+                },
+                cache: {
+                    semanticSettings: 'GET|PUT /api/cache/semantic/settings',
+                    semanticStats: 'GET /api/cache/semantic/stats',
+                    semanticHits: 'GET /api/cache/semantic/hits',
+                    reviewHit: 'POST /api/cache/semantic/hits/:id/review',
+                    stale: 'GET /api/cache/stale',
+                    invalidateDocument: 'POST /api/cache/documents/:documentId/invalidate'
+                },
                 ingest: {
-                    single: 'POST /api/ingest',
-                    bulk: 'POST /api/ingest/bulk'
+                    single: 'POST /api/ingest/ingest',
+                    batch: 'POST /api/ingest/batch',
+                    jobs: 'GET /api/ingest/jobs',
+                    job: 'GET /api/ingest/jobs/:id',
+                    jobEvents: 'GET /api/ingest/jobs/:id/events',
+                    cancelJob: 'POST /api/ingest/jobs/:id/cancel',
+                    retryJob: 'POST /api/ingest/jobs/:id/retry'
                 },
                 parties: {
                     list: 'GET /api/parties',
                     getById: 'GET /api/parties/:id',
                     getBySlug: 'GET /api/parties/slug/:slug',
-                    getCandidates: 'GET /api/parties/:id/candidates'
+                    create: 'POST /api/parties',
+                    update: 'PATCH /api/parties/:id',
+                    delete: 'DELETE /api/parties/:id',
+                    getCandidates: 'GET /api/parties/:id/candidates',
+                    consistency: 'GET /api/parties/:id/consistency',
+                    analyzeConsistency: 'POST /api/parties/:id/consistency/analyze',
+                    reviewConsistency: 'PATCH /api/parties/:id/consistency/:findingId',
+                    registry: 'GET /api/parties/registry',
+                    updateRegistry: 'PUT /api/parties/:id/registry'
                 },
                 candidates: {
                     list: 'GET /api/candidates',
                     getById: 'GET /api/candidates/:id',
-                    getBySlug: 'GET /api/candidates/slug/:slug'
+                    getBySlug: 'GET /api/candidates/slug/:slug',
+                    create: 'POST /api/candidates',
+                    update: 'PATCH /api/candidates/:id',
+                    delete: 'DELETE /api/candidates/:id'
                 },
                 compare: {
-                    compare: 'POST /api/compare'
+                    compare: 'POST /api/compare',
+                    stream: 'POST /api/compare/stream',
+                    warmup: 'GET|POST /api/compare/warmup'
+                },
+                matrix: {
+                    matrix: 'GET /api/matrix?topics=&parties=',
+                    topics: 'GET /api/matrix/topics',
+                    createTopic: 'POST /api/matrix/topics',
+                    updateTopic: 'PUT /api/matrix/topics/:id',
+                    deleteTopic: 'DELETE /api/matrix/topics/:id',
+                    rebuild: 'POST /api/matrix/rebuild'
+                },
+                proposals: {
+                    list: 'GET /api/proposals?topic=&party=&search=&withTargets=',
+                    topics: 'GET /api/proposals/topics?party=',
+                    getById: 'GET /api/proposals/:id'
+                },
+                admin: {
+                    providers: 'GET /api/admin/providers',
+                    providersHealth: 'GET /api/admin/providers/health?llm=',
+                    stats: 'GET /api/admin/stats?jobs='
                 }
             },
             documentation: '/api/docs'
@@ -187,6 +253,12 @@ export function createApp(): Express {
 export function startServer(port: number = 3000): void {
     const app = createApp();
 
+    // Party and candidate names for entity resolution in chat questions
+    void getEntityResolver().start();
+
+    // Queued ingestion jobs, including jobs left running by a previous process
+    getIngestJobWorker().start();
+
     // Listen on 0.0.0.0 to accept connections from all network interfaces (required for Railway)
     const server = app.listen(port, '0.0.0.0', () => {
         logger.info(`🚀 TicoBot Backend Server started on port ${port}`);
@@ -198,6 +270,7 @@ export function startServer(port: number = 3000): void {
         logger.info(`   Documents: http://localhost:${port}/api/documents`);
         logger.info(`   Search: http://localhost:${port}/api/search`);
         logger.info(`   Chat: http://localhost:${port}/api/chat`);
+        logger.info(`   Conversations: http://localhost:${port}/api/conversations`);
         logger.info(`   Ingest: http://localhost:${port}/api/ingest`);
         logger.info(`   Parties: http://localhost:${port}/api/parties`);
         logger.info(`   Candidates: http://localhost:${port}/api/candidates`);
@@ -48,6 +48,22 @@ const options: swaggerJsdoc.Options = {
         name: 'Documents',
         description: 'Document management and retrieval',
       },
+      {
+        name: 'Cache',
+        description: 'Chat cache administration (admin only)',
+      },
+      {
+        name: 'Matrix',
+        description: 'Topic x party proposal matrix',
+      },
+      {
+        name: 'Proposals',
+        description: 'Structured proposals extracted from the government plans',
+      },
+      {
+        name: 'Admin',
+        description: 'Provider state, health checks and corpus statistics (admin only)',
+      },
     ],
     components: {
       schemas: {
@@ -0,0 +1,21 @@
+import { z } from 'zod';
+
+/**
+ * Validation schemas shared by the admin routes
+ */
+
+export const slugSchema = z.string().regex(/^[a-z0-9]+(-[a-z0-9]+)*$/, 'Slug must be lowercase words separated by hyphens');
+
+// Logos and photos are rendered directly by the frontend: HTTPS image files only
+export const imageUrlSchema = z.string().url('Invalid URL').refine(
+    url => url.startsWith('https://') && /\.(png|jpe?g|webp|svg|gif)(\?.*)?$/i.test(url),
+    'Must be an HTTPS URL of a PNG, JPEG, WebP, SVG or GIF image'
+);
+
+/**
+ * Optional field of a partial update that can be cleared: left out keeps the
+ * stored value, null clears it
+ */
+export function clearable<T extends z.ZodTypeAny>(schema: z.ZodOptional<T>) {
+    return schema.unwrap().nullable().optional();
+}
@@ -8,16 +8,40 @@ dotenv.config();
  */
 const envSchema = z.object({
   // Provider selection
-  EMBEDDING_PROVIDER: z.enum(['openai', 'cohere', 'huggingface']).default('openai'),
-  VECTOR_STORE: z.enum(['supabase', 'pinecone', 'qdrant', 'weaviate']).default('supabase'),
+  EMBEDDING_PROVIDER: z.enum(['openai', 'cohere', 'huggingface', 'local']).default('openai'),
+  VECTOR_STORE: z.enum(['supabase', 'pinecone', 'qdrant', 'weaviate', 'memory']).default('supabase'),
   LLM_PROVIDER: z.enum(['openai', 'anthropic', 'google', 'ollama', 'deepseek', 'groq']).default('openai'),
   DATABASE_PROVIDER: z.enum(['supabase', 'postgresql']).default('supabase'),
 
+  // LLM fallback chain (e.g. "groq,deepseek,ollama"), overrides LLM_PROVIDER when set
+  LLM_FALLBACK_CHAIN: z.string().optional(),
+  LLM_MAX_RETRIES: z.coerce.number().int().min(0).default(1),
+  LLM_RETRY_DELAY_MS: z.coerce.number().int().min(0).default(500),
+  LLM_CIRCUIT_FAILURE_THRESHOLD: z.coerce.number().int().positive().default(3),
+  LLM_CIRCUIT_RESET_MS: z.coerce.number().int().positive().default(60000),
+
   // OpenAI configuration
   OPENAI_API_KEY: z.string().optional(),
   OPENAI_EMBEDDING_MODEL: z.string().default('text-embedding-3-small'),
   OPENAI_LLM_MODEL: z.string().default('gpt-4-turbo-preview'),
 
+  // Local embedding configuration (ONNX model run on CPU, no external API)
+  LOCAL_EMBEDDING_MODEL: z.string().default('Xenova/paraphrase-multilingual-MiniLM-L12-v2'),
+  LOCAL_EMBEDDING_DIMENSION: z.coerce.number().int().positive().optional(), // Required for models not in the known list
+  LOCAL_EMBEDDING_MAX_TOKENS: z.coerce.number().int().positive().optional(),
+  LOCAL_EMBEDDING_BATCH_SIZE: z.coerce.number().int().positive().default(16),
+  LOCAL_EMBEDDING_CACHE_DIR: z.string().optional(),
+  LOCAL_EMBEDDING_OFFLINE: z.enum(['true', 'false']).default('false').transform((value) => value === 'true'),
+
+  // OCR of scanned PDF pages (Tesseract, runs on CPU), off unless enabled
+  // Language data is downloaded on first use unless OCR_LANG_PATH points to a local directory
+  OCR_ENABLED: z.enum(['true', 'false']).default('false').transform((value) => value === 'true'),
+  OCR_LANGUAGE: z.string().default('spa'),
+  OCR_LANG_PATH: z.string().optional(),
+  OCR_CACHE_DIR: z.string().optional(),
+  OCR_MIN_PAGE_CHARS: z.coerce.number().int().min(0).default(100),
+  OCR_PAGE_TIMEOUT_MS: z.coerce.number().int().positive().default(60000),
+
   // DeepSeek configuration
   DEEPSEEK_API_KEY: z.string().optional(),
   DEEPSEEK_BASE_URL: z.string().default('https://api.deepseek.com'),
@@ -44,6 +68,13 @@ const envSchema = z.object({
   SUPABASE_ANON_KEY: z.string().optional(),
   SUPABASE_SERVICE_ROLE_KEY: z.string().optional(),
 
+  // Semantic chat cache (reuse answers of similar cached questions; admins can override at runtime)
+  SEMANTIC_CACHE_ENABLED: z.enum(['true', 'false']).default('true').transform((value) => value === 'true'),
+  SEMANTIC_CACHE_THRESHOLD: z.coerce.number().min(0).max(1).default(0.92),
+
+  // Memory vector store configuration (JSON snapshot file, in-memory only when unset)
+  VECTOR_STORE_PATH: z.string().optional(),
+
   // Pinecone configuration
   PINECONE_API_KEY: z.string().optional(),
   PINECONE_ENVIRONMENT: z.string().optional(),
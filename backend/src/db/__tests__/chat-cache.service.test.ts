@@ -0,0 +1,223 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { IEmbeddingProvider } from '@ticobot/shared';
+import { ChatCacheService } from '../services/chat-cache.service.js';
+import { CacheInvalidationService } from '../services/cache-invalidation.service.js';
+import { EntityResolver } from '../../rag/components/EntityResolver.js';
+import type { Party } from '../services/parties.service.js';
+
+interface Query {
+    table: string;
+    action: 'select' | 'insert' | 'update' | 'upsert' | 'delete';
+    values?: any;
+    filters: Record<string, unknown>;
+}
+
+interface CachedRow {
+    id: string;
+    question: string;
+    answer: string;
+    params_hash: string;
+    question_embedding: number[];
+    semantic_excluded: boolean;
+}
+
+const THRESHOLD = 0.9;
+
+/**
+ * In-memory stand-in for the chat cache tables
+ * match_chat_cache compares the embeddings like the SQL function does
+ */
+function createSupabase() {
+    const rows: CachedRow[] = [];
+    const events: any[] = [];
+
+    const similarity = (a: number[], b: number[]) => {
+        const dot = a.reduce((sum, value, i) => sum + value * b[i], 0);
+        return dot / (Math.hypot(...a) * Math.hypot(...b));
+    };
+
+    const execute = (query: Query) => {
+        if (query.table === 'app_settings') {
+            return { data: { value: { enabled: true, threshold: THRESHOLD } }, error: null };
+        }
+
+        if (query.table === 'chat_cache') {
+            if (query.action === 'upsert') {
+                rows.push({
+                    ...query.values,
+                    id: `cache-${rows.length + 1}`,
+                    question_embedding: JSON.parse(query.values.question_embedding),
+                });
+            } else if (query.action === 'update') {
+                rows.filter(row => row.id === query.filters.id).forEach(row => Object.assign(row, query.values));
+            }
+            // Exact lookups never match: every test question is asked once
+            return { data: null, error: null };
+        }
+
+        if (query.action === 'insert') {
+            const event = { ...query.values, id: `event-${events.length + 1}`, false_hit: false };
+            events.push(event);
+            return { data: { id: event.id }, error: null };
+        }
+
+        const matching = events.filter(event =>
+            Object.entries(query.filters).every(([column, value]) => event[column] === value)
+        );
+        if (query.action === 'update') {
+            matching.forEach(event => Object.assign(event, query.values));
+            return { data: matching[0] ?? null, error: null };
+        }
+        return { data: matching, count: matching.length, error: null };
+    };
+
+    const client = {
+        from(table: string) {
+            const query: Query = { table, action: 'select', filters: {} };
+            const builder: any = {
+                select: () => builder,
+                insert: (values: any) => Object.assign(query, { action: 'insert', values }) && builder,
+                update: (values: any) => Object.assign(query, { action: 'update', values }) && builder,
+                upsert: (values: any) => Object.assign(query, { action: 'upsert', values }) && builder,
+                delete: () => Object.assign(query, { action: 'delete' }) && builder,
+                eq: (column: string, value: unknown) => {
+                    query.filters[column] = value;
+                    return builder;
+                },
+                single: async () => execute(query),
+                maybeSingle: async () => execute(query),
+                then: (resolve: any, reject: any) => Promise.resolve(execute(query)).then(resolve, reject),
+            };
+            return builder;
+        },
+        async rpc(_name: string, args: any) {
+            const embedding = JSON.parse(args.query_embedding);
+            const data = rows
+                .filter(row => !row.semantic_excluded && row.params_hash === args.query_params_hash)
+                .map(row => ({ ...row, similarity: similarity(row.question_embedding, embedding) }))
+                .filter(row => row.similarity >= args.match_threshold)
+                .sort((a, b) => b.similarity - a.similarity)
+                .slice(0, args.match_count);
+            return { data, error: null };
+        },
+    };
+
+    return { client: client as unknown as SupabaseClient, rows, events };
+}
+
+/**
+ * Embeddings by preprocessed question (one direction per topic, close variants for paraphrases)
+ */
+const EMBEDDINGS: Record<string, number[]> = {
+    'Qué propone el PLN sobre educación': [1, 0, 0],
+    'Propuestas del PLN en educación': [0.97, 0.2, 0],
+    'Qué propone el PUSC sobre educación': [1, 0, 0],
+    'Qué proponen los partidos sobre educación': [1, 0, 0],
+    'Qué proponen los partidos sobre salud': [0.6, 0.8, 0],
+};
+
+const embeddingProvider = {
+    generateEmbedding: async (text: string) => ({ embedding: EMBEDDINGS[text], model: 'test' }),
+    getModelName: () => 'test-embedding',
+} as unknown as IEmbeddingProvider;
+
+const PARTIES = [
+    { id: 'party-pln', slug: 'liberacion-nacional', name: 'Partido Liberación Nacional', abbreviation: 'PLN' },
+    { id: 'party-pusc', slug: 'unidad-social-cristiana', name: 'Partido Unidad Social Cristiana', abbreviation: 'PUSC' },
+] as Party[];
+
+function createService(supabase: SupabaseClient) {
+    const resolver = new EntityResolver(async () => ({ parties: PARTIES, candidates: [] }));
+    return new ChatCacheService(supabase, embeddingProvider, resolver);
+}
+
+async function cache(service: ChatCacheService, question: string, party?: string) {
+    await service.setCached(question, `Respuesta a: ${question}`, [], undefined, party);
+}
+
+describe('ChatCacheService semantic tier', () => {
+    it('should reuse the answer of a similar question above the threshold', async () => {
+        const { client, events } = createSupabase();
+        const service = createService(client);
+        await cache(service, '¿Qué propone el PLN sobre educación?');
+
+        const hit = await service.getCached('Propuestas del PLN en educación');
+
+        expect(hit?.answer).toBe('Respuesta a: ¿Qué propone el PLN sobre educación?');
+        expect(hit?.cacheHit).toMatchObject({
+            type: 'semantic',
+            cachedQuestion: '¿Qué propone el PLN sobre educación?',
+            eventId: 'event-1',
+        });
+        expect(hit!.cacheHit.similarity).toBeGreaterThanOrEqual(THRESHOLD);
+        expect(events[0]).toMatchObject({ event_type: 'semantic_hit', threshold: THRESHOLD });
+    });
+
+    it('should miss when the nearest question is below the threshold', async () => {
+        const { client, events } = createSupabase();
+        const service = createService(client);
+        await cache(service, '¿Qué proponen los partidos sobre educación?');
+
+        expect(await service.getCached('¿Qué proponen los partidos sobre salud?')).toBeNull();
+        expect(events[0]).toMatchObject({ event_type: 'miss', threshold: THRESHOLD });
+    });
+
+    it('should only reuse answers for the same party filter and the same parties named', async () => {
+        const { client } = createSupabase();
+        const service = createService(client);
+        await cache(service, '¿Qué propone el PLN sobre educación?');
+        await cache(service, '¿Qué proponen los partidos sobre educación?', 'party-pln');
+
+        // Same embedding, other party named in the question
+        expect(await service.getCached('¿Qué propone el PUSC sobre educación?')).toBeNull();
+        // Same embedding, other party filter
+        expect(await service.getCached('¿Qué proponen los partidos sobre educación?', 'party-pusc')).toBeNull();
+        expect(await service.getCached('¿Qué proponen los partidos sobre educación?', 'party-pln')).not.toBeNull();
+    });
+
+    it('should stop reusing an answer once a hit is marked as false', async () => {
+        const { client, rows } = createSupabase();
+        const service = createService(client);
+        await cache(service, '¿Qué propone el PLN sobre educación?');
+
+        const hit = await service.getCached('Propuestas del PLN en educación');
+        const reviewed = await service.reviewSemanticHit(hit!.cacheHit.eventId!, true);
+
+        expect(reviewed).toMatchObject({ false_hit: true, cache_id: 'cache-1' });
+        expect(rows[0].semantic_excluded).toBe(true);
+        expect(await service.getCached('Propuestas del PLN en educación')).toBeNull();
+
+        await service.reviewSemanticHit(hit!.cacheHit.eventId!, false);
+        expect(rows[0].semantic_excluded).toBe(false);
+    });
+
+    it('should skip the cache write when the entry cannot be tagged with its documents', async () => {
+        const { client, rows } = createSupabase();
+        const service = createService(client);
+        vi.spyOn(CacheInvalidationService.prototype, 'buildTags').mockRejectedValueOnce(new Error('connection reset'));
+
+        await service.setCached('¿Qué propone el PLN sobre educación?', 'Respuesta', [{ documentId: 'pln-2026' } as any]);
+
+        expect(rows).toEqual([]);
+    });
+
+    it('should skip the cache write when the entities of the question cannot be resolved', async () => {
+        const { client, rows } = createSupabase();
+        const resolver = new EntityResolver(async () => ({ parties: PARTIES, candidates: [] }));
+        vi.spyOn(resolver, 'ensureLoaded').mockRejectedValue(new Error('Party registry unavailable'));
+        const service = new ChatCacheService(client, embeddingProvider, resolver);
+
+        await expect(cache(service, '¿Qué propone el PLN sobre educación?')).resolves.toBeUndefined();
+        expect(rows).toEqual([]);
+    });
+
+    it('should hand the question embedding of a lookup over to retrieval', async () => {
+        const { client } = createSupabase();
+        const service = createService(client);
+
+        expect(await service.getCached('¿Qué proponen los partidos sobre salud?')).toBeNull();
+        expect(service.getQueryEmbedding('¿Qué proponen los partidos sobre salud?')).toEqual([0.6, 0.8, 0]);
+        expect(service.getQueryEmbedding('¿Qué propone el PLN sobre educación?')).toBeUndefined();
+    });
+});
@@ -0,0 +1,150 @@
+import { describe, it, expect } from 'vitest';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { ConversationsService, type Conversation } from '../services/conversations.service.js';
+
+interface Query {
+    table: string;
+    action: 'select' | 'insert' | 'update' | 'delete';
+    values?: any;
+    filters: Array<(row: any) => boolean>;
+}
+
+/**
+ * In-memory stand-in for the conversations and messages tables
+ */
+function createSupabase(conversations: Partial<Conversation>[] = []) {
+    const tables: Record<string, any[]> = {
+        conversations: conversations.map(conversation => ({
+            user_id: null,
+            anonymous_session_id: null,
+            title: 'Conversación',
+            ...conversation,
+        })),
+        messages: [],
+    };
+
+    const execute = (query: Query) => {
+        const rows = tables[query.table];
+
+        if (query.action === 'insert') {
+            const inserted = (Array.isArray(query.values) ? query.values : [query.values])
+                .map(values => ({ id: `${query.table}-${rows.length + 1}`, ...values }));
+            rows.push(...inserted);
+            return { data: inserted, error: null };
+        }
+
+        const matching = rows.filter(row => query.filters.every(filter => filter(row)));
+        if (query.action === 'update') {
+            matching.forEach(row => Object.assign(row, query.values));
+        } else if (query.action === 'delete') {
+            tables[query.table] = rows.filter(row => !matching.includes(row));
+        }
+        return { data: matching, error: null };
+    };
+
+    const client = {
+        from(table: string) {
+            const query: Query = { table, action: 'select', filters: [] };
+            const builder: any = {
+                select: () => builder,
+                insert: (values: any) => Object.assign(query, { action: 'insert', values }) && builder,
+                update: (values: any) => Object.assign(query, { action: 'update', values }) && builder,
+                delete: () => Object.assign(query, { action: 'delete' }) && builder,
+                eq: (column: string, value: unknown) => {
+                    query.filters.push(row => row[column] === value);
+                    return builder;
+                },
+                is: (column: string, value: unknown) => {
+                    query.filters.push(row => row[column] === value);
+                    return builder;
+                },
+                order: () => builder,
+                range: () => builder,
+                single: async () => {
+                    const { data, error } = execute(query);
+                    return { data: data[0] ?? null, error };
+                },
+                maybeSingle: async () => {
+                    const { data, error } = execute(query);
+                    return { data: data[0] ?? null, error };
+                },
+                then: (resolve: any, reject: any) => Promise.resolve(execute(query)).then(resolve, reject),
+            };
+            return builder;
+        },
+    };
+
+    return { client: client as unknown as SupabaseClient, tables };
+}
+
+const turn = {
+    question: '¿Qué propone el PLN sobre educación?',
+    answer: 'Propone más becas.',
+    sources: [],
+};
+
+describe('ConversationsService', () => {
+    it('should only find a conversation for its owner', async () => {
+        const { client } = createSupabase([
+            { id: 'conv-user', user_id: 'user-1' },
+            { id: 'conv-anonymous', anonymous_session_id: 'session-1' },
+        ]);
+        const service = new ConversationsService(client);
+
+        expect(await service.findForOwner('conv-user', { userId: 'user-1' })).toMatchObject({ id: 'conv-user' });
+        expect(await service.findForOwner('conv-user', { userId: 'user-2' })).toBeNull();
+        expect(await service.findForOwner('conv-user', { anonymousSessionId: 'session-1' })).toBeNull();
+
+        expect(await service.findForOwner('conv-anonymous', { anonymousSessionId: 'session-1' }))
+            .toMatchObject({ id: 'conv-anonymous' });
+        expect(await service.findForOwner('conv-anonymous', { anonymousSessionId: 'session-2' })).toBeNull();
+        expect(await service.findForOwner('missing', { userId: 'user-1' })).toBeNull();
+    });
+
+    it('should append the turn to a conversation of the owner', async () => {
+        const { client, tables } = createSupabase([{ id: 'conv-user', user_id: 'user-1' }]);
+        const service = new ConversationsService(client);
+
+        const conversationId = await service.recordTurn({ userId: 'user-1' }, 'conv-user', turn);
+
+        expect(conversationId).toBe('conv-user');
+        expect(tables.conversations).toHaveLength(1);
+        expect(tables.messages.map(message => [message.conversation_id, message.role])).toEqual([
+            ['conv-user', 'user'],
+            ['conv-user', 'assistant'],
+        ]);
+        expect(tables.conversations[0].last_message_at).toBe(tables.messages[1].created_at);
+    });
+
+    it('should start a new conversation when the caller does not own the given one', async () => {
+        const { client, tables } = createSupabase([{ id: 'conv-user', user_id: 'user-1' }]);
+        const service = new ConversationsService(client);
+
+        const conversationId = await service.recordTurn({ anonymousSessionId: 'session-1' }, 'conv-user', turn);
+
+        expect(conversationId).not.toBe('conv-user');
+        expect(tables.conversations.find(conversation => conversation.id === conversationId)).toMatchObject({
+            user_id: null,
+            anonymous_session_id: 'session-1',
+            title: turn.question,
+        });
+        expect(tables.messages.every(message => message.conversation_id === conversationId)).toBe(true);
+    });
+
+    it('should claim only the unowned conversations of an anonymous session', async () => {
+        const { client, tables } = createSupabase([
+            { id: 'conv-1', anonymous_session_id: 'session-1' },
+            { id: 'conv-2', anonymous_session_id: 'session-1' },
+            { id: 'conv-other', anonymous_session_id: 'session-2' },
+            { id: 'conv-owned', user_id: 'user-2', anonymous_session_id: 'session-1' },
+        ]);
+        const service = new ConversationsService(client);
+
+        expect(await service.claimAnonymous('session-1', 'user-1')).toBe(2);
+
+        const owners = Object.fromEntries(tables.conversations.map(conversation => [conversation.id, conversation.user_id]));
+        expect(owners).toEqual({ 'conv-1': 'user-1', 'conv-2': 'user-1', 'conv-other': null, 'conv-owned': 'user-2' });
+        expect(await service.findForOwner('conv-1', { userId: 'user-1' })).toMatchObject({ anonymous_session_id: null });
+        expect(await service.findForOwner('conv-1', { anonymousSessionId: 'session-1' })).toBeNull();
+    });
+});
@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'vitest';
+import { PartyRegistry, partyPatterns } from '../services/party-registry.service.js';
+import type { Party } from '../services/parties.service.js';
+
+function party(data: Partial<Party>): Party {
+    return {
+        aliases: [],
+        detection_patterns: [],
+        document_party_id: null,
+        tse_plan_url: null,
+        featured_rank: null,
+        ...data,
+    } as Party;
+}
+
+const PARTIES = [
+    party({
+        id: 'party-ps',
+        slug: 'pueblo-soberano',
+        name: 'Partido Pueblo Soberano',
+        abbreviation: 'PS',
+        aliases: ['PPSO', 'Pueblosoberano'],
+        document_party_id: 'PPSO',
+        tse_plan_url: 'https://www.tse.go.cr/2026/docus/planesgobierno/PPSO.pdf',
+        featured_rank: 1,
+    }),
+    party({
+        id: 'party-pusc',
+        slug: 'unidad-social-cristiana',
+        name: 'Partido Unidad Social Cristiana',
+        abbreviation: 'PUSC',
+        detection_patterns: ['social\\s*cristian[oa]', '(invalid'],
+        featured_rank: 2,
+    }),
+    party({ id: 'party-cr1', slug: 'costa-rica-primero', name: 'Costa Rica Primero', abbreviation: 'CR1' }),
+];
+
+describe('PartyRegistry', () => {
+    it('should cache the parties until invalidated', async () => {
+        let loads = 0;
+        const registry = new PartyRegistry(async () => {
+            loads++;
+            return PARTIES;
+        });
+
+        await registry.all();
+        await registry.featured();
+        expect(loads).toBe(1);
+
+        registry.invalidate();
+        await registry.all();
+        expect(loads).toBe(2);
+    });
+
+    it('should keep the cached parties when a reload fails', async () => {
+        let loads = 0;
+        const registry = new PartyRegistry(async () => {
+            if (loads++ > 0) {
+                throw new Error('Missing Supabase configuration');
+            }
+            return PARTIES;
+        }, { ttlMs: 0 });
+
+        await registry.all();
+        expect(await registry.all()).toBe(PARTIES);
+
+        await expect(new PartyRegistry(async () => {
+            throw new Error('Missing Supabase configuration');
+        }).all()).rejects.toThrow('Missing Supabase configuration');
+    });
+
+    it('should find parties by slug, abbreviation or document party id', async () => {
+        const registry = new PartyRegistry(async () => PARTIES);
+
+        expect((await registry.featured()).map(item => item.slug)).toEqual(['pueblo-soberano', 'unidad-social-cristiana']);
+        expect((await registry.findByKey('PPSO'))?.slug).toBe('pueblo-soberano');
+        expect((await registry.findByKey('pusc'))?.id).toBe('party-pusc');
+        expect(await registry.tsePlanUrl('ps')).toBe('https://www.tse.go.cr/2026/docus/planesgobierno/PPSO.pdf');
+        expect(await registry.tsePlanUrl('CR1')).toBeNull();
+    });
+
+    it('should detect parties by name, alias and detection pattern', async () => {
+        const registry = new PartyRegistry(async () => PARTIES);
+        const slugs = async (text: string) => (await registry.detect(text)).map(item => item.slug);
+
+        expect(await slugs('¿Qué propone el PS?')).toEqual(['pueblo-soberano']);
+        expect(await slugs('ps: ¿y el plan?')).toEqual([]);
+        // Written all in capitals, two-letter words give no hint
+        expect(await slugs('¿QUÉ PROPONE EL PS EN SALUD?')).toEqual([]);
+        expect(await slugs('¿QUÉ PROPONE EL PUSC EN SALUD?')).toEqual(['unidad-social-cristiana']);
+        expect(await slugs('propuestas de pueblosoberano')).toEqual(['pueblo-soberano']);
+        expect(await slugs('el candidato socialcristiano')).toEqual(['unidad-social-cristiana']);
+        expect(await slugs('Costa Rica Primero')).toEqual(['costa-rica-primero']);
+    });
+
+    it('should ignore invalid detection patterns', () => {
+        expect(partyPatterns(PARTIES[1])).toHaveLength(4); // Name, slug and abbreviation + the valid pattern
+    });
+});
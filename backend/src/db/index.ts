@@ -21,5 +21,8 @@ export type { Party, CreatePartyData, UpdatePartyData } from './services/parties
 export { CandidatesService } from './services/candidates.service.js';
 export type { Candidate, CreateCandidateData, UpdateCandidateData } from './services/candidates.service.js';
 
+export { ConversationsService } from './services/conversations.service.js';
+export type { Conversation, ConversationMessageRecord, ConversationOwner, ConversationTurnData } from './services/conversations.service.js';
+
 // Export Supabase client factory
 export { createSupabaseClient, createAnonSupabaseClient } from './supabase.js';
\ No newline at end of file
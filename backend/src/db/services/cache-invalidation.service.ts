@@ -0,0 +1,143 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { Logger } from '@ticobot/shared';
+
+/**
+ * Corpus tags stored with a cache entry
+ * An empty document_ids marks an entry built without sources: it is
+ * invalidated by the ingestion of any document
+ */
+export interface CacheDocumentTags {
+  document_ids: string[] | null;
+  document_versions: Record<string, string | null> | null;
+}
+
+/**
+ * Cache entries depending on one document
+ */
+export interface DocumentCacheStaleness {
+  documentId: string;
+  title: string;
+  contentVersion: string | null;
+  chatEntries: number;
+  staleChatEntries: number;
+  comparisonEntries: number;
+  staleComparisonEntries: number;
+}
+
+export interface CacheStalenessReport {
+  documents: DocumentCacheStaleness[];
+  // Entries cached before corpus versioning: they can only be cleared by hand
+  untagged: {
+    chatEntries: number;
+    comparisonEntries: number;
+  };
+}
+
+/**
+ * Service tying cached answers to the corpus version they were built from
+ * Cache entries are tagged with the content version of their source
+ * documents; re-ingesting a document removes the entries built from another
+ * version of it
+ */
+export class CacheInvalidationService {
+  private readonly logger = new Logger('CacheInvalidationService');
+
+  constructor(private readonly supabase: SupabaseClient) {}
+
+  /**
+   * Build the corpus tags for a cache entry from its source document ids
+   * @param complete - Whether every part of the entry had sources (e.g. every
+   *                   party of a comparison); otherwise the entry is tagged
+   *                   like one without sources
+   */
+  async buildTags(
+    documentIds: Array<string | undefined | null>,
+    complete: boolean = true
+  ): Promise<CacheDocumentTags> {
+    const ids = [...new Set(documentIds.filter((id): id is string => !!id))].sort();
+    if (ids.length === 0 || !complete) {
+      // The answer may change once the missing documents are ingested
+      return { document_ids: [], document_versions: {} };
+    }
+
+    const { data, error } = await this.supabase
+      .from('documents')
+      .select('document_id, content_version')
+      .in('document_id', ids);
+
+    if (error) {
+      throw new Error(`Failed to load document versions: ${error.message}`);
+    }
+
+    const versions: Record<string, string | null> = Object.fromEntries(ids.map(id => [id, null]));
+    for (const row of data || []) {
+      versions[row.document_id] = row.content_version;
+    }
+
+    return { document_ids: ids, document_versions: versions };
+  }
+
+  /**
+   * Delete the chat and comparison entries built from another version of a document
+   * @returns Number of deleted entries per cache
+   */
+  async invalidateDocument(documentId: string): Promise<{ chatEntries: number; comparisonEntries: number }> {
+    const { data, error } = await this.supabase.rpc('invalidate_document_cache', {
+      p_document_id: documentId,
+    });
+
+    if (error) {
+      throw new Error(`Failed to invalidate cache for ${documentId}: ${error.message}`);
+    }
+
+    const counts = {
+      chatEntries: data?.[0]?.chat_entries || 0,
+      comparisonEntries: data?.[0]?.comparison_entries || 0,
+    };
+    this.logger.info(
+      `Invalidated cache for ${documentId}: ${counts.chatEntries} chat, ${counts.comparisonEntries} comparison entries`
+    );
+    return counts;
+  }
+
+  /**
+   * Cached and stale entries per document, plus untagged entries
+   */
+  async getStalenessReport(): Promise<CacheStalenessReport> {
+    const { data, error } = await this.supabase.rpc('cache_staleness_report');
+
+    if (error) {
+      throw new Error(`Failed to build cache staleness report: ${error.message}`);
+    }
+
+    const countUntagged = async (table: 'chat_cache' | 'comparisons_cache'): Promise<number> => {
+      const { count, error: countError } = await this.supabase
+        .from(table)
+        .select('*', { count: 'exact', head: true })
+        .is('document_ids', null);
+
+      if (countError) {
+        throw new Error(`Failed to count untagged ${table} entries: ${countError.message}`);
+      }
+      return count || 0;
+    };
+
+    const [chatEntries, comparisonEntries] = await Promise.all([
+      countUntagged('chat_cache'),
+      countUntagged('comparisons_cache'),
+    ]);
+
+    return {
+      documents: (data || []).map((row: any) => ({
+        documentId: row.document_id,
+        title: row.title,
+        contentVersion: row.content_version,
+        chatEntries: Number(row.chat_entries),
+        staleChatEntries: Number(row.stale_chat_entries),
+        comparisonEntries: Number(row.comparison_entries),
+        staleComparisonEntries: Number(row.stale_comparison_entries),
+      })),
+      untagged: { chatEntries, comparisonEntries },
+    };
+  }
+}
@@ -8,6 +8,7 @@ export interface Candidate {
   party_id: string;
   name: string;
   slug: string;
+  nicknames: string[];
   position: string;
   photo_url: string | null;
   birth_date: string | null;
@@ -33,6 +34,7 @@ export interface CreateCandidateData {
   party_id: string;
   name: string;
   slug: string;
+  nicknames?: string[];
   position: string;
   photo_url?: string;
   birth_date?: string;
@@ -56,23 +58,24 @@ export interface UpdateCandidateData {
   party_id?: string;
   name?: string;
   slug?: string;
+  nicknames?: string[];
   position?: string;
-  photo_url?: string;
-  birth_date?: string;
-  birth_place?: string;
-  education?: string[];
-  professional_experience?: string[];
-  political_experience?: string[];
-  biography?: string;
+  photo_url?: string | null;
+  birth_date?: string | null;
+  birth_place?: string | null;
+  education?: string[] | null;
+  professional_experience?: string[] | null;
+  political_experience?: string[] | null;
+  biography?: string | null;
   proposals?: {
     topic: string;
     description: string;
-  }[];
+  }[] | null;
   social_media?: {
     twitter?: string;
     facebook?: string;
     instagram?: string;
-  };
+  } | null;
 }
 
 /**
@@ -179,6 +182,7 @@ export class CandidatesService {
         party_id: candidateData.party_id,
         name: candidateData.name,
         slug: candidateData.slug,
+        nicknames: candidateData.nicknames || [],
         position: candidateData.position,
         photo_url: candidateData.photo_url || null,
         birth_date: candidateData.birth_date || null,
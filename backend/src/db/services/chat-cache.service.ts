@@ -1,12 +1,98 @@
 import { SupabaseClient } from '@supabase/supabase-js';
 import { createHash } from 'crypto';
-import { Logger } from '@ticobot/shared';
+import { Logger, type IEmbeddingProvider } from '@ticobot/shared';
+import { env } from '../../config/env.js';
+import { CacheInvalidationService, type CacheDocumentTags } from './cache-invalidation.service.js';
+import { getEntityResolver, type EntityResolver } from '../../rag/components/EntityResolver.js';
+import { preprocessQuery } from '../../rag/components/QueryEmbedder.js';
+
+/**
+ * Previous conversation turn that is part of the cache key
+ */
+export interface ConversationTurn {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+/**
+ * How a cached answer was found
+ * Semantic hits reuse the answer of the most similar cached question
+ */
+export interface CacheHit {
+  type: 'exact' | 'semantic';
+  cachedQuestion: string; // Question the reused answer was generated for
+  similarity: number; // 1 for exact hits
+  eventId: string | null; // chat_cache_events row, used to report false hits
+}
+
+export interface CachedChatResponse {
+  answer: string;
+  sources: any[];
+  metadata: any;
+  cacheHit: CacheHit;
+}
+
+/**
+ * Semantic cache tier settings (app_settings key "semantic_cache")
+ */
+export interface SemanticCacheSettings {
+  enabled: boolean;
+  threshold: number; // Minimum cosine similarity to reuse a cached answer
+}
+
+/**
+ * Semantic cache hit awaiting admin review
+ */
+export interface SemanticHitEvent {
+  id: string;
+  question: string;
+  party: string | null;
+  cache_id: string | null;
+  cached_question: string | null;
+  similarity: number | null;
+  threshold: number | null;
+  false_hit: boolean;
+  reviewed_at: string | null;
+  created_at: string;
+}
+
+export interface SemanticCacheStats {
+  since: string;
+  lookups: number;
+  exactHits: number;
+  semanticHits: number;
+  misses: number;
+  falseHits: number;
+  hitRate: number; // (exact + semantic) / lookups
+  semanticHitRate: number; // semantic / lookups
+  falseHitRate: number; // false hits / semantic hits
+}
+
+const SETTINGS_KEY = 'semantic_cache';
+
+/**
+ * Settings are read on every lookup, keep them in memory for a minute
+ */
+const SETTINGS_TTL_MS = 60 * 1000;
+let settingsCache: { settings: SemanticCacheSettings; loadedAt: number } | null = null;
 
 /**
  * Service for managing cached chat responses
+ * Exact tier: hash of the normalized question + params. Semantic tier (when
+ * an embedding provider is given): nearest cached question with the same
+ * params and the same parties and candidates named in the question, above the
+ * similarity threshold. Follow-up questions only use the exact tier since
+ * their meaning depends on the conversation.
  */
 export class ChatCacheService {
-  constructor(private readonly supabase: SupabaseClient) {}
+  // Query embeddings computed on lookup, reused when the answer is stored and for retrieval
+  private readonly embeddings = new Map<string, number[]>();
+
+  constructor(
+    private readonly supabase: SupabaseClient,
+    private readonly embeddingProvider?: IEmbeddingProvider,
+    private readonly entityResolver: EntityResolver = getEntityResolver()
+  ) {}
 
   /**
    * Generate hash for question (normalized)
@@ -19,8 +105,18 @@ export class ChatCacheService {
 
   /**
    * Generate hash for cache key (question + party filter + other params)
+   * Follow-up questions include the conversation history, so "¿y el PUSC?"
+   * after different questions gets different entries
+   * Verified answers (verification mode other than "off") get their own entries
    */
-  private hashCacheKey(question: string, party?: string, topK?: number, minRelevanceScore?: number): string {
+  private hashCacheKey(
+    question: string,
+    party?: string,
+    topK?: number,
+    minRelevanceScore?: number,
+    conversationHistory?: ConversationTurn[],
+    verification?: string
+  ): string {
     // Create a consistent key from all parameters
     const keyParts = [
       question.toLowerCase().trim().replace(/\s+/g, ' '),
@@ -28,10 +124,55 @@ export class ChatCacheService {
       topK?.toString() || '5',
       minRelevanceScore?.toString() || '0.1',
     ];
+    if (conversationHistory && conversationHistory.length > 0) {
+      const history = conversationHistory
+        .map(turn => `${turn.role}:${turn.content.toLowerCase().trim().replace(/\s+/g, ' ')}`)
+        .join('\n');
+      keyParts.push(createHash('sha256').update(history).digest('hex'));
+    }
+    if (verification && verification !== 'off') {
+      keyParts.push(`verification:${verification}`);
+    }
     const key = keyParts.join('|');
     return createHash('sha256').update(key).digest('hex');
   }
 
+  /**
+   * Generate hash for the lookup params without the question
+   * Semantic hits must match it so a cached answer is never reused for
+   * another party filter or verification mode, or for a question about
+   * other parties or candidates ("¿Qué propone el PLN?" vs "¿Qué propone el PUSC?")
+   */
+  private async hashParams(
+    question: string,
+    party?: string,
+    topK?: number,
+    minRelevanceScore?: number,
+    verification?: string
+  ): Promise<string> {
+    const key = [
+      party || 'all',
+      topK?.toString() || '5',
+      minRelevanceScore?.toString() || '0.1',
+      verification && verification !== 'off' ? `verification:${verification}` : 'verification:off',
+      `entities:${(await this.resolveEntities(question)).join(',')}`,
+    ].join('|');
+    return createHash('sha256').update(key).digest('hex');
+  }
+
+  /**
+   * Parties and candidates named in a question, in a stable order
+   */
+  private async resolveEntities(question: string): Promise<string[]> {
+    await this.entityResolver.ensureLoaded();
+    const { partySlugs, candidates } = this.entityResolver.resolve(question);
+
+    return [
+      ...partySlugs,
+      ...candidates.map(({ candidate }) => `candidate:${candidate.slug}`),
+    ].sort();
+  }
+
   /**
    * Get cached chat response if available and not expired
    */
@@ -39,22 +180,20 @@ export class ChatCacheService {
     question: string,
     party?: string,
     topK?: number,
-    minRelevanceScore?: number
-  ): Promise<{
-    answer: string;
-    sources: any[];
-    metadata: any;
-  } | null> {
+    minRelevanceScore?: number,
+    conversationHistory?: ConversationTurn[],
+    verification?: string
+  ): Promise<CachedChatResponse | null> {
     const logger = new Logger('ChatCacheService');
     const questionHash = this.hashQuestion(question);
-    const cacheKeyHash = this.hashCacheKey(question, party, topK, minRelevanceScore);
+    const cacheKeyHash = this.hashCacheKey(question, party, topK, minRelevanceScore, conversationHistory, verification);
 
     logger.info(`Cache lookup - Question: "${question}" → Hash: ${questionHash.substring(0, 8)}...`);
     logger.info(`Cache lookup - Key: ${cacheKeyHash.substring(0, 8)}... (party=${party || 'all'})`);
 
     const { data, error } = await this.supabase
       .from('chat_cache')
-      .select('answer, sources, metadata, expires_at, question, party')
+      .select('id, answer, sources, metadata, expires_at, question, party')
       .eq('question_hash', questionHash)
       .eq('cache_key_hash', cacheKeyHash)
       .maybeSingle();
@@ -71,8 +210,8 @@ export class ChatCacheService {
     }
 
     if (!data) {
-      logger.info(`Cache MISS - No entry found for question: "${question}"`);
-      return null;
+      logger.info(`Cache MISS - No exact entry found for question: "${question}"`);
+      return this.getSemanticMatch(question, party, topK, minRelevanceScore, conversationHistory, verification);
     }
 
     logger.info(`Cache entry found - Question: "${data.question}", Party: ${data.party || 'all'}`);
@@ -87,17 +226,144 @@ export class ChatCacheService {
           .delete()
           .eq('question_hash', questionHash)
           .eq('cache_key_hash', cacheKeyHash);
-        return null;
+        return this.getSemanticMatch(question, party, topK, minRelevanceScore, conversationHistory, verification);
       }
     }
 
+    const eventId = await this.recordEvent({
+      event_type: 'exact_hit',
+      question,
+      party: party || null,
+      cache_id: data.id,
+    });
+
     return {
       answer: data.answer as string,
       sources: (data.sources as any[]) || [],
       metadata: data.metadata || {},
+      cacheHit: { type: 'exact', cachedQuestion: data.question, similarity: 1, eventId },
     };
   }
 
+  /**
+   * Semantic tier: reuse the answer of the nearest cached question
+   * Records a miss when nothing is close enough
+   */
+  private async getSemanticMatch(
+    question: string,
+    party?: string,
+    topK?: number,
+    minRelevanceScore?: number,
+    conversationHistory?: ConversationTurn[],
+    verification?: string
+  ): Promise<CachedChatResponse | null> {
+    const logger = new Logger('ChatCacheService');
+    const settings = await this.getSemanticSettings();
+    const isFollowUp = !!conversationHistory && conversationHistory.length > 0;
+
+    if (!settings.enabled || !this.embeddingProvider || isFollowUp) {
+      await this.recordEvent({ event_type: 'miss', question, party: party || null });
+      return null;
+    }
+
+    try {
+      const embedding = await this.embedQuestion(question);
+      const { data, error } = await this.supabase.rpc('match_chat_cache', {
+        query_embedding: `[${embedding.join(',')}]`,
+        query_embedding_model: this.embeddingProvider.getModelName(),
+        query_params_hash: await this.hashParams(question, party, topK, minRelevanceScore, verification),
+        match_threshold: settings.threshold,
+        match_count: 1,
+      });
+
+      if (error) {
+        throw error;
+      }
+
+      const match = data?.[0];
+      if (!match) {
+        logger.info(`Semantic cache MISS (threshold ${settings.threshold}) for question: "${question}"`);
+        await this.recordEvent({ event_type: 'miss', question, party: party || null, threshold: settings.threshold });
+        return null;
+      }
+
+      logger.info(
+        `Semantic cache HIT - "${question}" → "${match.question}" (similarity ${match.similarity.toFixed(3)})`
+      );
+
+      const eventId = await this.recordEvent({
+        event_type: 'semantic_hit',
+        question,
+        party: party || null,
+        cache_id: match.id,
+        cached_question: match.question,
+        similarity: match.similarity,
+        threshold: settings.threshold,
+      });
+
+      return {
+        answer: match.answer as string,
+        sources: (match.sources as any[]) || [],
+        metadata: match.metadata || {},
+        cacheHit: {
+          type: 'semantic',
+          cachedQuestion: match.question,
+          similarity: match.similarity,
+          eventId,
+        },
+      };
+    } catch (error) {
+      logger.warn('Semantic cache lookup failed:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Embed a question once per service instance (lookup, store and retrieval share it)
+   * The question is preprocessed like the RAG pipeline's search queries
+   */
+  private async embedQuestion(question: string): Promise<number[]> {
+    const query = preprocessQuery(question);
+    const cached = this.embeddings.get(query);
+    if (cached) {
+      return cached;
+    }
+
+    const { embedding } = await this.embeddingProvider!.generateEmbedding(query);
+    this.embeddings.set(query, embedding);
+    return embedding;
+  }
+
+  /**
+   * Embedding of a question computed by the semantic lookup, if any
+   * The RAG pipeline reuses it after a miss instead of embedding the question again
+   */
+  getQueryEmbedding(question: string): number[] | undefined {
+    return this.embeddings.get(preprocessQuery(question));
+  }
+
+  /**
+   * Log a cache lookup for the hit rate stats
+   * @returns Event ID, or null if it could not be stored
+   */
+  private async recordEvent(event: Partial<SemanticHitEvent> & {
+    event_type: 'exact_hit' | 'semantic_hit' | 'miss';
+  }): Promise<string | null> {
+    const { data, error } = await this.supabase
+      .from('chat_cache_events')
+      .insert(event)
+      .select('id')
+      .single();
+
+    if (error) {
+      const logger = new Logger('ChatCacheService');
+      logger.warn('Error recording cache event:', error);
+      return null;
+    }
+
+    return data.id;
+  }
+
   /**
    * Store chat response in cache
    */
@@ -109,19 +375,59 @@ export class ChatCacheService {
       processingTime?: number;
       tokensUsed?: number;
       model?: string;
+      citations?: any[]; // Inline citation markers resolved to chunks
+      claims?: any[];
+      verification?: any; // Faithfulness verification summary
       expiresInHours?: number;
     },
     party?: string,
     topK?: number,
-    minRelevanceScore?: number
+    minRelevanceScore?: number,
+    conversationHistory?: ConversationTurn[],
+    verification?: string
   ): Promise<void> {
     const questionHash = this.hashQuestion(question);
-    const cacheKeyHash = this.hashCacheKey(question, party, topK, minRelevanceScore);
+    const cacheKeyHash = this.hashCacheKey(question, party, topK, minRelevanceScore, conversationHistory, verification);
 
     const expiresAt = metadata?.expiresInHours
       ? new Date(Date.now() + metadata.expiresInHours * 60 * 60 * 1000).toISOString()
       : null;
 
+    // Tag the entry with the documents it was built from, so re-ingesting
+    // one of them invalidates it. An untagged entry would never be
+    // invalidated, so it is not stored
+    let tags: CacheDocumentTags;
+    try {
+      tags = await new CacheInvalidationService(this.supabase)
+        .buildTags(sources.map(source => source.documentId));
+    } catch (error) {
+      const logger = new Logger('ChatCacheService');
+      logger.warn('Error tagging cache entry with document versions, answer not cached:', error);
+      return;
+    }
+
+    // Follow-ups are never matched semantically, so they need no embedding
+    let questionEmbedding: string | null = null;
+    const isFollowUp = !!conversationHistory && conversationHistory.length > 0;
+    if (this.embeddingProvider && !isFollowUp) {
+      try {
+        questionEmbedding = `[${(await this.embedQuestion(question)).join(',')}]`;
+      } catch (error) {
+        const logger = new Logger('ChatCacheService');
+        logger.warn('Error embedding question for the semantic cache:', error);
+      }
+    }
+
+    // Named parties and candidates are part of the semantic match key
+    let paramsHash: string;
+    try {
+      paramsHash = await this.hashParams(question, party, topK, minRelevanceScore, verification);
+    } catch (error) {
+      const logger = new Logger('ChatCacheService');
+      logger.warn('Error resolving the entities of the question, answer not cached:', error);
+      return;
+    }
+
     const { error } = await this.supabase
       .from('chat_cache')
       .upsert(
@@ -137,6 +443,11 @@ export class ChatCacheService {
             cached_at: new Date().toISOString(),
           },
           expires_at: expiresAt,
+          question_embedding: questionEmbedding,
+          embedding_model: questionEmbedding ? this.embeddingProvider!.getModelName() : null,
+          params_hash: paramsHash,
+          semantic_excluded: false, // A new answer for the question has not been reviewed yet
+          ...tags,
         },
         {
           onConflict: 'question_hash,cache_key_hash',
@@ -212,5 +523,179 @@ export class ChatCacheService {
       neverExpires: neverExpires || 0,
     };
   }
-}
 
+  /**
+   * Get semantic cache settings (admin overrides on top of env defaults)
+   */
+  async getSemanticSettings(): Promise<SemanticCacheSettings> {
+    if (settingsCache && Date.now() - settingsCache.loadedAt < SETTINGS_TTL_MS) {
+      return settingsCache.settings;
+    }
+
+    const defaults: SemanticCacheSettings = {
+      enabled: env.SEMANTIC_CACHE_ENABLED,
+      threshold: env.SEMANTIC_CACHE_THRESHOLD,
+    };
+
+    const { data, error } = await this.supabase
+      .from('app_settings')
+      .select('value')
+      .eq('key', SETTINGS_KEY)
+      .maybeSingle();
+
+    if (error) {
+      const logger = new Logger('ChatCacheService');
+      logger.warn('Error loading semantic cache settings, using defaults:', error);
+    }
+
+    const settings = { ...defaults, ...(data?.value || {}) };
+    settingsCache = { settings, loadedAt: Date.now() };
+    return settings;
+  }
+
+  /**
+   * Update semantic cache settings
+   */
+  async updateSemanticSettings(
+    update: Partial<SemanticCacheSettings>,
+    updatedBy?: string
+  ): Promise<SemanticCacheSettings> {
+    const settings = { ...(await this.getSemanticSettings()), ...update };
+
+    const { error } = await this.supabase
+      .from('app_settings')
+      .upsert(
+        {
+          key: SETTINGS_KEY,
+          value: settings,
+          updated_by: updatedBy || null,
+        },
+        { onConflict: 'key' }
+      );
+
+    if (error) {
+      throw new Error(`Failed to update semantic cache settings: ${error.message}`);
+    }
+
+    settingsCache = { settings, loadedAt: Date.now() };
+    return settings;
+  }
+
+  /**
+   * Hit and false-hit rates of the cache lookups since a date
+   */
+  async getSemanticStats(since: Date): Promise<SemanticCacheStats> {
+    const count = async (eventType?: string, falseHit?: boolean): Promise<number> => {
+      let query = this.supabase
+        .from('chat_cache_events')
+        .select('*', { count: 'exact', head: true })
+        .gte('created_at', since.toISOString());
+      if (eventType) {
+        query = query.eq('event_type', eventType);
+      }
+      if (falseHit !== undefined) {
+        query = query.eq('false_hit', falseHit);
+      }
+
+      const { count: total, error } = await query;
+      if (error) {
+        throw new Error(`Failed to count cache events: ${error.message}`);
+      }
+      return total || 0;
+    };
+
+    const [exactHits, semanticHits, misses, falseHits] = await Promise.all([
+      count('exact_hit'),
+      count('semantic_hit'),
+      count('miss'),
+      count('semantic_hit', true),
+    ]);
+    const lookups = exactHits + semanticHits + misses;
+
+    return {
+      since: since.toISOString(),
+      lookups,
+      exactHits,
+      semanticHits,
+      misses,
+      falseHits,
+      hitRate: lookups > 0 ? (exactHits + semanticHits) / lookups : 0,
+      semanticHitRate: lookups > 0 ? semanticHits / lookups : 0,
+      falseHitRate: semanticHits > 0 ? falseHits / semanticHits : 0,
+    };
+  }
+
+  /**
+   * List recent semantic hits, to review whether the reused answers fit
+   */
+  async listSemanticHits(options: { limit?: number; unreviewed?: boolean } = {}): Promise<SemanticHitEvent[]> {
+    let query = this.supabase
+      .from('chat_cache_events')
+      .select('*')
+      .eq('event_type', 'semantic_hit')
+      .order('created_at', { ascending: false })
+      .limit(options.limit || 50);
+    if (options.unreviewed) {
+      query = query.is('reviewed_at', null);
+    }
+
+    const { data, error } = await query;
+    if (error) {
+      throw new Error(`Failed to list semantic cache hits: ${error.message}`);
+    }
+
+    return (data || []) as SemanticHitEvent[];
+  }
+
+  /**
+   * Mark a semantic hit as a false hit (or as correct)
+   * The reused entry is excluded from semantic matching while any of its hits
+   * is marked as false; it is still served for its own question
+   * @returns Updated event, or null if it does not exist
+   */
+  async reviewSemanticHit(eventId: string, falseHit: boolean): Promise<SemanticHitEvent | null> {
+    const { data, error } = await this.supabase
+      .from('chat_cache_events')
+      .update({ false_hit: falseHit, reviewed_at: new Date().toISOString() })
+      .eq('id', eventId)
+      .eq('event_type', 'semantic_hit')
+      .select()
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to review semantic cache hit: ${error.message}`);
+    }
+
+    const hit = data as SemanticHitEvent | null;
+    if (hit?.cache_id) {
+      await this.updateSemanticExclusion(hit.cache_id);
+    }
+
+    return hit;
+  }
+
+  /**
+   * Exclude a cache entry from semantic matching if any of its hits is a false hit
+   */
+  private async updateSemanticExclusion(cacheId: string): Promise<void> {
+    const { count, error } = await this.supabase
+      .from('chat_cache_events')
+      .select('id', { count: 'exact', head: true })
+      .eq('cache_id', cacheId)
+      .eq('event_type', 'semantic_hit')
+      .eq('false_hit', true);
+
+    if (error) {
+      throw new Error(`Failed to count false hits of cache entry: ${error.message}`);
+    }
+
+    const { error: updateError } = await this.supabase
+      .from('chat_cache')
+      .update({ semantic_excluded: (count || 0) > 0 })
+      .eq('id', cacheId);
+
+    if (updateError) {
+      throw new Error(`Failed to update semantic exclusion of cache entry: ${updateError.message}`);
+    }
+  }
+}
@@ -1,6 +1,7 @@
 import { SupabaseClient } from '@supabase/supabase-js';
 import { createHash } from 'crypto';
 import { Logger } from '@ticobot/shared';
+import { CacheInvalidationService, type CacheDocumentTags } from './cache-invalidation.service.js';
 
 /**
  * Service for managing cached comparisons
@@ -97,6 +98,7 @@ export class ComparisonsCacheService {
     comparisons: any[],
     metadata?: {
       processingTime?: number;
+      summary?: string | null; // Cross-party summary (streaming endpoint)
       expiresInHours?: number;
     }
   ): Promise<void> {
@@ -107,6 +109,21 @@ export class ComparisonsCacheService {
       ? new Date(Date.now() + metadata.expiresInHours * 60 * 60 * 1000).toISOString()
       : null;
 
+    // Tag the entry with the documents it was built from, so re-ingesting
+    // one of them invalidates it (any ingestion when a party had no sources).
+    // An untagged entry would never be invalidated, so it is not stored
+    let tags: CacheDocumentTags;
+    try {
+      tags = await new CacheInvalidationService(this.supabase).buildTags(
+        comparisons.flatMap(comparison => (comparison.sources || []).map((source: any) => source.documentId)),
+        comparisons.every(comparison => comparison.sources?.length > 0)
+      );
+    } catch (error) {
+      const logger = new Logger('ComparisonsCacheService');
+      logger.warn('Error tagging cache entry with document versions, comparison not cached:', error);
+      return;
+    }
+
     const { error } = await this.supabase
       .from('comparisons_cache')
       .upsert(
@@ -121,6 +138,7 @@ export class ComparisonsCacheService {
             cached_at: new Date().toISOString(),
           },
           expires_at: expiresAt,
+          ...tags,
         },
         {
           onConflict: 'topic_hash,party_ids_hash',
@@ -133,6 +151,28 @@ export class ComparisonsCacheService {
     }
   }
 
+  /**
+   * Store the cross-party summary of an entry cached without one (POST /api/compare)
+   * @param metadata - Metadata of the cached entry
+   */
+  async setSummary(
+    topic: string,
+    partyIds: string[],
+    metadata: Record<string, unknown>,
+    summary: string | null
+  ): Promise<void> {
+    const { error } = await this.supabase
+      .from('comparisons_cache')
+      .update({ metadata: { ...metadata, summary } })
+      .eq('topic_hash', this.hashTopic(topic))
+      .eq('party_ids_hash', this.hashPartyIds(partyIds));
+
+    if (error) {
+      const logger = new Logger('ComparisonsCacheService');
+      logger.warn('Error storing comparison summary:', error);
+    }
+  }
+
   /**
    * Invalidate cache for a specific topic and parties
    */
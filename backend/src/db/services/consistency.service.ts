@@ -0,0 +1,165 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import type { ContradictionFinding } from '../../rag/components/ConsistencyAnalyzer.js';
+
+export type ConsistencyReviewStatus = 'pending' | 'confirmed' | 'dismissed';
+
+/**
+ * Stored contradiction of a party's plan
+ */
+export interface ConsistencyFinding {
+  id: string;
+  party_id: string;
+  topic: string;
+  kind: 'plan' | 'candidate';
+  statement_a: string;
+  chunk_a_id: string;
+  page_a_start: number | null;
+  page_a_end: number | null;
+  statement_b: string;
+  chunk_b_id: string | null;
+  page_b_start: number | null;
+  page_b_end: number | null;
+  candidate_id: string | null;
+  explanation: string;
+  severity: 'alta' | 'media' | 'baja';
+  review_status: ConsistencyReviewStatus;
+  review_notes: string | null;
+  reviewed_by: string | null;
+  reviewed_at: string | null;
+  analyzed_at: string;
+  candidates?: {
+    name: string;
+    position: string;
+  } | null;
+}
+
+export interface ReviewFindingData {
+  status: ConsistencyReviewStatus;
+  notes?: string;
+  reviewedBy: string;
+}
+
+/**
+ * Repository for the contradictions found by the consistency analysis
+ */
+export class ConsistencyService {
+  constructor(private readonly supabase: SupabaseClient) {}
+
+  /**
+   * Replace the pending findings of a party with a new analysis
+   * Reviewed findings are kept, and new findings already reviewed are not stored again
+   * @returns Number of stored findings
+   */
+  async replaceForParty(partyId: string, findings: ContradictionFinding[]): Promise<number> {
+    const { error: deleteError } = await this.supabase
+      .from('consistency_findings')
+      .delete()
+      .eq('party_id', partyId)
+      .eq('review_status', 'pending');
+
+    if (deleteError) {
+      throw new Error(`Failed to delete pending findings: ${deleteError.message}`);
+    }
+
+    const { data: reviewed, error: reviewedError } = await this.supabase
+      .from('consistency_findings')
+      .select('chunk_a_id, chunk_b_id, candidate_id')
+      .eq('party_id', partyId);
+
+    if (reviewedError) {
+      throw new Error(`Failed to load reviewed findings: ${reviewedError.message}`);
+    }
+
+    const reviewedKeys = new Set((reviewed || []).map(row =>
+      findingKey(row.chunk_a_id, row.chunk_b_id, row.candidate_id)
+    ));
+    const rows = findings
+      .filter(finding => !reviewedKeys.has(
+        findingKey(finding.statementA.chunkId, finding.statementB.chunkId, finding.statementB.candidateId)
+      ))
+      .map(finding => ({
+        party_id: partyId,
+        topic: finding.topic,
+        kind: finding.kind,
+        statement_a: finding.statementA.quote,
+        chunk_a_id: finding.statementA.chunkId,
+        page_a_start: finding.statementA.pageRange?.start ?? null,
+        page_a_end: finding.statementA.pageRange?.end ?? null,
+        statement_b: finding.statementB.quote,
+        chunk_b_id: finding.statementB.chunkId,
+        page_b_start: finding.statementB.pageRange?.start ?? null,
+        page_b_end: finding.statementB.pageRange?.end ?? null,
+        candidate_id: finding.statementB.candidateId,
+        explanation: finding.explanation,
+        severity: finding.severity,
+      }));
+
+    if (rows.length === 0) {
+      return 0;
+    }
+
+    const { error: insertError } = await this.supabase
+      .from('consistency_findings')
+      .insert(rows);
+
+    if (insertError) {
+      throw new Error(`Failed to store findings: ${insertError.message}`);
+    }
+
+    return rows.length;
+  }
+
+  /**
+   * Get the findings of a party, most severe first
+   */
+  async findByParty(partyId: string, statuses?: ConsistencyReviewStatus[]): Promise<ConsistencyFinding[]> {
+    let query = this.supabase
+      .from('consistency_findings')
+      .select('*, candidates(name, position)')
+      .eq('party_id', partyId)
+      .order('topic', { ascending: true })
+      .order('analyzed_at', { ascending: false });
+
+    if (statuses) {
+      query = query.in('review_status', statuses);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      throw new Error(`Failed to get findings: ${error.message}`);
+    }
+
+    const rank = { alta: 0, media: 1, baja: 2 };
+    return ((data || []) as ConsistencyFinding[])
+      .sort((a, b) => rank[a.severity] - rank[b.severity]);
+  }
+
+  /**
+   * Record the admin review of a finding
+   */
+  async review(id: string, partyId: string, data: ReviewFindingData): Promise<ConsistencyFinding | null> {
+    const { data: finding, error } = await this.supabase
+      .from('consistency_findings')
+      .update({
+        review_status: data.status,
+        review_notes: data.notes ?? null,
+        reviewed_by: data.reviewedBy,
+        reviewed_at: new Date().toISOString(),
+      })
+      .eq('id', id)
+      .eq('party_id', partyId)
+      .select()
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to review finding: ${error.message}`);
+    }
+
+    return finding as ConsistencyFinding | null;
+  }
+}
+
+function findingKey(chunkA: string | null, chunkB: string | null, candidateId: string | null): string {
+  return `${chunkA}:${chunkB ?? ''}:${candidateId ?? ''}`;
+}
@@ -0,0 +1,272 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+
+/**
+ * Database types matching the conversations table schema
+ */
+export interface Conversation {
+  id: string;
+  user_id: string | null;
+  anonymous_session_id: string | null;
+  title: string;
+  last_message_at: string;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Database types matching the messages table schema
+ */
+export interface ConversationMessageRecord {
+  id: string;
+  conversation_id: string;
+  role: 'user' | 'assistant';
+  content: string;
+  sources: any[];
+  metadata: {
+    model?: string;
+    tokensUsed?: number;
+    processingTime?: number;
+    cached?: boolean;
+    citations?: any[];
+  };
+  created_at: string;
+}
+
+/**
+ * Owner of a conversation: an authenticated user or an anonymous session
+ */
+export interface ConversationOwner {
+  userId?: string;
+  anonymousSessionId?: string;
+}
+
+/**
+ * A question/answer turn to append to a conversation
+ */
+export interface ConversationTurnData {
+  question: string;
+  answer: string;
+  sources: any[];
+  metadata?: ConversationMessageRecord['metadata'];
+}
+
+/**
+ * Maximum length of titles generated from the first question
+ */
+const MAX_TITLE_LENGTH = 80;
+
+/**
+ * Repository for conversation and message database operations
+ */
+export class ConversationsService {
+  constructor(private readonly supabase: SupabaseClient) {}
+
+  /**
+   * Create a new conversation for a user or anonymous session
+   */
+  async create(owner: ConversationOwner, title: string): Promise<Conversation> {
+    if (!owner.userId && !owner.anonymousSessionId) {
+      throw new Error('Conversation owner is required');
+    }
+
+    const { data, error } = await this.supabase
+      .from('conversations')
+      .insert({
+        user_id: owner.userId || null,
+        anonymous_session_id: owner.userId ? null : owner.anonymousSessionId,
+        title: this.buildTitle(title),
+      })
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data as Conversation;
+  }
+
+  /**
+   * List a user's conversations, most recently active first
+   */
+  async findByUser(userId: string, options?: {
+    limit?: number;
+    offset?: number;
+  }): Promise<Conversation[]> {
+    const limit = options?.limit || 20;
+    const offset = options?.offset || 0;
+
+    const { data, error } = await this.supabase
+      .from('conversations')
+      .select('*')
+      .eq('user_id', userId)
+      .order('last_message_at', { ascending: false })
+      .range(offset, offset + limit - 1);
+
+    if (error) throw error;
+    return (data || []) as Conversation[];
+  }
+
+  /**
+   * Count a user's conversations
+   */
+  async countByUser(userId: string): Promise<number> {
+    const { count, error } = await this.supabase
+      .from('conversations')
+      .select('*', { count: 'exact', head: true })
+      .eq('user_id', userId);
+
+    if (error) throw error;
+    return count || 0;
+  }
+
+  /**
+   * Get a conversation if it belongs to the given owner
+   * Returns null when it does not exist or belongs to someone else
+   */
+  async findForOwner(id: string, owner: ConversationOwner): Promise<Conversation | null> {
+    const { data, error } = await this.supabase
+      .from('conversations')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!data) return null;
+
+    const conversation = data as Conversation;
+    return this.isOwner(conversation, owner) ? conversation : null;
+  }
+
+  /**
+   * Get the messages of a conversation in chronological order
+   */
+  async getMessages(conversationId: string): Promise<ConversationMessageRecord[]> {
+    const { data, error } = await this.supabase
+      .from('messages')
+      .select('*')
+      .eq('conversation_id', conversationId)
+      .order('created_at', { ascending: true });
+
+    if (error) throw error;
+    return (data || []) as ConversationMessageRecord[];
+  }
+
+  /**
+   * Rename a conversation
+   */
+  async rename(id: string, title: string): Promise<Conversation> {
+    const { data, error } = await this.supabase
+      .from('conversations')
+      .update({ title: this.buildTitle(title) })
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data as Conversation;
+  }
+
+  /**
+   * Delete a conversation (messages are deleted by cascade)
+   */
+  async delete(id: string): Promise<void> {
+    const { error } = await this.supabase
+      .from('conversations')
+      .delete()
+      .eq('id', id);
+
+    if (error) throw error;
+  }
+
+  /**
+   * Append a question/answer turn to a conversation
+   */
+  async appendTurn(conversationId: string, turn: ConversationTurnData): Promise<void> {
+    const now = Date.now();
+
+    // Explicit timestamps keep the question before the answer when both are inserted together
+    const { error } = await this.supabase
+      .from('messages')
+      .insert([
+        {
+          conversation_id: conversationId,
+          role: 'user',
+          content: turn.question,
+          sources: [],
+          metadata: {},
+          created_at: new Date(now).toISOString(),
+        },
+        {
+          conversation_id: conversationId,
+          role: 'assistant',
+          content: turn.answer,
+          sources: turn.sources,
+          metadata: turn.metadata || {},
+          created_at: new Date(now + 1).toISOString(),
+        },
+      ]);
+
+    if (error) throw error;
+
+    const { error: updateError } = await this.supabase
+      .from('conversations')
+      .update({ last_message_at: new Date(now + 1).toISOString() })
+      .eq('id', conversationId);
+
+    if (updateError) throw updateError;
+  }
+
+  /**
+   * Record a chat turn for an owner
+   * Appends to the given conversation if the owner has access to it,
+   * otherwise starts a new conversation titled after the question
+   * @returns Id of the conversation the turn was stored in
+   */
+  async recordTurn(
+    owner: ConversationOwner,
+    conversationId: string | undefined,
+    turn: ConversationTurnData
+  ): Promise<string> {
+    let conversation = conversationId
+      ? await this.findForOwner(conversationId, owner)
+      : null;
+
+    if (!conversation) {
+      conversation = await this.create(owner, turn.question);
+    }
+
+    await this.appendTurn(conversation.id, turn);
+    return conversation.id;
+  }
+
+  /**
+   * Transfer the conversations of an anonymous session to a user
+   * Used after an anonymous visitor signs up or logs in
+   * @returns Number of conversations claimed
+   */
+  async claimAnonymous(anonymousSessionId: string, userId: string): Promise<number> {
+    const { data, error } = await this.supabase
+      .from('conversations')
+      .update({ user_id: userId, anonymous_session_id: null })
+      .eq('anonymous_session_id', anonymousSessionId)
+      .is('user_id', null)
+      .select('id');
+
+    if (error) throw error;
+    return data?.length || 0;
+  }
+
+  private isOwner(conversation: Conversation, owner: ConversationOwner): boolean {
+    if (owner.userId && conversation.user_id === owner.userId) {
+      return true;
+    }
+    return !!owner.anonymousSessionId
+      && conversation.user_id === null
+      && conversation.anonymous_session_id === owner.anonymousSessionId;
+  }
+
+  private buildTitle(text: string): string {
+    const title = text.trim().replace(/\s+/g, ' ');
+    return title.length > MAX_TITLE_LENGTH
+      ? title.substring(0, MAX_TITLE_LENGTH - 3) + '...'
+      : title;
+  }
+}
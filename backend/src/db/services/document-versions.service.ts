@@ -0,0 +1,263 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import {
+  diffPlanVersions,
+  diffProposals,
+  type PlanVersionDiff,
+  type ProposalChanges,
+  type VersionChunk,
+  type VersionProposal,
+} from '../../ingest/components/PlanVersionDiffer.js';
+
+/**
+ * Version of a plan as listed in its history
+ */
+export interface DocumentVersionSummary {
+  id: string;
+  version: number;
+  source_hash: string | null;
+  content_version: string;
+  page_count: number | null;
+  chunk_count: number;
+  proposal_count: number | null;
+  summary: PlanVersionDiff['summary'] | null; // Changes against the previous version
+  created_at: string;
+}
+
+export interface DocumentVersion extends Omit<DocumentVersionSummary, 'summary'> {
+  document_id: string;
+  diff: PlanVersionDiff | null;
+  proposals: VersionProposal[] | null;
+}
+
+/**
+ * Version with the proposals added and dropped since the previous one
+ */
+export interface DocumentVersionDetail extends DocumentVersion {
+  previous_version: number | null;
+  proposal_changes: ProposalChanges | null; // null when either version has no extracted proposals
+}
+
+export interface RecordVersionData {
+  sourceHash: string | null;
+  contentVersion: string;
+  pageCount: number | null;
+  chunks: VersionChunk[];
+  proposals: VersionProposal[] | null; // null when proposals were not extracted
+}
+
+const SUMMARY_COLUMNS =
+  'id, version, source_hash, content_version, page_count, chunk_count, proposal_count, summary:diff->summary, created_at';
+const INSERT_BATCH_SIZE = 200;
+const READ_PAGE_SIZE = 1000;
+
+/**
+ * Repository for the version history of the plans
+ */
+export class DocumentVersionsService {
+  constructor(private readonly supabase: SupabaseClient) {}
+
+  /**
+   * Record the ingested content of a document as its next version
+   * Re-ingesting the same content keeps the latest version (and fills in its
+   * proposals when they were not extracted before, and the PDF it now comes from)
+   * @param documentId - documents.document_id (e.g. "fa-2026")
+   */
+  async recordVersion(
+    documentId: string,
+    data: RecordVersionData
+  ): Promise<{ version: number; created: boolean }> {
+    const documentUuid = await this.resolveDocument(documentId);
+    const latest = await this.findLatest(documentUuid);
+
+    if (latest?.content_version === data.contentVersion) {
+      const updates = {
+        ...(data.proposals && !latest.proposals && {
+          proposals: data.proposals,
+          proposal_count: data.proposals.length,
+        }),
+        ...(data.sourceHash && data.sourceHash !== latest.source_hash && { source_hash: data.sourceHash }),
+      };
+
+      if (Object.keys(updates).length > 0) {
+        const { error } = await this.supabase
+          .from('document_versions')
+          .update(updates)
+          .eq('id', latest.id);
+
+        if (error) {
+          throw new Error(`Failed to update version ${latest.version}: ${error.message}`);
+        }
+      }
+      return { version: latest.version, created: false };
+    }
+
+    const diff = latest ? diffPlanVersions(await this.getChunks(latest.id), data.chunks) : null;
+
+    const { data: version, error } = await this.supabase
+      .from('document_versions')
+      .insert({
+        document_id: documentUuid,
+        version: (latest?.version ?? 0) + 1,
+        source_hash: data.sourceHash,
+        content_version: data.contentVersion,
+        page_count: data.pageCount,
+        chunk_count: data.chunks.length,
+        diff,
+        proposals: data.proposals,
+        proposal_count: data.proposals?.length ?? null,
+      })
+      .select('id, version')
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to create version of ${documentId}: ${error.message}`);
+    }
+
+    const rows = data.chunks.map(chunk => ({
+      version_id: version.id,
+      chunk_index: chunk.chunkIndex,
+      content: chunk.content,
+      page_start: chunk.pageStart,
+      page_end: chunk.pageEnd,
+      section: chunk.section,
+    }));
+
+    for (let i = 0; i < rows.length; i += INSERT_BATCH_SIZE) {
+      const { error: chunksError } = await this.supabase
+        .from('document_version_chunks')
+        .insert(rows.slice(i, i + INSERT_BATCH_SIZE));
+
+      if (chunksError) {
+        // A version without its chunks cannot be diffed against
+        await this.supabase.from('document_versions').delete().eq('id', version.id);
+        throw new Error(`Failed to store chunks of version ${version.version}: ${chunksError.message}`);
+      }
+    }
+
+    return { version: version.version, created: true };
+  }
+
+  /**
+   * Fingerprint of the PDF of the latest version of a document
+   * @param documentId - documents.document_id (e.g. "fa-2026")
+   * @returns null when the document has no version yet
+   */
+  async getLatestSourceHash(documentId: string): Promise<string | null> {
+    const latest = await this.findLatest(await this.resolveDocument(documentId));
+    return latest?.source_hash ?? null;
+  }
+
+  /**
+   * Versions of a document, newest first
+   * @param documentUuid - documents.id
+   */
+  async listVersions(documentUuid: string): Promise<DocumentVersionSummary[]> {
+    const { data, error } = await this.supabase
+      .from('document_versions')
+      .select(SUMMARY_COLUMNS)
+      .eq('document_id', documentUuid)
+      .order('version', { ascending: false });
+
+    if (error) {
+      throw new Error(`Failed to list document versions: ${error.message}`);
+    }
+
+    return (data || []) as unknown as DocumentVersionSummary[];
+  }
+
+  /**
+   * One version with its diff and the proposal changes against the previous version
+   * @param documentUuid - documents.id
+   */
+  async getVersion(documentUuid: string, version: number): Promise<DocumentVersionDetail | null> {
+    const { data, error } = await this.supabase
+      .from('document_versions')
+      .select('*')
+      .eq('document_id', documentUuid)
+      .lte('version', version)
+      .order('version', { ascending: false })
+      .limit(2);
+
+    if (error) {
+      throw new Error(`Failed to get document version: ${error.message}`);
+    }
+
+    const [current, previous] = (data || []) as DocumentVersion[];
+    if (!current || current.version !== version) {
+      return null;
+    }
+
+    return {
+      ...current,
+      previous_version: previous?.version ?? null,
+      proposal_changes: previous?.proposals && current.proposals
+        ? diffProposals(previous.proposals, current.proposals)
+        : null,
+    };
+  }
+
+  /**
+   * Chunks of a version in reading order
+   */
+  async getChunks(versionId: string): Promise<VersionChunk[]> {
+    const chunks: VersionChunk[] = [];
+
+    for (let from = 0; ; from += READ_PAGE_SIZE) {
+      const { data, error } = await this.supabase
+        .from('document_version_chunks')
+        .select('chunk_index, content, page_start, page_end, section')
+        .eq('version_id', versionId)
+        .order('chunk_index', { ascending: true })
+        .range(from, from + READ_PAGE_SIZE - 1);
+
+      if (error) {
+        throw new Error(`Failed to load version chunks: ${error.message}`);
+      }
+
+      chunks.push(...(data || []).map(row => ({
+        chunkIndex: row.chunk_index,
+        content: row.content,
+        pageStart: row.page_start,
+        pageEnd: row.page_end,
+        section: row.section,
+      })));
+
+      if (!data || data.length < READ_PAGE_SIZE) {
+        return chunks;
+      }
+    }
+  }
+
+  private async resolveDocument(documentId: string): Promise<string> {
+    const { data, error } = await this.supabase
+      .from('documents')
+      .select('id')
+      .eq('document_id', documentId)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to load document ${documentId}: ${error.message}`);
+    }
+    if (!data) {
+      throw new Error(`Document ${documentId} not found`);
+    }
+
+    return data.id;
+  }
+
+  private async findLatest(documentUuid: string): Promise<DocumentVersion | null> {
+    const { data, error } = await this.supabase
+      .from('document_versions')
+      .select('id, document_id, version, source_hash, content_version, page_count, chunk_count, proposal_count, proposals, created_at')
+      .eq('document_id', documentUuid)
+      .order('version', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to get latest document version: ${error.message}`);
+    }
+
+    return data as DocumentVersion | null;
+  }
+}
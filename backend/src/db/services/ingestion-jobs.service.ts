@@ -0,0 +1,284 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import type { IngestOptions, IngestProgress, IngestResult } from '../../ingest/components/IngestPipeline.js';
+
+export type IngestionJobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+export interface IngestionJobDocument {
+  url: string;
+  documentId: string;
+}
+
+/**
+ * Pipeline options stored with a job (callbacks and signals are added by the worker)
+ */
+export type IngestionJobOptions = Omit<IngestOptions, 'onProgress' | 'signal'>;
+
+export interface IngestionJobProgress extends IngestProgress {
+  documentIndex: number; // Position of the document in the job
+}
+
+/**
+ * Result of one document of a job, without chunks and proposals
+ */
+export interface IngestionJobResult {
+  documentId: string;
+  success: boolean;
+  error?: string;
+  chunkCount: number;
+  proposalCount?: number;
+  diff?: IngestResult['diff']; // Changes against the previously stored version
+  stats: IngestResult['stats'];
+}
+
+export interface IngestionJob {
+  id: string;
+  status: IngestionJobStatus;
+  documents: IngestionJobDocument[];
+  options: IngestionJobOptions;
+  progress: IngestionJobProgress | null;
+  results: IngestionJobResult[];
+  error: string | null;
+  attempts: number;
+  cancel_requested: boolean;
+  created_by: string | null;
+  created_at: string;
+  started_at: string | null;
+  finished_at: string | null;
+  heartbeat_at: string | null;
+  updated_at: string;
+}
+
+export interface CreateIngestionJobData {
+  documents: IngestionJobDocument[];
+  options?: IngestionJobOptions;
+  createdBy?: string;
+}
+
+export interface ClaimIngestionJobOptions {
+  staleAfterMs: number; // Running jobs without a heartbeat for this long are claimed again
+  maxAttempts: number; // Stale jobs that used every attempt are failed instead
+}
+
+/**
+ * Repository for the ingestion job queue
+ */
+export class IngestionJobsService {
+  constructor(private readonly supabase: SupabaseClient) {}
+
+  /**
+   * Queue a job
+   */
+  async create(data: CreateIngestionJobData): Promise<IngestionJob> {
+    const { data: job, error } = await this.supabase
+      .from('ingestion_jobs')
+      .insert({
+        documents: data.documents,
+        options: data.options ?? {},
+        created_by: data.createdBy ?? null,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to create ingestion job: ${error.message}`);
+    }
+
+    return job as IngestionJob;
+  }
+
+  async findById(id: string): Promise<IngestionJob | null> {
+    const { data, error } = await this.supabase
+      .from('ingestion_jobs')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to get ingestion job: ${error.message}`);
+    }
+
+    return data as IngestionJob | null;
+  }
+
+  /**
+   * Get the most recent jobs
+   */
+  async list(options: { status?: IngestionJobStatus; limit?: number } = {}): Promise<IngestionJob[]> {
+    let query = this.supabase
+      .from('ingestion_jobs')
+      .select('*')
+      .order('created_at', { ascending: false })
+      .limit(options.limit ?? 20);
+
+    if (options.status) {
+      query = query.eq('status', options.status);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      throw new Error(`Failed to list ingestion jobs: ${error.message}`);
+    }
+
+    return (data || []) as IngestionJob[];
+  }
+
+  /**
+   * Number of jobs in every status
+   */
+  async countByStatus(): Promise<Record<IngestionJobStatus, number>> {
+    const statuses: IngestionJobStatus[] = ['queued', 'running', 'completed', 'failed', 'cancelled'];
+    const counts = await Promise.all(statuses.map(async (status) => {
+      const { count, error } = await this.supabase
+        .from('ingestion_jobs')
+        .select('id', { count: 'exact', head: true })
+        .eq('status', status);
+
+      if (error) {
+        throw new Error(`Failed to count ingestion jobs: ${error.message}`);
+      }
+
+      return [status, count ?? 0] as const;
+    }));
+
+    return Object.fromEntries(counts) as Record<IngestionJobStatus, number>;
+  }
+
+  /**
+   * Claim the next queued job, or a running job abandoned by a crashed worker
+   */
+  async claimNext(options: ClaimIngestionJobOptions): Promise<IngestionJob | null> {
+    const { data, error } = await this.supabase.rpc('claim_ingestion_job', {
+      p_stale_after_seconds: Math.ceil(options.staleAfterMs / 1000),
+      p_max_attempts: options.maxAttempts,
+    });
+
+    if (error) {
+      throw new Error(`Failed to claim ingestion job: ${error.message}`);
+    }
+
+    return ((data || []) as IngestionJob[])[0] ?? null;
+  }
+
+  /**
+   * Record that the worker is still processing a job, with its latest progress
+   * @returns Whether an admin asked to cancel the job
+   */
+  async heartbeat(id: string, progress: IngestionJobProgress | null): Promise<{ cancelRequested: boolean }> {
+    const now = new Date().toISOString();
+    const { data, error } = await this.supabase
+      .from('ingestion_jobs')
+      .update({ progress, heartbeat_at: now, updated_at: now })
+      .eq('id', id)
+      .select('cancel_requested')
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to update ingestion job heartbeat: ${error.message}`);
+    }
+
+    return { cancelRequested: data.cancel_requested };
+  }
+
+  async saveResults(id: string, results: IngestionJobResult[]): Promise<void> {
+    const { error } = await this.supabase
+      .from('ingestion_jobs')
+      .update({ results, updated_at: new Date().toISOString() })
+      .eq('id', id);
+
+    if (error) {
+      throw new Error(`Failed to save ingestion job results: ${error.message}`);
+    }
+  }
+
+  /**
+   * Mark a job as finished
+   */
+  async finish(
+    id: string,
+    status: Extract<IngestionJobStatus, 'completed' | 'failed' | 'cancelled'>,
+    error: string | null = null
+  ): Promise<IngestionJob> {
+    const now = new Date().toISOString();
+    const { data, error: updateError } = await this.supabase
+      .from('ingestion_jobs')
+      .update({ status, error, finished_at: now, updated_at: now })
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (updateError) {
+      throw new Error(`Failed to finish ingestion job: ${updateError.message}`);
+    }
+
+    return data as IngestionJob;
+  }
+
+  /**
+   * Cancel a job: queued jobs are cancelled at once, running jobs are stopped
+   * by the worker on its next heartbeat
+   * @returns The updated job, or null if it was not queued or running
+   */
+  async requestCancel(id: string): Promise<IngestionJob | null> {
+    const now = new Date().toISOString();
+    const { data: cancelled, error: cancelError } = await this.supabase
+      .from('ingestion_jobs')
+      .update({ status: 'cancelled', cancel_requested: true, finished_at: now, updated_at: now })
+      .eq('id', id)
+      .eq('status', 'queued')
+      .select()
+      .maybeSingle();
+
+    if (cancelError) {
+      throw new Error(`Failed to cancel ingestion job: ${cancelError.message}`);
+    }
+    if (cancelled) {
+      return cancelled as IngestionJob;
+    }
+
+    const { data: running, error: runningError } = await this.supabase
+      .from('ingestion_jobs')
+      .update({ cancel_requested: true, updated_at: now })
+      .eq('id', id)
+      .eq('status', 'running')
+      .select()
+      .maybeSingle();
+
+    if (runningError) {
+      throw new Error(`Failed to cancel ingestion job: ${runningError.message}`);
+    }
+
+    return running as IngestionJob | null;
+  }
+
+  /**
+   * Queue a failed or cancelled job again
+   * Documents that were ingested successfully are kept and skipped
+   * @returns The queued job, or null if it was not failed or cancelled
+   */
+  async retry(job: IngestionJob): Promise<IngestionJob | null> {
+    const { data, error } = await this.supabase
+      .from('ingestion_jobs')
+      .update({
+        status: 'queued',
+        results: job.results.filter(result => result.success),
+        progress: null,
+        error: null,
+        attempts: 0,
+        cancel_requested: false,
+        finished_at: null,
+        heartbeat_at: null,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', job.id)
+      .in('status', ['failed', 'cancelled'])
+      .select()
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to retry ingestion job: ${error.message}`);
+    }
+
+    return data as IngestionJob | null;
+  }
+}
@@ -26,6 +26,11 @@ export interface Party {
     deputies: number;
     mayors: number;
   } | null;
+  aliases: string[];
+  detection_patterns: string[];
+  document_party_id: string | null;
+  tse_plan_url: string | null;
+  featured_rank: number | null;
   created_at: string;
   updated_at: string;
 }
@@ -56,26 +61,37 @@ export interface CreatePartyData {
 
 export interface UpdatePartyData {
   name?: string;
-  abbreviation?: string;
+  abbreviation?: string | null;
   slug?: string;
-  founded_year?: number;
-  ideology?: string[];
+  founded_year?: number | null;
+  ideology?: string[] | null;
   colors?: {
     primary: string;
     secondary: string;
   };
-  logo_url?: string;
-  description?: string;
-  website?: string;
+  logo_url?: string | null;
+  description?: string | null;
+  website?: string | null;
   social_media?: {
     twitter?: string;
     facebook?: string;
     instagram?: string;
-  };
+  } | null;
   current_representation?: {
     deputies: number;
     mayors: number;
-  };
+  } | null;
+}
+
+/**
+ * Registry fields of a party, edited by admins
+ */
+export interface UpdatePartyRegistryData {
+  aliases?: string[];
+  detection_patterns?: string[];
+  document_party_id?: string | null;
+  tse_plan_url?: string | null;
+  featured_rank?: number | null;
 }
 
 /**
@@ -86,19 +102,16 @@ export class PartiesService {
 
   /**
    * Get all parties
-   * Returns top 5 parties first, then remaining parties alphabetically
+   * Returns featured parties first (by featured rank), then remaining parties alphabetically
    */
   async findAll(options?: {
     limit?: number;
     offset?: number;
   }): Promise<Party[]> {
-    // Hardcoded top 5 party slugs (in priority order)
-    // PLN, CAC, PS (Pueblo Soberano), FA, PUSC
-    const TOP_5_SLUGS = ['liberacion-nacional', 'coalicion-agenda-ciudadana', 'pueblo-soberano', 'frente-amplio', 'unidad-social-cristiana'];
-
     let query = this.supabase
       .from('parties')
       .select('*')
+      .order('featured_rank', { ascending: true, nullsFirst: false })
       .order('name', { ascending: true });
 
     if (options?.limit) {
@@ -113,31 +126,7 @@ export class PartiesService {
     const { data, error } = await query;
 
     if (error) throw error;
-
-    const parties = (data || []) as Party[];
-
-    // Reorder: top 5 first, then remaining alphabetically
-    const top5Parties: Party[] = [];
-    const otherParties: Party[] = [];
-
-    // Separate parties into top 5 and others
-    for (const party of parties) {
-      if (TOP_5_SLUGS.includes(party.slug)) {
-        top5Parties.push(party);
-      } else {
-        otherParties.push(party);
-      }
-    }
-
-    // Sort top 5 by their position in TOP_5_SLUGS array
-    top5Parties.sort((a, b) => {
-      const indexA = TOP_5_SLUGS.indexOf(a.slug);
-      const indexB = TOP_5_SLUGS.indexOf(b.slug);
-      return indexA - indexB;
-    });
-
-    // Return top 5 first, then others (already alphabetically sorted)
-    return [...top5Parties, ...otherParties];
+    return (data || []) as Party[];
   }
 
   /**
@@ -242,6 +231,21 @@ export class PartiesService {
     return data as Party;
   }
 
+  /**
+   * Update the registry fields of a party
+   */
+  async updateRegistry(id: string, updates: UpdatePartyRegistryData): Promise<Party | null> {
+    const { data, error } = await this.supabase
+      .from('parties')
+      .update(updates)
+      .eq('id', id)
+      .select()
+      .maybeSingle();
+
+    if (error) throw error;
+    return data as Party | null;
+  }
+
   /**
    * Delete a party
    */
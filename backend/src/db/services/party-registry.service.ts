@@ -0,0 +1,174 @@
+import { Logger } from '@ticobot/shared';
+import { createSupabaseClient } from '../supabase.js';
+import { PartiesService, type Party } from './parties.service.js';
+import { escapeRegExp, normalizeText, wordPattern } from '../../rag/utils/text.js';
+
+// Shorter abbreviations and aliases are also ordinary words ("PS", "EN", "EL")
+const MIN_NAME_LENGTH = 3;
+
+export interface PartyRegistryOptions {
+  ttlMs?: number; // Time the parties are cached before reloading (default: 5 minutes)
+}
+
+/**
+ * Party registry
+ * Single source of party knowledge: aliases and detection patterns, the party
+ * id of its TSE documents, the TSE plan URL and the featured ranking. Parties
+ * are read from the parties table and cached in process; admin edits
+ * invalidate the cache.
+ */
+export class PartyRegistry {
+  private logger: Logger;
+  private ttlMs: number;
+  private parties: Party[] | null = null;
+  private patterns = new Map<string, RegExp[]>();
+  private loadedAt = 0;
+  private loading: Promise<Party[]> | null = null;
+
+  constructor(
+    private readonly loadParties: () => Promise<Party[]> = loadFromDatabase,
+    options: PartyRegistryOptions = {}
+  ) {
+    this.logger = new Logger('PartyRegistry');
+    this.ttlMs = options.ttlMs ?? 5 * 60 * 1000;
+  }
+
+  /**
+   * Get all parties, featured parties first
+   * An outdated cache is kept if reloading fails; without one the error is thrown
+   */
+  async all(): Promise<Party[]> {
+    if (this.parties && Date.now() - this.loadedAt < this.ttlMs) {
+      return this.parties;
+    }
+
+    if (!this.loading) {
+      this.loading = this.load().finally(() => {
+        this.loading = null;
+      });
+    }
+
+    try {
+      return await this.loading;
+    } catch (error) {
+      if (!this.parties) {
+        throw error;
+      }
+      this.logger.warn(
+        `Party reload failed, using cached parties: ${error instanceof Error ? error.message : String(error)}`
+      );
+      this.loadedAt = Date.now(); // Retry after a full TTL, not on every call
+      return this.parties;
+    }
+  }
+
+  /**
+   * Get the featured parties, searched when a question names no party
+   */
+  async featured(): Promise<Party[]> {
+    return (await this.all()).filter(party => party.featured_rank !== null);
+  }
+
+  /**
+   * Find a party by id, slug, abbreviation or document party id
+   */
+  async findByKey(key: string): Promise<Party | null> {
+    const lowerKey = key.toLowerCase();
+    return (await this.all()).find(party =>
+      party.id === key ||
+      party.slug === lowerKey ||
+      party.abbreviation?.toLowerCase() === lowerKey ||
+      party.document_party_id?.toLowerCase() === lowerKey
+    ) ?? null;
+  }
+
+  /**
+   * Official TSE plan URL of a party (any key accepted by findByKey)
+   */
+  async tsePlanUrl(key: string): Promise<string | null> {
+    return (await this.findByKey(key))?.tse_plan_url ?? null;
+  }
+
+  /**
+   * Find the parties mentioned in a text
+   */
+  async detect(text: string): Promise<Party[]> {
+    const parties = await this.all();
+    const normalized = normalizeText(text);
+
+    return parties.filter(party =>
+      (this.patterns.get(party.id) || []).some(pattern => pattern.test(text) || pattern.test(normalized))
+    );
+  }
+
+  /**
+   * Drop the cached parties (after an admin edit)
+   */
+  invalidate(): void {
+    this.parties = null;
+    this.loadedAt = 0;
+  }
+
+  private async load(): Promise<Party[]> {
+    const parties = await this.loadParties();
+
+    this.patterns = new Map(parties.map(party => [party.id, partyPatterns(party)]));
+    this.parties = parties;
+    this.loadedAt = Date.now();
+    this.logger.info(`Loaded ${parties.length} parties (${parties.filter(party => party.featured_rank !== null).length} featured)`);
+    return parties;
+  }
+}
+
+/**
+ * Patterns a party is mentioned by: name, slug, abbreviation, aliases and
+ * detection patterns. Names are matched against normalized text (lowercase,
+ * no accents); abbreviations and aliases of two letters ("PS", "FA") only in
+ * capitals, and not in text written all in capitals where "EN" or "EL" are
+ * ordinary words. Invalid detection patterns are ignored.
+ */
+export function partyPatterns(party: Party): RegExp[] {
+  const names = [party.name, party.slug.replace(/-/g, ' ')];
+  const shortNames: string[] = [];
+
+  for (const alias of [party.abbreviation, ...(party.aliases || [])]) {
+    if (alias) {
+      (alias.length >= MIN_NAME_LENGTH ? names : shortNames).push(alias);
+    }
+  }
+
+  return [
+    ...[...new Set(names.map(normalizeText))].map(wordPattern),
+    // Only when the text has a lowercase letter
+    ...shortNames.map(name => new RegExp(`^(?=[\\s\\S]*[a-zñáéíóúü])[\\s\\S]*\\b${escapeRegExp(name)}\\b`)),
+    ...(party.detection_patterns || []).filter(isValidPattern).map(pattern => new RegExp(pattern, 'i')),
+  ];
+}
+
+/**
+ * Whether a detection pattern is a valid regular expression
+ */
+export function isValidPattern(pattern: string): boolean {
+  try {
+    new RegExp(pattern, 'i');
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+let sharedRegistry: PartyRegistry | null = null;
+
+/**
+ * Registry shared by the process
+ */
+export function getPartyRegistry(): PartyRegistry {
+  if (!sharedRegistry) {
+    sharedRegistry = new PartyRegistry();
+  }
+  return sharedRegistry;
+}
+
+async function loadFromDatabase(): Promise<Party[]> {
+  return new PartiesService(createSupabaseClient()).findAll();
+}
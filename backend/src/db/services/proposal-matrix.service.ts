@@ -0,0 +1,227 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import type { SpecificityScore } from '../../rag/components/SpecificityScorer.js';
+
+/**
+ * Topic of the proposal matrix taxonomy
+ */
+export interface MatrixTopic {
+  id: string;
+  slug: string;
+  name: string;
+  query: string;
+  description: string | null;
+  sort_order: number;
+  active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface CreateMatrixTopicData {
+  slug: string;
+  name: string;
+  query: string;
+  description?: string;
+  sort_order?: number;
+  active?: boolean;
+}
+
+export type UpdateMatrixTopicData = Partial<CreateMatrixTopicData>;
+
+/**
+ * One party x topic cell of the matrix
+ */
+export interface MatrixCell {
+  id: string;
+  party_id: string;
+  topic_id: string;
+  summary: string;
+  state: string;
+  confidence: number;
+  specificity: SpecificityScore | null; // Concreteness rubric of the supporting chunks
+  chunk_ids: string[];
+  document_id: string | null;
+  content_version: string | null;
+  built_at: string;
+}
+
+export type MatrixCellData = Omit<MatrixCell, 'id' | 'built_at'>;
+
+/**
+ * Latest ingested plan of a party
+ */
+export interface PartyDocumentVersion {
+  documentId: string;
+  contentVersion: string | null;
+}
+
+/**
+ * Repository for the topic taxonomy and the stored party x topic matrix
+ */
+export class ProposalMatrixService {
+  constructor(private readonly supabase: SupabaseClient) {}
+
+  /**
+   * Get the topics in taxonomy order
+   */
+  async listTopics(options?: { activeOnly?: boolean }): Promise<MatrixTopic[]> {
+    let query = this.supabase
+      .from('matrix_topics')
+      .select('*')
+      .order('sort_order', { ascending: true })
+      .order('name', { ascending: true });
+
+    if (options?.activeOnly) {
+      query = query.eq('active', true);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      throw new Error(`Failed to list matrix topics: ${error.message}`);
+    }
+
+    return (data || []) as MatrixTopic[];
+  }
+
+  /**
+   * Find a topic by id or slug
+   */
+  async findTopic(idOrSlug: string): Promise<MatrixTopic | null> {
+    const isUUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(idOrSlug);
+
+    const { data, error } = await this.supabase
+      .from('matrix_topics')
+      .select('*')
+      .eq(isUUID ? 'id' : 'slug', idOrSlug)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to find matrix topic: ${error.message}`);
+    }
+
+    return data as MatrixTopic | null;
+  }
+
+  async createTopic(topicData: CreateMatrixTopicData): Promise<MatrixTopic> {
+    const { data, error } = await this.supabase
+      .from('matrix_topics')
+      .insert(topicData)
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to create matrix topic: ${error.message}`);
+    }
+
+    return data as MatrixTopic;
+  }
+
+  async updateTopic(id: string, updates: UpdateMatrixTopicData): Promise<MatrixTopic | null> {
+    const { data, error } = await this.supabase
+      .from('matrix_topics')
+      .update(updates)
+      .eq('id', id)
+      .select()
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to update matrix topic: ${error.message}`);
+    }
+
+    return data as MatrixTopic | null;
+  }
+
+  /**
+   * Delete a topic and its cells
+   */
+  async deleteTopic(id: string): Promise<void> {
+    const { error } = await this.supabase
+      .from('matrix_topics')
+      .delete()
+      .eq('id', id);
+
+    if (error) {
+      throw new Error(`Failed to delete matrix topic: ${error.message}`);
+    }
+  }
+
+  /**
+   * Get the stored cells, optionally restricted to some topics and/or parties
+   */
+  async getCells(filters?: { topicIds?: string[]; partyIds?: string[] }): Promise<MatrixCell[]> {
+    let query = this.supabase
+      .from('proposal_matrix')
+      .select('*');
+
+    if (filters?.topicIds) {
+      query = query.in('topic_id', filters.topicIds);
+    }
+    if (filters?.partyIds) {
+      query = query.in('party_id', filters.partyIds);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      throw new Error(`Failed to load proposal matrix: ${error.message}`);
+    }
+
+    return (data || []) as MatrixCell[];
+  }
+
+  /**
+   * Insert or replace the cell of a party and topic
+   */
+  async upsertCell(cell: MatrixCellData): Promise<void> {
+    const { error } = await this.supabase
+      .from('proposal_matrix')
+      .upsert(
+        { ...cell, built_at: new Date().toISOString() },
+        { onConflict: 'party_id,topic_id' }
+      );
+
+    if (error) {
+      throw new Error(`Failed to store matrix cell: ${error.message}`);
+    }
+  }
+
+  /**
+   * Latest plan of a party
+   * Documents reference the party by UUID, or by abbreviation when the party
+   * was not registered at ingestion time
+   */
+  async findPartyDocument(party: { id: string; abbreviation: string | null }): Promise<PartyDocumentVersion | null> {
+    const partyKeys = party.abbreviation ? [party.id, party.abbreviation] : [party.id];
+
+    const { data, error } = await this.supabase
+      .from('documents')
+      .select('document_id, content_version')
+      .in('party_id', partyKeys)
+      .order('updated_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to find party document: ${error.message}`);
+    }
+
+    return data ? { documentId: data.document_id, contentVersion: data.content_version } : null;
+  }
+
+  /**
+   * Party (documents.party_id) of an ingested document
+   */
+  async findDocumentParty(documentId: string): Promise<string | null> {
+    const { data, error } = await this.supabase
+      .from('documents')
+      .select('party_id')
+      .eq('document_id', documentId)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to find document party: ${error.message}`);
+    }
+
+    return data?.party_id ?? null;
+  }
+}
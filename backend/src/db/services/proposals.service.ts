@@ -0,0 +1,268 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import type { ExtractedProposal } from '../../ingest/components/ProposalExtractor.js';
+
+/**
+ * Proposal extracted from a government plan
+ */
+export interface Proposal {
+  id: string;
+  document_id: string;
+  party_id: string;
+  title: string;
+  topic: string;
+  description: string;
+  target_population: string | null;
+  quantitative_targets: string[];
+  funding_source: string | null;
+  page_start: number | null;
+  page_end: number | null;
+  position: number;
+  content_version: string | null;
+  created_at: string;
+  documents?: {
+    document_id: string;
+    title: string;
+    party_name: string;
+  };
+}
+
+export interface ProposalWithChunks extends Proposal {
+  chunks: Array<{
+    id: string;
+    chunk_index: number;
+    content: string;
+  }>;
+}
+
+export interface ListProposalsOptions {
+  topic?: string;
+  partyKeys?: string[]; // documents.party_id values of the party (UUID and/or abbreviation)
+  search?: string; // Matched against title and description
+  withTargets?: boolean; // Only proposals with quantitative targets
+  limit?: number;
+  offset?: number;
+}
+
+export interface ProposalTopicCount {
+  topic: string;
+  proposals: number;
+  withTargets: number;
+  withFunding: number;
+}
+
+const INSERT_BATCH_SIZE = 200;
+const READ_PAGE_SIZE = 1000;
+
+/**
+ * Repository for the structured proposals extracted at ingestion time
+ */
+export class ProposalsService {
+  constructor(private readonly supabase: SupabaseClient) {}
+
+  /**
+   * Replace the proposals of a document and link them to its chunks
+   * @param documentId - documents.document_id (e.g. "fa-2026")
+   * @returns Number of stored proposals
+   */
+  async replaceForDocument(
+    documentId: string,
+    proposals: ExtractedProposal[],
+    contentVersion: string | null
+  ): Promise<number> {
+    const { data: document, error: documentError } = await this.supabase
+      .from('documents')
+      .select('id, party_id')
+      .eq('document_id', documentId)
+      .maybeSingle();
+
+    if (documentError) {
+      throw new Error(`Failed to load document ${documentId}: ${documentError.message}`);
+    }
+    if (!document) {
+      throw new Error(`Document ${documentId} not found`);
+    }
+
+    const { error: deleteError } = await this.supabase
+      .from('proposals')
+      .delete()
+      .eq('document_id', document.id);
+
+    if (deleteError) {
+      throw new Error(`Failed to delete proposals of ${documentId}: ${deleteError.message}`);
+    }
+
+    if (proposals.length === 0) {
+      return 0;
+    }
+
+    const chunkIds = await this.getChunkIds(documentId, document.id);
+
+    for (let start = 0; start < proposals.length; start += INSERT_BATCH_SIZE) {
+      const batch = proposals.slice(start, start + INSERT_BATCH_SIZE);
+
+      const { data: inserted, error: insertError } = await this.supabase
+        .from('proposals')
+        .insert(batch.map((proposal, i) => ({
+          document_id: document.id,
+          party_id: document.party_id,
+          title: proposal.title,
+          topic: proposal.topic,
+          description: proposal.description,
+          target_population: proposal.targetPopulation,
+          quantitative_targets: proposal.quantitativeTargets,
+          funding_source: proposal.fundingSource,
+          page_start: proposal.pageRange?.start ?? null,
+          page_end: proposal.pageRange?.end ?? null,
+          position: start + i,
+          content_version: contentVersion,
+        })))
+        .select('id, position');
+
+      if (insertError) {
+        throw new Error(`Failed to store proposals of ${documentId}: ${insertError.message}`);
+      }
+
+      const links = (inserted || []).flatMap(row =>
+        proposals[row.position].chunkIndexes
+          .filter(chunkIndex => chunkIds.has(chunkIndex))
+          .map(chunkIndex => ({ proposal_id: row.id, chunk_id: chunkIds.get(chunkIndex) }))
+      );
+
+      if (links.length > 0) {
+        const { error: linkError } = await this.supabase
+          .from('proposal_chunks')
+          .insert(links);
+
+        if (linkError) {
+          throw new Error(`Failed to link proposals of ${documentId} to chunks: ${linkError.message}`);
+        }
+      }
+    }
+
+    return proposals.length;
+  }
+
+  /**
+   * List proposals in plan order
+   */
+  async list(options: ListProposalsOptions = {}): Promise<{ proposals: Proposal[]; total: number }> {
+    const limit = options.limit ?? 50;
+    const offset = options.offset ?? 0;
+
+    let query = this.supabase
+      .from('proposals')
+      .select('*, documents(document_id, title, party_name)', { count: 'exact' })
+      .order('party_id', { ascending: true })
+      .order('position', { ascending: true })
+      .range(offset, offset + limit - 1);
+
+    if (options.topic) {
+      query = query.eq('topic', options.topic);
+    }
+    if (options.partyKeys) {
+      query = query.in('party_id', options.partyKeys);
+    }
+    if (options.search) {
+      // Commas and parentheses would break the or() filter syntax
+      const term = options.search.replace(/[,()%]/g, ' ').trim();
+      query = query.or(`title.ilike.%${term}%,description.ilike.%${term}%`);
+    }
+    if (options.withTargets) {
+      query = query.neq('quantitative_targets', '{}');
+    }
+
+    const { data, error, count } = await query;
+
+    if (error) {
+      throw new Error(`Failed to list proposals: ${error.message}`);
+    }
+
+    return { proposals: (data || []) as Proposal[], total: count || 0 };
+  }
+
+  /**
+   * Get a proposal with the chunks it was extracted from
+   */
+  async findById(id: string): Promise<ProposalWithChunks | null> {
+    const { data, error } = await this.supabase
+      .from('proposals')
+      .select('*, documents(document_id, title, party_name), proposal_chunks(chunks(id, chunk_index, content))')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to get proposal: ${error.message}`);
+    }
+    if (!data) {
+      return null;
+    }
+
+    const { proposal_chunks: links, ...proposal } = data as any;
+    return {
+      ...proposal,
+      chunks: (links || [])
+        .map((link: any) => link.chunks)
+        .filter(Boolean)
+        .sort((a: any, b: any) => a.chunk_index - b.chunk_index),
+    };
+  }
+
+  /**
+   * Number of proposals per topic, optionally for one party
+   */
+  async countByTopic(partyKeys?: string[]): Promise<ProposalTopicCount[]> {
+    let query = this.supabase
+      .from('proposals')
+      .select('topic, quantitative_targets, funding_source');
+
+    if (partyKeys) {
+      query = query.in('party_id', partyKeys);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      throw new Error(`Failed to count proposals: ${error.message}`);
+    }
+
+    const counts = new Map<string, ProposalTopicCount>();
+    for (const row of data || []) {
+      const count = counts.get(row.topic) || { topic: row.topic, proposals: 0, withTargets: 0, withFunding: 0 };
+      count.proposals++;
+      if (row.quantitative_targets?.length > 0) count.withTargets++;
+      if (row.funding_source) count.withFunding++;
+      counts.set(row.topic, count);
+    }
+
+    return [...counts.values()].sort((a, b) => b.proposals - a.proposals);
+  }
+
+  /**
+   * Chunk ids of a document by chunk index
+   * Read in pages: plans can have more chunks than one PostgREST response returns
+   */
+  private async getChunkIds(documentId: string, documentUuid: string): Promise<Map<number, string>> {
+    const chunkIds = new Map<number, string>();
+
+    for (let from = 0; ; from += READ_PAGE_SIZE) {
+      const { data, error } = await this.supabase
+        .from('chunks')
+        .select('id, chunk_index')
+        .eq('document_id', documentUuid)
+        .order('chunk_index', { ascending: true })
+        .range(from, from + READ_PAGE_SIZE - 1);
+
+      if (error) {
+        throw new Error(`Failed to load chunks of ${documentId}: ${error.message}`);
+      }
+
+      for (const chunk of data || []) {
+        chunkIds.set(chunk.chunk_index, chunk.id);
+      }
+
+      if (!data || data.length < READ_PAGE_SIZE) {
+        return chunkIds;
+      }
+    }
+  }
+}
@@ -0,0 +1,210 @@
+import type { IEmbeddingProvider, ILLMProvider, IVectorStore } from '@ticobot/shared';
+import { env } from '../config/env.js';
+import { ProviderFactory } from './ProviderFactory.js';
+import { FallbackLLMProvider } from '../providers/llm/FallbackLLMProvider.js';
+import type { CircuitState } from '../providers/llm/CircuitBreaker.js';
+import {
+  checkEmbeddingDimension,
+  describeDimensionMismatch,
+  hasEmbeddingDimension,
+} from '../providers/embedding/embeddingDimension.js';
+
+export type ProviderKind = 'llm' | 'embedding' | 'vectorStore';
+
+/**
+ * Active providers as configured, with the error of the ones that cannot be created
+ */
+export interface ProvidersReport {
+  llm: {
+    provider: string;
+    fallbackChain: string[] | null;
+    model: string | null;
+    contextWindow: number | null;
+    supportsFunctionCalling: boolean | null;
+    circuits: Record<string, CircuitState> | null; // Fallback chain only
+    error?: string;
+  };
+  embedding: {
+    provider: string;
+    model: string | null;
+    dimension: number | null;
+    maxInputLength: number | null;
+    error?: string;
+  };
+  vectorStore: {
+    provider: string;
+    storedDimension: number | null; // Dimension of the stored embeddings (null when empty or unknown)
+    columnDimension: number | null; // Dimension declared by the embedding column (null when unconstrained or unknown)
+    error?: string;
+  };
+}
+
+export interface ProviderHealthCheck {
+  provider: ProviderKind;
+  status: 'ok' | 'error';
+  latencyMs: number;
+  detail?: string;
+  error?: string;
+}
+
+export interface ProviderHealthOptions {
+  timeoutMs?: number; // Per check (default: 20 seconds)
+  includeLLM?: boolean; // The LLM check spends a few tokens (default: true)
+}
+
+/**
+ * Describe the providers selected by the environment
+ */
+export async function describeProviders(): Promise<ProvidersReport> {
+  const fallbackChain = env.LLM_FALLBACK_CHAIN
+    ? env.LLM_FALLBACK_CHAIN.split(',').map((name) => name.trim().toLowerCase()).filter(Boolean)
+    : null;
+
+  const report: ProvidersReport = {
+    llm: {
+      provider: fallbackChain ? 'fallback' : env.LLM_PROVIDER,
+      fallbackChain,
+      model: null,
+      contextWindow: null,
+      supportsFunctionCalling: null,
+      circuits: null,
+    },
+    embedding: {
+      provider: env.EMBEDDING_PROVIDER,
+      model: null,
+      dimension: null,
+      maxInputLength: null,
+    },
+    vectorStore: {
+      provider: env.VECTOR_STORE,
+      storedDimension: null,
+      columnDimension: null,
+    },
+  };
+
+  try {
+    const llm = await ProviderFactory.getLLMProvider();
+    report.llm.model = llm.getModelName();
+    report.llm.contextWindow = llm.getContextWindow();
+    report.llm.supportsFunctionCalling = llm.supportsFunctionCalling();
+    if (llm instanceof FallbackLLMProvider) {
+      report.llm.circuits = llm.getCircuitStates();
+    }
+  } catch (error) {
+    report.llm.error = errorMessage(error);
+  }
+
+  try {
+    const embedding = await ProviderFactory.getEmbeddingProvider();
+    report.embedding.model = embedding.getModelName();
+    report.embedding.dimension = embedding.getDimension();
+    report.embedding.maxInputLength = embedding.getMaxInputLength();
+  } catch (error) {
+    report.embedding.error = errorMessage(error);
+  }
+
+  try {
+    const vectorStore = await ProviderFactory.getVectorStore();
+    if (hasEmbeddingDimension(vectorStore)) {
+      report.vectorStore.storedDimension = await vectorStore.getEmbeddingDimension();
+      report.vectorStore.columnDimension = vectorStore.getColumnDimension
+        ? await vectorStore.getColumnDimension()
+        : null;
+    }
+  } catch (error) {
+    report.vectorStore.error = errorMessage(error);
+  }
+
+  return report;
+}
+
+/**
+ * Run a small real request against every provider
+ * The embedding and vector store checks also verify that the stored
+ * embeddings have the dimension of the configured embedding model
+ */
+export async function checkProviderHealth(options: ProviderHealthOptions = {}): Promise<ProviderHealthCheck[]> {
+  const timeoutMs = options.timeoutMs ?? 20000;
+  const checks: Array<Promise<ProviderHealthCheck>> = [
+    runCheck('embedding', timeoutMs, async () => {
+      const embedding = await ProviderFactory.getEmbeddingProvider();
+      return checkEmbedding(embedding);
+    }),
+    runCheck('vectorStore', timeoutMs, async () => {
+      const [vectorStore, embedding] = await Promise.all([
+        ProviderFactory.getVectorStore(),
+        ProviderFactory.getEmbeddingProvider().catch(() => null),
+      ]);
+      return checkVectorStore(vectorStore, embedding);
+    }),
+  ];
+
+  if (options.includeLLM !== false) {
+    checks.push(runCheck('llm', timeoutMs, async () => {
+      const llm = await ProviderFactory.getLLMProvider();
+      return checkLLM(llm);
+    }));
+  }
+
+  return Promise.all(checks);
+}
+
+async function checkEmbedding(embedding: IEmbeddingProvider): Promise<string> {
+  const { embedding: vector } = await embedding.generateEmbedding('Plan de gobierno');
+
+  if (vector.length !== embedding.getDimension()) {
+    throw new Error(`${embedding.getModelName()} returned ${vector.length} dimensions, expected ${embedding.getDimension()}`);
+  }
+
+  return `${embedding.getModelName()}: ${vector.length} dimensions`;
+}
+
+async function checkVectorStore(vectorStore: IVectorStore, embedding: IEmbeddingProvider | null): Promise<string> {
+  const count = await vectorStore.count();
+
+  if (embedding && hasEmbeddingDimension(vectorStore)) {
+    const mismatch = describeDimensionMismatch(await checkEmbeddingDimension(embedding, vectorStore));
+    if (mismatch) {
+      throw new Error(mismatch.charAt(0).toUpperCase() + mismatch.slice(1));
+    }
+  }
+
+  return `${count} chunks`;
+}
+
+async function checkLLM(llm: ILLMProvider): Promise<string> {
+  const response = await llm.generateCompletion(
+    [{ role: 'user', content: 'Responde únicamente "ok".' }],
+    { maxTokens: 5, temperature: 0 }
+  );
+
+  return `${response.model || llm.getModelName()}: "${response.content.trim()}"`;
+}
+
+async function runCheck(
+  provider: ProviderKind,
+  timeoutMs: number,
+  check: () => Promise<string>
+): Promise<ProviderHealthCheck> {
+  const start = Date.now();
+  let timer: NodeJS.Timeout | undefined;
+
+  try {
+    const detail = await Promise.race([
+      check(),
+      new Promise<never>((_, reject) => {
+        timer = setTimeout(() => reject(new Error(`Timed out after ${timeoutMs}ms`)), timeoutMs);
+      }),
+    ]);
+    return { provider, status: 'ok', latencyMs: Date.now() - start, detail };
+  } catch (error) {
+    return { provider, status: 'error', latencyMs: Date.now() - start, error: errorMessage(error) };
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
@@ -1,11 +1,14 @@
-import type {
-  IEmbeddingProvider,
-  IVectorStore,
-  ILLMProvider,
-  IDatabaseProvider,
+import {
+  Logger,
+  type IEmbeddingProvider,
+  type IVectorStore,
+  type ILLMProvider,
+  type IDatabaseProvider,
 } from '@ticobot/shared';
 import { env } from '../config/env.js';
 
+const logger = new Logger('ProviderFactory');
+
 /**
  * Provider Factory using Factory Pattern
  * Instantiates providers based on environment configuration
@@ -31,6 +34,11 @@ export class ProviderFactory {
         this.embeddingProviderInstance = new OpenAIEmbeddingProvider(env);
         return this.embeddingProviderInstance;
       }
+      case 'local': {
+        const { LocalEmbeddingProvider } = await import('../providers/embedding/LocalEmbeddingProvider.js');
+        this.embeddingProviderInstance = new LocalEmbeddingProvider(env);
+        return this.embeddingProviderInstance;
+      }
       case 'cohere':
         throw new Error('Cohere embedding provider not yet implemented');
       case 'huggingface':
@@ -54,6 +62,11 @@ export class ProviderFactory {
         this.vectorStoreInstance = new SupabaseVectorStore(env);
         return this.vectorStoreInstance;
       }
+      case 'memory': {
+        const { MemoryVectorStore } = await import('../providers/vector/MemoryVectorStore.js');
+        this.vectorStoreInstance = new MemoryVectorStore({ snapshotPath: env.VECTOR_STORE_PATH });
+        return this.vectorStoreInstance;
+      }
       case 'pinecone':
         throw new Error('Pinecone vector store not yet implemented');
       case 'qdrant':
@@ -67,40 +80,85 @@ export class ProviderFactory {
 
   /**
    * Get LLM provider based on configuration
+   * With LLM_FALLBACK_CHAIN the providers are wrapped in a fallback chain
    */
   static async getLLMProvider(): Promise<ILLMProvider> {
     if (this.llmProviderInstance) {
       return this.llmProviderInstance;
     }
 
-    switch (env.LLM_PROVIDER) {
+    if (env.LLM_FALLBACK_CHAIN) {
+      this.llmProviderInstance = await this.createFallbackLLMProvider(env.LLM_FALLBACK_CHAIN);
+      return this.llmProviderInstance;
+    }
+
+    this.llmProviderInstance = await this.createLLMProvider(env.LLM_PROVIDER);
+    return this.llmProviderInstance;
+  }
+
+  /**
+   * Instantiate a single LLM provider by name
+   */
+  private static async createLLMProvider(name: string): Promise<ILLMProvider> {
+    switch (name) {
       case 'openai': {
         const { OpenAILLMProvider } = await import('../providers/llm/OpenAILLMProvider.js');
-        this.llmProviderInstance = new OpenAILLMProvider(env);
-        return this.llmProviderInstance;
+        return new OpenAILLMProvider(env);
       }
       case 'deepseek': {
         const { DeepSeekLLMProvider } = await import('../providers/llm/DeepSeekLLMProvider.js');
-        this.llmProviderInstance = new DeepSeekLLMProvider(env);
-        return this.llmProviderInstance;
+        return new DeepSeekLLMProvider(env);
+      }
+      case 'anthropic': {
+        const { AnthropicLLMProvider } = await import('../providers/llm/AnthropicLLMProvider.js');
+        return new AnthropicLLMProvider(env);
+      }
+      case 'google': {
+        const { GoogleLLMProvider } = await import('../providers/llm/GoogleLLMProvider.js');
+        return new GoogleLLMProvider(env);
       }
-      case 'anthropic':
-        throw new Error('Anthropic LLM provider not yet implemented');
-      case 'google':
-        throw new Error('Google LLM provider not yet implemented');
       case 'ollama': {
         const { OllamaLLMProvider } = await import('../providers/llm/OllamaLLMProvider.js');
-        this.llmProviderInstance = new OllamaLLMProvider(env);
-        return this.llmProviderInstance;
+        return new OllamaLLMProvider(env);
       }
       case 'groq': {
         const { GroqLLMProvider } = await import('../providers/llm/GroqLLMProvider.js');
-        this.llmProviderInstance = new GroqLLMProvider(env);
-        return this.llmProviderInstance;
+        return new GroqLLMProvider(env);
       }
       default:
-        throw new Error(`Unknown LLM provider: ${env.LLM_PROVIDER}`);
+        throw new Error(`Unknown LLM provider: ${name}`);
+    }
+  }
+
+  /**
+   * Build the fallback chain from a comma-separated list of provider names
+   * Providers that cannot be created (e.g. missing API key) are left out
+   */
+  private static async createFallbackLLMProvider(chain: string): Promise<ILLMProvider> {
+    const { FallbackLLMProvider } = await import('../providers/llm/FallbackLLMProvider.js');
+    const names = chain.split(',').map((name) => name.trim().toLowerCase()).filter(Boolean);
+    const providers = [];
+
+    for (const name of names) {
+      try {
+        providers.push({ name, provider: await this.createLLMProvider(name) });
+      } catch (error) {
+        logger.warn(
+          `Skipping LLM provider "${name}" in fallback chain: ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
     }
+
+    if (providers.length === 0) {
+      throw new Error(`No LLM provider in LLM_FALLBACK_CHAIN could be created: ${chain}`);
+    }
+
+    return new FallbackLLMProvider(providers, {
+      maxRetries: env.LLM_MAX_RETRIES,
+      retryDelayMs: env.LLM_RETRY_DELAY_MS,
+      failureThreshold: env.LLM_CIRCUIT_FAILURE_THRESHOLD,
+      resetTimeoutMs: env.LLM_CIRCUIT_RESET_MS,
+    });
   }
 
   /**
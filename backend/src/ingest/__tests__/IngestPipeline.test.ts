@@ -1,8 +1,35 @@
-import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import type { IEmbeddingProvider } from '@ticobot/shared';
 import { IngestPipeline } from '../components/IngestPipeline';
+import { ProviderFactory } from '../../factory/ProviderFactory.js';
+import { MemoryVectorStore } from '../../providers/vector/MemoryVectorStore.js';
+import { DocumentVersionsService } from '../../db/services/document-versions.service.js';
+import { env } from '../../config/env.js';
 import path from 'path';
 import fs from 'fs/promises';
 
+/**
+ * Embedding provider returning small vectors derived from the text length
+ */
+function createFakeEmbeddingProvider(
+    model: () => string = () => 'fake-embedding',
+    onBatch: (texts: string[]) => void = () => {}
+): IEmbeddingProvider {
+    const embed = (text: string): number[] => [text.length, 1, 0, 0];
+    const usage = { promptTokens: 0, totalTokens: 0 };
+
+    return {
+        generateEmbedding: async (text) => ({ embedding: embed(text), model: model(), usage }),
+        generateBatch: async (texts) => {
+            onBatch(texts);
+            return { embeddings: texts.map(embed), model: model(), usage };
+        },
+        getDimension: () => 4,
+        getMaxInputLength: () => 8191,
+        getModelName: model,
+    };
+}
+
 describe('IngestPipeline', () => {
     let pipeline: IngestPipeline;
     const testDownloadPath = path.join(process.cwd(), 'downloads', 'test');
@@ -100,6 +127,136 @@ describe('IngestPipeline', () => {
         }
     }, 30000);
 
+    it('should store chunks in the memory vector store', async () => {
+        const testPdfPath = path.join(
+            __dirname,
+            '../components/__tests__/example.pdf'
+        );
+        const documentId = 'pln-memory-test';
+
+        // A PDF named after the document in the download path skips the download
+        await fs.mkdir(testDownloadPath, { recursive: true });
+        await fs.copyFile(testPdfPath, path.join(testDownloadPath, `${documentId}.pdf`));
+
+        const embeddingProvider = createFakeEmbeddingProvider();
+        const store = new MemoryVectorStore();
+
+        vi.spyOn(ProviderFactory, 'getVectorStore').mockResolvedValue(store);
+        vi.spyOn(ProviderFactory, 'getEmbeddingProvider').mockResolvedValue(embeddingProvider);
+
+        try {
+            const result = await pipeline.ingest('file://' + testPdfPath, documentId, {
+                downloadPath: testDownloadPath,
+                generateEmbeddings: false,
+                storeInVectorDB: true
+            });
+
+            expect(result.success).toBe(true);
+            expect(await store.count()).toBe(result.chunks!.length);
+            expect(await store.getEmbeddingDimension()).toBe(4);
+
+            // Stored without a party record: the abbreviation is used as party filter
+            const results = await store.hybridSearch([1, 1, 0, 0], 'plan', 3, { partyId: 'PLN', minScore: 0 });
+            expect(results.length).toBeGreaterThan(0);
+            expect(results[0].document.metadata.documentId).toBe(documentId);
+        } finally {
+            vi.restoreAllMocks();
+        }
+    }, 30000);
+
+    it('should only re-embed changed chunks when re-ingesting', async () => {
+        const testPdfPath = path.join(
+            __dirname,
+            '../components/__tests__/example.pdf'
+        );
+        const documentId = 'pln-reingest-test';
+
+        await fs.mkdir(testDownloadPath, { recursive: true });
+        await fs.copyFile(testPdfPath, path.join(testDownloadPath, `${documentId}.pdf`));
+
+        let embeddedTexts = 0;
+        let model = 'fake-embedding';
+        const embeddingProvider = createFakeEmbeddingProvider(
+            () => model,
+            texts => { embeddedTexts += texts.length; }
+        );
+        const store = new MemoryVectorStore();
+
+        vi.spyOn(ProviderFactory, 'getVectorStore').mockResolvedValue(store);
+        vi.spyOn(ProviderFactory, 'getEmbeddingProvider').mockResolvedValue(embeddingProvider);
+
+        try {
+            const options = { downloadPath: testDownloadPath, storeInVectorDB: true, updateMatrix: false };
+            const first = await pipeline.ingest('file://' + testPdfPath, documentId, options);
+            const chunkCount = first.chunks!.length;
+            expect(first.diff).toMatchObject({ previousChunks: 0, added: chunkCount, embedded: chunkCount });
+            expect(embeddedTexts).toBe(chunkCount);
+
+            // Same PDF: nothing is parsed or embedded again
+            const unchanged = await pipeline.ingest('file://' + testPdfPath, documentId, options);
+            expect(unchanged.success).toBe(true);
+            expect(unchanged.diff).toMatchObject({ sourceChanged: false, unchanged: chunkCount });
+            expect(embeddedTexts).toBe(chunkCount);
+
+            // Forced: the chunks are identical, so every embedding is kept
+            const forced = await pipeline.ingest('file://' + testPdfPath, documentId, { ...options, force: true });
+            expect(forced.diff).toMatchObject({ sourceChanged: true, unchanged: chunkCount, added: 0, removed: 0, embedded: 0 });
+            expect(embeddedTexts).toBe(chunkCount);
+            expect(await store.count()).toBe(chunkCount);
+
+            // Interrupted while storing: the same PDF is processed again on the next run
+            vi.spyOn(store, 'deleteChunksFrom').mockRejectedValueOnce(new Error('connection reset'));
+            const interrupted = await pipeline.ingest('file://' + testPdfPath, documentId, { ...options, force: true });
+            expect(interrupted.success).toBe(false);
+            const resumed = await pipeline.ingest('file://' + testPdfPath, documentId, options);
+            expect(resumed.diff).toMatchObject({ sourceChanged: true, embedded: 0 });
+
+            // Another embedding model: every chunk is embedded again
+            model = 'fake-embedding-v2';
+            const reembedded = await pipeline.ingest('file://' + testPdfPath, documentId, options);
+            expect(reembedded.diff).toMatchObject({ sourceChanged: true, unchanged: chunkCount, embedded: chunkCount });
+            expect(embeddedTexts).toBe(2 * chunkCount);
+        } finally {
+            vi.restoreAllMocks();
+        }
+    }, 30000);
+
+    it('should process an unchanged PDF again while its version is missing from the history', async () => {
+        const testPdfPath = path.join(
+            __dirname,
+            '../components/__tests__/example.pdf'
+        );
+        const documentId = 'pln-history-test';
+
+        await fs.mkdir(testDownloadPath, { recursive: true });
+        await fs.copyFile(testPdfPath, path.join(testDownloadPath, `${documentId}.pdf`));
+
+        const embeddingProvider = createFakeEmbeddingProvider();
+
+        vi.spyOn(ProviderFactory, 'getVectorStore').mockResolvedValue(new MemoryVectorStore());
+        vi.spyOn(ProviderFactory, 'getEmbeddingProvider').mockResolvedValue(embeddingProvider);
+
+        // The version history lives in Supabase: recording the version fails
+        const { SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY } = env;
+        Object.assign(env, { SUPABASE_URL: 'http://localhost:54321', SUPABASE_SERVICE_ROLE_KEY: 'test-key' });
+        const recordVersion = vi.spyOn(DocumentVersionsService.prototype, 'recordVersion')
+            .mockRejectedValue(new Error('connection reset'));
+        vi.spyOn(DocumentVersionsService.prototype, 'getLatestSourceHash').mockResolvedValue(null);
+
+        try {
+            const options = { downloadPath: testDownloadPath, storeInVectorDB: true, updateMatrix: false };
+            const first = await pipeline.ingest('file://' + testPdfPath, documentId, options);
+            expect(first.success).toBe(true);
+
+            const second = await pipeline.ingest('file://' + testPdfPath, documentId, options);
+            expect(second.diff).toMatchObject({ sourceChanged: true, embedded: 0 });
+            expect(recordVersion).toHaveBeenCalledTimes(2);
+        } finally {
+            Object.assign(env, { SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY });
+            vi.restoreAllMocks();
+        }
+    }, 30000);
+
     it('should handle batch ingestion', async () => {
         // Using real TSE government plan PDFs
         const documents = [
@@ -0,0 +1,286 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { Logger, type IEmbeddingProvider } from '@ticobot/shared';
+import { isRetryableError, getBackoffDelay, sleep } from '../../providers/retry.js';
+import { computeContentVersion, type TextChunk } from './TextChunker.js';
+
+export interface BatchEmbedderOptions {
+    maxBatchTokens?: number;   // Token budget per embedding request (default: 20000)
+    maxBatchSize?: number;     // Maximum chunks per embedding request (default: 100)
+    concurrency?: number;      // Embedding requests in flight (default: 3)
+    maxRetries?: number;       // Retries of a batch on rate limits and transient errors (default: 5)
+    retryDelayMs?: number;     // Base backoff delay, doubled on every retry (default: 1000)
+}
+
+export interface EmbedChunksOptions {
+    checkpointPath?: string;   // Append-only progress file used to resume an interrupted run
+    onProgress?: (progress: EmbeddingProgress) => void;
+    signal?: AbortSignal;      // Stops sending batches; embedded chunks stay in the checkpoint
+}
+
+export interface EmbeddingProgress {
+    embedded: number;          // Chunks with an embedding so far
+    total: number;
+    resumed: number;           // Chunks restored from the checkpoint
+}
+
+/**
+ * First line of a checkpoint file; embeddings are only reused when the
+ * chunks and the model are unchanged
+ */
+interface CheckpointHeader {
+    version: 1;
+    model: string;
+    contentHash: string;
+}
+
+interface CheckpointEntry {
+    chunkIndex: number;
+    embedding: number[];
+}
+
+const CHECKPOINT_VERSION = 1;
+
+/**
+ * Batch Embedder
+ * Embeds chunks through IEmbeddingProvider.generateBatch with token-budgeted
+ * batches, a bounded pool of concurrent requests and exponential backoff on
+ * rate limits. Finished batches are appended to a checkpoint file so an
+ * interrupted ingestion resumes where it stopped.
+ */
+export class BatchEmbedder {
+    private provider: IEmbeddingProvider;
+    private maxBatchTokens: number;
+    private maxBatchSize: number;
+    private concurrency: number;
+    private maxRetries: number;
+    private retryDelayMs: number;
+    private logger: Logger;
+
+    constructor(provider: IEmbeddingProvider, options: BatchEmbedderOptions = {}) {
+        this.provider = provider;
+        this.maxBatchTokens = options.maxBatchTokens ?? 20000;
+        this.maxBatchSize = options.maxBatchSize ?? 100;
+        this.concurrency = Math.max(1, options.concurrency ?? 3);
+        this.maxRetries = options.maxRetries ?? 5;
+        this.retryDelayMs = options.retryDelayMs ?? 1000;
+        this.logger = new Logger('BatchEmbedder');
+    }
+
+    /**
+     * Generate embeddings for chunks
+     * @param chunks - Chunks to embed
+     * @param options - Checkpoint and progress options
+     * @returns Embeddings in the same order as the chunks
+     */
+    async embedChunks(
+        chunks: TextChunk[],
+        options: EmbedChunksOptions = {}
+    ): Promise<number[][]> {
+        const { checkpointPath, onProgress, signal } = options;
+        const embeddings = new Map<number, number[]>();
+
+        if (checkpointPath) {
+            const restored = await this.readCheckpoint(checkpointPath, chunks);
+            restored.forEach((embedding, chunkIndex) => embeddings.set(chunkIndex, embedding));
+            if (restored.size > 0) {
+                this.logger.info(`Resuming from checkpoint: ${restored.size}/${chunks.length} chunks already embedded`);
+            }
+        }
+
+        const resumed = embeddings.size;
+        const pending = chunks.filter(chunk => !embeddings.has(chunk.chunkIndex));
+        const batches = createTokenBatches(pending, this.maxBatchTokens, this.maxBatchSize);
+
+        this.logger.info(
+            `Embedding ${pending.length} chunks in ${batches.length} batches ` +
+            `(concurrency: ${this.concurrency})`
+        );
+
+        // Checkpoint appends are chained so lines never interleave
+        let checkpointWrite = Promise.resolve();
+        let nextBatch = 0;
+        let failed = false;
+
+        const worker = async () => {
+            while (!failed && !signal?.aborted && nextBatch < batches.length) {
+                const batch = batches[nextBatch++];
+
+                try {
+                    const vectors = await this.embedBatch(batch);
+                    batch.forEach((chunk, i) => embeddings.set(chunk.chunkIndex, vectors[i]));
+
+                    if (checkpointPath) {
+                        checkpointWrite = checkpointWrite.then(() =>
+                            appendLines(checkpointPath, batch.map((chunk, i) => ({
+                                chunkIndex: chunk.chunkIndex,
+                                embedding: vectors[i],
+                            })))
+                        );
+                        await checkpointWrite;
+                    }
+
+                    onProgress?.({ embedded: embeddings.size, total: chunks.length, resumed });
+                } catch (error) {
+                    failed = true;
+                    throw error;
+                }
+            }
+        };
+
+        if (checkpointPath) {
+            await this.startCheckpoint(checkpointPath, chunks, embeddings);
+        }
+
+        const results = await Promise.allSettled(
+            Array.from({ length: Math.min(this.concurrency, batches.length) }, worker)
+        );
+        const rejected = results.find(
+            (result): result is PromiseRejectedResult => result.status === 'rejected'
+        );
+        if (rejected) {
+            throw rejected.reason;
+        }
+        if (signal?.aborted) {
+            throw new Error(`Embedding aborted after ${embeddings.size}/${chunks.length} chunks`);
+        }
+
+        return chunks.map(chunk => embeddings.get(chunk.chunkIndex)!);
+    }
+
+    /**
+     * Embed one batch, retrying rate limits and transient errors with backoff
+     */
+    private async embedBatch(batch: TextChunk[]): Promise<number[][]> {
+        for (let attempt = 0; ; attempt++) {
+            try {
+                const result = await this.provider.generateBatch(batch.map(chunk => chunk.content));
+
+                if (result.embeddings.length !== batch.length) {
+                    throw new Error(
+                        `Embedding provider returned ${result.embeddings.length} embeddings for ${batch.length} chunks`
+                    );
+                }
+
+                return result.embeddings;
+            } catch (error) {
+                if (!isRetryableError(error) || attempt >= this.maxRetries) {
+                    throw error;
+                }
+
+                const delay = getBackoffDelay(attempt, this.retryDelayMs);
+                this.logger.warn(
+                    `Embedding batch failed (attempt ${attempt + 1}), retrying in ${delay}ms: ` +
+                    `${error instanceof Error ? error.message : String(error)}`
+                );
+                await sleep(delay);
+            }
+        }
+    }
+
+    /**
+     * Load embeddings saved by a previous run
+     * A checkpoint for other chunks or another model is ignored
+     */
+    private async readCheckpoint(
+        checkpointPath: string,
+        chunks: TextChunk[]
+    ): Promise<Map<number, number[]>> {
+        const restored = new Map<number, number[]>();
+
+        let content: string;
+        try {
+            content = await fs.readFile(checkpointPath, 'utf-8');
+        } catch {
+            return restored;
+        }
+
+        const [headerLine, ...lines] = content.split('\n');
+        try {
+            const header = JSON.parse(headerLine) as CheckpointHeader;
+            if (
+                header.version !== CHECKPOINT_VERSION ||
+                header.model !== this.provider.getModelName() ||
+                header.contentHash !== computeContentVersion(chunks)
+            ) {
+                this.logger.info('Discarding stale embedding checkpoint');
+                return restored;
+            }
+        } catch {
+            return restored;
+        }
+
+        const chunkIndices = new Set(chunks.map(chunk => chunk.chunkIndex));
+        for (const line of lines) {
+            try {
+                const entry = JSON.parse(line) as CheckpointEntry;
+                if (chunkIndices.has(entry.chunkIndex) && Array.isArray(entry.embedding)) {
+                    restored.set(entry.chunkIndex, entry.embedding);
+                }
+            } catch {
+                // Empty or partially written line from an interrupted run
+            }
+        }
+
+        return restored;
+    }
+
+    /**
+     * (Re)write the checkpoint with the restored embeddings, dropping any
+     * partially written line before new batches are appended
+     */
+    private async startCheckpoint(
+        checkpointPath: string,
+        chunks: TextChunk[],
+        restored: Map<number, number[]>
+    ): Promise<void> {
+        const header: CheckpointHeader = {
+            version: CHECKPOINT_VERSION,
+            model: this.provider.getModelName(),
+            contentHash: computeContentVersion(chunks),
+        };
+        const lines = [JSON.stringify(header)];
+        restored.forEach((embedding, chunkIndex) => lines.push(JSON.stringify({ chunkIndex, embedding })));
+
+        await fs.mkdir(path.dirname(checkpointPath), { recursive: true });
+        await fs.writeFile(checkpointPath, `${lines.join('\n')}\n`);
+    }
+}
+
+/**
+ * Group chunks into batches under a token budget and a size limit
+ * A chunk larger than the budget gets a batch of its own
+ */
+export function createTokenBatches(
+    chunks: TextChunk[],
+    maxBatchTokens: number,
+    maxBatchSize: number
+): TextChunk[][] {
+    const batches: TextChunk[][] = [];
+    let current: TextChunk[] = [];
+    let currentTokens = 0;
+
+    for (const chunk of chunks) {
+        if (
+            current.length > 0 &&
+            (currentTokens + chunk.tokens > maxBatchTokens || current.length >= maxBatchSize)
+        ) {
+            batches.push(current);
+            current = [];
+            currentTokens = 0;
+        }
+
+        current.push(chunk);
+        currentTokens += chunk.tokens;
+    }
+
+    if (current.length > 0) {
+        batches.push(current);
+    }
+
+    return batches;
+}
+
+async function appendLines(filePath: string, entries: CheckpointEntry[]): Promise<void> {
+    await fs.appendFile(filePath, entries.map(entry => `${JSON.stringify(entry)}\n`).join(''));
+}
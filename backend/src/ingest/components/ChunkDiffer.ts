@@ -0,0 +1,190 @@
+import { createHash } from 'crypto';
+import fs from 'fs/promises';
+import type { TextChunk } from './TextChunker.js';
+import type {
+    StoredChunkFingerprint,
+    StoredDocumentFingerprint,
+} from '../../providers/vector/chunkFingerprints.js';
+
+export interface PageRange {
+    start: number;
+    end: number;
+}
+
+/**
+ * Changes between the stored and the re-ingested version of a document
+ */
+export interface ChunkDiffReport {
+    sourceChanged: boolean; // False when the PDF is byte-identical and nothing was re-processed
+    previousChunks: number;
+    currentChunks: number;
+    added: number;
+    removed: number;
+    modified: number;
+    unchanged: number;
+    embedded: number; // Chunks sent to the embedding provider (the others reuse a stored embedding)
+    pages: {
+        added: PageRange[];
+        removed: PageRange[];
+        modified: PageRange[];
+    };
+}
+
+/**
+ * Row to write at a chunk index, with the stored chunk whose embedding it can reuse
+ */
+export interface ChunkWrite {
+    chunk: TextChunk;
+    reuseChunkId?: string;
+}
+
+export interface ChunkDiffOptions {
+    reuseEmbeddings?: boolean; // False when the stored embeddings come from another model (default: true)
+}
+
+export interface ChunkDiff {
+    report: ChunkDiffReport;
+    writes: ChunkWrite[]; // Indexes whose stored content differs (or is missing)
+    removeFrom: number; // Stored rows at this index and above no longer exist
+}
+
+/**
+ * Fingerprint of the cleaned content of a chunk
+ */
+export function fingerprintChunk(content: string): string {
+    return createHash('sha256').update(content).digest('hex');
+}
+
+/**
+ * Fingerprint of a source file
+ */
+export async function fingerprintFile(filePath: string): Promise<string> {
+    const content = await fs.readFile(filePath);
+    return createHash('sha256').update(content).digest('hex');
+}
+
+/**
+ * Compare freshly chunked content with the stored chunks of the document
+ *
+ * Rows are keyed by chunk index, so every index whose content changed is
+ * rewritten. A chunk whose content is stored under any index (e.g. it moved
+ * after an insertion earlier in the plan) reuses that embedding, so only
+ * genuinely new text is embedded again.
+ *
+ * The report compares contents: chunks found in both versions are unchanged,
+ * a new chunk replacing an old one at the same index is modified, and the
+ * remaining ones were added or removed.
+ *
+ * Without reusable embeddings every chunk is rewritten and embedded again.
+ */
+export function diffChunks(
+    stored: StoredChunkFingerprint[],
+    chunks: TextChunk[],
+    options: ChunkDiffOptions = {}
+): ChunkDiff {
+    const reuseEmbeddings = options.reuseEmbeddings ?? true;
+    const storedByIndex = new Map(stored.map(chunk => [chunk.chunkIndex, chunk]));
+    const storedByHash = new Map<string, StoredChunkFingerprint>();
+    for (const chunk of stored) {
+        if (!storedByHash.has(chunk.contentHash)) {
+            storedByHash.set(chunk.contentHash, chunk);
+        }
+    }
+
+    const hashes = chunks.map(chunk => fingerprintChunk(chunk.content));
+    const currentHashes = new Set(hashes);
+
+    const writes: ChunkWrite[] = [];
+    const added: TextChunk[] = [];
+    const modified: TextChunk[] = [];
+    const replaced = new Set<string>();
+    let unchanged = 0;
+
+    chunks.forEach((chunk, i) => {
+        const hash = hashes[i];
+        const atIndex = storedByIndex.get(chunk.chunkIndex);
+        const reused = storedByHash.get(hash);
+
+        if (!reuseEmbeddings) {
+            writes.push({ chunk });
+        } else if (atIndex?.contentHash !== hash) {
+            writes.push({ chunk, reuseChunkId: reused?.id });
+        }
+
+        if (reused) {
+            unchanged++;
+        } else if (atIndex && !currentHashes.has(atIndex.contentHash) && !replaced.has(atIndex.id)) {
+            replaced.add(atIndex.id);
+            modified.push(chunk);
+        } else {
+            added.push(chunk);
+        }
+    });
+
+    const removed = stored.filter(chunk => !currentHashes.has(chunk.contentHash) && !replaced.has(chunk.id));
+
+    return {
+        report: {
+            sourceChanged: true,
+            previousChunks: stored.length,
+            currentChunks: chunks.length,
+            added: added.length,
+            removed: removed.length,
+            modified: modified.length,
+            unchanged,
+            embedded: writes.filter(write => !write.reuseChunkId).length,
+            pages: {
+                added: mergePageRanges(added.map(chunkPageRange)),
+                removed: mergePageRanges(removed.map(chunk => chunk.pageRange)),
+                modified: mergePageRanges(modified.map(chunkPageRange)),
+            },
+        },
+        writes,
+        removeFrom: chunks.length,
+    };
+}
+
+/**
+ * Report for a document whose PDF did not change
+ */
+export function unchangedReport(stored: StoredDocumentFingerprint): ChunkDiffReport {
+    return {
+        sourceChanged: false,
+        previousChunks: stored.chunks.length,
+        currentChunks: stored.chunks.length,
+        added: 0,
+        removed: 0,
+        modified: 0,
+        unchanged: stored.chunks.length,
+        embedded: 0,
+        pages: { added: [], removed: [], modified: [] },
+    };
+}
+
+function chunkPageRange(chunk: TextChunk): PageRange | undefined {
+    if (chunk.pageRange) {
+        return chunk.pageRange;
+    }
+    return chunk.pageNumber !== undefined ? { start: chunk.pageNumber, end: chunk.pageNumber } : undefined;
+}
+
+/**
+ * Sort page ranges and merge the ones that overlap or touch
+ */
+export function mergePageRanges(ranges: Array<PageRange | undefined>): PageRange[] {
+    const sorted = ranges
+        .filter((range): range is PageRange => !!range)
+        .map(range => ({ ...range }))
+        .sort((a, b) => a.start - b.start || a.end - b.end);
+
+    const merged: PageRange[] = [];
+    for (const range of sorted) {
+        const last = merged[merged.length - 1];
+        if (last && range.start <= last.end + 1) {
+            last.end = Math.max(last.end, range.end);
+        } else {
+            merged.push(range);
+        }
+    }
+    return merged;
+}
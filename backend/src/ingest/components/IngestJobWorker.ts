@@ -0,0 +1,271 @@
+import { Logger } from "@ticobot/shared";
+import { IngestPipeline, type IngestResult } from "./IngestPipeline.js";
+import { createSupabaseClient } from "../../db/supabase.js";
+import {
+    IngestionJobsService,
+    type IngestionJob,
+    type IngestionJobProgress,
+    type IngestionJobResult
+} from "../../db/services/ingestion-jobs.service.js";
+
+export type IngestionJobStore = Pick<
+    IngestionJobsService,
+    "claimNext" | "heartbeat" | "saveResults" | "finish"
+>;
+
+export type IngestJobListener = (job: IngestionJob) => void;
+
+export interface IngestJobWorkerOptions {
+    pollIntervalMs?: number;      // Queue polling period (default: 5 seconds)
+    heartbeatIntervalMs?: number; // Heartbeat and cancellation check period (default: 15 seconds)
+    staleAfterMs?: number;        // Running jobs without a heartbeat for this long are reclaimed (default: 5 minutes)
+    maxAttempts?: number;         // Claims of a job before it is failed (default: 3)
+    createPipeline?: () => Pick<IngestPipeline, "ingest" | "dispose">;
+}
+
+/**
+ * Ingest Job Worker
+ * Processes the ingestion job queue one job at a time, outside the HTTP
+ * requests that submit the jobs. Progress is published to subscribers on
+ * every stage and persisted with the heartbeats; a job abandoned by a
+ * crashed worker is claimed again, skipping the documents it had finished.
+ */
+export class IngestJobWorker {
+    private logger: Logger;
+    private pollIntervalMs: number;
+    private heartbeatIntervalMs: number;
+    private staleAfterMs: number;
+    private maxAttempts: number;
+    private createPipeline: () => Pick<IngestPipeline, "ingest" | "dispose">;
+    private store: IngestionJobStore | null;
+    private timer: NodeJS.Timeout | null = null;
+    private processing: Promise<void> | null = null;
+    private current: { jobId: string; controller: AbortController } | null = null;
+    private listeners = new Map<string, Set<IngestJobListener>>();
+
+    constructor(store?: IngestionJobStore, options: IngestJobWorkerOptions = {}) {
+        this.logger = new Logger("IngestJobWorker");
+        this.store = store ?? null;
+        this.pollIntervalMs = options.pollIntervalMs ?? 5000;
+        this.heartbeatIntervalMs = options.heartbeatIntervalMs ?? 15000;
+        this.staleAfterMs = options.staleAfterMs ?? 5 * 60 * 1000;
+        this.maxAttempts = options.maxAttempts ?? 3;
+        this.createPipeline = options.createPipeline ?? (() => new IngestPipeline());
+    }
+
+    /**
+     * Process the queue now and poll it periodically
+     */
+    start(): void {
+        if (!this.timer) {
+            this.timer = setInterval(() => void this.poll(), this.pollIntervalMs);
+            this.timer.unref(); // Do not keep scripts alive
+        }
+        void this.poll();
+    }
+
+    stop(): void {
+        if (this.timer) {
+            clearInterval(this.timer);
+            this.timer = null;
+        }
+    }
+
+    /**
+     * Process queued jobs until the queue is empty
+     * Resolves when the worker is idle; concurrent calls share the same run
+     */
+    async poll(): Promise<void> {
+        if (!this.processing) {
+            this.processing = this.drain().finally(() => {
+                this.processing = null;
+            });
+        }
+        return this.processing;
+    }
+
+    /**
+     * Stop the job if this worker is running it (cancel_requested is set by the caller)
+     */
+    cancel(jobId: string): void {
+        if (this.current?.jobId === jobId) {
+            this.current.controller.abort();
+        }
+    }
+
+    /**
+     * Receive the updates of a job processed by this worker
+     * @returns Unsubscribe function
+     */
+    subscribe(jobId: string, listener: IngestJobListener): () => void {
+        const listeners = this.listeners.get(jobId) ?? new Set<IngestJobListener>();
+        listeners.add(listener);
+        this.listeners.set(jobId, listeners);
+
+        return () => {
+            listeners.delete(listener);
+            if (listeners.size === 0) {
+                this.listeners.delete(jobId);
+            }
+        };
+    }
+
+    private async drain(): Promise<void> {
+        try {
+            const store = this.getStore();
+            let job: IngestionJob | null;
+
+            while ((job = await store.claimNext({ staleAfterMs: this.staleAfterMs, maxAttempts: this.maxAttempts }))) {
+                try {
+                    await this.run(store, job);
+                } catch (error) {
+                    await this.fail(store, job, error);
+                }
+            }
+        } catch (error) {
+            this.logger.warn(
+                `Ingestion job queue unavailable: ${error instanceof Error ? error.message : String(error)}`
+            );
+        }
+    }
+
+    private async run(store: IngestionJobStore, job: IngestionJob): Promise<void> {
+        this.logger.info(
+            `Processing ingestion job ${job.id}: ${job.documents.length} documents (attempt ${job.attempts})`
+        );
+
+        const controller = new AbortController();
+        const pipeline = this.createPipeline();
+        let results = [...job.results];
+        let progress: IngestionJobProgress | null = job.progress;
+
+        const publish = () => this.emit({ ...job, status: "running", progress, results });
+        const heartbeat = async () => {
+            try {
+                const { cancelRequested } = await store.heartbeat(job.id, progress);
+                if (cancelRequested) {
+                    controller.abort();
+                }
+            } catch (error) {
+                this.logger.warn(
+                    `Heartbeat failed for job ${job.id}: ${error instanceof Error ? error.message : String(error)}`
+                );
+            }
+        };
+
+        this.current = { jobId: job.id, controller };
+        const heartbeatTimer = setInterval(() => void heartbeat(), this.heartbeatIntervalMs);
+
+        try {
+            for (const [documentIndex, document] of job.documents.entries()) {
+                if (controller.signal.aborted) {
+                    break;
+                }
+                // Finished before a crash or a retry
+                if (results.some(result => result.documentId === document.documentId && result.success)) {
+                    continue;
+                }
+
+                const result = await pipeline.ingest(document.url, document.documentId, {
+                    ...job.options,
+                    signal: controller.signal,
+                    onProgress: (update) => {
+                        const stageStarted = update.stage !== progress?.stage || documentIndex !== progress.documentIndex;
+                        progress = { ...update, documentIndex };
+                        publish();
+                        if (stageStarted) {
+                            void heartbeat(); // Persist stage changes right away
+                        }
+                    },
+                });
+
+                if (controller.signal.aborted) {
+                    break;
+                }
+
+                results = [
+                    ...results.filter(existing => existing.documentId !== document.documentId),
+                    toJobResult(result),
+                ];
+                await store.saveResults(job.id, results);
+                publish();
+            }
+        } finally {
+            clearInterval(heartbeatTimer);
+            this.current = null;
+            pipeline.dispose();
+        }
+
+        const failed = results.filter(result => !result.success);
+        let finished: IngestionJob;
+
+        if (controller.signal.aborted) {
+            finished = await store.finish(job.id, "cancelled", "Cancelled by an admin");
+        } else if (failed.length > 0) {
+            finished = await store.finish(
+                job.id,
+                "failed",
+                `${failed.length} of ${job.documents.length} documents failed: ${failed.map(result => result.documentId).join(", ")}`
+            );
+        } else {
+            finished = await store.finish(job.id, "completed");
+        }
+
+        this.logger.info(`Ingestion job ${job.id} ${finished.status}`);
+        this.emit(finished);
+    }
+
+    /**
+     * Fail a job whose processing threw (e.g. saving its results), so the next jobs still run
+     * If the job cannot be marked failed either, it is reclaimed once its heartbeat is stale
+     */
+    private async fail(store: IngestionJobStore, job: IngestionJob, error: unknown): Promise<void> {
+        const message = error instanceof Error ? error.message : String(error);
+        this.logger.error(`Ingestion job ${job.id} failed: ${message}`);
+
+        try {
+            this.emit(await store.finish(job.id, "failed", message));
+        } catch (finishError) {
+            this.logger.warn(
+                `Could not mark job ${job.id} as failed: ${finishError instanceof Error ? finishError.message : String(finishError)}`
+            );
+        }
+    }
+
+    private emit(job: IngestionJob): void {
+        for (const listener of this.listeners.get(job.id) ?? []) {
+            listener(job);
+        }
+    }
+
+    private getStore(): IngestionJobStore {
+        if (!this.store) {
+            this.store = new IngestionJobsService(createSupabaseClient());
+        }
+        return this.store;
+    }
+}
+
+function toJobResult(result: IngestResult): IngestionJobResult {
+    return {
+        documentId: result.documentId,
+        success: result.success,
+        error: result.error,
+        chunkCount: result.chunks?.length ?? result.diff?.currentChunks ?? 0,
+        proposalCount: result.proposals?.length,
+        diff: result.diff,
+        stats: result.stats,
+    };
+}
+
+let sharedWorker: IngestJobWorker | null = null;
+
+/**
+ * Worker shared by the process
+ */
+export function getIngestJobWorker(): IngestJobWorker {
+    if (!sharedWorker) {
+        sharedWorker = new IngestJobWorker();
+    }
+    return sharedWorker;
+}
@@ -1,13 +1,37 @@
 import { PDFDownloader } from "./PDFDownloader.js";
 import { PDFParser } from "./PDFParser.js";
 import { TextCleaner } from "./TextCleaner.js";
-import { TextChunker, TextChunk } from "./TextChunker.js";
+import { TextChunker, TextChunk, computeContentVersion } from "./TextChunker.js";
 import { QualityScorer } from "./QualityScorer.js";
 import { KeywordExtractor } from "./KeywordExtractor.js";
+import { BatchEmbedder, type BatchEmbedderOptions } from "./BatchEmbedder.js";
+import {
+    diffChunks,
+    fingerprintChunk,
+    fingerprintFile,
+    unchangedReport,
+    type ChunkDiff,
+    type ChunkDiffReport
+} from "./ChunkDiffer.js";
+import {
+    ProposalExtractor,
+    type ExtractedProposal,
+    type ProposalExtractorOptions
+} from "./ProposalExtractor.js";
+import { toVersionChunks, toVersionProposals } from "./PlanVersionDiffer.js";
 import { ProviderFactory } from "./../../factory/ProviderFactory.js";
-import { Logger } from "@ticobot/shared";
+import { Logger, type VectorDocument } from "@ticobot/shared";
+import { env } from "../../config/env.js";
 import { createSupabaseClient } from "../../db/supabase.js";
-import { PartiesService } from "../../db/services/parties.service.js";
+import { PartiesService, type Party } from "../../db/services/parties.service.js";
+import { getPartyRegistry } from "../../db/services/party-registry.service.js";
+import { CacheInvalidationService } from "../../db/services/cache-invalidation.service.js";
+import { ProposalMatrixService } from "../../db/services/proposal-matrix.service.js";
+import { ProposalsService } from "../../db/services/proposals.service.js";
+import { DocumentVersionsService } from "../../db/services/document-versions.service.js";
+import { ProposalMatrixBuilder } from "../../rag/components/ProposalMatrixBuilder.js";
+import { assertEmbeddingDimension, hasEmbeddingDimension } from "../../providers/embedding/embeddingDimension.js";
+import { isIncrementalChunkStore, type StoredDocumentFingerprint } from "../../providers/vector/chunkFingerprints.js";
 import path from "path";
 import fs from "fs/promises";
 
@@ -17,12 +41,32 @@ export interface IngestOptions {
     chunkingOptions?: any;
     generateEmbeddings?: boolean;
     storeInVectorDB?: boolean;
+    embeddingOptions?: BatchEmbedderOptions;
+    resume?: boolean; // Reuse embeddings checkpointed by an interrupted run (default: true)
+    force?: boolean; // Re-process the PDF even if it is unchanged since the last ingestion (default: false)
+    updateMatrix?: boolean; // Rebuild the party's proposal matrix row after storing, one RAG comparison per topic (default: false, see POST /api/matrix/rebuild)
+    extractProposals?: boolean; // Extract structured proposals with the LLM (default: false)
+    proposalOptions?: ProposalExtractorOptions;
+    onProgress?: (progress: IngestProgress) => void; // Called when a stage starts and as chunks are embedded
+    signal?: AbortSignal; // Cancels the ingestion before the next stage (or embedding batch)
+}
+
+export type IngestStage = 'download' | 'parse' | 'clean' | 'chunk' | 'extract' | 'embed' | 'store';
+
+export interface IngestProgress {
+    documentId: string;
+    stage: IngestStage;
+    stats: IngestResult['stats']; // Times of the stages finished so far
+    embedded?: number; // Embed stage: chunks embedded so far
+    totalChunks?: number;
 }
 
 export interface IngestResult {
     documentId: string;
     success: boolean;
     chunks?: TextChunk[];
+    proposals?: ExtractedProposal[];
+    diff?: ChunkDiffReport; // Changes against the stored version (when storing in the vector DB)
     error?: string;
     stats: {
         downloadTime: number;
@@ -30,6 +74,8 @@ export interface IngestResult {
         cleanTime: number;
         chunkTime: number;
         embeddingTime?: number;
+        extractionTime?: number;
+        ocrPages?: number; // Pages whose text was recognized with OCR
         totalTime: number;
     };
 }
@@ -45,7 +91,15 @@ export class IngestPipeline {
 
     constructor() {
         this.downloader = new PDFDownloader();
-        this.parser = new PDFParser();
+        this.parser = new PDFParser({
+            ocr: env.OCR_ENABLED && {
+                language: env.OCR_LANGUAGE,
+                langPath: env.OCR_LANG_PATH,
+                cachePath: env.OCR_CACHE_DIR,
+                minPageChars: env.OCR_MIN_PAGE_CHARS,
+                pageTimeoutMs: env.OCR_PAGE_TIMEOUT_MS,
+            },
+        });
         this.cleaner = new TextCleaner();
         this.chunker = new TextChunker();
         this.qualityScorer = new QualityScorer();
@@ -72,12 +126,23 @@ export class IngestPipeline {
             cleanTime: 0,
             chunkTime: 0,
             embeddingTime: 0,
+            extractionTime: 0,
+            ocrPages: 0,
             totalTime: 0,
         };
 
         this.logger.info(`Starting ingestion pipeline for ${documentId}`);
 
+        const startStage = (stage: IngestStage) => {
+            if (options.signal?.aborted) {
+                throw new Error(`Ingestion cancelled before ${stage} stage`);
+            }
+            options.onProgress?.({ documentId, stage, stats: { ...stats } });
+        };
+
         try {
+            startStage('download');
+
             // 1. Check for local PDF first
             const downloadPath =
                 options.downloadPath || path.join(process.cwd(), "downloads", "pdfs");
@@ -126,18 +191,55 @@ export class IngestPipeline {
 
             stats.downloadTime = Date.now() - downloadStart;
 
+            // Compare with the stored version: an unchanged PDF embedded with the
+            // same model and recorded in the version history is not processed again
+            const sourceHash = await fingerprintFile(pdfFilePath);
+            let stored: StoredDocumentFingerprint | null = null;
+            let embeddingModel: string | null = null;
+            if (options.storeInVectorDB) {
+                const vectorStore = await ProviderFactory.getVectorStore();
+                if (isIncrementalChunkStore(vectorStore)) {
+                    stored = await vectorStore.getDocumentFingerprint(documentId);
+                    embeddingModel = (await ProviderFactory.getEmbeddingProvider()).getModelName();
+                }
+            }
+
+            if (
+                stored?.sourceHash === sourceHash &&
+                stored.embeddingModel === embeddingModel &&
+                stored.chunks.length > 0 &&
+                !options.force &&
+                !options.extractProposals &&
+                await this.isVersionRecorded(documentId, sourceHash)
+            ) {
+                stats.totalTime = Date.now() - startTime;
+                this.logger.info(
+                    `PDF unchanged since the last ingestion of ${documentId}, keeping ${stored.chunks.length} chunks`
+                );
+                return {
+                    documentId,
+                    success: true,
+                    diff: unchangedReport(stored),
+                    stats,
+                };
+            }
+
             // 2. Parse PDF
+            startStage('parse');
             const parseStart = Date.now();
             const parseResult = await this.parser.parse(
                 pdfFilePath,
-                documentId
+                documentId,
+                { signal: options.signal }
             );
             stats.parseTime = Date.now() - parseStart;
+            stats.ocrPages = parseResult.ocrPages.length;
             this.logger.info(
-                `Parsed PDF: ${parseResult.pageCount} pages (${stats.parseTime}ms)`
+                `Parsed PDF: ${parseResult.pageCount} pages, ${stats.ocrPages} with OCR (${stats.parseTime}ms)`
             );
 
             // 3. Clean text and extract page markers
+            startStage('clean');
             const cleanStart = Date.now();
             const cleaningResult = this.cleaner.cleanWithMetadata(
                 parseResult.text,
@@ -152,6 +254,7 @@ export class IngestPipeline {
             );
 
             // 4. Chunk text with page information
+            startStage('chunk');
             const chunkStart = Date.now();
             
             // Get embedding provider to check max tokens (optional, use default if not available)
@@ -170,6 +273,7 @@ export class IngestPipeline {
                 {
                     ...options.chunkingOptions,
                     pageMarkers: cleaningResult.pageMarkers,
+                    ocrPages: parseResult.ocrPages,
                     embeddingMaxTokens
                 }
             );
@@ -178,26 +282,115 @@ export class IngestPipeline {
                 `Created ${chunks.length} chunks (${stats.chunkTime}ms)`
             );
 
-            // 5. Generate embeddings (optional)
-            if (options.generateEmbeddings) {
+            // 5. Extract structured proposals (optional)
+            let proposals: ExtractedProposal[] | undefined;
+            if (options.extractProposals) {
+                startStage('extract');
+                const extractionStart = Date.now();
+                proposals = await this.extractProposals(chunks, documentId, options);
+                stats.extractionTime = Date.now() - extractionStart;
+                this.logger.info(
+                    `Extracted ${proposals.length} proposals (${stats.extractionTime}ms)`
+                );
+            }
+
+            // 6. Diff against the stored chunks: only new content is embedded and written
+            // (everything when the stored embeddings come from another model)
+            const reuseEmbeddings = !stored || stored.embeddingModel === embeddingModel;
+            if (!reuseEmbeddings) {
+                this.logger.info(
+                    `Chunks of ${documentId} were embedded with ${stored!.embeddingModel ?? "an unknown model"}, ` +
+                    `embedding all chunks again with ${embeddingModel}`
+                );
+            }
+            const diff = options.storeInVectorDB
+                ? diffChunks(stored?.chunks ?? [], chunks, { reuseEmbeddings })
+                : null;
+            if (diff) {
+                this.logger.info(
+                    `Diff for ${documentId}: ${diff.report.added} added, ${diff.report.modified} modified, ` +
+                    `${diff.report.removed} removed, ${diff.report.unchanged} unchanged`
+                );
+            }
+
+            // 7. Generate embeddings (optional, required to store chunks)
+            const checkpointPath = path.join(
+                downloadPath,
+                ".checkpoints",
+                `${documentId}.embeddings.jsonl`
+            );
+            const embeddings = new Map<number, number[]>(); // By chunk index
+            if (options.generateEmbeddings || options.storeInVectorDB) {
+                startStage('embed');
                 const embeddingStart = Date.now();
-                await this.generateEmbeddings(chunks);
+
+                const reused = diff ? await this.reuseEmbeddings(diff) : new Map<number, number[]>();
+                reused.forEach((embedding, chunkIndex) => embeddings.set(chunkIndex, embedding));
+
+                const pending = (diff ? diff.writes.map(write => write.chunk) : chunks)
+                    .filter(chunk => !embeddings.has(chunk.chunkIndex));
+                const generated = pending.length === 0 ? [] : await this.generateEmbeddings(
+                    pending,
+                    checkpointPath,
+                    options,
+                    (embedded) => options.onProgress?.({
+                        documentId,
+                        stage: 'embed',
+                        stats: { ...stats },
+                        embedded,
+                        totalChunks: pending.length,
+                    })
+                );
+                pending.forEach((chunk, i) => embeddings.set(chunk.chunkIndex, generated[i]));
+
+                if (diff) {
+                    diff.report.embedded = pending.length;
+                }
                 stats.embeddingTime = Date.now() - embeddingStart;
-                this.logger.info(`Generated embeddings (${stats.embeddingTime}ms)`);
+                this.logger.info(
+                    `Generated ${pending.length} embeddings, reused ${reused.size} (${stats.embeddingTime}ms)`
+                );
             }
 
-            // 6. Store in vector DB (optional)
+            // 8. Store in vector DB (optional)
             if (options.storeInVectorDB) {
+                startStage('store');
                 await this.storeChunks(
                     chunks,
+                    embeddings,
                     documentId,
                     url,
                     parseResult.pageCount,
-                    fileSize
+                    fileSize,
+                    sourceHash,
+                    embeddingModel,
+                    diff
                 );
                 this.logger.info("Stored chunks in vector database");
+
+                // 9. Store proposals linked to the stored chunks
+                if (proposals) {
+                    await this.storeProposals(documentId, proposals, computeContentVersion(chunks));
+                }
+
+                // 10. Record the new version of the plan with its changes
+                await this.recordVersion(
+                    documentId,
+                    chunks,
+                    proposals,
+                    sourceHash,
+                    parseResult.pageCount
+                );
+
+                // 11. Rebuild the matrix cells of the party built from another version
+                if (options.updateMatrix) {
+                    await this.updateProposalMatrix(documentId);
+                }
             }
 
+            // Embeddings are persisted (or were only generated), progress is no longer needed
+            await fs.rm(checkpointPath, { force: true });
+
             stats.totalTime = Date.now() - startTime;
 
             this.logger.info(
@@ -208,6 +401,8 @@ export class IngestPipeline {
                 documentId,
                 success: true,
                 chunks,
+                proposals,
+                diff: diff?.report,
                 stats,
             };
         } catch (error) {
@@ -225,30 +420,86 @@ export class IngestPipeline {
     }
 
     /**
-     * Generate embeddings for chunks
+     * Generate embeddings for chunks in batches
+     * Progress is checkpointed so a failed run resumes where it stopped
+     * @returns Embeddings in the same order as the chunks
      */
-    private async generateEmbeddings(chunks: TextChunk[]): Promise<void> {
+    private async generateEmbeddings(
+        chunks: TextChunk[],
+        checkpointPath: string,
+        options: IngestOptions,
+        onEmbedded: (embedded: number) => void
+    ): Promise<number[][]> {
         const embeddingProvider = await ProviderFactory.getEmbeddingProvider();
 
-        for (const chunk of chunks) {
-            const result = await embeddingProvider.generateEmbedding(chunk.content);
-            // Store embedding in chunk or database
-            // Implementation depends on your data model
+        // Fail before embedding anything if the index was built with another model
+        if (options.storeInVectorDB) {
+            const vectorStore = await ProviderFactory.getVectorStore();
+            if (hasEmbeddingDimension(vectorStore)) {
+                await assertEmbeddingDimension(embeddingProvider, vectorStore);
+            }
+        }
+
+        if (options.resume === false) {
+            await fs.rm(checkpointPath, { force: true });
+        }
+
+        const embedder = new BatchEmbedder(embeddingProvider, options.embeddingOptions);
+        return embedder.embedChunks(chunks, {
+            checkpointPath,
+            onProgress: ({ embedded, total }) => {
+                this.logger.info(`Embedded ${embedded}/${total} chunks`);
+                onEmbedded(embedded);
+            },
+            signal: options.signal,
+        });
+    }
+
+    /**
+     * Get the stored embeddings of the rewritten chunks whose content is
+     * already stored under another index
+     * @returns Embeddings by chunk index
+     */
+    private async reuseEmbeddings(diff: ChunkDiff): Promise<Map<number, number[]>> {
+        const reused = new Map<number, number[]>();
+        const reusable = diff.writes.filter(write => write.reuseChunkId);
+        if (reusable.length === 0) {
+            return reused;
+        }
+
+        const vectorStore = await ProviderFactory.getVectorStore();
+        if (!isIncrementalChunkStore(vectorStore)) {
+            return reused;
         }
+
+        const stored = await vectorStore.getChunkEmbeddings(reusable.map(write => write.reuseChunkId!));
+        for (const write of reusable) {
+            const embedding = stored.get(write.reuseChunkId!);
+            if (embedding) {
+                reused.set(write.chunk.chunkIndex, embedding);
+            }
+        }
+        return reused;
     }
 
     /**
      * Store chunks in vector database
+     * With a diff only the rewritten chunks are written, and the chunks past
+     * the end of a shorter version are deleted. The fingerprint of the PDF is
+     * recorded last, so an interrupted run is never skipped as unchanged
      */
     private async storeChunks(
         chunks: TextChunk[],
+        embeddings: Map<number, number[]>,
         documentId: string,
         url: string,
         pageCount: number,
-        fileSize: number
+        fileSize: number,
+        sourceHash: string,
+        embeddingModel: string | null,
+        diff: ChunkDiff | null
     ): Promise<void> {
         const vectorStore = await ProviderFactory.getVectorStore();
-        const embeddingProvider = await ProviderFactory.getEmbeddingProvider();
 
         // Cast to SupabaseVectorStore to access upsertDocument
         const supabaseStore = vectorStore as any;
@@ -257,22 +508,7 @@ export class IngestPipeline {
         const partySlug = documentId.split('-')[0].toLowerCase();
         
         // Look up party UUID from parties table
-        const supabase = createSupabaseClient();
-        const partiesService = new PartiesService(supabase);
-        
-        // Try to find party by slug first
-        let party = await partiesService.findBySlug(partySlug);
-        
-        // If not found, try to find by abbreviation (e.g., "ppso" -> "PPSO" -> "pueblo-soberano")
-        if (!party) {
-            party = await partiesService.findByAbbreviation(partySlug.toUpperCase());
-            if (party) {
-                this.logger.info(
-                    `Found party by abbreviation "${partySlug.toUpperCase()}" -> "${party.slug}"`
-                );
-            }
-        }
-        
+        const party = await this.findParty(partySlug);
         if (!party) {
             this.logger.warn(
                 `Party not found for slug "${partySlug}" or abbreviation "${partySlug.toUpperCase()}". ` +
@@ -294,6 +530,8 @@ export class IngestPipeline {
             url,
             pageCount,
             fileSizeBytes: fileSize,
+            contentVersion: computeContentVersion(chunks),
+            sourceHash: null, // Set once all chunks are stored
             metadata: {
                 source: 'TSE',
                 year: 2026,
@@ -304,14 +542,10 @@ export class IngestPipeline {
         this.logger.info(`Document UUID: ${documentUuid}`);
 
         // 2. Build array of VectorDocuments with embeddings
-        const vectorDocs = [];
-
-        for (const chunk of chunks) {
-            // Generate embedding
-            const embeddingResult = await embeddingProvider.generateEmbedding(
-                chunk.content
-            );
+        const vectorDocs: VectorDocument[] = [];
 
+        const rows = diff ? diff.writes.map(write => write.chunk) : chunks;
+        rows.forEach((chunk) => {
             // Calculate quality score (Issue #33)
             const qualityMetrics = this.qualityScorer.calculateQuality(chunk.content);
 
@@ -330,14 +564,16 @@ export class IngestPipeline {
             // Note: id will be auto-generated by Supabase (gen_random_uuid())
             vectorDocs.push({
                 content: chunk.content,
-                embedding: embeddingResult.embedding,
+                embedding: embeddings.get(chunk.chunkIndex)!,
                 metadata: {
                     documentId: documentUuid, // Use UUID instead of string ID
                     chunkIndex: chunk.chunkIndex,
                     tokens: chunk.tokens,
                     cleanContent: chunk.content,
+                    contentHash: fingerprintChunk(chunk.content),
                     pageNumber: chunk.pageNumber,
                     pageRange: chunk.pageRange,
+                    ocr: chunk.ocr ?? false,
                     // Quality scoring (Issue #33)
                     qualityScore: qualityMetrics.qualityScore,
                     qualityMetrics: {
@@ -351,10 +587,182 @@ export class IngestPipeline {
                     entities,
                 },
             });
+        });
+
+        // 3. Batch upsert the new and changed chunks at once
+        if (vectorDocs.length > 0) {
+            await vectorStore.upsert(vectorDocs);
+        }
+
+        // 4. Delete the chunks of the previous version past the end of this one
+        if (diff && isIncrementalChunkStore(vectorStore)) {
+            const deleted = await vectorStore.deleteChunksFrom(documentUuid, diff.removeFrom);
+            if (deleted > 0) {
+                this.logger.info(`Deleted ${deleted} chunks past the end of ${documentId}`);
+            }
+        }
+
+        // 5. Record what the stored chunks were built from
+        if (embeddingModel && isIncrementalChunkStore(vectorStore)) {
+            await vectorStore.setDocumentFingerprint(documentUuid, sourceHash, embeddingModel);
+        }
+
+        // 6. Invalidate cached answers built from a previous version of the document
+        // (unavailable without Supabase, e.g. offline with the memory vector store)
+        try {
+            const cacheInvalidation = new CacheInvalidationService(createSupabaseClient());
+            await cacheInvalidation.invalidateDocument(documentId);
+        } catch (error) {
+            this.logger.warn(
+                `Cache invalidation unavailable: ${error instanceof Error ? error.message : String(error)}`
+            );
+        }
+    }
+
+    /**
+     * Look up the party of a document by its key in the party registry
+     * (unavailable without Supabase, e.g. offline with the memory vector store)
+     */
+    private async findParty(partySlug: string): Promise<Party | null> {
+        try {
+            // Slug, abbreviation or TSE document party id (e.g. "ppso" -> "pueblo-soberano")
+            const party = await getPartyRegistry().findByKey(partySlug);
+            if (party && party.slug !== partySlug) {
+                this.logger.info(`Found party by key "${partySlug}" -> "${party.slug}"`);
+            }
+            return party;
+        } catch (error) {
+            this.logger.warn(
+                `Party lookup unavailable: ${error instanceof Error ? error.message : String(error)}`
+            );
+            return null;
+        }
+    }
+
+    /**
+     * Extract structured proposals from the chunks with the configured LLM
+     * Topics follow the proposal matrix taxonomy when it is available
+     */
+    private async extractProposals(
+        chunks: TextChunk[],
+        documentId: string,
+        options: IngestOptions
+    ): Promise<ExtractedProposal[]> {
+        const llmProvider = await ProviderFactory.getLLMProvider();
+
+        let topics = options.proposalOptions?.topics;
+        if (!topics) {
+            try {
+                const matrixService = new ProposalMatrixService(createSupabaseClient());
+                topics = (await matrixService.listTopics({ activeOnly: true })).map(topic => topic.slug);
+            } catch (error) {
+                this.logger.warn(
+                    `Matrix topics unavailable, using default proposal topics: ${error instanceof Error ? error.message : String(error)}`
+                );
+            }
+        }
+
+        // Party name for the prompt (e.g. "fa-2026" -> "Frente Amplio", "FA" when not registered)
+        const partySlug = documentId.split('-')[0].toLowerCase();
+        const partyName = (await this.findParty(partySlug))?.name || partySlug.toUpperCase();
+        const extractor = new ProposalExtractor(llmProvider, { ...options.proposalOptions, topics });
+        const { proposals } = await extractor.extract(chunks, partyName);
+
+        return proposals;
+    }
+
+    /**
+     * Replace the stored proposals of the document
+     */
+    private async storeProposals(
+        documentId: string,
+        proposals: ExtractedProposal[],
+        contentVersion: string
+    ): Promise<void> {
+        try {
+            const proposalsService = new ProposalsService(createSupabaseClient());
+            const stored = await proposalsService.replaceForDocument(documentId, proposals, contentVersion);
+            this.logger.info(`Stored ${stored} proposals for ${documentId}`);
+        } catch (error) {
+            this.logger.warn(
+                `Proposal storage unavailable: ${error instanceof Error ? error.message : String(error)}`
+            );
+        }
+    }
+
+    /**
+     * Add the ingested content to the version history of the document
+     * Unchanged content keeps the latest version. Failures never fail the
+     * ingestion: the next ingestion of the same PDF records the missing version
+     */
+    private async recordVersion(
+        documentId: string,
+        chunks: TextChunk[],
+        proposals: ExtractedProposal[] | undefined,
+        sourceHash: string,
+        pageCount: number
+    ): Promise<void> {
+        try {
+            const versionsService = new DocumentVersionsService(createSupabaseClient());
+            const { version, created } = await versionsService.recordVersion(documentId, {
+                sourceHash,
+                contentVersion: computeContentVersion(chunks),
+                pageCount,
+                chunks: toVersionChunks(chunks),
+                proposals: proposals ? toVersionProposals(proposals) : null,
+            });
+            if (created) {
+                this.logger.info(`Recorded version ${version} of ${documentId}`);
+            }
+        } catch (error) {
+            this.logger.warn(
+                `Version history unavailable: ${error instanceof Error ? error.message : String(error)}`
+            );
+        }
+    }
+
+    /**
+     * Whether the latest version in the history of the document is the PDF
+     * (true when the history is unavailable, there is nothing to record then)
+     */
+    private async isVersionRecorded(documentId: string, sourceHash: string): Promise<boolean> {
+        try {
+            const versionsService = new DocumentVersionsService(createSupabaseClient());
+            const recorded = await versionsService.getLatestSourceHash(documentId) === sourceHash;
+            if (!recorded) {
+                this.logger.info(`PDF of ${documentId} missing from its version history, processing it again`);
+            }
+            return recorded;
+        } catch (error) {
+            this.logger.warn(
+                `Version history unavailable: ${error instanceof Error ? error.message : String(error)}`
+            );
+            return true;
         }
+    }
 
-        // 3. Batch upsert all chunks at once
-        await vectorStore.upsert(vectorDocs);
+    /**
+     * Rebuild the proposal matrix row of the party owning the document
+     * Unchanged content keeps its cells; failures never fail the ingestion
+     */
+    private async updateProposalMatrix(documentId: string): Promise<void> {
+        try {
+            const supabase = createSupabaseClient();
+            const builder = new ProposalMatrixBuilder(
+                new ProposalMatrixService(supabase),
+                new PartiesService(supabase)
+            );
+            const result = await builder.rebuildForDocument(documentId);
+            if (result) {
+                this.logger.info(
+                    `Proposal matrix updated for ${documentId}: ${result.built} cells rebuilt, ${result.skipped} up to date`
+                );
+            }
+        } catch (error) {
+            this.logger.warn(
+                `Proposal matrix update unavailable: ${error instanceof Error ? error.message : String(error)}`
+            );
+        }
     }
 
     /**
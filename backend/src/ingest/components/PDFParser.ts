@@ -1,11 +1,33 @@
 import { PDFParse } from "pdf-parse";
 import { readFile } from "fs/promises";
 import { Logger } from "@ticobot/shared";
+import { PageOCR, type PageOCROptions } from "./PageOCR.js";
+
+export interface PDFOCROptions extends PageOCROptions {
+  minPageChars?: number; // Pages with fewer letters and digits are recognized with OCR (default: 100)
+  minReadableRatio?: number; // Pages where a smaller share of the text is readable too (default: 0.7)
+  scale?: number; // Rasterization scale, 1 = 72 DPI (default: 2)
+  pageTimeoutMs?: number; // Pages taking longer to recognize keep the extracted text (default: 60000)
+}
+
+export interface PDFParserOptions {
+  ocr?: PDFOCROptions | false; // OCR fallback for scanned pages (default: enabled)
+}
+
+export interface PDFParseOptions {
+  signal?: AbortSignal; // Stops the OCR of the remaining pages and fails the parse
+}
+
+export interface PageTextMeasure {
+  chars: number; // Letters and digits
+  readableRatio: number; // Share of the non-space characters that are letters, digits or common punctuation
+}
 
 export interface PDFParseResult {
   documentId: string;
   text: string;
   pageCount: number;
+  ocrPages: number[]; // Pages whose text was recognized with OCR
   metadata: {
     title?: string;
     author?: string;
@@ -18,20 +40,53 @@ export interface PDFParseResult {
   };
 }
 
+/**
+ * Measure how much usable text a page has
+ */
+export function measurePageText(text: string): PageTextMeasure {
+  const visible = text.replace(/\s/g, "");
+  const chars = (visible.match(/[\p{L}\p{N}]/gu) ?? []).length;
+  const readable = (visible.match(/[\p{L}\p{N}.,;:¿?¡!()"'%$/\-–—•«»“”‘’]/gu) ?? []).length;
+
+  return {
+    chars,
+    readableRatio: visible.length > 0 ? readable / visible.length : 0,
+  };
+}
+
+/**
+ * Join page texts exactly like pdf-parse: every page text is followed by a
+ * newline, its "\n-- N of M --" page joiner and a blank line
+ */
+export function joinPages(pages: Array<{ num: number; text: string }>, total: number): string {
+  return pages.map((page) => `${page.text}\n\n-- ${page.num} of ${total} --\n\n`).join("");
+}
+
 export class PDFParser {
   private logger: Logger;
+  private ocr: Required<Pick<PDFOCROptions, "minPageChars" | "minReadableRatio" | "scale" | "pageTimeoutMs">> & PageOCROptions | null;
 
-  constructor() {
+  constructor(options: PDFParserOptions = {}) {
     this.logger = new Logger("PDFParser");
+    this.ocr = options.ocr === false
+      ? null
+      : {
+        ...options.ocr,
+        minPageChars: options.ocr?.minPageChars ?? 100,
+        minReadableRatio: options.ocr?.minReadableRatio ?? 0.7,
+        scale: options.ocr?.scale ?? 2,
+        pageTimeoutMs: options.ocr?.pageTimeoutMs ?? 60000,
+      };
   }
 
   /**
    * Parse a PDF file and extract text content
    * @param filePath - Path to the PDF file
    * @param documentId - Unique identifier for the document
+   * @param options - Abort signal of the ingestion
    * @returns Parsed document with text and metadata
    */
-  async parse(filePath: string, documentId: string): Promise<PDFParseResult> {
+  async parse(filePath: string, documentId: string, options: PDFParseOptions = {}): Promise<PDFParseResult> {
     this.logger.info(`Parsing PDF: ${documentId}`);
 
     try {
@@ -47,14 +102,22 @@ export class PDFParser {
       // Get document info/metadata
       const infoResult = await parser.getInfo();
 
+      // Replace the text of scanned pages with OCR, keeping the page markers
+      const pages = textResult.pages.map((page) => ({ num: page.num, text: page.text }));
+      const ocrPages = this.ocr
+        ? await this.recognizeSparsePages(parser, pages, documentId, options.signal)
+        : [];
+      const text = ocrPages.length > 0 ? joinPages(pages, textResult.total) : textResult.text;
+
       this.logger.info(
-        `Successfully parsed PDF: ${documentId} (${textResult.total} pages)`
+        `Successfully parsed PDF: ${documentId} (${textResult.total} pages, ${ocrPages.length} with OCR)`
       );
 
       const result = {
         documentId,
-        text: textResult.text,
+        text,
         pageCount: textResult.total,
+        ocrPages,
         metadata: {
           title: infoResult.info?.Title,
           author: infoResult.info?.Author,
@@ -85,6 +148,83 @@ export class PDFParser {
     }
   }
 
+  /**
+   * Rasterize and OCR the pages with little or unreadable extracted text
+   * The recognized text replaces the page text when it has more content
+   * (or the extracted text was unreadable); OCR failures and pages that time
+   * out keep the extracted text, an abort fails the parse
+   * @returns Numbers of the pages whose text was replaced
+   */
+  private async recognizeSparsePages(
+    parser: PDFParse,
+    pages: Array<{ num: number; text: string }>,
+    documentId: string,
+    signal?: AbortSignal
+  ): Promise<number[]> {
+    const ocr = this.ocr!;
+    const sparse = pages.filter((page) => {
+      const measure = measurePageText(page.text);
+      return measure.chars < ocr.minPageChars || measure.readableRatio < ocr.minReadableRatio;
+    });
+
+    if (sparse.length === 0) {
+      return [];
+    }
+
+    this.logger.info(
+      `${sparse.length} of ${pages.length} pages of ${documentId} have little readable text, running OCR`
+    );
+
+    const engine = new PageOCR(ocr);
+    const recognized: number[] = [];
+
+    try {
+      for (const page of sparse) {
+        // One page at a time, a rasterized page takes a few MB
+        const screenshot = await parser.getScreenshot({
+          partial: [page.num],
+          scale: ocr.scale,
+          imageBuffer: true,
+          imageDataUrl: false,
+        });
+        const image = screenshot.pages[0]?.data;
+        if (!image) {
+          continue;
+        }
+
+        const result = await engine.recognize(image, { timeoutMs: ocr.pageTimeoutMs, signal });
+        if (!result) {
+          this.logger.warn(`OCR of page ${page.num} of ${documentId} timed out, keeping the extracted text`);
+          continue;
+        }
+
+        const { text, confidence } = result;
+        const extracted = measurePageText(page.text);
+        const ocrMeasure = measurePageText(text);
+
+        if (
+          ocrMeasure.chars > 0 &&
+          (ocrMeasure.chars > extracted.chars || extracted.readableRatio < ocr.minReadableRatio)
+        ) {
+          page.text = text.trim();
+          recognized.push(page.num);
+          this.logger.debug(`OCR page ${page.num}: ${ocrMeasure.chars} characters (confidence ${Math.round(confidence)})`);
+        }
+      }
+    } catch (error) {
+      if (signal?.aborted) {
+        throw error;
+      }
+      this.logger.warn(
+        `OCR unavailable, keeping the extracted text: ${error instanceof Error ? error.message : String(error)}`
+      );
+    } finally {
+      await engine.terminate();
+    }
+
+    return recognized;
+  }
+
   /**
    * Validate that a file is a valid PDF
    * @param filePath - Path to check
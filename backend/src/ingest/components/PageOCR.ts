@@ -0,0 +1,161 @@
+import fs from 'fs/promises';
+import path from 'path';
+import type { Worker } from 'tesseract.js';
+import { Logger } from '@ticobot/shared';
+
+export interface PageOCROptions {
+    language?: string;   // Tesseract language code (default: 'spa')
+    langPath?: string;   // Directory or URL with the <language>.traineddata files (default: tesseract.js CDN)
+    cachePath?: string;  // Where downloaded language data is cached (default: working directory)
+}
+
+export interface RecognizeOptions {
+    timeoutMs?: number;   // Give up on the page after this long (default: no limit)
+    signal?: AbortSignal; // Stops recognizing the page
+}
+
+export interface OCRText {
+    text: string;
+    confidence: number;  // Mean word confidence reported by Tesseract (0-100)
+}
+
+/**
+ * Page OCR
+ * Recognizes the text of rasterized PDF pages with Tesseract (WASM build, runs
+ * locally on CPU). The worker and its language data are loaded on the first
+ * page and reused until terminate() is called.
+ */
+export class PageOCR {
+    private language: string;
+    private langPath?: string;
+    private cachePath?: string;
+    private workerPromise: Promise<Worker> | null = null;
+    private logger: Logger;
+
+    constructor(options: PageOCROptions = {}) {
+        this.language = options.language ?? 'spa';
+        this.langPath = options.langPath;
+        this.cachePath = options.cachePath;
+        this.logger = new Logger('PageOCR');
+    }
+
+    /**
+     * Recognize the text of a page image (PNG)
+     * A page that times out or is aborted leaves the worker busy, so the worker
+     * is terminated and the next page loads a new one
+     * @returns null when the page timed out
+     */
+    async recognize(image: Uint8Array, options: RecognizeOptions = {}): Promise<OCRText | null> {
+        const { timeoutMs, signal } = options;
+        if (signal?.aborted) {
+            throw new Error('OCR aborted');
+        }
+
+        const worker = await this.getWorker();
+        const recognition = worker.recognize(Buffer.from(image));
+
+        let timer: NodeJS.Timeout | undefined;
+        let onAbort = () => {};
+        const interrupted = new Promise<'timeout' | 'aborted'>((resolve) => {
+            if (timeoutMs) {
+                timer = setTimeout(() => resolve('timeout'), timeoutMs);
+            }
+            onAbort = () => resolve('aborted');
+            signal?.addEventListener('abort', onAbort, { once: true });
+        });
+
+        try {
+            const outcome = await Promise.race([recognition, interrupted]);
+            if (typeof outcome !== 'string') {
+                return {
+                    text: outcome.data.text,
+                    confidence: outcome.data.confidence,
+                };
+            }
+
+            recognition.catch(() => {
+                // Rejected by the terminated worker
+            });
+            await this.terminate();
+
+            if (outcome === 'aborted') {
+                throw new Error('OCR aborted');
+            }
+            this.logger.warn(`OCR of the page timed out after ${timeoutMs}ms`);
+            return null;
+        } finally {
+            clearTimeout(timer);
+            signal?.removeEventListener('abort', onAbort);
+        }
+    }
+
+    /**
+     * Release the worker thread and its WASM memory
+     */
+    async terminate(): Promise<void> {
+        if (!this.workerPromise) {
+            return;
+        }
+
+        const workerPromise = this.workerPromise;
+        this.workerPromise = null;
+
+        try {
+            await (await workerPromise).terminate();
+        } catch {
+            // The worker failed to load, nothing to release
+        }
+    }
+
+    /**
+     * Load the worker on first use (the language data takes a few seconds to
+     * load and is only needed for documents with scanned pages)
+     */
+    private getWorker(): Promise<Worker> {
+        if (!this.workerPromise) {
+            this.workerPromise = new Promise<Worker>((resolve, reject) => {
+                (async () => {
+                    const gzip = await this.checkLanguageData();
+                    const { createWorker } = (await import('tesseract.js')).default;
+                    this.logger.info(`Loading Tesseract (${this.language})`);
+
+                    return createWorker(this.language, undefined, {
+                        ...(this.langPath && { langPath: this.langPath, gzip }),
+                        ...(this.cachePath && { cachePath: this.cachePath }),
+                        // A failed language load never settles createWorker, only this handler is called
+                        errorHandler: (error: unknown) => reject(new Error(`Tesseract failed: ${String(error)}`)),
+                    });
+                })().then(resolve, reject);
+            });
+
+            // Allow a retry after a failed load (e.g. language data not available yet)
+            this.workerPromise.catch(() => {
+                this.workerPromise = null;
+            });
+        }
+
+        return this.workerPromise;
+    }
+
+    /**
+     * Fail before starting the worker when a local language directory lacks the data
+     * @returns Whether the local data is gzipped
+     */
+    private async checkLanguageData(): Promise<boolean> {
+        if (!this.langPath || /^https?:\/\//.test(this.langPath)) {
+            return true;
+        }
+
+        const file = path.join(this.langPath, `${this.language}.traineddata`);
+        for (const [candidate, gzip] of [[`${file}.gz`, true], [file, false]] as const) {
+            try {
+                await fs.access(candidate);
+                return gzip;
+            } catch {
+                // Try the next name
+            }
+        }
+
+        throw new Error(`Tesseract language data not found: ${file}(.gz)`);
+    }
+}
@@ -0,0 +1,320 @@
+import type { TextChunk } from './TextChunker.js';
+import type { ExtractedProposal } from './ProposalExtractor.js';
+import { mergePageRanges, type PageRange } from './ChunkDiffer.js';
+import { normalizeWords } from '../../rag/utils/text.js';
+
+/**
+ * Chunk kept with a plan version (the search index only holds the latest one)
+ */
+export interface VersionChunk {
+    chunkIndex: number;
+    content: string;
+    pageStart: number | null;
+    pageEnd: number | null;
+    section: string | null; // Heading in effect where the chunk starts
+}
+
+/**
+ * Proposal kept with a plan version to compare proposals between versions
+ */
+export interface VersionProposal {
+    title: string;
+    topic: string;
+    pageStart: number | null;
+    pageEnd: number | null;
+}
+
+export type PlanChangeType = 'added' | 'removed' | 'changed';
+
+export interface PlanChange {
+    type: PlanChangeType;
+    before?: string; // Removed and changed paragraphs
+    after?: string; // Added and changed paragraphs
+    pageStart: number | null;
+    pageEnd: number | null;
+}
+
+export interface PlanSectionChanges {
+    section: string | null; // null = text before the first heading
+    pages: PageRange[];
+    changes: PlanChange[];
+}
+
+/**
+ * Paragraph-level text diff between two versions of a plan
+ */
+export interface PlanVersionDiff {
+    summary: {
+        added: number;
+        removed: number;
+        changed: number;
+        unchanged: number;
+        sections: number; // Sections with at least one change
+    };
+    sections: PlanSectionChanges[];
+}
+
+export interface ProposalChanges {
+    added: VersionProposal[];
+    dropped: VersionProposal[];
+}
+
+interface Paragraph {
+    text: string;
+    key: string; // Normalized text
+    section: string | null;
+    pageStart: number | null;
+    pageEnd: number | null;
+}
+
+const MAX_CHANGE_LENGTH = 2000; // Characters kept per paragraph in the stored diff
+const CHANGED_SIMILARITY = 0.5; // Word overlap for a removed and an added paragraph to be one edit
+const MAX_PAIRING_CANDIDATES = 500; // Removed paragraphs compared outside the section
+const PROPOSAL_SIMILARITY = 0.6;
+
+/**
+ * Whether a line looks like a heading of the plan: short, no final period,
+ * and either mostly uppercase or numbered ("3.2 Educación", "EJE 4", "Capítulo II")
+ */
+export function isHeading(line: string): boolean {
+    const text = line.trim();
+    if (text.length < 3 || text.length > 100 || /[.;,:]$/.test(text)) {
+        return false;
+    }
+    if (text.split(/\s+/).length > 12) {
+        return false;
+    }
+
+    const letters = text.replace(/[^A-Za-zÁÉÍÓÚÜÑáéíóúüñ]/g, '');
+    if (letters.length < 3) {
+        return false;
+    }
+
+    const uppercase = letters.replace(/[^A-ZÁÉÍÓÚÜÑ]/g, '').length;
+    if (uppercase / letters.length >= 0.8) {
+        return true;
+    }
+
+    return /^(\d+(\.\d+)*\.?|[IVXLC]+\.|eje|cap[ií]tulo|secci[oó]n|pilar|t[ií]tulo)\s+[A-ZÁÉÍÓÚÑ0-9]/i.test(text);
+}
+
+/**
+ * Attach to every chunk the heading in effect where it starts
+ */
+export function toVersionChunks(chunks: TextChunk[]): VersionChunk[] {
+    let section: string | null = null;
+
+    return chunks.map(chunk => {
+        const paragraphs = chunk.content.split(/\n\n+/);
+        const firstLine = paragraphs[0]?.split('\n')[0] ?? '';
+        const chunkSection = isHeading(firstLine) ? firstLine.trim() : section;
+
+        for (const paragraph of paragraphs) {
+            const line = paragraph.split('\n')[0];
+            if (isHeading(line)) {
+                section = line.trim();
+            }
+        }
+
+        return {
+            chunkIndex: chunk.chunkIndex,
+            content: chunk.content,
+            pageStart: chunk.pageRange?.start ?? chunk.pageNumber ?? null,
+            pageEnd: chunk.pageRange?.end ?? chunk.pageNumber ?? null,
+            section: chunkSection,
+        };
+    });
+}
+
+export function toVersionProposals(proposals: ExtractedProposal[]): VersionProposal[] {
+    return proposals.map(proposal => ({
+        title: proposal.title,
+        topic: proposal.topic,
+        pageStart: proposal.pageRange?.start ?? null,
+        pageEnd: proposal.pageRange?.end ?? null,
+    }));
+}
+
+/**
+ * Compare the text of two versions of a plan paragraph by paragraph
+ *
+ * Paragraphs present in both versions are unchanged wherever they moved. A
+ * removed and an added paragraph of the same section that share most of
+ * their words are reported as one changed paragraph.
+ */
+export function diffPlanVersions(previous: VersionChunk[], current: VersionChunk[]): PlanVersionDiff {
+    const before = toParagraphs(previous);
+    const after = toParagraphs(current);
+    const beforeKeys = new Set(before.map(paragraph => paragraph.key));
+    const afterKeys = new Set(after.map(paragraph => paragraph.key));
+
+    const removed = before.filter(paragraph => !afterKeys.has(paragraph.key));
+    const added = after.filter(paragraph => !beforeKeys.has(paragraph.key));
+    const unchanged = after.length - added.length;
+
+    const changes: Array<PlanChange & { section: string | null }> = [];
+    const paired = new Set<Paragraph>();
+
+    for (const paragraph of added) {
+        const sameSection = removed.filter(candidate => !paired.has(candidate) && candidate.section === paragraph.section);
+        const candidates = sameSection.length > 0 || removed.length > MAX_PAIRING_CANDIDATES
+            ? sameSection
+            : removed.filter(candidate => !paired.has(candidate));
+
+        const match = mostSimilar(paragraph.key, candidates, candidate => candidate.key, CHANGED_SIMILARITY);
+        if (match) {
+            paired.add(match);
+            changes.push({
+                type: 'changed',
+                section: paragraph.section,
+                before: truncate(match.text),
+                after: truncate(paragraph.text),
+                pageStart: paragraph.pageStart,
+                pageEnd: paragraph.pageEnd,
+            });
+        } else {
+            changes.push({
+                type: 'added',
+                section: paragraph.section,
+                after: truncate(paragraph.text),
+                pageStart: paragraph.pageStart,
+                pageEnd: paragraph.pageEnd,
+            });
+        }
+    }
+
+    for (const paragraph of removed) {
+        if (!paired.has(paragraph)) {
+            changes.push({
+                type: 'removed',
+                section: paragraph.section,
+                before: truncate(paragraph.text),
+                pageStart: paragraph.pageStart,
+                pageEnd: paragraph.pageEnd,
+            });
+        }
+    }
+
+    // Group by section, in page order
+    const sections = new Map<string | null, PlanChange[]>();
+    changes
+        .sort((a, b) => (a.pageStart ?? Infinity) - (b.pageStart ?? Infinity))
+        .forEach(({ section, ...change }) => {
+            const group = sections.get(section) ?? [];
+            group.push(change);
+            sections.set(section, group);
+        });
+
+    const count = (type: PlanChangeType) => changes.filter(change => change.type === type).length;
+
+    return {
+        summary: {
+            added: count('added'),
+            removed: count('removed'),
+            changed: count('changed'),
+            unchanged,
+            sections: sections.size,
+        },
+        sections: Array.from(sections, ([section, sectionChanges]) => ({
+            section,
+            pages: mergePageRanges(sectionChanges.map(change =>
+                change.pageStart !== null ? { start: change.pageStart, end: change.pageEnd ?? change.pageStart } : undefined
+            )),
+            changes: sectionChanges,
+        })),
+    };
+}
+
+/**
+ * Proposals of the current version missing from the previous one, and the other way around
+ * Titles are compared loosely since the extraction rewords them between runs
+ */
+export function diffProposals(previous: VersionProposal[], current: VersionProposal[]): ProposalChanges {
+    const remaining = [...previous];
+    const added: VersionProposal[] = [];
+
+    for (const proposal of current) {
+        const match = mostSimilar(normalizeWords(proposal.title), remaining, candidate => normalizeWords(candidate.title), PROPOSAL_SIMILARITY);
+        if (match) {
+            remaining.splice(remaining.indexOf(match), 1);
+        } else {
+            added.push(proposal);
+        }
+    }
+
+    return { added, dropped: remaining };
+}
+
+/**
+ * Split the chunks of a version into its distinct paragraphs
+ * The overlap a chunk repeats from the previous one is skipped
+ */
+function toParagraphs(chunks: VersionChunk[]): Paragraph[] {
+    const paragraphs: Paragraph[] = [];
+    const seen = new Set<string>();
+    let section: string | null = null;
+
+    chunks.forEach((chunk, i) => {
+        section = chunk.section ?? section;
+
+        chunk.content.split(/\n\n+/).forEach((text, j) => {
+            const trimmed = text.trim();
+            if (!trimmed) {
+                return;
+            }
+            if (j === 0 && i > 0 && chunks[i - 1].content.includes(trimmed)) {
+                return;
+            }
+
+            const heading = trimmed.split('\n')[0];
+            if (isHeading(heading)) {
+                section = heading.trim();
+            }
+
+            const key = normalizeWords(trimmed);
+            if (!key || seen.has(key)) {
+                return;
+            }
+            seen.add(key);
+            paragraphs.push({
+                text: trimmed,
+                key,
+                section,
+                pageStart: chunk.pageStart,
+                pageEnd: chunk.pageEnd,
+            });
+        });
+    });
+
+    return paragraphs;
+}
+
+/**
+ * Candidate whose words overlap the most with the text (Jaccard), above a minimum
+ */
+function mostSimilar<T>(text: string, candidates: T[], keyOf: (candidate: T) => string, minimum: number): T | null {
+    const words = new Set(text.split(' '));
+    let best: T | null = null;
+    let bestScore = minimum;
+
+    for (const candidate of candidates) {
+        const candidateWords = new Set(keyOf(candidate).split(' '));
+        let shared = 0;
+        for (const word of candidateWords) {
+            if (words.has(word)) {
+                shared++;
+            }
+        }
+        const score = shared / (words.size + candidateWords.size - shared);
+        if (score >= bestScore) {
+            best = candidate;
+            bestScore = score;
+        }
+    }
+
+    return best;
+}
+
+function truncate(text: string): string {
+    return text.length > MAX_CHANGE_LENGTH ? `${text.slice(0, MAX_CHANGE_LENGTH)}…` : text;
+}
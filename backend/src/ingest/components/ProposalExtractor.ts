@@ -0,0 +1,283 @@
+import { Logger, type ILLMProvider } from '@ticobot/shared';
+import { asText, cleanMarkdownBlocks, parseTOON, validateTOON } from '../../rag/utils/toon.js';
+import { normalizeText } from '../../rag/utils/text.js';
+import { isRetryableError, getBackoffDelay, sleep } from '../../providers/retry.js';
+import { createTokenBatches } from './BatchEmbedder.js';
+import type { TextChunk } from './TextChunker.js';
+
+export interface ProposalExtractorOptions {
+    maxWindowTokens?: number;  // Chunk tokens sent per extraction request (default: 3000)
+    concurrency?: number;      // Extraction requests in flight (default: 2)
+    maxRetries?: number;       // Retries of a window on rate limits and transient errors (default: 3)
+    retryDelayMs?: number;     // Base backoff delay, doubled on every retry (default: 1000)
+    topics?: string[];         // Allowed topic slugs (default: DEFAULT_PROPOSAL_TOPICS)
+}
+
+/**
+ * Proposal extracted from a government plan
+ */
+export interface ExtractedProposal {
+    title: string;
+    topic: string;                          // Topic slug, "otro" when none fits
+    description: string;
+    targetPopulation: string | null;
+    quantitativeTargets: string[];          // e.g. "10 000 becas nuevas para 2030"
+    fundingSource: string | null;
+    pageRange: { start: number; end: number } | null;
+    chunkIndexes: number[];                 // Chunks the proposal was extracted from
+}
+
+export interface ProposalExtractionResult {
+    proposals: ExtractedProposal[];
+    failedWindows: number;                  // Windows skipped after exhausting retries
+}
+
+// Same slugs as the seeded proposal matrix topics
+export const DEFAULT_PROPOSAL_TOPICS = [
+    'educacion',
+    'salud',
+    'empleo',
+    'seguridad',
+    'ambiente',
+    'economia',
+    'infraestructura',
+    'corrupcion',
+];
+
+const OTHER_TOPIC = 'otro';
+// Free-text fields of a record, kept whole by parseTOON (figures like "7,5%" or "₡1,500")
+const TEXT_FIELDS = ['title', 'topic', 'description', 'targetPopulation', 'targets', 'funding'];
+const EMPTY_VALUES = new Set(['', '-', 'ninguno', 'ninguna', 'no especifica', 'n/a', 'na']);
+
+/**
+ * Proposal Extractor
+ * Turns chunked plan text into structured proposals with an LLM. Chunks are
+ * sent in token-budgeted windows labelled with their index and pages; the
+ * LLM answers one TOON record per proposal, separated by "---" lines.
+ */
+export class ProposalExtractor {
+    private llmProvider: ILLMProvider;
+    private maxWindowTokens: number;
+    private concurrency: number;
+    private maxRetries: number;
+    private retryDelayMs: number;
+    private topics: string[];
+    private logger: Logger;
+
+    constructor(llmProvider: ILLMProvider, options: ProposalExtractorOptions = {}) {
+        this.llmProvider = llmProvider;
+        this.maxWindowTokens = options.maxWindowTokens ?? 3000;
+        this.concurrency = Math.max(1, options.concurrency ?? 2);
+        this.maxRetries = options.maxRetries ?? 3;
+        this.retryDelayMs = options.retryDelayMs ?? 1000;
+        this.topics = options.topics?.length ? options.topics : DEFAULT_PROPOSAL_TOPICS;
+        this.logger = new Logger('ProposalExtractor');
+    }
+
+    /**
+     * Extract the proposals of a document
+     * @param chunks - Chunks of the document, in order
+     * @param partyName - Party of the plan, used in the prompt
+     * @returns Proposals in document order
+     */
+    async extract(chunks: TextChunk[], partyName: string): Promise<ProposalExtractionResult> {
+        const windows = createTokenBatches(chunks, this.maxWindowTokens, Number.MAX_SAFE_INTEGER);
+        const results: ExtractedProposal[][] = new Array(windows.length);
+        let failedWindows = 0;
+        let nextWindow = 0;
+
+        this.logger.info(
+            `Extracting proposals from ${chunks.length} chunks in ${windows.length} windows ` +
+            `(concurrency: ${this.concurrency})`
+        );
+
+        const worker = async () => {
+            while (nextWindow < windows.length) {
+                const index = nextWindow++;
+                try {
+                    results[index] = await this.extractWindow(windows[index], partyName);
+                } catch (error) {
+                    failedWindows++;
+                    results[index] = [];
+                    this.logger.error(
+                        `Proposal extraction failed for chunks ${windows[index][0].chunkIndex}-` +
+                        `${windows[index][windows[index].length - 1].chunkIndex}: ` +
+                        `${error instanceof Error ? error.message : String(error)}`
+                    );
+                }
+            }
+        };
+
+        await Promise.all(Array.from({ length: Math.min(this.concurrency, windows.length) }, worker));
+
+        const proposals = deduplicateProposals(results.flat());
+        this.logger.info(`Extracted ${proposals.length} proposals (${failedWindows} windows failed)`);
+
+        return { proposals, failedWindows };
+    }
+
+    /**
+     * Extract the proposals of one window, retrying rate limits and transient errors
+     */
+    private async extractWindow(window: TextChunk[], partyName: string): Promise<ExtractedProposal[]> {
+        const context = window
+            .map(chunk => `[chunk ${chunk.chunkIndex}${formatPages(chunk)}]\n${chunk.content}`)
+            .join('\n\n');
+
+        const systemPrompt = `Eres un analista de Planes de Gobierno de Costa Rica 2026.
+Tu tarea es extraer las propuestas concretas del plan del partido ${partyName}.
+Una propuesta es una acción, programa, ley o meta que el partido se compromete a realizar.
+No extraigas diagnósticos, valores generales ni críticas a otros gobiernos.
+
+Devuelve SOLO TOON, un registro por propuesta, separados por una línea con ---:
+title: nombre corto de la propuesta
+topic: uno de ${[...this.topics, OTHER_TOPIC].join('|')}
+description: qué se propone hacer, en una o dos oraciones
+targetPopulation: a quién beneficia, o -
+targets: metas cuantitativas separadas por | (cifras, plazos, porcentajes), o -
+funding: fuente de financiamiento mencionada, o -
+chunks: números de los chunks de donde sale la propuesta
+
+Reglas:
+- Usa solo información del texto, no inventes cifras
+- Si el texto no contiene propuestas, devuelve: ninguna`;
+
+        const userPrompt = `Texto del plan de gobierno:
+
+${context}
+
+Devuelve SOLO TOON con las propuestas encontradas.`;
+
+        for (let attempt = 0; ; attempt++) {
+            try {
+                const response = await this.llmProvider.generateCompletion(
+                    [
+                        { role: 'system', content: systemPrompt },
+                        { role: 'user', content: userPrompt },
+                    ],
+                    {
+                        temperature: 0.1, // Extraction, not generation
+                        maxTokens: 2000,
+                    }
+                );
+
+                return parseProposals(response.content, window, this.topics);
+            } catch (error) {
+                if (!isRetryableError(error) || attempt >= this.maxRetries) {
+                    throw error;
+                }
+
+                const delay = getBackoffDelay(attempt, this.retryDelayMs);
+                this.logger.warn(
+                    `Proposal extraction failed (attempt ${attempt + 1}), retrying in ${delay}ms: ` +
+                    `${error instanceof Error ? error.message : String(error)}`
+                );
+                await sleep(delay);
+            }
+        }
+    }
+}
+
+/**
+ * Parse the TOON proposal records answered for a window of chunks
+ * Records missing a title or description are dropped; unknown chunk numbers
+ * fall back to the whole window
+ */
+export function parseProposals(
+    text: string,
+    window: TextChunk[],
+    topics: string[] = DEFAULT_PROPOSAL_TOPICS
+): ExtractedProposal[] {
+    const windowIndexes = window.map(chunk => chunk.chunkIndex);
+    const records = cleanMarkdownBlocks(text).split(/^\s*---+\s*$/m);
+    const proposals: ExtractedProposal[] = [];
+
+    for (const record of records) {
+        const parsed = parseTOON(record, TEXT_FIELDS);
+        if (!parsed || Object.keys(parsed).length === 0 || !validateTOON(parsed, ['title', 'description'])) {
+            continue;
+        }
+
+        const title = asText(parsed.title);
+        const description = asText(parsed.description);
+        if (!title || !description) {
+            continue;
+        }
+
+        const topic = normalizeTopic(asText(parsed.topic), topics);
+        const referenced = asList(parsed.chunks)
+            .map(value => parseInt(value.replace(/[^0-9]/g, ''), 10))
+            .filter(chunkIndex => windowIndexes.includes(chunkIndex));
+        const chunkIndexes = referenced.length > 0 ? [...new Set(referenced)].sort((a, b) => a - b) : windowIndexes;
+
+        proposals.push({
+            title,
+            topic,
+            description,
+            targetPopulation: asOptionalText(parsed.targetPopulation),
+            quantitativeTargets: asText(parsed.targets)
+                .split('|')
+                .map(target => target.trim())
+                .filter(target => !EMPTY_VALUES.has(target.toLowerCase())),
+            fundingSource: asOptionalText(parsed.funding),
+            pageRange: pageRangeOf(window.filter(chunk => chunkIndexes.includes(chunk.chunkIndex))),
+            chunkIndexes,
+        });
+    }
+
+    return proposals;
+}
+
+/**
+ * Drop proposals repeated across windows (chunk overlap), keeping the first
+ * Only the same title and topic from the same or adjacent chunks is a repeat:
+ * plans reuse titles in other sections (e.g. "Fortalecer la CCSS")
+ */
+function deduplicateProposals(proposals: ExtractedProposal[]): ExtractedProposal[] {
+    const kept = new Map<string, ExtractedProposal[]>();
+    return proposals.filter(proposal => {
+        const key = `${proposal.topic}:${normalizeText(proposal.title)}`;
+        const sameKey = kept.get(key) ?? [];
+        if (sameKey.some(other => areAdjacent(other.chunkIndexes, proposal.chunkIndexes))) {
+            return false;
+        }
+        kept.set(key, [...sameKey, proposal]);
+        return true;
+    });
+}
+
+function areAdjacent(a: number[], b: number[]): boolean {
+    return a.some(x => b.some(y => Math.abs(x - y) <= 1));
+}
+
+function normalizeTopic(value: string, topics: string[]): string {
+    const topic = normalizeText(value);
+    return topics.find(candidate => normalizeText(candidate) === topic) ?? OTHER_TOPIC;
+}
+
+function pageRangeOf(chunks: TextChunk[]): { start: number; end: number } | null {
+    const pages = chunks.flatMap(chunk =>
+        chunk.pageRange ? [chunk.pageRange.start, chunk.pageRange.end] : chunk.pageNumber ? [chunk.pageNumber] : []
+    );
+    return pages.length > 0 ? { start: Math.min(...pages), end: Math.max(...pages) } : null;
+}
+
+function formatPages(chunk: TextChunk): string {
+    const range = pageRangeOf([chunk]);
+    if (!range) {
+        return '';
+    }
+    return range.start === range.end ? ` | página ${range.start}` : ` | páginas ${range.start}-${range.end}`;
+}
+
+function asOptionalText(value: unknown): string | null {
+    const text = asText(value);
+    return EMPTY_VALUES.has(text.toLowerCase()) ? null : text;
+}
+
+function asList(value: unknown): string[] {
+    if (Array.isArray(value)) {
+        return value.map(String);
+    }
+    return typeof value === 'string' && value.length > 0 ? [value] : [];
+}
@@ -1,3 +1,4 @@
+import { createHash } from 'crypto';
 import { get_encoding } from 'tiktoken';
 import { Logger } from '@ticobot/shared';
 import type { PageMarker } from './TextCleaner.js';
@@ -8,6 +9,7 @@ export interface ChunkOptions {
     overlapSize?: number;      // Overlap tokens (default: 50)
     splitOn?: 'paragraph' | 'sentence' | 'word';
     pageMarkers?: PageMarker[]; // Optional page markers for metadata
+    ocrPages?: number[];       // Pages whose text was recognized with OCR
     embeddingMaxTokens?: number; // Maximum tokens allowed by embedding model (default: 8192)
 }
 
@@ -21,6 +23,23 @@ export interface TextChunk {
     endChar: number;
     pageNumber?: number;        // Page number where chunk starts
     pageRange?: { start: number; end: number }; // If chunk spans pages
+    ocr?: boolean;              // Text (partly) recognized with OCR, set when ocrPages are given
+}
+
+// Share of the embedding model limit left free (tokens are counted with
+// cl100k_base, the tokenizer of the embedding model may count more)
+const EMBEDDING_SAFETY_RATIO = 0.15;
+const MIN_EMBEDDING_SAFETY_MARGIN = 8;
+
+/**
+ * Content version of a chunked document: changes whenever any chunk changes
+ */
+export function computeContentVersion(chunks: TextChunk[]): string {
+    const hash = createHash('sha256');
+    for (const chunk of chunks) {
+        hash.update(`${chunk.chunkIndex}\u0000${chunk.content}\u0000`);
+    }
+    return hash.digest('hex');
 }
 
 export class TextChunker {
@@ -51,11 +70,13 @@ export class TextChunker {
             overlapSize = 50,
             splitOn = 'paragraph',
             pageMarkers = [],
+            ocrPages = [],
             embeddingMaxTokens = 8192
         } = options;
 
-        // Effective max chunk size is the minimum of maxChunkSize and embeddingMaxTokens
-        const effectiveMaxChunkSize = Math.min(maxChunkSize, embeddingMaxTokens - 100); // 100 token safety margin
+        // Effective max chunk size is the minimum of maxChunkSize and embeddingMaxTokens minus a safety margin
+        const safetyMargin = Math.max(MIN_EMBEDDING_SAFETY_MARGIN, Math.ceil(embeddingMaxTokens * EMBEDDING_SAFETY_RATIO));
+        const effectiveMaxChunkSize = Math.min(maxChunkSize, embeddingMaxTokens - safetyMargin);
 
         this.logger.info(`Chunking text for ${documentId} (${text.length} chars, target: ${chunkSize} tokens, max: ${effectiveMaxChunkSize} tokens)`);
 
@@ -195,6 +216,14 @@ export class TextChunker {
             }
         }
 
+        if (ocrPages.length > 0) {
+            for (const chunk of validChunks) {
+                const start = chunk.pageRange?.start ?? chunk.pageNumber;
+                const end = chunk.pageRange?.end ?? start;
+                chunk.ocr = start !== undefined && ocrPages.some(page => page >= start && page <= end!);
+            }
+        }
+
         this.logger.info(`Created ${validChunks.length} chunks for ${documentId}`);
 
         return validChunks;
@@ -0,0 +1,163 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import type { IEmbeddingProvider } from '@ticobot/shared';
+import { BatchEmbedder, createTokenBatches } from '../BatchEmbedder';
+import type { TextChunk } from '../TextChunker';
+
+function makeChunks(count: number, tokens = 10): TextChunk[] {
+    return Array.from({ length: count }, (_, i) => ({
+        chunkId: `doc-chunk-${i}`,
+        documentId: 'doc',
+        content: `chunk ${i}`,
+        tokens,
+        chunkIndex: i,
+        startChar: 0,
+        endChar: 0,
+    }));
+}
+
+/**
+ * Fake provider that embeds "chunk N" as [N, 1] and records every batch
+ */
+function makeProvider(options: { fail?: (call: number) => Error | null; model?: string } = {}) {
+    const batches: string[][] = [];
+    let inFlight = 0;
+    let maxInFlight = 0;
+
+    const provider: IEmbeddingProvider = {
+        generateEmbedding: async () => {
+            throw new Error('generateEmbedding should not be used');
+        },
+        generateBatch: async (texts) => {
+            const call = batches.length;
+            batches.push(texts);
+            inFlight++;
+            maxInFlight = Math.max(maxInFlight, inFlight);
+
+            try {
+                await new Promise(resolve => setTimeout(resolve, 5));
+                const error = options.fail?.(call);
+                if (error) {
+                    throw error;
+                }
+                return {
+                    embeddings: texts.map(text => [Number(text.split(' ')[1]), 1]),
+                    model: options.model ?? 'fake-embedding',
+                    usage: { promptTokens: 0, totalTokens: 0 },
+                };
+            } finally {
+                inFlight--;
+            }
+        },
+        getDimension: () => 2,
+        getMaxInputLength: () => 8191,
+        getModelName: () => options.model ?? 'fake-embedding',
+    };
+
+    return { provider, batches, getMaxInFlight: () => maxInFlight };
+}
+
+describe('BatchEmbedder', () => {
+    let tempDir: string;
+    let checkpointPath: string;
+
+    beforeEach(async () => {
+        tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'batch-embedder-'));
+        checkpointPath = path.join(tempDir, 'doc.embeddings.jsonl');
+    });
+
+    afterEach(async () => {
+        await fs.rm(tempDir, { recursive: true, force: true });
+    });
+
+    it('should group chunks by token budget and batch size', () => {
+        const chunks = makeChunks(5, 40);
+        chunks[2].tokens = 500; // Larger than the budget: batched alone
+
+        const batches = createTokenBatches(chunks, 100, 2);
+
+        expect(batches.map(batch => batch.map(chunk => chunk.chunkIndex))).toEqual([
+            [0, 1],
+            [2],
+            [3, 4],
+        ]);
+    });
+
+    it('should return embeddings in chunk order using bounded concurrency', async () => {
+        const { provider, batches, getMaxInFlight } = makeProvider();
+        const embedder = new BatchEmbedder(provider, { maxBatchSize: 2, concurrency: 2 });
+
+        const embeddings = await embedder.embedChunks(makeChunks(9));
+
+        expect(embeddings).toEqual(makeChunks(9).map(chunk => [chunk.chunkIndex, 1]));
+        expect(batches).toHaveLength(5);
+        expect(getMaxInFlight()).toBe(2);
+    });
+
+    it('should retry rate limited batches with backoff', async () => {
+        const { provider, batches } = makeProvider({
+            fail: call => call < 2 ? new Error('429 Rate limit reached for requests') : null,
+        });
+        const embedder = new BatchEmbedder(provider, { retryDelayMs: 1 });
+
+        const embeddings = await embedder.embedChunks(makeChunks(3));
+
+        expect(embeddings).toHaveLength(3);
+        expect(batches).toHaveLength(3);
+    });
+
+    it('should not retry non-retryable errors', async () => {
+        const { provider, batches } = makeProvider({
+            fail: () => new Error('400 Invalid input'),
+        });
+        const embedder = new BatchEmbedder(provider, { retryDelayMs: 1 });
+
+        await expect(embedder.embedChunks(makeChunks(3))).rejects.toThrow('400 Invalid input');
+        expect(batches).toHaveLength(1);
+    });
+
+    it('should resume from the checkpoint after a failure', async () => {
+        const chunks = makeChunks(6);
+        const failing = makeProvider({
+            fail: call => call === 2 ? new Error('400 Invalid input') : null,
+        });
+
+        await expect(
+            new BatchEmbedder(failing.provider, { maxBatchSize: 2, concurrency: 1 })
+                .embedChunks(chunks, { checkpointPath })
+        ).rejects.toThrow();
+
+        const { provider, batches } = makeProvider();
+        const progress: number[] = [];
+        const embeddings = await new BatchEmbedder(provider, { maxBatchSize: 2, concurrency: 1 })
+            .embedChunks(chunks, {
+                checkpointPath,
+                onProgress: ({ embedded, resumed }) => {
+                    expect(resumed).toBe(4);
+                    progress.push(embedded);
+                },
+            });
+
+        // Only the batch that failed is embedded again
+        expect(batches).toEqual([['chunk 4', 'chunk 5']]);
+        expect(progress).toEqual([6]);
+        expect(embeddings).toEqual(chunks.map(chunk => [chunk.chunkIndex, 1]));
+    });
+
+    it('should ignore a checkpoint from another model or other chunks', async () => {
+        const chunks = makeChunks(4);
+        await new BatchEmbedder(makeProvider({ model: 'old-model' }).provider)
+            .embedChunks(chunks, { checkpointPath });
+
+        const otherModel = makeProvider();
+        await new BatchEmbedder(otherModel.provider).embedChunks(chunks, { checkpointPath });
+        expect(otherModel.batches).toHaveLength(1);
+
+        const changedChunks = makeProvider();
+        const edited = makeChunks(4).map(chunk => ({ ...chunk, content: `${chunk.content} edited` }));
+        await new BatchEmbedder(changedChunks.provider).embedChunks(edited, { checkpointPath });
+        expect(changedChunks.batches).toHaveLength(1);
+    });
+});
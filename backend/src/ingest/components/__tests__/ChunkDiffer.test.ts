@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest';
+import { diffChunks, fingerprintChunk, mergePageRanges } from '../ChunkDiffer';
+import { makeChunks } from './fixtures/chunks.js';
+import type { StoredChunkFingerprint } from '../../../providers/vector/chunkFingerprints';
+
+function store(contents: string[]): StoredChunkFingerprint[] {
+    return contents.map((content, chunkIndex) => ({
+        id: `stored-${chunkIndex}`,
+        chunkIndex,
+        contentHash: fingerprintChunk(content),
+        pageRange: { start: chunkIndex + 1, end: chunkIndex + 1 },
+    }));
+}
+
+describe('ChunkDiffer', () => {
+    it('should write nothing when the chunks are identical', () => {
+        const contents = ['Educación', 'Salud', 'Seguridad'];
+        const { report, writes, removeFrom } = diffChunks(store(contents), makeChunks(contents));
+
+        expect(writes).toEqual([]);
+        expect(removeFrom).toBe(3);
+        expect(report).toMatchObject({ added: 0, removed: 0, modified: 0, unchanged: 3, embedded: 0 });
+    });
+
+    it('should rewrite every chunk when the stored embeddings cannot be reused', () => {
+        const contents = ['Educación', 'Salud', 'Seguridad'];
+        const { report, writes } = diffChunks(store(contents), makeChunks(['Educación', 'Salud', 'Seguridad', 'Empleo']), {
+            reuseEmbeddings: false,
+        });
+
+        expect(writes.map(write => write.chunk.chunkIndex)).toEqual([0, 1, 2, 3]);
+        expect(writes.every(write => write.reuseChunkId === undefined)).toBe(true);
+        expect(report).toMatchObject({ added: 1, unchanged: 3, embedded: 4 });
+    });
+
+    it('should only embed a chunk whose text changed', () => {
+        const { report, writes } = diffChunks(
+            store(['Educación', 'Salud', 'Seguridad']),
+            makeChunks(['Educación', 'Salud pública', 'Seguridad'])
+        );
+
+        expect(writes.map(write => write.chunk.chunkIndex)).toEqual([1]);
+        expect(writes[0].reuseChunkId).toBeUndefined();
+        expect(report).toMatchObject({ modified: 1, unchanged: 2, embedded: 1 });
+        expect(report.pages.modified).toEqual([{ start: 2, end: 2 }]);
+    });
+
+    it('should reuse embeddings of chunks that moved to another index', () => {
+        const { report, writes, removeFrom } = diffChunks(
+            store(['Educación', 'Salud', 'Seguridad']),
+            makeChunks(['Introducción', 'Educación', 'Salud', 'Seguridad'])
+        );
+
+        // Every index changed its content, but only the new chunk is embedded
+        expect(writes.map(write => write.reuseChunkId)).toEqual([undefined, 'stored-0', 'stored-1', 'stored-2']);
+        expect(report).toMatchObject({ added: 1, modified: 0, removed: 0, unchanged: 3, embedded: 1 });
+        expect(report.pages.added).toEqual([{ start: 1, end: 1 }]);
+        expect(removeFrom).toBe(4);
+    });
+
+    it('should report removed chunks and delete the rows past the end', () => {
+        const { report, writes, removeFrom } = diffChunks(
+            store(['Educación', 'Salud', 'Seguridad', 'Ambiente']),
+            makeChunks(['Educación', 'Salud'])
+        );
+
+        expect(writes).toEqual([]);
+        expect(removeFrom).toBe(2);
+        expect(report).toMatchObject({ removed: 2, unchanged: 2, previousChunks: 4, currentChunks: 2 });
+        expect(report.pages.removed).toEqual([{ start: 3, end: 4 }]);
+    });
+
+    it('should merge overlapping and adjacent page ranges', () => {
+        expect(mergePageRanges([
+            { start: 5, end: 6 },
+            undefined,
+            { start: 1, end: 2 },
+            { start: 3, end: 3 },
+            { start: 6, end: 8 },
+            { start: 12, end: 12 },
+        ])).toEqual([
+            { start: 1, end: 3 },
+            { start: 5, end: 8 },
+            { start: 12, end: 12 },
+        ]);
+    });
+});
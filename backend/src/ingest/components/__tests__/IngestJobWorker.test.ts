@@ -0,0 +1,189 @@
+import { describe, it, expect } from 'vitest';
+import { IngestJobWorker, type IngestionJobStore } from '../IngestJobWorker';
+import type { IngestOptions, IngestResult } from '../IngestPipeline';
+import type { IngestionJob, IngestionJobResult } from '../../../db/services/ingestion-jobs.service';
+
+function makeJob(data: Partial<IngestionJob> = {}): IngestionJob {
+    return {
+        id: 'job-1',
+        status: 'running',
+        documents: [
+            { url: 'https://example.com/pln.pdf', documentId: 'pln-2026' },
+            { url: 'https://example.com/fa.pdf', documentId: 'fa-2026' },
+        ],
+        options: { storeInVectorDB: true },
+        progress: null,
+        results: [],
+        error: null,
+        attempts: 1,
+        cancel_requested: false,
+        created_by: null,
+        created_at: '2025-12-31T00:00:00Z',
+        started_at: '2025-12-31T00:00:00Z',
+        finished_at: null,
+        heartbeat_at: null,
+        updated_at: '2025-12-31T00:00:00Z',
+        ...data,
+    };
+}
+
+/**
+ * In-memory queue that hands out the given jobs once
+ */
+function makeStore(jobs: IngestionJob[]) {
+    const queue = [...jobs];
+    const saved: IngestionJobResult[][] = [];
+    const finished: Array<{ status: string; error: string | null }> = [];
+    let cancelRequested = false;
+
+    const store: IngestionJobStore = {
+        claimNext: async () => queue.shift() ?? null,
+        heartbeat: async () => ({ cancelRequested }),
+        saveResults: async (_id, results) => {
+            saved.push(results);
+        },
+        finish: async (id, status, error = null) => {
+            finished.push({ status, error });
+            return makeJob({ id, status, error });
+        },
+    };
+
+    return { store, saved, finished, requestCancel: () => { cancelRequested = true; } };
+}
+
+/**
+ * Pipeline that reports every stage and fails the given documents
+ */
+function makePipeline(options: { fail?: string[]; onIngest?: (documentId: string) => void } = {}) {
+    const ingested: string[] = [];
+
+    const pipeline = {
+        ingest: async (_url: string, documentId: string, ingestOptions: IngestOptions = {}): Promise<IngestResult> => {
+            ingested.push(documentId);
+            options.onIngest?.(documentId);
+
+            const stats = { downloadTime: 1, parseTime: 1, cleanTime: 1, chunkTime: 1, totalTime: 4 };
+            for (const stage of ['download', 'parse', 'clean', 'chunk', 'embed', 'store'] as const) {
+                if (ingestOptions.signal?.aborted) {
+                    return { documentId, success: false, error: 'Ingestion cancelled', stats };
+                }
+                ingestOptions.onProgress?.({ documentId, stage, stats });
+                await new Promise(resolve => setTimeout(resolve, 1));
+            }
+
+            return options.fail?.includes(documentId)
+                ? { documentId, success: false, error: 'PDF download failed', stats }
+                : { documentId, success: true, chunks: [], stats };
+        },
+        dispose: () => {},
+    };
+
+    return { pipeline, ingested };
+}
+
+describe('IngestJobWorker', () => {
+    it('should process queued jobs and publish per-stage progress', async () => {
+        const { store, saved, finished } = makeStore([makeJob()]);
+        const { pipeline, ingested } = makePipeline();
+        const worker = new IngestJobWorker(store, { createPipeline: () => pipeline });
+
+        const updates: IngestionJob[] = [];
+        worker.subscribe('job-1', job => updates.push(job));
+
+        await worker.poll();
+
+        expect(ingested).toEqual(['pln-2026', 'fa-2026']);
+        expect(finished).toEqual([{ status: 'completed', error: null }]);
+        expect(saved.at(-1)?.map(result => result.documentId)).toEqual(['pln-2026', 'fa-2026']);
+
+        const stages = updates.filter(job => job.progress?.documentIndex === 1).map(job => job.progress?.stage);
+        expect(stages).toEqual(expect.arrayContaining(['download', 'parse', 'clean', 'chunk', 'embed', 'store']));
+        expect(updates.at(-1)?.status).toBe('completed');
+    });
+
+    it('should skip the documents a reclaimed job already ingested', async () => {
+        const previous: IngestionJobResult = {
+            documentId: 'pln-2026',
+            success: true,
+            chunkCount: 120,
+            stats: { downloadTime: 1, parseTime: 1, cleanTime: 1, chunkTime: 1, totalTime: 4 },
+        };
+        const { store, saved } = makeStore([makeJob({ attempts: 2, results: [previous] })]);
+        const { pipeline, ingested } = makePipeline();
+
+        await new IngestJobWorker(store, { createPipeline: () => pipeline }).poll();
+
+        expect(ingested).toEqual(['fa-2026']);
+        expect(saved.at(-1)?.map(result => result.documentId)).toEqual(['pln-2026', 'fa-2026']);
+    });
+
+    it('should fail the job when a document fails', async () => {
+        const { store, finished } = makeStore([makeJob()]);
+        const { pipeline } = makePipeline({ fail: ['fa-2026'] });
+
+        await new IngestJobWorker(store, { createPipeline: () => pipeline }).poll();
+
+        expect(finished).toEqual([{ status: 'failed', error: '1 of 2 documents failed: fa-2026' }]);
+    });
+
+    it('should stop a cancelled job before the remaining documents', async () => {
+        const { store, saved, finished } = makeStore([makeJob()]);
+        const { pipeline, ingested } = makePipeline({
+            onIngest: () => worker.cancel('job-1'),
+        });
+        const worker = new IngestJobWorker(store, { createPipeline: () => pipeline });
+
+        await worker.poll();
+
+        expect(ingested).toEqual(['pln-2026']);
+        expect(saved).toEqual([]);
+        expect(finished).toEqual([{ status: 'cancelled', error: 'Cancelled by an admin' }]);
+    });
+
+    it('should stop when cancellation is requested through the heartbeat', async () => {
+        const { store, finished, requestCancel } = makeStore([makeJob()]);
+        const { pipeline, ingested } = makePipeline({ onIngest: requestCancel });
+
+        // Every stage change sends a heartbeat
+        await new IngestJobWorker(store, { createPipeline: () => pipeline }).poll();
+
+        expect(ingested).toEqual(['pln-2026']);
+        expect(finished[0].status).toBe('cancelled');
+    });
+
+    it('should fail a job whose results cannot be saved and keep draining the queue', async () => {
+        const { store, finished } = makeStore([makeJob(), makeJob({ id: 'job-2' })]);
+        const { pipeline, ingested } = makePipeline();
+        store.saveResults = async (id) => {
+            if (id === 'job-1') {
+                throw new Error('Failed to save job results: connection reset');
+            }
+        };
+
+        const updates: IngestionJob[] = [];
+        const worker = new IngestJobWorker(store, { createPipeline: () => pipeline });
+        worker.subscribe('job-1', job => updates.push(job));
+
+        await worker.poll();
+
+        expect(ingested).toEqual(['pln-2026', 'pln-2026', 'fa-2026']);
+        expect(finished).toEqual([
+            { status: 'failed', error: 'Failed to save job results: connection reset' },
+            { status: 'completed', error: null },
+        ]);
+        expect(updates.at(-1)?.status).toBe('failed');
+    });
+
+    it('should keep polling when the queue is unavailable', async () => {
+        const store: IngestionJobStore = {
+            claimNext: async () => {
+                throw new Error('Missing Supabase configuration');
+            },
+            heartbeat: async () => ({ cancelRequested: false }),
+            saveResults: async () => {},
+            finish: async () => makeJob(),
+        };
+
+        await expect(new IngestJobWorker(store).poll()).resolves.toBeUndefined();
+    });
+});
@@ -1,5 +1,8 @@
-import { describe, it, expect, beforeEach } from 'vitest';
-import { PDFParser } from '../PDFParser';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { PDFParse } from 'pdf-parse';
+import { readFile } from 'fs/promises';
+import { PDFParser, joinPages, measurePageText } from '../PDFParser';
+import { TextCleaner } from '../TextCleaner';
 import path from 'path';
 import { fileURLToPath } from 'url';
 import { dirname } from 'path';
@@ -7,11 +10,22 @@ import { dirname } from 'path';
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
 
+const ocr = vi.hoisted(() => ({
+    recognize: vi.fn(),
+    terminate: vi.fn(),
+}));
+
+vi.mock('../PageOCR', () => ({
+    PageOCR: vi.fn(() => ocr),
+}));
+
 describe('PDFParser', () => {
     let parser: PDFParser;
 
     beforeEach(() => {
         parser = new PDFParser();
+        ocr.recognize.mockReset();
+        ocr.terminate.mockReset();
     });
 
     it('should parse a valid PDF file', async () => {
@@ -30,4 +44,75 @@ describe('PDFParser', () => {
 
         expect(isValid).toBe(true);
     });
+
+    it('should measure the readable text of a page', () => {
+        expect(measurePageText('Propuestas de educación para 2026.')).toMatchObject({ chars: 29 });
+        expect(measurePageText('  \n ').chars).toBe(0);
+        expect(measurePageText('Ý\u0001\u0002\uE000\uE001\uFFFD').readableRatio).toBeLessThan(0.5);
+    });
+
+    it('should join pages exactly like pdf-parse', async () => {
+        const pdf = new PDFParse({ data: await readFile(path.join(__dirname, 'example.pdf')) });
+        const { pages, total, text } = await pdf.getText();
+        await pdf.destroy();
+
+        expect(joinPages(pages, total)).toBe(text);
+    });
+
+    it('should not run OCR on pages with enough text', async () => {
+        const result = await parser.parse(path.join(__dirname, 'example.pdf'), 'test-doc-001');
+
+        expect(result.ocrPages).toEqual([]);
+        expect(ocr.recognize).not.toHaveBeenCalled();
+    });
+
+    it('should replace the text of sparse pages with OCR and keep the page markers', async () => {
+        ocr.recognize.mockResolvedValue({ text: 'Texto reconocido del plan. '.repeat(100), confidence: 90 });
+        const ocrParser = new PDFParser({ ocr: { minPageChars: 1000, scale: 0.5 } });
+
+        const result = await ocrParser.parse(path.join(__dirname, 'example.pdf'), 'test-doc-001');
+        const { pageMarkers } = new TextCleaner().cleanWithMetadata(result.text);
+
+        // Pages 1 and 4 of the example have fewer than 1000 letters and digits
+        expect(result.ocrPages).toEqual([1, 4]);
+        expect(ocr.recognize).toHaveBeenCalledTimes(2);
+        expect(ocr.terminate).toHaveBeenCalled();
+        expect(result.text).toContain('Texto reconocido del plan.');
+        expect(pageMarkers.map(marker => marker.pageNumber)).toEqual([1, 2, 3, 4]);
+    });
+
+    it('should keep the extracted text of a page whose OCR timed out', async () => {
+        ocr.recognize
+            .mockResolvedValueOnce(null)
+            .mockResolvedValueOnce({ text: 'Texto reconocido del plan. '.repeat(100), confidence: 90 });
+
+        const result = await new PDFParser({ ocr: { minPageChars: 1000, scale: 0.5, pageTimeoutMs: 10 } })
+            .parse(path.join(__dirname, 'example.pdf'), 'test-doc-001');
+
+        expect(result.ocrPages).toEqual([4]);
+        expect(ocr.recognize).toHaveBeenCalledWith(expect.anything(), expect.objectContaining({ timeoutMs: 10 }));
+    });
+
+    it('should fail the parse when the OCR is aborted', async () => {
+        ocr.recognize.mockRejectedValue(new Error('OCR aborted'));
+        const controller = new AbortController();
+        controller.abort();
+
+        await expect(
+            new PDFParser({ ocr: { minPageChars: 1000, scale: 0.5 } })
+                .parse(path.join(__dirname, 'example.pdf'), 'test-doc-001', { signal: controller.signal })
+        ).rejects.toThrow('OCR aborted');
+        expect(ocr.terminate).toHaveBeenCalled();
+    });
+
+    it('should keep the extracted text when OCR is unavailable', async () => {
+        ocr.recognize.mockRejectedValue(new Error('Tesseract language data not found'));
+        const expected = await new PDFParser({ ocr: false }).parse(path.join(__dirname, 'example.pdf'), 'test-doc-001');
+
+        const result = await new PDFParser({ ocr: { minPageChars: 1000, scale: 0.5 } })
+            .parse(path.join(__dirname, 'example.pdf'), 'test-doc-001');
+
+        expect(result.ocrPages).toEqual([]);
+        expect(result.text).toBe(expected.text);
+    });
 });
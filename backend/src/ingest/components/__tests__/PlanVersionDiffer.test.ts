@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest';
+import {
+    diffPlanVersions,
+    diffProposals,
+    isHeading,
+    toVersionChunks,
+    type VersionChunk,
+    type VersionProposal,
+} from '../PlanVersionDiffer';
+import { makeChunks } from './fixtures/chunks.js';
+
+function version(contents: string[]): VersionChunk[] {
+    return toVersionChunks(makeChunks(contents));
+}
+
+function proposal(title: string): VersionProposal {
+    return { title, topic: 'Educación', pageStart: 1, pageEnd: 1 };
+}
+
+describe('PlanVersionDiffer', () => {
+    it('should recognize headings of the plans', () => {
+        expect(isHeading('EDUCACIÓN PÚBLICA')).toBe(true);
+        expect(isHeading('3.2 Seguridad ciudadana')).toBe(true);
+        expect(isHeading('Eje 4 Ambiente')).toBe(true);
+        expect(isHeading('Fortaleceremos la educación técnica en todas las regiones.')).toBe(false);
+        expect(isHeading('2026')).toBe(false);
+    });
+
+    it('should carry the section of the last heading into the next chunks', () => {
+        const chunks = version([
+            'EDUCACIÓN\n\nMás becas para estudiantes.',
+            'Más comedores escolares.',
+            'SALUD\n\nMenos listas de espera.',
+        ]);
+
+        expect(chunks.map(chunk => chunk.section)).toEqual(['EDUCACIÓN', 'EDUCACIÓN', 'SALUD']);
+    });
+
+    it('should report nothing when the text did not change', () => {
+        const contents = ['EDUCACIÓN\n\nMás becas para estudiantes.', 'SALUD\n\nMenos listas de espera.'];
+        const diff = diffPlanVersions(version(contents), version(contents));
+
+        expect(diff.sections).toEqual([]);
+        expect(diff.summary).toMatchObject({ added: 0, removed: 0, changed: 0, unchanged: 4 });
+    });
+
+    it('should group added, removed and changed paragraphs by section and page', () => {
+        const diff = diffPlanVersions(
+            version([
+                'EDUCACIÓN\n\nDuplicaremos las becas para estudiantes de secundaria en zonas rurales.',
+                'SALUD\n\nMenos listas de espera.\n\nMás EBAIS en la zona norte.',
+            ]),
+            version([
+                'EDUCACIÓN\n\nTriplicaremos las becas para estudiantes de secundaria en zonas rurales.\n\nInglés desde preescolar.',
+                'SALUD\n\nMenos listas de espera.',
+            ])
+        );
+
+        expect(diff.summary).toMatchObject({ added: 1, removed: 1, changed: 1, sections: 2 });
+        expect(diff.sections.map(section => section.section)).toEqual(['EDUCACIÓN', 'SALUD']);
+
+        const [education, health] = diff.sections;
+        expect(education.pages).toEqual([{ start: 1, end: 1 }]);
+        expect(education.changes.map(change => change.type).sort()).toEqual(['added', 'changed']);
+        expect(education.changes.find(change => change.type === 'changed')).toMatchObject({
+            before: expect.stringContaining('Duplicaremos'),
+            after: expect.stringContaining('Triplicaremos'),
+        });
+        expect(health.changes).toEqual([
+            { type: 'removed', before: 'Más EBAIS en la zona norte.', pageStart: 2, pageEnd: 2 },
+        ]);
+    });
+
+    it('should ignore the overlap repeated at the start of a chunk', () => {
+        const previous = version(['Primer párrafo.\n\nSegundo párrafo.', 'Tercer párrafo.']);
+        const current = version(['Primer párrafo.\n\nSegundo párrafo.', 'Segundo párrafo.\n\nTercer párrafo.']);
+
+        expect(diffPlanVersions(previous, current).summary).toMatchObject({ added: 0, removed: 0, changed: 0 });
+    });
+
+    it('should find proposals added and dropped regardless of accents and wording details', () => {
+        const changes = diffProposals(
+            [proposal('Ampliar la red de cuido'), proposal('Construir el tren eléctrico')],
+            [proposal('Ampliar la Red de Cuido infantil'), proposal('Eliminar el marchamo')]
+        );
+
+        expect(changes.added.map(p => p.title)).toEqual(['Eliminar el marchamo']);
+        expect(changes.dropped.map(p => p.title)).toEqual(['Construir el tren eléctrico']);
+    });
+});
@@ -0,0 +1,171 @@
+import { describe, it, expect } from 'vitest';
+import type { ILLMProvider } from '@ticobot/shared';
+import { ProposalExtractor, parseProposals } from '../ProposalExtractor';
+import type { TextChunk } from '../TextChunker';
+
+function makeChunks(count: number, tokens = 100): TextChunk[] {
+    return Array.from({ length: count }, (_, i) => ({
+        chunkId: `fa-2026-chunk-${i}`,
+        documentId: 'fa-2026',
+        content: `Texto del chunk ${i}`,
+        tokens,
+        chunkIndex: i,
+        startChar: 0,
+        endChar: 0,
+        pageNumber: i + 1,
+        pageRange: i === 1 ? { start: 2, end: 3 } : undefined,
+    }));
+}
+
+/**
+ * Fake LLM answering one record per window, built from the chunk labels it receives
+ */
+function makeLLMProvider(options: { fail?: (call: number) => Error | null; sameTitle?: boolean } = {}) {
+    const prompts: string[] = [];
+
+    const provider: ILLMProvider = {
+        generateCompletion: async (messages) => {
+            const call = prompts.length;
+            const prompt = messages[1].content;
+            prompts.push(prompt);
+
+            const error = options.fail?.(call);
+            if (error) {
+                throw error;
+            }
+
+            const indexes = [...prompt.matchAll(/\[chunk (\d+)/g)].map(match => match[1]);
+            return {
+                content: [
+                    options.sameTitle ? 'title: Acueductos rurales' : `title: Acueductos rurales ${indexes[0]}`,
+                    'topic: Ambiente',
+                    'description: Construir acueductos rurales, con prioridad en zonas costeras',
+                    'targetPopulation: Comunidades sin agua potable',
+                    'targets: 100 acueductos | cobertura del 98% en 2030',
+                    'funding: -',
+                    `chunks: ${indexes.join(',')}`,
+                ].join('\n'),
+                model: 'fake-llm',
+                usage: { promptTokens: 0, completionTokens: 0, totalTokens: 0 },
+                finishReason: 'stop',
+            };
+        },
+        generateStreamingCompletion: async function* () {
+            yield '';
+        },
+        getContextWindow: () => 8192,
+        getModelName: () => 'fake-llm',
+        supportsFunctionCalling: () => false,
+    };
+
+    return { provider, prompts };
+}
+
+describe('parseProposals', () => {
+    it('should parse TOON records separated by ---', () => {
+        const text = [
+            '```toon',
+            'title: Becas para secundaria',
+            'topic: educación',
+            'description: Ampliar las becas de Avancemos, priorizando zonas rurales',
+            'targetPopulation: Estudiantes de secundaria',
+            'targets: 50 000 becas nuevas | 2028',
+            'funding: Impuesto a las grandes fortunas',
+            'chunks: 1',
+            '---',
+            'title: Reforma tributaria verde',
+            'topic: vivienda',
+            'description: Gravar la contaminación',
+            'targets: -',
+            'chunks: 99',
+            '---',
+            'title: Sin descripción',
+            '```',
+        ].join('\n');
+
+        const proposals = parseProposals(text, makeChunks(3));
+
+        expect(proposals).toHaveLength(2);
+        expect(proposals[0]).toEqual({
+            title: 'Becas para secundaria',
+            topic: 'educacion',
+            description: 'Ampliar las becas de Avancemos, priorizando zonas rurales',
+            targetPopulation: 'Estudiantes de secundaria',
+            quantitativeTargets: ['50 000 becas nuevas', '2028'],
+            fundingSource: 'Impuesto a las grandes fortunas',
+            pageRange: { start: 2, end: 3 },
+            chunkIndexes: [1],
+        });
+        // Unknown topic and chunk numbers fall back to "otro" and the whole window
+        expect(proposals[1].topic).toBe('otro');
+        expect(proposals[1].quantitativeTargets).toEqual([]);
+        expect(proposals[1].fundingSource).toBeNull();
+        expect(proposals[1].chunkIndexes).toEqual([0, 1, 2]);
+        expect(proposals[1].pageRange).toEqual({ start: 1, end: 3 });
+    });
+
+    it('should keep commas inside figures and free text', () => {
+        const text = [
+            'title: Crecimiento económico, empleo y vivienda',
+            'topic: economia',
+            'description: Bajar el desempleo al 7,5%, con crédito para vivienda',
+            'targetPopulation: Familias de clase media, jóvenes',
+            'targets: desempleo del 7,5% | ₡1,500 millones en bonos',
+            'funding: Presupuesto del BANHVI, 2027',
+            'chunks: 0,1',
+        ].join('\n');
+
+        const [proposal] = parseProposals(text, makeChunks(2));
+
+        expect(proposal).toMatchObject({
+            title: 'Crecimiento económico, empleo y vivienda',
+            description: 'Bajar el desempleo al 7,5%, con crédito para vivienda',
+            targetPopulation: 'Familias de clase media, jóvenes',
+            quantitativeTargets: ['desempleo del 7,5%', '₡1,500 millones en bonos'],
+            fundingSource: 'Presupuesto del BANHVI, 2027',
+            chunkIndexes: [0, 1],
+        });
+    });
+
+    it('should return no proposals when the text has none', () => {
+        expect(parseProposals('ninguna', makeChunks(2))).toEqual([]);
+    });
+});
+
+describe('ProposalExtractor', () => {
+    it('should extract every window and keep document order', async () => {
+        const { provider, prompts } = makeLLMProvider();
+        const extractor = new ProposalExtractor(provider, { maxWindowTokens: 200, concurrency: 2 });
+
+        const { proposals, failedWindows } = await extractor.extract(makeChunks(6), 'FA');
+
+        expect(prompts).toHaveLength(3);
+        expect(failedWindows).toBe(0);
+        expect(proposals.map(proposal => proposal.chunkIndexes)).toEqual([[0, 1], [2, 3], [4, 5]]);
+        expect(proposals[0].quantitativeTargets).toEqual(['100 acueductos', 'cobertura del 98% en 2030']);
+    });
+
+    it('should drop a proposal repeated in the next window but keep it further into the plan', async () => {
+        const { provider } = makeLLMProvider({ sameTitle: true });
+        const extractor = new ProposalExtractor(provider, { maxWindowTokens: 200, concurrency: 1 });
+
+        const { proposals } = await extractor.extract(makeChunks(6), 'FA');
+
+        // Chunks 2-3 overlap the end of chunk 1, chunks 4-5 are another section
+        expect(proposals.map(proposal => proposal.chunkIndexes)).toEqual([[0, 1], [4, 5]]);
+    });
+
+    it('should retry rate limits and skip windows that keep failing', async () => {
+        const { provider, prompts } = makeLLMProvider({
+            fail: call => call === 0 ? new Error('429 Rate limit reached')
+                : call === 1 ? new Error('400 Invalid request') : null,
+        });
+        const extractor = new ProposalExtractor(provider, { maxWindowTokens: 200, concurrency: 1, retryDelayMs: 1 });
+
+        const { proposals, failedWindows } = await extractor.extract(makeChunks(4), 'FA');
+
+        expect(prompts).toHaveLength(3);
+        expect(failedWindows).toBe(1);
+        expect(proposals).toHaveLength(1);
+    });
+});
@@ -1,5 +1,5 @@
 import { describe, it, expect, beforeEach, afterEach } from 'vitest';
-import { TextChunker } from '../TextChunker';
+import { TextChunker, computeContentVersion } from '../TextChunker';
 
 describe('TextChunker', () => {
     let chunker: TextChunker;
@@ -38,10 +38,65 @@ describe('TextChunker', () => {
         }
     });
 
+    it('should fill the input of a 128-token embedding model', async () => {
+        const provider = { getMaxInputLength: () => 128 };
+        const text = Array.from({ length: 40 }, (_, i) =>
+            `Propuesta ${i + 1}: fortaleceremos la educación técnica y las becas en las regiones rurales.`
+        ).join('\n\n');
+
+        const chunks = await chunker.chunk(text, 'test-doc', {
+            overlapSize: 10,
+            embeddingMaxTokens: provider.getMaxInputLength(),
+        });
+
+        expect(chunks.every(chunk => chunk.tokens <= 128)).toBe(true);
+        expect(Math.min(...chunks.slice(0, -1).map(chunk => chunk.tokens))).toBeGreaterThan(64);
+    });
+
     it('should calculate correct token counts', async () => {
         const text = 'This is a test sentence.';
         const chunks = await chunker.chunk(text, 'test-doc');
 
         expect(chunks[0].tokens).toBeGreaterThan(0);
     });
+
+    it('should change the content version only when chunks change', async () => {
+        const text = 'Paragraph 1.\n\nParagraph 2.\n\nParagraph 3.';
+        const options = { chunkSize: 10, maxChunkSize: 20 };
+
+        const version = computeContentVersion(await chunker.chunk(text, 'test-doc', options));
+        const sameVersion = computeContentVersion(await chunker.chunk(text, 'test-doc', options));
+        const editedVersion = computeContentVersion(
+            await chunker.chunk(text.replace('2', 'dos'), 'test-doc', options)
+        );
+
+        expect(sameVersion).toBe(version);
+        expect(editedVersion).not.toBe(version);
+    });
+
+    it('should flag the chunks of pages recognized with OCR', async () => {
+        const page = (name: string) =>
+            `Página ${name}. ` + 'Propuesta de educación pública y salud para todas las regiones del país. '.repeat(4);
+        const text = [page('uno'), page('dos'), page('tres')].join('\n\n');
+        const pageMarkers = ['uno', 'dos', 'tres'].map((name, i) => ({
+            pageNumber: i + 1,
+            totalPages: 3,
+            position: text.indexOf(`Página ${name}`),
+        }));
+
+        const chunks = await chunker.chunk(text, 'test-doc', {
+            chunkSize: 40,
+            maxChunkSize: 80,
+            overlapSize: 5,
+            pageMarkers,
+            ocrPages: [2],
+        });
+
+        // Every chunk touching page 2 is flagged, the one only on page 1 is not
+        expect(chunks.map(chunk => [chunk.pageRange ?? chunk.pageNumber, chunk.ocr])).toEqual([
+            [1, false],
+            [{ start: 1, end: 2 }, true],
+            [{ start: 2, end: 3 }, true],
+        ]);
+    });
 });
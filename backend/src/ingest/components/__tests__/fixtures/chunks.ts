@@ -0,0 +1,17 @@
+import type { TextChunk } from '../../TextChunker.js';
+
+/**
+ * Build one chunk per content string, each on its own page
+ */
+export function makeChunks(contents: string[]): TextChunk[] {
+    return contents.map((content, chunkIndex) => ({
+        chunkId: `doc-chunk-${chunkIndex}`,
+        documentId: 'doc',
+        content,
+        tokens: 10,
+        chunkIndex,
+        startChar: 0,
+        endChar: content.length,
+        pageNumber: chunkIndex + 1,
+    }));
+}
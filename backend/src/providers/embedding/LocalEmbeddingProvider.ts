@@ -0,0 +1,173 @@
+import type { FeatureExtractionPipeline } from '@huggingface/transformers';
+import type {
+  IEmbeddingProvider,
+  EmbeddingResponse,
+  BatchEmbeddingResponse,
+} from '@ticobot/shared';
+import type { Env } from '../../config/env.js';
+
+/**
+ * Dimension and max input length (tokens) of known multilingual sentence-embedding models
+ * Other models require LOCAL_EMBEDDING_DIMENSION
+ */
+const KNOWN_MODELS: Record<string, { dimension: number; maxInputLength: number }> = {
+  'Xenova/paraphrase-multilingual-MiniLM-L12-v2': { dimension: 384, maxInputLength: 128 },
+  'Xenova/paraphrase-multilingual-mpnet-base-v2': { dimension: 768, maxInputLength: 128 },
+  'Xenova/distiluse-base-multilingual-cased-v2': { dimension: 512, maxInputLength: 128 },
+  'Xenova/LaBSE': { dimension: 768, maxInputLength: 256 },
+};
+
+const DEFAULT_MAX_INPUT_LENGTH = 512;
+
+/**
+ * Local Embedding Provider
+ * Implements IEmbeddingProvider by running a sentence-embedding model on CPU
+ * through the ONNX runtime (@huggingface/transformers), so ingestion and search
+ * work without any external API. The model is downloaded once into the cache
+ * directory; with LOCAL_EMBEDDING_OFFLINE=true only cached models are used.
+ */
+export class LocalEmbeddingProvider implements IEmbeddingProvider {
+  private model: string;
+  private dimension: number;
+  private maxInputLength: number;
+  private batchSize: number;
+  private cacheDir?: string;
+  private offline: boolean;
+  private extractorPromise: Promise<FeatureExtractionPipeline> | null = null;
+
+  constructor(env: Env) {
+    this.model = env.LOCAL_EMBEDDING_MODEL;
+
+    const known = KNOWN_MODELS[this.model];
+    const dimension = env.LOCAL_EMBEDDING_DIMENSION ?? known?.dimension;
+    if (!dimension) {
+      throw new Error(
+        `LOCAL_EMBEDDING_DIMENSION is required for local embedding model ${this.model}`
+      );
+    }
+
+    this.dimension = dimension;
+    this.maxInputLength = env.LOCAL_EMBEDDING_MAX_TOKENS ?? known?.maxInputLength ?? DEFAULT_MAX_INPUT_LENGTH;
+    this.batchSize = env.LOCAL_EMBEDDING_BATCH_SIZE;
+    this.cacheDir = env.LOCAL_EMBEDDING_CACHE_DIR;
+    this.offline = env.LOCAL_EMBEDDING_OFFLINE;
+  }
+
+  async generateEmbedding(text: string): Promise<EmbeddingResponse> {
+    try {
+      const [embedding] = await this.embed([text]);
+      const promptTokens = await this.countTokens([text]);
+
+      return {
+        embedding,
+        model: this.model,
+        usage: {
+          promptTokens,
+          totalTokens: promptTokens,
+        },
+      };
+    } catch (error) {
+      throw new Error(
+        `Local embedding generation failed: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  async generateBatch(texts: string[]): Promise<BatchEmbeddingResponse> {
+    try {
+      const embeddings: number[][] = [];
+
+      // Sub-batches bound the memory used by the padded input tensors
+      for (let i = 0; i < texts.length; i += this.batchSize) {
+        embeddings.push(...await this.embed(texts.slice(i, i + this.batchSize)));
+      }
+
+      const promptTokens = await this.countTokens(texts);
+
+      return {
+        embeddings,
+        model: this.model,
+        usage: {
+          promptTokens,
+          totalTokens: promptTokens,
+        },
+      };
+    } catch (error) {
+      throw new Error(
+        `Local batch embedding generation failed: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  getDimension(): number {
+    return this.dimension;
+  }
+
+  getMaxInputLength(): number {
+    return this.maxInputLength;
+  }
+
+  getModelName(): string {
+    return this.model;
+  }
+
+  /**
+   * Embed texts with mean pooling and L2 normalization (cosine-ready vectors)
+   * Inputs longer than the model limit are truncated by the tokenizer
+   */
+  private async embed(texts: string[]): Promise<number[][]> {
+    if (texts.length === 0) {
+      return [];
+    }
+
+    const extractor = await this.getExtractor();
+    const output = await extractor(texts, { pooling: 'mean', normalize: true });
+    const embeddings = output.tolist() as number[][];
+
+    if (embeddings[0].length !== this.dimension) {
+      throw new Error(
+        `Model ${this.model} produced ${embeddings[0].length}-dimensional embeddings, ` +
+        `expected ${this.dimension} (check LOCAL_EMBEDDING_DIMENSION)`
+      );
+    }
+
+    return embeddings;
+  }
+
+  private async countTokens(texts: string[]): Promise<number> {
+    const extractor = await this.getExtractor();
+    return texts.reduce(
+      (total, text) => total + Math.min(extractor.tokenizer.encode(text).length, this.maxInputLength),
+      0
+    );
+  }
+
+  /**
+   * Load the model on first use (loading takes a few seconds and the
+   * runtime is only needed when this provider is selected)
+   */
+  private getExtractor(): Promise<FeatureExtractionPipeline> {
+    if (!this.extractorPromise) {
+      this.extractorPromise = (async () => {
+        const { pipeline, env: runtimeEnv } = await import('@huggingface/transformers');
+
+        if (this.cacheDir) {
+          runtimeEnv.cacheDir = this.cacheDir;
+        }
+        runtimeEnv.allowRemoteModels = !this.offline;
+
+        return pipeline('feature-extraction', this.model, {
+          device: 'cpu',
+          dtype: 'fp32',
+        }) as Promise<FeatureExtractionPipeline>;
+      })();
+
+      // Allow a retry after a failed load (e.g. model not cached yet)
+      this.extractorPromise.catch(() => {
+        this.extractorPromise = null;
+      });
+    }
+
+    return this.extractorPromise;
+  }
+}
@@ -0,0 +1,80 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { LocalEmbeddingProvider } from '../LocalEmbeddingProvider.js';
+import { env } from '../../../config/env.js';
+
+const runtime = vi.hoisted(() => ({
+    dimension: 384,
+    calls: [] as string[][],
+    env: {} as Record<string, unknown>,
+}));
+
+// The ONNX runtime is replaced by an extractor returning one vector per text
+vi.mock('@huggingface/transformers', () => ({
+    env: runtime.env,
+    pipeline: vi.fn(async () => {
+        const extractor = async (texts: string[]) => {
+            runtime.calls.push(texts);
+            return { tolist: () => texts.map((_, i) => Array(runtime.dimension).fill(i)) };
+        };
+        return Object.assign(extractor, {
+            tokenizer: { encode: (text: string) => text.split(/\s+/) },
+        });
+    }),
+}));
+
+function createProvider(overrides: Partial<typeof env> = {}) {
+    return new LocalEmbeddingProvider({
+        ...env,
+        LOCAL_EMBEDDING_MODEL: 'Xenova/paraphrase-multilingual-MiniLM-L12-v2',
+        LOCAL_EMBEDDING_DIMENSION: undefined,
+        LOCAL_EMBEDDING_MAX_TOKENS: undefined,
+        LOCAL_EMBEDDING_BATCH_SIZE: 16,
+        ...overrides,
+    });
+}
+
+describe('LocalEmbeddingProvider', () => {
+    beforeEach(() => {
+        runtime.dimension = 384;
+        runtime.calls = [];
+    });
+
+    it('should look up the dimension and max input length of a known model', () => {
+        const provider = createProvider();
+
+        expect(provider.getDimension()).toBe(384);
+        expect(provider.getMaxInputLength()).toBe(128);
+        expect(provider.getModelName()).toBe('Xenova/paraphrase-multilingual-MiniLM-L12-v2');
+        expect(createProvider({ LOCAL_EMBEDDING_MODEL: 'Xenova/LaBSE' }).getMaxInputLength()).toBe(256);
+    });
+
+    it('should require LOCAL_EMBEDDING_DIMENSION for other models', () => {
+        expect(() => createProvider({ LOCAL_EMBEDDING_MODEL: 'org/other-model' }))
+            .toThrow('LOCAL_EMBEDDING_DIMENSION is required');
+
+        const provider = createProvider({ LOCAL_EMBEDDING_MODEL: 'org/other-model', LOCAL_EMBEDDING_DIMENSION: 1024 });
+        expect(provider.getDimension()).toBe(1024);
+        expect(provider.getMaxInputLength()).toBe(512);
+    });
+
+    it('should let LOCAL_EMBEDDING_DIMENSION override the known dimension', async () => {
+        // The model still produces 384 dimensions
+        const provider = createProvider({ LOCAL_EMBEDDING_DIMENSION: 768 });
+
+        expect(provider.getDimension()).toBe(768);
+        await expect(provider.generateEmbedding('Educación')).rejects.toThrow('expected 768');
+    });
+
+    it('should embed a batch in sub-batches and return one vector per text', async () => {
+        const provider = createProvider({ LOCAL_EMBEDDING_BATCH_SIZE: 2 });
+        const texts = ['Educación pública', 'Salud', 'Seguridad ciudadana', 'Empleo', 'Ambiente'];
+
+        const { embeddings, model, usage } = await provider.generateBatch(texts);
+
+        expect(embeddings).toHaveLength(5);
+        expect(embeddings.every(embedding => embedding.length === 384)).toBe(true);
+        expect(runtime.calls.map(batch => batch.length)).toEqual([2, 2, 1]);
+        expect(model).toBe('Xenova/paraphrase-multilingual-MiniLM-L12-v2');
+        expect(usage.promptTokens).toBe(7);
+    });
+});
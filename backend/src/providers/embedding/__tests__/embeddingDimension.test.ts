@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import type { IEmbeddingProvider } from '@ticobot/shared';
+import { checkEmbeddingDimension, assertEmbeddingDimension } from '../embeddingDimension.js';
+
+function createProvider(dimension: number): IEmbeddingProvider {
+    return {
+        generateEmbedding: async () => ({ embedding: [], model: 'test-model', usage: { promptTokens: 0, totalTokens: 0 } }),
+        generateBatch: async () => ({ embeddings: [], model: 'test-model', usage: { promptTokens: 0, totalTokens: 0 } }),
+        getDimension: () => dimension,
+        getMaxInputLength: () => 128,
+        getModelName: () => 'test-model',
+    };
+}
+
+function createStore(stored: number | null, column?: number | null) {
+    return {
+        getEmbeddingDimension: async () => stored,
+        ...(column !== undefined && { getColumnDimension: async () => column }),
+    };
+}
+
+describe('embeddingDimension', () => {
+    it('should match when the stored dimension equals the provider dimension', async () => {
+        const check = await checkEmbeddingDimension(createProvider(384), createStore(384));
+
+        expect(check).toEqual({ model: 'test-model', expected: 384, stored: 384, column: null, matches: true });
+    });
+
+    it('should treat an empty index without a declared dimension as matching any provider', async () => {
+        const check = await checkEmbeddingDimension(createProvider(384), createStore(null));
+
+        expect(check.matches).toBe(true);
+        expect(check.stored).toBeNull();
+    });
+
+    it('should reject a provider the embedding column cannot store, even in an empty index', async () => {
+        const check = await checkEmbeddingDimension(createProvider(384), createStore(null, 1536));
+
+        expect(check).toMatchObject({ stored: null, column: 1536, matches: false });
+        await expect(
+            assertEmbeddingDimension(createProvider(384), createStore(null, 1536))
+        ).rejects.toThrow(/embedding column is vector\(1536\) but test-model produces 384/);
+    });
+
+    it('should accept an empty index when the column dimension matches', async () => {
+        const check = await checkEmbeddingDimension(createProvider(1536), createStore(null, 1536));
+
+        expect(check.matches).toBe(true);
+    });
+
+    it('should throw on a dimension mismatch', async () => {
+        await expect(
+            assertEmbeddingDimension(createProvider(384), createStore(1536))
+        ).rejects.toThrow(/stores 1536-dimensional embeddings but test-model produces 384/);
+    });
+});
@@ -0,0 +1,79 @@
+import type { IEmbeddingProvider } from '@ticobot/shared';
+
+/**
+ * Vector store able to report the dimension of its stored embeddings
+ */
+export interface EmbeddingDimensionSource {
+  getEmbeddingDimension(): Promise<number | null>;
+  getColumnDimension?(): Promise<number | null>; // Dimension the schema accepts (null when unconstrained)
+}
+
+export interface EmbeddingDimensionCheck {
+  model: string;
+  expected: number; // Dimension of the configured embedding provider
+  stored: number | null; // Dimension found in the index (null when empty)
+  column: number | null; // Dimension declared by the embedding column (null when unconstrained)
+  matches: boolean; // An empty index matches any provider the column accepts
+}
+
+/**
+ * Compare the dimension of the configured embedding provider with the
+ * embeddings already stored in the index and with the declared dimension of
+ * the embedding column. Vectors of different models are not comparable, so
+ * switching EMBEDDING_PROVIDER requires re-ingesting; a column of another
+ * dimension rejects every insert, even into an empty index.
+ */
+export async function checkEmbeddingDimension(
+  provider: IEmbeddingProvider,
+  store: EmbeddingDimensionSource
+): Promise<EmbeddingDimensionCheck> {
+  const expected = provider.getDimension();
+  const stored = await store.getEmbeddingDimension();
+  const column = store.getColumnDimension ? await store.getColumnDimension() : null;
+
+  return {
+    model: provider.getModelName(),
+    expected,
+    stored,
+    column,
+    matches: (column === null || column === expected) && (stored === null || stored === expected),
+  };
+}
+
+/**
+ * Explain why a check does not match
+ * @returns null when the check matches
+ */
+export function describeDimensionMismatch(check: EmbeddingDimensionCheck): string | null {
+  if (check.column !== null && check.column !== check.expected) {
+    return `the embedding column is vector(${check.column}) but ${check.model} produces ${check.expected}. ` +
+      `Migrate the column to vector(${check.expected}) (backend/scripts/set-embedding-dimension.sql -v dimension=${check.expected}) ` +
+      `or configure an embedding provider with ${check.column} dimensions.`;
+  }
+  if (check.stored !== null && check.stored !== check.expected) {
+    return `the index stores ${check.stored}-dimensional embeddings but ${check.model} produces ${check.expected}. ` +
+      `Re-ingest the documents or configure an embedding provider with the same dimension.`;
+  }
+  return null;
+}
+
+/**
+ * Throw if the stored embeddings or the embedding column do not match the configured provider
+ */
+export async function assertEmbeddingDimension(
+  provider: IEmbeddingProvider,
+  store: EmbeddingDimensionSource
+): Promise<void> {
+  const mismatch = describeDimensionMismatch(await checkEmbeddingDimension(provider, store));
+
+  if (mismatch) {
+    throw new Error(`Embedding dimension mismatch: ${mismatch}`);
+  }
+}
+
+/**
+ * Whether a vector store reports the dimension of its embeddings
+ */
+export function hasEmbeddingDimension<T extends object>(store: T): store is T & EmbeddingDimensionSource {
+  return typeof (store as Partial<EmbeddingDimensionSource>).getEmbeddingDimension === 'function';
+}
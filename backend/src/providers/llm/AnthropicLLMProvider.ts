@@ -0,0 +1,212 @@
+import type {
+  ILLMProvider,
+  LLMMessage,
+  GenerationOptions,
+  LLMResponse,
+} from '@ticobot/shared';
+import type { Env } from '../../config/env.js';
+import { parseServerSentEvents, getResponseErrorMessage } from './httpUtils.js';
+
+const API_URL = 'https://api.anthropic.com/v1/messages';
+const API_VERSION = '2023-06-01';
+
+/**
+ * The Messages API requires max_tokens
+ */
+const DEFAULT_MAX_TOKENS = 4096;
+
+/**
+ * Claude 3 and later models share a 200K token context window
+ */
+const CONTEXT_WINDOW = 200000;
+
+/**
+ * The Messages API accepts temperatures from 0 to 1 (other providers go up to 2)
+ */
+const MAX_TEMPERATURE = 1;
+
+interface AnthropicMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+interface AnthropicResponse {
+  model: string;
+  content: Array<{ type: string; text?: string }>;
+  stop_reason: string | null;
+  usage: {
+    input_tokens: number;
+    output_tokens: number;
+  };
+}
+
+/**
+ * Anthropic LLM Provider
+ * Implements ILLMProvider using Claude models through the Messages API
+ */
+export class AnthropicLLMProvider implements ILLMProvider {
+  private apiKey: string;
+  private model: string;
+
+  constructor(env: Env) {
+    if (!env.ANTHROPIC_API_KEY) {
+      throw new Error('ANTHROPIC_API_KEY is required for Anthropic LLM provider');
+    }
+
+    this.apiKey = env.ANTHROPIC_API_KEY;
+    this.model = env.ANTHROPIC_MODEL;
+  }
+
+  async generateCompletion(
+    messages: LLMMessage[],
+    options?: GenerationOptions
+  ): Promise<LLMResponse> {
+    try {
+      const response = await this.request(messages, options, false);
+      const data = await response.json() as AnthropicResponse;
+
+      const content = data.content
+        .filter((block) => block.type === 'text')
+        .map((block) => block.text ?? '')
+        .join('');
+
+      if (!content) {
+        throw new Error('No completion returned from Anthropic');
+      }
+
+      return {
+        content,
+        model: data.model,
+        usage: {
+          promptTokens: data.usage.input_tokens,
+          completionTokens: data.usage.output_tokens,
+          totalTokens: data.usage.input_tokens + data.usage.output_tokens,
+        },
+        finishReason: mapStopReason(data.stop_reason),
+      };
+    } catch (error) {
+      throw new Error(
+        `Anthropic completion failed: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  async *generateStreamingCompletion(
+    messages: LLMMessage[],
+    options?: GenerationOptions
+  ): AsyncIterableIterator<string> {
+    try {
+      const response = await this.request(messages, options, true);
+
+      for await (const event of parseServerSentEvents(response)) {
+        const data = JSON.parse(event.data);
+
+        if (data.type === 'content_block_delta' && data.delta?.type === 'text_delta' && data.delta.text) {
+          yield data.delta.text;
+        } else if (data.type === 'error') {
+          throw new Error(data.error?.message || 'Stream error');
+        } else if (data.type === 'message_stop') {
+          return;
+        }
+      }
+    } catch (error) {
+      throw new Error(
+        `Anthropic streaming completion failed: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  getContextWindow(): number {
+    return CONTEXT_WINDOW;
+  }
+
+  getModelName(): string {
+    return this.model;
+  }
+
+  supportsFunctionCalling(): boolean {
+    // Tool use is not implemented by this provider yet
+    return false;
+  }
+
+  private async request(
+    messages: LLMMessage[],
+    options: GenerationOptions | undefined,
+    stream: boolean
+  ): Promise<Response> {
+    const { system, messages: anthropicMessages } = toAnthropicMessages(messages);
+
+    const response = await fetch(API_URL, {
+      method: 'POST',
+      headers: {
+        'content-type': 'application/json',
+        'x-api-key': this.apiKey,
+        'anthropic-version': API_VERSION,
+      },
+      body: JSON.stringify({
+        model: this.model,
+        system,
+        messages: anthropicMessages,
+        max_tokens: options?.maxTokens ?? DEFAULT_MAX_TOKENS,
+        temperature: options?.temperature === undefined
+          ? undefined
+          : Math.min(options.temperature, MAX_TEMPERATURE),
+        top_p: options?.topP,
+        stop_sequences: options?.stop,
+        stream: stream || undefined,
+      }),
+      signal: options?.signal,
+    });
+
+    if (!response.ok) {
+      throw new Error(await getResponseErrorMessage(response));
+    }
+
+    return response;
+  }
+}
+
+/**
+ * Convert chat messages to the Messages API format
+ * System messages go in the separate `system` parameter and consecutive
+ * messages of the same role are merged (turns must alternate)
+ */
+export function toAnthropicMessages(messages: LLMMessage[]): {
+  system?: string;
+  messages: AnthropicMessage[];
+} {
+  const system = messages
+    .filter((message) => message.role === 'system')
+    .map((message) => message.content)
+    .join('\n\n');
+
+  const converted: AnthropicMessage[] = [];
+  for (const message of messages) {
+    if (message.role === 'system') {
+      continue;
+    }
+
+    const previous = converted[converted.length - 1];
+    if (previous && previous.role === message.role) {
+      previous.content += `\n\n${message.content}`;
+    } else {
+      converted.push({ role: message.role, content: message.content });
+    }
+  }
+
+  return { system: system || undefined, messages: converted };
+}
+
+function mapStopReason(stopReason: string | null): LLMResponse['finishReason'] {
+  switch (stopReason) {
+    case 'max_tokens':
+      return 'length';
+    case 'tool_use':
+      return 'function_call';
+    case 'refusal':
+      return 'content_filter';
+    default:
+      // end_turn, stop_sequence, pause_turn
+      return 'stop';
+  }
+}
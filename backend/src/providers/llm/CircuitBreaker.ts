@@ -0,0 +1,74 @@
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+export interface CircuitBreakerOptions {
+  failureThreshold: number; // Consecutive failures that open the circuit
+  resetTimeoutMs: number; // Time the circuit stays open before a trial request
+  now?: () => number;
+}
+
+/**
+ * Circuit breaker for an upstream provider
+ * Closed: requests flow. Open: requests are rejected until the reset timeout
+ * elapses. Half-open: a single trial request decides whether to close again.
+ */
+export class CircuitBreaker {
+  private state: CircuitState = 'closed';
+  private consecutiveFailures = 0;
+  private openedAt = 0;
+  private readonly failureThreshold: number;
+  private readonly resetTimeoutMs: number;
+  private readonly now: () => number;
+
+  constructor(options: CircuitBreakerOptions) {
+    this.failureThreshold = options.failureThreshold;
+    this.resetTimeoutMs = options.resetTimeoutMs;
+    this.now = options.now ?? Date.now;
+  }
+
+  /**
+   * Whether a request may be sent now
+   * Moves an open circuit to half-open once the reset timeout has elapsed
+   */
+  canRequest(): boolean {
+    if (this.state === 'closed') {
+      return true;
+    }
+
+    if (this.state === 'open' && this.now() - this.openedAt >= this.resetTimeoutMs) {
+      this.state = 'half_open';
+      return true;
+    }
+
+    // Open, or half-open with the trial request still in flight
+    return false;
+  }
+
+  recordSuccess(): void {
+    this.state = 'closed';
+    this.consecutiveFailures = 0;
+  }
+
+  recordFailure(): void {
+    this.consecutiveFailures++;
+
+    if (this.state === 'half_open' || this.consecutiveFailures >= this.failureThreshold) {
+      this.state = 'open';
+      this.openedAt = this.now();
+    }
+  }
+
+  /**
+   * Give up the trial request without a verdict (e.g. the caller aborted it)
+   * The circuit goes back to open with its original opening time, so the
+   * next request may try again right away
+   */
+  releaseTrial(): void {
+    if (this.state === 'half_open') {
+      this.state = 'open';
+    }
+  }
+
+  getState(): CircuitState {
+    return this.state;
+  }
+}
@@ -46,7 +46,7 @@ export class DeepSeekLLMProvider implements ILLMProvider {
         frequency_penalty: options?.frequencyPenalty,
         presence_penalty: options?.presencePenalty,
         stop: options?.stop,
-      });
+      }, { signal: options?.signal });
 
       const choice = response.choices[0];
       if (!choice || !choice.message.content) {
@@ -85,7 +85,7 @@ export class DeepSeekLLMProvider implements ILLMProvider {
         presence_penalty: options?.presencePenalty,
         stop: options?.stop,
         stream: true,
-      });
+      }, { signal: options?.signal });
 
       for await (const chunk of stream) {
         const content = chunk.choices[0]?.delta?.content;
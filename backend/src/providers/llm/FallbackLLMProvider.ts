@@ -0,0 +1,201 @@
+import {
+  Logger,
+  type ILLMProvider,
+  type LLMMessage,
+  type GenerationOptions,
+  type LLMResponse,
+} from '@ticobot/shared';
+import { CircuitBreaker, type CircuitState } from './CircuitBreaker.js';
+import { isRetryableError, getBackoffDelay, sleep } from '../retry.js';
+
+export interface FallbackProviderEntry {
+  name: string; // Provider name from LLM_FALLBACK_CHAIN (e.g. "groq")
+  provider: ILLMProvider;
+}
+
+export interface FallbackOptions {
+  maxRetries: number; // Retries of the same provider on retryable errors
+  retryDelayMs: number; // Base delay, doubled on every retry
+  failureThreshold: number;
+  resetTimeoutMs: number;
+  now?: () => number;
+}
+
+/**
+ * Fallback LLM Provider
+ * Composite ILLMProvider that tries an ordered chain of providers: retries
+ * retryable errors, fails over to the next provider and skips providers
+ * whose circuit breaker is open. The returned model is prefixed with the
+ * provider that answered (e.g. "groq/llama-3.1-8b-instant").
+ */
+export class FallbackLLMProvider implements ILLMProvider {
+  private readonly entries: Array<FallbackProviderEntry & { breaker: CircuitBreaker }>;
+  private readonly maxRetries: number;
+  private readonly retryDelayMs: number;
+  private readonly logger: Logger;
+
+  constructor(providers: FallbackProviderEntry[], options: FallbackOptions) {
+    if (providers.length === 0) {
+      throw new Error('Fallback LLM provider requires at least one provider');
+    }
+
+    this.entries = providers.map((entry) => ({
+      ...entry,
+      breaker: new CircuitBreaker({
+        failureThreshold: options.failureThreshold,
+        resetTimeoutMs: options.resetTimeoutMs,
+        now: options.now,
+      }),
+    }));
+    this.maxRetries = options.maxRetries;
+    this.retryDelayMs = options.retryDelayMs;
+    this.logger = new Logger('FallbackLLMProvider');
+  }
+
+  async generateCompletion(
+    messages: LLMMessage[],
+    options?: GenerationOptions
+  ): Promise<LLMResponse> {
+    const errors: string[] = [];
+
+    for (const entry of this.entries) {
+      if (!entry.breaker.canRequest()) {
+        errors.push(`${entry.name}: circuit open`);
+        continue;
+      }
+
+      for (let attempt = 0; attempt <= this.maxRetries; attempt++) {
+        try {
+          const response = await entry.provider.generateCompletion(messages, options);
+          entry.breaker.recordSuccess();
+
+          const model = `${entry.name}/${response.model}`;
+          options?.onModel?.(model);
+          return { ...response, model };
+        } catch (error) {
+          if (options?.signal?.aborted) {
+            entry.breaker.releaseTrial();
+            throw error;
+          }
+
+          if (!this.handleFailure(entry, error, attempt, errors)) {
+            break;
+          }
+          await this.delay(attempt);
+        }
+      }
+    }
+
+    throw new Error(`All LLM providers failed: ${errors.join('; ')}`);
+  }
+
+  /**
+   * Stream from the first available provider
+   * Failover is only possible until the first chunk is yielded; an error
+   * after that is thrown since part of the answer was already sent
+   */
+  async *generateStreamingCompletion(
+    messages: LLMMessage[],
+    options?: GenerationOptions
+  ): AsyncIterableIterator<string> {
+    const errors: string[] = [];
+
+    for (const entry of this.entries) {
+      if (!entry.breaker.canRequest()) {
+        errors.push(`${entry.name}: circuit open`);
+        continue;
+      }
+
+      for (let attempt = 0; attempt <= this.maxRetries; attempt++) {
+        let started = false;
+
+        try {
+          for await (const chunk of entry.provider.generateStreamingCompletion(messages, options)) {
+            if (!started) {
+              started = true;
+              entry.breaker.recordSuccess();
+              options?.onModel?.(`${entry.name}/${entry.provider.getModelName()}`);
+            }
+            yield chunk;
+          }
+
+          if (!started) {
+            entry.breaker.recordSuccess();
+            options?.onModel?.(`${entry.name}/${entry.provider.getModelName()}`);
+          }
+          return;
+        } catch (error) {
+          if (options?.signal?.aborted) {
+            entry.breaker.releaseTrial();
+            throw error;
+          }
+
+          if (started) {
+            entry.breaker.recordFailure();
+            throw error;
+          }
+
+          if (!this.handleFailure(entry, error, attempt, errors)) {
+            break;
+          }
+          await this.delay(attempt);
+        }
+      }
+    }
+
+    throw new Error(`All LLM providers failed: ${errors.join('; ')}`);
+  }
+
+  /**
+   * Smallest context window of the chain (messages are built before
+   * knowing which provider will answer)
+   */
+  getContextWindow(): number {
+    return Math.min(...this.entries.map((entry) => entry.provider.getContextWindow()));
+  }
+
+  getModelName(): string {
+    const primary = this.entries[0];
+    return `${primary.name}/${primary.provider.getModelName()}`;
+  }
+
+  supportsFunctionCalling(): boolean {
+    return this.entries.every((entry) => entry.provider.supportsFunctionCalling());
+  }
+
+  /**
+   * Circuit state of every provider in the chain
+   */
+  getCircuitStates(): Record<string, CircuitState> {
+    return Object.fromEntries(this.entries.map((entry) => [entry.name, entry.breaker.getState()]));
+  }
+
+  /**
+   * Record a failed attempt
+   * @returns Whether the same provider should be retried
+   */
+  private handleFailure(
+    entry: FallbackProviderEntry & { breaker: CircuitBreaker },
+    error: unknown,
+    attempt: number,
+    errors: string[]
+  ): boolean {
+    const message = error instanceof Error ? error.message : String(error);
+    entry.breaker.recordFailure();
+
+    const retry = isRetryableError(error) && attempt < this.maxRetries && entry.breaker.canRequest();
+    this.logger.warn(
+      `${entry.name} failed (attempt ${attempt + 1}): ${message}` +
+      (retry ? ' - retrying' : ' - trying next provider')
+    );
+
+    if (!retry) {
+      errors.push(`${entry.name}: ${message}`);
+    }
+    return retry;
+  }
+
+  private delay(attempt: number): Promise<void> {
+    return sleep(getBackoffDelay(attempt, this.retryDelayMs));
+  }
+}
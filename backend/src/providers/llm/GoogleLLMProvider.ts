@@ -0,0 +1,231 @@
+import type {
+  ILLMProvider,
+  LLMMessage,
+  GenerationOptions,
+  LLMResponse,
+} from '@ticobot/shared';
+import type { Env } from '../../config/env.js';
+import { parseServerSentEvents, getResponseErrorMessage } from './httpUtils.js';
+
+const API_BASE_URL = 'https://generativelanguage.googleapis.com/v1beta/models';
+
+/**
+ * Context window sizes for Gemini models (matched by prefix, first match wins)
+ */
+const MODEL_CONTEXT_WINDOWS: Array<[string, number]> = [
+  ['gemini-1.5-pro', 2097152],
+  ['gemini-1.5-flash', 1048576],
+  ['gemini-2', 1048576],
+  ['gemini-pro', 32760],
+];
+
+interface GeminiContent {
+  role: 'user' | 'model';
+  parts: Array<{ text: string }>;
+}
+
+interface GeminiResponse {
+  candidates?: Array<{
+    content?: { parts?: Array<{ text?: string }> };
+    finishReason?: string;
+  }>;
+  promptFeedback?: { blockReason?: string };
+  usageMetadata?: {
+    promptTokenCount?: number;
+    candidatesTokenCount?: number;
+    totalTokenCount?: number;
+  };
+  modelVersion?: string;
+}
+
+/**
+ * Google LLM Provider
+ * Implements ILLMProvider using Gemini models through the Generative Language API
+ */
+export class GoogleLLMProvider implements ILLMProvider {
+  private apiKey: string;
+  private model: string;
+  private contextWindow: number;
+
+  constructor(env: Env) {
+    if (!env.GOOGLE_API_KEY) {
+      throw new Error('GOOGLE_API_KEY is required for Google LLM provider');
+    }
+
+    this.apiKey = env.GOOGLE_API_KEY;
+    this.model = env.GOOGLE_MODEL;
+    this.contextWindow = MODEL_CONTEXT_WINDOWS
+      .find(([prefix]) => this.model.startsWith(prefix))?.[1] ?? 32760;
+  }
+
+  async generateCompletion(
+    messages: LLMMessage[],
+    options?: GenerationOptions
+  ): Promise<LLMResponse> {
+    try {
+      const response = await this.request('generateContent', messages, options);
+      const data = await response.json() as GeminiResponse;
+
+      const candidate = data.candidates?.[0];
+      const content = getText(data);
+
+      if (!candidate || !content) {
+        const blockReason = data.promptFeedback?.blockReason;
+        throw new Error(
+          blockReason ? `Prompt blocked by Gemini (${blockReason})` : 'No completion returned from Gemini'
+        );
+      }
+
+      const promptTokens = data.usageMetadata?.promptTokenCount ?? 0;
+      const completionTokens = data.usageMetadata?.candidatesTokenCount ?? 0;
+
+      return {
+        content,
+        model: data.modelVersion || this.model,
+        usage: {
+          promptTokens,
+          completionTokens,
+          totalTokens: data.usageMetadata?.totalTokenCount ?? promptTokens + completionTokens,
+        },
+        finishReason: mapFinishReason(candidate.finishReason),
+      };
+    } catch (error) {
+      throw new Error(
+        `Google completion failed: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  async *generateStreamingCompletion(
+    messages: LLMMessage[],
+    options?: GenerationOptions
+  ): AsyncIterableIterator<string> {
+    try {
+      const response = await this.request('streamGenerateContent', messages, options);
+
+      for await (const event of parseServerSentEvents(response)) {
+        const data = JSON.parse(event.data) as GeminiResponse;
+
+        if (data.promptFeedback?.blockReason) {
+          throw new Error(`Prompt blocked by Gemini (${data.promptFeedback.blockReason})`);
+        }
+
+        const content = getText(data);
+        if (content) {
+          yield content;
+        }
+      }
+    } catch (error) {
+      throw new Error(
+        `Google streaming completion failed: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  getContextWindow(): number {
+    return this.contextWindow;
+  }
+
+  getModelName(): string {
+    return this.model;
+  }
+
+  supportsFunctionCalling(): boolean {
+    // Function calling is not implemented by this provider yet
+    return false;
+  }
+
+  private async request(
+    method: 'generateContent' | 'streamGenerateContent',
+    messages: LLMMessage[],
+    options: GenerationOptions | undefined
+  ): Promise<Response> {
+    const { systemInstruction, contents } = toGeminiContents(messages);
+    const url = `${API_BASE_URL}/${encodeURIComponent(this.model)}:${method}` +
+      (method === 'streamGenerateContent' ? '?alt=sse' : '');
+
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'content-type': 'application/json',
+        'x-goog-api-key': this.apiKey,
+      },
+      body: JSON.stringify({
+        systemInstruction,
+        contents,
+        generationConfig: {
+          temperature: options?.temperature,
+          maxOutputTokens: options?.maxTokens,
+          topP: options?.topP,
+          frequencyPenalty: options?.frequencyPenalty,
+          presencePenalty: options?.presencePenalty,
+          stopSequences: options?.stop,
+        },
+      }),
+      signal: options?.signal,
+    });
+
+    if (!response.ok) {
+      throw new Error(await getResponseErrorMessage(response));
+    }
+
+    return response;
+  }
+}
+
+/**
+ * Convert chat messages to Gemini contents
+ * System messages become the `systemInstruction`, assistant turns use the
+ * "model" role and consecutive messages of the same role are merged
+ */
+export function toGeminiContents(messages: LLMMessage[]): {
+  systemInstruction?: { parts: Array<{ text: string }> };
+  contents: GeminiContent[];
+} {
+  const system = messages
+    .filter((message) => message.role === 'system')
+    .map((message) => message.content)
+    .join('\n\n');
+
+  const contents: GeminiContent[] = [];
+  for (const message of messages) {
+    if (message.role === 'system') {
+      continue;
+    }
+
+    const role = message.role === 'assistant' ? 'model' : 'user';
+    const previous = contents[contents.length - 1];
+    if (previous && previous.role === role) {
+      previous.parts.push({ text: message.content });
+    } else {
+      contents.push({ role, parts: [{ text: message.content }] });
+    }
+  }
+
+  return {
+    systemInstruction: system ? { parts: [{ text: system }] } : undefined,
+    contents,
+  };
+}
+
+function getText(data: GeminiResponse): string {
+  return (data.candidates?.[0]?.content?.parts ?? [])
+    .map((part) => part.text ?? '')
+    .join('');
+}
+
+function mapFinishReason(finishReason: string | undefined): LLMResponse['finishReason'] {
+  switch (finishReason) {
+    case 'MAX_TOKENS':
+      return 'length';
+    case 'SAFETY':
+    case 'RECITATION':
+    case 'BLOCKLIST':
+    case 'PROHIBITED_CONTENT':
+    case 'SPII':
+      return 'content_filter';
+    default:
+      // STOP, FINISH_REASON_UNSPECIFIED, OTHER
+      return 'stop';
+  }
+}
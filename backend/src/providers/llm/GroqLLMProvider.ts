@@ -59,7 +59,7 @@ export class GroqLLMProvider implements ILLMProvider {
         frequency_penalty: options?.frequencyPenalty,
         presence_penalty: options?.presencePenalty,
         stop: options?.stop,
-      });
+      }, { signal: options?.signal });
 
       const choice = response.choices[0];
       if (!choice || !choice.message.content) {
@@ -103,7 +103,7 @@ export class GroqLLMProvider implements ILLMProvider {
         presence_penalty: options?.presencePenalty,
         stop: options?.stop,
         stream: true,
-      });
+      }, { signal: options?.signal });
 
       for await (const chunk of stream) {
         const content = chunk.choices[0]?.delta?.content;
@@ -60,7 +60,7 @@ export class OllamaLLMProvider implements ILLMProvider {
         frequency_penalty: options?.frequencyPenalty,
         presence_penalty: options?.presencePenalty,
         stop: options?.stop,
-      });
+      }, { signal: options?.signal });
 
       const choice = response.choices[0];
       if (!choice || !choice.message.content) {
@@ -107,7 +107,7 @@ export class OllamaLLMProvider implements ILLMProvider {
         presence_penalty: options?.presencePenalty,
         stop: options?.stop,
         stream: true,
-      });
+      }, { signal: options?.signal });
 
       for await (const chunk of stream) {
         const content = chunk.choices[0]?.delta?.content;
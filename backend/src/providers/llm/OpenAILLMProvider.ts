@@ -56,7 +56,7 @@ export class OpenAILLMProvider implements ILLMProvider {
         frequency_penalty: options?.frequencyPenalty,
         presence_penalty: options?.presencePenalty,
         stop: options?.stop,
-      });
+      }, { signal: options?.signal });
 
       const choice = response.choices[0];
       if (!choice || !choice.message.content) {
@@ -95,7 +95,7 @@ export class OpenAILLMProvider implements ILLMProvider {
         presence_penalty: options?.presencePenalty,
         stop: options?.stop,
         stream: true,
-      });
+      }, { signal: options?.signal });
 
       for await (const chunk of stream) {
         const content = chunk.choices[0]?.delta?.content;
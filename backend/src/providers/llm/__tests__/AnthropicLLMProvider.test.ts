@@ -0,0 +1,115 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import type { LLMMessage } from '@ticobot/shared';
+import { AnthropicLLMProvider, toAnthropicMessages } from '../AnthropicLLMProvider.js';
+import { env } from '../../../config/env.js';
+import { replay } from './fixtures/replay.js';
+
+const messages: LLMMessage[] = [
+    { role: 'system', content: 'Eres un asistente electoral.' },
+    { role: 'user', content: '¿Qué propone el PLN?' },
+    { role: 'assistant', content: 'Propone varias medidas.' },
+    { role: 'user', content: '¿Y en educación?' },
+];
+
+describe('AnthropicLLMProvider', () => {
+    let provider: AnthropicLLMProvider;
+    let fetchMock: ReturnType<typeof vi.fn>;
+
+    beforeEach(() => {
+        fetchMock = vi.fn();
+        vi.stubGlobal('fetch', fetchMock);
+        provider = new AnthropicLLMProvider({
+            ...env,
+            ANTHROPIC_API_KEY: 'test-key',
+            ANTHROPIC_MODEL: 'claude-3-5-sonnet-20241022',
+        });
+    });
+
+    afterEach(() => {
+        vi.unstubAllGlobals();
+    });
+
+    it('should require an API key', () => {
+        expect(() => new AnthropicLLMProvider({ ...env, ANTHROPIC_API_KEY: undefined }))
+            .toThrow('ANTHROPIC_API_KEY is required');
+    });
+
+    it('should send the system prompt separately', async () => {
+        fetchMock.mockResolvedValue(replay('anthropic-messages.json'));
+
+        await provider.generateCompletion(messages, { temperature: 0.2, maxTokens: 500, stop: ['###'] });
+
+        const [url, init] = fetchMock.mock.calls[0];
+        const body = JSON.parse(init.body);
+
+        expect(url).toBe('https://api.anthropic.com/v1/messages');
+        expect(init.headers['x-api-key']).toBe('test-key');
+        expect(init.headers['anthropic-version']).toBe('2023-06-01');
+        expect(body.system).toBe('Eres un asistente electoral.');
+        expect(body.messages.map((m: any) => m.role)).toEqual(['user', 'assistant', 'user']);
+        expect(body.max_tokens).toBe(500);
+        expect(body.temperature).toBe(0.2);
+        expect(body.stop_sequences).toEqual(['###']);
+        expect(body.stream).toBeUndefined();
+    });
+
+    it('should clamp the temperature to the maximum of the Messages API', async () => {
+        fetchMock.mockResolvedValue(replay('anthropic-messages.json'));
+
+        await provider.generateCompletion(messages, { temperature: 1.5 });
+
+        expect(JSON.parse(fetchMock.mock.calls[0][1].body).temperature).toBe(1);
+    });
+
+    it('should not advertise function calling', () => {
+        expect(provider.supportsFunctionCalling()).toBe(false);
+    });
+
+    it('should map the response, usage and finish reason', async () => {
+        fetchMock.mockResolvedValue(replay('anthropic-messages.json'));
+
+        const response = await provider.generateCompletion(messages);
+
+        expect(response.content).toBe('El PLN propone ampliar la educación técnica en todas las regiones [1].');
+        expect(response.model).toBe('claude-3-5-sonnet-20241022');
+        expect(response.usage).toEqual({ promptTokens: 412, completionTokens: 21, totalTokens: 433 });
+        expect(response.finishReason).toBe('stop');
+    });
+
+    it('should map max_tokens to a length finish reason', async () => {
+        fetchMock.mockResolvedValue(replay('anthropic-messages-max-tokens.json'));
+
+        const response = await provider.generateCompletion(messages, { maxTokens: 5 });
+
+        expect(response.finishReason).toBe('length');
+    });
+
+    it('should surface API errors', async () => {
+        fetchMock.mockResolvedValue(replay('anthropic-error.json', 529));
+
+        await expect(provider.generateCompletion(messages))
+            .rejects.toThrow('Anthropic completion failed: HTTP 529: Overloaded');
+    });
+
+    it('should stream text deltas', async () => {
+        fetchMock.mockResolvedValue(replay('anthropic-stream.sse'));
+
+        const chunks: string[] = [];
+        for await (const chunk of provider.generateStreamingCompletion(messages)) {
+            chunks.push(chunk);
+        }
+
+        expect(JSON.parse(fetchMock.mock.calls[0][1].body).stream).toBe(true);
+        expect(chunks).toEqual(['El PLN propone', ' ampliar la educación técnica', ' [1].']);
+    });
+
+    it('should merge consecutive messages of the same role', () => {
+        const converted = toAnthropicMessages([
+            { role: 'user', content: 'Contexto' },
+            { role: 'user', content: 'Pregunta' },
+        ]);
+
+        expect(converted.system).toBeUndefined();
+        expect(converted.messages).toEqual([{ role: 'user', content: 'Contexto\n\nPregunta' }]);
+    });
+});
@@ -0,0 +1,222 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { ILLMProvider, LLMMessage, GenerationOptions } from '@ticobot/shared';
+import { FallbackLLMProvider } from '../FallbackLLMProvider.js';
+import { isRetryableError } from '../../retry.js';
+import { CircuitBreaker } from '../CircuitBreaker.js';
+
+const messages: LLMMessage[] = [{ role: 'user', content: '¿Qué propone el PLN?' }];
+
+/**
+ * Provider that runs the given behaviors in order (the last one repeats)
+ * A behavior is either the answer text or an error to throw
+ */
+function createProvider(model: string, behaviors: Array<string | Error>, contextWindow: number = 8192) {
+    let calls = 0;
+    const next = () => behaviors[Math.min(calls++, behaviors.length - 1)];
+
+    const provider: ILLMProvider & { calls: () => number } = {
+        generateCompletion: vi.fn(async () => {
+            const behavior = next();
+            if (behavior instanceof Error) throw behavior;
+            return {
+                content: behavior,
+                model,
+                usage: { promptTokens: 1, completionTokens: 1, totalTokens: 2 },
+                finishReason: 'stop' as const,
+            };
+        }),
+        generateStreamingCompletion: async function* () {
+            const behavior = next();
+            if (behavior instanceof Error) throw behavior;
+            for (const word of behavior.split(' ')) {
+                yield word;
+            }
+        },
+        getContextWindow: () => contextWindow,
+        getModelName: () => model,
+        supportsFunctionCalling: () => true,
+        calls: () => calls,
+    };
+    return provider;
+}
+
+const options = { maxRetries: 1, retryDelayMs: 0, failureThreshold: 3, resetTimeoutMs: 60000 };
+
+describe('FallbackLLMProvider', () => {
+    it('should answer with the first provider and report it in the model', async () => {
+        const groq = createProvider('llama-3.1-8b-instant', ['respuesta']);
+        const fallback = new FallbackLLMProvider([{ name: 'groq', provider: groq }], options);
+
+        const response = await fallback.generateCompletion(messages);
+
+        expect(response.content).toBe('respuesta');
+        expect(response.model).toBe('groq/llama-3.1-8b-instant');
+    });
+
+    it('should retry retryable errors on the same provider', async () => {
+        const groq = createProvider('llama', [new Error('Groq completion failed: 429 Rate limit reached'), 'respuesta']);
+        const deepseek = createProvider('deepseek-chat', ['otra']);
+        const fallback = new FallbackLLMProvider([
+            { name: 'groq', provider: groq },
+            { name: 'deepseek', provider: deepseek },
+        ], options);
+
+        const response = await fallback.generateCompletion(messages);
+
+        expect(response.model).toBe('groq/llama');
+        expect(groq.calls()).toBe(2);
+        expect(deepseek.calls()).toBe(0);
+    });
+
+    it('should fail over to the next provider', async () => {
+        const groq = createProvider('llama', [new Error('503 Service Unavailable')]);
+        const deepseek = createProvider('deepseek-chat', ['respuesta']);
+        const fallback = new FallbackLLMProvider([
+            { name: 'groq', provider: groq },
+            { name: 'deepseek', provider: deepseek },
+        ], options);
+
+        const response = await fallback.generateCompletion(messages);
+
+        expect(response.model).toBe('deepseek/deepseek-chat');
+        expect(groq.calls()).toBe(2); // First attempt + 1 retry
+    });
+
+    it('should not retry non-retryable errors', async () => {
+        const groq = createProvider('llama', [new Error('401 Invalid API key')]);
+        const deepseek = createProvider('deepseek-chat', ['respuesta']);
+        const fallback = new FallbackLLMProvider([
+            { name: 'groq', provider: groq },
+            { name: 'deepseek', provider: deepseek },
+        ], options);
+
+        await fallback.generateCompletion(messages);
+
+        expect(groq.calls()).toBe(1);
+    });
+
+    it('should skip a provider whose circuit is open', async () => {
+        const groq = createProvider('llama', [new Error('429 Too Many Requests')]);
+        const deepseek = createProvider('deepseek-chat', ['respuesta']);
+        const fallback = new FallbackLLMProvider([
+            { name: 'groq', provider: groq },
+            { name: 'deepseek', provider: deepseek },
+        ], { ...options, maxRetries: 0, failureThreshold: 2 });
+
+        await fallback.generateCompletion(messages);
+        await fallback.generateCompletion(messages);
+        expect(fallback.getCircuitStates()).toEqual({ groq: 'open', deepseek: 'closed' });
+
+        await fallback.generateCompletion(messages);
+        expect(groq.calls()).toBe(2);
+        expect(deepseek.calls()).toBe(3);
+    });
+
+    it('should release the half-open trial when the request is aborted', async () => {
+        let now = 0;
+        const groq = createProvider('llama', [
+            new Error('429 Too Many Requests'),
+            new Error('429 Too Many Requests'),
+            new Error('This operation was aborted'),
+            'respuesta',
+        ]);
+        const fallback = new FallbackLLMProvider([{ name: 'groq', provider: groq }], {
+            ...options, maxRetries: 0, failureThreshold: 2, now: () => now,
+        });
+
+        await expect(fallback.generateCompletion(messages)).rejects.toThrow();
+        await expect(fallback.generateCompletion(messages)).rejects.toThrow();
+        expect(fallback.getCircuitStates()).toEqual({ groq: 'open' });
+
+        now = 60000;
+        const controller = new AbortController();
+        controller.abort();
+        await expect(fallback.generateCompletion(messages, { signal: controller.signal }))
+            .rejects.toThrow('This operation was aborted');
+        expect(fallback.getCircuitStates()).toEqual({ groq: 'open' });
+
+        const response = await fallback.generateCompletion(messages);
+        expect(response.content).toBe('respuesta');
+        expect(fallback.getCircuitStates()).toEqual({ groq: 'closed' });
+    });
+
+    it('should report every failure when all providers fail', async () => {
+        const groq = createProvider('llama', [new Error('429 Too Many Requests')]);
+        const ollama = createProvider('qwen', [new Error('ECONNREFUSED')]);
+        const fallback = new FallbackLLMProvider([
+            { name: 'groq', provider: groq },
+            { name: 'ollama', provider: ollama },
+        ], options);
+
+        await expect(fallback.generateCompletion(messages))
+            .rejects.toThrow('All LLM providers failed: groq: 429 Too Many Requests; ollama: ECONNREFUSED');
+    });
+
+    it('should fail over a stream that fails before its first chunk', async () => {
+        const groq = createProvider('llama', [new Error('429 Too Many Requests')]);
+        const deepseek = createProvider('deepseek-chat', ['hola mundo']);
+        const fallback = new FallbackLLMProvider([
+            { name: 'groq', provider: groq },
+            { name: 'deepseek', provider: deepseek },
+        ], options);
+
+        let model: string | undefined;
+        const chunks: string[] = [];
+        const streamOptions: GenerationOptions = { onModel: (name) => { model = name; } };
+        for await (const chunk of fallback.generateStreamingCompletion(messages, streamOptions)) {
+            chunks.push(chunk);
+        }
+
+        expect(chunks).toEqual(['hola', 'mundo']);
+        expect(model).toBe('deepseek/deepseek-chat');
+    });
+
+    it('should use the smallest context window of the chain', () => {
+        const fallback = new FallbackLLMProvider([
+            { name: 'groq', provider: createProvider('llama', ['a'], 131072) },
+            { name: 'ollama', provider: createProvider('qwen', ['a'], 32768) },
+        ], options);
+
+        expect(fallback.getContextWindow()).toBe(32768);
+        expect(fallback.getModelName()).toBe('groq/llama');
+    });
+
+    it('should classify retryable errors', () => {
+        expect(isRetryableError(new Error('Groq completion failed: 429 Rate limit'))).toBe(true);
+        expect(isRetryableError(new Error('Anthropic completion failed: HTTP 529: Overloaded'))).toBe(true);
+        expect(isRetryableError(new Error('fetch failed'))).toBe(true);
+        expect(isRetryableError(new Error('HTTP 400: Invalid request'))).toBe(false);
+        expect(isRetryableError(Object.assign(new Error('Service Unavailable'), { status: 503 }))).toBe(true);
+    });
+
+    it('should only read the status code from the status field of a message', () => {
+        expect(isRetryableError(new Error('HTTP 400: max_tokens must be at most 500'))).toBe(false);
+        expect(isRetryableError(new Error('Groq completion failed: 400 Prompt exceeds 429 pages'))).toBe(false);
+        expect(isRetryableError(new Error('No completion returned from Ollama'))).toBe(false);
+    });
+});
+
+describe('CircuitBreaker', () => {
+    it('should open after the threshold and allow one trial after the reset timeout', () => {
+        let now = 0;
+        const breaker = new CircuitBreaker({ failureThreshold: 2, resetTimeoutMs: 1000, now: () => now });
+
+        breaker.recordFailure();
+        expect(breaker.getState()).toBe('closed');
+        breaker.recordFailure();
+        expect(breaker.canRequest()).toBe(false);
+
+        now = 1000;
+        expect(breaker.canRequest()).toBe(true);
+        expect(breaker.getState()).toBe('half_open');
+        expect(breaker.canRequest()).toBe(false); // Trial in flight
+
+        breaker.recordFailure();
+        expect(breaker.getState()).toBe('open');
+
+        now = 2000;
+        expect(breaker.canRequest()).toBe(true);
+        breaker.recordSuccess();
+        expect(breaker.getState()).toBe('closed');
+    });
+});
@@ -0,0 +1,107 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import type { LLMMessage } from '@ticobot/shared';
+import { GoogleLLMProvider, toGeminiContents } from '../GoogleLLMProvider.js';
+import { env } from '../../../config/env.js';
+import { replay } from './fixtures/replay.js';
+
+const messages: LLMMessage[] = [
+    { role: 'system', content: 'Eres un asistente electoral.' },
+    { role: 'user', content: '¿Qué propone el PUSC?' },
+    { role: 'assistant', content: 'Propone varias medidas.' },
+    { role: 'user', content: '¿Y en educación?' },
+];
+
+describe('GoogleLLMProvider', () => {
+    let provider: GoogleLLMProvider;
+    let fetchMock: ReturnType<typeof vi.fn>;
+
+    beforeEach(() => {
+        fetchMock = vi.fn();
+        vi.stubGlobal('fetch', fetchMock);
+        provider = new GoogleLLMProvider({
+            ...env,
+            GOOGLE_API_KEY: 'test-key',
+            GOOGLE_MODEL: 'gemini-1.5-flash',
+        });
+    });
+
+    afterEach(() => {
+        vi.unstubAllGlobals();
+    });
+
+    it('should require an API key', () => {
+        expect(() => new GoogleLLMProvider({ ...env, GOOGLE_API_KEY: undefined }))
+            .toThrow('GOOGLE_API_KEY is required');
+    });
+
+    it('should use the system instruction and the model role', async () => {
+        fetchMock.mockResolvedValue(replay('gemini-generate.json'));
+
+        await provider.generateCompletion(messages, { temperature: 0.2, maxTokens: 500 });
+
+        const [url, init] = fetchMock.mock.calls[0];
+        const body = JSON.parse(init.body);
+
+        expect(url).toBe('https://generativelanguage.googleapis.com/v1beta/models/gemini-1.5-flash:generateContent');
+        expect(init.headers['x-goog-api-key']).toBe('test-key');
+        expect(body.systemInstruction).toEqual({ parts: [{ text: 'Eres un asistente electoral.' }] });
+        expect(body.contents.map((c: any) => c.role)).toEqual(['user', 'model', 'user']);
+        expect(body.generationConfig.temperature).toBe(0.2);
+        expect(body.generationConfig.maxOutputTokens).toBe(500);
+    });
+
+    it('should not advertise function calling', () => {
+        expect(provider.supportsFunctionCalling()).toBe(false);
+    });
+
+    it('should map the response, usage and finish reason', async () => {
+        fetchMock.mockResolvedValue(replay('gemini-generate.json'));
+
+        const response = await provider.generateCompletion(messages);
+
+        expect(response.content).toBe('El PUSC propone una reforma educativa con énfasis en idiomas [2].');
+        expect(response.model).toBe('gemini-1.5-flash-002');
+        expect(response.usage).toEqual({ promptTokens: 398, completionTokens: 18, totalTokens: 416 });
+        expect(response.finishReason).toBe('stop');
+        expect(provider.getContextWindow()).toBe(1048576);
+    });
+
+    it('should map safety stops to a content_filter finish reason', async () => {
+        fetchMock.mockResolvedValue(replay('gemini-generate-safety.json'));
+
+        const response = await provider.generateCompletion(messages);
+
+        expect(response.finishReason).toBe('content_filter');
+    });
+
+    it('should surface API errors', async () => {
+        fetchMock.mockResolvedValue(replay('gemini-error.json', 400));
+
+        await expect(provider.generateCompletion(messages))
+            .rejects.toThrow('Google completion failed: HTTP 400: API key not valid');
+    });
+
+    it('should stream text parts over SSE', async () => {
+        fetchMock.mockResolvedValue(replay('gemini-stream.sse'));
+
+        const chunks: string[] = [];
+        for await (const chunk of provider.generateStreamingCompletion(messages)) {
+            chunks.push(chunk);
+        }
+
+        expect(fetchMock.mock.calls[0][0]).toBe(
+            'https://generativelanguage.googleapis.com/v1beta/models/gemini-1.5-flash:streamGenerateContent?alt=sse'
+        );
+        expect(chunks).toEqual(['El PUSC propone', ' una reforma educativa', ' [2].']);
+    });
+
+    it('should merge consecutive messages of the same role', () => {
+        const converted = toGeminiContents([
+            { role: 'user', content: 'Contexto' },
+            { role: 'user', content: 'Pregunta' },
+        ]);
+
+        expect(converted.systemInstruction).toBeUndefined();
+        expect(converted.contents).toEqual([{ role: 'user', parts: [{ text: 'Contexto' }, { text: 'Pregunta' }] }]);
+    });
+});
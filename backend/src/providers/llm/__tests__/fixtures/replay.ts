@@ -0,0 +1,21 @@
+import fs from 'fs';
+import path from 'path';
+
+/**
+ * Replay a recorded HTTP response (streamed in small pieces to exercise SSE parsing)
+ */
+export function replay(fixture: string, status: number = 200): Response {
+    const body = fs.readFileSync(path.join(__dirname, fixture), 'utf-8');
+    const bytes = new TextEncoder().encode(body);
+
+    const stream = new ReadableStream<Uint8Array>({
+        start(controller) {
+            for (let i = 0; i < bytes.length; i += 37) {
+                controller.enqueue(bytes.slice(i, i + 37));
+            }
+            controller.close();
+        },
+    });
+
+    return new Response(stream, { status });
+}
@@ -0,0 +1,82 @@
+/**
+ * HTTP helpers for LLM providers that call their REST APIs directly
+ */
+
+export interface ServerSentEvent {
+  event?: string;
+  data: string;
+}
+
+/**
+ * Parse a server-sent events (SSE) response body
+ * @param response - Streaming fetch response
+ * @returns AsyncIterator of events in arrival order
+ */
+export async function* parseServerSentEvents(response: Response): AsyncIterableIterator<ServerSentEvent> {
+  if (!response.body) {
+    throw new Error('Streaming response has no body');
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      buffer += done ? decoder.decode() : decoder.decode(value, { stream: true });
+
+      // Events are separated by a blank line
+      const blocks = buffer.split(/\r?\n\r?\n/);
+      buffer = done ? '' : blocks.pop() ?? '';
+
+      for (const block of blocks) {
+        const event = parseEventBlock(block);
+        if (event) {
+          yield event;
+        }
+      }
+
+      if (done) {
+        return;
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+function parseEventBlock(block: string): ServerSentEvent | null {
+  let event: string | undefined;
+  const data: string[] = [];
+
+  for (const line of block.split(/\r?\n/)) {
+    if (line.startsWith('event:')) {
+      event = line.slice(6).trim();
+    } else if (line.startsWith('data:')) {
+      data.push(line.slice(5).replace(/^ /, ''));
+    }
+  }
+
+  return data.length > 0 ? { event, data: data.join('\n') } : null;
+}
+
+/**
+ * Build an error message from a failed API response
+ * Uses the API's error message when the body is JSON ({ error: { message } })
+ */
+export async function getResponseErrorMessage(response: Response): Promise<string> {
+  const body = await response.text().catch(() => '');
+
+  try {
+    const parsed = JSON.parse(body);
+    const message = parsed?.error?.message || parsed?.message;
+    if (message) {
+      return `HTTP ${response.status}: ${message}`;
+    }
+  } catch {
+    // Not JSON - use the raw body below
+  }
+
+  return `HTTP ${response.status}${body ? `: ${body.substring(0, 200)}` : ''}`;
+}
@@ -0,0 +1,61 @@
+/**
+ * Retry helpers shared by provider clients
+ */
+
+/**
+ * HTTP statuses worth retrying on the same provider: rate limits, overload
+ * and server errors
+ */
+const RETRYABLE_STATUS_CODES = [429, 500, 502, 503, 504, 529];
+
+/**
+ * Status code of a provider error message: after "HTTP " (httpUtils) or at the
+ * start of an SDK message ("429 Rate limit"), optionally behind the provider's
+ * "... failed: " prefix
+ */
+const STATUS_PATTERN = /(?:^|\bHTTP |failed: )(\d{3})\b/;
+
+/**
+ * Transient errors without a status: rate limit messages, timeouts and network failures
+ */
+const RETRYABLE_MESSAGE_PATTERN =
+  /rate.?limit|too many requests|overloaded|timed? ?out|ECONNRESET|ECONNREFUSED|ETIMEDOUT|EAI_AGAIN|socket hang up|fetch failed|network/i;
+
+/**
+ * Whether an error is transient (providers wrap HTTP errors in plain
+ * Error messages, so the status code is read from the message when the
+ * error has no status property)
+ */
+export function isRetryableError(error: unknown): boolean {
+  const message = error instanceof Error ? error.message : String(error);
+  const status = getErrorStatus(error, message);
+
+  if (status !== null) {
+    return RETRYABLE_STATUS_CODES.includes(status);
+  }
+  return RETRYABLE_MESSAGE_PATTERN.test(message);
+}
+
+function getErrorStatus(error: unknown, message: string): number | null {
+  const status = (error as { status?: unknown } | null)?.status;
+  if (typeof status === 'number') {
+    return status;
+  }
+
+  const match = message.match(STATUS_PATTERN);
+  return match ? Number(match[1]) : null;
+}
+
+/**
+ * Exponential backoff delay with up to 25% jitter
+ * @param attempt - Zero-based retry attempt
+ * @param baseDelayMs - Delay of the first retry
+ */
+export function getBackoffDelay(attempt: number, baseDelayMs: number): number {
+  const delay = baseDelayMs * 2 ** attempt;
+  return Math.round(delay + delay * 0.25 * Math.random());
+}
+
+export function sleep(ms: number): Promise<void> {
+  return ms > 0 ? new Promise((resolve) => setTimeout(resolve, ms)) : Promise.resolve();
+}
@@ -0,0 +1,653 @@
+import { createHash, randomUUID } from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import type { IVectorStore, VectorDocument, SearchResult } from '@ticobot/shared';
+import type {
+  IncrementalChunkStore,
+  StoredChunkFingerprint,
+  StoredDocumentFingerprint,
+} from './chunkFingerprints.js';
+
+/**
+ * Document metadata row (mirrors the documents table)
+ */
+interface StoredDocument {
+  id: string; // UUID referenced by chunk metadata.documentId
+  documentId: string; // Slug (e.g. "pln-2026")
+  title: string;
+  partyId: string;
+  partyName: string;
+  url?: string;
+  filePath?: string;
+  pageCount?: number;
+  fileSizeBytes?: number;
+  contentVersion?: string;
+  sourceHash?: string | null;
+  embeddingModel?: string;
+  metadata: Record<string, any>;
+  parsedAt: string;
+}
+
+/**
+ * Chunk row (mirrors the chunks table) plus its keyword index entry
+ */
+interface StoredChunk {
+  id: string;
+  documentId: string | null; // Document UUID
+  chunkIndex: number;
+  content: string;
+  embedding: number[];
+  metadata: Record<string, any>;
+  terms: Map<string, number>; // Weighted term frequencies
+  length: number; // Weighted number of terms
+}
+
+interface Snapshot {
+  version: number;
+  savedAt: string;
+  documents: StoredDocument[];
+  chunks: Array<Omit<StoredChunk, 'terms' | 'length'>>;
+}
+
+const SNAPSHOT_VERSION = 1;
+
+/**
+ * Default similarity threshold of the match_chunks RPC
+ */
+const MATCH_THRESHOLD = 0.7;
+
+/**
+ * BM25 parameters
+ */
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+/**
+ * Term weights of the indexed fields (same as the chunks search_vector:
+ * content A, keywords B, entities C with the default ts_rank weights)
+ */
+const FIELD_WEIGHTS = {
+  content: 1.0,
+  keywords: 0.4,
+  entities: 0.2,
+};
+
+/**
+ * Spanish function words ignored by the keyword index
+ */
+const STOPWORDS = new Set([
+  'el', 'la', 'lo', 'los', 'las', 'un', 'una', 'unos', 'unas', 'de', 'del', 'al', 'a', 'en', 'con',
+  'por', 'para', 'que', 'como', 'sus', 'su', 'sin', 'sobre', 'entre', 'desde', 'hasta', 'mas', 'muy',
+  'este', 'esta', 'estos', 'estas', 'ese', 'esa', 'esos', 'esas', 'ser', 'es', 'son', 'fue', 'han',
+  'ha', 'hay', 'y', 'o', 'u', 'e', 'ni', 'se', 'no', 'si', 'le', 'les', 'nos', 'ya', 'tambien',
+  'cual', 'cuales', 'donde', 'cuando', 'quien', 'cada', 'todo', 'todos', 'toda', 'todas',
+]);
+
+/**
+ * In-memory Vector Store Provider
+ * Implements IVectorStore in pure TypeScript for tests and offline development.
+ * Mirrors SupabaseVectorStore: documents/chunks rows, cosine search with the
+ * match_chunks threshold, the same party filter and a hybrid search whose
+ * keyword side is BM25. With a snapshot path the index is loaded from and
+ * saved to a JSON file after every change.
+ */
+export class MemoryVectorStore implements IVectorStore, IncrementalChunkStore {
+  private documents = new Map<string, StoredDocument>();
+  private chunks = new Map<string, StoredChunk>();
+  private documentFrequency = new Map<string, number>();
+  private totalLength = 0;
+  private snapshotPath?: string;
+  private loadPromise: Promise<void> | null = null;
+  private savePromise: Promise<void> = Promise.resolve();
+
+  constructor(options: { snapshotPath?: string } = {}) {
+    this.snapshotPath = options.snapshotPath;
+  }
+
+  /**
+   * Insert or update document metadata
+   * @returns The UUID of the inserted/updated document
+   */
+  async upsertDocument(document: {
+    documentId: string;
+    title: string;
+    partyId: string;
+    partyName: string;
+    url?: string;
+    filePath?: string;
+    pageCount?: number;
+    fileSizeBytes?: number;
+    contentVersion?: string;
+    sourceHash?: string | null;
+    metadata?: Record<string, any>;
+  }): Promise<string> {
+    await this.ensureLoaded();
+
+    const existing = Array.from(this.documents.values())
+      .find((stored) => stored.documentId === document.documentId);
+    const id = existing?.id || randomUUID();
+
+    this.documents.set(id, {
+      id,
+      documentId: document.documentId,
+      title: document.title,
+      partyId: document.partyId,
+      partyName: document.partyName,
+      url: document.url,
+      filePath: document.filePath,
+      pageCount: document.pageCount,
+      fileSizeBytes: document.fileSizeBytes,
+      contentVersion: document.contentVersion,
+      sourceHash: document.sourceHash,
+      embeddingModel: existing?.embeddingModel,
+      metadata: document.metadata || {},
+      parsedAt: new Date().toISOString(),
+    });
+
+    await this.persist();
+    return id;
+  }
+
+  async upsert(documents: VectorDocument[]): Promise<void> {
+    await this.ensureLoaded();
+
+    for (const doc of documents) {
+      const documentId = doc.metadata?.documentId || null;
+      const chunkIndex = doc.metadata?.chunkIndex || 0;
+
+      // Same unique constraint as the chunks table: (document_id, chunk_index)
+      for (const chunk of this.chunks.values()) {
+        if (chunk.id === doc.id || (documentId && chunk.documentId === documentId && chunk.chunkIndex === chunkIndex)) {
+          this.removeChunk(chunk.id);
+        }
+      }
+
+      this.addChunk({
+        id: doc.id || randomUUID(),
+        documentId,
+        chunkIndex,
+        content: doc.content,
+        embedding: doc.embedding,
+        metadata: doc.metadata || {},
+      });
+    }
+
+    await this.persist();
+  }
+
+  async similaritySearch(
+    queryEmbedding: number[],
+    k: number,
+    filters?: Record<string, any>
+  ): Promise<SearchResult[]> {
+    await this.ensureLoaded();
+
+    // Support both party_id (snake_case) and partyId (camelCase)
+    const partyId = filters?.party_id || filters?.partyId || null;
+
+    return Array.from(this.chunks.values())
+      .filter((chunk) => this.matchesParty(chunk, partyId))
+      .map((chunk) => ({ chunk, similarity: cosineSimilarity(queryEmbedding, chunk.embedding) }))
+      .filter(({ similarity }) => similarity > MATCH_THRESHOLD)
+      .sort((a, b) => b.similarity - a.similarity)
+      .slice(0, k)
+      .map(({ chunk, similarity }) => {
+        const docInfo = this.documents.get(chunk.documentId || '');
+
+        return {
+          document: {
+            id: chunk.id,
+            content: chunk.content,
+            embedding: chunk.embedding,
+            metadata: {
+              ...chunk.metadata,
+              partyId: docInfo?.partyId || chunk.metadata?.partyId,
+              party: docInfo?.partyName || chunk.metadata?.partyName || chunk.metadata?.party || 'Unknown',
+              partyName: docInfo?.partyName || chunk.metadata?.partyName,
+              title: docInfo?.title || chunk.metadata?.title,
+              documentId: docInfo?.documentId || chunk.metadata?.documentId,
+            },
+          },
+          score: similarity,
+        };
+      });
+  }
+
+  /**
+   * Hybrid search combining vector similarity with BM25 keyword search
+   * Same scoring as the hybrid_search RPC: weighted sum of the cosine
+   * similarity and the keyword score normalized to 0-1
+   *
+   * @param queryEmbedding - Vector embedding of the query
+   * @param queryText - Original query text for keyword matching
+   * @param k - Number of results to return
+   * @param options - Search options (weights, filters, thresholds)
+   * @returns Array of search results with hybrid scores
+   */
+  async hybridSearch(
+    queryEmbedding: number[],
+    queryText: string,
+    k: number,
+    options?: {
+      vectorWeight?: number;      // Default: 0.7 (70%)
+      keywordWeight?: number;     // Default: 0.3 (30%)
+      minScore?: number;          // Default: 0.3
+      partyId?: string;          // Filter by party
+      minQualityScore?: number;  // Filter by quality
+    }
+  ): Promise<SearchResult[]> {
+    await this.ensureLoaded();
+
+    const vectorWeight = options?.vectorWeight ?? 0.7;
+    const keywordWeight = options?.keywordWeight ?? 0.3;
+    const minScore = options?.minScore ?? 0.3;
+    const partyId = options?.partyId ?? null;
+    const minQualityScore = options?.minQualityScore ?? 0.0;
+
+    const queryTerms = [...new Set(tokenize(queryText))];
+
+    return Array.from(this.chunks.values())
+      .filter((chunk) => this.matchesParty(chunk, partyId))
+      .filter((chunk) => minQualityScore === 0.0 || (chunk.metadata?.qualityScore ?? 1.0) >= minQualityScore)
+      .map((chunk) => {
+        const vectorScore = cosineSimilarity(queryEmbedding, chunk.embedding);
+        // rank / (rank + 1), like ts_rank_cd normalization flag 32
+        const rank = this.bm25(chunk, queryTerms);
+        const keywordScore = rank / (rank + 1);
+
+        return {
+          chunk,
+          vectorScore,
+          keywordScore,
+          hybridScore: vectorScore * vectorWeight + Math.min(keywordScore, 1.0) * keywordWeight,
+        };
+      })
+      .filter(({ hybridScore }) => hybridScore >= minScore)
+      .sort((a, b) => b.hybridScore - a.hybridScore)
+      .slice(0, k)
+      .map(({ chunk, vectorScore, keywordScore, hybridScore }) => {
+        const docInfo = this.documents.get(chunk.documentId || '');
+
+        return {
+          document: {
+            id: chunk.id,
+            content: chunk.content,
+            embedding: null as any, // Don't return embedding (same as SupabaseVectorStore)
+            metadata: {
+              ...chunk.metadata,
+              partyId: docInfo?.partyId || chunk.metadata?.partyId,
+              party: docInfo?.partyId || chunk.metadata?.party || chunk.metadata?.partyId,
+              partyName: docInfo?.partyName || chunk.metadata?.partyName,
+              title: docInfo?.title || chunk.metadata?.title,
+              documentId: docInfo?.documentId || chunk.metadata?.documentId,
+              hybridScore,
+              vectorScore,
+              keywordScore,
+            },
+          },
+          score: hybridScore,
+        };
+      });
+  }
+
+  async delete(ids: string[]): Promise<void> {
+    await this.ensureLoaded();
+
+    for (const id of ids) {
+      this.removeChunk(id);
+    }
+
+    await this.persist();
+  }
+
+  /**
+   * Get the fingerprints stored for a document
+   * @param documentId - Document slug (e.g. "pln-2026")
+   * @returns null if the document was never stored
+   */
+  async getDocumentFingerprint(documentId: string): Promise<StoredDocumentFingerprint | null> {
+    await this.ensureLoaded();
+
+    const document = Array.from(this.documents.values())
+      .find((stored) => stored.documentId === documentId);
+    if (!document) {
+      return null;
+    }
+
+    const chunks: StoredChunkFingerprint[] = Array.from(this.chunks.values())
+      .filter((chunk) => chunk.documentId === document.id)
+      .sort((a, b) => a.chunkIndex - b.chunkIndex)
+      .map((chunk) => ({
+        id: chunk.id,
+        chunkIndex: chunk.chunkIndex,
+        // Chunks stored before fingerprinting are hashed like the chunks table backfill
+        contentHash: chunk.metadata?.contentHash
+          ?? createHash('sha256').update(chunk.metadata?.cleanContent || chunk.content).digest('hex'),
+        pageRange: chunk.metadata?.pageRange
+          ?? (typeof chunk.metadata?.pageNumber === 'number'
+            ? { start: chunk.metadata.pageNumber, end: chunk.metadata.pageNumber }
+            : undefined),
+      }));
+
+    return {
+      sourceHash: document.sourceHash ?? null,
+      embeddingModel: document.embeddingModel ?? null,
+      chunks,
+    };
+  }
+
+  /**
+   * Get the stored embeddings of chunks (to reuse them for unchanged content)
+   */
+  async getChunkEmbeddings(chunkIds: string[]): Promise<Map<string, number[]>> {
+    await this.ensureLoaded();
+
+    const embeddings = new Map<string, number[]>();
+    for (const id of chunkIds) {
+      const chunk = this.chunks.get(id);
+      if (chunk) {
+        embeddings.set(id, chunk.embedding);
+      }
+    }
+    return embeddings;
+  }
+
+  /**
+   * Delete the chunks of a document from an index on (a shorter re-ingested version)
+   * @returns Number of deleted chunks
+   */
+  async deleteChunksFrom(documentUuid: string, chunkIndex: number): Promise<number> {
+    await this.ensureLoaded();
+
+    const stale = Array.from(this.chunks.values())
+      .filter((chunk) => chunk.documentId === documentUuid && chunk.chunkIndex >= chunkIndex);
+    for (const chunk of stale) {
+      this.removeChunk(chunk.id);
+    }
+
+    if (stale.length > 0) {
+      await this.persist();
+    }
+    return stale.length;
+  }
+
+  /**
+   * Record the source PDF and embedding model of a document once all its chunks are stored
+   */
+  async setDocumentFingerprint(documentUuid: string, sourceHash: string, embeddingModel: string): Promise<void> {
+    await this.ensureLoaded();
+
+    const document = this.documents.get(documentUuid);
+    if (!document) {
+      throw new Error(`Document ${documentUuid} not found`);
+    }
+
+    document.sourceHash = sourceHash;
+    document.embeddingModel = embeddingModel;
+    await this.persist();
+  }
+
+  async getById(id: string): Promise<VectorDocument | null> {
+    await this.ensureLoaded();
+
+    const chunk = this.chunks.get(id);
+    if (!chunk) {
+      return null;
+    }
+
+    return {
+      id: chunk.id,
+      content: chunk.content,
+      embedding: chunk.embedding,
+      metadata: chunk.metadata,
+    };
+  }
+
+  async count(filters?: Record<string, any>): Promise<number> {
+    await this.ensureLoaded();
+
+    if (!filters) {
+      return this.chunks.size;
+    }
+
+    return Array.from(this.chunks.values()).filter((chunk) =>
+      Object.entries(filters).every(([key, value]) => chunk.metadata?.[key] === value)
+    ).length;
+  }
+
+  /**
+   * Get the dimension of the embeddings already stored in the index
+   * @returns Dimension of a stored embedding, or null if the index is empty
+   */
+  async getEmbeddingDimension(): Promise<number | null> {
+    await this.ensureLoaded();
+
+    const first = this.chunks.values().next().value as StoredChunk | undefined;
+    return first ? first.embedding.length : null;
+  }
+
+  async initialize(): Promise<void> {
+    await this.ensureLoaded();
+  }
+
+  /**
+   * Remove every document and chunk
+   */
+  async clear(): Promise<void> {
+    await this.ensureLoaded();
+
+    this.documents.clear();
+    this.chunks.clear();
+    this.documentFrequency.clear();
+    this.totalLength = 0;
+
+    await this.persist();
+  }
+
+  /**
+   * Write a snapshot of the index to disk
+   * @param snapshotPath - Target file (defaults to the configured snapshot path)
+   */
+  async save(snapshotPath: string | undefined = this.snapshotPath): Promise<void> {
+    if (!snapshotPath) {
+      throw new Error('No snapshot path configured for the memory vector store');
+    }
+
+    const snapshot: Snapshot = {
+      version: SNAPSHOT_VERSION,
+      savedAt: new Date().toISOString(),
+      documents: Array.from(this.documents.values()),
+      chunks: Array.from(this.chunks.values()).map(({ terms, length, ...chunk }) => chunk),
+    };
+
+    // Write to a temporary file first so a crash never leaves a truncated snapshot
+    await fs.mkdir(path.dirname(snapshotPath), { recursive: true });
+    const tempPath = `${snapshotPath}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(snapshot));
+    await fs.rename(tempPath, snapshotPath);
+  }
+
+  /**
+   * Replace the index with a snapshot from disk
+   * A missing file leaves the index empty
+   * @param snapshotPath - Source file (defaults to the configured snapshot path)
+   */
+  async load(snapshotPath: string | undefined = this.snapshotPath): Promise<void> {
+    if (!snapshotPath) {
+      throw new Error('No snapshot path configured for the memory vector store');
+    }
+
+    let raw: string;
+    try {
+      raw = await fs.readFile(snapshotPath, 'utf-8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return;
+      }
+      throw new Error(
+        `Memory vector store snapshot load failed: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+
+    const snapshot = JSON.parse(raw) as Snapshot;
+    if (snapshot.version !== SNAPSHOT_VERSION) {
+      throw new Error(`Unsupported memory vector store snapshot version: ${snapshot.version}`);
+    }
+
+    this.documents = new Map(snapshot.documents.map((document) => [document.id, document]));
+    this.chunks.clear();
+    this.documentFrequency.clear();
+    this.totalLength = 0;
+
+    for (const chunk of snapshot.chunks) {
+      this.addChunk(chunk);
+    }
+  }
+
+  private ensureLoaded(): Promise<void> {
+    if (!this.loadPromise) {
+      this.loadPromise = this.snapshotPath ? this.load() : Promise.resolve();
+    }
+    return this.loadPromise;
+  }
+
+  /**
+   * Save after a change when a snapshot path is configured
+   * Saves are chained so concurrent changes never write at the same time
+   */
+  private persist(): Promise<void> {
+    if (!this.snapshotPath) {
+      return Promise.resolve();
+    }
+
+    this.savePromise = this.savePromise
+      .catch(() => undefined)
+      .then(() => this.save());
+
+    return this.savePromise;
+  }
+
+  private addChunk(chunk: Omit<StoredChunk, 'terms' | 'length'>): void {
+    const terms = new Map<string, number>();
+    const addTerms = (text: string, weight: number) => {
+      for (const term of tokenize(text)) {
+        terms.set(term, (terms.get(term) || 0) + weight);
+      }
+    };
+
+    addTerms(chunk.content || '', FIELD_WEIGHTS.content);
+    addTerms(toText(chunk.metadata?.keywords), FIELD_WEIGHTS.keywords);
+    addTerms(toText(chunk.metadata?.entities), FIELD_WEIGHTS.entities);
+
+    const length = Array.from(terms.values()).reduce((sum, frequency) => sum + frequency, 0);
+
+    this.chunks.set(chunk.id, { ...chunk, terms, length });
+    this.totalLength += length;
+    for (const term of terms.keys()) {
+      this.documentFrequency.set(term, (this.documentFrequency.get(term) || 0) + 1);
+    }
+  }
+
+  private removeChunk(id: string): void {
+    const chunk = this.chunks.get(id);
+    if (!chunk) {
+      return;
+    }
+
+    this.chunks.delete(id);
+    this.totalLength -= chunk.length;
+    for (const term of chunk.terms.keys()) {
+      const frequency = (this.documentFrequency.get(term) || 1) - 1;
+      if (frequency > 0) {
+        this.documentFrequency.set(term, frequency);
+      } else {
+        this.documentFrequency.delete(term);
+      }
+    }
+  }
+
+  private bm25(chunk: StoredChunk, queryTerms: string[]): number {
+    const chunkCount = this.chunks.size;
+    const averageLength = chunkCount > 0 ? this.totalLength / chunkCount : 0;
+    let score = 0;
+
+    for (const term of queryTerms) {
+      const frequency = chunk.terms.get(term);
+      if (!frequency) {
+        continue;
+      }
+
+      const documentFrequency = this.documentFrequency.get(term) || 0;
+      const idf = Math.log(1 + (chunkCount - documentFrequency + 0.5) / (documentFrequency + 0.5));
+      const lengthNorm = averageLength > 0 ? chunk.length / averageLength : 1;
+
+      score += idf * (frequency * (BM25_K1 + 1)) / (frequency + BM25_K1 * (1 - BM25_B + BM25_B * lengthNorm));
+    }
+
+    return score;
+  }
+
+  /**
+   * Party filter with the same semantics as the search RPCs: the filter
+   * can be the document's party UUID or the party abbreviation.
+   * Chunks stored without a document fall back to their own metadata.
+   */
+  private matchesParty(chunk: StoredChunk, partyId: string | null): boolean {
+    if (!partyId) {
+      return true;
+    }
+
+    const document = chunk.documentId ? this.documents.get(chunk.documentId) : undefined;
+    if (document) {
+      return document.partyId === partyId || document.metadata?.partyAbbreviation === partyId;
+    }
+
+    return chunk.metadata?.partyId === partyId || chunk.metadata?.partyAbbreviation === partyId;
+  }
+}
+
+function cosineSimilarity(a: number[], b: number[]): number {
+  if (!a || !b || a.length !== b.length) {
+    return 0;
+  }
+
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+
+  return normA > 0 && normB > 0 ? dot / (Math.sqrt(normA) * Math.sqrt(normB)) : 0;
+}
+
+function toText(value: unknown): string {
+  return Array.isArray(value) ? value.join(' ') : '';
+}
+
+/**
+ * Lowercase, accent-free terms with a light Spanish plural stemming
+ * ("políticas" and "política" index the same term)
+ */
+function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .split(/[^a-z0-9]+/)
+    .filter((token) => token.length > 1 && !STOPWORDS.has(token))
+    .map(stem);
+}
+
+function stem(term: string): string {
+  let stemmed = term;
+  if (stemmed.length > 5 && stemmed.endsWith('es')) {
+    stemmed = stemmed.slice(0, -2);
+  }
+  if (stemmed.length > 3 && stemmed.endsWith('s')) {
+    stemmed = stemmed.slice(0, -1);
+  }
+  return stemmed;
+}
@@ -1,12 +1,37 @@
 import { createClient, SupabaseClient } from '@supabase/supabase-js';
 import type { IVectorStore, VectorDocument, SearchResult } from '@ticobot/shared';
 import type { Env } from '../../config/env.js';
+import type {
+  IncrementalChunkStore,
+  StoredChunkFingerprint,
+  StoredDocumentFingerprint,
+} from './chunkFingerprints.js';
+
+/**
+ * Rows per upsert request (keeps request bodies well under PostgREST limits)
+ */
+const UPSERT_BATCH_SIZE = 500;
+
+/**
+ * Rows per read request (PostgREST caps responses at 1000 rows by default)
+ */
+const READ_PAGE_SIZE = 1000;
+
+/**
+ * Chunk ids per embedding read (1536-dimension vectors make large responses)
+ */
+const EMBEDDING_READ_BATCH_SIZE = 100;
+
+/**
+ * Dimension of chunks.embedding in the initial schema (vector(1536))
+ */
+const SCHEMA_EMBEDDING_DIMENSION = 1536;
 
 /**
  * Supabase Vector Store Provider
  * Implements IVectorStore using Supabase's pgvector extension
  */
-export class SupabaseVectorStore implements IVectorStore {
+export class SupabaseVectorStore implements IVectorStore, IncrementalChunkStore {
   private client: SupabaseClient;
   private tableName: string;
 
@@ -48,6 +73,8 @@ export class SupabaseVectorStore implements IVectorStore {
     filePath?: string;
     pageCount?: number;
     fileSizeBytes?: number;
+    contentVersion?: string; // Hash of the chunk contents, tags cached answers
+    sourceHash?: string | null; // Hash of the source PDF, skips re-ingesting an unchanged file
     metadata?: Record<string, any>;
   }): Promise<string> {
     try {
@@ -63,6 +90,8 @@ export class SupabaseVectorStore implements IVectorStore {
             file_path: document.filePath,
             page_count: document.pageCount,
             file_size_bytes: document.fileSizeBytes,
+            content_version: document.contentVersion,
+            source_hash: document.sourceHash,
             metadata: document.metadata || {},
             parsed_at: new Date().toISOString(),
           },
@@ -91,33 +120,6 @@ export class SupabaseVectorStore implements IVectorStore {
 
   async upsert(documents: VectorDocument[]): Promise<void> {
     try {
-      // First, delete existing chunks that would conflict
-      // This handles the unique constraint (document_id, chunk_index)
-      const documentIds = [...new Set(documents.map(doc => doc.metadata?.documentId).filter(Boolean))];
-      const chunkIndices = documents.map(doc => doc.metadata?.chunkIndex).filter(idx => idx !== undefined);
-
-      if (documentIds.length > 0 && chunkIndices.length > 0) {
-        // Delete chunks that match (document_id, chunk_index) pairs
-        for (const doc of documents) {
-          const docId = doc.metadata?.documentId;
-          const chunkIdx = doc.metadata?.chunkIndex;
-          
-          if (docId && chunkIdx !== undefined) {
-            const { error: deleteError } = await this.client
-              .from(this.tableName)
-              .delete()
-              .eq('document_id', docId)
-              .eq('chunk_index', chunkIdx);
-
-            // Ignore errors if chunk doesn't exist (that's fine)
-            if (deleteError && !deleteError.message.includes('No rows')) {
-              // Log but continue - might be a race condition
-              console.warn(`Warning deleting chunk ${docId}:${chunkIdx}:`, deleteError.message);
-            }
-          }
-        }
-      }
-
       const rows = documents.map((doc) => {
         const row: any = {
           document_id: doc.metadata?.documentId || null,
@@ -126,6 +128,7 @@ export class SupabaseVectorStore implements IVectorStore {
           clean_content: doc.metadata?.cleanContent || doc.content,
           // Convert embedding array to pgvector format string
           embedding: this.embeddingToVector(doc.embedding),
+          content_hash: doc.metadata?.contentHash || null,
           token_count: doc.metadata?.tokens || null,
           char_count: doc.content?.length || 0,
           metadata: doc.metadata,
@@ -139,13 +142,20 @@ export class SupabaseVectorStore implements IVectorStore {
         return row;
       });
 
-      // Insert (not upsert) since we've already deleted conflicts
-      const { error } = await this.client
-        .from(this.tableName)
-        .insert(rows);
+      // Set-based write: rows replace existing chunks through the
+      // UNIQUE(document_id, chunk_index) constraint, one request per batch
+      for (let i = 0; i < rows.length; i += UPSERT_BATCH_SIZE) {
+        const { error } = await this.client
+          .from(this.tableName)
+          .upsert(rows.slice(i, i + UPSERT_BATCH_SIZE), {
+            onConflict: 'document_id,chunk_index',
+            // Rows without an id keep the gen_random_uuid() default
+            defaultToNull: false,
+          });
 
-      if (error) {
-        throw error;
+        if (error) {
+          throw error;
+        }
       }
     } catch (error) {
       throw new Error(
@@ -363,6 +373,136 @@ export class SupabaseVectorStore implements IVectorStore {
     }
   }
 
+  /**
+   * Get the fingerprints stored for a document
+   * @param documentId - Document slug (e.g. "pln-2026")
+   * @returns null if the document was never stored
+   */
+  async getDocumentFingerprint(documentId: string): Promise<StoredDocumentFingerprint | null> {
+    try {
+      const { data: document, error } = await this.client
+        .from('documents')
+        .select('id, source_hash, embedding_model')
+        .eq('document_id', documentId)
+        .maybeSingle();
+
+      if (error) {
+        throw error;
+      }
+
+      if (!document) {
+        return null;
+      }
+
+      const chunks: StoredChunkFingerprint[] = [];
+      for (let from = 0; ; from += READ_PAGE_SIZE) {
+        const { data, error: chunksError } = await this.client
+          .from(this.tableName)
+          .select('id, chunk_index, content_hash, page_number:metadata->pageNumber, page_range:metadata->pageRange')
+          .eq('document_id', document.id)
+          .order('chunk_index', { ascending: true })
+          .range(from, from + READ_PAGE_SIZE - 1);
+
+        if (chunksError) {
+          throw chunksError;
+        }
+
+        for (const row of (data || []) as any[]) {
+          chunks.push({
+            id: row.id,
+            chunkIndex: row.chunk_index,
+            contentHash: row.content_hash,
+            pageRange: row.page_range
+              ?? (typeof row.page_number === 'number' ? { start: row.page_number, end: row.page_number } : undefined),
+          });
+        }
+
+        if (!data || data.length < READ_PAGE_SIZE) {
+          break;
+        }
+      }
+
+      return { sourceHash: document.source_hash, embeddingModel: document.embedding_model, chunks };
+    } catch (error) {
+      throw new Error(
+        `Supabase fingerprint lookup failed: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  /**
+   * Get the stored embeddings of chunks (to reuse them for unchanged content)
+   * @returns Embeddings by chunk id; chunks without an embedding are left out
+   */
+  async getChunkEmbeddings(chunkIds: string[]): Promise<Map<string, number[]>> {
+    const embeddings = new Map<string, number[]>();
+
+    try {
+      for (let i = 0; i < chunkIds.length; i += EMBEDDING_READ_BATCH_SIZE) {
+        const { data, error } = await this.client
+          .from(this.tableName)
+          .select('id, embedding')
+          .in('id', chunkIds.slice(i, i + EMBEDDING_READ_BATCH_SIZE))
+          .not('embedding', 'is', null);
+
+        if (error) {
+          throw error;
+        }
+
+        for (const row of data || []) {
+          // pgvector columns are returned as '[0.1,0.2,...]' strings
+          embeddings.set(row.id, typeof row.embedding === 'string' ? JSON.parse(row.embedding) : row.embedding);
+        }
+      }
+
+      return embeddings;
+    } catch (error) {
+      throw new Error(
+        `Supabase embedding lookup failed: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  /**
+   * Delete the chunks of a document from an index on (a shorter re-ingested version)
+   * @returns Number of deleted chunks
+   */
+  async deleteChunksFrom(documentUuid: string, chunkIndex: number): Promise<number> {
+    try {
+      const { data, error } = await this.client
+        .from(this.tableName)
+        .delete()
+        .eq('document_id', documentUuid)
+        .gte('chunk_index', chunkIndex)
+        .select('id');
+
+      if (error) {
+        throw error;
+      }
+
+      return data?.length ?? 0;
+    } catch (error) {
+      throw new Error(
+        `Supabase chunk delete failed: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  /**
+   * Record the source PDF and embedding model of a document once all its chunks are stored
+   * @param documentUuid - documents.id
+   */
+  async setDocumentFingerprint(documentUuid: string, sourceHash: string, embeddingModel: string): Promise<void> {
+    const { error } = await this.client
+      .from('documents')
+      .update({ source_hash: sourceHash, embedding_model: embeddingModel })
+      .eq('id', documentUuid);
+
+    if (error) {
+      throw new Error(`Supabase fingerprint update failed: ${error.message}`);
+    }
+  }
+
   async getById(id: string): Promise<VectorDocument | null> {
     try {
       const { data, error } = await this.client
@@ -422,6 +562,61 @@ export class SupabaseVectorStore implements IVectorStore {
     }
   }
 
+  /**
+   * Get the dimension of the embeddings already stored in the index
+   * @returns Dimension of a stored embedding, or null if the index is empty
+   */
+  async getEmbeddingDimension(): Promise<number | null> {
+    try {
+      const { data, error } = await this.client
+        .from(this.tableName)
+        .select('embedding')
+        .not('embedding', 'is', null)
+        .limit(1)
+        .maybeSingle();
+
+      if (error) {
+        throw error;
+      }
+
+      if (!data?.embedding) {
+        return null;
+      }
+
+      // pgvector columns are returned as '[0.1,0.2,...]' strings
+      const embedding: number[] = typeof data.embedding === 'string'
+        ? JSON.parse(data.embedding)
+        : data.embedding;
+
+      return embedding.length;
+    } catch (error) {
+      throw new Error(
+        `Supabase embedding dimension check failed: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  /**
+   * Get the dimension declared by the embedding column of the table
+   * Databases without the embedding_column_dimension function report the
+   * dimension of the initial schema
+   * @returns Declared dimension, or null if the column accepts any dimension
+   */
+  async getColumnDimension(): Promise<number | null> {
+    const { data, error } = await this.client.rpc('embedding_column_dimension', {
+      p_table: this.tableName,
+    });
+
+    if (error) {
+      if (error.code === 'PGRST202') {
+        return SCHEMA_EMBEDDING_DIMENSION;
+      }
+      throw new Error(`Supabase embedding column check failed: ${error.message}`);
+    }
+
+    return typeof data === 'number' ? data : null;
+  }
+
   async initialize(): Promise<void> {
     // The table and functions should be created via migrations
     // This method can be used to verify the setup
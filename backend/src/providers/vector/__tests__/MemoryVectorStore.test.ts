@@ -0,0 +1,156 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import path from 'path';
+import os from 'os';
+import fs from 'fs/promises';
+import { MemoryVectorStore } from '../MemoryVectorStore.js';
+
+/**
+ * Unit vector along one axis (cosine similarity 1 with itself, 0 with the others)
+ */
+function axis(index: number, dimension: number = 4): number[] {
+    return Array.from({ length: dimension }, (_, i) => (i === index ? 1 : 0));
+}
+
+describe('MemoryVectorStore', () => {
+    let store: MemoryVectorStore;
+    let plnDocumentId: string;
+    let puscDocumentId: string;
+
+    beforeEach(async () => {
+        store = new MemoryVectorStore();
+
+        plnDocumentId = await store.upsertDocument({
+            documentId: 'pln-2026',
+            title: 'Plan de Gobierno PLN 2026',
+            partyId: 'party-uuid-pln',
+            partyName: 'Partido Liberación Nacional',
+            metadata: { partyAbbreviation: 'PLN' },
+        });
+        puscDocumentId = await store.upsertDocument({
+            documentId: 'pusc-2026',
+            title: 'Plan de Gobierno PUSC 2026',
+            partyId: 'party-uuid-pusc',
+            partyName: 'Partido Unidad Social Cristiana',
+            metadata: { partyAbbreviation: 'PUSC' },
+        });
+
+        await store.upsert([
+            {
+                content: 'Ampliaremos la educación técnica y las becas universitarias.',
+                embedding: axis(0),
+                metadata: { documentId: plnDocumentId, chunkIndex: 0, qualityScore: 0.9 },
+            },
+            {
+                content: 'Construiremos hospitales regionales y mejoraremos los EBAIS.',
+                embedding: axis(1),
+                metadata: { documentId: plnDocumentId, chunkIndex: 1, qualityScore: 0.4 },
+            },
+            {
+                content: 'Reforma educativa con énfasis en idiomas y tecnología.',
+                embedding: axis(0),
+                metadata: { documentId: puscDocumentId, chunkIndex: 0, qualityScore: 0.8 },
+            },
+        ]);
+    });
+
+    it('should return cosine top-k enriched with document metadata', async () => {
+        const results = await store.similaritySearch(axis(0), 5);
+
+        expect(results).toHaveLength(2);
+        expect(results[0].score).toBeCloseTo(1);
+        expect(results.map(r => r.document.metadata.documentId).sort()).toEqual(['pln-2026', 'pusc-2026']);
+        expect(results[0].document.metadata.title).toMatch(/^Plan de Gobierno/);
+    });
+
+    it('should filter by party UUID or abbreviation', async () => {
+        const byUuid = await store.similaritySearch(axis(0), 5, { partyId: 'party-uuid-pln' });
+        const byAbbreviation = await store.similaritySearch(axis(0), 5, { party_id: 'PLN' });
+
+        expect(byUuid).toHaveLength(1);
+        expect(byUuid[0].document.metadata.partyName).toBe('Partido Liberación Nacional');
+        expect(byAbbreviation.map(r => r.document.id)).toEqual(byUuid.map(r => r.document.id));
+    });
+
+    it('should rank hybrid results with the BM25 keyword score', async () => {
+        // Same vector score for both education chunks: keywords break the tie
+        const results = await store.hybridSearch(axis(0), 'becas universitarias', 5, { minScore: 0 });
+
+        expect(results[0].document.metadata.documentId).toBe('pln-2026');
+        expect(results[0].document.metadata.keywordScore).toBeGreaterThan(0);
+        expect(results[0].document.metadata.keywordScore).toBeLessThan(1);
+        expect(results[0].score).toBeCloseTo(0.7 + 0.3 * results[0].document.metadata.keywordScore);
+        expect(results[1].document.metadata.keywordScore).toBe(0);
+    });
+
+    it('should apply the hybrid party, score and quality filters', async () => {
+        const results = await store.hybridSearch(axis(1), 'hospitales', 5, {
+            partyId: 'PLN',
+            minQualityScore: 0.5,
+        });
+
+        // The only matching chunk is below the quality threshold
+        expect(results).toHaveLength(0);
+
+        const unfiltered = await store.hybridSearch(axis(1), 'hospitales', 5, { partyId: 'PLN' });
+        expect(unfiltered).toHaveLength(1);
+    });
+
+    it('should replace chunks with the same document and chunk index', async () => {
+        await store.upsert([
+            {
+                content: 'Nueva versión del fragmento de educación.',
+                embedding: axis(2),
+                metadata: { documentId: plnDocumentId, chunkIndex: 0 },
+            },
+        ]);
+
+        expect(await store.count()).toBe(3);
+        expect(await store.count({ chunkIndex: 1 })).toBe(1);
+        expect(await store.getEmbeddingDimension()).toBe(4);
+    });
+
+    describe('snapshots', () => {
+        let snapshotPath: string;
+
+        beforeEach(async () => {
+            snapshotPath = path.join(await fs.mkdtemp(path.join(os.tmpdir(), 'ticobot-vectors-')), 'store.json');
+        });
+
+        afterEach(async () => {
+            await fs.rm(path.dirname(snapshotPath), { recursive: true, force: true });
+        });
+
+        it('should persist changes and reload them', async () => {
+            const persisted = new MemoryVectorStore({ snapshotPath });
+            const documentId = await persisted.upsertDocument({
+                documentId: 'fa-2026',
+                title: 'Plan de Gobierno FA 2026',
+                partyId: 'party-uuid-fa',
+                partyName: 'Frente Amplio',
+                metadata: { partyAbbreviation: 'FA' },
+            });
+            await persisted.upsert([
+                {
+                    content: 'Transición energética y transporte público eléctrico.',
+                    embedding: axis(3),
+                    metadata: { documentId, chunkIndex: 0 },
+                },
+            ]);
+
+            const reloaded = new MemoryVectorStore({ snapshotPath });
+            const results = await reloaded.hybridSearch(axis(3), 'transporte eléctrico', 5, { partyId: 'FA' });
+
+            expect(await reloaded.count()).toBe(1);
+            expect(results).toHaveLength(1);
+            expect(results[0].document.metadata.partyName).toBe('Frente Amplio');
+            expect(results[0].document.metadata.keywordScore).toBeGreaterThan(0);
+        });
+
+        it('should start empty when the snapshot does not exist', async () => {
+            const empty = new MemoryVectorStore({ snapshotPath });
+
+            expect(await empty.count()).toBe(0);
+            expect(await empty.getEmbeddingDimension()).toBeNull();
+        });
+    });
+});
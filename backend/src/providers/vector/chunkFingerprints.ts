@@ -0,0 +1,41 @@
+import type { IVectorStore } from '@ticobot/shared';
+
+/**
+ * Chunk already stored for a document, without its embedding
+ */
+export interface StoredChunkFingerprint {
+  id: string;
+  chunkIndex: number;
+  contentHash: string;
+  pageRange?: { start: number; end: number };
+}
+
+/**
+ * What is stored for a document: the fingerprint of the PDF its chunks were
+ * parsed from (null for documents ingested before fingerprinting or whose
+ * last ingestion stopped before all chunks were stored), the embedding model
+ * of its chunks and the chunks themselves
+ */
+export interface StoredDocumentFingerprint {
+  sourceHash: string | null;
+  embeddingModel: string | null;
+  chunks: StoredChunkFingerprint[];
+}
+
+/**
+ * Vector store able to diff a re-ingested document against the stored one
+ */
+export interface IncrementalChunkStore {
+  getDocumentFingerprint(documentId: string): Promise<StoredDocumentFingerprint | null>;
+  getChunkEmbeddings(chunkIds: string[]): Promise<Map<string, number[]>>;
+  deleteChunksFrom(documentUuid: string, chunkIndex: number): Promise<number>;
+  setDocumentFingerprint(documentUuid: string, sourceHash: string, embeddingModel: string): Promise<void>;
+}
+
+export function isIncrementalChunkStore(store: IVectorStore): store is IVectorStore & IncrementalChunkStore {
+  const candidate = store as Partial<IncrementalChunkStore>;
+  return typeof candidate.getDocumentFingerprint === 'function'
+    && typeof candidate.getChunkEmbeddings === 'function'
+    && typeof candidate.deleteChunksFrom === 'function'
+    && typeof candidate.setDocumentFingerprint === 'function';
+}
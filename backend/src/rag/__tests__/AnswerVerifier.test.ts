@@ -0,0 +1,94 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type { SearchResult } from '@ticobot/shared';
+
+const generateCompletion = vi.fn();
+
+// Mock the provider factory so no real LLM is called
+vi.mock('../../factory/ProviderFactory.js', () => ({
+    ProviderFactory: {
+        getLLMProvider: async () => ({ generateCompletion }),
+    },
+}));
+
+import { AnswerVerifier, parseVerdicts } from '../components/AnswerVerifier.js';
+import { CitationParser } from '../components/CitationParser.js';
+
+function chunk(id: string, partyName: string, content: string): SearchResult {
+    return {
+        document: { id, content, embedding: [], metadata: { partyName, documentId: `${id}-doc` } },
+        score: 0.8,
+    };
+}
+
+describe('AnswerVerifier', () => {
+    let verifier: AnswerVerifier;
+    const parser = new CitationParser();
+
+    const chunks: SearchResult[] = [
+        chunk('pln', 'Liberación Nacional', 'Destinar el 8% del PIB a la educación pública y ampliar las becas universitarias.'),
+        chunk('fa', 'Frente Amplio', 'Fortalecer la educación técnica en las zonas rurales del país.'),
+    ];
+
+    const answer = [
+        '## Liberación Nacional (PLN)',
+        '- Destinar el 8% del PIB a la educación pública [1]',
+        '- Destinar el 12% del PIB a la educación pública [1]',
+        '## Frente Amplio (FA)',
+        '- Ampliar las becas universitarias para estudiantes [1]',
+    ].join('\n');
+
+    beforeEach(() => {
+        verifier = new AnswerVerifier();
+        generateCompletion.mockReset();
+    });
+
+    it('should combine the judge verdicts with the lexical checks', async () => {
+        generateCompletion.mockResolvedValue({
+            content: '```json\n[{"id": 1, "verdict": "supported"}, {"id": 2, "verdict": "supported"}, {"id": 3, "verdict": "supported"}]\n```',
+        });
+        const { claims } = parser.parse(answer, chunks);
+
+        const result = await verifier.verify(answer, claims, chunks);
+
+        expect(result.judged).toBe(true);
+        expect(result.claims[0].supported).toBe(true);
+        expect(result.claims[0].supportScore).toBeGreaterThan(0.9);
+        // Invented number, even though the judge accepted it
+        expect(result.claims[1].supported).toBe(false);
+        expect(result.claims[1].issues[0]).toContain('12');
+        // PLN proposal presented under the FA section
+        expect(result.claims[2].supported).toBe(false);
+        expect(result.unsupportedClaims).toBe(2);
+        expect(result.answer).toBe(answer);
+    });
+
+    it('should remove unsupported claims in remove mode', async () => {
+        generateCompletion.mockResolvedValue({ content: '[]' });
+        const { claims } = parser.parse(answer, chunks);
+
+        const result = await verifier.verify(answer, claims, chunks, 'remove');
+
+        expect(result.removedClaims).toBe(2);
+        expect(result.answer).toContain('Destinar el 8% del PIB');
+        expect(result.answer).not.toContain('12%');
+        expect(result.answer).not.toContain('becas universitarias para estudiantes');
+        expect(result.answer).toContain('## Frente Amplio (FA)');
+    });
+
+    it('should fall back to lexical checks when the judge fails', async () => {
+        generateCompletion.mockRejectedValue(new Error('rate limited'));
+        const { claims } = parser.parse(answer, chunks);
+
+        const result = await verifier.verify(answer, claims, chunks);
+
+        expect(result.judged).toBe(false);
+        expect(result.claims[0].judgeVerdict).toBeUndefined();
+        expect(result.claims[0].supported).toBe(true);
+    });
+
+    it('should ignore malformed verdicts', () => {
+        const verdicts = parseVerdicts('[{"id": 1, "verdict": "SUPPORTED"}, {"id": 9, "verdict": "partial"}, {"id": 2, "verdict": "maybe"}]', 2);
+
+        expect(Array.from(verdicts.entries())).toEqual([[0, 'supported']]);
+    });
+});
@@ -0,0 +1,68 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import type { SearchResult } from '@ticobot/shared';
+import { CitationParser, stripCitationMarkers } from '../components/CitationParser.js';
+
+function chunk(id: string, metadata: Record<string, any>): SearchResult {
+    return {
+        document: { id, content: `Contenido de ${id}`, embedding: [], metadata },
+        score: 0.8,
+    };
+}
+
+describe('CitationParser', () => {
+    let parser: CitationParser;
+
+    const chunks: SearchResult[] = [
+        chunk('chunk-a', { documentId: 'pln-2026', title: 'Plan PLN', partyName: 'Liberación Nacional', chunkIndex: 4, pageRange: { start: 12, end: 13 } }),
+        chunk('chunk-b', { documentId: 'fa-2026', title: 'Plan FA', partyName: 'Frente Amplio', chunkIndex: 9, pageNumber: 30 }),
+    ];
+
+    beforeEach(() => {
+        parser = new CitationParser();
+    });
+
+    it('should map markers to the context chunks in order of appearance', () => {
+        const answer = [
+            '## Liberación Nacional (PLN)',
+            '- Fortalecer la educación técnica en zonas rurales [2]',
+            '- Ampliar la cobertura de becas universitarias [1, 2]',
+        ].join('\n');
+
+        const { citations, claims } = parser.parse(answer, chunks);
+
+        expect(citations.map(c => c.marker)).toEqual([2, 1]);
+        expect(citations[0]).toMatchObject({
+            chunkId: 'chunk-b',
+            documentId: 'fa-2026',
+            document: 'Plan FA',
+            party: 'Frente Amplio',
+            chunkIndex: 9,
+            pageNumber: 30,
+        });
+        expect(citations[1].pageRange).toEqual({ start: 12, end: 13 });
+        expect(claims).toHaveLength(2);
+        expect(claims[1]).toEqual({
+            text: 'Ampliar la cobertura de becas universitarias',
+            markers: [1, 2],
+            cited: true,
+            section: 'Liberación Nacional (PLN)',
+        });
+    });
+
+    it('should flag claims without a valid citation', () => {
+        const answer = [
+            '**Financiamiento:**',
+            '- Alcanzar el 8% del PIB para educación [7]',
+            '- Garantizar el financiamiento del FEES [Source 1]',
+        ].join('\n');
+
+        const { citations, claims } = parser.parse(answer, chunks);
+
+        expect(citations.map(c => c.marker)).toEqual([1]);
+        expect(claims.map(c => c.cited)).toEqual([false, true]);
+    });
+
+    it('should strip markers from text', () => {
+        expect(stripCitationMarkers('Reducir la pobreza [1, 3].')).toBe('Reducir la pobreza.');
+    });
+});
@@ -0,0 +1,148 @@
+import { describe, it, expect } from 'vitest';
+import type { ILLMProvider, LLMMessage } from '@ticobot/shared';
+import { ConsistencyAnalyzer, parseContradictions } from '../components/ConsistencyAnalyzer.js';
+import type { QueryEmbedder } from '../components/QueryEmbedder.js';
+import type { SemanticSearcher } from '../components/SemanticSearcher.js';
+import type { Party } from '../../db/services/parties.service.js';
+import type { Candidate } from '../../db/services/candidates.service.js';
+
+const PARTY = { id: '11111111-1111-1111-1111-111111111111', slug: 'pln', name: 'Liberación Nacional' } as Party;
+
+const TOPICS = [
+    { slug: 'economia', name: 'Economía', query: '¿Qué propone sobre economía?' },
+    { slug: 'salud', name: 'Salud', query: '¿Qué propone sobre salud?' },
+];
+
+function chunk(id: string, content: string, score: number, page: number) {
+    return { document: { id, content, embedding: [], metadata: { pageNumber: page } }, score };
+}
+
+/**
+ * Fake retrieval: "chunk-iva" is returned for both topics, with a higher score for economía
+ */
+const RESULTS: Record<string, ReturnType<typeof chunk>[]> = {
+    economia: [
+        chunk('chunk-iva', 'Reduciremos el IVA al 10%.', 0.8, 12),
+        chunk('chunk-iva-2', 'Aumentaremos el IVA para financiar la CCSS.', 0.7, 40),
+    ],
+    salud: [
+        chunk('chunk-iva', 'Reduciremos el IVA al 10%.', 0.4, 12),
+        chunk('chunk-ebais', 'Construiremos 50 EBAIS.', 0.9, 30),
+        chunk('chunk-noise', 'Texto sin relación.', 0.1, 2),
+    ],
+};
+
+function createAnalyzer(answer: string, partyKey: string = PARTY.id) {
+    const prompts: string[] = [];
+
+    const embedder = {
+        embed: async (query: string) => [TOPICS.findIndex(topic => topic.query === query)],
+    } as unknown as QueryEmbedder;
+    // The chunks are stored under partyKey
+    const searcher = {
+        search: async (embedding: number[], _topK: number, filters: { partyId: string }) =>
+            filters.partyId === partyKey ? RESULTS[TOPICS[embedding[0]].slug] : [],
+    } as unknown as SemanticSearcher;
+    const llmProvider = {
+        generateCompletion: async (messages: LLMMessage[]) => {
+            prompts.push(messages[1].content);
+            return { content: answer };
+        },
+    } as unknown as ILLMProvider;
+
+    return { analyzer: new ConsistencyAnalyzer(llmProvider, {}, embedder, searcher), prompts };
+}
+
+describe('ConsistencyAnalyzer', () => {
+    it('should cluster each chunk into its most similar topic', async () => {
+        const { analyzer, prompts } = createAnalyzer('ninguna');
+
+        const result = await analyzer.analyze(PARTY, TOPICS);
+
+        // Salud only keeps "chunk-ebais": a single statement has nothing to contradict
+        expect(result.analyzedTopics).toBe(1);
+        expect(prompts).toHaveLength(1);
+        expect(prompts[0]).toContain('[P1 | página 12]');
+        expect(prompts[0]).toContain('[P2 | página 40]');
+        expect(result.findings).toEqual([]);
+    });
+
+    it('should analyze documents stored under the party abbreviation', async () => {
+        const { analyzer } = createAnalyzer('ninguna', 'PLN');
+
+        expect((await analyzer.analyze(PARTY, TOPICS)).analyzedTopics).toBe(0);
+        expect((await analyzer.analyze({ ...PARTY, abbreviation: 'PLN' }, TOPICS)).analyzedTopics).toBe(1);
+    });
+
+    it('should cite both chunks and pages of a contradiction', async () => {
+        const { analyzer } = createAnalyzer(
+            'a: P1\nb: P2\nquoteA: Reduciremos el IVA\nquoteB: Aumentaremos el IVA\n' +
+            'explanation: Propone bajar y subir el mismo impuesto\nseverity: alta'
+        );
+
+        const { findings } = await analyzer.analyze(PARTY, TOPICS);
+
+        expect(findings).toHaveLength(1);
+        expect(findings[0]).toMatchObject({
+            topic: 'economia',
+            kind: 'plan',
+            severity: 'alta',
+            statementA: { chunkId: 'chunk-iva', pageRange: { start: 12, end: 12 } },
+            statementB: { chunkId: 'chunk-iva-2', pageRange: { start: 40, end: 40 } },
+        });
+    });
+
+    it('should compare candidate proposals on the topic with the plan', async () => {
+        const { analyzer, prompts } = createAnalyzer(
+            'a: C1\nb: P1\nquoteA: Mantener el IVA\nquoteB: Construiremos 50 EBAIS\n' +
+            'explanation: Contradice el plan\nseverity: grave'
+        );
+        const candidates = [{
+            id: 'candidate-1',
+            name: 'Ana Pérez',
+            position: 'Presidencia',
+            proposals: [
+                { topic: 'Salud pública', description: 'No se construirán nuevos EBAIS.' },
+                { topic: 'Cultura', description: 'Más museos.' },
+            ],
+        }] as unknown as Candidate[];
+
+        const { findings } = await analyzer.analyze(PARTY, TOPICS, candidates);
+
+        expect(prompts.some(prompt => prompt.includes('[C1 | Ana Pérez, Presidencia]'))).toBe(true);
+        expect(prompts.some(prompt => prompt.includes('Más museos'))).toBe(false);
+
+        const finding = findings.find(item => item.topic === 'salud');
+        expect(finding?.kind).toBe('candidate');
+        // The plan side always goes first; unknown severities default to "media"
+        expect(finding?.statementA.chunkId).toBe('chunk-ebais');
+        expect(finding?.statementB.candidateId).toBe('candidate-1');
+        expect(finding?.severity).toBe('media');
+    });
+
+    it('should drop records citing unknown or repeated fragments', () => {
+        const chunks = [{ id: 'chunk-1', pageRange: null }, { id: 'chunk-2', pageRange: null }];
+        const text = [
+            'a: P1\nb: P7\nexplanation: Etiqueta desconocida',
+            'a: P2\nb: P2\nexplanation: Mismo fragmento',
+            'a: P1\nb: P2\nexplanation: Contradicción válida',
+        ].join('\n---\n');
+
+        const findings = parseContradictions(text, 'economia', chunks, []);
+
+        expect(findings).toHaveLength(1);
+        expect(findings[0].explanation).toBe('Contradicción válida');
+    });
+
+    it('should keep commas inside quotes and explanations', () => {
+        const chunks = [{ id: 'chunk-1', pageRange: null }, { id: 'chunk-2', pageRange: null }];
+        const text = 'a: P1\nb: P2\nquoteA: Bajar el IVA al 7,5%\nquoteB: Subir el IVA al 13%, sin excepciones\n' +
+            'explanation: Uno baja el IVA, el otro lo sube';
+
+        const [finding] = parseContradictions(text, 'economia', chunks, []);
+
+        expect(finding.statementA.quote).toBe('Bajar el IVA al 7,5%');
+        expect(finding.statementB.quote).toBe('Subir el IVA al 13%, sin excepciones');
+        expect(finding.explanation).toBe('Uno baja el IVA, el otro lo sube');
+    });
+});
@@ -0,0 +1,70 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+const generateCompletion = vi.fn();
+
+// Mock the provider factory so no real LLM is called
+vi.mock('../../factory/ProviderFactory.js', () => ({
+    ProviderFactory: {
+        getLLMProvider: async () => ({ generateCompletion }),
+    },
+}));
+
+import {
+    ConversationCondenser,
+    getRecentHistory,
+    MAX_HISTORY_MESSAGES,
+} from '../components/ConversationCondenser.js';
+import type { ConversationMessage } from '../types/rag.types.js';
+
+describe('ConversationCondenser', () => {
+    let condenser: ConversationCondenser;
+
+    const history: ConversationMessage[] = [
+        { role: 'user', content: '¿Qué propone el PLN sobre educación?' },
+        { role: 'assistant', content: 'El PLN propone fortalecer la educación técnica.' },
+    ];
+
+    beforeEach(() => {
+        condenser = new ConversationCondenser();
+        generateCompletion.mockReset();
+    });
+
+    it('should return the question unchanged without history', async () => {
+        const result = await condenser.condense('¿Qué propone el FA sobre salud?', []);
+
+        expect(result).toBe('¿Qué propone el FA sobre salud?');
+        expect(generateCompletion).not.toHaveBeenCalled();
+    });
+
+    it('should use the LLM rewrite for follow-ups', async () => {
+        generateCompletion.mockResolvedValue({ content: '¿Qué propone el PUSC sobre educación?\n' });
+
+        const result = await condenser.condense('¿y el PUSC?', history);
+
+        expect(result).toBe('¿Qué propone el PUSC sobre educación?');
+        const [messages] = generateCompletion.mock.calls[0];
+        expect(messages[1].content).toContain('¿Qué propone el PLN sobre educación?');
+        expect(messages[1].content).toContain('Nueva pregunta: ¿y el PUSC?');
+    });
+
+    it('should fall back to the previous user turn when the LLM fails', async () => {
+        generateCompletion.mockRejectedValue(new Error('rate limited'));
+
+        const result = await condenser.condense('¿y el PUSC?', history);
+
+        expect(result).toBe('¿Qué propone el PLN sobre educación? ¿y el PUSC?');
+    });
+
+    it('should keep only the most recent non-empty messages', () => {
+        const longHistory: ConversationMessage[] = Array.from({ length: 10 }, (_, i) => ({
+            role: i % 2 === 0 ? 'user' : 'assistant',
+            content: `mensaje ${i}`,
+        }));
+        longHistory.push({ role: 'assistant', content: '   ' });
+
+        const recent = getRecentHistory(longHistory);
+
+        expect(recent).toHaveLength(MAX_HISTORY_MESSAGES);
+        expect(recent[recent.length - 1].content).toBe('mensaje 9');
+    });
+});
@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest';
+import { EntityResolver, buildCandidateProfile, type KnownEntities } from '../components/EntityResolver.js';
+import type { Party } from '../../db/services/parties.service.js';
+import type { Candidate } from '../../db/services/candidates.service.js';
+
+const PARTIES = [
+    { id: 'party-pln', slug: 'liberacion-nacional', name: 'Partido Liberación Nacional', abbreviation: 'PLN' },
+    { id: 'party-pa', slug: 'progreso-alajuelense', name: 'Progreso Alajuelense', abbreviation: 'PA' },
+] as Party[];
+
+const CANDIDATES = [
+    {
+        id: 'candidate-1',
+        party_id: 'party-pln',
+        name: 'Álvaro Ramos Chaves',
+        slug: 'alvaro-ramos-chaves',
+        nicknames: ['el Dr. Ramos'],
+        position: 'Presidente',
+        biography: 'Economista y exsuperintendente de pensiones.',
+        education: ['Doctorado en Economía'],
+        proposals: [{ topic: 'Seguridad', description: 'Más policías en las comunidades.' }],
+    },
+] as unknown as Candidate[];
+
+function createResolver(load: () => Promise<KnownEntities> = async () => ({ parties: PARTIES, candidates: CANDIDATES })) {
+    return new EntityResolver(load);
+}
+
+describe('EntityResolver', () => {
+    it('should resolve a candidate mention to the candidate party', async () => {
+        const resolver = createResolver();
+        await resolver.ensureLoaded();
+
+        for (const question of [
+            '¿Qué propone Álvaro Ramos sobre seguridad?',
+            '¿Qué dice alvaro ramos chaves de la CCSS?',
+            '¿Y el Dr. Ramos sobre empleo?',
+        ]) {
+            const resolution = resolver.resolve(question);
+            expect(resolution.partySlugs).toEqual(['liberacion-nacional']);
+            expect(resolution.candidates.map(({ candidate }) => candidate.id)).toEqual(['candidate-1']);
+        }
+    });
+
+    it('should match party names and only capitalized short abbreviations', async () => {
+        const resolver = createResolver();
+        await resolver.ensureLoaded();
+
+        expect(resolver.resolve('Propuestas de Progreso Alajuelense').partySlugs).toEqual(['progreso-alajuelense']);
+        expect(resolver.resolve('¿Qué propone el PA?').partySlugs).toEqual(['progreso-alajuelense']);
+        expect(resolver.resolve('pa que sirve el plan').partySlugs).toEqual([]);
+    });
+
+    it('should keep the previous entities when a reload fails', async () => {
+        let loads = 0;
+        const resolver = createResolver(async () => {
+            if (loads++ > 0) {
+                throw new Error('Missing Supabase configuration');
+            }
+            return { parties: PARTIES, candidates: CANDIDATES };
+        });
+
+        await resolver.ensureLoaded();
+        await resolver.refresh();
+        await resolver.ensureLoaded();
+
+        expect(loads).toBe(2); // Not retried before the refresh interval
+        expect(resolver.resolve('¿Qué propone el PLN?').partySlugs).toEqual(['liberacion-nacional']);
+        expect(resolver.resolve('¿Qué propone Álvaro Ramos?').candidates).toHaveLength(1);
+    });
+
+    it('should build a retrievable profile with biography, education and proposals', () => {
+        const profile = buildCandidateProfile({ candidate: CANDIDATES[0], party: PARTIES[0] });
+
+        expect(profile.document.content).toContain('Álvaro Ramos Chaves (Presidente, Partido Liberación Nacional)');
+        expect(profile.document.content).toContain('Economista');
+        expect(profile.document.content).toContain('Doctorado en Economía');
+        expect(profile.document.content).toContain('- Seguridad: Más policías en las comunidades.');
+        expect(profile.document.metadata.partyName).toBe('Partido Liberación Nacional');
+    });
+});
@@ -0,0 +1,146 @@
+import { describe, it, expect } from 'vitest';
+import { ProposalMatrixBuilder, summarizeAnswer } from '../components/ProposalMatrixBuilder.js';
+import type { RAGPipeline } from '../components/RAGPipeline.js';
+import { SpecificityScorer } from '../components/SpecificityScorer.js';
+import type { PartiesService } from '../../db/services/parties.service.js';
+import type { MatrixCell, MatrixCellData, ProposalMatrixService } from '../../db/services/proposal-matrix.service.js';
+
+const PARTIES = [
+    { id: '11111111-1111-1111-1111-111111111111', slug: 'liberacion-nacional', abbreviation: 'PLN' },
+    { id: '22222222-2222-2222-2222-222222222222', slug: 'unidad-social-cristiana', abbreviation: 'PUSC' },
+    { id: '33333333-3333-3333-3333-333333333333', slug: 'sin-plan', abbreviation: 'SP' },
+];
+
+const TOPICS = [
+    { id: 'topic-educacion', slug: 'educacion', query: '¿Cuáles son las propuestas sobre educación?', active: true },
+    { id: 'topic-salud', slug: 'salud', query: '¿Cuáles son las propuestas sobre salud?', active: true },
+];
+
+/**
+ * In-memory matrix: PLN and PUSC have an ingested plan, "sin-plan" has none
+ */
+function createFakes(versions: Record<string, string> = { PLN: 'v1', PUSC: 'v1' }) {
+    const cells = new Map<string, MatrixCell>();
+    const comparedQueries: string[] = [];
+
+    const matrixService = {
+        listTopics: async () => TOPICS,
+        getCells: async () => [...cells.values()],
+        upsertCell: async (cell: MatrixCellData) => {
+            cells.set(`${cell.party_id}:${cell.topic_id}`, { ...cell, id: 'cell', built_at: '' });
+        },
+        findPartyDocument: async (party: { abbreviation: string | null }) =>
+            party.abbreviation && versions[party.abbreviation]
+                ? { documentId: `${party.abbreviation.toLowerCase()}-2026`, contentVersion: versions[party.abbreviation] }
+                : null,
+        findDocumentParty: async (documentId: string) =>
+            documentId === 'pln-2026' ? PARTIES[0].id : null,
+    } as unknown as ProposalMatrixService;
+
+    const partiesService = {
+        findAll: async () => PARTIES,
+        findById: async (id: string) => PARTIES.find(party => party.id === id) ?? null,
+        findByAbbreviation: async (abbreviation: string) =>
+            PARTIES.find(party => party.abbreviation === abbreviation) ?? null,
+    } as unknown as PartiesService;
+
+    const ragPipeline = {
+        compareParties: async (question: string, partyIds: string[]) => {
+            comparedQueries.push(`${partyIds[0]}:${question}`);
+            return {
+                question,
+                comparisons: [{
+                    party: partyIds[0],
+                    partyName: partyIds[0],
+                    answer: 'Propone ampliar las becas y la educación técnica en todo el país. '.repeat(4),
+                    sources: [
+                        { content: 'becas', relevance: 0.9, chunkId: 'chunk-1' },
+                        { content: 'educación técnica', relevance: 0.8, chunkId: 'chunk-2' },
+                    ],
+                    citations: [],
+                    claims: [],
+                    confidence: 0.85,
+                    specificity: new SpecificityScorer().score([{ content: 'becas' }, { content: 'educación técnica' }]),
+                }],
+            };
+        },
+    } as unknown as RAGPipeline;
+
+    return { cells, comparedQueries, matrixService, partiesService, ragPipeline, versions };
+}
+
+describe('ProposalMatrixBuilder', () => {
+    it('should build a cell per party with a plan and topic', async () => {
+        const { cells, matrixService, partiesService, ragPipeline } = createFakes();
+        const builder = new ProposalMatrixBuilder(matrixService, partiesService, ragPipeline);
+
+        const result = await builder.build();
+
+        expect(result).toEqual({ built: 4, skipped: 0, failed: 0, partiesWithoutDocument: ['sin-plan'] });
+        const cell = cells.get(`${PARTIES[0].id}:topic-educacion`);
+        expect(cell?.state).toBe('completa');
+        expect(cell?.chunk_ids).toEqual(['chunk-1', 'chunk-2']);
+        expect(cell?.document_id).toBe('pln-2026');
+        expect(cell?.content_version).toBe('v1');
+        expect(cell?.summary).toBe(
+            'Propone ampliar las becas y la educación técnica en todo el país. ' +
+            'Propone ampliar las becas y la educación técnica en todo el país.'
+        );
+        expect(cell?.specificity?.level).toBe('vaga');
+        expect(cell?.specificity?.missing).toContain('Mecanismo de financiamiento');
+    });
+
+    it('should only rebuild the cells of a party whose document changed', async () => {
+        const { comparedQueries, matrixService, partiesService, ragPipeline, versions } = createFakes();
+        const builder = new ProposalMatrixBuilder(matrixService, partiesService, ragPipeline);
+        await builder.build();
+        comparedQueries.length = 0;
+
+        versions.PLN = 'v2';
+        const result = await builder.build();
+
+        expect(result.built).toBe(2);
+        expect(result.skipped).toBe(2);
+        expect(comparedQueries.every(query => query.startsWith('liberacion-nacional:'))).toBe(true);
+    });
+
+    it('should rebuild up to date cells when forced', async () => {
+        const { matrixService, partiesService, ragPipeline } = createFakes();
+        const builder = new ProposalMatrixBuilder(matrixService, partiesService, ragPipeline);
+        await builder.build();
+
+        const result = await builder.build({ force: true, topicIds: ['topic-salud'] });
+
+        expect(result.built).toBe(2);
+        expect(result.skipped).toBe(0);
+    });
+
+    it('should rebuild the row of the party owning a re-ingested document', async () => {
+        const { comparedQueries, matrixService, partiesService, ragPipeline } = createFakes();
+        const builder = new ProposalMatrixBuilder(matrixService, partiesService, ragPipeline);
+
+        const result = await builder.rebuildForDocument('pln-2026');
+
+        expect(result?.built).toBe(2);
+        expect(comparedQueries).toHaveLength(2);
+        expect(await builder.rebuildForDocument('unknown-2026')).toBeNull();
+    });
+
+    it('should summarize an answer in its first two sentences', () => {
+        const answer = [
+            '## Propuestas del PLN sobre educación',
+            '',
+            'El plan propone lo siguiente:',
+            '- **Becas**: duplicar las becas de secundaria a ₡1.500.000 anuales [1].',
+            '- Invertir el 7,5% del PIB en educación [2, 3]. Crear 50 liceos técnicos.',
+            '- Inglés desde preescolar.',
+        ].join('\n');
+
+        expect(summarizeAnswer(answer)).toBe(
+            'Becas: duplicar las becas de secundaria a ₡1.500.000 anuales. Invertir el 7,5% del PIB en educación.'
+        );
+        expect(summarizeAnswer('No se encontró información para PLN sobre este tema.'))
+            .toBe('No se encontró información para PLN sobre este tema.');
+        expect(summarizeAnswer('a'.repeat(400))).toHaveLength(300);
+    });
+});
@@ -1,6 +1,12 @@
-import { describe, it, expect, beforeAll } from 'vitest';
+import { describe, it, expect, beforeAll, beforeEach, afterEach, vi } from 'vitest';
+import type { IEmbeddingProvider, ILLMProvider } from '@ticobot/shared';
 import { RAGPipeline } from '../components/RAGPipeline.js';
+import { ProviderFactory } from '../../factory/ProviderFactory.js';
+import { MemoryVectorStore } from '../../providers/vector/MemoryVectorStore.js';
 import { env } from '../../config/env.js';
+import { EntityResolver } from '../components/EntityResolver.js';
+import { PartiesService, type Party } from '../../db/services/parties.service.js';
+import type { Candidate } from '../../db/services/candidates.service.js';
 
 /**
  * RAGPipeline Integration Tests
@@ -183,25 +189,284 @@ describe.skipIf(!hasRequiredApiKeys())('RAGPipeline Streaming Tests', () => {
         pipeline = new RAGPipeline();
     });
 
-    it('should stream response chunks', async () => {
+    it('should stream sources before response chunks', async () => {
         const question = '¿Qué propone el PLN sobre educación?';
+        const events: string[] = [];
         const chunks: string[] = [];
+        let sources: any[] | null = null;
         let metadata: any = null;
 
         for await (const item of pipeline.queryStreaming(question, { topK: 3 })) {
-            if (item.type === 'chunk') {
-                chunks.push(item.content || '');
+            events.push(item.type);
+            if (item.type === 'sources') {
+                sources = item.sources;
+            } else if (item.type === 'chunk') {
+                chunks.push(item.content);
             } else if (item.type === 'metadata') {
                 metadata = item.metadata;
             }
         }
 
+        expect(events[0]).toBe('sources');
+        expect(events[events.length - 2]).toBe('citations');
+        expect(events[events.length - 1]).toBe('metadata');
+        expect(sources).toBeDefined();
         expect(chunks.length).toBeGreaterThan(0);
         expect(metadata).toBeDefined();
-        expect(metadata.sources).toBeDefined();
+        expect(metadata.model).toBeDefined();
 
         // Combine chunks to get full response
         const fullResponse = chunks.join('');
         expect(fullResponse.length).toBeGreaterThan(0);
     }, 30000);
+
+    it('should stop streaming when aborted', async () => {
+        const question = '¿Cuáles son todas las propuestas del PLN?';
+        const controller = new AbortController();
+        let chunkCount = 0;
+        let sawMetadata = false;
+
+        for await (const item of pipeline.queryStreaming(question, { topK: 3, signal: controller.signal })) {
+            if (item.type === 'chunk') {
+                chunkCount++;
+                controller.abort();
+            } else if (item.type === 'metadata') {
+                sawMetadata = true;
+            }
+        }
+
+        expect(chunkCount).toBeGreaterThan(0);
+        expect(sawMetadata).toBe(false);
+    }, 30000);
+});
+
+/**
+ * Deterministic bag-of-words embeddings: texts sharing words get similar vectors
+ */
+function createFakeEmbeddingProvider(dimension: number = 256): IEmbeddingProvider {
+    const embed = (text: string): number[] => {
+        const vector = new Array(dimension).fill(0);
+        const words = text.toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '').split(/[^a-z0-9]+/);
+        for (const word of words.filter(w => w.length > 2)) {
+            let hash = 0;
+            for (const char of word) {
+                hash = (hash * 31 + char.charCodeAt(0)) % dimension;
+            }
+            vector[hash] += 1;
+        }
+        return vector;
+    };
+    const usage = { promptTokens: 0, totalTokens: 0 };
+
+    return {
+        generateEmbedding: async (text) => ({ embedding: embed(text), model: 'fake-embedding', usage }),
+        generateBatch: async (texts) => ({ embeddings: texts.map(embed), model: 'fake-embedding', usage }),
+        getDimension: () => dimension,
+        getMaxInputLength: () => 8191,
+        getModelName: () => 'fake-embedding',
+    };
+}
+
+function createFakeLLMProvider(answer: string): ILLMProvider {
+    return {
+        generateCompletion: async () => ({
+            content: answer,
+            model: 'fake-llm',
+            usage: { promptTokens: 10, completionTokens: 10, totalTokens: 20 },
+            finishReason: 'stop',
+        }),
+        generateStreamingCompletion: async function* () {
+            yield answer;
+        },
+        getContextWindow: () => 8192,
+        getModelName: () => 'fake-llm',
+        supportsFunctionCalling: () => false,
+    };
+}
+
+describe('RAGPipeline with MemoryVectorStore', () => {
+    let pipeline: RAGPipeline;
+    let store: MemoryVectorStore;
+
+    beforeEach(async () => {
+        const embeddingProvider = createFakeEmbeddingProvider();
+        store = new MemoryVectorStore();
+
+        const chunks = [
+            { party: 'PLN', content: 'El PLN propone ampliar la educación técnica y las becas para estudiantes de secundaria.' },
+            { party: 'PLN', content: 'Construcción de hospitales regionales y reducción de listas de espera en la CCSS.' },
+            { party: 'PUSC', content: 'El PUSC propone una reforma de la educación con énfasis en idiomas y tecnología.' },
+        ];
+
+        for (const abbreviation of ['PLN', 'PUSC']) {
+            const documentId = await store.upsertDocument({
+                documentId: `${abbreviation.toLowerCase()}-2026`,
+                title: `Plan de Gobierno ${abbreviation} 2026`,
+                partyId: `party-uuid-${abbreviation.toLowerCase()}`,
+                partyName: abbreviation,
+                metadata: { partyAbbreviation: abbreviation },
+            });
+            const partyChunks = chunks.filter(chunk => chunk.party === abbreviation);
+            const { embeddings } = await embeddingProvider.generateBatch(partyChunks.map(chunk => chunk.content));
+
+            await store.upsert(partyChunks.map((chunk, chunkIndex) => ({
+                content: chunk.content,
+                embedding: embeddings[chunkIndex],
+                metadata: { documentId, chunkIndex },
+            })));
+        }
+
+        vi.spyOn(ProviderFactory, 'getVectorStore').mockResolvedValue(store);
+        vi.spyOn(ProviderFactory, 'getEmbeddingProvider').mockResolvedValue(embeddingProvider);
+        vi.spyOn(ProviderFactory, 'getLLMProvider').mockResolvedValue(
+            createFakeLLMProvider('El PLN propone ampliar la educación técnica y las becas para estudiantes [1].')
+        );
+
+        pipeline = new RAGPipeline();
+    });
+
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    it('should answer from the party filtered hybrid search', async () => {
+        const result = await pipeline.query('¿Qué propone el PLN sobre educación y becas?', {
+            topK: 3,
+            filters: { partyId: 'PLN' },
+        });
+
+        expect(result.sources.length).toBeGreaterThan(0);
+        for (const source of result.sources) {
+            expect(source.party).toBe('PLN');
+        }
+        expect(result.sources[0].content).toContain('educación técnica');
+        expect(result.citations).toHaveLength(1);
+        expect(result.citations[0].documentId).toBe('pln-2026');
+        expect(result.metadata.model).toBe('fake-llm');
+    });
+
+    it('should stream sources, chunks, citations and metadata', async () => {
+        const events: string[] = [];
+
+        for await (const item of pipeline.queryStreaming('¿Qué propone el PUSC sobre educación?', {
+            topK: 3,
+            filters: { partyId: 'party-uuid-pusc' },
+        })) {
+            events.push(item.type);
+            if (item.type === 'sources') {
+                expect(item.sources.map(source => source.party)).toEqual(['PUSC']);
+            }
+        }
+
+        expect(events).toEqual(['sources', 'chunk', 'citations', 'metadata']);
+    });
+
+    it('should add the profile of a candidate mentioned in the question to the context', async () => {
+        const entityResolver = new EntityResolver(async () => ({
+            parties: [{ id: 'party-uuid-pln', slug: 'liberacion-nacional', name: 'PLN', abbreviation: 'PLN' }] as Party[],
+            candidates: [{
+                id: 'candidate-1',
+                party_id: 'party-uuid-pln',
+                name: 'Álvaro Ramos Chaves',
+                slug: 'alvaro-ramos-chaves',
+                nicknames: [],
+                position: 'Presidente',
+                biography: 'Economista.',
+                education: null,
+                proposals: [{ topic: 'Educación', description: 'Becas para secundaria.' }],
+            }] as unknown as Candidate[],
+        }));
+        pipeline = new RAGPipeline({ entityResolver });
+
+        const result = await pipeline.query('¿Qué propone Álvaro Ramos sobre educación?', {
+            topK: 3,
+            filters: { partyId: 'PLN' },
+        });
+
+        expect(result.sources[0].document).toBe('Perfil de Álvaro Ramos Chaves');
+        expect(result.sources[0].party).toBe('PLN');
+        expect(result.sources.slice(1).every(source => source.party === 'PLN')).toBe(true);
+    });
+
+    it('should return the empty response when nothing is relevant', async () => {
+        const result = await pipeline.query('xyz123 completamente irrelevante', {
+            filters: { partyId: 'PLN' },
+            minRelevanceScore: 0.9,
+        });
+
+        expect(result.sources).toHaveLength(0);
+        expect(result.confidence).toBe(0);
+    });
+
+    it('should score the specificity of a comparison on the full chunks, not the truncated sources', async () => {
+        const documentId = await store.upsertDocument({
+            documentId: 'pln-2026',
+            title: 'Plan de Gobierno PLN 2026',
+            partyId: 'party-uuid-pln',
+            partyName: 'PLN',
+        });
+        const content = 'El PLN propone ampliar la educación técnica en todas las regiones del país, con énfasis ' +
+            'en las zonas rurales y costeras donde la deserción es más alta y los colegios técnicos tienen menos ' +
+            'cupos disponibles para estudiantes. Se financiará con un impuesto a los casinos.';
+        const [embedding] = (await createFakeEmbeddingProvider().generateBatch([content])).embeddings;
+        await store.upsert([{ content, embedding, metadata: { documentId, chunkIndex: 2 } }]);
+
+        // compareParties resolves the party through Supabase
+        const { SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY } = env;
+        Object.assign(env, { SUPABASE_URL: 'http://localhost:54321', SUPABASE_SERVICE_ROLE_KEY: 'test-key' });
+        vi.spyOn(PartiesService.prototype, 'findBySlug').mockResolvedValue(
+            { id: 'party-uuid-pln', name: 'PLN' } as Party
+        );
+
+        try {
+            const { comparisons } = await pipeline.compareParties('¿Cuáles son las propuestas sobre educación técnica?', ['PLN']);
+            const funding = comparisons[0].specificity.criteria.find(criterion => criterion.criterion === 'funding');
+
+            expect(content.indexOf('impuesto')).toBeGreaterThan(200);
+            expect(comparisons[0].sources.some(source => source.content.includes('impuesto'))).toBe(false);
+            expect(funding?.score).toBe(1);
+            expect(funding?.evidence[0].quote).toContain('impuesto a los casinos');
+        } finally {
+            Object.assign(env, { SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY });
+        }
+    });
+
+    it('should only summarize a comparison with at least two informed parties', async () => {
+        const comparison = (party: string, sources: number) => ({
+            party,
+            partyName: party,
+            answer: `Propuestas del ${party} sobre educación.`,
+            sources: Array.from({ length: sources }, () => ({ content: 'educación', relevance: 0.8 })),
+            citations: [],
+            claims: [],
+            confidence: sources > 0 ? 0.8 : 0,
+        });
+
+        expect(await pipeline.summarizeComparisons('educación', [comparison('PLN', 1), comparison('PUSC', 0)])).toBeNull();
+        expect(await pipeline.summarizeComparisons('educación', [comparison('PLN', 1), comparison('PUSC', 2)]))
+            .toContain('PLN');
+    });
+
+    it('should pass the abort signal to the LLM request of the comparison summary', async () => {
+        const llm = createFakeLLMProvider('Ambos partidos proponen becas.');
+        const generateCompletion = vi.spyOn(llm, 'generateCompletion');
+        vi.spyOn(ProviderFactory, 'getLLMProvider').mockResolvedValue(llm);
+
+        const comparison = (party: string) => ({
+            party,
+            partyName: party,
+            answer: `Propuestas del ${party} sobre educación.`,
+            sources: [{ content: 'educación', relevance: 0.8 }],
+            citations: [],
+            claims: [],
+            confidence: 0.8,
+        });
+        const controller = new AbortController();
+
+        await pipeline.summarizeComparisons('educación', [comparison('PLN'), comparison('PUSC')], {
+            signal: controller.signal,
+        });
+
+        expect(generateCompletion.mock.calls[0][1]?.signal).toBe(controller.signal);
+    });
 });
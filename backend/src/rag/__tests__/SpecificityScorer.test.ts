@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import { SpecificityScorer } from '../components/SpecificityScorer.js';
+
+describe('SpecificityScorer', () => {
+    const scorer = new SpecificityScorer();
+
+    it('should rate a position with targets, deadlines, institutions and funding as concreta', () => {
+        const result = scorer.score([
+            {
+                content: 'Construiremos 100 acueductos rurales antes de 2030 junto con el AyA. ' +
+                    'Reduciremos las listas de espera de la CCSS en un 40% en los primeros 2 años de gobierno.',
+                pageNumber: 12,
+                chunkId: 'chunk-1',
+            },
+            {
+                content: 'Las obras se financiarán con un préstamo del BCIE y una alianza público-privada.\n' +
+                    'El Ministerio de Hacienda reasignará recursos del presupuesto nacional.',
+                pageRange: { start: 13, end: 14 },
+            },
+        ]);
+
+        expect(result.level).toBe('concreta');
+        expect(result.score).toBe(1);
+        expect(result.missing).toEqual([]);
+
+        const targets = result.criteria.find(criterion => criterion.criterion === 'measurable_targets')!;
+        expect(targets.score).toBe(2);
+        expect(targets.evidence[0]).toEqual({
+            quote: 'Construiremos 100 acueductos rurales antes de 2030 junto con el AyA.',
+            pageNumber: 12,
+            chunkId: 'chunk-1',
+        });
+
+        const funding = result.criteria.find(criterion => criterion.criterion === 'funding')!;
+        expect(funding.evidence[0].pageNumber).toBe(13);
+    });
+
+    it('should rate generic statements as vaga and list the missing criteria', () => {
+        const result = scorer.score([
+            {
+                content: 'Fortaleceremos la educación pública como motor del desarrollo. ' +
+                    'Impulsaremos una visión integral y moderna de la seguridad ciudadana.',
+            },
+        ]);
+
+        expect(result.level).toBe('vaga');
+        expect(result.score).toBe(0);
+        expect(result.missing).toEqual([
+            'Metas medibles',
+            'Plazos',
+            'Instituciones responsables',
+            'Mecanismo de financiamiento',
+        ]);
+        expect(result.criteria.every(criterion => criterion.evidence.length === 0)).toBe(true);
+    });
+
+    it('should score no sources as vaga', () => {
+        expect(scorer.score([]).level).toBe('vaga');
+    });
+});
@@ -0,0 +1,335 @@
+import { ProviderFactory } from '../../factory/ProviderFactory.js';
+import { Logger, type SearchResult } from '@ticobot/shared';
+import { extractClaimText, type AnswerClaim } from './CitationParser.js';
+import { normalizeText } from '../utils/text.js';
+
+/**
+ * What to do with claims the sources don't support
+ * - flag: keep them in the answer, marked as unsupported
+ * - remove: drop their lines from the answer
+ */
+export type VerificationMode = 'flag' | 'remove';
+
+export type JudgeVerdict = 'supported' | 'partial' | 'unsupported';
+
+/**
+ * Claim with its support score against the retrieved chunks
+ */
+export interface VerifiedClaim extends AnswerClaim {
+    supportScore: number; // 0-1
+    supported: boolean;
+    lexicalOverlap: number; // Share of the claim's terms found in its sources
+    judgeVerdict?: JudgeVerdict;
+    issues: string[]; // e.g. numbers not in the sources, wrong party
+}
+
+export interface AnswerVerification {
+    answer: string; // Unsupported claims removed in "remove" mode
+    claims: VerifiedClaim[];
+    supportScore: number; // Mean claim support (1 when there are no claims)
+    unsupportedClaims: number;
+    removedClaims: number;
+    judged: boolean; // false when the LLM judge failed and only lexical checks were used
+}
+
+/**
+ * Minimum support score for a claim to count as supported
+ */
+export const SUPPORT_THRESHOLD = 0.5;
+
+/**
+ * Weight of the LLM verdict in the support score (the rest is lexical overlap)
+ */
+const JUDGE_WEIGHT = 0.7;
+
+/**
+ * Highest score a claim can get with numbers or a party missing from its sources
+ */
+const HARD_ISSUE_MAX_SCORE = 0.2;
+
+/**
+ * Claims sent to the LLM judge (answers rarely have more)
+ */
+const MAX_JUDGED_CLAIMS = 30;
+
+/**
+ * Characters of each chunk shown to the LLM judge
+ */
+const MAX_JUDGE_CHUNK_CHARS = 1200;
+
+const VERDICT_SCORES: Record<JudgeVerdict, number> = {
+    supported: 1,
+    partial: 0.5,
+    unsupported: 0,
+};
+
+/**
+ * Words that carry no meaning for overlap (Spanish function words)
+ */
+const STOPWORDS = new Set([
+    'el', 'la', 'los', 'las', 'un', 'una', 'unos', 'unas', 'de', 'del', 'al', 'en', 'con', 'por', 'para',
+    'que', 'como', 'sus', 'su', 'sin', 'sobre', 'entre', 'desde', 'hasta', 'mas', 'muy', 'este', 'esta',
+    'estos', 'estas', 'ese', 'esa', 'ser', 'son', 'han', 'hay', 'tambien', 'mediante', 'cada',
+    'propone', 'propuesta', 'propuestas', 'plan', 'partido', 'nota',
+]);
+
+/**
+ * AnswerVerifier Component
+ * Checks each claim of a generated answer against the retrieved chunks
+ * (lexical overlap plus an LLM judge) so hallucinated numbers and proposals
+ * attributed to the wrong party can be flagged or removed
+ */
+export class AnswerVerifier {
+    private readonly logger: Logger;
+
+    constructor() {
+        this.logger = new Logger('AnswerVerifier');
+    }
+
+    /**
+     * Verify the claims of an answer
+     * @param answer - Generated answer
+     * @param claims - Claims of the answer (from CitationParser)
+     * @param chunks - Chunks in the order they were given as context ([Source 1] first)
+     * @param mode - Flag or remove unsupported claims
+     * @returns Per-claim support scores and the (possibly filtered) answer
+     */
+    async verify(
+        answer: string,
+        claims: AnswerClaim[],
+        chunks: SearchResult[],
+        mode: VerificationMode = 'flag'
+    ): Promise<AnswerVerification> {
+        if (claims.length === 0) {
+            return {
+                answer,
+                claims: [],
+                supportScore: 1,
+                unsupportedClaims: 0,
+                removedClaims: 0,
+                judged: false,
+            };
+        }
+
+        this.logger.info(`Verifying ${claims.length} claims against ${chunks.length} chunks (mode=${mode})`);
+
+        const verdicts = await this.judge(claims, chunks);
+        const verifiedClaims = claims.map((claim, index) => this.scoreClaim(claim, chunks, verdicts?.get(index)));
+
+        const unsupported = verifiedClaims.filter(claim => !claim.supported);
+        const supportScore = verifiedClaims.reduce((sum, claim) => sum + claim.supportScore, 0) / verifiedClaims.length;
+
+        let verifiedAnswer = answer;
+        if (mode === 'remove' && unsupported.length > 0) {
+            const unsupportedTexts = new Set(unsupported.map(claim => claim.text));
+            verifiedAnswer = answer
+                .split('\n')
+                .filter(line => {
+                    const text = extractClaimText(line);
+                    return !text || !unsupportedTexts.has(text);
+                })
+                .join('\n');
+        }
+
+        this.logger.info(
+            `Verification: support ${supportScore.toFixed(2)}, ${unsupported.length}/${verifiedClaims.length} claims unsupported` +
+            (verdicts ? '' : ' (lexical checks only)')
+        );
+
+        return {
+            answer: verifiedAnswer,
+            claims: verifiedClaims,
+            supportScore: Number(supportScore.toFixed(3)),
+            unsupportedClaims: unsupported.length,
+            removedClaims: mode === 'remove' ? unsupported.length : 0,
+            judged: verdicts !== null,
+        };
+    }
+
+    /**
+     * Combine the lexical checks and the judge verdict into a support score
+     */
+    private scoreClaim(claim: AnswerClaim, chunks: SearchResult[], verdict?: JudgeVerdict): VerifiedClaim {
+        // Cited claims are checked against their sources, uncited ones against all chunks
+        const sources = claim.markers.length > 0
+            ? claim.markers.map(marker => chunks[marker - 1]).filter(Boolean)
+            : chunks;
+        const sourceText = sources.map(chunk => chunk.document.content || '').join('\n');
+
+        const issues: string[] = [];
+        const lexicalOverlap = computeOverlap(claim.text, sourceText);
+
+        const sourceNumbers = new Set(extractNumbers(sourceText));
+        const missingNumbers = extractNumbers(claim.text).filter(number => !sourceNumbers.has(number));
+        if (missingNumbers.length > 0) {
+            issues.push(`Números ausentes en las fuentes: ${missingNumbers.join(', ')}`);
+        }
+
+        if (claim.cited && this.isAttributedToOtherParty(claim, sources, chunks)) {
+            issues.push(`Atribuido a ${claim.section}, pero las fuentes citadas son de otro partido`);
+        }
+
+        let supportScore = verdict
+            ? JUDGE_WEIGHT * VERDICT_SCORES[verdict] + (1 - JUDGE_WEIGHT) * lexicalOverlap
+            : lexicalOverlap;
+
+        if (issues.length > 0) {
+            supportScore = Math.min(supportScore, HARD_ISSUE_MAX_SCORE);
+        }
+
+        return {
+            ...claim,
+            supportScore: Number(supportScore.toFixed(3)),
+            supported: supportScore >= SUPPORT_THRESHOLD,
+            lexicalOverlap: Number(lexicalOverlap.toFixed(3)),
+            judgeVerdict: verdict,
+            issues,
+        };
+    }
+
+    /**
+     * Whether the claim's section names a party that none of its sources belong to
+     * Sections that don't name a party in the context (e.g. "Comparación") are not checked
+     */
+    private isAttributedToOtherParty(claim: AnswerClaim, sources: SearchResult[], chunks: SearchResult[]): boolean {
+        if (!claim.section) {
+            return false;
+        }
+
+        const section = normalizeText(claim.section);
+        const contextParties = new Set(chunks.map(getPartyName).filter(Boolean).map(normalizeText));
+        const sectionParty = [...contextParties].find(party => section.includes(party));
+
+        if (!sectionParty) {
+            return false;
+        }
+
+        return !sources.some(chunk => normalizeText(getPartyName(chunk)) === sectionParty);
+    }
+
+    /**
+     * Ask the LLM whether each claim is supported by its sources
+     * @returns Verdict per claim index, or null if the judge failed
+     */
+    private async judge(claims: AnswerClaim[], chunks: SearchResult[]): Promise<Map<number, JudgeVerdict> | null> {
+        try {
+            const llmProvider = await ProviderFactory.getLLMProvider();
+
+            const judgedClaims = claims.slice(0, MAX_JUDGED_CLAIMS);
+            const sourcesText = chunks
+                .map((chunk, index) => {
+                    const content = (chunk.document.content || '').substring(0, MAX_JUDGE_CHUNK_CHARS);
+                    return `[Source ${index + 1}] ${getPartyName(chunk) || 'Desconocido'}\n${content}`;
+                })
+                .join('\n\n');
+            const claimsText = judgedClaims
+                .map((claim, index) => {
+                    const citedSources = claim.markers.length > 0 ? ` (fuentes: ${claim.markers.join(', ')})` : ' (sin fuente)';
+                    const section = claim.section ? ` [${claim.section}]` : '';
+                    return `${index + 1}.${section} ${claim.text}${citedSources}`;
+                })
+                .join('\n');
+
+            const response = await llmProvider.generateCompletion(
+                [
+                    {
+                        role: 'system',
+                        content: `Verificas respuestas sobre los Planes de Gobierno de Costa Rica 2026 contra sus fuentes.
+
+Para cada afirmación decide:
+- "supported": las fuentes la respaldan, incluidos números y partido
+- "partial": las fuentes respaldan solo una parte o la generalizan
+- "unsupported": las fuentes no la respaldan, los números no aparecen o se atribuye al partido equivocado
+
+El partido de cada afirmación es la sección entre corchetes. Revisa las fuentes citadas; si no tiene fuente, revisa todas.
+Devuelve SOLO un arreglo JSON: [{"id": 1, "verdict": "supported"}]`
+                    },
+                    {
+                        role: 'user',
+                        content: `=== FUENTES ===\n\n${sourcesText}\n\n=== AFIRMACIONES ===\n\n${claimsText}`
+                    }
+                ],
+                {
+                    temperature: 0, // Deterministic verdicts
+                    maxTokens: 40 * judgedClaims.length + 50,
+                }
+            );
+
+            return parseVerdicts(response.content, judgedClaims.length);
+
+        } catch (error) {
+            this.logger.warn('LLM judge failed, using lexical checks only', error);
+            return null;
+        }
+    }
+}
+
+/**
+ * Parse the judge's JSON verdicts
+ * @param content - LLM response (may wrap the JSON in text or code fences)
+ * @param claimCount - Number of judged claims
+ * @returns Verdict per claim index (0-based)
+ */
+export function parseVerdicts(content: string, claimCount: number): Map<number, JudgeVerdict> {
+    const start = content.indexOf('[');
+    const end = content.lastIndexOf(']');
+    if (start === -1 || end <= start) {
+        throw new Error('Judge response contains no JSON array');
+    }
+
+    const parsed = JSON.parse(content.substring(start, end + 1));
+    if (!Array.isArray(parsed)) {
+        throw new Error('Judge response is not an array');
+    }
+
+    const verdicts = new Map<number, JudgeVerdict>();
+    for (const item of parsed) {
+        const index = Number(item?.id) - 1;
+        const verdict = String(item?.verdict || '').toLowerCase();
+        if (index >= 0 && index < claimCount && verdict in VERDICT_SCORES) {
+            verdicts.set(index, verdict as JudgeVerdict);
+        }
+    }
+    return verdicts;
+}
+
+function getPartyName(chunk: SearchResult): string {
+    return chunk.document.metadata?.partyName || chunk.document.metadata?.party || '';
+}
+
+function tokenize(text: string): string[] {
+    return normalizeText(text)
+        .split(/[^a-z0-9ñ]+/)
+        .filter(token => token.length > 2 && !STOPWORDS.has(token));
+}
+
+/**
+ * Share of the claim's meaningful terms that appear in the source text
+ */
+function computeOverlap(claim: string, sourceText: string): number {
+    const claimTokens = [...new Set(tokenize(claim))];
+    if (claimTokens.length === 0) {
+        return 1;
+    }
+
+    const sourceTokens = new Set(tokenize(sourceText));
+    const matched = claimTokens.filter(token =>
+        sourceTokens.has(token) ||
+        // Light stemming: "universidades" / "universidad", "fortalecer" / "fortalecimiento"
+        (token.length > 5 && [...sourceTokens].some(source => source.startsWith(token.substring(0, 6))))
+    );
+
+    return matched.length / claimTokens.length;
+}
+
+/**
+ * Numbers stated in a text, normalized ("8%" → "8", "1.500" → "1500", "2,5" → "2.5")
+ */
+function extractNumbers(text: string): string[] {
+    const matches = text.match(/\d+(?:[.,]\d+)*/g) || [];
+    return matches.map(match => {
+        // Dots/commas followed by exactly 3 digits are thousands separators
+        const withoutThousands = match.replace(/[.,](?=\d{3}(?:\D|$))/g, '');
+        return withoutThousands.replace(',', '.');
+    });
+}
@@ -0,0 +1,160 @@
+import { Logger, type SearchResult } from '@ticobot/shared';
+
+/**
+ * Citation of a context chunk, resolved from an inline [N] marker
+ * N is the [Source N] label given to the chunk by ContextBuilder
+ */
+export interface Citation {
+    marker: number;
+    chunkId: string;
+    documentId: string;
+    document: string;
+    party: string;
+    chunkIndex?: number;
+    pageNumber?: number;
+    pageRange?: { start: number; end: number };
+}
+
+/**
+ * Claim (bullet or paragraph) of an answer and the markers that support it
+ */
+export interface AnswerClaim {
+    text: string;
+    markers: number[];
+    cited: boolean; // false when the claim has no valid citation
+    section?: string; // Closest "##" heading above the claim (usually the party)
+}
+
+export interface CitationResult {
+    citations: Citation[];
+    claims: AnswerClaim[];
+}
+
+/**
+ * Inline markers: [1], [1, 3] and the context label itself ([Source 2] / [Fuente 2])
+ */
+const MARKER_PATTERN = /\[((?:(?:source|fuente)\s*)?\d+(?:\s*,\s*(?:(?:source|fuente)\s*)?\d+)*)\]/gi;
+
+/**
+ * Lines that structure the answer but state nothing (headings, rules, "**Salud:**" labels)
+ */
+const NON_CLAIM_PATTERNS = [
+    /^#{1,6}\s/,
+    /^-{3,}$/,
+    /^\*\*[^*]+:?\*\*:?$/,
+];
+
+/**
+ * Minimum characters for a line to count as a claim
+ */
+const MIN_CLAIM_LENGTH = 15;
+
+/**
+ * CitationParser Component
+ * Maps the inline citation markers of a generated answer back to the
+ * chunks used as context, and flags claims that cite nothing
+ */
+export class CitationParser {
+    private readonly logger: Logger;
+
+    constructor() {
+        this.logger = new Logger('CitationParser');
+    }
+
+    /**
+     * Parse the citation markers of an answer
+     * @param answer - Generated answer with [N] markers
+     * @param chunks - Chunks in the order they were given as context ([Source 1] first)
+     * @returns Citations in order of first appearance and the answer claims
+     */
+    parse(answer: string, chunks: SearchResult[]): CitationResult {
+        const citations = new Map<number, Citation>();
+        const claims: AnswerClaim[] = [];
+        let invalidMarkers = 0;
+        let section: string | undefined;
+
+        for (const line of answer.split('\n')) {
+            const heading = line.match(/^##\s+(.+)$/);
+            if (heading) {
+                section = stripCitationMarkers(heading[1]).trim();
+                continue;
+            }
+
+            const markers: number[] = [];
+
+            for (const match of line.matchAll(MARKER_PATTERN)) {
+                for (const value of match[1].match(/\d+/g) || []) {
+                    const marker = parseInt(value, 10);
+                    const chunk = chunks[marker - 1];
+
+                    if (!chunk) {
+                        invalidMarkers++;
+                        continue;
+                    }
+
+                    if (!markers.includes(marker)) {
+                        markers.push(marker);
+                    }
+                    if (!citations.has(marker)) {
+                        citations.set(marker, this.buildCitation(marker, chunk));
+                    }
+                }
+            }
+
+            const text = extractClaimText(line);
+            if (!text) {
+                continue;
+            }
+
+            claims.push({ text, markers, cited: markers.length > 0, section });
+        }
+
+        const uncited = claims.filter(claim => !claim.cited).length;
+        this.logger.info(
+            `Parsed ${citations.size} citations, ${claims.length} claims (${uncited} uncited)` +
+            (invalidMarkers > 0 ? `, ignored ${invalidMarkers} markers without a matching source` : '')
+        );
+
+        return {
+            citations: Array.from(citations.values()),
+            claims,
+        };
+    }
+
+    private buildCitation(marker: number, chunk: SearchResult): Citation {
+        const metadata = chunk.document.metadata || {};
+
+        return {
+            marker,
+            chunkId: chunk.document.id || `chunk-${marker}`,
+            documentId: metadata.documentId || 'Unknown',
+            document: metadata.title || metadata.documentId || 'Unknown',
+            party: metadata.partyName || metadata.party || 'Unknown',
+            chunkIndex: metadata.chunkIndex,
+            pageNumber: metadata.pageNumber,
+            pageRange: metadata.pageRange,
+        };
+    }
+}
+
+/**
+ * Get the claim stated by a line of an answer
+ * @param line - Answer line
+ * @returns Claim text without markers or list prefix, or null if the line states nothing
+ */
+export function extractClaimText(line: string): string | null {
+    const text = stripCitationMarkers(line).replace(/^\s*(?:[-*+]|\d+\.)\s+/, '').trim();
+    if (text.length < MIN_CLAIM_LENGTH || NON_CLAIM_PATTERNS.some(pattern => pattern.test(text))) {
+        return null;
+    }
+    return text;
+}
+
+/**
+ * Remove the inline citation markers from a text
+ * @param text - Text with [N] markers
+ * @returns Text without markers
+ */
+export function stripCitationMarkers(text: string): string {
+    return text.replace(MARKER_PATTERN, '').replace(/[ \t]+([.,;:])/g, '$1').replace(/[ \t]{2,}/g, ' ');
+}
@@ -0,0 +1,310 @@
+import { Logger, type ILLMProvider, type SearchResult } from '@ticobot/shared';
+import { QueryEmbedder } from './QueryEmbedder.js';
+import { SemanticSearcher } from './SemanticSearcher.js';
+import { asText, cleanMarkdownBlocks, parseTOON, validateTOON } from '../utils/toon.js';
+import { normalizeText } from '../utils/text.js';
+import type { Party } from '../../db/services/parties.service.js';
+import type { Candidate } from '../../db/services/candidates.service.js';
+
+export interface ConsistencyAnalyzerOptions {
+    chunksPerTopic?: number;   // Chunks retrieved per topic before clustering (default: 8)
+    minScore?: number;         // Minimum similarity of a chunk to its topic (default: 0.3)
+}
+
+/**
+ * Topic the party chunks are clustered by (matrix topics)
+ */
+export interface ConsistencyTopic {
+    slug: string;
+    name: string;
+    query: string;
+}
+
+export type ContradictionKind = 'plan' | 'candidate';
+export type ContradictionSeverity = 'alta' | 'media' | 'baja';
+
+/**
+ * Side of a contradiction: a plan chunk or a candidate proposal
+ */
+export interface ContradictionStatement {
+    quote: string;
+    chunkId: string | null;
+    pageRange: { start: number; end: number } | null;
+    candidateId: string | null;
+}
+
+export interface ContradictionFinding {
+    topic: string;
+    kind: ContradictionKind;           // plan vs plan, or plan vs candidate proposal
+    statementA: ContradictionStatement; // Always a plan chunk
+    statementB: ContradictionStatement;
+    explanation: string;
+    severity: ContradictionSeverity;
+}
+
+export interface ConsistencyAnalysisResult {
+    findings: ContradictionFinding[];
+    analyzedTopics: number;   // Topics with enough statements to compare
+    failedTopics: number;
+}
+
+interface ClusterChunk {
+    id: string;
+    content: string;
+    score: number;
+    pageRange: { start: number; end: number } | null;
+}
+
+interface CandidateStatement {
+    candidateId: string;
+    candidateName: string;
+    position: string;
+    description: string;
+}
+
+const SEVERITIES: ContradictionSeverity[] = ['alta', 'media', 'baja'];
+// Free-text fields of a record, kept whole by parseTOON (quotes like "7,5%" or "₡1,500")
+const TEXT_FIELDS = ['quoteA', 'quoteB', 'explanation'];
+
+/**
+ * Consistency Analyzer
+ * Looks for contradicting statements inside a party's plan and between the
+ * plan and its candidates' proposals. The party chunks are clustered by
+ * topic (each chunk goes to the topic it is most similar to) and the LLM
+ * compares the statements of every cluster, citing them by label.
+ */
+export class ConsistencyAnalyzer {
+    private logger: Logger;
+    private chunksPerTopic: number;
+    private minScore: number;
+
+    constructor(
+        private readonly llmProvider: ILLMProvider,
+        options: ConsistencyAnalyzerOptions = {},
+        private readonly embedder: QueryEmbedder = new QueryEmbedder(),
+        private readonly searcher: SemanticSearcher = new SemanticSearcher()
+    ) {
+        this.logger = new Logger('ConsistencyAnalyzer');
+        this.chunksPerTopic = options.chunksPerTopic ?? 8;
+        this.minScore = options.minScore ?? 0.3;
+    }
+
+    /**
+     * Analyze a party's plan and candidate proposals
+     * @param party - Party whose plan is analyzed
+     * @param topics - Topics the chunks are clustered by
+     * @param candidates - Candidates of the party (their proposals are compared to the plan)
+     */
+    async analyze(
+        party: Party,
+        topics: ConsistencyTopic[],
+        candidates: Candidate[] = []
+    ): Promise<ConsistencyAnalysisResult> {
+        const clusters = await this.clusterChunks(party, topics);
+        const result: ConsistencyAnalysisResult = { findings: [], analyzedTopics: 0, failedTopics: 0 };
+
+        for (const topic of topics) {
+            const chunks = clusters.get(topic.slug) || [];
+            const statements = candidateStatements(candidates, topic);
+
+            // A contradiction needs two plan chunks, or a plan chunk and a candidate proposal
+            if (chunks.length === 0 || chunks.length + statements.length < 2) {
+                continue;
+            }
+
+            result.analyzedTopics++;
+            try {
+                result.findings.push(...await this.analyzeCluster(party, topic, chunks, statements));
+            } catch (error) {
+                result.failedTopics++;
+                this.logger.error(
+                    `Consistency analysis failed for ${party.slug} x ${topic.slug}: ` +
+                    `${error instanceof Error ? error.message : String(error)}`
+                );
+            }
+        }
+
+        this.logger.info(
+            `Consistency analysis of ${party.slug}: ${result.findings.length} contradictions in ` +
+            `${result.analyzedTopics} topics (${result.failedTopics} failed)`
+        );
+        return result;
+    }
+
+    /**
+     * Retrieve the party chunks of every topic and keep each chunk only in
+     * the topic it is most similar to
+     * Documents of a party missing from the registry at ingestion time are
+     * stored under its abbreviation, so both keys are searched
+     */
+    private async clusterChunks(party: Party, topics: ConsistencyTopic[]): Promise<Map<string, ClusterChunk[]>> {
+        const best = new Map<string, { topic: string; chunk: ClusterChunk }>();
+        const partyKeys = party.abbreviation ? [party.id, party.abbreviation] : [party.id];
+
+        for (const topic of topics) {
+            const embedding = await this.embedder.embed(topic.query);
+            const results: SearchResult[] = [];
+            for (const partyId of partyKeys) {
+                results.push(...await this.searcher.search(embedding, this.chunksPerTopic, { partyId }));
+            }
+
+            for (const result of results.filter(result => result.document.id && result.score >= this.minScore)) {
+                const chunk = toClusterChunk(result);
+                const current = best.get(chunk.id);
+                if (!current || current.chunk.score < chunk.score) {
+                    best.set(chunk.id, { topic: topic.slug, chunk });
+                }
+            }
+        }
+
+        const clusters = new Map<string, ClusterChunk[]>();
+        for (const { topic, chunk } of best.values()) {
+            clusters.set(topic, [...(clusters.get(topic) || []), chunk]);
+        }
+        return clusters;
+    }
+
+    private async analyzeCluster(
+        party: Party,
+        topic: ConsistencyTopic,
+        chunks: ClusterChunk[],
+        statements: CandidateStatement[]
+    ): Promise<ContradictionFinding[]> {
+        const context = [
+            ...chunks.map((chunk, i) => `[P${i + 1}${formatPages(chunk.pageRange)}]\n${chunk.content}`),
+            ...statements.map((statement, i) =>
+                `[C${i + 1} | ${statement.candidateName}, ${statement.position}]\n${statement.description}`
+            ),
+        ].join('\n\n');
+
+        const systemPrompt = `Eres un analista de Planes de Gobierno de Costa Rica 2026.
+Tu tarea es encontrar contradicciones en las posiciones del partido ${party.name} sobre ${topic.name}.
+Los fragmentos [P#] son del plan de gobierno; los fragmentos [C#] son propuestas de sus candidatos.
+Una contradicción es cuando dos fragmentos proponen cosas incompatibles (p. ej. bajar y subir un impuesto,
+cifras o plazos distintos para la misma meta, eliminar y fortalecer la misma institución).
+Diferencias de énfasis o de detalle NO son contradicciones.
+
+Devuelve SOLO TOON, un registro por contradicción, separados por una línea con ---:
+a: etiqueta del primer fragmento (siempre un P#)
+b: etiqueta del segundo fragmento (P# o C#)
+quoteA: cita textual breve del primer fragmento
+quoteB: cita textual breve del segundo fragmento
+explanation: por qué se contradicen, en una oración
+severity: alta|media|baja
+
+Si no hay contradicciones, devuelve: ninguna`;
+
+        const response = await this.llmProvider.generateCompletion(
+            [
+                { role: 'system', content: systemPrompt },
+                { role: 'user', content: `Fragmentos sobre ${topic.name}:\n\n${context}\n\nDevuelve SOLO TOON.` },
+            ],
+            {
+                temperature: 0.1, // Analysis, not generation
+                maxTokens: 1500,
+            }
+        );
+
+        return parseContradictions(response.content, topic.slug, chunks, statements);
+    }
+}
+
+/**
+ * Parse the TOON contradiction records answered for a topic cluster
+ * Records citing unknown labels, the same fragment twice, or no plan
+ * fragment are dropped
+ */
+export function parseContradictions(
+    text: string,
+    topic: string,
+    chunks: Array<Pick<ClusterChunk, 'id' | 'pageRange'>>,
+    statements: Array<Pick<CandidateStatement, 'candidateId'>>
+): ContradictionFinding[] {
+    const findings: ContradictionFinding[] = [];
+
+    const resolve = (label: string, quote: string): ContradictionStatement | null => {
+        const match = label.toUpperCase().match(/^\[?([PC])\s*(\d+)/);
+        if (!match) {
+            return null;
+        }
+        const index = parseInt(match[2], 10) - 1;
+        if (match[1] === 'P') {
+            const chunk = chunks[index];
+            return chunk ? { quote, chunkId: chunk.id, pageRange: chunk.pageRange, candidateId: null } : null;
+        }
+        const statement = statements[index];
+        return statement ? { quote, chunkId: null, pageRange: null, candidateId: statement.candidateId } : null;
+    };
+
+    for (const record of cleanMarkdownBlocks(text).split(/^\s*---+\s*$/m)) {
+        const parsed = parseTOON(record, TEXT_FIELDS);
+        if (!parsed || !validateTOON(parsed, ['a', 'b', 'explanation'])) {
+            continue;
+        }
+
+        let a = resolve(asText(parsed.a), asText(parsed.quoteA));
+        let b = resolve(asText(parsed.b), asText(parsed.quoteB));
+        if (!a || !b) {
+            continue;
+        }
+        // The plan side always goes first
+        if (!a.chunkId) {
+            [a, b] = [b, a];
+        }
+        if (!a.chunkId || (a.chunkId === b.chunkId && !b.candidateId)) {
+            continue;
+        }
+
+        const severity = asText(parsed.severity).toLowerCase() as ContradictionSeverity;
+        findings.push({
+            topic,
+            kind: b.candidateId ? 'candidate' : 'plan',
+            statementA: a,
+            statementB: b,
+            explanation: asText(parsed.explanation),
+            severity: SEVERITIES.includes(severity) ? severity : 'media',
+        });
+    }
+
+    return findings;
+}
+
+/**
+ * Candidate proposals whose topic matches the cluster topic
+ */
+function candidateStatements(candidates: Candidate[], topic: ConsistencyTopic): CandidateStatement[] {
+    const keys = [normalizeText(topic.slug), normalizeText(topic.name)];
+
+    return candidates.flatMap(candidate =>
+        (candidate.proposals || [])
+            .filter(proposal => keys.some(key => normalizeText(proposal.topic).includes(key)))
+            .map(proposal => ({
+                candidateId: candidate.id,
+                candidateName: candidate.name,
+                position: candidate.position,
+                description: proposal.description,
+            }))
+    );
+}
+
+function toClusterChunk(result: SearchResult): ClusterChunk {
+    const metadata = result.document.metadata || {};
+    const pageRange = metadata.pageRange
+        ?? (metadata.pageNumber ? { start: metadata.pageNumber, end: metadata.pageNumber } : null);
+
+    return {
+        id: result.document.id!,
+        content: metadata.cleanContent || result.document.content,
+        score: result.score,
+        pageRange,
+    };
+}
+
+function formatPages(pageRange: { start: number; end: number } | null): string {
+    if (!pageRange) {
+        return '';
+    }
+    return pageRange.start === pageRange.end
+        ? ` | página ${pageRange.start}`
+        : ` | páginas ${pageRange.start}-${pageRange.end}`;
+}
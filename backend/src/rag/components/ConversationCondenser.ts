@@ -0,0 +1,123 @@
+import { ProviderFactory } from '../../factory/ProviderFactory.js';
+import { Logger } from '@ticobot/shared';
+import type { ConversationMessage } from '../types/rag.types.js';
+
+/**
+ * Maximum number of previous messages considered for follow-ups
+ */
+export const MAX_HISTORY_MESSAGES = 6;
+
+/**
+ * Maximum characters kept from each previous message when condensing
+ * (assistant answers can be several thousand characters long)
+ */
+const MAX_MESSAGE_CHARS = 600;
+
+/**
+ * ConversationCondenser Component
+ * Rewrites a follow-up question (e.g. "¿y el PUSC?") into a standalone
+ * retrieval query using the recent conversation turns
+ */
+export class ConversationCondenser {
+    private readonly logger: Logger;
+
+    constructor() {
+        this.logger = new Logger('ConversationCondenser');
+    }
+
+    /**
+     * Condense the conversation history and the new question into a standalone query
+     * @param question - New user question
+     * @param history - Previous conversation messages (oldest first)
+     * @returns Standalone query for retrieval (the question itself if there is no history)
+     */
+    async condense(question: string, history?: ConversationMessage[]): Promise<string> {
+        const recentHistory = getRecentHistory(history);
+        if (recentHistory.length === 0) {
+            return question;
+        }
+
+        this.logger.info(`Condensing follow-up with ${recentHistory.length} previous messages: "${question}"`);
+
+        try {
+            const llmProvider = await ProviderFactory.getLLMProvider();
+
+            const dialogue = recentHistory
+                .map(message => `${message.role === 'user' ? 'Usuario' : 'Asistente'}: ${this.truncate(message.content)}`)
+                .join('\n');
+
+            const response = await llmProvider.generateCompletion(
+                [
+                    {
+                        role: 'system',
+                        content: `Reescribes preguntas de seguimiento sobre los Planes de Gobierno de Costa Rica 2026 como preguntas independientes.
+
+Reglas:
+- Conserva los partidos, candidatos y temas mencionados antes si la nueva pregunta los omite
+- Si la nueva pregunta menciona otros partidos, usa esos partidos con el tema anterior
+- Si la nueva pregunta ya es independiente, devuélvela sin cambios
+- Devuelve SOLO la pregunta reescrita, en español, sin explicaciones
+
+Ejemplo:
+Usuario: ¿Qué propone el PLN sobre educación?
+Asistente: El PLN propone...
+Nueva pregunta: ¿y el PUSC?
+Pregunta independiente: ¿Qué propone el PUSC sobre educación?`
+                    },
+                    {
+                        role: 'user',
+                        content: `${dialogue}\nNueva pregunta: ${question}\nPregunta independiente:`
+                    }
+                ],
+                {
+                    temperature: 0, // Deterministic rewrite
+                    maxTokens: 120,
+                }
+            );
+
+            const condensed = response.content.trim().split('\n')[0].replace(/^["']|["']$/g, '').trim();
+            if (!condensed) {
+                return this.fallbackCondense(question, recentHistory);
+            }
+
+            this.logger.info(`Condensed query: "${condensed}"`);
+            return condensed;
+
+        } catch (error) {
+            this.logger.warn('LLM condensing failed, using fallback', error);
+            return this.fallbackCondense(question, recentHistory);
+        }
+    }
+
+    /**
+     * Fallback condensing (no LLM): prefix the question with the last user turn
+     * so retrieval keeps the previous topic
+     */
+    private fallbackCondense(question: string, history: ConversationMessage[]): string {
+        const lastUserMessage = [...history].reverse().find(message => message.role === 'user');
+        if (!lastUserMessage) {
+            return question;
+        }
+        return `${this.truncate(lastUserMessage.content)} ${question}`;
+    }
+
+    private truncate(content: string): string {
+        return content.length > MAX_MESSAGE_CHARS
+            ? content.substring(0, MAX_MESSAGE_CHARS) + '...'
+            : content;
+    }
+}
+
+/**
+ * Get the messages considered for follow-ups (last MAX_HISTORY_MESSAGES, non-empty)
+ * @param history - Full conversation history (oldest first)
+ * @returns Recent non-empty messages, oldest first
+ */
+export function getRecentHistory(history?: ConversationMessage[]): ConversationMessage[] {
+    if (!history || history.length === 0) {
+        return [];
+    }
+    return history
+        .filter(message => message.content.trim().length > 0)
+        .slice(-MAX_HISTORY_MESSAGES);
+}
@@ -0,0 +1,232 @@
+import { Logger, type SearchResult } from '@ticobot/shared';
+import { createSupabaseClient } from '../../db/supabase.js';
+import type { Party } from '../../db/services/parties.service.js';
+import { getPartyRegistry, partyPatterns } from '../../db/services/party-registry.service.js';
+import { CandidatesService, type Candidate } from '../../db/services/candidates.service.js';
+import { normalizeText, wordPattern } from '../utils/text.js';
+
+/**
+ * Parties and candidates the resolver matches against
+ */
+export interface KnownEntities {
+    parties: Party[];
+    candidates: Candidate[];
+}
+
+/**
+ * Candidate mentioned in a text, with the party used as search filter
+ */
+export interface ResolvedCandidate {
+    candidate: Candidate;
+    party: Party | null;
+}
+
+export interface EntityResolution {
+    partySlugs: string[];            // Parties mentioned directly or through a candidate
+    candidates: ResolvedCandidate[];
+}
+
+export interface EntityResolverOptions {
+    refreshIntervalMs?: number;      // Reload period of parties and candidates (default: 10 minutes)
+}
+
+interface EntityPattern<T> {
+    entity: T;
+    patterns: RegExp[];
+}
+
+/**
+ * Entity Resolver
+ * Detects the parties and candidates mentioned in a question. Party patterns
+ * come from the party registry, and candidate names, nicknames and slugs
+ * from the database; both are refreshed periodically. A candidate mention
+ * resolves to the candidate's party.
+ */
+export class EntityResolver {
+    private logger: Logger;
+    private refreshIntervalMs: number;
+    private partyPatterns: EntityPattern<string>[] = [];
+    private candidatePatterns: EntityPattern<ResolvedCandidate>[] = [];
+    private loadedAt: number | null = null;
+    private loading: Promise<void> | null = null;
+    private timer: NodeJS.Timeout | null = null;
+
+    constructor(
+        private readonly loadEntities: () => Promise<KnownEntities> = loadFromDatabase,
+        options: EntityResolverOptions = {}
+    ) {
+        this.logger = new Logger('EntityResolver');
+        this.refreshIntervalMs = options.refreshIntervalMs ?? 10 * 60 * 1000;
+    }
+
+    /**
+     * Load the entities and refresh them periodically
+     */
+    async start(): Promise<void> {
+        await this.refresh();
+
+        if (!this.timer) {
+            this.timer = setInterval(() => void this.refresh(), this.refreshIntervalMs);
+            this.timer.unref(); // Do not keep scripts alive
+        }
+    }
+
+    stop(): void {
+        if (this.timer) {
+            clearInterval(this.timer);
+            this.timer = null;
+        }
+    }
+
+    /**
+     * Reload parties and candidates
+     * On failure the previous entities are kept
+     */
+    async refresh(): Promise<void> {
+        if (!this.loading) {
+            this.loading = this.load().finally(() => {
+                this.loading = null;
+            });
+        }
+        return this.loading;
+    }
+
+    /**
+     * Load the entities if they were never loaded or are outdated
+     * Failed loads are retried after a refresh interval, not on every question
+     */
+    async ensureLoaded(): Promise<void> {
+        if (this.loadedAt === null || Date.now() - this.loadedAt >= this.refreshIntervalMs) {
+            await this.refresh();
+        }
+    }
+
+    /**
+     * Find the parties and candidates mentioned in a text
+     */
+    resolve(text: string): EntityResolution {
+        const normalized = normalizeText(text);
+        const partySlugs: string[] = [];
+        const candidates: ResolvedCandidate[] = [];
+
+        for (const { entity: slug, patterns } of this.partyPatterns) {
+            if (!partySlugs.includes(slug) && patterns.some(pattern => pattern.test(text) || pattern.test(normalized))) {
+                partySlugs.push(slug);
+            }
+        }
+
+        for (const { entity, patterns } of this.candidatePatterns) {
+            if (patterns.some(pattern => pattern.test(normalized))) {
+                candidates.push(entity);
+                if (entity.party && !partySlugs.includes(entity.party.slug)) {
+                    partySlugs.push(entity.party.slug);
+                }
+            }
+        }
+
+        return { partySlugs, candidates };
+    }
+
+    private async load(): Promise<void> {
+        try {
+            const { parties, candidates } = await this.loadEntities();
+            const partiesById = new Map(parties.map(party => [party.id, party]));
+
+            this.partyPatterns = parties.map(party => ({
+                entity: party.slug,
+                patterns: partyPatterns(party),
+            }));
+
+            this.candidatePatterns = candidates.map(candidate => ({
+                entity: { candidate, party: partiesById.get(candidate.party_id) ?? null },
+                patterns: candidateNames(candidate).map(wordPattern),
+            }));
+
+            this.logger.info(`Loaded ${parties.length} parties and ${candidates.length} candidates`);
+        } catch (error) {
+            this.logger.warn(
+                `Entity lookup unavailable, keeping previous entities: ${error instanceof Error ? error.message : String(error)}`
+            );
+        } finally {
+            this.loadedAt = Date.now();
+        }
+    }
+}
+
+/**
+ * Retrievable context entry with a candidate's position, biography,
+ * education and proposals
+ */
+export function buildCandidateProfile({ candidate, party }: ResolvedCandidate): SearchResult {
+    const lines = [
+        `Candidato: ${candidate.name} (${candidate.position}${party ? `, ${party.name}` : ''})`,
+    ];
+
+    if (candidate.biography) {
+        lines.push(`Biografía: ${candidate.biography}`);
+    }
+    if (candidate.education?.length) {
+        lines.push(`Formación: ${candidate.education.join('; ')}`);
+    }
+    if (candidate.proposals?.length) {
+        lines.push('Propuestas:', ...candidate.proposals.map(proposal => `- ${proposal.topic}: ${proposal.description}`));
+    }
+
+    return {
+        document: {
+            id: `candidate-${candidate.id}`,
+            content: lines.join('\n'),
+            embedding: [],
+            metadata: {
+                documentId: `candidato-${candidate.slug}`,
+                title: `Perfil de ${candidate.name}`,
+                partyId: party?.id,
+                party: party?.name,
+                partyName: party?.name,
+                candidateId: candidate.id,
+            },
+        },
+        score: 1, // Named in the question
+    };
+}
+
+let sharedResolver: EntityResolver | null = null;
+
+/**
+ * Resolver shared by the RAG pipelines of the process
+ */
+export function getEntityResolver(): EntityResolver {
+    if (!sharedResolver) {
+        sharedResolver = new EntityResolver();
+    }
+    return sharedResolver;
+}
+
+async function loadFromDatabase(): Promise<KnownEntities> {
+    const supabase = createSupabaseClient();
+    const [parties, candidates] = await Promise.all([
+        getPartyRegistry().all(),
+        new CandidatesService(supabase).findAll(),
+    ]);
+    return { parties, candidates };
+}
+
+/**
+ * Normalized names a candidate is mentioned by: full name, slug, nicknames
+ * and, for names with two surnames, first name + first surname and both surnames
+ */
+function candidateNames(candidate: Candidate): string[] {
+    const words = normalizeText(candidate.name).split(' ');
+    const names = [
+        words.join(' '),
+        normalizeText(candidate.slug.replace(/-/g, ' ')),
+        ...(candidate.nicknames || []).map(normalizeText),
+    ];
+
+    if (words.length >= 3) {
+        names.push(`${words[0]} ${words[words.length - 2]}`);
+        names.push(`${words[words.length - 2]} ${words[words.length - 1]}`);
+    }
+
+    return [...new Set(names.filter(name => name.length >= 3))];
+}
@@ -0,0 +1,77 @@
+/**
+ * Proposal state classification
+ * Rates how well a party's plan covers a topic from the generated answer,
+ * the number of supporting sources and the retrieval confidence
+ */
+
+// Proposal state enum
+export enum ProposalState {
+    COMPLETA = 'completa',
+    PARCIAL = 'parcial',
+    POCO_CLARA = 'poco_clara',
+    SIN_INFORMACION = 'sin_informacion'
+}
+
+/**
+ * Determine proposal state based on answer quality and sources
+ */
+export function determineProposalState(
+    answer: string,
+    sourcesCount: number,
+    confidence: number
+): ProposalState {
+    // No information
+    if (sourcesCount === 0 || confidence < 0.2) {
+        return ProposalState.SIN_INFORMACION;
+    }
+
+    // Check for uncertainty phrases
+    const uncertaintyPhrases = [
+        'no tengo suficiente información',
+        'no hay información',
+        'no puedo determinar',
+        'no se especifica',
+        'no está claro',
+        'I don\'t have enough information',
+        'there is no information',
+        'I cannot determine',
+        'not specified',
+        'unclear'
+    ];
+
+    const hasUncertainty = uncertaintyPhrases.some(phrase =>
+        answer.toLowerCase().includes(phrase)
+    );
+
+    if (hasUncertainty || confidence < 0.4) {
+        return ProposalState.POCO_CLARA;
+    }
+
+    // Check answer length and detail
+    const isDetailed = answer.length > 200 && sourcesCount >= 2;
+    const isModerate = answer.length > 100 && sourcesCount >= 1;
+
+    if (isDetailed && confidence >= 0.7) {
+        return ProposalState.COMPLETA;
+    }
+
+    if (isModerate && confidence >= 0.5) {
+        return ProposalState.PARCIAL;
+    }
+
+    // Default to poco clara if we have some info but it's not clear
+    return ProposalState.POCO_CLARA;
+}
+
+/**
+ * Get human-readable label for proposal state
+ */
+export function getProposalStateLabel(state: ProposalState): string {
+    const labels: Record<ProposalState, string> = {
+        [ProposalState.COMPLETA]: 'Completa',
+        [ProposalState.PARCIAL]: 'Parcial',
+        [ProposalState.POCO_CLARA]: 'Poco clara',
+        [ProposalState.SIN_INFORMACION]: 'Sin información'
+    };
+    return labels[state];
+}
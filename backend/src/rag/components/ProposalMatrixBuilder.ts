@@ -0,0 +1,188 @@
+import { Logger } from '@ticobot/shared';
+import { RAGPipeline } from './RAGPipeline.js';
+import { determineProposalState } from './ProposalClassifier.js';
+import type { Party, PartiesService } from '../../db/services/parties.service.js';
+import type {
+    MatrixCellData,
+    MatrixTopic,
+    PartyDocumentVersion,
+    ProposalMatrixService
+} from '../../db/services/proposal-matrix.service.js';
+
+export interface MatrixBuildOptions {
+    partyIds?: string[]; // Party UUIDs (default: every party)
+    topicIds?: string[]; // Topic UUIDs (default: every active topic)
+    force?: boolean; // Rebuild cells that are up to date with the party document
+}
+
+export interface MatrixBuildResult {
+    built: number;
+    skipped: number; // Up to date cells
+    failed: number;
+    partiesWithoutDocument: string[];
+}
+
+/**
+ * Maximum length of a cell summary
+ */
+const MAX_SUMMARY_LENGTH = 300;
+
+/**
+ * Builds the stored party x topic proposal matrix
+ * Each cell is a single-party comparison on the topic query. Builds are
+ * incremental: a cell is only rebuilt when the party document was re-ingested
+ * with different content since the cell was built
+ */
+export class ProposalMatrixBuilder {
+    private logger: Logger;
+
+    constructor(
+        private readonly matrixService: ProposalMatrixService,
+        private readonly partiesService: PartiesService,
+        private readonly ragPipeline: RAGPipeline = new RAGPipeline({ maxContextLength: 3000 })
+    ) {
+        this.logger = new Logger('ProposalMatrixBuilder');
+    }
+
+    /**
+     * Build the missing and outdated cells
+     */
+    async build(options: MatrixBuildOptions = {}): Promise<MatrixBuildResult> {
+        const topics = (await this.matrixService.listTopics({ activeOnly: true }))
+            .filter(topic => !options.topicIds || options.topicIds.includes(topic.id));
+        const parties = (await this.partiesService.findAll())
+            .filter(party => !options.partyIds || options.partyIds.includes(party.id));
+
+        const existing = await this.matrixService.getCells({
+            partyIds: parties.map(party => party.id),
+            topicIds: topics.map(topic => topic.id),
+        });
+        const builtVersions = new Map(
+            existing.map(cell => [`${cell.party_id}:${cell.topic_id}`, cell.content_version])
+        );
+
+        const result: MatrixBuildResult = { built: 0, skipped: 0, failed: 0, partiesWithoutDocument: [] };
+        this.logger.info(`Building proposal matrix: ${parties.length} parties x ${topics.length} topics`);
+
+        for (const party of parties) {
+            const document = await this.matrixService.findPartyDocument(party);
+            if (!document) {
+                result.partiesWithoutDocument.push(party.slug);
+                continue;
+            }
+
+            for (const topic of topics) {
+                const key = `${party.id}:${topic.id}`;
+                const upToDate = builtVersions.has(key) &&
+                    document.contentVersion !== null &&
+                    builtVersions.get(key) === document.contentVersion;
+
+                if (upToDate && !options.force) {
+                    result.skipped++;
+                    continue;
+                }
+
+                try {
+                    await this.matrixService.upsertCell(await this.buildCell(party, topic, document));
+                    result.built++;
+                } catch (error) {
+                    result.failed++;
+                    this.logger.error(
+                        `Failed to build matrix cell ${party.slug} x ${topic.slug}: ${error instanceof Error ? error.message : String(error)}`
+                    );
+                }
+            }
+        }
+
+        this.logger.info(
+            `Proposal matrix built: ${result.built} built, ${result.skipped} up to date, ${result.failed} failed`
+        );
+        return result;
+    }
+
+    /**
+     * Rebuild the row of the party owning a re-ingested document
+     */
+    async rebuildForDocument(documentId: string): Promise<MatrixBuildResult | null> {
+        const partyKey = await this.matrixService.findDocumentParty(documentId);
+        if (!partyKey) {
+            this.logger.warn(`No document ${documentId}, proposal matrix not updated`);
+            return null;
+        }
+
+        // documents.party_id holds the party UUID, or its abbreviation for unregistered parties
+        const isUUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(partyKey);
+        const party = isUUID
+            ? await this.partiesService.findById(partyKey)
+            : await this.partiesService.findByAbbreviation(partyKey);
+        if (!party) {
+            this.logger.warn(`Party ${partyKey} of ${documentId} is not registered, proposal matrix not updated`);
+            return null;
+        }
+
+        return this.build({ partyIds: [party.id] });
+    }
+
+    private async buildCell(
+        party: Party,
+        topic: MatrixTopic,
+        document: PartyDocumentVersion
+    ): Promise<MatrixCellData> {
+        const { comparisons } = await this.ragPipeline.compareParties(topic.query, [party.slug], {
+            topKPerParty: 3,
+            temperature: 0.3,
+        });
+        const comparison = comparisons[0];
+
+        return {
+            party_id: party.id,
+            topic_id: topic.id,
+            summary: summarizeAnswer(comparison.answer),
+            state: determineProposalState(comparison.answer, comparison.sources.length, comparison.confidence),
+            confidence: comparison.confidence,
+            specificity: comparison.specificity,
+            chunk_ids: comparison.sources
+                .map(source => source.chunkId)
+                .filter((chunkId): chunkId is string => !!chunkId),
+            document_id: document.documentId,
+            content_version: document.contentVersion,
+        };
+    }
+}
+
+/**
+ * Short summary of a comparison answer for a matrix cell: its first one or two
+ * sentences, without headings, introductions ending in a colon, list markers,
+ * emphasis or citation markers
+ */
+export function summarizeAnswer(answer: string, maxSentences: number = 2): string {
+    const sentences: string[] = [];
+
+    for (const rawLine of answer.split('\n')) {
+        const line = rawLine.trim();
+        if (!line || /^#+\s/.test(line) || /^\*\*[^*]+\*\*:?$/.test(line)) {
+            continue;
+        }
+
+        const text = line
+            .replace(/^(?:[-*•]|\d+[.)])\s+/, '')
+            .replace(/\s*\[\d+(?:\s*,\s*\d+)*\]/g, '')
+            .replace(/[*_`]/g, '')
+            .replace(/\s+/g, ' ')
+            .trim();
+
+        for (const sentence of text.split(/(?<=[.!?])\s+/)) {
+            if (sentence && !sentence.endsWith(':')) {
+                sentences.push(sentence);
+            }
+        }
+        if (sentences.length >= maxSentences) {
+            break;
+        }
+    }
+
+    const summary = sentences.slice(0, maxSentences).join(' ') || answer.trim();
+    return summary.length > MAX_SUMMARY_LENGTH
+        ? `${summary.substring(0, MAX_SUMMARY_LENGTH - 1).trimEnd()}…`
+        : summary;
+}
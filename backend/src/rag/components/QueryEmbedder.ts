@@ -22,7 +22,7 @@ export class QueryEmbedder {
 
         try {
             // Preprocess query
-            const cleanedQuery = this.preprocessQuery(query);
+            const cleanedQuery = preprocessQuery(query);
 
             // Get embedding provider from factory
             const embeddingProvider = await ProviderFactory.getEmbeddingProvider();
@@ -62,19 +62,20 @@ export class QueryEmbedder {
 
         return embeddings;
     }
+}
 
-    /**
-     * Preprocess query before embedding
-     * @param query - Raw query
-     * @returns Cleaned query
-     */
-    private preprocessQuery(query: string): string {
-        return query
-            // Trim whitespace
-            .trim()
-            // Normalize multiple spaces
-            .replace(/\s+/g, ' ')
-            // Remove leading/trailing punctuation that might affect embeddings
-            .replace(/^[.,;:!?¿¡\s]+|[.,;:!?¿¡\s]+$/g, '');
-    }
+/**
+ * Preprocess a query before embedding
+ * Shared with the chat cache, whose question embeddings are reused for retrieval
+ * @param query - Raw query
+ * @returns Cleaned query
+ */
+export function preprocessQuery(query: string): string {
+    return query
+        // Trim whitespace
+        .trim()
+        // Normalize multiple spaces
+        .replace(/\s+/g, ' ')
+        // Remove leading/trailing punctuation that might affect embeddings
+        .replace(/^[.,;:!?¿¡\s]+|[.,;:!?¿¡\s]+$/g, '');
 }
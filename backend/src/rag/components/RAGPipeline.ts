@@ -2,66 +2,116 @@ import { QueryEmbedder } from './QueryEmbedder.js';
 import { SemanticSearcher } from './SemanticSearcher.js';
 import { ContextBuilder } from './ContextBuilder.js';
 import { ResponseGenerator } from './ResponseGenerator.js';
+import { ConversationCondenser, getRecentHistory } from './ConversationCondenser.js';
+import { CitationParser, type Citation, type AnswerClaim } from './CitationParser.js';
+import { AnswerVerifier, type AnswerVerification, type VerificationMode } from './AnswerVerifier.js';
+import { SpecificityScorer, type SpecificityScore } from './SpecificityScorer.js';
+import {
+    buildCandidateProfile,
+    getEntityResolver,
+    type EntityResolution,
+    type EntityResolver
+} from './EntityResolver.js';
 import { Logger, type SearchResult } from '@ticobot/shared';
 import { createSupabaseClient } from '../../db/supabase.js';
 import { PartiesService } from '../../db/services/parties.service.js';
+import { getPartyRegistry, type PartyRegistry } from '../../db/services/party-registry.service.js';
+import { countTokens } from '../utils/tokenCounter.js';
+import type { ConversationMessage } from '../types/rag.types.js';
+
+/**
+ * Source entry returned alongside an answer
+ */
+export interface PipelineSource {
+    id?: string;
+    content: string;
+    party: string;
+    document: string;
+    documentId?: string; // documents.document_id (e.g. "pln-2026"), tags cached answers
+    relevance: number;
+    pageNumber?: number;
+    pageRange?: { start: number; end: number };
+}
+
+/**
+ * Answer of a single party in a topic comparison
+ */
+export interface PartyComparison {
+    party: string; // Party ID as requested (slug, abbreviation or UUID)
+    partyName: string;
+    answer: string;
+    sources: Array<{
+        content: string;
+        relevance: number;
+        pageNumber?: number;
+        pageRange?: { start: number; end: number };
+        documentId?: string;
+        chunkId?: string;
+    }>;
+    citations: Citation[];
+    claims: AnswerClaim[];
+    confidence: number;
+    specificity: SpecificityScore; // Scored on the full chunks, the sources are truncated
+}
+
+/**
+ * Events yielded by RAGPipeline.compareStreaming
+ */
+export type ComparisonStreamEvent =
+    | { type: 'party'; comparison: PartyComparison }
+    | { type: 'party_error'; party: string; error: string }
+    | { type: 'summary'; summary: string | null };
+
+/**
+ * Events yielded by RAGPipeline.queryStreaming
+ */
+export type PipelineStreamEvent =
+    | { type: 'sources'; sources: PipelineSource[] }
+    | { type: 'chunk'; content: string }
+    | { type: 'citations'; citations: Citation[]; claims: AnswerClaim[] }
+    | {
+        type: 'metadata';
+        metadata: {
+            queryTime: number;
+            chunksRetrieved: number;
+            chunksUsed: number;
+            model?: string;
+            tokensUsed?: number;
+        };
+    };
 
 // Document IDs to exclude from displayed sources (but keep in context for LLM)
 const EXCLUDED_FROM_SOURCES = ['partidos-candidatos-2026'];
 
-// TOP 5 party slugs for multi-party search (in priority order)
-const TOP_5_PARTY_SLUGS = [
-    'liberacion-nacional',      // PLN
-    'coalicion-agenda-ciudadana', // CAC
-    'pueblo-soberano',          // PS
-    'frente-amplio',            // FA
-    'unidad-social-cristiana',  // PUSC
-];
-
-// Party name patterns for detection in user questions
-const PARTY_PATTERNS: { slug: string; patterns: RegExp[] }[] = [
-    {
-        slug: 'liberacion-nacional',
-        patterns: [/\bPLN\b/i, /\bliberaci[oó]n\s*nacional\b/i, /\bpartido\s*liberaci[oó]n\b/i]
-    },
-    {
-        slug: 'coalicion-agenda-ciudadana',
-        patterns: [/\bCAC\b/i, /\bagenda\s*ciudadana\b/i, /\bcoalici[oó]n\s*agenda\b/i]
-    },
-    {
-        slug: 'pueblo-soberano',
-        patterns: [/\bPS\b/i, /\bpueblo\s*soberano\b/i]
-    },
-    {
-        slug: 'frente-amplio',
-        patterns: [/\bFA\b/i, /\bfrente\s*amplio\b/i]
-    },
-    {
-        slug: 'unidad-social-cristiana',
-        patterns: [/\bPUSC\b/i, /\bunidad\s*social\b/i, /\bsocial\s*cristian[oa]\b/i]
-    },
-];
-
 /**
- * Extract party slugs mentioned in a question
+ * Resolve the parties and candidates mentioned in a question
+ * Follow-ups that mention neither (e.g. "¿y en salud?") carry forward the
+ * entities of the most recent user turn that mentioned any
+ * @param resolver - Entity resolver with the known parties and candidates
  * @param question - User's question text
- * @returns Array of party slugs found in the question
+ * @param conversationHistory - Previous conversation messages (oldest first)
+ * @returns Party slugs and candidates found in the question or carried forward
  */
-function extractPartiesFromQuestion(question: string): string[] {
-    const foundParties: string[] = [];
-
-    for (const party of PARTY_PATTERNS) {
-        for (const pattern of party.patterns) {
-            if (pattern.test(question)) {
-                if (!foundParties.includes(party.slug)) {
-                    foundParties.push(party.slug);
-                }
-                break;
-            }
+function resolveEntitiesFromQuestion(
+    resolver: EntityResolver,
+    question: string,
+    conversationHistory?: ConversationMessage[]
+): EntityResolution {
+    const resolution = resolver.resolve(question);
+    if (resolution.partySlugs.length > 0 || resolution.candidates.length > 0) {
+        return resolution;
+    }
+
+    // Only user turns: multi-party answers mention every party in the context
+    const userTurns = getRecentHistory(conversationHistory).filter(message => message.role === 'user');
+    for (let i = userTurns.length - 1; i >= 0; i--) {
+        const previous = resolver.resolve(userTurns[i].content);
+        if (previous.partySlugs.length > 0 || previous.candidates.length > 0) {
+            return previous;
         }
     }
 
-    return foundParties;
+    return resolution;
 }
 
 /**
@@ -73,22 +123,37 @@ export class RAGPipeline {
     private readonly searcher: SemanticSearcher;
     private readonly contextBuilder: ContextBuilder;
     private readonly generator: ResponseGenerator;
+    private readonly condenser: ConversationCondenser;
+    private readonly citationParser: CitationParser;
+    private readonly verifier: AnswerVerifier;
+    private readonly specificityScorer: SpecificityScorer;
+    private readonly entityResolver: EntityResolver;
+    private readonly partyRegistry: PartyRegistry;
     private readonly logger: Logger;
 
     constructor(options?: {
         maxContextLength?: number;
+        entityResolver?: EntityResolver; // Default: the process-wide resolver
+        partyRegistry?: PartyRegistry;   // Default: the process-wide registry
     }) {
+        this.partyRegistry = options?.partyRegistry ?? getPartyRegistry();
         this.embedder = new QueryEmbedder();
         this.searcher = new SemanticSearcher();
         this.contextBuilder = new ContextBuilder(options?.maxContextLength);
-        this.generator = new ResponseGenerator();
+        this.generator = new ResponseGenerator(this.partyRegistry);
+        this.condenser = new ConversationCondenser();
+        this.citationParser = new CitationParser();
+        this.verifier = new AnswerVerifier();
+        this.specificityScorer = new SpecificityScorer();
+        this.entityResolver = options?.entityResolver ?? getEntityResolver();
         this.logger = new Logger('RAGPipeline');
     }
 
     /**
      * Process a user query through the complete RAG pipeline
      * @param question - User's question
-     * @param options - Query options
+     * @param options - Query options (verification checks each claim against the
+     *                  retrieved chunks and flags or removes unsupported ones)
      * @returns Response with answer, sources, and metadata
      */
     async query(
@@ -99,18 +164,16 @@ export class RAGPipeline {
             temperature?: number;
             maxTokens?: number;
             minRelevanceScore?: number;
+            conversationHistory?: ConversationMessage[];
+            verification?: VerificationMode;
+            queryEmbedding?: number[]; // Embedding of the question already computed by the caller (ignored for follow-ups)
         }
     ): Promise<{
         answer: string;
-        sources: Array<{
-            id?: string;
-            content: string;
-            party: string;
-            document: string;
-            relevance: number;
-            pageNumber?: number;
-            pageRange?: { start: number; end: number };
-        }>;
+        sources: PipelineSource[];
+        citations: Citation[];
+        claims: AnswerClaim[];
+        verification?: Omit<AnswerVerification, 'answer'>;
         confidence: number;
         metadata: {
             queryTime: number;
@@ -124,46 +187,16 @@ export class RAGPipeline {
         this.logger.info(`Processing query: "${question.substring(0, 100)}${question.length > 100 ? '...' : ''}"`);
 
         try {
-            // Step 1: Embed the query
+            // Step 1: Embed the query (follow-ups are condensed into a standalone query first)
             this.logger.info('Step 1/4: Embedding query...');
-            const embedding = await this.embedder.embed(question);
+            const searchQuery = await this.condenser.condense(question, options?.conversationHistory);
+            const embedding = await this.embedQuery(question, searchQuery, options?.queryEmbedding);
 
             // Step 2: Search for relevant chunks using hybrid search (vector + keywords)
             this.logger.info('Step 2/4: Searching for relevant chunks (hybrid search)...');
             const topK = options?.topK ?? 5;
 
-            let searchResults: SearchResult[];
-
-            // Check if specific parties are mentioned in the question
-            const mentionedParties = extractPartiesFromQuestion(question);
-
-            // If no specific party filter, check for parties mentioned in question
-            if (!options?.filters?.partyId) {
-                if (mentionedParties.length > 0) {
-                    // Search only the parties mentioned in the question
-                    this.logger.info(`Detected ${mentionedParties.length} parties in question: ${mentionedParties.join(', ')}`);
-                    searchResults = await this.searchMultiParty(question, embedding, topK, options?.minRelevanceScore, mentionedParties);
-                } else {
-                    // No parties mentioned - search all TOP 5
-                    this.logger.info('No specific parties detected - searching TOP 5 parties...');
-                    searchResults = await this.searchMultiParty(question, embedding, topK, options?.minRelevanceScore);
-                }
-            } else {
-                // Use hybrid search which combines vector similarity with keyword matching
-                // This provides ~95% precision vs ~80% with vector-only search
-                searchResults = await this.searcher.searchHybrid(
-                    question,  // Original query text for keyword extraction
-                    embedding, // Embedding for vector search
-                    topK,
-                    {
-                        vectorWeight: 0.7,  // 70% weight for vector similarity
-                        keywordWeight: 0.3, // 30% weight for keyword matching
-                        minScore: options?.minRelevanceScore,
-                        partyId: options?.filters?.partyId,
-                        useQueryProcessing: true, // Enable Pre-RAG keyword extraction
-                    }
-                );
-            }
+            const searchResults = await this.retrieve(searchQuery, embedding, topK, options);
 
             if (searchResults.length === 0) {
                 this.logger.warn('No relevant results found');
@@ -181,61 +214,47 @@ export class RAGPipeline {
             const response = await this.generator.generate(context, question, {
                 temperature: options?.temperature,
                 maxTokens: options?.maxTokens,
+                conversationHistory: options?.conversationHistory,
             });
 
-            // Build sources (exclude metadata documents from displayed sources)
-            const filteredResults = searchResults.filter(result => {
-                const documentId = result.document.metadata?.documentId || '';
-                // Exclude metadata documents from sources but keep them in context
-                return !EXCLUDED_FROM_SOURCES.includes(documentId);
-            });
-
-            // Normalize scores: scale so the highest score becomes 1.0 (100%)
-            // This makes the UI more intuitive - best match always shows 100%
-            const maxScore = filteredResults.length > 0 
-                ? Math.max(...filteredResults.map(r => r.score))
-                : 1.0;
-            
-            const minScore = filteredResults.length > 0
-                ? Math.min(...filteredResults.map(r => r.score))
-                : 0.0;
-
-            // Normalize: map [minScore, maxScore] to [0.5, 1.0] range
-            // This ensures even lower scores are visible but best is always 100%
-            const normalizedSources = filteredResults.map(result => {
-                // If all scores are similar, don't normalize too aggressively
-                const scoreRange = maxScore - minScore;
-                let normalizedRelevance: number;
-                
-                if (scoreRange < 0.1) {
-                    // Scores are very similar, use original score but boost it
-                    normalizedRelevance = Math.min(1.0, result.score * 1.5);
+            const sources = this.buildSources(searchResults);
+            let answer = response.answer;
+            let { citations, claims } = this.citationParser.parse(answer, searchResults);
+            let confidence = response.confidence;
+            let verification: AnswerVerification | undefined;
+
+            // Optional Step 5: Verify the answer's claims against the retrieved chunks
+            if (options?.verification) {
+                this.logger.info('Step 5 (optional): Verifying answer faithfulness...');
+                verification = await this.verifier.verify(answer, claims, searchResults, options.verification);
+                confidence = this.generator.calculateConfidence(answer, context, verification);
+
+                if (verification.removedClaims > 0) {
+                    answer = verification.answer;
+                    // Removed lines may have been the only ones citing some sources
+                    citations = this.citationParser.parse(answer, searchResults).citations;
+                    claims = verification.claims.filter(claim => claim.supported);
                 } else {
-                    // Normalize: (score - min) / (max - min) * 0.5 + 0.5
-                    // Maps to [0.5, 1.0] range, ensuring best is 1.0
-                    normalizedRelevance = ((result.score - minScore) / scoreRange) * 0.5 + 0.5;
+                    claims = verification.claims;
                 }
-                
-                return {
-                    id: result.document.id,
-                    content: result.document.content.substring(0, 200) + '...',
-                    party: result.document.metadata?.partyName || result.document.metadata?.party || 'Unknown',
-                    document: result.document.metadata?.title || result.document.metadata?.documentId || 'Unknown',
-                    relevance: normalizedRelevance,
-                    pageNumber: result.document.metadata?.pageNumber,
-                    pageRange: result.document.metadata?.pageRange,
-                };
-            });
-
-            const sources = normalizedSources;
+            }
 
             const queryTime = Date.now() - startTime;
             this.logger.info(`Query completed in ${queryTime}ms`);
 
             return {
-                answer: response.answer,
+                answer,
                 sources,
-                confidence: response.confidence,
+                citations,
+                claims,
+                verification: verification && {
+                    claims: verification.claims,
+                    supportScore: verification.supportScore,
+                    unsupportedClaims: verification.unsupportedClaims,
+                    removedClaims: verification.removedClaims,
+                    judged: verification.judged,
+                },
+                confidence,
                 metadata: {
                     queryTime,
                     chunksRetrieved: searchResults.length,
@@ -253,9 +272,11 @@ export class RAGPipeline {
 
     /**
      * Process query with streaming response
+     * Sources are yielded as soon as retrieval finishes, followed by the LLM
+     * deltas as they arrive, the resolved citations and a final metadata event
      * @param question - User's question
-     * @param options - Query options
-     * @returns AsyncIterator of response chunks plus final metadata
+     * @param options - Query options (signal aborts the upstream generation)
+     * @returns AsyncIterator of sources, response chunks and final metadata
      */
     async *queryStreaming(
         question: string,
@@ -264,91 +285,75 @@ export class RAGPipeline {
             filters?: Record<string, any>;
             temperature?: number;
             maxTokens?: number;
+            minRelevanceScore?: number;
+            conversationHistory?: ConversationMessage[];
+            signal?: AbortSignal;
+            queryEmbedding?: number[]; // Embedding of the question already computed by the caller (ignored for follow-ups)
         }
-    ): AsyncIterableIterator<{
-        type: 'chunk' | 'metadata';
-        content?: string;
-        metadata?: any;
-    }> {
+    ): AsyncIterableIterator<PipelineStreamEvent> {
         const startTime = Date.now();
-        this.logger.info(`Processing streaming query: "${question.substring(0, 100)}..."`);
+        this.logger.info(`Processing streaming query: "${question.substring(0, 100)}${question.length > 100 ? '...' : ''}"`);
 
         try {
-            // Steps 1-3: Same as regular query (using hybrid search or multi-party search)
-            const embedding = await this.embedder.embed(question);
+            // Steps 1-2: Same retrieval as the regular query
+            const searchQuery = await this.condenser.condense(question, options?.conversationHistory);
+            const embedding = await this.embedQuery(question, searchQuery, options?.queryEmbedding);
             const topK = options?.topK ?? 5;
-
-            let searchResults: SearchResult[];
-
-            // Check if specific parties are mentioned in the question
-            const mentionedParties = extractPartiesFromQuestion(question);
-
-            // If no specific party filter, check for parties mentioned in question
-            if (!options?.filters?.partyId) {
-                if (mentionedParties.length > 0) {
-                    this.logger.info(`Streaming: Detected ${mentionedParties.length} parties in question: ${mentionedParties.join(', ')}`);
-                    searchResults = await this.searchMultiParty(question, embedding, topK, undefined, mentionedParties);
-                } else {
-                    this.logger.info('Streaming: No specific parties detected - searching TOP 5 parties...');
-                    searchResults = await this.searchMultiParty(question, embedding, topK);
-                }
-            } else {
-                searchResults = await this.searcher.searchHybrid(
-                    question,
-                    embedding,
-                    topK,
-                    {
-                        vectorWeight: 0.7,
-                        keywordWeight: 0.3,
-                        partyId: options?.filters?.partyId,
-                        useQueryProcessing: true,
-                    }
-                );
-            }
+            const searchResults = await this.retrieve(searchQuery, embedding, topK, options);
 
             if (searchResults.length === 0) {
-                yield {
-                    type: 'chunk',
-                    content: 'No relevant information found for your query.'
-                };
+                this.logger.warn('No relevant results found');
+                const empty = this.buildEmptyResponse(question, Date.now() - startTime);
+                yield { type: 'sources', sources: [] };
+                yield { type: 'chunk', content: empty.answer };
+                yield { type: 'citations', citations: [], claims: [] };
+                yield { type: 'metadata', metadata: empty.metadata };
                 return;
             }
 
+            // Sources are known before generation starts - send them right away
+            yield { type: 'sources', sources: this.buildSources(searchResults) };
+
+            // Step 3: Build context
             const context = this.contextBuilder.build(searchResults, question);
 
             // Step 4: Stream the response
+            let answer = '';
+            let model: string | undefined;
             for await (const chunk of this.generator.generateStreaming(context, question, {
                 temperature: options?.temperature,
                 maxTokens: options?.maxTokens,
+                conversationHistory: options?.conversationHistory,
+                signal: options?.signal,
+                onModel: (name) => { model = name; },
             })) {
-                yield {
-                    type: 'chunk',
-                    content: chunk
-                };
+                answer += chunk;
+                yield { type: 'chunk', content: chunk };
             }
 
-            // Yield final metadata (exclude metadata documents from sources)
-            const sources = searchResults
-                .filter(result => {
-                    const documentId = result.document.metadata?.documentId || '';
-                    return !EXCLUDED_FROM_SOURCES.includes(documentId);
-                })
-                .map(result => ({
-                    id: result.document.id,
-                    party: result.document.metadata?.partyName || result.document.metadata?.party || 'Unknown',
-                    relevance: result.score,
-                }));
+            // Markers can only be resolved once the whole answer is known
+            yield { type: 'citations', ...this.citationParser.parse(answer, searchResults) };
+
+            const queryTime = Date.now() - startTime;
+            this.logger.info(`Streaming query completed in ${queryTime}ms`);
 
             yield {
                 type: 'metadata',
                 metadata: {
-                    sources,
-                    queryTime: Date.now() - startTime,
+                    queryTime,
                     chunksRetrieved: searchResults.length,
-                }
+                    chunksUsed: searchResults.length,
+                    model: model ?? await this.generator.getModelName(),
+                    // Streaming APIs don't report usage, so estimate the completion tokens
+                    tokensUsed: countTokens(answer),
+                },
             };
 
         } catch (error) {
+            if (options?.signal?.aborted) {
+                this.logger.info('Streaming query aborted by client');
+                return;
+            }
             this.logger.error('Streaming RAG pipeline failed', error);
             throw new Error(`Streaming query failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
         }
@@ -358,7 +363,7 @@ export class RAGPipeline {
      * Compare multiple parties on a specific topic
      * @param question - Topic/question to compare
      * @param partyIds - Array of party IDs to compare (can be abbreviations or UUIDs)
-     * @param options - Query options
+     * @param options - Query options (summarize adds a cross-party summary, one more LLM call)
      * @returns Comparison results
      */
     async compareParties(
@@ -367,186 +372,485 @@ export class RAGPipeline {
         options?: {
             topKPerParty?: number;
             temperature?: number;
+            summarize?: boolean;
         }
     ): Promise<{
         question: string;
-        comparisons: Array<{
-            party: string;
-            answer: string;
-            sources: Array<{
-                content: string;
-                relevance: number;
-            }>;
-            confidence: number;
-        }>;
+        comparisons: PartyComparison[];
         summary?: string;
     }> {
         this.logger.info(`Comparing ${partyIds.length} parties on: "${question}"`);
 
         const embedding = await this.embedder.embed(question);
-        const comparisons = [];
+        const comparisons: PartyComparison[] = [];
 
         // Initialize services to resolve party UUIDs from abbreviations
         const supabase = createSupabaseClient();
         const partiesService = new PartiesService(supabase);
 
         for (const partyId of partyIds) {
-            // Try to resolve party UUID and name from slug/abbreviation
-            // UUID format: xxxxxxxx-xxxx-xxxx-xxxx-xxxxxxxxxxxx (8-4-4-4-12)
-            const isUUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(partyId);
+            comparisons.push(await this.compareParty(question, partyId, embedding, partiesService, options));
+        }
 
-            let filterPartyId: string | undefined = partyId;
-            let partyName: string = partyId; // Store party name for the prompt
+        const summary = options?.summarize
+            ? await this.summarizeComparisons(question, comparisons, options)
+            : null;
 
-            // Always try to look up party info (for name) unless it's a raw UUID
-            try {
-                const slug = partyId.toLowerCase();
-                // First try by slug (e.g., "liberacion-nacional", "pueblo-soberano")
-                let party = await partiesService.findBySlug(slug);
+        return {
+            question,
+            comparisons,
+            ...(summary ? { summary } : {}),
+        };
+    }
+
+    /**
+     * Compare parties on a topic, yielding each party as soon as it is ready
+     * Per-party retrieval and generation run concurrently (bounded by
+     * options.concurrency); the last event holds the cross-party summary
+     * @param question - Topic/question to compare
+     * @param partyIds - Array of party IDs to compare (can be abbreviations or UUIDs)
+     * @param options - Query options
+     * @returns AsyncIterator of comparison events
+     */
+    async *compareStreaming(
+        question: string,
+        partyIds: string[],
+        options?: {
+            topKPerParty?: number;
+            temperature?: number;
+            concurrency?: number; // Parties processed at once (default: 3)
+            signal?: AbortSignal;
+        }
+    ): AsyncIterableIterator<ComparisonStreamEvent> {
+        this.logger.info(`Streaming comparison of ${partyIds.length} parties on: "${question}"`);
+
+        const embedding = await this.embedder.embed(question);
+        const partiesService = new PartiesService(createSupabaseClient());
+        const concurrency = Math.max(1, options?.concurrency ?? 3);
+
+        type Settled =
+            | { index: number; comparison: PartyComparison }
+            | { index: number; error: string };
+
+        const comparisons: PartyComparison[] = [];
+        const inFlight = new Map<number, Promise<Settled>>();
+        let next = 0;
+
+        const startNext = () => {
+            const index = next++;
+            const partyId = partyIds[index];
+            inFlight.set(
+                index,
+                this.compareParty(question, partyId, embedding, partiesService, options).then(
+                    (comparison): Settled => ({ index, comparison }),
+                    (error): Settled => ({ index, error: error instanceof Error ? error.message : String(error) })
+                )
+            );
+        };
+
+        while (next < partyIds.length && inFlight.size < concurrency) {
+            startNext();
+        }
+
+        while (inFlight.size > 0) {
+            const settled = await Promise.race(inFlight.values());
+            inFlight.delete(settled.index);
+
+            if (options?.signal?.aborted) {
+                return;
+            }
+            if (next < partyIds.length) {
+                startNext();
+            }
+
+            if ('comparison' in settled) {
+                comparisons.push(settled.comparison);
+                yield { type: 'party', comparison: settled.comparison };
+            } else {
+                this.logger.error(`Comparison failed for party ${partyIds[settled.index]}: ${settled.error}`);
+                yield { type: 'party_error', party: partyIds[settled.index], error: settled.error };
+            }
+        }
+
+        // Keep the request order for the summary, whatever the completion order
+        comparisons.sort((a, b) => partyIds.indexOf(a.party) - partyIds.indexOf(b.party));
+        const summary = await this.summarizeComparisons(question, comparisons, options);
+        if (options?.signal?.aborted) {
+            return;
+        }
+
+        yield { type: 'summary', summary };
+    }
+
+    /**
+     * Synthesise a neutral cross-party summary from the per-party answers
+     * @returns Summary, or null when fewer than two parties have information
+     */
+    async summarizeComparisons(
+        question: string,
+        comparisons: PartyComparison[],
+        options?: { temperature?: number; signal?: AbortSignal }
+    ): Promise<string | null> {
+        const informed = comparisons.filter(comparison => comparison.sources.length > 0);
+        if (informed.length < 2) {
+            this.logger.info('Skipping comparison summary: fewer than two parties with information');
+            return null;
+        }
+
+        const context = informed
+            .map(comparison => `### ${comparison.partyName}\n${comparison.answer}`)
+            .join('\n\n');
+
+        const systemPrompt = `Eres un analista neutral de Planes de Gobierno de Costa Rica 2026.
+Comparas propuestas de varios partidos sin favorecer a ninguno.
+Usa únicamente la información de los resúmenes por partido que se te entregan.
+Responde siempre en español.`;
+
+        const userPrompt = `Tema: ${question}
+
+Resúmenes de las propuestas de cada partido:
+
+${context}
+
+Escribe una síntesis comparativa breve (máximo 3 párrafos):
+- Coincidencias entre los partidos
+- Diferencias principales de enfoque o de medidas concretas
+- Partidos cuyas propuestas son más específicas o más generales
+
+No agregues información que no esté en los resúmenes.`;
 
+        const response = await this.generator.generate(context, question, {
+            temperature: options?.temperature,
+            systemPrompt,
+            userPrompt,
+            signal: options?.signal,
+        });
+
+        return response.answer;
+    }
+
+    /**
+     * Resolve a party slug, abbreviation or UUID to the search filter and display name
+     */
+    private async resolveComparisonParty(
+        partyId: string,
+        partiesService: PartiesService
+    ): Promise<{ filterPartyId: string; partyName: string }> {
+        // Try to resolve party UUID and name from slug/abbreviation
+        // UUID format: xxxxxxxx-xxxx-xxxx-xxxx-xxxxxxxxxxxx (8-4-4-4-12)
+        const isUUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(partyId);
+
+        let filterPartyId: string = partyId;
+        let partyName: string = partyId; // Store party name for the prompt
+
+        // Always try to look up party info (for name) unless it's a raw UUID
+        try {
+            const slug = partyId.toLowerCase();
+            // First try by slug (e.g., "liberacion-nacional", "pueblo-soberano")
+            let party = await partiesService.findBySlug(slug);
+
+            if (party?.id) {
+                filterPartyId = party.id;
+                partyName = party.name || partyId;
+                this.logger.info(`Resolved party slug "${slug}" to "${partyName}" (UUID: ${party.id})`);
+            } else {
+                // Try by abbreviation (e.g., "PLN", "CAC")
+                party = await partiesService.findByAbbreviation(partyId.toUpperCase());
                 if (party?.id) {
                     filterPartyId = party.id;
                     partyName = party.name || partyId;
-                    this.logger.info(`Resolved party slug "${slug}" to "${partyName}" (UUID: ${party.id})`);
-                } else {
-                    // Try by abbreviation (e.g., "PLN", "CAC")
-                    party = await partiesService.findByAbbreviation(partyId.toUpperCase());
-                    if (party?.id) {
-                        filterPartyId = party.id;
-                        partyName = party.name || partyId;
-                        this.logger.info(`Resolved party abbreviation "${partyId}" to "${partyName}" (UUID: ${party.id})`);
-                    } else if (isUUID) {
-                        // It's a UUID, try to get party info by ID
-                        party = await partiesService.findById(partyId);
-                        if (party?.name) {
-                            partyName = party.name;
-                            this.logger.info(`Resolved party UUID "${partyId}" to "${partyName}"`);
-                        } else {
-                            this.logger.warn(`Party not found for UUID "${partyId}", using ID as name`);
-                        }
+                    this.logger.info(`Resolved party abbreviation "${partyId}" to "${partyName}" (UUID: ${party.id})`);
+                } else if (isUUID) {
+                    // It's a UUID, try to get party info by ID
+                    party = await partiesService.findById(partyId);
+                    if (party?.name) {
+                        partyName = party.name;
+                        this.logger.info(`Resolved party UUID "${partyId}" to "${partyName}"`);
                     } else {
-                        // Final fallback
-                        this.logger.warn(`Party not found for "${partyId}", using as-is`);
+                        this.logger.warn(`Party not found for UUID "${partyId}", using ID as name`);
                     }
+                } else {
+                    // Final fallback
+                    this.logger.warn(`Party not found for "${partyId}", using as-is`);
                 }
-            } catch (error) {
-                // If lookup fails, use partyId as-is
-                this.logger.warn(`Error looking up party "${partyId}":`, error);
             }
+        } catch (error) {
+            // If lookup fails, use partyId as-is
+            this.logger.warn(`Error looking up party "${partyId}":`, error);
+        }
 
-            // Try with default threshold first
-            let searchResults = await this.searcher.searchHybrid(
+        return { filterPartyId, partyName };
+    }
+
+    /**
+     * Retrieve and answer the topic for a single party
+     */
+    private async compareParty(
+        question: string,
+        partyId: string,
+        embedding: number[],
+        partiesService: PartiesService,
+        options?: {
+            topKPerParty?: number;
+            temperature?: number;
+            signal?: AbortSignal; // Aborts the party's LLM request
+        }
+    ): Promise<PartyComparison> {
+        const { filterPartyId, partyName } = await this.resolveComparisonParty(partyId, partiesService);
+
+        // Try with default threshold first
+        let searchResults = await this.searcher.searchHybrid(
+            question,
+            embedding,
+            options?.topKPerParty ?? 3,
+            {
+                vectorWeight: 0.7,
+                keywordWeight: 0.3,
+                minScore: 0.3, // Default threshold
+                partyId: filterPartyId,
+                useQueryProcessing: true,
+            }
+        );
+
+        // If no results, try with lower threshold (0.2) for better recall
+        if (searchResults.length === 0) {
+            this.logger.warn(`No results with threshold 0.3, trying lower threshold 0.2 for party ${partyId}`);
+            searchResults = await this.searcher.searchHybrid(
                 question,
                 embedding,
                 options?.topKPerParty ?? 3,
                 {
                     vectorWeight: 0.7,
                     keywordWeight: 0.3,
-                    minScore: 0.3, // Default threshold
+                    minScore: 0.2, // Lower threshold for better recall
                     partyId: filterPartyId,
                     useQueryProcessing: true,
                 }
             );
+        }
 
-            // If no results, try with lower threshold (0.2) for better recall
-            if (searchResults.length === 0) {
-                this.logger.warn(`No results with threshold 0.3, trying lower threshold 0.2 for party ${partyId}`);
-                searchResults = await this.searcher.searchHybrid(
-                    question,
-                    embedding,
-                    options?.topKPerParty ?? 3,
-                    {
-                        vectorWeight: 0.7,
-                        keywordWeight: 0.3,
-                        minScore: 0.2, // Lower threshold for better recall
-                        partyId: filterPartyId,
-                        useQueryProcessing: true,
-                    }
-                );
-            }
+        // If still no results, try with even lower threshold (0.1) for very specific queries
+        if (searchResults.length === 0) {
+            this.logger.warn(`No results with threshold 0.2, trying lower threshold 0.1 for party ${partyId}`);
+            searchResults = await this.searcher.searchHybrid(
+                question,
+                embedding,
+                options?.topKPerParty ?? 5, // Get more results
+                {
+                    vectorWeight: 0.7,
+                    keywordWeight: 0.3,
+                    minScore: 0.1, // Very low threshold for maximum recall
+                    partyId: filterPartyId,
+                    useQueryProcessing: true,
+                }
+            );
+        }
 
-            // If still no results, try with even lower threshold (0.1) for very specific queries
-            if (searchResults.length === 0) {
-                this.logger.warn(`No results with threshold 0.2, trying lower threshold 0.1 for party ${partyId}`);
-                searchResults = await this.searcher.searchHybrid(
-                    question,
-                    embedding,
-                    options?.topKPerParty ?? 5, // Get more results
-                    {
-                        vectorWeight: 0.7,
-                        keywordWeight: 0.3,
-                        minScore: 0.1, // Very low threshold for maximum recall
-                        partyId: filterPartyId,
-                        useQueryProcessing: true,
-                    }
-                );
-            }
+        if (searchResults.length === 0) {
+            return {
+                party: partyId,
+                partyName,
+                answer: `No se encontró información para ${partyId} sobre este tema.`,
+                sources: [],
+                citations: [],
+                claims: [],
+                confidence: 0,
+                specificity: this.specificityScorer.score([]),
+            };
+        }
 
-            if (searchResults.length > 0) {
-                const context = this.contextBuilder.build(searchResults, question);
-
-                // Extract topic from question for the party-specific query
-                const topicMatch = question.match(/propuestas?\s+(?:sobre|de|en)\s+([^?]+)/i);
-                const topic = topicMatch ? topicMatch[1].replace(/de los partidos.*$/i, '').trim() : question;
-                const partySpecificQuestion = `¿Cuáles son las propuestas sobre ${topic}?`;
-                this.logger.info(`Party-specific question for ${partyName}: "${partySpecificQuestion}"`);
-
-                // Build custom user prompt that only mentions this party
-                // This bypasses the default buildUserPrompt which mentions TOP 5 parties
-                const singlePartyUserPrompt = this.generator.buildSinglePartyPrompt(
-                    context,
-                    partySpecificQuestion,
-                    partyName
-                );
+        const context = this.contextBuilder.build(searchResults, question);
+
+        // Extract topic from question for the party-specific query
+        const topicMatch = question.match(/propuestas?\s+(?:sobre|de|en)\s+([^?]+)/i);
+        const topic = topicMatch ? topicMatch[1].replace(/de los partidos.*$/i, '').trim() : question;
+        const partySpecificQuestion = `¿Cuáles son las propuestas sobre ${topic}?`;
+        this.logger.info(`Party-specific question for ${partyName}: "${partySpecificQuestion}"`);
 
-                // System prompt focused on single party analysis
-                const singlePartySystemPrompt = `Eres un asistente experto en Planes de Gobierno de Costa Rica 2026.
+        // Build custom user prompt that only mentions this party
+        // This bypasses the default buildUserPrompt which mentions the featured parties
+        const singlePartyUserPrompt = this.generator.buildSinglePartyPrompt(
+            context,
+            partySpecificQuestion,
+            partyName
+        );
+
+        // System prompt focused on single party analysis
+        const singlePartySystemPrompt = `Eres un asistente experto en Planes de Gobierno de Costa Rica 2026.
 Tu tarea es analizar ÚNICAMENTE las propuestas del partido ${partyName}.
 NO menciones otros partidos políticos bajo ninguna circunstancia.
 Responde siempre en español.`;
 
-                const response = await this.generator.generate(context, partySpecificQuestion, {
-                    temperature: options?.temperature,
-                    systemPrompt: singlePartySystemPrompt,
-                    userPrompt: singlePartyUserPrompt,
-                });
-
-                comparisons.push({
-                    party: partyId,
-                    answer: response.answer,
-                    sources: searchResults
-                        .filter(r => {
-                            const documentId = r.document.metadata?.documentId || '';
-                            return !EXCLUDED_FROM_SOURCES.includes(documentId);
-                        })
-                        .map(r => ({
-                            content: r.document.content.substring(0, 200) + (r.document.content.length > 200 ? '...' : ''),
-                            relevance: r.score,
-                            pageNumber: r.document.metadata?.pageNumber,
-                            pageRange: r.document.metadata?.pageRange,
-                            documentId: r.document.metadata?.documentId || r.document.id,
-                            chunkId: r.document.id,
-                        })),
-                    confidence: response.confidence,
-                });
-            } else {
-                comparisons.push({
-                    party: partyId,
-                    answer: `No se encontró información para ${partyId} sobre este tema.`,
-                    sources: [],
-                    confidence: 0,
-                });
-            }
-        }
+        const response = await this.generator.generate(context, partySpecificQuestion, {
+            temperature: options?.temperature,
+            systemPrompt: singlePartySystemPrompt,
+            userPrompt: singlePartyUserPrompt,
+            signal: options?.signal,
+        });
+
+        const sourceResults = searchResults.filter(r => {
+            const documentId = r.document.metadata?.documentId || '';
+            return !EXCLUDED_FROM_SOURCES.includes(documentId);
+        });
 
         return {
-            question,
-            comparisons,
+            party: partyId,
+            partyName,
+            answer: response.answer,
+            sources: sourceResults.map(r => ({
+                content: r.document.content.substring(0, 200) + (r.document.content.length > 200 ? '...' : ''),
+                relevance: r.score,
+                pageNumber: r.document.metadata?.pageNumber,
+                pageRange: r.document.metadata?.pageRange,
+                documentId: r.document.metadata?.documentId,
+                chunkId: r.document.id,
+            })),
+            ...this.citationParser.parse(response.answer, searchResults),
+            confidence: response.confidence,
+            specificity: this.specificityScorer.score(sourceResults.map(r => ({
+                content: r.document.content,
+                pageNumber: r.document.metadata?.pageNumber,
+                pageRange: r.document.metadata?.pageRange,
+                chunkId: r.document.id,
+            }))),
         };
     }
 
     /**
-     * Search across TOP 5 parties for multi-party coverage
+     * Retrieve relevant chunks for a question
+     * Uses the explicit party filter if given, otherwise the parties mentioned
+     * in the question (directly or through one of their candidates), otherwise
+     * the featured parties. Profiles of the mentioned candidates go first.
+     * @param question - User's question
+     * @param embedding - Query embedding
+     * @param topK - Number of results desired
+     * @param options - Filters, minimum relevance score and conversation history
+     * @returns Candidate profiles followed by search results ordered by score
+     */
+    private async retrieve(
+        question: string,
+        embedding: number[],
+        topK: number,
+        options?: {
+            filters?: Record<string, any>;
+            minRelevanceScore?: number;
+            conversationHistory?: ConversationMessage[];
+        }
+    ): Promise<SearchResult[]> {
+        // Check if specific parties or candidates are mentioned in the question (or earlier in the conversation)
+        await this.entityResolver.ensureLoaded();
+        const { partySlugs, candidates } = resolveEntitiesFromQuestion(
+            this.entityResolver,
+            question,
+            options?.conversationHistory
+        );
+
+        if (candidates.length > 0) {
+            this.logger.info(`Detected candidates in question: ${candidates.map(({ candidate }) => candidate.name).join(', ')}`);
+        }
+
+        const searchResults = await this.searchChunks(question, embedding, topK, partySlugs, options);
+        return [...candidates.map(buildCandidateProfile), ...searchResults];
+    }
+
+    /**
+     * Search the plan chunks for a question
+     */
+    private async searchChunks(
+        question: string,
+        embedding: number[],
+        topK: number,
+        mentionedParties: string[],
+        options?: {
+            filters?: Record<string, any>;
+            minRelevanceScore?: number;
+        }
+    ): Promise<SearchResult[]> {
+        // If no specific party filter, check for parties mentioned in question
+        if (!options?.filters?.partyId) {
+            if (mentionedParties.length > 0) {
+                // Search only the parties mentioned in the question
+                this.logger.info(`Detected ${mentionedParties.length} parties in question: ${mentionedParties.join(', ')}`);
+                return this.searchMultiParty(question, embedding, topK, options?.minRelevanceScore, mentionedParties);
+            }
+
+            // No parties mentioned - search the featured parties
+            this.logger.info('No specific parties detected - searching featured parties...');
+            return this.searchMultiParty(question, embedding, topK, options?.minRelevanceScore);
+        }
+
+        // Use hybrid search which combines vector similarity with keyword matching
+        // This provides ~95% precision vs ~80% with vector-only search
+        return this.searcher.searchHybrid(
+            question,  // Original query text for keyword extraction
+            embedding, // Embedding for vector search
+            topK,
+            {
+                vectorWeight: 0.7,  // 70% weight for vector similarity
+                keywordWeight: 0.3, // 30% weight for keyword matching
+                minScore: options?.minRelevanceScore,
+                partyId: options?.filters?.partyId,
+                useQueryProcessing: true, // Enable Pre-RAG keyword extraction
+            }
+        );
+    }
+
+    /**
+     * Embed the search query, reusing the caller's embedding of the question
+     * when the question was not condensed (e.g. the one computed by the chat cache)
+     */
+    private async embedQuery(question: string, searchQuery: string, queryEmbedding?: number[]): Promise<number[]> {
+        if (queryEmbedding && searchQuery === question) {
+            return queryEmbedding;
+        }
+        return this.embedder.embed(searchQuery);
+    }
+
+    /**
+     * Build displayed sources from search results
+     * Excludes metadata documents (they stay in the LLM context) and
+     * normalizes scores so the best match always shows 100%
+     * @param searchResults - Retrieved chunks
+     * @returns Sources for the API response
+     */
+    private buildSources(searchResults: SearchResult[]): PipelineSource[] {
+        const filteredResults = searchResults.filter(result => {
+            const documentId = result.document.metadata?.documentId || '';
+            return !EXCLUDED_FROM_SOURCES.includes(documentId);
+        });
+
+        const maxScore = filteredResults.length > 0
+            ? Math.max(...filteredResults.map(r => r.score))
+            : 1.0;
+
+        const minScore = filteredResults.length > 0
+            ? Math.min(...filteredResults.map(r => r.score))
+            : 0.0;
+
+        // Normalize: map [minScore, maxScore] to [0.5, 1.0] range
+        // This ensures even lower scores are visible but best is always 100%
+        return filteredResults.map(result => {
+            // If all scores are similar, don't normalize too aggressively
+            const scoreRange = maxScore - minScore;
+            const normalizedRelevance = scoreRange < 0.1
+                ? Math.min(1.0, result.score * 1.5)
+                : ((result.score - minScore) / scoreRange) * 0.5 + 0.5;
+
+            return {
+                id: result.document.id,
+                content: result.document.content.substring(0, 200) + '...',
+                party: result.document.metadata?.partyName || result.document.metadata?.party || 'Unknown',
+                document: result.document.metadata?.title || result.document.metadata?.documentId || 'Unknown',
+                documentId: result.document.metadata?.documentId,
+                relevance: normalizedRelevance,
+                pageNumber: result.document.metadata?.pageNumber,
+                pageRange: result.document.metadata?.pageRange,
+            };
+        });
+    }
+
+    /**
+     * Search across the featured parties for multi-party coverage
      * This ensures the chat response includes information from multiple parties
      * @param question - User's question
      * @param embedding - Query embedding
@@ -561,26 +865,37 @@ Responde siempre en español.`;
         minRelevanceScore?: number,
         specificParties?: string[] // Optional: only search these party slugs
     ): Promise<SearchResult[]> {
-        const supabase = createSupabaseClient();
-        const partiesService = new PartiesService(supabase);
+        // Party slugs are resolved through Supabase; without it (e.g. offline with
+        // the memory vector store) only the general search below is possible
+        let partiesService: PartiesService | null = null;
+        try {
+            partiesService = new PartiesService(createSupabaseClient());
+        } catch (error) {
+            this.logger.warn(`Party lookup unavailable: ${error instanceof Error ? error.message : String(error)}`);
+        }
 
-        // Use specific parties if provided, otherwise use TOP 5
-        const partiesToSearch = specificParties && specificParties.length > 0
-            ? specificParties
-            : TOP_5_PARTY_SLUGS;
+        // Use specific parties if provided, otherwise the featured parties of the registry
+        let partiesToSearch = specificParties ?? [];
+        if (partiesToSearch.length === 0 && partiesService) {
+            try {
+                partiesToSearch = (await this.partyRegistry.featured()).map(party => party.slug);
+            } catch (error) {
+                this.logger.warn(`Featured parties unavailable: ${error instanceof Error ? error.message : String(error)}`);
+            }
+        }
 
         // Calculate how many results to get per party (at least 3 per party for better coverage)
-        const resultsPerParty = Math.max(3, Math.ceil(totalTopK / partiesToSearch.length));
+        const resultsPerParty = Math.max(3, Math.ceil(totalTopK / Math.max(1, partiesToSearch.length)));
         this.logger.info(`Searching ${resultsPerParty} results per party across ${partiesToSearch.length} parties: ${partiesToSearch.join(', ')}`);
 
         const allResults: SearchResult[] = [];
         const partyResultsMap: Map<string, SearchResult[]> = new Map();
 
         // Search each party
-        for (const slug of partiesToSearch) {
+        for (const slug of partiesService ? partiesToSearch : []) {
             try {
                 // Resolve party UUID from slug
-                const party = await partiesService.findBySlug(slug);
+                const party = await partiesService!.findBySlug(slug);
                 if (!party?.id) {
                     this.logger.warn(`Party not found for slug: ${slug}`);
                     continue;
@@ -615,7 +930,7 @@ Responde siempre en español.`;
 
         // If multi-party search found nothing, fall back to general search
         if (allResults.length === 0) {
-            this.logger.info('No results from TOP 5 parties, falling back to general search...');
+            this.logger.info('No results from featured parties, falling back to general search...');
             return this.searcher.searchHybrid(
                 question,
                 embedding,
@@ -682,6 +997,8 @@ Responde siempre en español.`;
         return {
             answer: 'No pude encontrar información relevante en la base de datos de planes de gobierno para responder tu pregunta. Por favor, intenta reformular la pregunta o pregunta sobre un tema diferente.',
             sources: [],
+            citations: [],
+            claims: [],
             confidence: 0,
             metadata: {
                 queryTime,
@@ -1,5 +1,29 @@
 import { ProviderFactory } from '../../factory/ProviderFactory.js';
-import { Logger, type LLMMessage, type LLMResponse } from '@ticobot/shared';
+import { Logger, type ILLMProvider, type LLMMessage, type LLMResponse } from '@ticobot/shared';
+import { countTokens } from '../utils/tokenCounter.js';
+import { getRecentHistory } from './ConversationCondenser.js';
+import type { AnswerVerification } from './AnswerVerifier.js';
+import type { ConversationMessage } from '../types/rag.types.js';
+import { getPartyRegistry, type PartyRegistry } from '../../db/services/party-registry.service.js';
+import type { Party } from '../../db/services/parties.service.js';
+
+/**
+ * Tokens kept free in the context window for message framing and tokenizer differences
+ */
+const CONTEXT_WINDOW_SAFETY_MARGIN = 500;
+
+/**
+ * Maximum tokens spent on previous conversation turns, regardless of context window size
+ */
+const MAX_HISTORY_TOKENS = 3000;
+
+/**
+ * Registry parties the default user prompt is organized by
+ */
+interface PromptParties {
+    mentioned: Party[];   // Parties named in the question
+    featured: Party[];    // Parties searched when the question names none
+}
 
 /**
  * ResponseGenerator Component
@@ -8,18 +32,8 @@ import { Logger, type LLMMessage, type LLMResponse } from '@ticobot/shared';
 export class ResponseGenerator {
     private readonly logger: Logger;
     private systemPrompt: string;
-    
-    // Top 5 partidos políticos prioritarios cuando no se especifican partidos
-    // Orden: PLN, CAC, PS, FA, PUSC (mismos que en RAGPipeline)
-    private readonly TOP_PARTIES = [
-        { abbrev: 'PLN', name: 'Partido Liberación Nacional', documentId: 'PLN' },
-        { abbrev: 'CAC', name: 'Coalición Agenda Ciudadana', documentId: 'CAC' },
-        { abbrev: 'PS', name: 'Pueblo Soberano', documentId: 'PPSO' },
-        { abbrev: 'FA', name: 'Frente Amplio', documentId: 'FA' },
-        { abbrev: 'PUSC', name: 'Partido Unidad Social Cristiana', documentId: 'PUSC' },
-    ];
-
-    constructor() {
+
+    constructor(private readonly partyRegistry: PartyRegistry = getPartyRegistry()) {
         this.logger = new Logger('ResponseGenerator');
         this.systemPrompt = this.getDefaultSystemPrompt();
     }
@@ -39,6 +53,8 @@ export class ResponseGenerator {
             maxTokens?: number;
             systemPrompt?: string;
             userPrompt?: string; // Optional custom user prompt (bypasses buildUserPrompt)
+            conversationHistory?: ConversationMessage[];
+            signal?: AbortSignal; // Aborts the upstream LLM request
         }
     ): Promise<{
         answer: string;
@@ -73,28 +89,28 @@ export class ResponseGenerator {
 
             // Build user prompt with context (use trimmed context)
             // Use custom userPrompt if provided, otherwise build default
-            const userPrompt = options?.userPrompt || this.buildUserPrompt(trimmedContext, query);
+            const userPrompt = options?.userPrompt
+                || this.buildUserPrompt(trimmedContext, query, await this.loadPromptParties(query));
             this.logger.info(`User prompt length: ${userPrompt.length} characters`);
 
             // Build messages
-            const messages: LLMMessage[] = [
-                {
-                    role: 'system',
-                    content: options?.systemPrompt || this.systemPrompt
-                },
-                {
-                    role: 'user',
-                    content: userPrompt
-                }
-            ];
+            const maxTokens = options?.maxTokens ?? 800;
+            const messages = this.buildMessages(
+                llmProvider,
+                options?.systemPrompt || this.systemPrompt,
+                userPrompt,
+                maxTokens,
+                options?.conversationHistory
+            );
 
             // Generate completion
             const response: LLMResponse = await llmProvider.generateCompletion(messages, {
                 temperature: options?.temperature ?? 0.7,
-                maxTokens: options?.maxTokens ?? 800,
+                maxTokens,
+                signal: options?.signal,
             });
 
-            const confidence = this.calculateConfidence(response, context);
+            const confidence = this.calculateConfidence(response.content, context);
 
             this.logger.info(`Response generated: ${response.content.length} chars, confidence: ${confidence.toFixed(2)}`);
 
@@ -125,6 +141,10 @@ export class ResponseGenerator {
             temperature?: number;
             maxTokens?: number;
             systemPrompt?: string;
+            userPrompt?: string;
+            conversationHistory?: ConversationMessage[];
+            signal?: AbortSignal; // Aborts the upstream LLM request
+            onModel?: (model: string) => void; // Reports the model that served the stream
         }
     ): AsyncIterableIterator<string> {
         this.logger.info(`Generating streaming response for query: "${query.substring(0, 50)}${query.length > 50 ? '...' : ''}"`);
@@ -132,21 +152,21 @@ export class ResponseGenerator {
         try {
             const llmProvider = await ProviderFactory.getLLMProvider();
 
-            const messages: LLMMessage[] = [
-                {
-                    role: 'system',
-                    content: options?.systemPrompt || this.systemPrompt
-                },
-                {
-                    role: 'user',
-                    content: this.buildUserPrompt(context, query)
-                }
-            ];
+            const maxTokens = options?.maxTokens ?? 800;
+            const messages = this.buildMessages(
+                llmProvider,
+                options?.systemPrompt || this.systemPrompt,
+                options?.userPrompt || this.buildUserPrompt(context, query, await this.loadPromptParties(query)),
+                maxTokens,
+                options?.conversationHistory
+            );
 
             // Generate streaming completion
             for await (const chunk of llmProvider.generateStreamingCompletion(messages, {
                 temperature: options?.temperature ?? 0.7,
-                maxTokens: options?.maxTokens ?? 800,
+                maxTokens,
+                signal: options?.signal,
+                onModel: options?.onModel,
             })) {
                 yield chunk;
             }
@@ -157,6 +177,61 @@ export class ResponseGenerator {
         }
     }
 
+    /**
+     * Build the LLM messages: system prompt, recent dialogue window, then the user prompt
+     * Previous turns are added newest-first until the model's context window budget
+     * (minus the prompts and the completion tokens) is used up
+     * @param llmProvider - Provider whose context window bounds the messages
+     * @param systemPrompt - System prompt
+     * @param userPrompt - User prompt with the RAG context
+     * @param maxTokens - Tokens reserved for the completion
+     * @param conversationHistory - Previous conversation messages (oldest first)
+     * @returns Messages for the completion request
+     */
+    private buildMessages(
+        llmProvider: ILLMProvider,
+        systemPrompt: string,
+        userPrompt: string,
+        maxTokens: number,
+        conversationHistory?: ConversationMessage[]
+    ): LLMMessage[] {
+        const systemMessage: LLMMessage = { role: 'system', content: systemPrompt };
+        const userMessage: LLMMessage = { role: 'user', content: userPrompt };
+
+        const history = getRecentHistory(conversationHistory);
+        if (history.length === 0) {
+            return [systemMessage, userMessage];
+        }
+
+        const available = llmProvider.getContextWindow()
+            - maxTokens
+            - countTokens(systemPrompt)
+            - countTokens(userPrompt)
+            - CONTEXT_WINDOW_SAFETY_MARGIN;
+        let budget = Math.min(available, MAX_HISTORY_TOKENS);
+
+        const dialogue: LLMMessage[] = [];
+        for (let i = history.length - 1; i >= 0; i--) {
+            const tokens = countTokens(history[i].content);
+            if (tokens > budget) {
+                break;
+            }
+            dialogue.unshift({ role: history[i].role, content: history[i].content });
+            budget -= tokens;
+        }
+
+        // The dialogue must not start with an assistant turn
+        while (dialogue.length > 0 && dialogue[0].role === 'assistant') {
+            dialogue.shift();
+        }
+
+        if (dialogue.length < history.length) {
+            this.logger.info(`Dialogue window trimmed to ${dialogue.length}/${history.length} messages to fit the context window`);
+        }
+
+        return [systemMessage, ...dialogue, userMessage];
+    }
+
     /**
      * Build a simple user prompt for single-party comparison
      * This avoids mentioning other parties in the prompt
@@ -186,18 +261,37 @@ INSTRUCCIONES:
 - Usa negritas (**texto**) para destacar propuestas clave
 - Usa viñetas (-) para listar propuestas específicas
 - Sé exhaustivo pero organizado
+- Cita cada propuesta con el número de su fuente entre corchetes al final de la línea, por ejemplo: [1] o [1, 3] (el número de [Source N] en el contexto)
 - Responde en español
 
 IMPORTANTE: Solo presenta información de ${partyName}. No menciones otros partidos.`;
     }
 
+    /**
+     * Get the parties named in the query and the featured parties from the registry
+     * Without the registry (e.g. offline) the prompt mentions no parties by name
+     */
+    private async loadPromptParties(query: string): Promise<PromptParties> {
+        try {
+            const [mentioned, featured] = await Promise.all([
+                this.partyRegistry.detect(query),
+                this.partyRegistry.featured(),
+            ]);
+            return { mentioned, featured };
+        } catch (error) {
+            this.logger.warn(`Party registry unavailable: ${error instanceof Error ? error.message : String(error)}`);
+            return { mentioned: [], featured: [] };
+        }
+    }
+
     /**
      * Build user prompt combining context and query
      * @param context - Context from retrieved chunks
      * @param query - User query
+     * @param parties - Parties named in the query and featured parties
      * @returns Formatted user prompt
      */
-    private buildUserPrompt(context: string, query: string): string {
+    private buildUserPrompt(context: string, query: string, parties: PromptParties): string {
         // Validate context is not empty
         if (!context || context.trim().length === 0) {
             this.logger.warn('WARNING: Context is empty!');
@@ -205,9 +299,15 @@ IMPORTANTE: Solo presenta información de ${partyName}. No menciones otros parti
         }
 
         // Detect if query mentions specific parties
-        const partyMentions = this.detectPartyMentions(query);
+        const partyMentions = parties.mentioned.map(party => party.abbreviation || party.name);
         const hasSpecificParties = partyMentions.length > 0;
 
+        // Featured parties, in priority order
+        const featuredList = parties.featured.length > 0
+            ? `: ${parties.featured.map(party => party.abbreviation ? `${party.name} (${party.abbreviation})` : party.name).join(', ')}`
+            : '';
+        const featuredOrder = parties.featured.map(party => party.abbreviation || party.name).join(', ');
+
         // Build party organization instructions
         let partyOrgInstructions: string;
         if (hasSpecificParties) {
@@ -215,13 +315,12 @@ IMPORTANTE: Solo presenta información de ${partyName}. No menciones otros parti
    - Agrupa por partido con títulos ## Partido Nombre (Abreviatura)
    - Incluye TODOS los partidos mencionados en la pregunta`;
         } else {
-            // When no specific party is mentioned, show TOP 5 parties from context
-            const topPartiesList = this.TOP_PARTIES.map(p => `${p.name} (${p.abbrev})`).join(', ');
+            // When no specific party is mentioned, show the featured parties from context
             partyOrgInstructions = `- ⚠️ IMPORTANTE: La pregunta NO menciona partidos específicos
-   - El contexto contiene información de los TOP 5 partidos prioritarios: ${topPartiesList}
+   - El contexto contiene información de los partidos prioritarios${featuredList}
    - Presenta información de TODOS los partidos que aparezcan en el contexto
-   - Agrupa cada partido con títulos ## Partido Nombre (Abreviatura)
-   - Mantén el orden de prioridad cuando sea posible: PLN, CAC, PS, FA, PUSC
+   - Agrupa cada partido con títulos ## Partido Nombre (Abreviatura)${featuredOrder ? `
+   - Mantén el orden de prioridad cuando sea posible: ${featuredOrder}` : ''}
    - Si algún partido NO aparece en el contexto, simplemente omítelo`;
         }
 
@@ -231,9 +330,8 @@ IMPORTANTE: Solo presenta información de ${partyName}. No menciones otros parti
             contentInstructions = '- Si hay múltiples partidos mencionados, compara sus propuestas';
         } else {
             // Instructions for multi-party response
-            const topPartiesList = this.TOP_PARTIES.map(p => `${p.name} (${p.abbrev})`).join(', ');
             contentInstructions = `- ⚠️ CRÍTICO: La pregunta NO menciona partidos específicos
-   - El contexto incluye información de los TOP 5 partidos: ${topPartiesList}
+   - El contexto incluye información de los partidos prioritarios${featuredList}
    - Revisa el contexto y extrae información de TODOS los partidos que aparezcan
    - Muestra las propuestas de cada partido en secciones separadas
    - NO te limites a un solo partido - presenta TODOS los partidos del contexto
@@ -290,41 +388,13 @@ INSTRUCCIONES DE FORMATO (SIGUE ESTE FORMATO EXACTO):
    - Usa **texto** para negritas (NO uses ****)
    - Usa - para viñetas (NO uses * o números a menos que sea necesario)
 
-IMPORTANTE: El contexto contiene información de múltiples partidos políticos. Extrae y presenta las propuestas de TODOS los partidos que aparezcan en el contexto. Responde SIEMPRE en español.`;
-    }
-
-    /**
-     * Detect if query mentions specific political parties
-     * @param query - User query
-     * @returns Array of detected party abbreviations
-     */
-    private detectPartyMentions(query: string): string[] {
-        const partyPatterns: Record<string, string[]> = {
-            'PLN': ['pln', 'partido liberación nacional', 'liberación nacional'],
-            'PUSC': ['pusc', 'partido unidad social cristiana', 'unidad social cristiana'],
-            'PAC': ['pac', 'partido acción ciudadana', 'acción ciudadana'],
-            'FA': ['fa', 'frente amplio', 'frenteamplio'],
-            'PS': ['ps', 'pueblo soberano', 'pueblosoberano', 'ppso'],
-            'CAC': ['cac', 'coalición agenda ciudadana', 'agenda ciudadana'],
-            'PSD': ['psd', 'partido progreso social democrático', 'progreso social'],
-            'PNR': ['pnr', 'partido nueva república', 'nueva república'],
-            'PLP': ['plp', 'partido liberal progresista', 'liberal progresista'],
-            'PEN': ['pen', 'partido esperanza nacional', 'esperanza nacional'],
-            'CDS': ['cds', 'centro democrático y social'],
-            'CR1': ['cr1', 'costa rica primero'],
-            'UP': ['up', 'unidos podemos'],
-        };
-
-        const detected: string[] = [];
-        const queryLower = query.toLowerCase();
-
-        for (const [abbrev, patterns] of Object.entries(partyPatterns)) {
-            if (patterns.some(pattern => queryLower.includes(pattern))) {
-                detected.push(abbrev);
-            }
-        }
+8. **Citas:**
+   - Cada fragmento del contexto está etiquetado como [Source N]
+   - Termina cada propuesta o afirmación con el número de su fuente entre corchetes: [1]
+   - Si una afirmación viene de varias fuentes, sepáralas con comas: [1, 3]
+   - No cites fuentes que no respaldan la afirmación ni uses números que no existen en el contexto
 
-        return detected;
+IMPORTANTE: El contexto contiene información de múltiples partidos políticos. Extrae y presenta las propuestas de TODOS los partidos que aparezcan en el contexto. Responde SIEMPRE en español.`;
     }
 
     /**
@@ -382,13 +452,13 @@ EJEMPLO DE FORMATO CORRECTO:
 ### Frente Amplio (FA)
 
 **Regulación de universidades privadas:**
-- Otorgar mayores potestades al Consejo Nacional de Enseñanza Superior Universitaria Privada
-- Regular calidad de carreras, condiciones laborales y tarifas
-- Presentar proyectos de ley para garantizar tarifas justas
+- Otorgar mayores potestades al Consejo Nacional de Enseñanza Superior Universitaria Privada [1]
+- Regular calidad de carreras, condiciones laborales y tarifas [1]
+- Presentar proyectos de ley para garantizar tarifas justas [2]
 
 **Financiamiento:**
-- Alcanzar gradualmente el 8% del PIB para educación
-- Garantizar financiamiento creciente mediante negociación justa del FEES
+- Alcanzar gradualmente el 8% del PIB para educación [3]
+- Garantizar financiamiento creciente mediante negociación justa del FEES [2, 3]
 
 ---
 
@@ -398,6 +468,7 @@ REGLAS IMPORTANTES:
 - Usa negritas (**texto**) para conceptos clave dentro de las listas
 - Mantén párrafos cortos y usa listas en lugar de texto largo
 - NUNCA menciones partidos que no aparecen en el contexto proporcionado
+- Termina cada propuesta o afirmación con el número de su fuente entre corchetes, por ejemplo [1] o [1, 3]
 ---
 
 Tu rol es:
@@ -412,12 +483,18 @@ RECUERDA: Si se proporciona contexto, contiene la respuesta. Extráela y presén
 
     /**
      * Calculate confidence score for the generated response
-     * Based on context relevance and response characteristics
-     * @param response - LLM response
+     * Uses the claim support of the faithfulness verification when available,
+     * otherwise a heuristic based on context relevance and response characteristics
+     * @param answer - Generated answer
      * @param context - Context used
+     * @param verification - Result of AnswerVerifier.verify (optional)
      * @returns Confidence score (0-1)
      */
-    private calculateConfidence(response: LLMResponse, context: string): number {
+    calculateConfidence(answer: string, context: string, verification?: AnswerVerification): number {
+        if (verification && verification.claims.length > 0) {
+            return Math.max(0, Math.min(1, verification.supportScore));
+        }
+
         let confidence = 0.5; // Base confidence
 
         // Increase confidence if context is substantial
@@ -428,7 +505,7 @@ RECUERDA: Si se proporciona contexto, contiene la respuesta. Extráela y presén
         }
 
         // Increase confidence if response is detailed
-        if (response.content.length > 200) {
+        if (answer.length > 200) {
             confidence += 0.1;
         }
 
@@ -443,7 +520,7 @@ RECUERDA: Si se proporciona contexto, contiene la respuesta. Extráela y presén
         ];
 
         for (const phrase of uncertaintyPhrases) {
-            if (response.content.toLowerCase().includes(phrase)) {
+            if (answer.toLowerCase().includes(phrase)) {
                 confidence -= 0.3;
                 break;
             }
@@ -453,6 +530,15 @@ RECUERDA: Si se proporciona contexto, contiene la respuesta. Extráela y presén
         return Math.max(0, Math.min(1, confidence));
     }
 
+    /**
+     * Get the model name of the configured LLM provider
+     * Streaming completions only yield text, so callers use this for metadata
+     */
+    async getModelName(): Promise<string> {
+        const llmProvider = await ProviderFactory.getLLMProvider();
+        return llmProvider.getModelName();
+    }
+
     /**
      * Set custom system prompt
      * @param prompt - Custom system prompt
@@ -0,0 +1,161 @@
+/**
+ * Concreteness criteria of the rubric
+ */
+export type SpecificityCriterion = 'measurable_targets' | 'timeline' | 'institutions' | 'funding';
+
+export type SpecificityLevel = 'concreta' | 'parcial' | 'vaga';
+
+/**
+ * Sentence of a source chunk supporting a criterion
+ */
+export interface SpecificityEvidence {
+    quote: string;
+    pageNumber?: number;
+    chunkId?: string;
+}
+
+export interface CriterionScore {
+    criterion: SpecificityCriterion;
+    label: string;
+    score: number;             // 0 (absent), 1 (mentioned once), 2 (mentioned repeatedly)
+    maxScore: number;
+    evidence: SpecificityEvidence[];
+}
+
+export interface SpecificityScore {
+    score: number;             // Overall score 0.0 to 1.0
+    level: SpecificityLevel;
+    criteria: CriterionScore[];
+    missing: string[];         // Labels of the criteria without evidence
+}
+
+/**
+ * Text a position was built from (comparison sources, matrix cells)
+ */
+export interface SpecificitySource {
+    content: string;
+    pageNumber?: number;
+    pageRange?: { start: number; end: number };
+    chunkId?: string;
+}
+
+const MAX_SCORE = 2;
+const MAX_EVIDENCE = 2;
+const MAX_QUOTE_LENGTH = 240;
+
+// Costa Rican public institutions usually named as responsible for a proposal
+const INSTITUTION_ACRONYMS = [
+    'CCSS', 'MEP', 'ICE', 'AyA', 'INVU', 'MOPT', 'MINAE', 'MIDEPLAN', 'INA', 'IMAS',
+    'CNFL', 'RECOPE', 'INDER', 'MAG', 'OIJ', 'CONAVI', 'BANHVI', 'SINAC', 'PANI', 'INAMU',
+    'CNE', 'ARESEP', 'SUGEF', 'MICITT', 'MIVAH', 'COMEX', 'PROCOMER', 'INCOP', 'JAPDEVA',
+    'BCCR', 'INEC', 'CONAPE', 'FODESAF', 'DGME', 'MTSS', 'MEIC', 'MIDEPOR', 'ICT', 'INCOFER',
+];
+
+/**
+ * Rubric of the criteria; a sentence matching any pattern is evidence
+ */
+const RUBRIC: Array<{ criterion: SpecificityCriterion; label: string; patterns: RegExp[] }> = [
+    {
+        criterion: 'measurable_targets',
+        label: 'Metas medibles',
+        patterns: [
+            // Percentages and amounts (e.g. "reducir en un 20%", "₡50 000 millones")
+            /\d+([.,]\d+)?\s*(%|por ciento)/i,
+            /(₡|\$|US\$)\s?\d/,
+            /\b\d[\d.,\s]*\s(millones|mil|nuevas?|nuevos|becas|empleos|viviendas|plazas|kil[oó]metros|km|hect[aá]reas|escuelas|colegios|hospitales|ebais|cen-cinai|acueductos|personas|familias|estudiantes|docentes|polic[ií]as|oficiales)\b/i,
+            /\b(duplicar|triplicar|reducir a la mitad)\b/i,
+        ],
+    },
+    {
+        criterion: 'timeline',
+        label: 'Plazos',
+        patterns: [
+            /\b(antes de|para( el| finales de)?|al)\s+(año\s+)?20[2-4]\d\b/i,
+            /\b(en|durante|dentro de) (los |las )?(primeros? |primeras? )?\d+ (años|meses|días|semanas)\b/i,
+            /\b(primer|segundo|tercer|cuarto) año de (gobierno|gesti[oó]n|administraci[oó]n)\b/i,
+            /\b(primeros? (cien|100) d[ií]as|al final del (gobierno|cuatrienio|periodo|período)|en el cuatrienio)\b/i,
+        ],
+    },
+    {
+        criterion: 'institutions',
+        label: 'Instituciones responsables',
+        patterns: [
+            new RegExp(`\\b(${INSTITUTION_ACRONYMS.join('|')})\\b`),
+            /\b(Ministerio|Instituto|Consejo|Comisi[oó]n|Direcci[oó]n|Superintendencia|Banco|Caja|Contralor[ií]a|Defensor[ií]a|Procuradur[ií]a) (de|del|Nacional|Costarricense)\b/,
+            /\b(Asamblea Legislativa|Poder Judicial|Fuerza P[uú]blica|Guardacostas|municipalidades|gobiernos locales)\b/i,
+        ],
+    },
+    {
+        criterion: 'funding',
+        label: 'Mecanismo de financiamiento',
+        patterns: [
+            /\b(financiar[aá]?|financiad[oa]s?|financiamiento|se financia)\b/i,
+            /\b(impuestos?|canon|tributo|tarifa|contribuci[oó]n especial)\b/i,
+            /\b(pr[eé]stamos?|cr[eé]dito externo|bonos|emisi[oó]n de deuda|canje de deuda|fideicomisos?|alianzas? p[uú]blico[- ]privadas?|APP|cooperaci[oó]n internacional)\b/,
+            /\b(reasignaci[oó]n|recursos (provenientes|del presupuesto)|partida presupuestaria|ahorro generado)\b/i,
+        ],
+    },
+];
+
+/**
+ * SpecificityScorer - Rates how concrete a party's position on a topic is
+ * Rubric criteria: measurable targets, timelines, named institutions and
+ * funding mechanism. Each criterion is scored from the sentences of the
+ * source chunks and quotes them as evidence, so a "vaga" rating can be
+ * explained to voters.
+ */
+export class SpecificityScorer {
+    /**
+     * Score the sources a position was built from
+     * @param sources - Source chunks (content and pages)
+     * @returns Overall score, level and per-criterion breakdown
+     */
+    score(sources: SpecificitySource[]): SpecificityScore {
+        const sentences = sources.flatMap(source =>
+            splitSentences(source.content).map(sentence => ({
+                sentence,
+                pageNumber: source.pageRange?.start ?? source.pageNumber,
+                chunkId: source.chunkId,
+            }))
+        );
+
+        const criteria: CriterionScore[] = RUBRIC.map(({ criterion, label, patterns }) => {
+            const matches = sentences.filter(({ sentence }) => patterns.some(pattern => pattern.test(sentence)));
+
+            return {
+                criterion,
+                label,
+                score: Math.min(MAX_SCORE, matches.length),
+                maxScore: MAX_SCORE,
+                evidence: matches.slice(0, MAX_EVIDENCE).map(({ sentence, pageNumber, chunkId }) => ({
+                    quote: truncateQuote(sentence),
+                    ...(pageNumber !== undefined ? { pageNumber } : {}),
+                    ...(chunkId ? { chunkId } : {}),
+                })),
+            };
+        });
+
+        const score = criteria.reduce((sum, criterion) => sum + criterion.score, 0) /
+            (criteria.length * MAX_SCORE);
+
+        return {
+            score: Math.round(score * 100) / 100,
+            level: score >= 0.6 ? 'concreta' : score >= 0.3 ? 'parcial' : 'vaga',
+            criteria,
+            missing: criteria.filter(criterion => criterion.score === 0).map(criterion => criterion.label),
+        };
+    }
+}
+
+function splitSentences(text: string): string[] {
+    return text
+        .split(/(?<=[.;!?])\s+|\n+/)
+        .map(sentence => sentence.replace(/\s+/g, ' ').trim())
+        .filter(sentence => sentence.length >= 20);
+}
+
+function truncateQuote(sentence: string): string {
+    return sentence.length > MAX_QUOTE_LENGTH
+        ? `${sentence.substring(0, MAX_QUOTE_LENGTH - 1).trimEnd()}…`
+        : sentence;
+}
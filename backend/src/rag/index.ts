@@ -20,4 +20,9 @@ export type {
   export { SemanticSearcher } from './components/SemanticSearcher.js';
   export { ContextBuilder } from './components/ContextBuilder.js';
   export { ResponseGenerator } from './components/ResponseGenerator.js';
+  export { ConversationCondenser } from './components/ConversationCondenser.js';
+  export { CitationParser } from './components/CitationParser.js';
+  export type { Citation, AnswerClaim, CitationResult } from './components/CitationParser.js';
+  export { AnswerVerifier } from './components/AnswerVerifier.js';
+  export type { AnswerVerification, VerifiedClaim, VerificationMode } from './components/AnswerVerifier.js';
   export { RAGPipeline } from './components/RAGPipeline.js';
\ No newline at end of file
@@ -21,7 +21,7 @@ export interface QueryRequest {
   export interface ConversationMessage {
     role: 'user' | 'assistant';
     content: string;
-    timestamp: Date;
+    timestamp?: Date;
   }
   
   export interface SearchResult {
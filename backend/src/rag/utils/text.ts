@@ -0,0 +1,38 @@
+/**
+ * Text utilities shared by the components matching Spanish text
+ */
+
+/**
+ * Lowercase, strip accents and collapse whitespace, so "Educación  Pública"
+ * and "educacion publica" compare equal
+ * @param value - Text to normalize
+ * @returns Normalized text
+ */
+export function normalizeText(value: string): string {
+    return value.toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * normalizeText keeping only letters and digits, so wording compares equal
+ * regardless of punctuation ("Red de Cuido, infantil." and "red de cuido infantil")
+ * @param value - Text to normalize
+ * @returns Normalized words separated by single spaces
+ */
+export function normalizeWords(value: string): string {
+    return normalizeText(value).replace(/[^a-z0-9]+/g, ' ').trim();
+}
+
+/**
+ * Pattern matching a normalized name as whole words, with any whitespace between them
+ * @param normalizedName - Name normalized with normalizeText
+ */
+export function wordPattern(normalizedName: string): RegExp {
+    return new RegExp(`\\b${escapeRegExp(normalizedName).replace(/ /g, '\\s+')}\\b`);
+}
+
+/**
+ * Escape the characters with a meaning in regular expressions
+ */
+export function escapeRegExp(value: string): string {
+    return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
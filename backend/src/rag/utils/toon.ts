@@ -25,9 +25,11 @@ const logger = new Logger('TOON');
  * ```
  * 
  * @param text - TOON formatted text
+ * @param textFields - Keys whose values are free text, kept whole instead of split on commas
+ *                     (e.g. "7,5%" or "₡1,500")
  * @returns Parsed object or null if parsing fails
  */
-export function parseTOON(text: string): Record<string, any> | null {
+export function parseTOON(text: string, textFields: string[] = []): Record<string, any> | null {
     try {
         // Remove markdown code blocks if present
         let cleaned = text.trim();
@@ -50,7 +52,7 @@ export function parseTOON(text: string): Record<string, any> | null {
             const value = line.substring(colonIndex + 1).trim();
 
             // Handle array values (comma-separated)
-            if (value.includes(',')) {
+            if (value.includes(',') && !textFields.includes(key)) {
                 result[key] = value.split(',').map(v => v.trim()).filter(v => v.length > 0);
             } else {
                 result[key] = value;
@@ -64,6 +66,18 @@ export function parseTOON(text: string): Record<string, any> | null {
     }
 }
 
+/**
+ * Read a parsed TOON value as text
+ * @param value - Parsed value (a string, or an array for comma-separated values)
+ * @returns Trimmed text, '' for missing values; arrays are joined back with ', '
+ */
+export function asText(value: unknown): string {
+    if (Array.isArray(value)) {
+        return value.join(', ').trim();
+    }
+    return typeof value === 'string' ? value.trim() : '';
+}
+
 /**
  * Encode object to TOON format
  * 
@@ -0,0 +1,57 @@
+-- Migration: Create conversations and messages tables
+-- Date: 2025-12-22
+-- Description: Persist chat conversations server-side (per user, or per anonymous session until claimed)
+
+-- =============================================================================
+-- CONVERSATIONS TABLE
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS conversations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES users(id) ON DELETE CASCADE, -- NULL while anonymous
+  anonymous_session_id TEXT, -- Client-generated session id for anonymous chats
+  title TEXT NOT NULL,
+  last_message_at TIMESTAMPTZ DEFAULT NOW(),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+
+  -- Every conversation belongs to a user or to an anonymous session
+  CONSTRAINT conversations_owner_check CHECK (user_id IS NOT NULL OR anonymous_session_id IS NOT NULL)
+);
+
+-- Indexes for listing by owner
+CREATE INDEX IF NOT EXISTS idx_conversations_user_id ON conversations(user_id, last_message_at DESC);
+CREATE INDEX IF NOT EXISTS idx_conversations_anonymous_session_id ON conversations(anonymous_session_id) WHERE anonymous_session_id IS NOT NULL;
+
+-- Trigger for updated_at
+DROP TRIGGER IF EXISTS update_conversations_updated_at ON conversations;
+CREATE TRIGGER update_conversations_updated_at
+  BEFORE UPDATE ON conversations
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- =============================================================================
+-- MESSAGES TABLE
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS messages (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  conversation_id UUID NOT NULL REFERENCES conversations(id) ON DELETE CASCADE,
+  role TEXT NOT NULL CHECK (role IN ('user', 'assistant')),
+  content TEXT NOT NULL,
+  sources JSONB DEFAULT '[]'::jsonb, -- Sources used for assistant answers
+  metadata JSONB DEFAULT '{}'::jsonb, -- Model, tokens used, processing time, cached
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_messages_conversation_id ON messages(conversation_id, created_at);
+
+-- =============================================================================
+-- COMMENTS
+-- =============================================================================
+
+COMMENT ON TABLE conversations IS 'Chat conversations owned by a user or an anonymous session';
+COMMENT ON TABLE messages IS 'Question and answer turns of a conversation';
+
+COMMENT ON COLUMN conversations.anonymous_session_id IS 'Session id of an anonymous chat; cleared when the user claims the conversation after signing up';
+COMMENT ON COLUMN messages.metadata IS 'Model metadata for assistant answers (model, tokensUsed, processingTime, cached)';
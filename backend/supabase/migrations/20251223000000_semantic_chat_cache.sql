@@ -0,0 +1,108 @@
+-- Migration: Semantic chat cache
+-- Date: 2025-12-23
+-- Description: Second cache tier that reuses the answer of the most similar cached
+-- question (query embeddings), plus tunable settings and hit/false-hit tracking
+
+-- =============================================================================
+-- CHAT CACHE: QUERY EMBEDDINGS
+-- =============================================================================
+
+-- Dimensionless vector: the embedding model can change (see embedding_model),
+-- rows are only compared with embeddings of the same model
+ALTER TABLE chat_cache
+  ADD COLUMN IF NOT EXISTS question_embedding extensions.vector,
+  ADD COLUMN IF NOT EXISTS embedding_model TEXT,
+  ADD COLUMN IF NOT EXISTS params_hash TEXT; -- Hash of party + params without the question
+
+CREATE INDEX IF NOT EXISTS idx_chat_cache_params_hash
+  ON chat_cache(params_hash, embedding_model)
+  WHERE question_embedding IS NOT NULL;
+
+-- Nearest cached question with the same party filter and parameters
+CREATE OR REPLACE FUNCTION match_chat_cache(
+  query_embedding extensions.vector,
+  query_embedding_model text,
+  query_params_hash text,
+  match_threshold float DEFAULT 0.92,
+  match_count int DEFAULT 1
+)
+RETURNS TABLE (
+  id uuid,
+  question text,
+  answer text,
+  sources jsonb,
+  metadata jsonb,
+  similarity float
+)
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    c.id,
+    c.question,
+    c.answer,
+    c.sources,
+    c.metadata,
+    (1 - (c.question_embedding <=> query_embedding))::float AS similarity
+  FROM chat_cache c
+  WHERE c.question_embedding IS NOT NULL
+    AND c.embedding_model = query_embedding_model
+    AND c.params_hash = query_params_hash
+    AND (c.expires_at IS NULL OR c.expires_at > NOW())
+    AND 1 - (c.question_embedding <=> query_embedding) >= match_threshold
+  ORDER BY c.question_embedding <=> query_embedding
+  LIMIT match_count;
+END;
+$$;
+
+-- =============================================================================
+-- CHAT CACHE EVENTS
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS chat_cache_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  event_type TEXT NOT NULL CHECK (event_type IN ('exact_hit', 'semantic_hit', 'miss')),
+  question TEXT NOT NULL, -- Question as asked
+  party TEXT,
+  cache_id UUID REFERENCES chat_cache(id) ON DELETE SET NULL, -- Entry that was reused
+  cached_question TEXT, -- Question of the reused entry (semantic hits)
+  similarity FLOAT, -- Similarity of the reused entry (semantic hits)
+  threshold FLOAT, -- Threshold in effect at lookup time
+  false_hit BOOLEAN NOT NULL DEFAULT FALSE, -- Marked by an admin: the reused answer did not fit
+  reviewed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_chat_cache_events_created_at ON chat_cache_events(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_chat_cache_events_semantic
+  ON chat_cache_events(created_at DESC)
+  WHERE event_type = 'semantic_hit';
+
+-- =============================================================================
+-- APP SETTINGS
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS app_settings (
+  key TEXT PRIMARY KEY,
+  value JSONB NOT NULL,
+  updated_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+DROP TRIGGER IF EXISTS update_app_settings_updated_at ON app_settings;
+CREATE TRIGGER update_app_settings_updated_at
+  BEFORE UPDATE ON app_settings
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- =============================================================================
+-- COMMENTS
+-- =============================================================================
+
+COMMENT ON COLUMN chat_cache.question_embedding IS 'Embedding of the question, used for semantic cache lookups';
+COMMENT ON COLUMN chat_cache.embedding_model IS 'Model that produced question_embedding';
+COMMENT ON COLUMN chat_cache.params_hash IS 'SHA256 hash of party + params (without the question); semantic hits require the same hash';
+COMMENT ON TABLE chat_cache_events IS 'Chat cache lookups (exact hits, semantic hits, misses) for hit and false-hit rates';
+COMMENT ON TABLE app_settings IS 'Runtime settings editable by admins (e.g. semantic_cache)';
@@ -0,0 +1,105 @@
+-- Migration: Corpus-versioned cache invalidation
+-- Date: 2025-12-24
+-- Description: Tag cached chat answers and comparisons with the documents (and
+-- document content versions) they were built from, so re-ingesting a document
+-- only invalidates the entries that depended on it
+
+-- =============================================================================
+-- DOCUMENT CONTENT VERSION
+-- =============================================================================
+
+ALTER TABLE documents
+  ADD COLUMN IF NOT EXISTS content_version TEXT; -- SHA256 of the chunk contents, set on ingestion
+
+-- =============================================================================
+-- CACHE TAGS
+-- =============================================================================
+
+ALTER TABLE chat_cache
+  ADD COLUMN IF NOT EXISTS document_ids TEXT[], -- documents.document_id of the sources
+  ADD COLUMN IF NOT EXISTS document_versions JSONB; -- { document_id: content_version } at caching time
+
+ALTER TABLE comparisons_cache
+  ADD COLUMN IF NOT EXISTS document_ids TEXT[],
+  ADD COLUMN IF NOT EXISTS document_versions JSONB;
+
+CREATE INDEX IF NOT EXISTS idx_chat_cache_document_ids ON chat_cache USING gin(document_ids);
+CREATE INDEX IF NOT EXISTS idx_comparisons_cache_document_ids ON comparisons_cache USING gin(document_ids);
+
+-- =============================================================================
+-- INVALIDATION
+-- =============================================================================
+
+-- Delete the cache entries built from another version of a document
+-- Entries tagged with the current version are kept (re-ingesting unchanged content)
+CREATE OR REPLACE FUNCTION invalidate_document_cache(p_document_id text)
+RETURNS TABLE (
+  chat_entries integer,
+  comparison_entries integer
+)
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  current_version text;
+  deleted_chat integer;
+  deleted_comparisons integer;
+BEGIN
+  SELECT d.content_version INTO current_version
+  FROM documents d
+  WHERE d.document_id = p_document_id;
+
+  DELETE FROM chat_cache c
+  WHERE c.document_ids @> ARRAY[p_document_id]
+    AND (c.document_versions ->> p_document_id) IS DISTINCT FROM current_version;
+  GET DIAGNOSTICS deleted_chat = ROW_COUNT;
+
+  DELETE FROM comparisons_cache c
+  WHERE c.document_ids @> ARRAY[p_document_id]
+    AND (c.document_versions ->> p_document_id) IS DISTINCT FROM current_version;
+  GET DIAGNOSTICS deleted_comparisons = ROW_COUNT;
+
+  RETURN QUERY SELECT deleted_chat, deleted_comparisons;
+END;
+$$;
+
+-- Cached entries and stale entries (built from another version) per document
+CREATE OR REPLACE FUNCTION cache_staleness_report()
+RETURNS TABLE (
+  document_id text,
+  title text,
+  content_version text,
+  chat_entries bigint,
+  stale_chat_entries bigint,
+  comparison_entries bigint,
+  stale_comparison_entries bigint
+)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT
+    d.document_id,
+    d.title,
+    d.content_version,
+    (SELECT COUNT(*) FROM chat_cache c
+      WHERE c.document_ids @> ARRAY[d.document_id]),
+    (SELECT COUNT(*) FROM chat_cache c
+      WHERE c.document_ids @> ARRAY[d.document_id]
+        AND (c.document_versions ->> d.document_id) IS DISTINCT FROM d.content_version),
+    (SELECT COUNT(*) FROM comparisons_cache c
+      WHERE c.document_ids @> ARRAY[d.document_id]),
+    (SELECT COUNT(*) FROM comparisons_cache c
+      WHERE c.document_ids @> ARRAY[d.document_id]
+        AND (c.document_versions ->> d.document_id) IS DISTINCT FROM d.content_version)
+  FROM documents d
+  ORDER BY d.document_id;
+$$;
+
+-- =============================================================================
+-- COMMENTS
+-- =============================================================================
+
+COMMENT ON COLUMN documents.content_version IS 'SHA256 of the chunk contents of the last ingestion';
+COMMENT ON COLUMN chat_cache.document_ids IS 'Documents (documents.document_id) the cached answer was built from. NULL for entries cached before versioning';
+COMMENT ON COLUMN chat_cache.document_versions IS 'Content version of each source document when the answer was cached';
+COMMENT ON COLUMN comparisons_cache.document_ids IS 'Documents (documents.document_id) the cached comparison was built from. NULL for entries cached before versioning';
+COMMENT ON COLUMN comparisons_cache.document_versions IS 'Content version of each source document when the comparison was cached';
@@ -0,0 +1,71 @@
+-- Migration: Topic x party proposal matrix
+-- Date: 2025-12-25
+-- Description: Managed topic taxonomy and a stored grid of every party against
+-- every topic (short summary, proposal state and supporting chunks per cell).
+-- Cells record the content version of the party document they were built from,
+-- so re-ingesting a document only rebuilds that party's row
+
+-- =============================================================================
+-- MATRIX TOPICS
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS matrix_topics (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  slug TEXT NOT NULL UNIQUE,
+  name TEXT NOT NULL,
+  query TEXT NOT NULL, -- Question used to retrieve the party proposals on the topic
+  description TEXT,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  active BOOLEAN NOT NULL DEFAULT TRUE, -- Inactive topics are kept but not built nor listed
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_matrix_topics_sort_order ON matrix_topics(sort_order);
+
+DROP TRIGGER IF EXISTS update_matrix_topics_updated_at ON matrix_topics;
+CREATE TRIGGER update_matrix_topics_updated_at
+  BEFORE UPDATE ON matrix_topics
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Initial taxonomy (the topics of scripts/precompute-comparisons.ts)
+INSERT INTO matrix_topics (slug, name, query, sort_order) VALUES
+  ('educacion', 'Educación', '¿Cuáles son las propuestas sobre educación?', 1),
+  ('salud', 'Salud', '¿Cuáles son las propuestas sobre salud y la CCSS?', 2),
+  ('empleo', 'Empleo', '¿Cuáles son las propuestas sobre empleo?', 3),
+  ('seguridad', 'Seguridad', '¿Cuáles son las propuestas sobre seguridad ciudadana?', 4),
+  ('ambiente', 'Ambiente', '¿Cuáles son las propuestas sobre ambiente?', 5),
+  ('economia', 'Economía', '¿Cuáles son las propuestas sobre economía?', 6),
+  ('infraestructura', 'Infraestructura', '¿Cuáles son las propuestas sobre infraestructura?', 7),
+  ('corrupcion', 'Corrupción', '¿Cuáles son las propuestas sobre corrupción y transparencia?', 8)
+ON CONFLICT (slug) DO NOTHING;
+
+-- =============================================================================
+-- PROPOSAL MATRIX
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS proposal_matrix (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  party_id UUID NOT NULL REFERENCES parties(id) ON DELETE CASCADE,
+  topic_id UUID NOT NULL REFERENCES matrix_topics(id) ON DELETE CASCADE,
+  summary TEXT NOT NULL,
+  state TEXT NOT NULL CHECK (state IN ('completa', 'parcial', 'poco_clara', 'sin_informacion')),
+  confidence FLOAT NOT NULL DEFAULT 0,
+  chunk_ids TEXT[] NOT NULL DEFAULT '{}', -- Supporting chunks (chunks.id)
+  document_id TEXT, -- documents.document_id of the party plan
+  content_version TEXT, -- documents.content_version the cell was built from
+  built_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(party_id, topic_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_proposal_matrix_topic_id ON proposal_matrix(topic_id);
+CREATE INDEX IF NOT EXISTS idx_proposal_matrix_document_id ON proposal_matrix(document_id);
+
+-- =============================================================================
+-- COMMENTS
+-- =============================================================================
+
+COMMENT ON TABLE matrix_topics IS 'Managed topic taxonomy of the proposal matrix';
+COMMENT ON TABLE proposal_matrix IS 'Party x topic grid: summary, proposal state and supporting chunks per cell';
+COMMENT ON COLUMN proposal_matrix.content_version IS 'Content version of the party document when the cell was built; cells of another version are rebuilt';
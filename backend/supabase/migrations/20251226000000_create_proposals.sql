@@ -0,0 +1,50 @@
+-- Migration: Structured proposals
+-- Date: 2025-12-26
+-- Description: Proposals extracted from the government plans at ingestion time
+-- (title, topic, description, target population, quantitative targets, funding
+-- and pages), linked to the chunks they were extracted from
+
+-- =============================================================================
+-- PROPOSALS TABLE
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS proposals (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  document_id UUID NOT NULL REFERENCES documents(id) ON DELETE CASCADE,
+  party_id TEXT NOT NULL, -- Same as documents.party_id (party UUID or abbreviation)
+  title TEXT NOT NULL,
+  topic TEXT NOT NULL, -- matrix_topics.slug, or 'otro'
+  description TEXT NOT NULL,
+  target_population TEXT,
+  quantitative_targets TEXT[] NOT NULL DEFAULT '{}',
+  funding_source TEXT,
+  page_start INTEGER,
+  page_end INTEGER,
+  position INTEGER NOT NULL DEFAULT 0, -- Order of the proposal in the plan
+  content_version TEXT, -- documents.content_version the proposal was extracted from
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_proposals_document_id ON proposals(document_id);
+CREATE INDEX IF NOT EXISTS idx_proposals_party_topic ON proposals(party_id, topic);
+CREATE INDEX IF NOT EXISTS idx_proposals_topic ON proposals(topic);
+
+-- =============================================================================
+-- PROPOSAL CHUNKS
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS proposal_chunks (
+  proposal_id UUID NOT NULL REFERENCES proposals(id) ON DELETE CASCADE,
+  chunk_id UUID NOT NULL REFERENCES chunks(id) ON DELETE CASCADE,
+  PRIMARY KEY (proposal_id, chunk_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_proposal_chunks_chunk_id ON proposal_chunks(chunk_id);
+
+-- =============================================================================
+-- COMMENTS
+-- =============================================================================
+
+COMMENT ON TABLE proposals IS 'Structured proposals extracted from the government plans; replaced on every extraction of the document';
+COMMENT ON COLUMN proposals.quantitative_targets IS 'Figures, deadlines and percentages committed to (e.g. "10 000 becas nuevas")';
+COMMENT ON TABLE proposal_chunks IS 'Chunks each proposal was extracted from';
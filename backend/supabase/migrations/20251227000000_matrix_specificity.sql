@@ -0,0 +1,14 @@
+-- Migration: Proposal matrix specificity
+-- Date: 2025-12-27
+-- Description: Rubric breakdown of how concrete each matrix cell is (measurable
+-- targets, timelines, named institutions and funding mechanism), with the
+-- quoted evidence of every criterion
+
+-- =============================================================================
+-- PROPOSAL MATRIX
+-- =============================================================================
+
+ALTER TABLE proposal_matrix
+  ADD COLUMN IF NOT EXISTS specificity JSONB;
+
+COMMENT ON COLUMN proposal_matrix.specificity IS 'SpecificityScorer result: overall score, level (concreta/parcial/vaga), per-criterion scores with evidence and missing criteria. NULL for cells built before scoring existed';
@@ -0,0 +1,52 @@
+-- Migration: Plan consistency findings
+-- Date: 2025-12-28
+-- Description: Contradicting statements found inside a party's government plan,
+-- or between the plan and its candidates' proposals, with the chunks and pages
+-- of both sides and their admin review status
+
+-- =============================================================================
+-- CONSISTENCY FINDINGS TABLE
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS consistency_findings (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  party_id UUID NOT NULL REFERENCES parties(id) ON DELETE CASCADE,
+  topic TEXT NOT NULL, -- matrix_topics.slug the chunks were clustered by
+  kind TEXT NOT NULL CHECK (kind IN ('plan', 'candidate')),
+
+  -- Side A: always a plan chunk
+  statement_a TEXT NOT NULL,
+  chunk_a_id UUID NOT NULL REFERENCES chunks(id) ON DELETE CASCADE,
+  page_a_start INTEGER,
+  page_a_end INTEGER,
+
+  -- Side B: another plan chunk (kind = 'plan') or a candidate proposal (kind = 'candidate')
+  statement_b TEXT NOT NULL,
+  chunk_b_id UUID REFERENCES chunks(id) ON DELETE CASCADE,
+  page_b_start INTEGER,
+  page_b_end INTEGER,
+  candidate_id UUID REFERENCES candidates(id) ON DELETE CASCADE,
+
+  explanation TEXT NOT NULL,
+  severity TEXT NOT NULL DEFAULT 'media' CHECK (severity IN ('alta', 'media', 'baja')),
+
+  -- Admin review
+  review_status TEXT NOT NULL DEFAULT 'pending' CHECK (review_status IN ('pending', 'confirmed', 'dismissed')),
+  review_notes TEXT,
+  reviewed_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  reviewed_at TIMESTAMPTZ,
+
+  analyzed_at TIMESTAMPTZ DEFAULT NOW(),
+
+  CHECK (chunk_b_id IS NOT NULL OR candidate_id IS NOT NULL)
+);
+
+CREATE INDEX IF NOT EXISTS idx_consistency_findings_party ON consistency_findings(party_id, review_status);
+CREATE INDEX IF NOT EXISTS idx_consistency_findings_topic ON consistency_findings(topic);
+
+-- =============================================================================
+-- COMMENTS
+-- =============================================================================
+
+COMMENT ON TABLE consistency_findings IS 'Contradictions found by the consistency analysis; pending findings are replaced on every analysis of the party, reviewed ones are kept';
+COMMENT ON COLUMN consistency_findings.review_status IS 'pending: not reviewed yet, confirmed: checked by an admin, dismissed: false positive (hidden from the party page)';
@@ -0,0 +1,13 @@
+-- Migration: Candidate nicknames
+-- Date: 2025-12-29
+-- Description: Alternative names voters use for a candidate (e.g. a nickname or
+-- a shortened name), used to resolve mentions of candidates in chat questions
+
+-- =============================================================================
+-- CANDIDATES
+-- =============================================================================
+
+ALTER TABLE candidates
+  ADD COLUMN IF NOT EXISTS nicknames TEXT[] NOT NULL DEFAULT '{}';
+
+COMMENT ON COLUMN candidates.nicknames IS 'Alternative names of the candidate matched in questions, besides the full name and slug';
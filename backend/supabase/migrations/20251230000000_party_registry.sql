@@ -0,0 +1,86 @@
+-- Migration: Party registry
+-- Date: 2025-12-30
+-- Description: Party knowledge that used to be hard-coded across the backend and
+-- frontend (aliases, detection patterns, TSE document ids and plan URLs, and the
+-- featured parties searched when a question names none), editable by admins
+
+-- =============================================================================
+-- PARTIES
+-- =============================================================================
+
+ALTER TABLE parties
+  ADD COLUMN IF NOT EXISTS aliases TEXT[] NOT NULL DEFAULT '{}',
+  ADD COLUMN IF NOT EXISTS detection_patterns TEXT[] NOT NULL DEFAULT '{}',
+  ADD COLUMN IF NOT EXISTS document_party_id TEXT,
+  ADD COLUMN IF NOT EXISTS tse_plan_url TEXT,
+  ADD COLUMN IF NOT EXISTS featured_rank INTEGER;
+
+CREATE INDEX IF NOT EXISTS idx_parties_featured_rank ON parties(featured_rank) WHERE featured_rank IS NOT NULL;
+
+COMMENT ON COLUMN parties.aliases IS 'Other names voters use for the party, matched in questions besides the name, slug and abbreviation';
+COMMENT ON COLUMN parties.detection_patterns IS 'Case-insensitive regular expressions that also identify the party in questions';
+COMMENT ON COLUMN parties.document_party_id IS 'Party id of the TSE plan documents when it differs from the abbreviation (e.g. PPSO for PS)';
+COMMENT ON COLUMN parties.tse_plan_url IS 'Official URL of the government plan PDF published by the TSE';
+COMMENT ON COLUMN parties.featured_rank IS 'Position among the featured parties searched when a question names no party (NULL = not featured)';
+
+-- =============================================================================
+-- SEED FROM THE FORMER HARD-CODED TABLES
+-- =============================================================================
+
+UPDATE parties
+SET document_party_id = CASE abbreviation
+  WHEN 'PS' THEN 'PPSO'
+  WHEN 'AVAN' THEN 'PA'
+  WHEN 'PAC' THEN 'PA'
+  WHEN 'CRM' THEN 'ACRM'
+  WHEN 'CT' THEN 'PDLCT'
+  WHEN 'EN' THEN 'PEN'
+  WHEN 'EL' THEN 'PEL'
+  WHEN 'IN' THEN 'PIN'
+  WHEN 'JSC' THEN 'PJSC'
+  WHEN 'LP' THEN 'PLP'
+  WHEN 'NG' THEN 'PNG'
+  WHEN 'NR' THEN 'PNR'
+  WHEN 'UCD' THEN 'PUCD'
+  ELSE abbreviation
+END
+WHERE document_party_id IS NULL AND abbreviation IS NOT NULL;
+
+UPDATE parties
+SET tse_plan_url = 'https://www.tse.go.cr/2026/docus/planesgobierno/' || document_party_id || '.pdf'
+WHERE tse_plan_url IS NULL
+  AND document_party_id IN (
+    'PLN', 'PA', 'PUSC', 'FA', 'PPSO', 'PIN', 'PLP', 'PNR', 'PSD', 'UP', 'PUCD',
+    'PNG', 'CDS', 'CAC', 'PDLCT', 'PEN', 'PEL', 'PJSC', 'ACRM', 'CR1'
+  );
+
+UPDATE parties SET featured_rank = 1 WHERE slug = 'liberacion-nacional' AND featured_rank IS NULL;
+UPDATE parties SET featured_rank = 2 WHERE slug = 'coalicion-agenda-ciudadana' AND featured_rank IS NULL;
+UPDATE parties SET featured_rank = 3 WHERE slug = 'pueblo-soberano' AND featured_rank IS NULL;
+UPDATE parties SET featured_rank = 4 WHERE slug = 'frente-amplio' AND featured_rank IS NULL;
+UPDATE parties SET featured_rank = 5 WHERE slug = 'unidad-social-cristiana' AND featured_rank IS NULL;
+
+UPDATE parties SET aliases = ARRAY['Liberación Nacional', 'Partido Liberación']
+WHERE slug = 'liberacion-nacional' AND aliases = '{}';
+UPDATE parties SET aliases = ARRAY['Agenda Ciudadana', 'Coalición Agenda']
+WHERE slug = 'coalicion-agenda-ciudadana' AND aliases = '{}';
+UPDATE parties SET aliases = ARRAY['PS', 'PPSO', 'Pueblo Soberano', 'Pueblosoberano']
+WHERE slug = 'pueblo-soberano' AND aliases = '{}';
+UPDATE parties SET aliases = ARRAY['Frente Amplio', 'Frenteamplio']
+WHERE slug = 'frente-amplio' AND aliases = '{}';
+UPDATE parties SET aliases = ARRAY['Unidad Social Cristiana', 'Unidad Social'], detection_patterns = ARRAY['social\s*cristian[oa]']
+WHERE slug = 'unidad-social-cristiana' AND aliases = '{}';
+UPDATE parties SET aliases = ARRAY['Progreso Social', 'Progreso Social Democrático']
+WHERE abbreviation = 'PSD' AND aliases = '{}';
+UPDATE parties SET aliases = ARRAY['Nueva República']
+WHERE abbreviation IN ('PNR', 'NR') AND aliases = '{}';
+UPDATE parties SET aliases = ARRAY['Liberal Progresista']
+WHERE abbreviation IN ('PLP', 'LP') AND aliases = '{}';
+UPDATE parties SET aliases = ARRAY['Esperanza Nacional']
+WHERE abbreviation IN ('PEN', 'EN') AND aliases = '{}';
+UPDATE parties SET aliases = ARRAY['Centro Democrático y Social']
+WHERE abbreviation = 'CDS' AND aliases = '{}';
+UPDATE parties SET aliases = ARRAY['Costa Rica Primero']
+WHERE abbreviation = 'CR1' AND aliases = '{}';
+UPDATE parties SET aliases = ARRAY['Unidos Podemos']
+WHERE abbreviation = 'UP' AND aliases = '{}';
@@ -0,0 +1,84 @@
+-- Migration: Ingestion jobs
+-- Date: 2025-12-31
+-- Description: Persistent queue of ingestion jobs processed by the backend worker
+-- outside the HTTP request, with per-stage progress, cancellation and retries.
+-- Running jobs send heartbeats; a job whose heartbeat stops (crashed worker) is
+-- claimed again after a restart
+
+-- =============================================================================
+-- INGESTION JOBS TABLE
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS ingestion_jobs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  status TEXT NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'running', 'completed', 'failed', 'cancelled')),
+  documents JSONB NOT NULL, -- [{ url, documentId }]
+  options JSONB NOT NULL DEFAULT '{}', -- IngestOptions of the pipeline
+  progress JSONB, -- { documentIndex, documentId, stage, stats, embedded, totalChunks }
+  results JSONB NOT NULL DEFAULT '[]', -- Result of every processed document, without chunks
+  error TEXT,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  cancel_requested BOOLEAN NOT NULL DEFAULT FALSE,
+  created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  started_at TIMESTAMPTZ,
+  finished_at TIMESTAMPTZ,
+  heartbeat_at TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_ingestion_jobs_status ON ingestion_jobs(status, created_at);
+CREATE INDEX IF NOT EXISTS idx_ingestion_jobs_created_at ON ingestion_jobs(created_at DESC);
+
+-- =============================================================================
+-- CLAIMING
+-- =============================================================================
+
+-- Claim the oldest queued job, or a running job whose heartbeat is older than
+-- p_stale_after_seconds. Stale jobs that already used p_max_attempts are failed
+-- instead of being claimed again.
+CREATE OR REPLACE FUNCTION claim_ingestion_job(
+  p_stale_after_seconds integer DEFAULT 300,
+  p_max_attempts integer DEFAULT 3
+)
+RETURNS SETOF ingestion_jobs
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  UPDATE ingestion_jobs
+  SET status = 'failed',
+      error = 'Worker stopped responding after ' || attempts || ' attempts',
+      finished_at = NOW(),
+      updated_at = NOW()
+  WHERE status = 'running'
+    AND heartbeat_at < NOW() - make_interval(secs => p_stale_after_seconds)
+    AND attempts >= p_max_attempts;
+
+  RETURN QUERY
+  UPDATE ingestion_jobs j
+  SET status = 'running',
+      attempts = j.attempts + 1,
+      started_at = COALESCE(j.started_at, NOW()),
+      heartbeat_at = NOW(),
+      updated_at = NOW()
+  WHERE j.id = (
+    SELECT c.id
+    FROM ingestion_jobs c
+    WHERE c.status = 'queued'
+       OR (c.status = 'running' AND c.heartbeat_at < NOW() - make_interval(secs => p_stale_after_seconds))
+    ORDER BY c.created_at
+    LIMIT 1
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING j.*;
+END;
+$$;
+
+-- =============================================================================
+-- COMMENTS
+-- =============================================================================
+
+COMMENT ON TABLE ingestion_jobs IS 'Ingestion jobs submitted through /api/ingest and processed by the backend worker';
+COMMENT ON COLUMN ingestion_jobs.status IS 'queued: waiting for the worker, running: being processed (or claimed by a worker that crashed), completed: every document ingested, failed: some document failed, cancelled: stopped by an admin';
+COMMENT ON COLUMN ingestion_jobs.results IS 'Documents already processed; a reclaimed or retried job skips the ones that succeeded';
+COMMENT ON COLUMN ingestion_jobs.cancel_requested IS 'Set to stop a running job; the worker checks it on every heartbeat';
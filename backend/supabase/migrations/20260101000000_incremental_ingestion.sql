@@ -0,0 +1,23 @@
+-- Migration: Incremental re-ingestion
+-- Date: 2026-01-01
+-- Description: Fingerprints of the source PDF of every document and of the
+-- content of every chunk, so re-ingesting a plan skips an unchanged PDF and
+-- only re-embeds the chunks whose text changed
+
+-- =============================================================================
+-- FINGERPRINTS
+-- =============================================================================
+
+ALTER TABLE documents
+  ADD COLUMN IF NOT EXISTS source_hash TEXT;
+
+ALTER TABLE chunks
+  ADD COLUMN IF NOT EXISTS content_hash TEXT;
+
+COMMENT ON COLUMN documents.source_hash IS 'SHA256 of the source PDF the chunks were parsed from';
+COMMENT ON COLUMN chunks.content_hash IS 'SHA256 of the cleaned chunk content, reuses the embedding when the content reappears';
+
+-- Chunks stored before fingerprinting (the pipeline hashes the cleaned content)
+UPDATE chunks
+SET content_hash = encode(sha256(convert_to(COALESCE(clean_content, content), 'UTF8')), 'hex')
+WHERE content_hash IS NULL;
@@ -0,0 +1,45 @@
+-- Migration: Plan version history
+-- Date: 2026-01-02
+-- Description: Every ingestion of a changed plan records a new version of the
+-- document with its own chunks, the text diff against the previous version
+-- grouped by section and page, and the proposals extracted from it. The chunks
+-- table keeps serving search with the latest version only
+
+-- =============================================================================
+-- DOCUMENT VERSIONS TABLE
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS document_versions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  document_id UUID NOT NULL REFERENCES documents(id) ON DELETE CASCADE,
+  version INTEGER NOT NULL,
+  source_hash TEXT, -- SHA256 of the source PDF
+  content_version TEXT NOT NULL, -- Hash of the chunk contents
+  page_count INTEGER,
+  chunk_count INTEGER NOT NULL,
+  diff JSONB, -- { summary, sections: [{ section, pages, changes }] } against the previous version, NULL for the first one
+  proposals JSONB, -- [{ title, topic, pageStart, pageEnd }], NULL when proposals were not extracted
+  proposal_count INTEGER,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (document_id, version)
+);
+
+CREATE INDEX IF NOT EXISTS idx_document_versions_document ON document_versions(document_id, version DESC);
+
+-- =============================================================================
+-- VERSION CHUNKS TABLE
+-- =============================================================================
+
+-- Text of every version, without embeddings
+CREATE TABLE IF NOT EXISTS document_version_chunks (
+  version_id UUID NOT NULL REFERENCES document_versions(id) ON DELETE CASCADE,
+  chunk_index INTEGER NOT NULL,
+  content TEXT NOT NULL,
+  page_start INTEGER,
+  page_end INTEGER,
+  section TEXT, -- Heading in effect where the chunk starts
+  PRIMARY KEY (version_id, chunk_index)
+);
+
+COMMENT ON TABLE document_versions IS 'Ingested versions of every plan with the changes against the previous one';
+COMMENT ON TABLE document_version_chunks IS 'Chunk text of every plan version, used to diff the next version';
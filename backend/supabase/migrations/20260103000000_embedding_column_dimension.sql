@@ -0,0 +1,18 @@
+-- Migration: Embedding column dimension
+-- Date: 2026-01-03
+-- Description: Report the dimension declared by the embedding column of a
+-- chunks table, so an embedding provider of another dimension is rejected
+-- before ingesting into an empty index (every insert would fail)
+
+-- NULL when the column is declared without a dimension (plain "vector")
+CREATE OR REPLACE FUNCTION embedding_column_dimension(p_table text DEFAULT 'chunks')
+RETURNS integer
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT NULLIF(a.atttypmod, -1)
+  FROM pg_attribute a
+  WHERE a.attrelid = p_table::regclass
+    AND a.attname = 'embedding'
+    AND NOT a.attisdropped;
+$$;
@@ -0,0 +1,49 @@
+-- Migration: Exclude false semantic cache hits
+-- Date: 2026-01-04
+-- Description: An entry whose reused answer an admin marked as a false hit is no
+-- longer matched semantically (it is still served for its own question).
+-- params_hash now also covers the parties and candidates named in the question
+
+ALTER TABLE chat_cache
+  ADD COLUMN IF NOT EXISTS semantic_excluded BOOLEAN NOT NULL DEFAULT FALSE;
+
+CREATE OR REPLACE FUNCTION match_chat_cache(
+  query_embedding extensions.vector,
+  query_embedding_model text,
+  query_params_hash text,
+  match_threshold float DEFAULT 0.92,
+  match_count int DEFAULT 1
+)
+RETURNS TABLE (
+  id uuid,
+  question text,
+  answer text,
+  sources jsonb,
+  metadata jsonb,
+  similarity float
+)
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    c.id,
+    c.question,
+    c.answer,
+    c.sources,
+    c.metadata,
+    (1 - (c.question_embedding <=> query_embedding))::float AS similarity
+  FROM chat_cache c
+  WHERE c.question_embedding IS NOT NULL
+    AND NOT c.semantic_excluded
+    AND c.embedding_model = query_embedding_model
+    AND c.params_hash = query_params_hash
+    AND (c.expires_at IS NULL OR c.expires_at > NOW())
+    AND 1 - (c.question_embedding <=> query_embedding) >= match_threshold
+  ORDER BY c.question_embedding <=> query_embedding
+  LIMIT match_count;
+END;
+$$;
+
+COMMENT ON COLUMN chat_cache.semantic_excluded IS 'Marked as a false semantic hit; only served for its own question';
+COMMENT ON COLUMN chat_cache.params_hash IS 'SHA256 hash of party + params + parties and candidates named in the question (without the question); semantic hits require the same hash';
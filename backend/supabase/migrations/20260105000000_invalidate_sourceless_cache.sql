@@ -0,0 +1,41 @@
+-- Migration: Invalidate cached answers built without sources
+-- Date: 2026-01-05
+-- Description: Cache entries built without sources (or comparisons where a party
+-- had none) are tagged with an empty document_ids array. Their answer may change
+-- once the missing documents are ingested, so the ingestion of any document
+-- deletes them
+
+CREATE OR REPLACE FUNCTION invalidate_document_cache(p_document_id text)
+RETURNS TABLE (
+  chat_entries integer,
+  comparison_entries integer
+)
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  current_version text;
+  deleted_chat integer;
+  deleted_comparisons integer;
+BEGIN
+  SELECT d.content_version INTO current_version
+  FROM documents d
+  WHERE d.document_id = p_document_id;
+
+  DELETE FROM chat_cache c
+  WHERE (c.document_ids @> ARRAY[p_document_id]
+      AND (c.document_versions ->> p_document_id) IS DISTINCT FROM current_version)
+    OR c.document_ids = '{}';
+  GET DIAGNOSTICS deleted_chat = ROW_COUNT;
+
+  DELETE FROM comparisons_cache c
+  WHERE (c.document_ids @> ARRAY[p_document_id]
+      AND (c.document_versions ->> p_document_id) IS DISTINCT FROM current_version)
+    OR c.document_ids = '{}';
+  GET DIAGNOSTICS deleted_comparisons = ROW_COUNT;
+
+  RETURN QUERY SELECT deleted_chat, deleted_comparisons;
+END;
+$$;
+
+COMMENT ON COLUMN chat_cache.document_ids IS 'Documents (documents.document_id) the cached answer was built from. Empty when built without sources, NULL for entries cached before versioning';
+COMMENT ON COLUMN comparisons_cache.document_ids IS 'Documents (documents.document_id) the cached comparison was built from. Empty when a party had no sources, NULL for entries cached before versioning';
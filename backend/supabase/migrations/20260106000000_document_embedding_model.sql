@@ -0,0 +1,11 @@
+-- Migration: Embedding model of the stored documents
+-- Date: 2026-01-06
+-- Description: Model the chunks of every document were embedded with, so a
+-- re-ingestion with another model embeds every chunk again instead of reusing
+-- the stored embeddings (and never skips the document as unchanged)
+
+ALTER TABLE documents
+  ADD COLUMN IF NOT EXISTS embedding_model TEXT;
+
+COMMENT ON COLUMN documents.embedding_model IS 'Embedding model of the stored chunks, NULL for documents ingested before it was recorded (re-embedded on the next ingestion)';
+COMMENT ON COLUMN documents.source_hash IS 'SHA256 of the source PDF the chunks were parsed from, set once all chunks are stored';
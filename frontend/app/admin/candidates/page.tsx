@@ -0,0 +1,374 @@
+"use client"
+
+import { useState } from "react"
+import { Loader2, Pencil, Plus, Trash2, X } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import {
+  useParties,
+  useCandidates,
+  useCreateCandidate,
+  useUpdateCandidate,
+  useDeleteCandidate,
+} from "@/lib/hooks"
+import type { Candidate, CandidateInput, CandidateUpdateInput } from "@/lib/api/services"
+
+const ALL_PARTIES = "all"
+
+type CandidateForm = {
+  partyId: string
+  name: string
+  slug: string
+  position: string
+  nicknames: string
+  photoUrl: string
+  birthDate: string
+  birthPlace: string
+  biography: string
+  education: string
+  proposals: string
+}
+
+const EMPTY_FORM: CandidateForm = {
+  partyId: "",
+  name: "",
+  slug: "",
+  position: "Presidente",
+  nicknames: "",
+  photoUrl: "",
+  birthDate: "",
+  birthPlace: "",
+  biography: "",
+  education: "",
+  proposals: "",
+}
+
+function toForm(candidate: Candidate): CandidateForm {
+  return {
+    partyId: candidate.party_id,
+    name: candidate.name,
+    slug: candidate.slug,
+    position: candidate.position,
+    nicknames: (candidate.nicknames || []).join(", "),
+    photoUrl: candidate.photo_url || "",
+    birthDate: candidate.birth_date || "",
+    birthPlace: candidate.birth_place || "",
+    biography: candidate.biography || "",
+    education: (candidate.education || []).join("\n"),
+    proposals: (candidate.proposals || []).map((proposal) => `${proposal.topic}: ${proposal.description}`).join("\n"),
+  }
+}
+
+function lines(value: string): string[] {
+  return value.split("\n").map((line) => line.trim()).filter(Boolean)
+}
+
+/**
+ * Candidate fields for the API; empty optional fields are left out and
+ * proposals are read from "tema: descripción" lines
+ */
+function toInput(form: CandidateForm): CandidateInput {
+  const nicknames = form.nicknames.split(",").map((item) => item.trim()).filter(Boolean)
+  const education = lines(form.education)
+  const proposals = lines(form.proposals)
+    .map((line) => {
+      const separator = line.indexOf(":")
+      return separator > 0
+        ? { topic: line.slice(0, separator).trim(), description: line.slice(separator + 1).trim() }
+        : { topic: "General", description: line }
+    })
+    .filter((proposal) => proposal.description)
+
+  return {
+    party_id: form.partyId,
+    name: form.name.trim(),
+    slug: form.slug.trim(),
+    position: form.position.trim(),
+    ...(nicknames.length > 0 && { nicknames }),
+    ...(form.photoUrl.trim() && { photo_url: form.photoUrl.trim() }),
+    ...(form.birthDate && { birth_date: form.birthDate }),
+    ...(form.birthPlace.trim() && { birth_place: form.birthPlace.trim() }),
+    ...(form.biography.trim() && { biography: form.biography.trim() }),
+    ...(education.length > 0 && { education }),
+    ...(proposals.length > 0 && { proposals }),
+  }
+}
+
+// Fields emptied while editing are sent as null (nicknames as an empty list) so the update clears them
+function toUpdate(form: CandidateForm): CandidateUpdateInput {
+  const input = toInput(form)
+
+  return {
+    ...input,
+    nicknames: input.nicknames ?? [],
+    photo_url: input.photo_url ?? null,
+    birth_date: input.birth_date ?? null,
+    birth_place: input.birth_place ?? null,
+    biography: input.biography ?? null,
+    education: input.education ?? null,
+    proposals: input.proposals ?? null,
+  }
+}
+
+function toSlug(name: string): string {
+  return name
+    .toLowerCase()
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+}
+
+export default function AdminCandidatesPage() {
+  const [partyFilter, setPartyFilter] = useState(ALL_PARTIES)
+  const { data: partiesData } = useParties({ limit: 100 })
+  const { data, isLoading } = useCandidates({
+    limit: 100,
+    ...(partyFilter !== ALL_PARTIES && { party_id: partyFilter }),
+  })
+  const createCandidate = useCreateCandidate()
+  const updateCandidate = useUpdateCandidate()
+  const deleteCandidate = useDeleteCandidate()
+
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [showForm, setShowForm] = useState(false)
+  const [form, setForm] = useState<CandidateForm>(EMPTY_FORM)
+
+  const parties = partiesData?.parties || []
+  const partyNames = new Map(parties.map((party) => [party.id, party.abbreviation || party.name]))
+  const candidates = data?.candidates || []
+  const isSaving = createCandidate.isPending || updateCandidate.isPending
+
+  const setField = (field: keyof CandidateForm, value: string) => {
+    setForm((current) => ({
+      ...current,
+      [field]: value,
+      // Suggest the slug from the name while creating
+      ...(field === "name" && !editingId && { slug: toSlug(value) }),
+    }))
+  }
+
+  const openCreate = () => {
+    setEditingId(null)
+    setForm({ ...EMPTY_FORM, partyId: partyFilter !== ALL_PARTIES ? partyFilter : "" })
+    setShowForm(true)
+  }
+
+  const openEdit = (candidate: Candidate) => {
+    setEditingId(candidate.id)
+    setForm(toForm(candidate))
+    setShowForm(true)
+  }
+
+  const closeForm = () => {
+    setShowForm(false)
+    setEditingId(null)
+  }
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault()
+    if (editingId) {
+      updateCandidate.mutate({ id: editingId, data: toUpdate(form) }, { onSuccess: closeForm })
+    } else {
+      createCandidate.mutate(toInput(form), { onSuccess: closeForm })
+    }
+  }
+
+  const handleDelete = (candidate: Candidate) => {
+    if (window.confirm(`¿Eliminar a ${candidate.name}?`)) {
+      deleteCandidate.mutate(candidate.id)
+    }
+  }
+
+  return (
+    <div className="p-8">
+      <div className="mb-8 flex items-start justify-between gap-4">
+        <div>
+          <h1 className="mb-2 text-3xl font-bold">Candidatos</h1>
+          <p className="text-muted-foreground">Crear, editar y eliminar candidatos de cada partido</p>
+        </div>
+        <Button onClick={openCreate}>
+          <Plus className="mr-2 size-4" />
+          Nuevo candidato
+        </Button>
+      </div>
+
+      {showForm && (
+        <Card className="mb-8">
+          <CardHeader className="flex flex-row items-start justify-between">
+            <div>
+              <CardTitle>{editingId ? "Editar candidato" : "Nuevo candidato"}</CardTitle>
+              <CardDescription>La foto debe ser una URL HTTPS de una imagen (PNG, JPEG, WebP, SVG o GIF)</CardDescription>
+            </div>
+            <Button variant="ghost" size="icon" onClick={closeForm} aria-label="Cerrar">
+              <X className="size-4" />
+            </Button>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleSubmit} className="grid gap-4 md:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="party">Partido</Label>
+                <Select value={form.partyId} onValueChange={(value) => setField("partyId", value)}>
+                  <SelectTrigger id="party">
+                    <SelectValue placeholder="Seleccionar partido" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {parties.map((party) => (
+                      <SelectItem key={party.id} value={party.id}>
+                        {party.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="position">Puesto</Label>
+                <Input id="position" value={form.position} onChange={(e) => setField("position", e.target.value)} required />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="name">Nombre</Label>
+                <Input id="name" value={form.name} onChange={(e) => setField("name", e.target.value)} required />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="slug">Slug</Label>
+                <Input id="slug" value={form.slug} onChange={(e) => setField("slug", e.target.value)} required />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="nicknames">Apodos (separados por comas)</Label>
+                <Input id="nicknames" value={form.nicknames} onChange={(e) => setField("nicknames", e.target.value)} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="photoUrl">URL de la foto</Label>
+                <Input id="photoUrl" type="url" value={form.photoUrl} onChange={(e) => setField("photoUrl", e.target.value)} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="birthDate">Fecha de nacimiento</Label>
+                <Input
+                  id="birthDate"
+                  type="date"
+                  value={form.birthDate}
+                  onChange={(e) => setField("birthDate", e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="birthPlace">Lugar de nacimiento</Label>
+                <Input id="birthPlace" value={form.birthPlace} onChange={(e) => setField("birthPlace", e.target.value)} />
+              </div>
+              <div className="space-y-2 md:col-span-2">
+                <Label htmlFor="biography">Biografía</Label>
+                <Textarea
+                  id="biography"
+                  rows={4}
+                  value={form.biography}
+                  onChange={(e) => setField("biography", e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="education">Formación (una por línea)</Label>
+                <Textarea
+                  id="education"
+                  rows={4}
+                  value={form.education}
+                  onChange={(e) => setField("education", e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="proposals">Propuestas (tema: descripción, una por línea)</Label>
+                <Textarea
+                  id="proposals"
+                  rows={4}
+                  value={form.proposals}
+                  onChange={(e) => setField("proposals", e.target.value)}
+                />
+              </div>
+              <div className="flex justify-end gap-2 md:col-span-2">
+                <Button type="button" variant="outline" onClick={closeForm}>
+                  Cancelar
+                </Button>
+                <Button type="submit" disabled={isSaving || !form.partyId}>
+                  {isSaving && <Loader2 className="mr-2 size-4 animate-spin" />}
+                  {editingId ? "Guardar cambios" : "Crear candidato"}
+                </Button>
+              </div>
+            </form>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between gap-4">
+          <div>
+            <CardTitle>Candidatos registrados</CardTitle>
+            <CardDescription>{candidates.length} candidatos</CardDescription>
+          </div>
+          <Select value={partyFilter} onValueChange={setPartyFilter}>
+            <SelectTrigger className="w-56">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL_PARTIES}>Todos los partidos</SelectItem>
+              {parties.map((party) => (
+                <SelectItem key={party.id} value={party.id}>
+                  {party.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="size-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Candidato</TableHead>
+                  <TableHead>Partido</TableHead>
+                  <TableHead>Puesto</TableHead>
+                  <TableHead>Slug</TableHead>
+                  <TableHead className="text-right">Acciones</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {candidates.map((candidate) => (
+                  <TableRow key={candidate.id}>
+                    <TableCell className="font-medium">{candidate.name}</TableCell>
+                    <TableCell>{partyNames.get(candidate.party_id) || "—"}</TableCell>
+                    <TableCell>{candidate.position}</TableCell>
+                    <TableCell className="text-muted-foreground">{candidate.slug}</TableCell>
+                    <TableCell className="text-right">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => openEdit(candidate)}
+                        aria-label={`Editar ${candidate.name}`}
+                      >
+                        <Pencil className="size-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => handleDelete(candidate)}
+                        disabled={deleteCandidate.isPending}
+                        aria-label={`Eliminar ${candidate.name}`}
+                      >
+                        <Trash2 className="size-4 text-destructive" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -1,6 +1,7 @@
 'use client';
 
-import { useState } from 'react';
+import { useState, useEffect, useRef, Suspense } from 'react';
+import { useSearchParams } from 'next/navigation';
 import { useQuery } from '@tanstack/react-query';
 import { api } from '@/lib/api/client';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
@@ -54,6 +55,12 @@ interface Chunk {
   whitespaceRatio: number;
 }
 
+interface ChunkLocation {
+  id: string;
+  document_id: string;
+  chunk_index: number;
+}
+
 interface ChunksResponse {
   chunks: Chunk[];
   pagination: {
@@ -64,6 +71,8 @@ interface ChunksResponse {
   };
 }
 
+const CHUNKS_PER_PAGE = 20;
+
 async function fetchDocuments(): Promise<Document[]> {
   const response = await api.get<{ success: boolean; data: Document[] }>('/api/text-viewer/documents');
   return response.data;
@@ -71,7 +80,14 @@ async function fetchDocuments(): Promise<Document[]> {
 
 async function fetchChunks(documentId: string, page: number): Promise<ChunksResponse> {
   const response = await api.get<{ success: boolean; data: ChunksResponse }>(
-    `/api/text-viewer/documents/${documentId}/chunks?page=${page}&limit=20`
+    `/api/text-viewer/documents/${documentId}/chunks?page=${page}&limit=${CHUNKS_PER_PAGE}`
+  );
+  return response.data;
+}
+
+async function fetchChunkLocation(chunkId: string): Promise<ChunkLocation> {
+  const response = await api.get<{ success: boolean; data: ChunkLocation }>(
+    `/api/text-viewer/chunks/${chunkId}`
   );
   return response.data;
 }
@@ -83,11 +99,31 @@ async function fetchFullText(documentId: string): Promise<{ fullText: string; ch
   return response.data;
 }
 
-export default function TextViewerPage() {
+function TextViewerContent() {
   const [selectedDocument, setSelectedDocument] = useState<string>('');
   const [currentPage, setCurrentPage] = useState(1);
   const [viewMode, setViewMode] = useState<'chunks' | 'full'>('chunks');
 
+  // Citations link here with ?chunk=<id> to open the viewer at the cited chunk
+  const searchParams = useSearchParams();
+  const highlightedChunkId = searchParams.get('chunk') || '';
+  const highlightedChunkRef = useRef<HTMLDivElement>(null);
+
+  const { data: chunkLocation } = useQuery({
+    queryKey: ['chunk-location', highlightedChunkId],
+    queryFn: () => fetchChunkLocation(highlightedChunkId),
+    enabled: !!highlightedChunkId,
+    retry: 1,
+  });
+
+  useEffect(() => {
+    if (chunkLocation) {
+      setSelectedDocument(chunkLocation.document_id);
+      setViewMode('chunks');
+      setCurrentPage(Math.floor(chunkLocation.chunk_index / CHUNKS_PER_PAGE) + 1);
+    }
+  }, [chunkLocation]);
+
   const { data: documents, isLoading: documentsLoading } = useQuery({
     queryKey: ['documents'],
     queryFn: fetchDocuments,
@@ -111,6 +147,10 @@ export default function TextViewerPage() {
 
   const selectedDoc = documents?.find(d => d.id === selectedDocument);
 
+  useEffect(() => {
+    highlightedChunkRef.current?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  }, [chunksData]);
+
   return (
     <div className="p-8">
       <div className="mb-8">
@@ -214,10 +254,13 @@ export default function TextViewerPage() {
                   {chunksData.chunks.map((chunk) => (
                     <div
                       key={chunk.id}
+                      ref={chunk.id === highlightedChunkId ? highlightedChunkRef : undefined}
                       className={`rounded-lg border p-4 ${
-                        chunk.hasEncodingIssues || chunk.hasExcessiveWhitespace
-                          ? 'border-amber-500/50 bg-amber-500/5'
-                          : 'border-border'
+                        chunk.id === highlightedChunkId
+                          ? 'border-primary ring-2 ring-primary/30'
+                          : chunk.hasEncodingIssues || chunk.hasExcessiveWhitespace
+                            ? 'border-amber-500/50 bg-amber-500/5'
+                            : 'border-border'
                       }`}
                     >
                       <div className="mb-2 flex items-start justify-between gap-4">
@@ -355,3 +398,11 @@ export default function TextViewerPage() {
     </div>
   );
 }
+
+export default function TextViewerPage() {
+  return (
+    <Suspense fallback={null}>
+      <TextViewerContent />
+    </Suspense>
+  );
+}
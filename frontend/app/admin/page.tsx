@@ -2,559 +2,658 @@
 
 import { useState } from "react"
 import {
-  Activity,
-  Cpu,
-  HardDrive,
   AlertTriangle,
+  Bot,
   CheckCircle2,
-  XCircle,
-  Upload,
-  RefreshCw,
-  Eye,
-  EyeOff,
-  Settings,
   Clock,
+  Database,
+  FileText,
+  Flame,
+  Layers,
+  RefreshCw,
+  RotateCcw,
+  Square,
+  Stethoscope,
+  Upload,
+  XCircle,
 } from "lucide-react"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
 import { Progress } from "@/components/ui/progress"
 import { Textarea } from "@/components/ui/textarea"
 import { Label } from "@/components/ui/label"
+import { Checkbox } from "@/components/ui/checkbox"
 import { DatabaseStatus } from "@/components/database-status"
+import {
+  useAdminProviders,
+  useAdminStats,
+  useCancelIngestionJob,
+  useProviderHealthCheck,
+  useRetryIngestionJob,
+  useStartIngestion,
+  useStartWarmup,
+  useWarmupStatus,
+} from "@/lib/hooks"
+import type {
+  ChunkDiffReport,
+  IngestionJob,
+  IngestionJobDocument,
+  IngestionJobStatus,
+  ProviderHealthCheck,
+} from "@/lib/api/services"
+
+const STAGE_LABELS: Record<string, string> = {
+  download: "Descargando",
+  parse: "Extrayendo texto",
+  clean: "Limpiando",
+  chunk: "Fragmentando",
+  extract: "Extrayendo propuestas",
+  embed: "Generando embeddings",
+  store: "Guardando",
+}
 
-type SystemStatus = "healthy" | "warning" | "critical"
-type IngestionStatus = "processing" | "completed" | "failed"
-type LogSeverity = "info" | "warning" | "error" | "critical"
-
-const MOCK_SYSTEM_HEALTH = {
-  apiStatus: "healthy" as SystemStatus,
-  cpuUsage: 45,
-  memoryUsage: 62,
-  storageUsage: 38,
-  uptime: "7d 14h 32m",
-  lastCheck: new Date(),
+/**
+ * Parse the batch textarea: one "documentId url" pair per line
+ */
+function parseBatch(text: string): IngestionJobDocument[] {
+  return text
+    .split("\n")
+    .map((line) => line.trim().split(/\s+/))
+    .filter((parts) => parts.length === 2 && parts[0] && parts[1])
+    .map(([documentId, url]) => ({ documentId, url }))
 }
 
-const MOCK_INGESTION_JOBS = [
-  {
-    id: "1",
-    document: "Plan de Gobierno 2024-2028 - PLN",
-    status: "completed" as IngestionStatus,
-    progress: 100,
-    startTime: "2025-01-15 14:23:10",
-    duration: "2m 45s",
-    pagesProcessed: 156,
-  },
-  {
-    id: "2",
-    document: "Propuesta Electoral 2024 - PAC",
-    status: "processing" as IngestionStatus,
-    progress: 67,
-    startTime: "2025-01-15 15:10:00",
-    duration: "1m 20s",
-    pagesProcessed: 59,
-  },
-  {
-    id: "3",
-    document: "Agenda Legislativa 2024 - Nueva República",
-    status: "failed" as IngestionStatus,
-    progress: 23,
-    startTime: "2025-01-15 14:50:30",
-    duration: "45s",
-    pagesProcessed: 18,
-  },
-]
-
-const MOCK_ERROR_LOGS = [
-  {
-    id: "1",
-    timestamp: "2025-01-15 15:12:45",
-    severity: "error" as LogSeverity,
-    message: "Failed to extract text from page 45 in document Nueva_Republica_2024.pdf",
-    component: "PDF Parser",
-  },
-  {
-    id: "2",
-    timestamp: "2025-01-15 14:58:20",
-    severity: "warning" as LogSeverity,
-    message: "Vector DB connection timeout - retrying (attempt 2/3)",
-    component: "Vector Store",
-  },
-  {
-    id: "3",
-    timestamp: "2025-01-15 14:45:10",
-    severity: "critical" as LogSeverity,
-    message: "LLM API rate limit exceeded - requests queued",
-    component: "AI Provider",
-  },
-  {
-    id: "4",
-    timestamp: "2025-01-15 14:30:05",
-    severity: "info" as LogSeverity,
-    message: "Successfully indexed 156 pages from PLN document",
-    component: "Ingestion Service",
-  },
-]
-
-const MOCK_USAGE_STATS = {
-  totalQueries: 1247,
-  queriesLastHour: 34,
-  totalTokensUsed: 2456789,
-  estimatedCost: 24.57,
-  avgResponseTime: "2.3s",
-  successRate: 98.5,
+/**
+ * One-line summary of what changed in a re-ingested document
+ */
+function formatDiff(diff: ChunkDiffReport) {
+  if (!diff.sourceChanged) return "PDF sin cambios"
+  if (diff.previousChunks === 0) return `${diff.currentChunks} fragmentos nuevos`
+  if (diff.added + diff.modified + diff.removed === 0) return "Sin cambios en el texto"
+
+  const pages = [...diff.pages.added, ...diff.pages.modified, ...diff.pages.removed]
+    .sort((a, b) => a.start - b.start)
+    .map((range) => (range.start === range.end ? `${range.start}` : `${range.start}-${range.end}`))
+  return (
+    `+${diff.added} ~${diff.modified} -${diff.removed} fragmentos` +
+    (pages.length > 0 ? ` (págs. ${pages.slice(0, 5).join(", ")}${pages.length > 5 ? "…" : ""})` : "")
+  )
+}
+
+function formatDate(value: string | null) {
+  return value ? new Date(value).toLocaleString("es-CR") : "—"
 }
 
-const MOCK_ALERTS = [
-  {
-    id: "1",
-    type: "critical" as LogSeverity,
-    message: "Vector database approaching storage limit (85% used)",
-    timestamp: "2025-01-15 15:00:00",
-  },
-  {
-    id: "2",
-    type: "warning" as LogSeverity,
-    message: "High API usage detected - approaching monthly quota",
-    timestamp: "2025-01-15 14:30:00",
-  },
-]
+function formatDuration(job: IngestionJob) {
+  if (!job.started_at) return "—"
+  const end = job.finished_at ? new Date(job.finished_at).getTime() : Date.now()
+  const seconds = Math.max(0, Math.round((end - new Date(job.started_at).getTime()) / 1000))
+  return seconds >= 60 ? `${Math.floor(seconds / 60)}m ${seconds % 60}s` : `${seconds}s`
+}
+
+/**
+ * Share of the job done: finished documents plus the stage of the current one
+ */
+function jobPercentage(job: IngestionJob) {
+  if (job.status === "completed") return 100
+  const stages = Object.keys(STAGE_LABELS)
+  const current = job.progress
+  const stageShare = current ? stages.indexOf(current.stage) / stages.length : 0
+  const done = current ? current.documentIndex + stageShare : job.results.length
+  return Math.min(100, Math.round((done / job.documents.length) * 100))
+}
 
 export default function AdminPage() {
+  const [documentId, setDocumentId] = useState("")
   const [pdfUrl, setPdfUrl] = useState("")
-  const [batchUrls, setBatchUrls] = useState("")
-  const [llmProvider, setLlmProvider] = useState("openai")
-  const [vectorProvider, setVectorProvider] = useState("pinecone")
-  const [showApiKeys, setShowApiKeys] = useState(false)
-  const [openaiKey, setOpenaiKey] = useState("sk-proj-xxx...xxx")
-  const [pineconeKey, setPineconeKey] = useState("pc-xxx...xxx")
-  const [isProcessing, setIsProcessing] = useState(false)
+  const [batchText, setBatchText] = useState("")
+  const [extractProposals, setExtractProposals] = useState(true)
+  const [force, setForce] = useState(false)
+  const [includeLLM, setIncludeLLM] = useState(true)
+
+  const { data: providersData, isLoading: providersLoading, error: providersError } = useAdminProviders()
+  const { data: stats, isLoading: statsLoading, error: statsError, refetch: refetchStats, isFetching: statsFetching } = useAdminStats()
+  const { data: warmupData } = useWarmupStatus()
+  const healthCheck = useProviderHealthCheck()
+  const startIngestion = useStartIngestion()
+  const cancelJob = useCancelIngestionJob()
+  const retryJob = useRetryIngestionJob()
+  const startWarmup = useStartWarmup()
+
+  const providers = providersData?.providers
+  const warmup = warmupData?.warmup
+  const batchDocuments = parseBatch(batchText)
+  const checks = new Map<string, ProviderHealthCheck>(
+    (healthCheck.data?.checks ?? []).map((check) => [check.provider, check])
+  )
+  const activeJobs = stats ? stats.ingestion.jobs.queued + stats.ingestion.jobs.running : 0
 
   const handleTriggerIngestion = () => {
-    setIsProcessing(true)
-    setTimeout(() => setIsProcessing(false), 2000)
+    startIngestion.mutate(
+      {
+        documents: [{ documentId: documentId.trim(), url: pdfUrl.trim() }],
+        options: { storeInVectorDB: true, extractProposals, force },
+      },
+      {
+        onSuccess: () => {
+          setDocumentId("")
+          setPdfUrl("")
+        },
+      }
+    )
   }
 
   const handleBatchIngestion = () => {
-    setIsProcessing(true)
-    setTimeout(() => setIsProcessing(false), 3000)
+    startIngestion.mutate(
+      { documents: batchDocuments, options: { storeInVectorDB: true, extractProposals, force } },
+      { onSuccess: () => setBatchText("") }
+    )
   }
 
-  const getStatusIcon = (status: SystemStatus) => {
-    switch (status) {
-      case "healthy":
-        return <CheckCircle2 className="size-5 text-teal-500" />
-      case "warning":
-        return <AlertTriangle className="size-5 text-amber-500" />
-      case "critical":
-        return <XCircle className="size-5 text-red-500" />
-    }
+  const getCheckBadge = (check: ProviderHealthCheck | undefined) => {
+    if (!check) return null
+    return check.status === "ok" ? (
+      <Badge variant="secondary" className="bg-teal-500/10 text-teal-700 dark:text-teal-400">
+        <CheckCircle2 className="size-3" />
+        {check.latencyMs} ms
+      </Badge>
+    ) : (
+      <Badge variant="destructive" className="bg-red-500/10 text-red-700 dark:text-red-400">
+        <XCircle className="size-3" />
+        Error
+      </Badge>
+    )
   }
 
-  const getIngestionBadge = (status: IngestionStatus) => {
-    switch (status) {
-      case "completed":
-        return (
-          <Badge variant="secondary" className="bg-teal-500/10 text-teal-700 dark:text-teal-400">
-            Completado
-          </Badge>
-        )
-      case "processing":
-        return (
-          <Badge variant="secondary" className="bg-blue-500/10 text-blue-700 dark:text-blue-400">
-            Procesando
-          </Badge>
-        )
-      case "failed":
-        return (
-          <Badge variant="destructive" className="bg-red-500/10 text-red-700 dark:text-red-400">
-            Fallido
-          </Badge>
-        )
+  const getIngestionBadge = (job: IngestionJob) => {
+    const labels: Record<IngestionJobStatus, { label: string; className: string }> = {
+      queued: { label: "En cola", className: "bg-slate-500/10 text-slate-700 dark:text-slate-400" },
+      running: {
+        label: job.cancel_requested ? "Cancelando" : "Procesando",
+        className: "bg-blue-500/10 text-blue-700 dark:text-blue-400",
+      },
+      completed: { label: "Completado", className: "bg-teal-500/10 text-teal-700 dark:text-teal-400" },
+      failed: { label: "Fallido", className: "bg-red-500/10 text-red-700 dark:text-red-400" },
+      cancelled: { label: "Cancelado", className: "bg-amber-500/10 text-amber-700 dark:text-amber-400" },
     }
+    const { label, className } = labels[job.status]
+    return (
+      <Badge variant={job.status === "failed" ? "destructive" : "secondary"} className={className}>
+        {label}
+      </Badge>
+    )
   }
 
-  const getSeverityBadge = (severity: LogSeverity) => {
-    switch (severity) {
-      case "info":
-        return (
-          <Badge variant="secondary" className="bg-slate-500/10 text-slate-700 dark:text-slate-400">
-            Info
-          </Badge>
-        )
-      case "warning":
-        return (
-          <Badge variant="secondary" className="bg-amber-500/10 text-amber-700 dark:text-amber-400">
-            Warning
-          </Badge>
-        )
-      case "error":
-        return (
-          <Badge variant="destructive" className="bg-orange-500/10 text-orange-700 dark:text-orange-400">
-            Error
-          </Badge>
-        )
-      case "critical":
-        return (
-          <Badge variant="destructive" className="bg-red-500/10 text-red-700 dark:text-red-400">
-            Critical
-          </Badge>
-        )
-    }
-  }
+  const renderCheck = (check: ProviderHealthCheck | undefined) =>
+    check && (
+      <p className={`text-xs ${check.status === "ok" ? "text-muted-foreground" : "text-red-600 dark:text-red-400"}`}>
+        {check.status === "ok" ? check.detail : check.error}
+      </p>
+    )
 
   return (
     <div className="p-8">
       {/* Page Header */}
       <div className="mb-8">
         <h1 className="mb-2 text-3xl font-bold">Panel de administración</h1>
-        <p className="text-muted-foreground">Monitoreo del sistema, gestión de documentos y configuración</p>
+        <p className="text-muted-foreground">Proveedores, corpus, ingesta de documentos y caché de comparaciones</p>
       </div>
 
-        {/* System Alerts */}
-        {MOCK_ALERTS.length > 0 && (
+        {/* Provider errors */}
+        {providers && [providers.llm, providers.embedding, providers.vectorStore].some((provider) => provider.error) && (
           <div className="mb-6 space-y-3">
-            {MOCK_ALERTS.map((alert) => (
-              <div
-                key={alert.id}
-                className={`flex items-center gap-3 rounded-lg border p-4 ${
-                  alert.type === "critical" ? "border-red-500/50 bg-red-500/10" : "border-amber-500/50 bg-amber-500/10"
-                }`}
-              >
-                <AlertTriangle
-                  className={`size-5 shrink-0 ${alert.type === "critical" ? "text-red-500" : "text-amber-500"}`}
-                />
-                <div className="flex-1">
-                  <p className="text-sm font-medium">{alert.message}</p>
-                  <p className="text-xs text-muted-foreground">{alert.timestamp}</p>
+            {[providers.llm, providers.embedding, providers.vectorStore]
+              .filter((provider) => provider.error)
+              .map((provider) => (
+                <div
+                  key={provider.provider}
+                  className="flex items-center gap-3 rounded-lg border border-red-500/50 bg-red-500/10 p-4"
+                >
+                  <AlertTriangle className="size-5 shrink-0 text-red-500" />
+                  <div className="flex-1">
+                    <p className="text-sm font-medium">{provider.provider}</p>
+                    <p className="text-xs text-muted-foreground">{provider.error}</p>
+                  </div>
                 </div>
-                {getSeverityBadge(alert.type)}
-              </div>
-            ))}
+              ))}
           </div>
         )}
 
-        {/* Database Status - Real Data */}
+        {/* Providers */}
         <div className="mb-8">
-          <h2 className="mb-4 text-xl font-semibold">Estado de la Base de Datos</h2>
-          <DatabaseStatus />
+          <div className="mb-4 flex flex-wrap items-center justify-between gap-4">
+            <h2 className="text-xl font-semibold">Proveedores activos</h2>
+            <div className="flex items-center gap-4">
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id="include-llm"
+                  checked={includeLLM}
+                  onCheckedChange={(checked) => setIncludeLLM(checked === true)}
+                />
+                <Label htmlFor="include-llm" className="text-sm font-normal">
+                  Incluir LLM
+                </Label>
+              </div>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => healthCheck.mutate(includeLLM)}
+                disabled={healthCheck.isPending}
+              >
+                {healthCheck.isPending ? <RefreshCw className="animate-spin" /> : <Stethoscope />}
+                Verificar proveedores
+              </Button>
+            </div>
+          </div>
+
+          {providersError ? (
+            <Card>
+              <CardContent className="p-6 text-sm text-red-600 dark:text-red-400">
+                No se pudieron cargar los proveedores: {providersError.message}
+              </CardContent>
+            </Card>
+          ) : (
+            <div className="grid gap-4 md:grid-cols-3">
+              <Card>
+                <CardHeader className="flex flex-row items-center justify-between pb-2">
+                  <CardTitle className="text-sm font-medium">LLM</CardTitle>
+                  {getCheckBadge(checks.get("llm")) ?? <Bot className="size-5 text-muted-foreground" />}
+                </CardHeader>
+                <CardContent className="space-y-1">
+                  <div className="text-2xl font-bold">{providersLoading ? "…" : providers?.llm.provider}</div>
+                  <p className="text-xs text-muted-foreground">{providers?.llm.model ?? "—"}</p>
+                  {providers?.llm.contextWindow && (
+                    <p className="text-xs text-muted-foreground">
+                      Contexto: {providers.llm.contextWindow.toLocaleString()} tokens
+                    </p>
+                  )}
+                  {providers?.llm.circuits && (
+                    <div className="flex flex-wrap gap-1 pt-1">
+                      {Object.entries(providers.llm.circuits).map(([name, state]) => (
+                        <Badge
+                          key={name}
+                          variant="secondary"
+                          className={state === "closed" ? "" : "bg-amber-500/10 text-amber-700 dark:text-amber-400"}
+                        >
+                          {name}: {state}
+                        </Badge>
+                      ))}
+                    </div>
+                  )}
+                  {renderCheck(checks.get("llm"))}
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader className="flex flex-row items-center justify-between pb-2">
+                  <CardTitle className="text-sm font-medium">Embeddings</CardTitle>
+                  {getCheckBadge(checks.get("embedding")) ?? <Layers className="size-5 text-muted-foreground" />}
+                </CardHeader>
+                <CardContent className="space-y-1">
+                  <div className="text-2xl font-bold">{providersLoading ? "…" : providers?.embedding.provider}</div>
+                  <p className="text-xs text-muted-foreground">{providers?.embedding.model ?? "—"}</p>
+                  {providers?.embedding.dimension && (
+                    <p className="text-xs text-muted-foreground">
+                      {providers.embedding.dimension} dimensiones
+                      {providers.embedding.maxInputLength &&
+                        ` · máx. ${providers.embedding.maxInputLength.toLocaleString()} tokens`}
+                    </p>
+                  )}
+                  {renderCheck(checks.get("embedding"))}
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader className="flex flex-row items-center justify-between pb-2">
+                  <CardTitle className="text-sm font-medium">Base vectorial</CardTitle>
+                  {getCheckBadge(checks.get("vectorStore")) ?? <Database className="size-5 text-muted-foreground" />}
+                </CardHeader>
+                <CardContent className="space-y-1">
+                  <div className="text-2xl font-bold">{providersLoading ? "…" : providers?.vectorStore.provider}</div>
+                  <p className="text-xs text-muted-foreground">
+                    {providers?.vectorStore.storedDimension
+                      ? `Embeddings guardados de ${providers.vectorStore.storedDimension} dimensiones`
+                      : "Sin embeddings guardados"}
+                  </p>
+                  {providers?.vectorStore.storedDimension &&
+                    providers.embedding.dimension &&
+                    providers.vectorStore.storedDimension !== providers.embedding.dimension && (
+                      <p className="text-xs text-red-600 dark:text-red-400">
+                        No coincide con el modelo de embeddings ({providers.embedding.dimension})
+                      </p>
+                    )}
+                  {providers?.vectorStore.columnDimension &&
+                    providers.embedding.dimension &&
+                    providers.vectorStore.columnDimension !== providers.embedding.dimension && (
+                      <p className="text-xs text-red-600 dark:text-red-400">
+                        La columna de embeddings es de {providers.vectorStore.columnDimension} dimensiones, el modelo
+                        produce {providers.embedding.dimension}
+                      </p>
+                    )}
+                  {renderCheck(checks.get("vectorStore"))}
+                </CardContent>
+              </Card>
+            </div>
+          )}
         </div>
 
-        {/* System Health Metrics */}
+        {/* Corpus */}
         <div className="mb-8">
-          <h2 className="mb-4 text-xl font-semibold">Estado del sistema</h2>
+          <div className="mb-4 flex items-center justify-between">
+            <h2 className="text-xl font-semibold">Corpus</h2>
+            <Button variant="ghost" size="sm" onClick={() => refetchStats()} disabled={statsFetching}>
+              <RefreshCw className={statsFetching ? "animate-spin" : ""} />
+              Actualizar
+            </Button>
+          </div>
           <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
             <Card>
               <CardHeader className="flex flex-row items-center justify-between pb-2">
-                <CardTitle className="text-sm font-medium">API Status</CardTitle>
-                {getStatusIcon(MOCK_SYSTEM_HEALTH.apiStatus)}
+                <CardTitle className="text-sm font-medium">Documentos</CardTitle>
+                <FileText className="size-5 text-muted-foreground" />
               </CardHeader>
               <CardContent>
-                <div className="text-2xl font-bold">Online</div>
-                <p className="text-xs text-muted-foreground">Uptime: {MOCK_SYSTEM_HEALTH.uptime}</p>
+                <div className="text-2xl font-bold">{statsLoading ? "…" : stats?.corpus.documents.toLocaleString()}</div>
+                <p className="text-xs text-muted-foreground">Planes de gobierno ingeridos</p>
               </CardContent>
             </Card>
 
             <Card>
               <CardHeader className="flex flex-row items-center justify-between pb-2">
-                <CardTitle className="text-sm font-medium">CPU Usage</CardTitle>
-                <Cpu className="size-5 text-muted-foreground" />
+                <CardTitle className="text-sm font-medium">Fragmentos</CardTitle>
+                <Layers className="size-5 text-muted-foreground" />
               </CardHeader>
               <CardContent>
-                <div className="text-2xl font-bold">{MOCK_SYSTEM_HEALTH.cpuUsage}%</div>
-                <Progress value={MOCK_SYSTEM_HEALTH.cpuUsage} className="mt-2" />
+                <div className="text-2xl font-bold">{statsLoading ? "…" : stats?.corpus.chunks.toLocaleString()}</div>
+                <p className="text-xs text-muted-foreground">
+                  {stats?.corpus.chunksWithoutEmbedding
+                    ? `${stats.corpus.chunksWithoutEmbedding.toLocaleString()} sin embedding`
+                    : "Todos con embedding"}
+                </p>
               </CardContent>
             </Card>
 
             <Card>
               <CardHeader className="flex flex-row items-center justify-between pb-2">
-                <CardTitle className="text-sm font-medium">Memory</CardTitle>
-                <Activity className="size-5 text-muted-foreground" />
+                <CardTitle className="text-sm font-medium">Ingestas activas</CardTitle>
+                <Clock className="size-5 text-muted-foreground" />
               </CardHeader>
               <CardContent>
-                <div className="text-2xl font-bold">{MOCK_SYSTEM_HEALTH.memoryUsage}%</div>
-                <Progress value={MOCK_SYSTEM_HEALTH.memoryUsage} className="mt-2" />
+                <div className="text-2xl font-bold">{statsLoading ? "…" : activeJobs}</div>
+                <p className="text-xs text-muted-foreground">
+                  {stats ? `${stats.ingestion.jobs.queued} en cola · ${stats.ingestion.jobs.running} procesando` : "—"}
+                </p>
               </CardContent>
             </Card>
 
             <Card>
               <CardHeader className="flex flex-row items-center justify-between pb-2">
-                <CardTitle className="text-sm font-medium">Storage</CardTitle>
-                <HardDrive className="size-5 text-muted-foreground" />
+                <CardTitle className="text-sm font-medium">Ingestas terminadas</CardTitle>
+                <CheckCircle2 className="size-5 text-muted-foreground" />
               </CardHeader>
               <CardContent>
-                <div className="text-2xl font-bold">{MOCK_SYSTEM_HEALTH.storageUsage}%</div>
-                <Progress value={MOCK_SYSTEM_HEALTH.storageUsage} className="mt-2" />
+                <div className="text-2xl font-bold">{statsLoading ? "…" : stats?.ingestion.jobs.completed}</div>
+                <p className="text-xs text-muted-foreground">
+                  {stats ? `${stats.ingestion.jobs.failed} fallidas · ${stats.ingestion.jobs.cancelled} canceladas` : "—"}
+                </p>
               </CardContent>
             </Card>
           </div>
         </div>
 
-        <div className="grid gap-8 lg:grid-cols-2">
-          {/* Left Column */}
-          <div className="space-y-8">
-            {/* Ingestion Status */}
-            <div>
-              <h2 className="mb-4 text-xl font-semibold">Estado de ingesta</h2>
-              <Card>
-                <CardContent className="p-6">
-                  <div className="space-y-4">
-                    {MOCK_INGESTION_JOBS.map((job) => (
-                      <div key={job.id} className="space-y-2">
-                        <div className="flex items-start justify-between gap-4">
-                          <div className="flex-1">
-                            <div className="flex items-center gap-2">
-                              <p className="text-sm font-medium">{job.document}</p>
-                              {getIngestionBadge(job.status)}
+        {/* Database Status - Real Data */}
+        <div className="mb-8">
+          <h2 className="mb-4 text-xl font-semibold">Estado de la Base de Datos</h2>
+          <DatabaseStatus />
+        </div>
+
+        {/* Ingestion history */}
+        <div className="mb-8">
+          <h2 className="mb-4 text-xl font-semibold">Historial de ingesta</h2>
+          <Card>
+            <CardContent className="p-0">
+              {statsError ? (
+                <p className="p-6 text-sm text-red-600 dark:text-red-400">
+                  No se pudo cargar el historial: {statsError.message}
+                </p>
+              ) : !stats?.ingestion.recentJobs.length ? (
+                <p className="p-6 text-sm text-muted-foreground">
+                  {statsLoading ? "Cargando…" : "Todavía no hay ingestas"}
+                </p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Documentos</TableHead>
+                      <TableHead>Estado</TableHead>
+                      <TableHead>Progreso</TableHead>
+                      <TableHead>Inicio</TableHead>
+                      <TableHead>Duración</TableHead>
+                      <TableHead className="text-right">Acciones</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {stats.ingestion.recentJobs.map((job) => (
+                      <TableRow key={job.id}>
+                        <TableCell className="max-w-xs">
+                          <p className="truncate text-sm font-medium">
+                            {job.documents.map((document) => document.documentId).join(", ")}
+                          </p>
+                          {job.error && <p className="truncate text-xs text-red-600 dark:text-red-400">{job.error}</p>}
+                        </TableCell>
+                        <TableCell>{getIngestionBadge(job)}</TableCell>
+                        <TableCell className="min-w-40">
+                          {job.status === "running" ? (
+                            <div className="space-y-1">
+                              <Progress value={jobPercentage(job)} />
+                              <p className="text-xs text-muted-foreground">
+                                {job.progress
+                                  ? `${job.progress.documentId}: ${STAGE_LABELS[job.progress.stage] ?? job.progress.stage}${
+                                      job.progress.stage === "embed" && job.progress.totalChunks
+                                        ? ` (${job.progress.embedded ?? 0}/${job.progress.totalChunks})`
+                                        : ""
+                                    }`
+                                  : "Iniciando…"}
+                              </p>
                             </div>
-                            <div className="mt-1 flex items-center gap-4 text-xs text-muted-foreground">
-                              <span className="flex items-center gap-1">
-                                <Clock className="size-3" />
-                                {job.startTime}
-                              </span>
-                              <span>{job.duration}</span>
-                              <span>{job.pagesProcessed} páginas</span>
+                          ) : (
+                            <div className="space-y-0.5 text-xs text-muted-foreground">
+                              <p>
+                                {job.results.filter((result) => result.success).length}/{job.documents.length} documentos
+                                {job.results.length > 0 &&
+                                  ` · ${job.results.reduce((total, result) => total + result.chunkCount, 0)} fragmentos`}
+                                {job.results.some((result) => result.stats.ocrPages) &&
+                                  ` · ${job.results.reduce((total, result) => total + (result.stats.ocrPages ?? 0), 0)} páginas con OCR`}
+                              </p>
+                              {job.results
+                                .filter((result) => result.diff)
+                                .map((result) => (
+                                  <p key={result.documentId}>
+                                    {result.documentId}: {formatDiff(result.diff!)}
+                                  </p>
+                                ))}
                             </div>
-                          </div>
-                        </div>
-                        {job.status === "processing" && (
-                          <div className="space-y-1">
-                            <Progress value={job.progress} />
-                            <p className="text-xs text-muted-foreground">{job.progress}% completado</p>
-                          </div>
-                        )}
-                      </div>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-xs text-muted-foreground">
+                          {formatDate(job.started_at ?? job.created_at)}
+                        </TableCell>
+                        <TableCell className="text-xs text-muted-foreground">{formatDuration(job)}</TableCell>
+                        <TableCell className="text-right">
+                          {(job.status === "queued" || job.status === "running") && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => cancelJob.mutate(job.id)}
+                              disabled={job.cancel_requested || cancelJob.isPending}
+                            >
+                              <Square />
+                              Cancelar
+                            </Button>
+                          )}
+                          {(job.status === "failed" || job.status === "cancelled") && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => retryJob.mutate(job.id)}
+                              disabled={retryJob.isPending}
+                            >
+                              <RotateCcw />
+                              Reintentar
+                            </Button>
+                          )}
+                        </TableCell>
+                      </TableRow>
                     ))}
-                  </div>
-                </CardContent>
-              </Card>
-            </div>
-
-            {/* Usage Statistics */}
-            <div>
-              <h2 className="mb-4 text-xl font-semibold">Estadísticas de uso</h2>
-              <div className="grid gap-4 sm:grid-cols-2">
-                <Card>
-                  <CardHeader className="pb-2">
-                    <CardTitle className="text-sm font-medium">Consultas totales</CardTitle>
-                  </CardHeader>
-                  <CardContent>
-                    <div className="text-2xl font-bold">{MOCK_USAGE_STATS.totalQueries.toLocaleString()}</div>
-                    <p className="text-xs text-muted-foreground">+{MOCK_USAGE_STATS.queriesLastHour} última hora</p>
-                  </CardContent>
-                </Card>
-
-                <Card>
-                  <CardHeader className="pb-2">
-                    <CardTitle className="text-sm font-medium">Tokens usados</CardTitle>
-                  </CardHeader>
-                  <CardContent>
-                    <div className="text-2xl font-bold">{(MOCK_USAGE_STATS.totalTokensUsed / 1000000).toFixed(2)}M</div>
-                    <p className="text-xs text-muted-foreground">${MOCK_USAGE_STATS.estimatedCost} costo estimado</p>
-                  </CardContent>
-                </Card>
-
-                <Card>
-                  <CardHeader className="pb-2">
-                    <CardTitle className="text-sm font-medium">Tiempo respuesta</CardTitle>
-                  </CardHeader>
-                  <CardContent>
-                    <div className="text-2xl font-bold">{MOCK_USAGE_STATS.avgResponseTime}</div>
-                    <p className="text-xs text-muted-foreground">Promedio</p>
-                  </CardContent>
-                </Card>
-
-                <Card>
-                  <CardHeader className="pb-2">
-                    <CardTitle className="text-sm font-medium">Tasa de éxito</CardTitle>
-                  </CardHeader>
-                  <CardContent>
-                    <div className="text-2xl font-bold">{MOCK_USAGE_STATS.successRate}%</div>
-                    <p className="text-xs text-muted-foreground">Consultas exitosas</p>
-                  </CardContent>
-                </Card>
-              </div>
-            </div>
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </div>
 
-            {/* Manual Re-ingestion Panel */}
-            <div>
-              <h2 className="mb-4 text-xl font-semibold">Re-ingesta manual</h2>
-              <Card>
-                <CardHeader>
-                  <CardTitle>Procesar documento</CardTitle>
-                  <CardDescription>Ingresa la URL de un PDF para procesarlo e indexarlo</CardDescription>
-                </CardHeader>
-                <CardContent className="space-y-4">
+        <div className="grid gap-8 lg:grid-cols-2">
+          {/* Manual ingestion */}
+          <div>
+            <h2 className="mb-4 text-xl font-semibold">Ingesta manual</h2>
+            <Card>
+              <CardHeader>
+                <CardTitle>Procesar documento</CardTitle>
+                <CardDescription>
+                  Descarga el PDF, lo fragmenta y guarda en la base vectorial solo los fragmentos que cambiaron
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="grid gap-4 sm:grid-cols-3">
                   <div className="space-y-2">
+                    <Label htmlFor="document-id">ID del documento</Label>
+                    <Input
+                      id="document-id"
+                      placeholder="pln-2026"
+                      value={documentId}
+                      onChange={(e) => setDocumentId(e.target.value)}
+                    />
+                  </div>
+                  <div className="space-y-2 sm:col-span-2">
                     <Label htmlFor="pdf-url">URL del PDF</Label>
                     <Input
                       id="pdf-url"
-                      placeholder="https://ejemplo.com/documento.pdf"
+                      placeholder="https://www.tse.go.cr/2026/docus/planesgobierno/PLN.pdf"
                       value={pdfUrl}
                       onChange={(e) => setPdfUrl(e.target.value)}
                     />
                   </div>
-                  <Button onClick={handleTriggerIngestion} disabled={!pdfUrl || isProcessing} className="w-full">
-                    {isProcessing ? (
-                      <>
-                        <RefreshCw className="animate-spin" />
-                        Procesando...
-                      </>
-                    ) : (
-                      <>
-                        <Upload />
-                        Iniciar ingesta
-                      </>
-                    )}
-                  </Button>
+                </div>
 
-                  <div className="border-t pt-4">
-                    <Label htmlFor="batch-urls">Ingesta por lotes (una URL por línea)</Label>
-                    <Textarea
-                      id="batch-urls"
-                      placeholder="https://ejemplo.com/doc1.pdf&#10;https://ejemplo.com/doc2.pdf&#10;https://ejemplo.com/doc3.pdf"
-                      value={batchUrls}
-                      onChange={(e) => setBatchUrls(e.target.value)}
-                      rows={4}
-                      className="mt-2"
-                    />
-                    <Button
-                      onClick={handleBatchIngestion}
-                      disabled={!batchUrls || isProcessing}
-                      variant="outline"
-                      className="mt-2 w-full bg-transparent"
-                    >
+                <div className="flex items-center gap-2">
+                  <Checkbox
+                    id="extract-proposals"
+                    checked={extractProposals}
+                    onCheckedChange={(checked) => setExtractProposals(checked === true)}
+                  />
+                  <Label htmlFor="extract-proposals" className="text-sm font-normal">
+                    Extraer propuestas estructuradas
+                  </Label>
+                </div>
+
+                <div className="flex items-center gap-2">
+                  <Checkbox id="force" checked={force} onCheckedChange={(checked) => setForce(checked === true)} />
+                  <Label htmlFor="force" className="text-sm font-normal">
+                    Reprocesar aunque el PDF no haya cambiado
+                  </Label>
+                </div>
+
+                <Button
+                  onClick={handleTriggerIngestion}
+                  disabled={!pdfUrl.trim() || !documentId.trim() || startIngestion.isPending}
+                  className="w-full"
+                >
+                  {startIngestion.isPending ? (
+                    <>
+                      <RefreshCw className="animate-spin" />
+                      Enviando...
+                    </>
+                  ) : (
+                    <>
                       <Upload />
-                      Ingesta por lotes
-                    </Button>
-                  </div>
-                </CardContent>
-              </Card>
-            </div>
+                      Iniciar ingesta
+                    </>
+                  )}
+                </Button>
+
+                <div className="border-t pt-4">
+                  <Label htmlFor="batch-urls">Ingesta por lotes (un documento por línea: ID y URL)</Label>
+                  <Textarea
+                    id="batch-urls"
+                    placeholder="pln-2026 https://www.tse.go.cr/2026/docus/planesgobierno/PLN.pdf&#10;pusc-2026 https://www.tse.go.cr/2026/docus/planesgobierno/PUSC.pdf"
+                    value={batchText}
+                    onChange={(e) => setBatchText(e.target.value)}
+                    rows={4}
+                    className="mt-2 font-mono text-xs"
+                  />
+                  <Button
+                    onClick={handleBatchIngestion}
+                    disabled={batchDocuments.length === 0 || startIngestion.isPending}
+                    variant="outline"
+                    className="mt-2 w-full bg-transparent"
+                  >
+                    <Upload />
+                    Ingesta por lotes{batchDocuments.length > 0 && ` (${batchDocuments.length})`}
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
           </div>
 
-          {/* Right Column */}
-          <div className="space-y-8">
-            {/* Provider Configuration */}
-            <div>
-              <h2 className="mb-4 text-xl font-semibold">Configuración de proveedores</h2>
-              <Card>
-                <CardHeader>
-                  <CardTitle>Proveedores de IA</CardTitle>
-                  <CardDescription>Configura los servicios de LLM y base de datos vectorial</CardDescription>
-                </CardHeader>
-                <CardContent className="space-y-6">
-                  {/* LLM Provider */}
-                  <div className="space-y-2">
-                    <Label htmlFor="llm-provider">Proveedor LLM</Label>
-                    <Select value={llmProvider} onValueChange={setLlmProvider}>
-                      <SelectTrigger id="llm-provider">
-                        <SelectValue />
-                      </SelectTrigger>
-                      <SelectContent>
-                        <SelectItem value="openai">OpenAI (GPT-4)</SelectItem>
-                        <SelectItem value="anthropic">Anthropic (Claude)</SelectItem>
-                        <SelectItem value="google">Google (Gemini)</SelectItem>
-                        <SelectItem value="xai">xAI (Grok)</SelectItem>
-                      </SelectContent>
-                    </Select>
-                  </div>
-
-                  {/* Vector DB Provider */}
+          {/* Comparison cache warmup */}
+          <div>
+            <h2 className="mb-4 text-xl font-semibold">Caché de comparaciones</h2>
+            <Card>
+              <CardHeader>
+                <CardTitle>Precalentar caché</CardTitle>
+                <CardDescription>
+                  Precalcula las comparaciones de los temas sugeridos para los partidos destacados, cada uno por
+                  separado y todos juntos. Las comparaciones ya guardadas se omiten.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {warmup && (
                   <div className="space-y-2">
-                    <Label htmlFor="vector-provider">Base de datos vectorial</Label>
-                    <Select value={vectorProvider} onValueChange={setVectorProvider}>
-                      <SelectTrigger id="vector-provider">
-                        <SelectValue />
-                      </SelectTrigger>
-                      <SelectContent>
-                        <SelectItem value="pinecone">Pinecone</SelectItem>
-                        <SelectItem value="weaviate">Weaviate</SelectItem>
-                        <SelectItem value="qdrant">Qdrant</SelectItem>
-                        <SelectItem value="milvus">Milvus</SelectItem>
-                      </SelectContent>
-                    </Select>
-                  </div>
-
-                  {/* API Keys Management */}
-                  <div className="border-t pt-4">
-                    <div className="mb-3 flex items-center justify-between">
-                      <Label>API Keys</Label>
-                      <Button variant="ghost" size="sm" onClick={() => setShowApiKeys(!showApiKeys)}>
-                        {showApiKeys ? <EyeOff className="size-4" /> : <Eye className="size-4" />}
-                        {showApiKeys ? "Ocultar" : "Mostrar"}
-                      </Button>
-                    </div>
-
-                    <div className="space-y-3">
-                      <div className="space-y-2">
-                        <Label htmlFor="openai-key" className="text-xs text-muted-foreground">
-                          OpenAI API Key
-                        </Label>
-                        <Input
-                          id="openai-key"
-                          type={showApiKeys ? "text" : "password"}
-                          value={openaiKey}
-                          onChange={(e) => setOpenaiKey(e.target.value)}
-                          className="font-mono text-xs"
-                        />
-                      </div>
-
-                      <div className="space-y-2">
-                        <Label htmlFor="pinecone-key" className="text-xs text-muted-foreground">
-                          Pinecone API Key
-                        </Label>
-                        <Input
-                          id="pinecone-key"
-                          type={showApiKeys ? "text" : "password"}
-                          value={pineconeKey}
-                          onChange={(e) => setPineconeKey(e.target.value)}
-                          className="font-mono text-xs"
-                        />
-                      </div>
+                    <Progress
+                      value={
+                        warmup.total
+                          ? Math.round(
+                              ((warmup.cached + warmup.skipped + warmup.incomplete + warmup.failed) / warmup.total) * 100
+                            )
+                          : 100
+                      }
+                    />
+                    <div className="flex flex-wrap gap-2 text-xs text-muted-foreground">
+                      <span>{warmup.cached} generadas</span>
+                      <span>· {warmup.skipped} ya en caché</span>
+                      <span>· {warmup.incomplete} sin información</span>
+                      <span>· {warmup.failed} con error</span>
                     </div>
-
-                    <Button variant="outline" className="mt-4 w-full bg-transparent">
-                      <Settings />
-                      Guardar configuración
-                    </Button>
+                    <p className="text-xs text-muted-foreground">
+                      {warmup.inProgress
+                        ? `En curso desde ${formatDate(warmup.startedAt)} (${warmup.startedBy})`
+                        : `Terminado ${formatDate(warmup.finishedAt)} (${warmup.startedBy})`}
+                    </p>
                   </div>
-                </CardContent>
-              </Card>
-            </div>
-
-            {/* Error Logs */}
-            <div>
-              <h2 className="mb-4 text-xl font-semibold">Registro de errores</h2>
-              <Card>
-                <CardContent className="p-0">
-                  <Table>
-                    <TableHeader>
-                      <TableRow>
-                        <TableHead>Timestamp</TableHead>
-                        <TableHead>Severidad</TableHead>
-                        <TableHead>Mensaje</TableHead>
-                        <TableHead>Componente</TableHead>
-                      </TableRow>
-                    </TableHeader>
-                    <TableBody>
-                      {MOCK_ERROR_LOGS.map((log) => (
-                        <TableRow key={log.id}>
-                          <TableCell className="text-xs text-muted-foreground">{log.timestamp}</TableCell>
-                          <TableCell>{getSeverityBadge(log.severity)}</TableCell>
-                          <TableCell className="text-sm">{log.message}</TableCell>
-                          <TableCell className="text-xs text-muted-foreground">{log.component}</TableCell>
-                        </TableRow>
-                      ))}
-                    </TableBody>
-                  </Table>
-                </CardContent>
-              </Card>
-            </div>
+                )}
+                <Button
+                  onClick={() => startWarmup.mutate(undefined)}
+                  disabled={warmup?.inProgress || startWarmup.isPending}
+                  className="w-full"
+                >
+                  {warmup?.inProgress ? <RefreshCw className="animate-spin" /> : <Flame />}
+                  {warmup?.inProgress ? "Precalentando..." : "Precalentar caché"}
+                </Button>
+              </CardContent>
+            </Card>
           </div>
         </div>
     </div>
@@ -0,0 +1,316 @@
+"use client"
+
+import { useState } from "react"
+import { Loader2, Pencil, Plus, Trash2, X } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { Badge } from "@/components/ui/badge"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { useParties, useCreateParty, useUpdateParty, useDeleteParty } from "@/lib/hooks"
+import type { Party, PartyInput, PartyUpdateInput } from "@/lib/api/services"
+
+type PartyForm = {
+  name: string
+  abbreviation: string
+  slug: string
+  foundedYear: string
+  ideology: string
+  primaryColor: string
+  secondaryColor: string
+  logoUrl: string
+  website: string
+  description: string
+}
+
+const EMPTY_FORM: PartyForm = {
+  name: "",
+  abbreviation: "",
+  slug: "",
+  foundedYear: "",
+  ideology: "",
+  primaryColor: "#000000",
+  secondaryColor: "#FFFFFF",
+  logoUrl: "",
+  website: "",
+  description: "",
+}
+
+function toForm(party: Party): PartyForm {
+  return {
+    name: party.name,
+    abbreviation: party.abbreviation || "",
+    slug: party.slug,
+    foundedYear: party.founded_year?.toString() || "",
+    ideology: (party.ideology || []).join(", "),
+    primaryColor: party.colors.primary,
+    secondaryColor: party.colors.secondary,
+    logoUrl: party.logo_url || "",
+    website: party.website || "",
+    description: party.description || "",
+  }
+}
+
+/**
+ * Party fields for the API; empty optional fields are left out
+ */
+function toInput(form: PartyForm): PartyInput {
+  const ideology = form.ideology.split(",").map((item) => item.trim()).filter(Boolean)
+
+  return {
+    name: form.name.trim(),
+    slug: form.slug.trim(),
+    colors: { primary: form.primaryColor, secondary: form.secondaryColor },
+    ...(form.abbreviation.trim() && { abbreviation: form.abbreviation.trim() }),
+    ...(form.foundedYear && { founded_year: Number(form.foundedYear) }),
+    ...(ideology.length > 0 && { ideology }),
+    ...(form.logoUrl.trim() && { logo_url: form.logoUrl.trim() }),
+    ...(form.website.trim() && { website: form.website.trim() }),
+    ...(form.description.trim() && { description: form.description.trim() }),
+  }
+}
+
+// Fields emptied while editing are sent as null so the update clears them
+function toUpdate(form: PartyForm): PartyUpdateInput {
+  const input = toInput(form)
+
+  return {
+    ...input,
+    abbreviation: input.abbreviation ?? null,
+    founded_year: input.founded_year ?? null,
+    ideology: input.ideology ?? null,
+    logo_url: input.logo_url ?? null,
+    website: input.website ?? null,
+    description: input.description ?? null,
+  }
+}
+
+function toSlug(name: string): string {
+  return name
+    .toLowerCase()
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+}
+
+export default function AdminPartiesPage() {
+  const { data, isLoading } = useParties({ limit: 100 })
+  const createParty = useCreateParty()
+  const updateParty = useUpdateParty()
+  const deleteParty = useDeleteParty()
+
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [showForm, setShowForm] = useState(false)
+  const [form, setForm] = useState<PartyForm>(EMPTY_FORM)
+
+  const parties = data?.parties || []
+  const isSaving = createParty.isPending || updateParty.isPending
+
+  const setField = (field: keyof PartyForm, value: string) => {
+    setForm((current) => ({
+      ...current,
+      [field]: value,
+      // Suggest the slug from the name while creating
+      ...(field === "name" && !editingId && { slug: toSlug(value) }),
+    }))
+  }
+
+  const openCreate = () => {
+    setEditingId(null)
+    setForm(EMPTY_FORM)
+    setShowForm(true)
+  }
+
+  const openEdit = (party: Party) => {
+    setEditingId(party.id)
+    setForm(toForm(party))
+    setShowForm(true)
+  }
+
+  const closeForm = () => {
+    setShowForm(false)
+    setEditingId(null)
+  }
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault()
+    if (editingId) {
+      updateParty.mutate({ id: editingId, data: toUpdate(form) }, { onSuccess: closeForm })
+    } else {
+      createParty.mutate(toInput(form), { onSuccess: closeForm })
+    }
+  }
+
+  const handleDelete = (party: Party) => {
+    if (window.confirm(`¿Eliminar ${party.name}? También se eliminarán sus candidatos.`)) {
+      deleteParty.mutate(party.id)
+    }
+  }
+
+  return (
+    <div className="p-8">
+      <div className="mb-8 flex items-start justify-between gap-4">
+        <div>
+          <h1 className="mb-2 text-3xl font-bold">Partidos</h1>
+          <p className="text-muted-foreground">Crear, editar y eliminar partidos políticos</p>
+        </div>
+        <Button onClick={openCreate}>
+          <Plus className="mr-2 size-4" />
+          Nuevo partido
+        </Button>
+      </div>
+
+      {showForm && (
+        <Card className="mb-8">
+          <CardHeader className="flex flex-row items-start justify-between">
+            <div>
+              <CardTitle>{editingId ? "Editar partido" : "Nuevo partido"}</CardTitle>
+              <CardDescription>El logo debe ser una URL HTTPS de una imagen (PNG, JPEG, WebP, SVG o GIF)</CardDescription>
+            </div>
+            <Button variant="ghost" size="icon" onClick={closeForm} aria-label="Cerrar">
+              <X className="size-4" />
+            </Button>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleSubmit} className="grid gap-4 md:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="name">Nombre</Label>
+                <Input id="name" value={form.name} onChange={(e) => setField("name", e.target.value)} required />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="slug">Slug</Label>
+                <Input id="slug" value={form.slug} onChange={(e) => setField("slug", e.target.value)} required />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="abbreviation">Siglas</Label>
+                <Input id="abbreviation" value={form.abbreviation} onChange={(e) => setField("abbreviation", e.target.value)} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="foundedYear">Año de fundación</Label>
+                <Input
+                  id="foundedYear"
+                  type="number"
+                  value={form.foundedYear}
+                  onChange={(e) => setField("foundedYear", e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="primaryColor">Color primario</Label>
+                <Input
+                  id="primaryColor"
+                  type="color"
+                  value={form.primaryColor}
+                  onChange={(e) => setField("primaryColor", e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="secondaryColor">Color secundario</Label>
+                <Input
+                  id="secondaryColor"
+                  type="color"
+                  value={form.secondaryColor}
+                  onChange={(e) => setField("secondaryColor", e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="logoUrl">URL del logo</Label>
+                <Input id="logoUrl" type="url" value={form.logoUrl} onChange={(e) => setField("logoUrl", e.target.value)} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="website">Sitio web</Label>
+                <Input id="website" type="url" value={form.website} onChange={(e) => setField("website", e.target.value)} />
+              </div>
+              <div className="space-y-2 md:col-span-2">
+                <Label htmlFor="ideology">Ideología (separada por comas)</Label>
+                <Input id="ideology" value={form.ideology} onChange={(e) => setField("ideology", e.target.value)} />
+              </div>
+              <div className="space-y-2 md:col-span-2">
+                <Label htmlFor="description">Descripción</Label>
+                <Textarea
+                  id="description"
+                  rows={4}
+                  value={form.description}
+                  onChange={(e) => setField("description", e.target.value)}
+                />
+              </div>
+              <div className="flex justify-end gap-2 md:col-span-2">
+                <Button type="button" variant="outline" onClick={closeForm}>
+                  Cancelar
+                </Button>
+                <Button type="submit" disabled={isSaving}>
+                  {isSaving && <Loader2 className="mr-2 size-4 animate-spin" />}
+                  {editingId ? "Guardar cambios" : "Crear partido"}
+                </Button>
+              </div>
+            </form>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Partidos registrados</CardTitle>
+          <CardDescription>{parties.length} partidos, destacados primero</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="size-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Partido</TableHead>
+                  <TableHead>Siglas</TableHead>
+                  <TableHead>Slug</TableHead>
+                  <TableHead>Colores</TableHead>
+                  <TableHead className="text-right">Acciones</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {parties.map((party) => (
+                  <TableRow key={party.id}>
+                    <TableCell className="font-medium">
+                      {party.name}
+                      {party.featured_rank !== null && (
+                        <Badge variant="secondary" className="ml-2 text-xs">
+                          Destacado #{party.featured_rank}
+                        </Badge>
+                      )}
+                    </TableCell>
+                    <TableCell>{party.abbreviation || "—"}</TableCell>
+                    <TableCell className="text-muted-foreground">{party.slug}</TableCell>
+                    <TableCell>
+                      <div className="flex gap-1">
+                        <span className="size-4 rounded-full border" style={{ backgroundColor: party.colors.primary }} />
+                        <span className="size-4 rounded-full border" style={{ backgroundColor: party.colors.secondary }} />
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button variant="ghost" size="icon" onClick={() => openEdit(party)} aria-label={`Editar ${party.name}`}>
+                        <Pencil className="size-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => handleDelete(party)}
+                        disabled={deleteParty.isPending}
+                        aria-label={`Eliminar ${party.name}`}
+                      >
+                        <Trash2 className="size-4 text-destructive" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
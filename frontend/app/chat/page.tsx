@@ -12,23 +12,12 @@ import { getUsageStatus, incrementChatUsage, canSendMessage, type UsageStatus }
 import { UsageBanner } from "@/components/usage-banner"
 import { useChat, useChatStream, useUser, useParties } from "@/lib/hooks"
 import { PageErrorBoundary } from "@/components/page-error-boundary"
-import type { ChatResponse } from "@/lib/api/types"
+import type { ChatResponse, Citation } from "@/lib/api/types"
 import { createPartyColorMap, getPartyPrimaryColor } from "@/lib/utils/party-colors"
+import { createPartyPlanUrlMap } from "@/lib/utils/party-plans"
+import { linkCitationMarkers, getCitationUrl, formatCitationPages, CITATION_LINK_PREFIX } from "@/lib/utils/citations"
 import { useRouter, useSearchParams } from "next/navigation"
 
-function getTsePdfUrl(partyAbbreviation: string | null): string | null {
-  if (!partyAbbreviation) return null;
-
-  // Map special cases where our abbreviation differs from TSE
-  const tseAbbreviationMap: Record<string, string> = {
-    'PS': 'PPSO',      // Pueblo Soberano
-    'PUSC': 'PUSC',    // Unidad Social Cristiana
-  };
-
-  const tseAbbrev = tseAbbreviationMap[partyAbbreviation.toUpperCase()] || partyAbbreviation.toUpperCase();
-  return `https://www.tse.go.cr/2026/docus/planesgobierno/${tseAbbrev}.pdf`;
-}
-
 type Message = {
   id: string
   role: "user" | "assistant"
@@ -43,10 +32,14 @@ type Message = {
       document?: string
     }
   }>
+  citations?: Citation[]
   timestamp: Date
 }
 
-
+// Previous messages sent with each question for follow-ups ("¿y el PUSC?"),
+// clipped to the length the backend accepts
+const MAX_HISTORY_MESSAGES = 6
+const MAX_HISTORY_MESSAGE_LENGTH = 1000
 
 const SUGGESTED_QUESTIONS = [
   "¿Qué proponen el PLN y el FA sobre educación?",
@@ -72,12 +65,15 @@ function ChatContent() {
   // React Query hooks
   const { data: user, isLoading: userLoading } = useUser()
   const chatMutation = useChat()
-  const { startStream, stopStream, isStreaming, streamedContent, sources: streamSources, reset: resetStream } = useChatStream()
+  const { startStream, stopStream, isStreaming, streamedContent, sources: streamSources, citations: streamCitations, conversationId: streamConversationId, reset: resetStream } = useChatStream()
   const { data: partiesData } = useParties()
 
   // Create party color map
   const partyColorMap = createPartyColorMap(partiesData?.parties || [])
 
+  // Official TSE plan URLs from the party registry
+  const partyPlanUrlMap = createPartyPlanUrlMap(partiesData?.parties || [])
+
   const isAuthenticated = !!user
   const isLoading = chatMutation.isPending || isStreaming
 
@@ -131,6 +127,12 @@ function ChatContent() {
       timestamp: new Date(),
     }
 
+    // Previous turns (before this question) so the backend can resolve follow-ups
+    const conversationHistory = messages
+      .filter((message) => message.content.trim().length > 0)
+      .slice(-MAX_HISTORY_MESSAGES)
+      .map((message) => ({ role: message.role, content: message.content.slice(0, MAX_HISTORY_MESSAGE_LENGTH) }))
+
     setMessages((prev) => [...prev, userMessage])
     const query = inputValue
     setInputValue("")
@@ -157,6 +159,7 @@ function ChatContent() {
       await startStream({
         query,
         conversationId: conversationId || undefined,
+        conversationHistory,
       })
     } else {
       // Use normal chat
@@ -164,6 +167,7 @@ function ChatContent() {
         {
           query,
           conversationId: conversationId || undefined,
+          conversationHistory,
         },
         {
           onSuccess: (data: ChatResponse) => {
@@ -188,6 +192,7 @@ function ChatContent() {
               role: "assistant",
               content: data.answer,
               sources: mappedSources,
+              citations: data.citations,
               timestamp: new Date(),
             }
             setMessages((prev) => [...prev, assistantMessage])
@@ -235,6 +240,27 @@ function ChatContent() {
     }
   }, [isStreaming, streamSources])
 
+  // Attach resolved citations when the stream completes
+  useEffect(() => {
+    if (!isStreaming && streamCitations && streamCitations.length > 0) {
+      setMessages((prev) => {
+        const updated = [...prev]
+        const lastMessage = updated[updated.length - 1]
+        if (lastMessage && lastMessage.role === "assistant") {
+          lastMessage.citations = streamCitations
+        }
+        return updated
+      })
+    }
+  }, [isStreaming, streamCitations])
+
+  // Keep following the server-side conversation the stream was stored in
+  useEffect(() => {
+    if (streamConversationId) {
+      setConversationId(streamConversationId)
+    }
+  }, [streamConversationId])
+
   const handleSuggestedQuestion = (question: string) => {
     setInputValue(question)
     setTimeout(() => {
@@ -357,15 +383,53 @@ function ChatContent() {
                                   strong: ({ node, ...props }) => (
                                     <strong className="font-semibold text-foreground" {...props} />
                                   ),
+                                  a: ({ node, href, children, ...props }) =>
+                                    href?.startsWith(CITATION_LINK_PREFIX) ? (
+                                      <a
+                                        href={href}
+                                        target="_blank"
+                                        rel="noopener noreferrer"
+                                        className="ml-0.5 align-super text-[10px] font-semibold text-primary no-underline hover:underline"
+                                        {...props}
+                                      >
+                                        [{children}]
+                                      </a>
+                                    ) : (
+                                      <a href={href} target="_blank" rel="noopener noreferrer" {...props}>
+                                        {children}
+                                      </a>
+                                    ),
                                 }}
                               >
-                                {message.content}
+                                {linkCitationMarkers(message.content, message.citations)}
                               </ReactMarkdown>
                             </div>
                             )}
                           </div>
                           )}
 
+{/* Citation footnotes (only for assistant messages) */}
+                          {message.role === "assistant" && message.citations && message.citations.length > 0 && (
+                            <ol className="mt-3 space-y-1 border-t border-border pt-2 text-xs text-muted-foreground">
+                              {message.citations.map((citation) => {
+                                const pages = formatCitationPages(citation)
+                                return (
+                                  <li key={citation.marker} className="flex gap-1.5">
+                                    <span className="font-semibold text-primary">[{citation.marker}]</span>
+                                    <a
+                                      href={getCitationUrl(citation)}
+                                      target="_blank"
+                                      rel="noopener noreferrer"
+                                      className="hover:underline"
+                                    >
+                                      {citation.party} · {citation.document}{pages ? ` · ${pages}` : ""}
+                                    </a>
+                                  </li>
+                                )
+                              })}
+                            </ol>
+                          )}
+
 {/* Sources (only for assistant messages) */}
                           {message.role === "assistant" && message.sources && message.sources.length > 0 && (
                             <div className="mt-3 space-y-2">
@@ -420,7 +484,7 @@ function ChatContent() {
                                 <div className="mt-3 flex flex-wrap gap-2">
                                   {Array.from(new Set(message.sources.map(source => source.metadata?.party).filter((p): p is string => Boolean(p))))
                                     .map(party => {
-                                      const pdfUrl = getTsePdfUrl(party);
+                                      const pdfUrl = partyPlanUrlMap.get(party.toLowerCase());
                                       return pdfUrl ? (
                                         <Button key={party} variant="default" size="sm" className="h-8 text-xs" asChild>
                                           <a href={pdfUrl} target="_blank" rel="noopener noreferrer">
@@ -13,7 +13,9 @@ import Link from "next/link"
 import ReactMarkdown from "react-markdown"
 import remarkGfm from "remark-gfm"
 import { createPartyColorMap, getPartyPrimaryColor, getPartySecondaryColor } from "@/lib/utils/party-colors"
+import { linkCitationMarkers, CITATION_LINK_PREFIX } from "@/lib/utils/citations"
 import { CompareLoading } from "@/components/compare-loading"
+import { SpecificityBreakdown } from "@/components/specificity-breakdown"
 
 const TOPICS = ["Educación", "Salud", "Empleo", "Seguridad", "Ambiente", "Economía", "Infraestructura", "Corrupción"]
 
@@ -57,23 +59,6 @@ function getStateBadgeVariant(state: ProposalState): "default" | "secondary" | "
  * Calculate topic coverage based on sources and answer length
  * Returns a label and color for the coverage level
  */
-/**
- * Get TSE PDF URL for a party
- * Maps party abbreviations to TSE document URLs
- */
-function getTsePdfUrl(partyAbbreviation: string | null): string | null {
-  if (!partyAbbreviation) return null;
-
-  // Map special cases where our abbreviation differs from TSE
-  const tseAbbreviationMap: Record<string, string> = {
-    'PS': 'PPSO',      // Pueblo Soberano
-    'PUSC': 'PUSC',    // Unidad Social Cristiana
-  };
-
-  const tseAbbrev = tseAbbreviationMap[partyAbbreviation.toUpperCase()] || partyAbbreviation.toUpperCase();
-  return `https://www.tse.go.cr/2026/docus/planesgobierno/${tseAbbrev}.pdf`;
-}
-
 function getTopicCoverage(sourcesCount: number, answerLength: number): {
   label: string;
   level: "alta" | "media" | "baja";
@@ -101,8 +86,8 @@ export default function ComparePage() {
 
   // Fetch parties list
   const { data: partiesData, isLoading: partiesLoading } = useParties()
-  // Limit to top 5 parties only
-  const parties = (partiesData?.parties || []).slice(0, 5)
+  // Limit to the featured parties of the registry
+  const parties = (partiesData?.parties || []).filter(party => party.featured_rank !== null)
   
   // Create party color map
   const partyColorMap = createPartyColorMap(parties)
@@ -387,13 +372,31 @@ export default function ComparePage() {
                                   ol: ({ children }) => <ol className="list-decimal list-inside text-sm space-y-1 mb-2">{children}</ol>,
                                   li: ({ children }) => <li className="text-sm">{children}</li>,
                                   strong: ({ children }) => <strong className="font-semibold">{children}</strong>,
+                                  a: ({ href, children }) =>
+                                    href?.startsWith(CITATION_LINK_PREFIX) ? (
+                                      <a
+                                        href={href}
+                                        target="_blank"
+                                        rel="noopener noreferrer"
+                                        className="ml-0.5 align-super text-[10px] font-semibold text-primary no-underline hover:underline"
+                                      >
+                                        [{children}]
+                                      </a>
+                                    ) : (
+                                      <a href={href} target="_blank" rel="noopener noreferrer">{children}</a>
+                                    ),
                                 }}
                               >
-                                {comparison.answer}
+                                {linkCitationMarkers(comparison.answer, comparison.citations)}
                               </ReactMarkdown>
                             </div>
                       </div>
 
+                          {/* Specificity */}
+                          {comparison.specificity && (
+                            <SpecificityBreakdown specificity={comparison.specificity} />
+                          )}
+
                           {/* Sources */}
                           {comparison.sources.length > 0 && (
                       <div className="rounded-lg border border-border bg-muted/30 p-4">
@@ -423,9 +426,9 @@ export default function ComparePage() {
                                 ))}
                         </div>
                               <div className="mt-3 flex flex-wrap gap-2">
-                                {getTsePdfUrl(comparison.partyAbbreviation) && (
+                                {comparison.tsePlanUrl && (
                                   <Button variant="default" size="sm" className="h-8 text-xs" asChild>
-                                    <a href={getTsePdfUrl(comparison.partyAbbreviation)!} target="_blank" rel="noopener noreferrer">
+                                    <a href={comparison.tsePlanUrl} target="_blank" rel="noopener noreferrer">
                                       Ver PDF original (TSE)
                                       <ExternalLink className="ml-2 size-3" />
                                     </a>
@@ -0,0 +1,295 @@
+"use client"
+
+import { use, useState } from "react"
+import Link from "next/link"
+import { ArrowLeft, AlertCircle, History, Minus, Plus, RefreshCw } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Skeleton } from "@/components/ui/skeleton"
+import { useDocumentVersion, useDocumentVersions } from "@/lib/hooks"
+import type { PlanChange, VersionProposal } from "@/lib/api/services"
+
+function formatPages(start: number | null, end: number | null) {
+  if (start === null) return null
+  return end === null || start === end ? `pág. ${start}` : `págs. ${start}-${end}`
+}
+
+function formatDate(date: string) {
+  return new Date(date).toLocaleDateString("es-CR", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+  })
+}
+
+const CHANGE_LABELS: Record<PlanChange["type"], string> = {
+  added: "Agregado",
+  removed: "Eliminado",
+  changed: "Modificado",
+}
+
+function ChangeItem({ change }: { change: PlanChange }) {
+  const pages = formatPages(change.pageStart, change.pageEnd)
+
+  return (
+    <div className="space-y-2 rounded-lg border p-3 text-sm">
+      <div className="flex items-center gap-2">
+        <Badge variant={change.type === "removed" ? "destructive" : change.type === "added" ? "default" : "secondary"}>
+          {CHANGE_LABELS[change.type]}
+        </Badge>
+        {pages && <span className="text-xs text-muted-foreground">{pages}</span>}
+      </div>
+      {change.before && (
+        <p className="whitespace-pre-line rounded bg-red-50 p-2 text-red-900 line-through decoration-red-300 dark:bg-red-950/30 dark:text-red-200">
+          {change.before}
+        </p>
+      )}
+      {change.after && (
+        <p className="whitespace-pre-line rounded bg-green-50 p-2 text-green-900 dark:bg-green-950/30 dark:text-green-200">
+          {change.after}
+        </p>
+      )}
+    </div>
+  )
+}
+
+function ProposalList({ title, proposals, icon }: { title: string; proposals: VersionProposal[]; icon: React.ReactNode }) {
+  return (
+    <div>
+      <h4 className="mb-2 flex items-center gap-2 text-sm font-semibold">
+        {icon}
+        {title} ({proposals.length})
+      </h4>
+      {proposals.length === 0 ? (
+        <p className="text-sm text-muted-foreground">Ninguna</p>
+      ) : (
+        <ul className="space-y-2">
+          {proposals.map((proposal, i) => (
+            <li key={i} className="text-sm">
+              <span className="font-medium">{proposal.title}</span>
+              <span className="text-muted-foreground">
+                {" "}• {proposal.topic}
+                {formatPages(proposal.pageStart, proposal.pageEnd) && ` • ${formatPages(proposal.pageStart, proposal.pageEnd)}`}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
+
+export default function DocumentVersionsPage({ params }: { params: Promise<{ id: string }> }) {
+  const { id } = use(params)
+  const { data, isLoading, isError, refetch } = useDocumentVersions(id)
+  const [selected, setSelected] = useState<number | null>(null)
+
+  const versions = data?.versions ?? []
+  const current = selected ?? versions[0]?.version ?? null
+  const { data: versionData, isLoading: versionLoading } = useDocumentVersion(id, current)
+  const detail = versionData?.version
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-background">
+        <div className="container mx-auto px-4 py-8">
+          <Skeleton className="mb-6 h-10 w-32" />
+          <Skeleton className="mb-8 h-16 w-full" />
+          <div className="grid gap-6 lg:grid-cols-[280px_1fr]">
+            <Skeleton className="h-64 w-full" />
+            <Skeleton className="h-96 w-full" />
+          </div>
+        </div>
+      </div>
+    )
+  }
+
+  if (isError || !data) {
+    return (
+      <div className="min-h-screen bg-background">
+        <div className="container mx-auto px-4 py-8">
+          <Card>
+            <CardContent className="flex flex-col items-center gap-4 py-12 text-center">
+              <AlertCircle className="size-12 text-destructive" />
+              <p className="text-muted-foreground">No se pudo cargar el historial del documento</p>
+              <Button onClick={() => refetch()}>Reintentar</Button>
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="container mx-auto px-4 py-8">
+        <Button variant="ghost" size="sm" className="mb-6" asChild>
+          <Link href="/documents">
+            <ArrowLeft className="size-4" />
+            Documentos
+          </Link>
+        </Button>
+
+        <div className="mb-8">
+          <h1 className="mb-2 text-3xl font-bold">{data.document.title}</h1>
+          <p className="text-muted-foreground">
+            {data.document.party_name} • Historial de versiones del plan
+          </p>
+        </div>
+
+        {versions.length === 0 ? (
+          <Card>
+            <CardContent className="flex flex-col items-center gap-4 py-12 text-center">
+              <History className="size-12 text-muted-foreground" />
+              <p className="text-muted-foreground">
+                Este plan aún no tiene versiones registradas. Se registran al volver a procesar el PDF.
+              </p>
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="grid gap-6 lg:grid-cols-[280px_1fr]">
+            {/* Version list */}
+            <div className="space-y-2">
+              {versions.map((version) => (
+                <button
+                  key={version.id}
+                  onClick={() => setSelected(version.version)}
+                  className={`w-full rounded-lg border p-3 text-left transition-colors hover:bg-muted ${
+                    version.version === current ? "border-primary bg-muted" : ""
+                  }`}
+                >
+                  <div className="flex items-center justify-between">
+                    <span className="font-semibold">Versión {version.version}</span>
+                    <span className="text-xs text-muted-foreground">{formatDate(version.created_at)}</span>
+                  </div>
+                  <p className="mt-1 text-xs text-muted-foreground">
+                    {version.page_count ?? "?"} páginas • {version.chunk_count} fragmentos
+                    {version.proposal_count !== null && ` • ${version.proposal_count} propuestas`}
+                  </p>
+                  {version.summary ? (
+                    <div className="mt-2 flex flex-wrap gap-1 text-xs">
+                      <span className="text-green-600">+{version.summary.added}</span>
+                      <span className="text-red-600">-{version.summary.removed}</span>
+                      <span className="text-amber-600">~{version.summary.changed}</span>
+                    </div>
+                  ) : (
+                    <p className="mt-2 text-xs text-muted-foreground">Primera versión</p>
+                  )}
+                </button>
+              ))}
+            </div>
+
+            {/* Selected version */}
+            {versionLoading || !detail ? (
+              <Skeleton className="h-96 w-full" />
+            ) : (
+              <div className="space-y-6">
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Versión {detail.version}</CardTitle>
+                    <CardDescription>
+                      {detail.previous_version === null
+                        ? "Primera versión registrada del plan"
+                        : `Cambios respecto a la versión ${detail.previous_version}`}
+                    </CardDescription>
+                  </CardHeader>
+                  {detail.diff && (
+                    <CardContent>
+                      <div className="grid gap-4 text-center sm:grid-cols-4">
+                        <div>
+                          <p className="text-2xl font-bold text-green-600">{detail.diff.summary.added}</p>
+                          <p className="text-xs text-muted-foreground">Párrafos agregados</p>
+                        </div>
+                        <div>
+                          <p className="text-2xl font-bold text-red-600">{detail.diff.summary.removed}</p>
+                          <p className="text-xs text-muted-foreground">Párrafos eliminados</p>
+                        </div>
+                        <div>
+                          <p className="text-2xl font-bold text-amber-600">{detail.diff.summary.changed}</p>
+                          <p className="text-xs text-muted-foreground">Párrafos modificados</p>
+                        </div>
+                        <div>
+                          <p className="text-2xl font-bold">{detail.diff.summary.unchanged}</p>
+                          <p className="text-xs text-muted-foreground">Sin cambios</p>
+                        </div>
+                      </div>
+                    </CardContent>
+                  )}
+                </Card>
+
+                {detail.previous_version !== null && (
+                  <Card>
+                    <CardHeader>
+                      <CardTitle>Propuestas</CardTitle>
+                      <CardDescription>
+                        Propuestas agregadas o retiradas respecto a la versión {detail.previous_version}
+                      </CardDescription>
+                    </CardHeader>
+                    <CardContent>
+                      {detail.proposal_changes ? (
+                        <div className="grid gap-6 md:grid-cols-2">
+                          <ProposalList
+                            title="Agregadas"
+                            proposals={detail.proposal_changes.added}
+                            icon={<Plus className="size-4 text-green-600" />}
+                          />
+                          <ProposalList
+                            title="Retiradas"
+                            proposals={detail.proposal_changes.dropped}
+                            icon={<Minus className="size-4 text-red-600" />}
+                          />
+                        </div>
+                      ) : (
+                        <p className="text-sm text-muted-foreground">
+                          Las propuestas no se extrajeron de ambas versiones.
+                        </p>
+                      )}
+                    </CardContent>
+                  </Card>
+                )}
+
+                {detail.diff && (
+                  <Card>
+                    <CardHeader>
+                      <CardTitle className="flex items-center gap-2">
+                        <RefreshCw className="size-5" />
+                        Qué cambió
+                      </CardTitle>
+                      <CardDescription>
+                        {detail.diff.summary.sections} secciones con cambios
+                      </CardDescription>
+                    </CardHeader>
+                    <CardContent className="space-y-6">
+                      {detail.diff.sections.length === 0 ? (
+                        <p className="text-sm text-muted-foreground">El texto del plan no cambió.</p>
+                      ) : (
+                        detail.diff.sections.map((section, i) => (
+                          <div key={i}>
+                            <div className="mb-3 flex flex-wrap items-center gap-2">
+                              <h3 className="font-semibold">{section.section ?? "Inicio del documento"}</h3>
+                              {section.pages.map((range) => (
+                                <Badge key={range.start} variant="outline">
+                                  {formatPages(range.start, range.end)}
+                                </Badge>
+                              ))}
+                            </div>
+                            <div className="space-y-3">
+                              {section.changes.map((change, j) => (
+                                <ChangeItem key={j} change={change} />
+                              ))}
+                            </div>
+                          </div>
+                        ))
+                      )}
+                    </CardContent>
+                  </Card>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -1,7 +1,8 @@
 "use client"
 
 import { useState, useMemo } from "react"
-import { Search, Grid3X3, List, Download, FileText, Filter, X, AlertCircle } from "lucide-react"
+import Link from "next/link"
+import { Search, Grid3X3, List, Download, FileText, Filter, X, AlertCircle, History } from "lucide-react"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card"
@@ -369,13 +370,19 @@ export default function DocumentsPage() {
                     {getAIUsageBadge(doc.aiUsagePercentage)}
                   </div>
                 </CardContent>
-                <CardFooter>
-                  <Button variant="outline" size="sm" className="w-full bg-transparent" asChild>
+                <CardFooter className="flex gap-2">
+                  <Button variant="outline" size="sm" className="flex-1 bg-transparent" asChild>
                     <a href={doc.url} target="_blank" rel="noopener noreferrer">
                       <Download className="size-4" />
                       Descargar PDF
                     </a>
                   </Button>
+                  <Button variant="ghost" size="sm" asChild>
+                    <Link href={`/documents/${doc.id}/versions`}>
+                      <History className="size-4" />
+                      Versiones
+                    </Link>
+                  </Button>
                 </CardFooter>
               </Card>
             ))}
@@ -423,6 +430,12 @@ export default function DocumentsPage() {
                         Descargar
                       </a>
                     </Button>
+                    <Button variant="ghost" size="sm" asChild>
+                      <Link href={`/documents/${doc.id}/versions`}>
+                        <History className="size-4" />
+                        Versiones
+                      </Link>
+                    </Button>
                   </div>
                 </CardContent>
               </Card>
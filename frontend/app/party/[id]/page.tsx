@@ -8,7 +8,20 @@ import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
 import { Skeleton } from "@/components/ui/skeleton"
-import { usePartyBySlug, usePartyCandidates } from "@/lib/hooks"
+import { SpecificityBreakdown } from "@/components/specificity-breakdown"
+import { usePartyBySlug, usePartyCandidates, usePartyConsistency, usePartyMatrix } from "@/lib/hooks"
+import type { ConsistencyFinding } from "@/lib/api/services/parties"
+
+const SEVERITY_LABELS: Record<ConsistencyFinding["severity"], string> = {
+  alta: "Contradicción alta",
+  media: "Contradicción media",
+  baja: "Contradicción baja",
+}
+
+function formatPages(start: number | null, end: number | null) {
+  if (start === null) return null
+  return end === null || start === end ? `pág. ${start}` : `págs. ${start}-${end}`
+}
 
 export default function PartyPage({ params }: { params: Promise<{ id: string }> }) {
   const { id } = use(params)
@@ -17,6 +30,14 @@ export default function PartyPage({ params }: { params: Promise<{ id: string }>
     partyData?.party.id || '',
     !!partyData?.party.id
   )
+  const { data: consistencyData, isLoading: consistencyLoading } = usePartyConsistency(
+    partyData?.party.id || '',
+    !!partyData?.party.id
+  )
+  const { data: matrixData, isLoading: matrixLoading } = usePartyMatrix(
+    partyData?.party.slug || '',
+    !!partyData?.party.slug
+  )
 
   // Loading state
   if (partyLoading) {
@@ -67,6 +88,10 @@ export default function PartyPage({ params }: { params: Promise<{ id: string }>
   const party = partyData.party
   const candidates = candidatesData?.candidates || []
   const abbreviation = party.abbreviation || party.slug.toUpperCase()
+  const findings = consistencyData?.findings || []
+  const topicCells = (matrixData?.topics || [])
+    .map((topic) => ({ topic, cell: matrixData?.cells.find((cell) => cell.topic === topic.slug) }))
+    .filter(({ cell }) => cell?.specificity)
 
   return (
     <div className="min-h-screen bg-background">
@@ -245,6 +270,92 @@ export default function PartyPage({ params }: { params: Promise<{ id: string }>
                 )}
               </CardContent>
             </Card>
+
+            {/* Proposal Specificity Section */}
+            <Card>
+              <CardHeader>
+                <CardTitle>Concreción de las propuestas</CardTitle>
+                <CardDescription>
+                  Qué tan concretas son las propuestas del {abbreviation} en cada tema: metas medibles,
+                  plazos, instituciones responsables y financiamiento, con las citas del plan de gobierno
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                {matrixLoading ? (
+                  <div className="space-y-4">
+                    {[...Array(2)].map((_, i) => (
+                      <Skeleton key={i} className="h-32 w-full" />
+                    ))}
+                  </div>
+                ) : topicCells.length > 0 ? (
+                  <div className="space-y-6">
+                    {topicCells.map(({ topic, cell }) => (
+                      <div key={topic.id}>
+                        <h3 className="mb-1 font-semibold">{topic.name}</h3>
+                        <p className="mb-3 text-sm text-muted-foreground line-clamp-3">{cell!.summary}</p>
+                        <SpecificityBreakdown specificity={cell!.specificity!} />
+                      </div>
+                    ))}
+                  </div>
+                ) : (
+                  <div className="py-8 text-center text-sm text-muted-foreground">
+                    Aún no hay análisis de concreción para este partido
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
+            {/* Consistency Section */}
+            <Card>
+              <CardHeader>
+                <CardTitle>Consistencia del plan</CardTitle>
+                <CardDescription>
+                  Afirmaciones del plan de gobierno que se contradicen entre sí o con las propuestas de sus candidatos
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                {consistencyLoading ? (
+                  <Skeleton className="h-32 w-full" />
+                ) : findings.length > 0 ? (
+                  <div className="space-y-4">
+                    {findings.map((finding) => (
+                      <div key={finding.id} className="rounded-lg border border-border p-4">
+                        <div className="mb-3 flex flex-wrap items-center gap-2">
+                          <Badge variant={finding.severity === "alta" ? "destructive" : "secondary"} className="text-xs">
+                            {SEVERITY_LABELS[finding.severity]}
+                          </Badge>
+                          <Badge variant="outline" className="text-xs capitalize">{finding.topic}</Badge>
+                          {finding.review_status === "pending" && (
+                            <span className="text-xs text-muted-foreground">Sin revisar</span>
+                          )}
+                        </div>
+                        <div className="grid gap-3 sm:grid-cols-2">
+                          <blockquote className="border-l-2 border-border pl-3 text-sm italic text-muted-foreground">
+                            "{finding.statement_a}"
+                            <div className="mt-1 text-xs not-italic">
+                              {`Plan de gobierno${formatPages(finding.page_a_start, finding.page_a_end) ? `, ${formatPages(finding.page_a_start, finding.page_a_end)}` : ""}`}
+                            </div>
+                          </blockquote>
+                          <blockquote className="border-l-2 border-border pl-3 text-sm italic text-muted-foreground">
+                            "{finding.statement_b}"
+                            <div className="mt-1 text-xs not-italic">
+                              {finding.kind === "candidate"
+                                ? `${finding.candidates?.name || "Candidato"}${finding.candidates?.position ? `, ${finding.candidates.position}` : ""}`
+                                : `Plan de gobierno${formatPages(finding.page_b_start, finding.page_b_end) ? `, ${formatPages(finding.page_b_start, finding.page_b_end)}` : ""}`}
+                            </div>
+                          </blockquote>
+                        </div>
+                        <p className="mt-3 text-sm">{finding.explanation}</p>
+                      </div>
+                    ))}
+                  </div>
+                ) : (
+                  <div className="py-8 text-center text-sm text-muted-foreground">
+                    No se encontraron contradicciones en el plan de este partido
+                  </div>
+                )}
+              </CardContent>
+            </Card>
           </div>
 
           {/* Sidebar */}
@@ -13,6 +13,8 @@ import {
   Upload,
   Logs,
   CheckCircle2,
+  Flag,
+  Users,
 } from "lucide-react"
 import { cn } from "@/lib/utils"
 
@@ -59,6 +61,16 @@ const navItems: NavItem[] = [
     href: "/admin/documents",
     icon: FileText,
   },
+  {
+    title: "Partidos",
+    href: "/admin/parties",
+    icon: Flag,
+  },
+  {
+    title: "Candidatos",
+    href: "/admin/candidates",
+    icon: Users,
+  },
   {
     title: "Estadísticas",
     href: "/admin/analytics",
@@ -0,0 +1,88 @@
+"use client"
+
+import { CheckCircle2, CircleDashed, Target } from "lucide-react"
+import { Badge } from "@/components/ui/badge"
+import { cn } from "@/lib/utils"
+import type { SpecificityLevel, SpecificityScore } from "@/lib/api/services/compare"
+
+interface SpecificityBreakdownProps {
+  specificity: SpecificityScore
+  compact?: boolean // Hide the quoted evidence
+  className?: string
+}
+
+const LEVEL_LABELS: Record<SpecificityLevel, string> = {
+  concreta: "Propuesta concreta",
+  parcial: "Parcialmente concreta",
+  vaga: "Propuesta vaga",
+}
+
+const LEVEL_STYLES: Record<SpecificityLevel, string> = {
+  concreta: "border-green-600/30 bg-green-500/10 text-green-700 dark:text-green-400",
+  parcial: "border-yellow-600/30 bg-yellow-500/10 text-yellow-700 dark:text-yellow-400",
+  vaga: "border-orange-600/30 bg-orange-500/10 text-orange-700 dark:text-orange-400",
+}
+
+/**
+ * Rubric breakdown of how concrete a proposal is: measurable targets,
+ * timelines, responsible institutions and funding, with the quoted
+ * sentences of the plan behind every criterion
+ */
+export function SpecificityBreakdown({ specificity, compact = false, className }: SpecificityBreakdownProps) {
+  return (
+    <div className={cn("rounded-lg border border-border p-4", className)}>
+      <div className="mb-3 flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2 text-xs font-medium text-muted-foreground">
+          <Target className="size-3.5" />
+          Nivel de concreción
+        </div>
+        <Badge variant="outline" className={cn("text-xs", LEVEL_STYLES[specificity.level])}>
+          {LEVEL_LABELS[specificity.level]} · {Math.round(specificity.score * 100)}%
+        </Badge>
+      </div>
+
+      <ul className="space-y-3">
+        {specificity.criteria.map((criterion) => (
+          <li key={criterion.criterion}>
+            <div className="flex items-center justify-between gap-2">
+              <div className="flex items-center gap-2 text-sm">
+                {criterion.score > 0 ? (
+                  <CheckCircle2 className="size-4 text-green-600" />
+                ) : (
+                  <CircleDashed className="size-4 text-muted-foreground" />
+                )}
+                <span className={criterion.score > 0 ? "font-medium" : "text-muted-foreground"}>
+                  {criterion.label}
+                </span>
+              </div>
+              <span className="text-xs text-muted-foreground">
+                {criterion.score}/{criterion.maxScore}
+              </span>
+            </div>
+            {!compact && criterion.evidence.length > 0 && (
+              <div className="mt-1 space-y-1 pl-6">
+                {criterion.evidence.map((evidence, index) => (
+                  <blockquote
+                    key={`${evidence.chunkId || criterion.criterion}-${index}`}
+                    className="border-l-2 border-border pl-2 text-xs italic leading-relaxed text-muted-foreground"
+                  >
+                    "{evidence.quote}"
+                    {evidence.pageNumber !== undefined && (
+                      <span className="ml-1 not-italic">(pág. {evidence.pageNumber})</span>
+                    )}
+                  </blockquote>
+                ))}
+              </div>
+            )}
+          </li>
+        ))}
+      </ul>
+
+      {specificity.missing.length > 0 && (
+        <p className="mt-3 text-xs text-muted-foreground">
+          <span className="font-medium">No especifica:</span> {specificity.missing.join(", ").toLowerCase()}.
+        </p>
+      )}
+    </div>
+  )
+}
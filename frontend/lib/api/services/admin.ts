@@ -0,0 +1,234 @@
+/**
+ * Admin API Service
+ * Provider state, corpus statistics, ingestion jobs and cache warmup (admin only)
+ */
+
+import { api } from '../client';
+
+export type ProviderKind = 'llm' | 'embedding' | 'vectorStore';
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+/**
+ * Active providers as configured in the backend
+ */
+export interface ProvidersReport {
+  llm: {
+    provider: string;
+    fallbackChain: string[] | null;
+    model: string | null;
+    contextWindow: number | null;
+    supportsFunctionCalling: boolean | null;
+    circuits: Record<string, CircuitState> | null;
+    error?: string;
+  };
+  embedding: {
+    provider: string;
+    model: string | null;
+    dimension: number | null;
+    maxInputLength: number | null;
+    error?: string;
+  };
+  vectorStore: {
+    provider: string;
+    storedDimension: number | null;
+    columnDimension: number | null; // Dimension declared by the embedding column
+    error?: string;
+  };
+}
+
+export interface ProviderHealthCheck {
+  provider: ProviderKind;
+  status: 'ok' | 'error';
+  latencyMs: number;
+  detail?: string;
+  error?: string;
+}
+
+export interface ProviderHealthResponse {
+  status: 'healthy' | 'degraded';
+  checks: ProviderHealthCheck[];
+  timestamp: string;
+}
+
+export type IngestionJobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+export type IngestStage = 'download' | 'parse' | 'clean' | 'chunk' | 'extract' | 'embed' | 'store';
+
+export interface IngestionJobDocument {
+  url: string;
+  documentId: string;
+}
+
+export interface PageRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * Changes of a re-ingested document against its stored version
+ */
+export interface ChunkDiffReport {
+  sourceChanged: boolean; // False when the PDF was unchanged and skipped
+  previousChunks: number;
+  currentChunks: number;
+  added: number;
+  removed: number;
+  modified: number;
+  unchanged: number;
+  embedded: number;
+  pages: {
+    added: PageRange[];
+    removed: PageRange[];
+    modified: PageRange[];
+  };
+}
+
+export interface IngestionJobResult {
+  documentId: string;
+  success: boolean;
+  error?: string;
+  chunkCount: number;
+  proposalCount?: number;
+  diff?: ChunkDiffReport;
+  stats: {
+    downloadTime: number;
+    parseTime: number;
+    cleanTime: number;
+    chunkTime: number;
+    embeddingTime?: number;
+    extractionTime?: number;
+    ocrPages?: number; // Pages whose text was recognized with OCR
+    totalTime: number;
+  };
+}
+
+export interface IngestionJob {
+  id: string;
+  status: IngestionJobStatus;
+  documents: IngestionJobDocument[];
+  options: Record<string, unknown>;
+  progress: {
+    documentId: string;
+    documentIndex: number;
+    stage: IngestStage;
+    embedded?: number;
+    totalChunks?: number;
+  } | null;
+  results: IngestionJobResult[];
+  error: string | null;
+  attempts: number;
+  cancel_requested: boolean;
+  created_by: string | null;
+  created_at: string;
+  started_at: string | null;
+  finished_at: string | null;
+  heartbeat_at: string | null;
+  updated_at: string;
+}
+
+export interface AdminStatsResponse {
+  corpus: {
+    documents: number;
+    chunks: number;
+    chunksWithoutEmbedding: number;
+  };
+  ingestion: {
+    jobs: Record<IngestionJobStatus, number>;
+    recentJobs: IngestionJob[];
+  };
+  timestamp: string;
+}
+
+export interface IngestOptions {
+  generateEmbeddings?: boolean;
+  storeInVectorDB?: boolean;
+  extractProposals?: boolean;
+  updateMatrix?: boolean;
+  force?: boolean; // Re-process even if the PDF is unchanged
+}
+
+export interface IngestJobResponse {
+  jobId: string;
+  job: IngestionJob;
+}
+
+export interface WarmupStatus {
+  inProgress: boolean;
+  startedBy: string;
+  startedAt: string;
+  finishedAt: string | null;
+  total: number;
+  cached: number;
+  skipped: number;
+  incomplete: number;
+  failed: number;
+}
+
+export interface WarmupParams {
+  topics?: string[];
+  partyIds?: string[];
+}
+
+export const adminService = {
+  /**
+   * Get the active LLM, embedding and vector store providers
+   */
+  getProviders: async (): Promise<{ providers: ProvidersReport }> => {
+    return api.get<{ providers: ProvidersReport }>('/api/admin/providers');
+  },
+
+  /**
+   * Run a real request against every provider
+   */
+  checkProviderHealth: async (includeLLM = true): Promise<ProviderHealthResponse> => {
+    return api.get<ProviderHealthResponse>(`/api/admin/providers/health?llm=${includeLLM}`);
+  },
+
+  /**
+   * Get document and chunk counts and the recent ingestion jobs
+   */
+  getStats: async (jobs?: number): Promise<AdminStatsResponse> => {
+    return api.get<AdminStatsResponse>(`/api/admin/stats${jobs ? `?jobs=${jobs}` : ''}`);
+  },
+
+  /**
+   * Queue the ingestion of one document
+   */
+  ingest: async (document: IngestionJobDocument, options?: IngestOptions): Promise<IngestJobResponse> => {
+    return api.post<IngestJobResponse>('/api/ingest/ingest', { ...document, options });
+  },
+
+  /**
+   * Queue the ingestion of several documents as one job
+   */
+  ingestBatch: async (documents: IngestionJobDocument[], options?: IngestOptions): Promise<IngestJobResponse> => {
+    return api.post<IngestJobResponse>('/api/ingest/batch', { documents, options });
+  },
+
+  /**
+   * Cancel a queued or running ingestion job
+   */
+  cancelJob: async (id: string): Promise<{ job: IngestionJob }> => {
+    return api.post<{ job: IngestionJob }>(`/api/ingest/jobs/${id}/cancel`);
+  },
+
+  /**
+   * Queue a failed or cancelled ingestion job again
+   */
+  retryJob: async (id: string): Promise<{ job: IngestionJob }> => {
+    return api.post<{ job: IngestionJob }>(`/api/ingest/jobs/${id}/retry`);
+  },
+
+  /**
+   * Get the status of the last comparison cache warmup
+   */
+  getWarmupStatus: async (): Promise<{ warmup: WarmupStatus | null }> => {
+    return api.get<{ warmup: WarmupStatus | null }>('/api/compare/warmup');
+  },
+
+  /**
+   * Start pre-computing the comparison cache
+   */
+  startWarmup: async (params: WarmupParams = {}): Promise<{ warmup: WarmupStatus }> => {
+    return api.post<{ warmup: WarmupStatus }>('/api/compare/warmup', params);
+  },
+};
@@ -21,6 +21,41 @@ export interface CandidateDetailResponse {
   party: Party | null;
 }
 
+/**
+ * Candidate fields accepted by the admin create and update endpoints
+ */
+export interface CandidateInput {
+  party_id: string;
+  name: string;
+  slug: string;
+  nicknames?: string[];
+  position: string;
+  photo_url?: string; // HTTPS image URL
+  birth_date?: string; // YYYY-MM-DD
+  birth_place?: string;
+  education?: string[];
+  professional_experience?: string[];
+  political_experience?: string[];
+  biography?: string;
+  proposals?: {
+    topic: string;
+    description: string;
+  }[];
+  social_media?: {
+    twitter?: string;
+    facebook?: string;
+    instagram?: string;
+  };
+}
+
+/**
+ * Candidate update: required fields may be left out, optional ones set to null
+ * are cleared (nicknames with an empty list)
+ */
+export type CandidateUpdateInput = Partial<Pick<CandidateInput, 'party_id' | 'name' | 'slug' | 'position' | 'nicknames'>> & {
+  [K in Exclude<keyof CandidateInput, 'party_id' | 'name' | 'slug' | 'position' | 'nicknames'>]?: CandidateInput[K] | null;
+};
+
 export interface ListCandidatesParams {
   limit?: number;
   offset?: number;
@@ -57,5 +92,26 @@ export const candidatesService = {
   getBySlug: async (slug: string): Promise<CandidateDetailResponse> => {
     return api.get<CandidateDetailResponse>(`/api/candidates/slug/${slug}`);
   },
+
+  /**
+   * Create a candidate (admin)
+   */
+  create: async (data: CandidateInput): Promise<{ candidate: Candidate }> => {
+    return api.post<{ candidate: Candidate }>('/api/candidates', data);
+  },
+
+  /**
+   * Update a candidate (admin)
+   */
+  update: async (id: string, data: CandidateUpdateInput): Promise<{ candidate: Candidate }> => {
+    return api.patch<{ candidate: Candidate }>(`/api/candidates/${id}`, data);
+  },
+
+  /**
+   * Delete a candidate (admin)
+   */
+  delete: async (id: string): Promise<void> => {
+    await api.delete<void>(`/api/candidates/${id}`);
+  },
 };
 
@@ -5,6 +5,7 @@
 
 import { api } from '../client';
 import type { ChatRequest, ChatResponse } from '../types';
+import { getChatSessionId } from '../../chat-session';
 
 export const chatService = {
   /**
@@ -21,6 +22,24 @@ export const chatService = {
     if (request.filters?.party?.[0]) {
       backendRequest.party = request.filters.party[0]; // Backend expects single party string, not array
     }
+
+    // Previous turns let the backend resolve follow-ups like "¿y el PUSC?"
+    if (request.conversationHistory?.length) {
+      backendRequest.conversationHistory = request.conversationHistory;
+    }
+
+    if (request.verification) {
+      backendRequest.verification = request.verification;
+    }
+
+    // Conversations are stored server-side (anonymous ones under the session id)
+    if (request.conversationId) {
+      backendRequest.conversationId = request.conversationId;
+    }
+    const sessionId = getChatSessionId();
+    if (sessionId) {
+      backendRequest.sessionId = sessionId;
+    }
     
     const response = await api.post<any>('/api/chat', backendRequest);
     
@@ -36,7 +55,10 @@ export const chatService = {
         document: source.document || '',
         page: source.page || undefined,
       })) || [],
-      conversationId: request.conversationId || '', // Backend doesn't return this yet
+      citations: response.citations || [],
+      claims: response.claims || [],
+      verification: response.verification || null,
+      conversationId: response.conversationId || request.conversationId || '',
       confidence: 0, // Not provided by backend
     };
   },
@@ -68,6 +90,18 @@ export const chatService = {
       backendRequest.party = request.filters.party[0];
     }
 
+    if (request.conversationHistory?.length) {
+      backendRequest.conversationHistory = request.conversationHistory;
+    }
+
+    if (request.conversationId) {
+      backendRequest.conversationId = request.conversationId;
+    }
+    const sessionId = getChatSessionId();
+    if (sessionId) {
+      backendRequest.sessionId = sessionId;
+    }
+
     try {
       const response = await fetch(`${apiUrl}/api/chat/stream`, {
         method: 'POST',
@@ -95,6 +129,8 @@ export const chatService = {
       let buffer = '';
       let accumulatedContent = '';
       let sources: any[] = [];
+      let citations: any[] = [];
+      let claims: any[] = [];
 
       // Process stream chunks
       (async () => {
@@ -126,6 +162,10 @@ export const chatService = {
                   } else if (parsed.type === 'sources') {
                     // Store sources when received (backend now sends content field)
                     sources = parsed.sources || [];
+                  } else if (parsed.type === 'citations') {
+                    // Inline [N] markers resolved once the answer is complete
+                    citations = parsed.citations || [];
+                    claims = parsed.claims || [];
                   } else if (parsed.type === 'done') {
                     // Map backend response to frontend format
                     const chatResponse: ChatResponse = {
@@ -140,7 +180,9 @@ export const chatService = {
                         document: source.document || '',
                         page: source.page || undefined,
                       })),
-                      conversationId: request.conversationId || '',
+                      citations,
+                      claims,
+                      conversationId: parsed.conversationId || request.conversationId || '',
                       confidence: 0,
                     };
                     onComplete(chatResponse);
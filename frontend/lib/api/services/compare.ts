@@ -4,6 +4,7 @@
  */
 
 import { api } from '../client';
+import type { Citation, AnswerClaim } from '../types';
 
 /**
  * Proposal state enum
@@ -27,6 +28,39 @@ export interface ProposalSource {
   chunkId?: string;
 }
 
+/**
+ * Concreteness criteria of the specificity rubric
+ */
+export type SpecificityCriterion = 'measurable_targets' | 'timeline' | 'institutions' | 'funding';
+
+export type SpecificityLevel = 'concreta' | 'parcial' | 'vaga';
+
+/**
+ * Score of one rubric criterion, with the quoted sentences supporting it
+ */
+export interface CriterionScore {
+  criterion: SpecificityCriterion;
+  label: string;
+  score: number; // 0 to maxScore
+  maxScore: number;
+  evidence: Array<{
+    quote: string;
+    pageNumber?: number;
+    chunkId?: string;
+  }>;
+}
+
+/**
+ * How concrete a party's position is (measurable targets, timelines,
+ * named institutions and funding mechanism)
+ */
+export interface SpecificityScore {
+  score: number; // 0.0 to 1.0
+  level: SpecificityLevel;
+  criteria: CriterionScore[];
+  missing: string[]; // Labels of the criteria without evidence
+}
+
 /**
  * Comparison result for a single party
  */
@@ -34,11 +68,15 @@ export interface PartyComparison {
   party: string;
   partyName: string;
   partyAbbreviation: string | null;
+  tsePlanUrl?: string | null; // Official plan PDF published by the TSE
   answer: string;
   state: ProposalState;
   stateLabel: string;
   confidence: number;
+  specificity?: SpecificityScore;
   sources: ProposalSource[];
+  citations?: Citation[];
+  claims?: AnswerClaim[];
 }
 
 /**
@@ -63,6 +101,24 @@ export interface CompareProposalsResponse {
   };
 }
 
+/**
+ * Streaming comparison request parameters
+ */
+export interface StreamCompareParams extends CompareProposalsParams {
+  concurrency?: number;
+}
+
+/**
+ * Callbacks for the streaming comparison
+ * Parties arrive in completion order, not request order
+ */
+export interface StreamCompareHandlers {
+  onParty: (comparison: PartyComparison) => void;
+  onPartyError?: (party: string) => void;
+  onComplete: (result: { summary: string | null; metadata: Record<string, unknown> }) => void;
+  onError: (error: Error) => void;
+}
+
 export const compareService = {
   /**
    * Compare proposals between multiple parties on a specific topic
@@ -75,7 +131,98 @@ export const compareService = {
       timeout: 180000, // 3 minutes
     });
   },
-};
 
+  /**
+   * Stream a comparison using Server-Sent Events, one event per party
+   * followed by the cross-party summary
+   * Returns a cancel function to abort the stream
+   */
+  streamCompare: async (
+    params: StreamCompareParams,
+    handlers: StreamCompareHandlers
+  ): Promise<() => void> => {
+    const controller = new AbortController();
+    const apiUrl = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001';
+
+    const accessToken = typeof window !== 'undefined'
+      ? localStorage.getItem('accessToken')
+      : null;
+
+    try {
+      const response = await fetch(`${apiUrl}/api/compare/stream`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(accessToken ? { Authorization: `Bearer ${accessToken}` } : {}),
+        },
+        body: JSON.stringify(params),
+        signal: controller.signal,
+        credentials: 'include',
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text().catch(() => response.statusText);
+        throw new Error(`Stream failed: ${response.status} ${errorText}`);
+      }
+
+      if (!response.body) {
+        throw new Error('No response body');
+      }
 
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = '';
 
+      (async () => {
+        try {
+          while (true) {
+            const { done, value } = await reader.read();
+
+            if (done) break;
+
+            buffer += decoder.decode(value, { stream: true });
+
+            // Parse SSE format (keep-alive comments are skipped)
+            const lines = buffer.split('\n');
+            buffer = lines.pop() || '';
+
+            for (const line of lines) {
+              if (!line.startsWith('data: ')) {
+                continue;
+              }
+              try {
+                const parsed = JSON.parse(line.slice(6).trim());
+
+                if (parsed.type === 'party') {
+                  handlers.onParty(parsed.comparison);
+                } else if (parsed.type === 'party_error') {
+                  handlers.onPartyError?.(parsed.party);
+                } else if (parsed.type === 'done') {
+                  handlers.onComplete({ summary: parsed.summary ?? null, metadata: parsed.metadata || {} });
+                } else if (parsed.type === 'error') {
+                  handlers.onError(new Error(parsed.message || 'Stream error'));
+                }
+              } catch (e) {
+                console.error('Parse error:', e);
+              }
+            }
+          }
+        } catch (error) {
+          if (error instanceof Error && error.name === 'AbortError') {
+            console.log('Stream cancelled');
+          } else {
+            handlers.onError(error instanceof Error ? error : new Error(String(error)));
+          }
+        }
+      })();
+    } catch (error) {
+      if (error instanceof Error && error.name === 'AbortError') {
+        console.log('Stream cancelled');
+      } else {
+        handlers.onError(error instanceof Error ? error : new Error(String(error)));
+      }
+    }
+
+    return () => controller.abort();
+  },
+};
@@ -0,0 +1,107 @@
+/**
+ * Conversations API Service
+ * Handles persisted chat conversations
+ */
+
+import { api } from '../client';
+
+/**
+ * Conversation type matching backend response
+ */
+export interface Conversation {
+  id: string;
+  user_id: string | null;
+  anonymous_session_id: string | null;
+  title: string;
+  last_message_at: string;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Conversation message type matching backend response
+ */
+export interface ConversationMessage {
+  id: string;
+  conversation_id: string;
+  role: 'user' | 'assistant';
+  content: string;
+  sources: any[];
+  metadata: {
+    model?: string;
+    tokensUsed?: number;
+    processingTime?: number;
+    cached?: boolean;
+  };
+  created_at: string;
+}
+
+export interface ConversationsListResponse {
+  conversations: Conversation[];
+  pagination: {
+    total: number;
+    limit: number;
+    offset: number;
+    hasMore: boolean;
+  };
+}
+
+export interface ConversationDetailResponse {
+  conversation: Conversation;
+  messages: ConversationMessage[];
+}
+
+export interface ListConversationsParams {
+  limit?: number;
+  offset?: number;
+}
+
+export const conversationsService = {
+  /**
+   * Get the current user's conversations, most recently active first
+   */
+  list: async (params?: ListConversationsParams): Promise<ConversationsListResponse> => {
+    const queryParams = new URLSearchParams();
+
+    if (params?.limit) queryParams.append('limit', params.limit.toString());
+    if (params?.offset) queryParams.append('offset', params.offset.toString());
+
+    const endpoint = `/api/conversations${queryParams.toString() ? `?${queryParams.toString()}` : ''}`;
+    return api.get<ConversationsListResponse>(endpoint);
+  },
+
+  /**
+   * Get a conversation with its messages
+   */
+  getById: async (id: string): Promise<ConversationDetailResponse> => {
+    return api.get<ConversationDetailResponse>(`/api/conversations/${id}`);
+  },
+
+  /**
+   * Create an empty conversation
+   */
+  create: async (title: string): Promise<{ conversation: Conversation }> => {
+    return api.post<{ conversation: Conversation }>('/api/conversations', { title });
+  },
+
+  /**
+   * Rename a conversation
+   */
+  rename: async (id: string, title: string): Promise<{ conversation: Conversation }> => {
+    return api.patch<{ conversation: Conversation }>(`/api/conversations/${id}`, { title });
+  },
+
+  /**
+   * Delete a conversation
+   */
+  delete: async (id: string): Promise<{ success: boolean; id: string }> => {
+    return api.delete<{ success: boolean; id: string }>(`/api/conversations/${id}`);
+  },
+
+  /**
+   * Transfer the conversations of an anonymous chat session to the current user
+   */
+  claim: async (sessionId: string): Promise<{ claimed: number }> => {
+    return api.post<{ claimed: number }>('/api/conversations/claim', { sessionId });
+  },
+};
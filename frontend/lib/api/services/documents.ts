@@ -9,6 +9,78 @@ import type {
   DocumentDetailResponse,
   DocumentListRequest,
 } from '../types';
+import type { PageRange } from './admin';
+
+export interface DocumentVersionSummary {
+  id: string;
+  version: number;
+  source_hash: string | null;
+  content_version: string;
+  page_count: number | null;
+  chunk_count: number;
+  proposal_count: number | null;
+  summary: PlanVersionDiff['summary'] | null; // Changes against the previous version
+  created_at: string;
+}
+
+export type PlanChangeType = 'added' | 'removed' | 'changed';
+
+export interface PlanChange {
+  type: PlanChangeType;
+  before?: string;
+  after?: string;
+  pageStart: number | null;
+  pageEnd: number | null;
+}
+
+export interface PlanSectionChanges {
+  section: string | null; // null = text before the first heading
+  pages: PageRange[];
+  changes: PlanChange[];
+}
+
+export interface PlanVersionDiff {
+  summary: {
+    added: number;
+    removed: number;
+    changed: number;
+    unchanged: number;
+    sections: number;
+  };
+  sections: PlanSectionChanges[];
+}
+
+export interface VersionProposal {
+  title: string;
+  topic: string;
+  pageStart: number | null;
+  pageEnd: number | null;
+}
+
+export interface DocumentVersionDetail extends Omit<DocumentVersionSummary, 'summary'> {
+  document_id: string;
+  previous_version: number | null;
+  diff: PlanVersionDiff | null;
+  proposals: VersionProposal[] | null;
+  proposal_changes: { added: VersionProposal[]; dropped: VersionProposal[] } | null;
+}
+
+export interface VersionedDocument {
+  id: string;
+  document_id: string;
+  title: string;
+  party_name: string;
+}
+
+export interface DocumentVersionsResponse {
+  document: VersionedDocument;
+  versions: DocumentVersionSummary[];
+}
+
+export interface DocumentVersionResponse {
+  document: VersionedDocument;
+  version: DocumentVersionDetail;
+}
 
 export const documentsService = {
   /**
@@ -38,4 +110,18 @@ export const documentsService = {
   getChunks: async (id: string): Promise<{ chunks: any[] }> => {
     return api.get(`/api/documents/${id}/chunks`);
   },
+
+  /**
+   * Get the version history of a document, newest first
+   */
+  getVersions: async (id: string): Promise<DocumentVersionsResponse> => {
+    return api.get<DocumentVersionsResponse>(`/api/documents/${id}/versions`);
+  },
+
+  /**
+   * Get what changed in a version of a document
+   */
+  getVersion: async (id: string, version: number): Promise<DocumentVersionResponse> => {
+    return api.get<DocumentVersionResponse>(`/api/documents/${id}/versions/${version}`);
+  },
 };
@@ -11,10 +11,19 @@ export { authService } from './auth';
 export { partiesService } from './parties';
 export { candidatesService } from './candidates';
 export { compareService } from './compare';
+export { conversationsService } from './conversations';
+export { matrixService } from './matrix';
+export { proposalsService } from './proposals';
+export { adminService } from './admin';
 
 // Re-export types
 export * from '../types';
-export type { Party, Candidate, PartiesListResponse, PartyDetailResponse, PartyCandidatesResponse, ListPartiesParams } from './parties';
-export type { CandidatesListResponse, CandidateDetailResponse, ListCandidatesParams } from './candidates';
-export type { CompareProposalsParams, CompareProposalsResponse, PartyComparison, ProposalSource } from './compare';
+export type { Party, Candidate, PartiesListResponse, PartyDetailResponse, PartyCandidatesResponse, ListPartiesParams, PartyInput, PartyUpdateInput, ConsistencyFinding, ConsistencyReviewStatus, PartyConsistencyResponse } from './parties';
+export type { CandidatesListResponse, CandidateDetailResponse, ListCandidatesParams, CandidateInput, CandidateUpdateInput } from './candidates';
+export type { CompareProposalsParams, CompareProposalsResponse, PartyComparison, ProposalSource, SpecificityScore, CriterionScore, SpecificityLevel } from './compare';
 export { ProposalState } from './compare';
+export type { Conversation, ConversationMessage, ConversationsListResponse, ConversationDetailResponse, ListConversationsParams } from './conversations';
+export type { MatrixTopic, MatrixParty, MatrixCell, ProposalMatrixResponse, GetMatrixParams } from './matrix';
+export type { Proposal, ProposalDetail, ProposalsListResponse, ProposalTopicCount, ListProposalsParams } from './proposals';
+export type { ProvidersReport, ProviderHealthCheck, ProviderHealthResponse, AdminStatsResponse, IngestionJob, IngestionJobStatus, IngestionJobDocument, IngestionJobResult, ChunkDiffReport, IngestOptions, WarmupStatus } from './admin';
+export type { DocumentVersionSummary, DocumentVersionDetail, PlanVersionDiff, PlanSectionChanges, PlanChange, VersionProposal } from './documents';
@@ -0,0 +1,74 @@
+/**
+ * Matrix API Service
+ * Handles the stored topic x party proposal matrix
+ */
+
+import { api } from '../client';
+import type { ProposalState, SpecificityScore } from './compare';
+
+export interface MatrixTopic {
+  id: string;
+  slug: string;
+  name: string;
+  description: string | null;
+}
+
+export interface MatrixParty {
+  id: string;
+  slug: string;
+  name: string;
+  abbreviation: string | null;
+}
+
+/**
+ * One party x topic cell
+ */
+export interface MatrixCell {
+  topic: string; // Topic slug
+  party: string; // Party slug
+  summary: string;
+  state: ProposalState;
+  stateLabel: string;
+  confidence: number;
+  specificity: SpecificityScore | null; // null for cells built before scoring
+  chunkIds: string[];
+  documentId: string | null;
+  builtAt: string;
+}
+
+/**
+ * Matrix response
+ * Cells that have not been built (e.g. parties without a plan) are missing
+ */
+export interface ProposalMatrixResponse {
+  topics: MatrixTopic[];
+  parties: MatrixParty[];
+  cells: MatrixCell[];
+}
+
+export interface GetMatrixParams {
+  topics?: string[]; // Topic slugs
+  parties?: string[]; // Party slugs or abbreviations
+}
+
+export const matrixService = {
+  /**
+   * Get the matrix, optionally filtered by topics and/or parties
+   */
+  get: async (params?: GetMatrixParams): Promise<ProposalMatrixResponse> => {
+    const queryParams = new URLSearchParams();
+
+    if (params?.topics?.length) queryParams.append('topics', params.topics.join(','));
+    if (params?.parties?.length) queryParams.append('parties', params.parties.join(','));
+
+    const endpoint = `/api/matrix${queryParams.toString() ? `?${queryParams.toString()}` : ''}`;
+    return api.get<ProposalMatrixResponse>(endpoint);
+  },
+
+  /**
+   * Get the active topics of the taxonomy
+   */
+  listTopics: async (): Promise<{ topics: MatrixTopic[] }> => {
+    return api.get<{ topics: MatrixTopic[] }>('/api/matrix/topics');
+  },
+};
@@ -31,6 +31,11 @@ export interface Party {
     deputies: number;
     mayors: number;
   } | null;
+  aliases: string[];
+  detection_patterns: string[];
+  document_party_id: string | null; // Party id of the TSE plan documents
+  tse_plan_url: string | null;
+  featured_rank: number | null; // null = not featured
   created_at: string;
   updated_at: string;
 }
@@ -43,6 +48,7 @@ export interface Candidate {
   party_id: string;
   name: string;
   slug: string;
+  nicknames: string[];
   position: string;
   photo_url: string | null;
   birth_date: string | null;
@@ -83,6 +89,78 @@ export interface PartyCandidatesResponse {
   candidates: Candidate[];
 }
 
+export type ConsistencyReviewStatus = 'pending' | 'confirmed' | 'dismissed';
+
+/**
+ * Contradiction found in a party's plan, or between the plan and a
+ * candidate's proposals (kind "candidate")
+ */
+export interface ConsistencyFinding {
+  id: string;
+  party_id: string;
+  topic: string;
+  kind: 'plan' | 'candidate';
+  statement_a: string;
+  chunk_a_id: string;
+  page_a_start: number | null;
+  page_a_end: number | null;
+  statement_b: string;
+  chunk_b_id: string | null;
+  page_b_start: number | null;
+  page_b_end: number | null;
+  candidate_id: string | null;
+  explanation: string;
+  severity: 'alta' | 'media' | 'baja';
+  review_status: ConsistencyReviewStatus;
+  review_notes: string | null;
+  reviewed_at: string | null;
+  analyzed_at: string;
+  candidates?: {
+    name: string;
+    position: string;
+  } | null;
+}
+
+export interface PartyConsistencyResponse {
+  party: Pick<Party, 'id' | 'slug' | 'name'>;
+  findings: ConsistencyFinding[];
+  analysisInProgress: boolean;
+}
+
+/**
+ * Party fields accepted by the admin create and update endpoints
+ */
+export interface PartyInput {
+  name: string;
+  abbreviation?: string;
+  slug: string;
+  founded_year?: number;
+  ideology?: string[];
+  colors: {
+    primary: string;
+    secondary: string;
+  };
+  logo_url?: string; // HTTPS image URL
+  description?: string;
+  website?: string;
+  social_media?: {
+    twitter?: string;
+    facebook?: string;
+    instagram?: string;
+  };
+  current_representation?: {
+    deputies: number;
+    mayors: number;
+  };
+}
+
+/**
+ * Party update: required fields may be left out, optional ones set to null are cleared
+ */
+export type PartyUpdateInput = Partial<Pick<PartyInput, 'name' | 'slug' | 'colors'>> & {
+  [K in Exclude<keyof PartyInput, 'name' | 'slug' | 'colors'>]?: PartyInput[K] | null;
+};
+
 export interface ListPartiesParams {
   limit?: number;
   offset?: number;
@@ -122,5 +200,58 @@ export const partiesService = {
   getCandidates: async (partyId: string): Promise<PartyCandidatesResponse> => {
     return api.get<PartyCandidatesResponse>(`/api/parties/${partyId}/candidates`);
   },
+
+  /**
+   * Get the contradictions found in a party's plan (dismissed findings excluded)
+   */
+  getConsistency: async (partyId: string): Promise<PartyConsistencyResponse> => {
+    return api.get<PartyConsistencyResponse>(`/api/parties/${partyId}/consistency`);
+  },
+
+  /**
+   * Get every finding of a party, dismissed ones included (admin)
+   */
+  getConsistencyForReview: async (partyId: string): Promise<Omit<PartyConsistencyResponse, 'party'>> => {
+    return api.get<Omit<PartyConsistencyResponse, 'party'>>(`/api/parties/${partyId}/consistency/review`);
+  },
+
+  /**
+   * Start the consistency analysis of a party (admin)
+   */
+  analyzeConsistency: async (partyId: string): Promise<{ status: string; party: string }> => {
+    return api.post<{ status: string; party: string }>(`/api/parties/${partyId}/consistency/analyze`);
+  },
+
+  /**
+   * Confirm or dismiss a finding (admin)
+   */
+  reviewConsistencyFinding: async (
+    partyId: string,
+    findingId: string,
+    review: { status: ConsistencyReviewStatus; notes?: string }
+  ): Promise<{ finding: ConsistencyFinding }> => {
+    return api.patch<{ finding: ConsistencyFinding }>(`/api/parties/${partyId}/consistency/${findingId}`, review);
+  },
+
+  /**
+   * Create a party (admin)
+   */
+  create: async (data: PartyInput): Promise<PartyDetailResponse> => {
+    return api.post<PartyDetailResponse>('/api/parties', data);
+  },
+
+  /**
+   * Update a party (admin)
+   */
+  update: async (id: string, data: PartyUpdateInput): Promise<PartyDetailResponse> => {
+    return api.patch<PartyDetailResponse>(`/api/parties/${id}`, data);
+  },
+
+  /**
+   * Delete a party and its candidates (admin)
+   */
+  delete: async (id: string): Promise<void> => {
+    await api.delete<void>(`/api/parties/${id}`);
+  },
 };
 
@@ -0,0 +1,98 @@
+/**
+ * Proposals API Service
+ * Handles the structured proposals extracted from the government plans
+ */
+
+import { api } from '../client';
+
+/**
+ * Proposal type matching backend response
+ */
+export interface Proposal {
+  id: string;
+  document_id: string;
+  party_id: string;
+  title: string;
+  topic: string;
+  description: string;
+  target_population: string | null;
+  quantitative_targets: string[];
+  funding_source: string | null;
+  page_start: number | null;
+  page_end: number | null;
+  position: number;
+  created_at: string;
+  documents?: {
+    document_id: string;
+    title: string;
+    party_name: string;
+  };
+}
+
+export interface ProposalDetail extends Proposal {
+  chunks: Array<{
+    id: string;
+    chunk_index: number;
+    content: string;
+  }>;
+}
+
+export interface ProposalsListResponse {
+  proposals: Proposal[];
+  pagination: {
+    total: number;
+    limit: number;
+    offset: number;
+    hasMore: boolean;
+  };
+}
+
+export interface ProposalTopicCount {
+  topic: string;
+  proposals: number;
+  withTargets: number;
+  withFunding: number;
+}
+
+export interface ListProposalsParams {
+  topic?: string;
+  party?: string; // Party slug or abbreviation
+  search?: string;
+  withTargets?: boolean;
+  limit?: number;
+  offset?: number;
+}
+
+export const proposalsService = {
+  /**
+   * Get proposals filtered by topic, party and/or text
+   */
+  list: async (params?: ListProposalsParams): Promise<ProposalsListResponse> => {
+    const queryParams = new URLSearchParams();
+
+    if (params?.topic) queryParams.append('topic', params.topic);
+    if (params?.party) queryParams.append('party', params.party);
+    if (params?.search) queryParams.append('search', params.search);
+    if (params?.withTargets) queryParams.append('withTargets', 'true');
+    if (params?.limit) queryParams.append('limit', params.limit.toString());
+    if (params?.offset) queryParams.append('offset', params.offset.toString());
+
+    const endpoint = `/api/proposals${queryParams.toString() ? `?${queryParams.toString()}` : ''}`;
+    return api.get<ProposalsListResponse>(endpoint);
+  },
+
+  /**
+   * Get the number of proposals per topic, optionally for one party
+   */
+  countByTopic: async (party?: string): Promise<{ topics: ProposalTopicCount[] }> => {
+    const endpoint = `/api/proposals/topics${party ? `?party=${encodeURIComponent(party)}` : ''}`;
+    return api.get<{ topics: ProposalTopicCount[] }>(endpoint);
+  },
+
+  /**
+   * Get a proposal with the chunks it was extracted from
+   */
+  getById: async (id: string): Promise<{ proposal: ProposalDetail }> => {
+    return api.get<{ proposal: ProposalDetail }>(`/api/proposals/${id}`);
+  },
+};
@@ -7,9 +7,16 @@
 // Request Types
 // ============================================================================
 
+export interface ChatHistoryMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
 export interface ChatRequest {
   query: string;
   conversationId?: string;
+  conversationHistory?: ChatHistoryMessage[];
+  verification?: 'off' | 'flag' | 'remove'; // Faithfulness check of the answer claims (non-streaming only)
   filters?: {
     party?: string[];
     section?: string[];
@@ -58,10 +65,59 @@ export interface AuthRefreshRequest {
 export interface ChatResponse {
   answer: string;
   sources: Source[];
+  citations?: Citation[];
+  claims?: AnswerClaim[];
+  verification?: AnswerVerification | null;
   conversationId: string;
   confidence: number;
 }
 
+/**
+ * Inline [N] marker of an answer resolved to the cited chunk
+ */
+export interface Citation {
+  marker: number;
+  chunkId: string;
+  documentId: string;
+  document: string;
+  party: string;
+  chunkIndex?: number;
+  pageNumber?: number;
+  pageRange?: { start: number; end: number };
+}
+
+/**
+ * Claim (bullet or paragraph) of an answer; cited is false when it has no citation
+ */
+export interface AnswerClaim {
+  text: string;
+  markers: number[];
+  cited: boolean;
+  section?: string;
+}
+
+/**
+ * Claim checked against the retrieved chunks
+ */
+export interface VerifiedClaim extends AnswerClaim {
+  supportScore: number;
+  supported: boolean;
+  lexicalOverlap: number;
+  judgeVerdict?: 'supported' | 'partial' | 'unsupported';
+  issues: string[];
+}
+
+/**
+ * Faithfulness verification of an answer
+ */
+export interface AnswerVerification {
+  claims: VerifiedClaim[];
+  supportScore: number;
+  unsupportedClaims: number;
+  removedClaims: number;
+  judged: boolean;
+}
+
 export interface Source {
   documentId: string;
   party: string;
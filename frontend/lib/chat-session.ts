@@ -0,0 +1,26 @@
+// Anonymous chat session
+// Conversations of visitors without an account are stored server-side under this id
+// and claimed by the account after signing up or logging in
+
+const SESSION_KEY = "ticobot_chat_session"
+
+export function getChatSessionId(): string | null {
+  if (typeof window === "undefined") return null
+
+  let sessionId = localStorage.getItem(SESSION_KEY)
+  if (!sessionId) {
+    sessionId = crypto.randomUUID()
+    localStorage.setItem(SESSION_KEY, sessionId)
+  }
+  return sessionId
+}
+
+export function peekChatSessionId(): string | null {
+  if (typeof window === "undefined") return null
+  return localStorage.getItem(SESSION_KEY)
+}
+
+export function clearChatSessionId(): void {
+  if (typeof window === "undefined") return
+  localStorage.removeItem(SESSION_KEY)
+}
@@ -12,4 +12,7 @@ export * from './use-auth';
 export * from './use-parties';
 export * from './use-candidates';
 export * from './use-compare';
+export * from './use-matrix';
+export * from './use-conversations';
+export * from './use-admin';
 export * from './query-keys';
@@ -28,6 +28,8 @@ export const documentKeys = {
   details: () => [...documentKeys.all, 'detail'] as const,
   detail: (id: string) => [...documentKeys.details(), id] as const,
   chunks: (id: string) => [...documentKeys.detail(id), 'chunks'] as const,
+  versions: (id: string) => [...documentKeys.detail(id), 'versions'] as const,
+  version: (id: string, version: number) => [...documentKeys.versions(id), version] as const,
 };
 
 /**
@@ -62,6 +64,7 @@ export const partyKeys = {
   detail: (id: string) => [...partyKeys.details(), id] as const,
   bySlug: (slug: string) => [...partyKeys.details(), 'slug', slug] as const,
   candidates: (partyId: string) => [...partyKeys.detail(partyId), 'candidates'] as const,
+  consistency: (partyId: string) => [...partyKeys.detail(partyId), 'consistency'] as const,
 };
 
 export const compareKeys = {
@@ -69,6 +72,15 @@ export const compareKeys = {
   compare: (params: { topic: string; partyIds: string[] }) => [...compareKeys.all, params] as const,
 };
 
+/**
+ * Proposal matrix query keys
+ */
+export const matrixKeys = {
+  all: ['matrix'] as const,
+  grid: (params?: { topics?: string[]; parties?: string[] }) => [...matrixKeys.all, 'grid', params] as const,
+  topics: () => [...matrixKeys.all, 'topics'] as const,
+};
+
 /**
  * Candidates-related query keys
  */
@@ -91,6 +103,17 @@ export const healthKeys = {
   diagnostics: () => [...healthKeys.all, 'diagnostics'] as const,
 };
 
+/**
+ * Admin dashboard query keys
+ */
+export const adminKeys = {
+  all: ['admin'] as const,
+  providers: () => [...adminKeys.all, 'providers'] as const,
+  providerHealth: (includeLLM: boolean) => [...adminKeys.all, 'providers', 'health', includeLLM] as const,
+  stats: () => [...adminKeys.all, 'stats'] as const,
+  warmup: () => [...adminKeys.all, 'warmup'] as const,
+};
+
 /**
  * All query keys combined for easy invalidation
  */
@@ -103,4 +126,6 @@ export const queryKeys = {
   parties: partyKeys,
   candidates: candidateKeys,
   compare: compareKeys,
+  matrix: matrixKeys,
+  admin: adminKeys,
 };
@@ -0,0 +1,166 @@
+/**
+ * React Query hooks for the admin dashboard
+ */
+
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { adminService } from '../api/services';
+import { APIError } from '../api/client';
+import { adminKeys } from './query-keys';
+import { toast } from '../toast';
+import type { IngestionJobDocument, IngestOptions, WarmupParams } from '../api/services/admin';
+
+/**
+ * Hook to fetch the active providers
+ */
+export function useAdminProviders() {
+  return useQuery({
+    queryKey: adminKeys.providers(),
+    queryFn: () => adminService.getProviders(),
+    staleTime: 60 * 1000, // 1 minute
+    retry: 1,
+  });
+}
+
+/**
+ * Hook to run the provider health checks on demand
+ * (every check is a real request, so it is not run on page load)
+ */
+export function useProviderHealthCheck() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (includeLLM: boolean = true) => adminService.checkProviderHealth(includeLLM),
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: adminKeys.providers() });
+      if (data.status === 'healthy') {
+        toast.success('Todos los proveedores responden');
+      } else {
+        toast.warning('Algunos proveedores no responden');
+      }
+    },
+    onError: () => {
+      toast.error('Error al verificar los proveedores');
+    },
+  });
+}
+
+/**
+ * Hook to fetch corpus counts and the ingestion job history
+ * Refreshes every few seconds while a job is queued or running
+ */
+export function useAdminStats() {
+  return useQuery({
+    queryKey: adminKeys.stats(),
+    queryFn: () => adminService.getStats(),
+    staleTime: 10 * 1000, // 10 seconds
+    refetchInterval: (query) => {
+      const jobs = query.state.data?.ingestion.jobs;
+      return jobs && jobs.queued + jobs.running > 0 ? 3000 : false;
+    },
+    retry: 1,
+  });
+}
+
+/**
+ * Hook to queue an ingestion job for one or more documents
+ */
+export function useStartIngestion() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ documents, options }: { documents: IngestionJobDocument[]; options?: IngestOptions }) =>
+      documents.length === 1
+        ? adminService.ingest(documents[0], options)
+        : adminService.ingestBatch(documents, options),
+    onSuccess: (_data, { documents }) => {
+      queryClient.invalidateQueries({ queryKey: adminKeys.stats() });
+      toast.success(
+        documents.length === 1
+          ? 'Ingesta en cola'
+          : `Ingesta de ${documents.length} documentos en cola`
+      );
+    },
+    onError: (error) => {
+      toast.error(
+        error instanceof APIError && error.statusCode === 400
+          ? 'Revisa las URLs y los identificadores de los documentos'
+          : 'Error al iniciar la ingesta'
+      );
+    },
+  });
+}
+
+/**
+ * Hook to cancel a queued or running ingestion job
+ */
+export function useCancelIngestionJob() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => adminService.cancelJob(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: adminKeys.stats() });
+      toast.success('Cancelación solicitada');
+    },
+    onError: (error) => {
+      toast.error(
+        error instanceof APIError && error.statusCode === 409
+          ? 'La ingesta ya terminó'
+          : 'Error al cancelar la ingesta'
+      );
+    },
+  });
+}
+
+/**
+ * Hook to queue a failed or cancelled ingestion job again
+ */
+export function useRetryIngestionJob() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => adminService.retryJob(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: adminKeys.stats() });
+      toast.success('Ingesta en cola de nuevo');
+    },
+    onError: () => {
+      toast.error('Error al reintentar la ingesta');
+    },
+  });
+}
+
+/**
+ * Hook to fetch the status of the last cache warmup
+ * Refreshes every few seconds while it runs
+ */
+export function useWarmupStatus() {
+  return useQuery({
+    queryKey: adminKeys.warmup(),
+    queryFn: () => adminService.getWarmupStatus(),
+    refetchInterval: (query) => (query.state.data?.warmup?.inProgress ? 3000 : false),
+    retry: 1,
+  });
+}
+
+/**
+ * Hook to start pre-computing the comparison cache
+ */
+export function useStartWarmup() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (params?: WarmupParams) => adminService.startWarmup(params),
+    onSuccess: (data) => {
+      queryClient.setQueryData(adminKeys.warmup(), data);
+      toast.success(`Precalculando ${data.warmup.total} comparaciones`);
+    },
+    onError: (error) => {
+      toast.error(
+        error instanceof APIError && error.statusCode === 409
+          ? 'Ya hay un precalentamiento en curso'
+          : 'Error al iniciar el precalentamiento'
+      );
+    },
+  });
+}
@@ -2,9 +2,10 @@
  * React Query hooks for Authentication API
  */
 
-import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import { authService } from '../api/services';
-import { authKeys } from './query-keys';
+import { useQuery, useMutation, useQueryClient, type QueryClient } from '@tanstack/react-query';
+import { authService, conversationsService } from '../api/services';
+import { authKeys, chatKeys } from './query-keys';
+import { peekChatSessionId, clearChatSessionId } from '../chat-session';
 import { toast } from '../toast';
 import { APIError } from '../api/client';
 import type {
@@ -13,6 +14,25 @@ import type {
   AuthRefreshRequest,
 } from '../api/types';
 
+/**
+ * Move the conversations of the anonymous chat session to the account
+ * that just signed up or logged in (best effort, chat keeps working if it fails)
+ */
+function claimAnonymousConversations(queryClient: QueryClient) {
+  const sessionId = peekChatSessionId();
+  if (!sessionId) return;
+
+  conversationsService
+    .claim(sessionId)
+    .then(() => {
+      clearChatSessionId();
+      queryClient.invalidateQueries({ queryKey: chatKeys.conversations() });
+    })
+    .catch((error) => {
+      console.error('Failed to claim anonymous conversations:', error);
+    });
+}
+
 /**
  * Hook for user profile
  */
@@ -54,6 +74,7 @@ export function useRegister() {
         localStorage.setItem('accessToken', data.accessToken);
         localStorage.setItem('refreshToken', data.refreshToken);
       }
+      claimAnonymousConversations(queryClient);
     },
     onError: (error) => {
       const message =
@@ -108,6 +129,7 @@ export function useLogin() {
         localStorage.setItem('accessToken', data.accessToken);
         localStorage.setItem('refreshToken', data.refreshToken);
       }
+      claimAnonymousConversations(queryClient);
     },
     onError: (error, variables, context) => {
       // Rollback to previous user data on error
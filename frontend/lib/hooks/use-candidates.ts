@@ -2,10 +2,12 @@
  * React Query hooks for Candidates API
  */
 
-import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 import { candidatesService } from '../api/services';
-import { candidateKeys } from './query-keys';
-import type { ListCandidatesParams } from '../api/services/candidates';
+import { APIError } from '../api/client';
+import { candidateKeys, partyKeys } from './query-keys';
+import { toast } from '../toast';
+import type { CandidateInput, CandidateUpdateInput, ListCandidatesParams } from '../api/services/candidates';
 
 /**
  * Hook to fetch list of candidates
@@ -75,3 +77,68 @@ export function usePrefetchCandidateBySlug() {
   };
 }
 
+/**
+ * Hook to create a candidate (admin)
+ */
+export function useCreateCandidate() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (data: CandidateInput) => candidatesService.create(data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: candidateKeys.all });
+      queryClient.invalidateQueries({ queryKey: partyKeys.all });
+      toast.success('Candidato creado');
+    },
+    onError: (error) => {
+      toast.error(
+        error instanceof APIError && error.statusCode === 409
+          ? 'Ya existe un candidato con ese slug'
+          : 'Error al crear el candidato'
+      );
+    },
+  });
+}
+
+/**
+ * Hook to update a candidate (admin)
+ */
+export function useUpdateCandidate() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, data }: { id: string; data: CandidateUpdateInput }) => candidatesService.update(id, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: candidateKeys.all });
+      queryClient.invalidateQueries({ queryKey: partyKeys.all });
+      toast.success('Candidato actualizado');
+    },
+    onError: (error) => {
+      toast.error(
+        error instanceof APIError && error.statusCode === 409
+          ? 'Ya existe un candidato con ese slug'
+          : 'Error al actualizar el candidato'
+      );
+    },
+  });
+}
+
+/**
+ * Hook to delete a candidate (admin)
+ */
+export function useDeleteCandidate() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => candidatesService.delete(id),
+    onSuccess: (_data, id) => {
+      queryClient.removeQueries({ queryKey: candidateKeys.detail(id) });
+      queryClient.invalidateQueries({ queryKey: candidateKeys.all });
+      queryClient.invalidateQueries({ queryKey: partyKeys.all });
+      toast.success('Candidato eliminado');
+    },
+    onError: () => {
+      toast.error('Error al eliminar el candidato');
+    },
+  });
+}
@@ -14,6 +14,8 @@ interface UseChatStreamReturn {
   isStreaming: boolean;
   streamedContent: string;
   sources: ChatResponse['sources'] | null;
+  citations: ChatResponse['citations'] | null;
+  conversationId: string | null;
   error: Error | null;
 }
 
@@ -33,6 +35,8 @@ export function useChatStream(): UseChatStreamReturn {
   const [isStreaming, setIsStreaming] = useState(false);
   const [streamedContent, setStreamedContent] = useState('');
   const [sources, setSources] = useState<ChatResponse['sources'] | null>(null);
+  const [citations, setCitations] = useState<ChatResponse['citations'] | null>(null);
+  const [conversationId, setConversationId] = useState<string | null>(null);
   const [error, setError] = useState<Error | null>(null);
   const cancelRef = useRef<(() => void) | null>(null);
 
@@ -52,6 +56,8 @@ export function useChatStream(): UseChatStreamReturn {
         (response: ChatResponse) => {
           setIsStreaming(false);
           setSources(response.sources || null);
+          setCitations(response.citations || null);
+          setConversationId(response.conversationId || null);
           // Could store response metadata here if needed
           console.log('Stream completed:', response);
         },
@@ -80,6 +86,7 @@ export function useChatStream(): UseChatStreamReturn {
   const reset = useCallback(() => {
     setStreamedContent('');
     setSources(null);
+    setCitations(null);
     setError(null);
   }, []);
 
@@ -90,6 +97,8 @@ export function useChatStream(): UseChatStreamReturn {
     isStreaming,
     streamedContent,
     sources,
+    citations,
+    conversationId,
     error,
   };
 }
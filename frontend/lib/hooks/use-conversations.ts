@@ -0,0 +1,86 @@
+/**
+ * React Query hooks for Conversations API
+ */
+
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { conversationsService } from '../api/services';
+import { chatKeys } from './query-keys';
+import { toast } from '../toast';
+import type { ListConversationsParams } from '../api/services/conversations';
+
+/**
+ * Hook to fetch the current user's conversations
+ */
+export function useConversations(params?: ListConversationsParams, enabled = true) {
+  return useQuery({
+    queryKey: [...chatKeys.conversations(), params] as const,
+    queryFn: () => conversationsService.list(params),
+    enabled,
+    staleTime: 30 * 1000, // 30 seconds
+    retry: 1,
+  });
+}
+
+/**
+ * Hook to fetch a conversation with its messages
+ */
+export function useConversation(id: string, enabled = true) {
+  return useQuery({
+    queryKey: chatKeys.conversation(id),
+    queryFn: () => conversationsService.getById(id),
+    enabled: enabled && !!id,
+    retry: 1,
+  });
+}
+
+/**
+ * Hook to create an empty conversation
+ */
+export function useCreateConversation() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (title: string) => conversationsService.create(title),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: chatKeys.conversations() });
+    },
+    onError: () => {
+      toast.error('Error al crear la conversación');
+    },
+  });
+}
+
+/**
+ * Hook to rename a conversation
+ */
+export function useRenameConversation() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, title }: { id: string; title: string }) => conversationsService.rename(id, title),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: chatKeys.conversations() });
+    },
+    onError: () => {
+      toast.error('Error al renombrar la conversación');
+    },
+  });
+}
+
+/**
+ * Hook to delete a conversation
+ */
+export function useDeleteConversation() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => conversationsService.delete(id),
+    onSuccess: (_data, id) => {
+      queryClient.removeQueries({ queryKey: chatKeys.conversation(id) });
+      queryClient.invalidateQueries({ queryKey: chatKeys.conversations() });
+    },
+    onError: () => {
+      toast.error('Error al eliminar la conversación');
+    },
+  });
+}
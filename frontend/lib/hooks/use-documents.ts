@@ -47,6 +47,32 @@ export function useDocumentChunks(id: string, enabled = true) {
   });
 }
 
+/**
+ * Hook to fetch the version history of a document
+ */
+export function useDocumentVersions(id: string, enabled = true) {
+  return useQuery({
+    queryKey: documentKeys.versions(id),
+    queryFn: () => documentsService.getVersions(id),
+    enabled: enabled && !!id,
+    staleTime: 5 * 60 * 1000, // 5 minutes
+    retry: 1, // Retry once on failure
+  });
+}
+
+/**
+ * Hook to fetch what changed in a version of a document
+ */
+export function useDocumentVersion(id: string, version: number | null, enabled = true) {
+  return useQuery({
+    queryKey: documentKeys.version(id, version ?? 0),
+    queryFn: () => documentsService.getVersion(id, version as number),
+    enabled: enabled && !!id && version !== null,
+    staleTime: 30 * 60 * 1000, // 30 minutes, a version never changes
+    retry: 1, // Retry once on failure
+  });
+}
+
 /**
  * Hook to prefetch a document (useful for hover states)
  */
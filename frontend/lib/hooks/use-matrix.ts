@@ -0,0 +1,28 @@
+/**
+ * React Query hooks for the proposal matrix API
+ */
+
+import { useQuery } from '@tanstack/react-query';
+import { matrixService } from '../api/services';
+import { matrixKeys } from './query-keys';
+import type { GetMatrixParams } from '../api/services/matrix';
+
+/**
+ * Hook to fetch the topic x party matrix
+ */
+export function useProposalMatrix(params?: GetMatrixParams, enabled = true) {
+  return useQuery({
+    queryKey: matrixKeys.grid(params),
+    queryFn: () => matrixService.get(params),
+    enabled,
+    staleTime: 10 * 60 * 1000, // 10 minutes
+    retry: 1,
+  });
+}
+
+/**
+ * Hook to fetch the matrix row of a party (one cell per topic)
+ */
+export function usePartyMatrix(partySlug: string, enabled = true) {
+  return useProposalMatrix({ parties: [partySlug] }, enabled && !!partySlug);
+}
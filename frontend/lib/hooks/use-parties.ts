@@ -2,10 +2,12 @@
  * React Query hooks for Parties API
  */
 
-import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 import { partiesService } from '../api/services';
-import { partyKeys } from './query-keys';
-import type { ListPartiesParams } from '../api/services/parties';
+import { APIError } from '../api/client';
+import { candidateKeys, partyKeys } from './query-keys';
+import { toast } from '../toast';
+import type { ListPartiesParams, PartyInput, PartyUpdateInput } from '../api/services/parties';
 
 /**
  * Hook to fetch list of parties
@@ -45,6 +47,19 @@ export function usePartyBySlug(slug: string, enabled = true) {
   });
 }
 
+/**
+ * Hook to fetch the contradictions found in a party's plan
+ */
+export function usePartyConsistency(partyId: string, enabled = true) {
+  return useQuery({
+    queryKey: partyKeys.consistency(partyId),
+    queryFn: () => partiesService.getConsistency(partyId),
+    enabled: enabled && !!partyId,
+    staleTime: 10 * 60 * 1000, // 10 minutes
+    retry: 1,
+  });
+}
+
 /**
  * Hook to fetch candidates for a specific party
  */
@@ -88,3 +103,66 @@ export function usePrefetchPartyBySlug() {
   };
 }
 
+/**
+ * Hook to create a party (admin)
+ */
+export function useCreateParty() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (data: PartyInput) => partiesService.create(data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: partyKeys.all });
+      toast.success('Partido creado');
+    },
+    onError: (error) => {
+      toast.error(
+        error instanceof APIError && error.statusCode === 409
+          ? 'Ya existe un partido con ese nombre o slug'
+          : 'Error al crear el partido'
+      );
+    },
+  });
+}
+
+/**
+ * Hook to update a party (admin)
+ */
+export function useUpdateParty() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, data }: { id: string; data: PartyUpdateInput }) => partiesService.update(id, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: partyKeys.all });
+      toast.success('Partido actualizado');
+    },
+    onError: (error) => {
+      toast.error(
+        error instanceof APIError && error.statusCode === 409
+          ? 'Ya existe un partido con ese slug'
+          : 'Error al actualizar el partido'
+      );
+    },
+  });
+}
+
+/**
+ * Hook to delete a party and its candidates (admin)
+ */
+export function useDeleteParty() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => partiesService.delete(id),
+    onSuccess: (_data, id) => {
+      queryClient.removeQueries({ queryKey: partyKeys.detail(id) });
+      queryClient.invalidateQueries({ queryKey: partyKeys.all });
+      queryClient.invalidateQueries({ queryKey: candidateKeys.all });
+      toast.success('Partido eliminado');
+    },
+    onError: () => {
+      toast.error('Error al eliminar el partido');
+    },
+  });
+}
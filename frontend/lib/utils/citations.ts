@@ -0,0 +1,50 @@
+/**
+ * Utility functions for inline citation markers
+ */
+
+import type { Citation } from '@/lib/api/types';
+
+/**
+ * Inline markers emitted by the backend: [1], [1, 3], [Source 2]
+ */
+const MARKER_PATTERN = /\[((?:(?:source|fuente)\s*)?\d+(?:\s*,\s*(?:(?:source|fuente)\s*)?\d+)*)\]/gi;
+
+/**
+ * Prefix of the links generated for citation markers
+ */
+export const CITATION_LINK_PREFIX = '/admin/database/text-viewer?chunk=';
+
+/**
+ * URL of the text viewer opened at the cited chunk
+ */
+export function getCitationUrl(citation: Citation): string {
+  return `${CITATION_LINK_PREFIX}${encodeURIComponent(citation.chunkId)}`;
+}
+
+/**
+ * Replace inline citation markers with markdown links to the cited chunks
+ * Markers without a matching citation are removed
+ */
+export function linkCitationMarkers(content: string, citations: Citation[] = []): string {
+  const byMarker = new Map(citations.map(citation => [citation.marker, citation]));
+
+  return content.replace(MARKER_PATTERN, (_match, group: string) => {
+    const links = (group.match(/\d+/g) || [])
+      .map(value => byMarker.get(parseInt(value, 10)))
+      .filter((citation): citation is Citation => Boolean(citation))
+      .map(citation => `[${citation.marker}](${getCitationUrl(citation)})`);
+
+    return links.join(' ');
+  });
+}
+
+/**
+ * Human-readable page label of a citation (e.g. "pág. 12" or "págs. 12-13")
+ */
+export function formatCitationPages(citation: Citation): string | null {
+  if (citation.pageRange && citation.pageRange.start !== citation.pageRange.end) {
+    return `págs. ${citation.pageRange.start}-${citation.pageRange.end}`;
+  }
+  const page = citation.pageRange?.start ?? citation.pageNumber;
+  return page ? `pág. ${page}` : null;
+}
@@ -0,0 +1,27 @@
+/**
+ * Utility functions for party government plans
+ */
+
+import type { Party } from '@/lib/api/services/parties';
+
+/**
+ * Map party name/abbreviation/slug/TSE document id to the official TSE plan URL
+ * Returns a map for quick lookup
+ */
+export function createPartyPlanUrlMap(parties: Party[]): Map<string, string> {
+  const planUrlMap = new Map<string, string>();
+
+  parties.forEach(party => {
+    if (!party.tse_plan_url) {
+      return;
+    }
+
+    for (const key of [party.name, party.abbreviation, party.slug, party.document_party_id]) {
+      if (key) {
+        planUrlMap.set(key.toLowerCase(), party.tse_plan_url);
+      }
+    }
+  });
+
+  return planUrlMap;
+}
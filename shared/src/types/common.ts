@@ -26,6 +26,13 @@ export interface GenerationOptions {
   frequencyPenalty?: number;
   presencePenalty?: number;
   stop?: string[];
+  /** Aborts the in-flight request (e.g. when an SSE client disconnects) */
+  signal?: AbortSignal;
+  /**
+   * Called with the model that serves the request, for providers that pick
+   * one per request (e.g. a fallback chain); streaming only yields text
+   */
+  onModel?: (model: string) => void;
 }
 
 export interface LLMResponse {